@@ -0,0 +1,267 @@
+/**
+ * Import Stock PP per Tyre Compound
+ *
+ * This script loads GT7's stock PP figures per tyre compound from the raw data dump
+ * into the CarStockPerformance table. The build performance estimator
+ * (src/lib/build-performance.ts) uses these as its starting point.
+ *
+ * Usage:
+ *   npx tsx scripts/import-stock-performance.ts
+ *
+ * Prerequisites:
+ *   - Migration 20261019110000_build_performance.sql applied (CarStockPerformance table)
+ *   - Cars imported (scripts/import-cars-combined.ts)
+ *   - Environment variables must be set:
+ *     * NEXT_PUBLIC_SUPABASE_URL - Your Supabase project URL
+ *     * SUPABASE_SERVICE_ROLE_KEY - Service role key for admin access
+ *   - CSV files must exist:
+ *     * gt7data/rawcsv/stockperf.csv (ID,PP,Tyre)
+ *     * gt7data/rawcsv/cars.csv (ID,ShortName,Maker)
+ *     * gt7data/rawcsv/maker.csv (ID,Name,Country)
+ *
+ * Data Flow:
+ *   1. Read the three CSV files
+ *   2. Resolve each GT7 car ID to a manufacturer, model and year:
+ *      - ShortName "180SX Type X '96" → model "180SX Type X", year 1996
+ *   3. Match to Car rows by manufacturer + name + year
+ *      (falls back to manufacturer + name when that is unique)
+ *   4. Replace CarStockPerformance rows for matched cars (upsert on carId + tyre)
+ *   5. Report unmatched cars for manual review
+ *   6. Re-estimate every existing build (CarBuild.estimatedPp etc.) with the new figures
+ *
+ * Tyre Codes:
+ *   CH/CM/CS Comfort, SH/SM/SS Sports, RH/RM/RS Racing, IM Intermediate,
+ *   W Heavy Wet, D Dirt, S Snow
+ *
+ * Important Notes:
+ *   - Safe to run repeatedly (upsert)
+ *   - Uses service role key to bypass RLS policies
+ *   - Existing builds are re-estimated at the end (refreshBuildPerformance per build)
+ *
+ * Dependencies:
+ *   - fs: File system access for reading CSV files
+ *   - path: Path manipulation for file locations
+ *   - @supabase/supabase-js: Supabase client for database operations
+ *   - src/lib/build-performance.ts: The estimator the app uses on save
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { createClient } from '@supabase/supabase-js'
+import { refreshBuildPerformance } from '../src/lib/build-performance'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Supabase configuration
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error('❌ Missing Supabase credentials')
+  console.error('   Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY')
+  process.exit(1)
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+// CSV file paths
+const RAW_CSV_DIR = path.join(process.cwd(), 'gt7data', 'rawcsv')
+const STOCKPERF_CSV_PATH = path.join(RAW_CSV_DIR, 'stockperf.csv')
+const CARS_CSV_PATH = path.join(RAW_CSV_DIR, 'cars.csv')
+const MAKERS_CSV_PATH = path.join(RAW_CSV_DIR, 'maker.csv')
+
+const TYRE_CODES = new Set(['CH', 'CM', 'CS', 'SH', 'SM', 'SS', 'RH', 'RM', 'RS', 'IM', 'W', 'D', 'S'])
+
+// ============================================================================
+// CSV Parser
+// ============================================================================
+
+interface CSVRow {
+  [key: string]: string
+}
+
+/**
+ * Parse CSV content (the raw files have no quoted values)
+ *
+ * @param content - Raw CSV content
+ * @returns Array of row objects
+ */
+function parseCSV(content: string): CSVRow[] {
+  const lines = content.split('\n').map(line => line.replace(/\r$/, '')).filter(line => line.trim())
+  if (lines.length === 0) return []
+
+  const headers = lines[0].split(',').map(h => h.trim())
+  return lines.slice(1).map(line => {
+    const values = line.split(',')
+    const row: CSVRow = {}
+    headers.forEach((header, index) => {
+      row[header] = (values[index] || '').trim()
+    })
+    return row
+  })
+}
+
+// ============================================================================
+// Car Matching
+// ============================================================================
+
+/**
+ * Split a GT7 short name into model and year
+ * "180SX Type X '96" → { model: "180SX Type X", year: 1996 }
+ */
+function parseShortName(shortName: string): { model: string; year: number | null } {
+  const match = shortName.match(/^(.*?)\s+'(\d{2})$/)
+  if (!match) return { model: shortName.trim(), year: null }
+
+  const yy = parseInt(match[2], 10)
+  return { model: match[1].trim(), year: yy >= 50 ? 1900 + yy : 2000 + yy }
+}
+
+function carKey(manufacturer: string, name: string, year?: number | null): string {
+  const base = `${manufacturer.toLowerCase()}|${name.toLowerCase()}`
+  return year === undefined ? base : `${base}|${year ?? ''}`
+}
+
+// ============================================================================
+// Main Import Function
+// ============================================================================
+
+async function importStockPerformance() {
+  const stockRows = parseCSV(fs.readFileSync(STOCKPERF_CSV_PATH, 'utf-8'))
+  const carRows = parseCSV(fs.readFileSync(CARS_CSV_PATH, 'utf-8'))
+  const makerRows = parseCSV(fs.readFileSync(MAKERS_CSV_PATH, 'utf-8'))
+
+  console.log(`Found ${stockRows.length} stock PP rows for ${new Set(stockRows.map(r => r.ID)).size} cars`)
+
+  const makers = new Map(makerRows.map(r => [r.ID, r.Name]))
+  const gt7Cars = new Map(carRows.map(r => [r.ID, { ...parseShortName(r.ShortName), maker: makers.get(r.Maker) || '' }]))
+
+  // Lookup maps: exact (with year) and by name only (only when unique)
+  const { data: cars, error: carsError } = await supabase
+    .from('Car')
+    .select('id, name, manufacturer, year')
+
+  if (carsError || !cars) {
+    throw carsError || new Error('No cars found')
+  }
+
+  const byExactKey = new Map<string, string>()
+  const byNameKey = new Map<string, string | null>()
+  for (const car of cars) {
+    byExactKey.set(carKey(car.manufacturer, car.name, car.year), car.id)
+    const nameKey = carKey(car.manufacturer, car.name)
+    byNameKey.set(nameKey, byNameKey.has(nameKey) ? null : car.id)
+  }
+
+  // Resolve each stockperf row to a Car ID
+  const records: Array<{ carId: string; tyre: string; pp: number }> = []
+  const unmatched = new Set<string>()
+
+  for (const row of stockRows) {
+    if (!TYRE_CODES.has(row.Tyre)) continue
+
+    const gt7Car = gt7Cars.get(row.ID)
+    const carId = gt7Car
+      ? byExactKey.get(carKey(gt7Car.maker, gt7Car.model, gt7Car.year)) ?? byNameKey.get(carKey(gt7Car.maker, gt7Car.model))
+      : null
+
+    if (!carId) {
+      unmatched.add(gt7Car ? `${gt7Car.maker} ${gt7Car.model} (${row.ID})` : `GT7 car ${row.ID}`)
+      continue
+    }
+
+    records.push({ carId, tyre: row.Tyre, pp: parseFloat(row.PP) })
+  }
+
+  // Upsert in batches
+  const batchSize = 500
+  let imported = 0
+
+  for (let i = 0; i < records.length; i += batchSize) {
+    const batch = records.slice(i, i + batchSize)
+    const { error } = await supabase
+      .from('CarStockPerformance')
+      .upsert(batch, { onConflict: 'carId,tyre' })
+
+    if (error) {
+      console.error('Batch import error:', error)
+    } else {
+      imported += batch.length
+      console.log(`Imported ${imported}/${records.length} rows...`)
+    }
+  }
+
+  console.log(`\n✓ Import complete:`)
+  console.log(`  - Imported: ${imported} rows`)
+  console.log(`  - Unmatched cars: ${unmatched.size}`)
+  for (const name of unmatched) {
+    console.log(`    ⚠️  ${name}`)
+  }
+
+  await backfillBuildEstimates()
+}
+
+// ============================================================================
+// Build Estimate Backfill
+// ============================================================================
+
+/**
+ * Re-estimate every build with the imported stock figures
+ * Build IDs are read in pages (PostgREST returns at most 1000 rows per request)
+ */
+async function backfillBuildEstimates() {
+  const pageSize = 1000
+  const buildIds: string[] = []
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('CarBuild')
+      .select('id')
+      .order('id')
+      .range(from, from + pageSize - 1)
+
+    if (error) throw error
+
+    buildIds.push(...(data || []).map(build => build.id as string))
+    if (!data || data.length < pageSize) break
+  }
+
+  console.log(`\nRe-estimating ${buildIds.length} builds...`)
+
+  let refreshed = 0
+  let failed = 0
+
+  for (const buildId of buildIds) {
+    try {
+      await refreshBuildPerformance(supabase, buildId)
+      refreshed++
+    } catch (error) {
+      failed++
+      console.error(`Build ${buildId} estimate error:`, error)
+    }
+
+    if ((refreshed + failed) % 100 === 0) {
+      console.log(`Re-estimated ${refreshed + failed}/${buildIds.length} builds...`)
+    }
+  }
+
+  console.log(`\n✓ Backfill complete:`)
+  console.log(`  - Re-estimated: ${refreshed} builds`)
+  console.log(`  - Failed: ${failed} builds`)
+}
+
+// ============================================================================
+// Script Entry Point
+// ============================================================================
+
+importStockPerformance()
+  .then(() => {
+    console.log('Done!')
+    process.exit(0)
+  })
+  .catch((err) => {
+    console.error('Fatal error:', err)
+    process.exit(1)
+  })
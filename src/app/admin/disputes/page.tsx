@@ -0,0 +1,325 @@
+/**
+ * ADMIN LAP TIME DISPUTES PAGE
+ *
+ * Purpose:
+ * Review lap times flagged by members and settle them for leaderboards and race standings.
+ *
+ * Key Features:
+ * - Status filter: Open (default), accepted, removed, all
+ * - Each dispute: Disputed lap (driver, time, track, car), who raised it and why
+ * - Resolve: Optional note, then "Accept Lap" (lap stands) or "Remove Lap"
+ *   (hidden from leaderboards and race standings)
+ * - History button: The lap's edits and earlier disputes (LapTimeHistoryDialog)
+ * - Access control with 403 handling (same as /admin/users)
+ *
+ * Data Flow:
+ * 1. On mount / filter change: GET /api/lap-time-disputes?status=...
+ * 2. Resolve: PATCH /api/lap-time-disputes/{id} → refetch
+ * 3. Success/error messages displayed with auto-hide
+ *
+ * API Integration:
+ * - GET /api/lap-time-disputes: Disputes with lap and people (requires ADMIN role)
+ * - PATCH /api/lap-time-disputes/{id}: { resolution: ACCEPTED | REMOVED, resolutionNote }
+ *
+ * Common Issues:
+ * - 409 on resolve: Another admin resolved it first - the list refreshes
+ * - Time is wrong but not fake: Ask the driver to edit it (or edit it as admin), then accept
+ *
+ * Related Files:
+ * - /api/lap-time-disputes/route.ts: List API
+ * - /api/lap-time-disputes/[id]/route.ts: Resolution API
+ * - @/components/lap-times/LapTimeHistoryDialog.tsx: Where members raise disputes
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowLeft, AlertTriangle, Check, Flag, History, Loader2, Shield, Trash2 } from 'lucide-react'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { LapTimeHistoryDialog } from '@/components/lap-times/LapTimeHistoryDialog'
+import { formatLapTime } from '@/lib/time'
+import type { DbLapTimeDispute } from '@/types/database'
+
+type Person = { id: string; name: string | null; gamertag: string | null } | null
+
+type Dispute = DbLapTimeDispute & {
+  raisedBy: Person
+  resolvedBy: Person
+  lapTime: {
+    id: string
+    timeMs: number
+    createdAt: string
+    user: Person
+    track: { name: string; layout: string | null } | null
+    car: { name: string; manufacturer: string } | null
+  } | null
+}
+
+type Message = {
+  type: 'success' | 'error'
+  text: string
+}
+
+const STATUS_OPTIONS = [
+  { value: 'OPEN', label: 'Open' },
+  { value: 'ACCEPTED', label: 'Accepted' },
+  { value: 'REMOVED', label: 'Removed' },
+  { value: 'all', label: 'All' },
+]
+
+const personName = (person: Person) => person?.gamertag || person?.name || 'Unknown'
+
+export default function AdminDisputesPage() {
+  const [disputes, setDisputes] = useState<Dispute[]>([])
+  const [status, setStatus] = useState('OPEN')
+  const [loading, setLoading] = useState(true)
+  const [processingId, setProcessingId] = useState<string | null>(null)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [historyLapId, setHistoryLapId] = useState<string | null>(null)
+  const [message, setMessage] = useState<Message | null>(null)
+  const [isForbidden, setIsForbidden] = useState(false)
+  const router = useRouter()
+
+  // ===========================================================================
+  // DATA FETCHING & SIDE EFFECTS
+  // ===========================================================================
+
+  const fetchDisputes = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/lap-time-disputes?status=${status}`)
+      if (res.status === 401) {
+        router.push('/')
+        return
+      }
+      if (res.status === 403) {
+        setIsForbidden(true)
+        return
+      }
+      const data = await res.json()
+      setDisputes(data.disputes || [])
+    } catch (error) {
+      console.error('Failed to fetch disputes:', error)
+      setMessage({ type: 'error', text: 'Failed to load disputes' })
+    } finally {
+      setLoading(false)
+    }
+  }, [status, router])
+
+  useEffect(() => {
+    fetchDisputes()
+  }, [fetchDisputes])
+
+  // Auto-hide messages after 5 seconds
+  useEffect(() => {
+    if (message) {
+      const timer = setTimeout(() => setMessage(null), 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [message])
+
+  // ===========================================================================
+  // API CALLS
+  // ===========================================================================
+
+  async function resolveDispute(dispute: Dispute, resolution: 'ACCEPTED' | 'REMOVED') {
+    setProcessingId(dispute.id)
+    setMessage(null)
+
+    try {
+      const res = await fetch(`/api/lap-time-disputes/${dispute.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolution, resolutionNote: notes[dispute.id] || null }),
+      })
+
+      if (res.ok) {
+        setMessage({ type: 'success', text: resolution === 'REMOVED' ? 'Lap time removed' : 'Lap time accepted' })
+      } else {
+        const data = await res.json()
+        setMessage({ type: 'error', text: data.error || 'Failed to resolve dispute' })
+      }
+      await fetchDisputes()
+    } catch (error) {
+      console.error('Failed to resolve dispute:', error)
+      setMessage({ type: 'error', text: 'Failed to resolve dispute' })
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  // ===========================================================================
+  // RENDER
+  // ===========================================================================
+
+  if (loading) {
+    return (
+      <PageWrapper>
+        <LoadingSection text="Loading disputes..." />
+      </PageWrapper>
+    )
+  }
+
+  if (isForbidden) {
+    return (
+      <PageWrapper>
+        <div className="flex flex-col items-center justify-center min-h-[60vh] text-center space-y-6">
+          <div className="w-20 h-20 rounded-full bg-primary/10 flex items-center justify-center">
+            <Shield className="h-10 w-10 text-primary" />
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold">Access Denied</h1>
+            <p className="text-muted-foreground text-lg">Admin access required</p>
+            <p className="text-muted-foreground text-sm">This page is only accessible to administrators.</p>
+          </div>
+          <Button onClick={() => router.push('/')} className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Home
+          </Button>
+        </div>
+      </PageWrapper>
+    )
+  }
+
+  return (
+    <PageWrapper>
+      {/* ========================================================================
+          SUCCESS/ERROR MESSAGE BANNER
+          ======================================================================== */}
+      {message && (
+        <div className={`rounded-md border p-4 ${
+          message.type === 'success'
+            ? 'bg-green-500/10 border-green-500/20 text-green-500'
+            : 'bg-destructive/10 border-destructive/20 text-destructive'
+        }`}>
+          <div className="flex items-center gap-2">
+            {message.type === 'success' ? <Check className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+            <p className="text-sm font-medium">{message.text}</p>
+          </div>
+        </div>
+      )}
+
+      {/* ========================================================================
+          PAGE HEADER
+          ======================================================================== */}
+      <PageHeader
+        title="LAP TIME DISPUTES"
+        icon={Flag}
+        description="Review lap times flagged by members"
+        actions={
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-36" aria-label="Dispute status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        }
+      />
+
+      {/* ========================================================================
+          DISPUTE LIST
+          ======================================================================== */}
+      {disputes.length === 0 ? (
+        <EmptyState
+          icon={Flag}
+          title={status === 'OPEN' ? 'No open disputes' : 'No disputes'}
+          description={status === 'OPEN' ? 'Every lap time is settled' : undefined}
+        />
+      ) : (
+        <div className="space-y-3">
+          {disputes.map((dispute) => {
+            const lap = dispute.lapTime
+            return (
+              <div key={dispute.id} className="border border-border rounded-lg p-4 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-start gap-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold">{personName(lap?.user ?? null)}</span>
+                      <span className="font-mono font-bold text-primary">{lap ? formatLapTime(lap.timeMs) : '-'}</span>
+                      <Badge variant={dispute.status === 'OPEN' ? 'secondary' : dispute.status === 'REMOVED' ? 'destructive' : 'outline'}>
+                        {STATUS_OPTIONS.find((option) => option.value === dispute.status)?.label}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {lap?.track ? `${lap.track.name}${lap.track.layout ? ` - ${lap.track.layout}` : ''}` : 'Unknown track'}
+                      {' • '}
+                      {lap?.car ? `${lap.car.manufacturer} ${lap.car.name}` : 'Unknown car'}
+                    </p>
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">{personName(dispute.raisedBy)}:</span> {dispute.comment}
+                    </p>
+                    {dispute.resolvedAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Resolved by {personName(dispute.resolvedBy)} on {new Date(dispute.resolvedAt).toLocaleDateString()}
+                        {dispute.resolutionNote && ` - ${dispute.resolutionNote}`}
+                      </p>
+                    )}
+                  </div>
+                  {lap && (
+                    <Button variant="ghost" size="sm" onClick={() => setHistoryLapId(lap.id)} className="gap-2 shrink-0">
+                      <History className="h-4 w-4" />
+                      History
+                    </Button>
+                  )}
+                </div>
+
+                {dispute.status === 'OPEN' && (
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      value={notes[dispute.id] || ''}
+                      onChange={(e) => setNotes({ ...notes, [dispute.id]: e.target.value })}
+                      placeholder="Resolution note (optional)"
+                      maxLength={500}
+                      className="flex-1"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => resolveDispute(dispute, 'ACCEPTED')}
+                      disabled={processingId === dispute.id}
+                      className="gap-2"
+                    >
+                      {processingId === dispute.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                      Accept Lap
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={() => resolveDispute(dispute, 'REMOVED')}
+                      disabled={processingId === dispute.id}
+                      className="gap-2"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Remove Lap
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <LapTimeHistoryDialog
+        lapTimeId={historyLapId}
+        open={!!historyLapId}
+        onOpenChange={(open) => !open && setHistoryLapId(null)}
+      />
+    </PageWrapper>
+  )
+}
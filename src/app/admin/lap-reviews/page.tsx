@@ -0,0 +1,327 @@
+/**
+ * ADMIN LAP TIME REVIEWS PAGE
+ *
+ * Purpose:
+ * Review lap times the outlier check flagged as implausible and the driver saved anyway.
+ *
+ * Key Features:
+ * - Status filter: Pending (default), approved, rejected, all
+ * - Each lap: Driver, time, track (length), car and why it was flagged
+ * - Review: Optional note, then "Approve" (lap stands, may set records) or "Reject"
+ *   (hidden from leaderboards and race standings)
+ * - History button: The lap's edits and disputes (LapTimeHistoryDialog)
+ * - Access control with 403 handling (same as /admin/users)
+ *
+ * Data Flow:
+ * 1. On mount / filter change: GET /api/lap-time-reviews?status=...
+ * 2. Review: PATCH /api/lap-time-reviews/{lapTimeId} → refetch
+ * 3. Success/error messages displayed with auto-hide
+ *
+ * API Integration:
+ * - GET /api/lap-time-reviews: Flagged laps (requires ADMIN role)
+ * - PATCH /api/lap-time-reviews/{id}: { decision: APPROVED | REJECTED, note }
+ *
+ * Common Issues:
+ * - 409 on review: Another admin reviewed it first, or the driver fixed the time
+ * - Typo rather than fake: Edit the lap to the right time - a plausible time clears the flag
+ *
+ * Related Files:
+ * - /api/lap-time-reviews/route.ts: List API
+ * - /api/lap-time-reviews/[id]/route.ts: Review API
+ * - @/lib/lap-time-outliers.ts: Outlier checks and thresholds
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowLeft, AlertTriangle, Check, History, Loader2, Shield, ShieldAlert, Trash2 } from 'lucide-react'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { LapTimeHistoryDialog } from '@/components/lap-times/LapTimeHistoryDialog'
+import { formatLapTime } from '@/lib/time'
+import { averageSpeedKmh, LAP_TIME_REVIEW_STATUS_LABELS, OUTLIER_CODE_LABELS, type OutlierCode } from '@/lib/lap-time-outliers'
+import type { LapTimeReviewStatus } from '@/types/database'
+
+type Person = { id: string; name: string | null; gamertag: string | null } | null
+
+interface FlaggedLap {
+  id: string
+  timeMs: number
+  reviewStatus: LapTimeReviewStatus
+  outlierReasons: OutlierCode[] | null
+  reviewedAt: string | null
+  createdAt: string
+  buildName: string | null
+  user: Person
+  reviewedBy: Person
+  track: { name: string; layout: string | null; length: number | null } | null
+  car: { name: string; manufacturer: string; category: string | null } | null
+}
+
+type Message = {
+  type: 'success' | 'error'
+  text: string
+}
+
+const STATUS_OPTIONS = [
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'REJECTED', label: 'Rejected' },
+  { value: 'all', label: 'All' },
+]
+
+const personName = (person: Person) => person?.gamertag || person?.name || 'Unknown'
+
+export default function AdminLapReviewsPage() {
+  const [laps, setLaps] = useState<FlaggedLap[]>([])
+  const [status, setStatus] = useState('PENDING')
+  const [loading, setLoading] = useState(true)
+  const [processingId, setProcessingId] = useState<string | null>(null)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [historyLapId, setHistoryLapId] = useState<string | null>(null)
+  const [message, setMessage] = useState<Message | null>(null)
+  const [isForbidden, setIsForbidden] = useState(false)
+  const router = useRouter()
+
+  // ===========================================================================
+  // DATA FETCHING & SIDE EFFECTS
+  // ===========================================================================
+
+  const fetchLaps = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/lap-time-reviews?status=${status}`)
+      if (res.status === 401) {
+        router.push('/')
+        return
+      }
+      if (res.status === 403) {
+        setIsForbidden(true)
+        return
+      }
+      const data = await res.json()
+      setLaps(data.lapTimes || [])
+    } catch (error) {
+      console.error('Failed to fetch flagged laps:', error)
+      setMessage({ type: 'error', text: 'Failed to load flagged laps' })
+    } finally {
+      setLoading(false)
+    }
+  }, [status, router])
+
+  useEffect(() => {
+    fetchLaps()
+  }, [fetchLaps])
+
+  // Auto-hide messages after 5 seconds
+  useEffect(() => {
+    if (message) {
+      const timer = setTimeout(() => setMessage(null), 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [message])
+
+  // ===========================================================================
+  // API CALLS
+  // ===========================================================================
+
+  async function reviewLap(lap: FlaggedLap, decision: 'APPROVED' | 'REJECTED') {
+    setProcessingId(lap.id)
+    setMessage(null)
+
+    try {
+      const res = await fetch(`/api/lap-time-reviews/${lap.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note: notes[lap.id] || null }),
+      })
+
+      if (res.ok) {
+        setMessage({ type: 'success', text: decision === 'REJECTED' ? 'Lap time rejected' : 'Lap time approved' })
+      } else {
+        const data = await res.json()
+        setMessage({ type: 'error', text: data.error || 'Failed to review lap time' })
+      }
+      await fetchLaps()
+    } catch (error) {
+      console.error('Failed to review lap time:', error)
+      setMessage({ type: 'error', text: 'Failed to review lap time' })
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  // ===========================================================================
+  // RENDER
+  // ===========================================================================
+
+  if (loading) {
+    return (
+      <PageWrapper>
+        <LoadingSection text="Loading flagged laps..." />
+      </PageWrapper>
+    )
+  }
+
+  if (isForbidden) {
+    return (
+      <PageWrapper>
+        <div className="flex flex-col items-center justify-center min-h-[60vh] text-center space-y-6">
+          <div className="w-20 h-20 rounded-full bg-primary/10 flex items-center justify-center">
+            <Shield className="h-10 w-10 text-primary" />
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold">Access Denied</h1>
+            <p className="text-muted-foreground text-lg">Admin access required</p>
+            <p className="text-muted-foreground text-sm">This page is only accessible to administrators.</p>
+          </div>
+          <Button onClick={() => router.push('/')} className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Home
+          </Button>
+        </div>
+      </PageWrapper>
+    )
+  }
+
+  return (
+    <PageWrapper>
+      {/* ========================================================================
+          SUCCESS/ERROR MESSAGE BANNER
+          ======================================================================== */}
+      {message && (
+        <div className={`rounded-md border p-4 ${
+          message.type === 'success'
+            ? 'bg-green-500/10 border-green-500/20 text-green-500'
+            : 'bg-destructive/10 border-destructive/20 text-destructive'
+        }`}>
+          <div className="flex items-center gap-2">
+            {message.type === 'success' ? <Check className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+            <p className="text-sm font-medium">{message.text}</p>
+          </div>
+        </div>
+      )}
+
+      {/* ========================================================================
+          PAGE HEADER
+          ======================================================================== */}
+      <PageHeader
+        title="FLAGGED LAP TIMES"
+        icon={ShieldAlert}
+        description="Implausible times saved after the outlier warning"
+        actions={
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-36" aria-label="Review status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        }
+      />
+
+      {/* ========================================================================
+          FLAGGED LAP LIST
+          ======================================================================== */}
+      {laps.length === 0 ? (
+        <EmptyState
+          icon={ShieldAlert}
+          title={status === 'PENDING' ? 'No laps waiting for review' : 'No flagged laps'}
+          description={status === 'PENDING' ? 'Every flagged lap time has been reviewed' : undefined}
+        />
+      ) : (
+        <div className="space-y-3">
+          {laps.map((lap) => (
+            <div key={lap.id} className="border border-border rounded-lg p-4 space-y-3">
+              <div className="flex flex-col sm:flex-row sm:items-start gap-3">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{personName(lap.user)}</span>
+                    <span className="font-mono font-bold text-primary">{formatLapTime(lap.timeMs)}</span>
+                    <Badge variant={lap.reviewStatus === 'PENDING' ? 'secondary' : lap.reviewStatus === 'REJECTED' ? 'destructive' : 'outline'}>
+                      {LAP_TIME_REVIEW_STATUS_LABELS[lap.reviewStatus]}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {lap.track ? `${lap.track.name}${lap.track.layout ? ` - ${lap.track.layout}` : ''}` : 'Unknown track'}
+                    {lap.track?.length ? ` (${lap.track.length.toLocaleString()}m, ${Math.round(averageSpeedKmh(lap.track.length, lap.timeMs))} km/h avg)` : ''}
+                    {' • '}
+                    {lap.car ? `${lap.car.manufacturer} ${lap.car.name}` : 'Unknown car'}
+                    {lap.car?.category && ` (${lap.car.category})`}
+                  </p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {(lap.outlierReasons || []).map((code) => (
+                      <Badge key={code} variant="outline" className="text-xs">
+                        {OUTLIER_CODE_LABELS[code] || code}
+                      </Badge>
+                    ))}
+                  </div>
+                  {lap.reviewedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Reviewed by {personName(lap.reviewedBy)} on {new Date(lap.reviewedAt).toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => setHistoryLapId(lap.id)} className="gap-2 shrink-0">
+                  <History className="h-4 w-4" />
+                  History
+                </Button>
+              </div>
+
+              {lap.reviewStatus === 'PENDING' && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    value={notes[lap.id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [lap.id]: e.target.value })}
+                    placeholder="Review note (optional)"
+                    maxLength={500}
+                    className="flex-1"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => reviewLap(lap, 'APPROVED')}
+                    disabled={processingId === lap.id}
+                    className="gap-2"
+                  >
+                    {processingId === lap.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                    Approve
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => reviewLap(lap, 'REJECTED')}
+                    disabled={processingId === lap.id}
+                    className="gap-2"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Reject
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <LapTimeHistoryDialog
+        lapTimeId={historyLapId}
+        open={!!historyLapId}
+        onOpenChange={(open) => !open && setHistoryLapId(null)}
+      />
+    </PageWrapper>
+  )
+}
@@ -3,17 +3,18 @@
  *
  * Purpose:
  * Administrative settings page displaying system configuration, database statistics,
- * and application information. Read-only dashboard for viewing system status.
+ * and application information. Mostly read-only; track sector counts are editable.
  *
  * Key Features:
  * - Database statistics display (tracks, cars counts)
+ * - Track sectors: Configure Track.sectorCount (enables sector splits on lap times)
  * - Image management status (pending feature)
  * - Theme/color scheme information
  * - System technology stack information
  * - Connection status indicators
  *
  * Data Flow:
- * - Static page - no API calls or dynamic data fetching
+ * - Static page except the Track Sectors section (TrackSectorSettings fetches its own data)
  * - All values are hardcoded for display purposes
  * - Future versions may fetch real-time stats
  *
@@ -21,7 +22,7 @@
  * - No state - purely presentational component
  *
  * API Integration:
- * - None currently
+ * - GET /api/tracks, PATCH /api/tracks/[id] (via TrackSectorSettings)
  * - Future: May add API endpoints for dynamic stats
  *
  * Information Displayed:
@@ -53,6 +54,7 @@
  * - /admin/page.tsx: Admin dashboard redirect
  * - /admin/users/page.tsx: User management
  * - @/components/layout: PageWrapper, PageHeader components
+ * - @/components/tracks/track-sector-settings.tsx: Track sectors section
  * - /settings/page.tsx: User-facing settings page
  */
 
@@ -61,8 +63,9 @@
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { ArrowLeft, Settings as SettingsIcon, Database, Image, Palette } from 'lucide-react'
+import { ArrowLeft, Settings as SettingsIcon, Database, Image, Palette, Timer } from 'lucide-react'
 import { PageWrapper, PageHeader } from '@/components/layout'
+import { TrackSectorSettings } from '@/components/tracks/track-sector-settings'
 
 export default function AdminSettingsPage() {
   const router = useRouter()
@@ -117,6 +120,17 @@ export default function AdminSettingsPage() {
         </div>
       </div>
 
+      {/* ========================================================================
+          TRACK SECTORS SECTION
+          ======================================================================== */}
+      <div className="border border-border rounded-lg p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Timer className="h-5 w-5 text-primary" />
+          <h2 className="text-xl font-bold">TRACK SECTORS</h2>
+        </div>
+        <TrackSectorSettings />
+      </div>
+
       {/* ========================================================================
           IMAGES SECTION
           ======================================================================== */}
@@ -0,0 +1,112 @@
+/**
+ * Build Template Apply API
+ *
+ * POST /api/build-templates/[id]/apply - Preview or apply a template on one or more builds
+ *
+ * Purpose: Lay a saved partial setup (e.g. "Gr.3 wet baseline") over existing builds
+ * - The template's sections/categories replace the same ones on every target
+ * - preview: true returns the overwrite diff per target without writing anything
+ *
+ * Request Body:
+ * - targetBuildIds: Builds to overwrite (1-20)
+ * - preview: Only return diffs (default false)
+ *
+ * Response:
+ * - results[]: { buildId, name, car, diff (BuildSnapshotDiff), applied }
+ *
+ * Access Control:
+ * - Template: Own, public, or any for admins
+ * - Targets: Own builds (admins: any build)
+ *
+ * Debugging Tips:
+ * - Part missing after apply: The part was removed from the catalog after the template was saved
+ * - Each applied target gets a new revision (undo via the History card)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { applyPartialSetup } from '@/lib/build-partial-setup'
+import { ApplyBuildTemplateSchema, validateBody } from '@/lib/validation'
+import { handleApiError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '@/lib/api-error-handler'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import type { DbBuildTemplate } from '@/types/database'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const { id } = await params
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const body = await request.json()
+    const validationResult = await validateBody(ApplyBuildTemplateSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { targetBuildIds, preview } = validationResult.data
+    const supabase = createServiceRoleClient()
+
+    // ============================================================
+    // TEMPLATE
+    // ============================================================
+
+    const { data: template } = await supabase
+      .from('BuildTemplate')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!template) {
+      throw new NotFoundError('Template')
+    }
+
+    if (!template.isPublic && template.userId !== userData.id && !isAdmin(session)) {
+      throw new ForbiddenError('This template is private')
+    }
+
+    // ============================================================
+    // PREVIEW / APPLY
+    // ============================================================
+
+    const results = await applyPartialSetup(supabase, {
+      setup: (template as DbBuildTemplate).setup,
+      targetBuildIds,
+      userId: userData.id,
+      admin: isAdmin(session),
+      preview,
+    })
+
+    return NextResponse.json({ results }, {
+      headers: rateLimitHeaders(rateLimit),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
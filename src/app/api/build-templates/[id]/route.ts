@@ -0,0 +1,151 @@
+/**
+ * Single Build Template API
+ *
+ * GET /api/build-templates/[id] - Fetch a template (own, public, or any for admins)
+ * PATCH /api/build-templates/[id] - Rename / describe / share a template (owner or admin)
+ * DELETE /api/build-templates/[id] - Delete a template (owner or admin)
+ *
+ * Debugging Tips:
+ * - The setup itself can't be edited - save a new template from a build instead
+ * - 403 on GET: Template is private and belongs to someone else
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { UpdateBuildTemplateSchema, validateBody } from '@/lib/validation'
+import { handleApiError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '@/lib/api-error-handler'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import type { Session } from 'next-auth'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DbBuildTemplate } from '@/types/database'
+
+/**
+ * Load a template and check the current user may see it (or modify it)
+ */
+async function loadTemplate(
+  supabase: SupabaseClient,
+  session: Session | null,
+  id: string,
+  access: 'view' | 'modify'
+): Promise<DbBuildTemplate> {
+  if (!session?.user?.email) {
+    throw new UnauthorizedError()
+  }
+
+  const userData = await getCurrentUser(session)
+
+  if (!userData) {
+    throw new NotFoundError('User')
+  }
+
+  const { data: template } = await supabase
+    .from('BuildTemplate')
+    .select('*, user:User(id, name, gamertag)')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!template) {
+    throw new NotFoundError('Template')
+  }
+
+  const isOwner = template.userId === userData.id
+  if (!isOwner && !isAdmin(session) && (access === 'modify' || !template.isPublic)) {
+    throw new ForbiddenError(access === 'modify' ? 'Unauthorized to modify this template' : 'This template is private')
+  }
+
+  return template as DbBuildTemplate
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+    const template = await loadTemplate(supabase, await auth(), id, 'view')
+
+    return NextResponse.json({ template })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+    await loadTemplate(supabase, await auth(), id, 'modify')
+
+    const body = await request.json()
+    const validationResult = await validateBody(UpdateBuildTemplateSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { data: template, error } = await supabase
+      .from('BuildTemplate')
+      .update({
+        ...validationResult.data,
+        updatedAt: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select('*, user:User(id, name, gamertag)')
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ template }, {
+      headers: rateLimitHeaders(rateLimit),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+    await loadTemplate(supabase, await auth(), id, 'modify')
+
+    const { error } = await supabase
+      .from('BuildTemplate')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true }, {
+      headers: rateLimitHeaders(rateLimit),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Build Templates API
+ *
+ * GET /api/build-templates - List templates visible to the current user (own + public, with canEdit)
+ * POST /api/build-templates - Save chosen sections/categories of a build as a named template
+ *
+ * Purpose: Reusable partial setups that aren't tied to a car (e.g. "Gr.3 wet baseline")
+ * - A template stores a PartialBuildSetup: section/category names + their parts, settings
+ *   and (with Transmission) gear ratios
+ * - Applied with POST /api/build-templates/[id]/apply (preview + apply, like copy-setup)
+ *
+ * POST Request Body:
+ * - buildId: Source build (must be visible to the user)
+ * - name, description, isPublic
+ * - sections / categories: TuningSection / PartCategory names to include
+ *
+ * Debugging Tips:
+ * - Template missing from list: Private templates are only listed for their owner
+ * - Empty template: The source build had nothing set in the chosen sections
+ *   (applying it clears those sections on the target)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { loadBuildSnapshot } from '@/lib/build-snapshot'
+import { extractPartialSetup } from '@/lib/build-partial-setup'
+import { CreateBuildTemplateSchema, validateBody } from '@/lib/validation'
+import { handleApiError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '@/lib/api-error-handler'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const supabase = createServiceRoleClient()
+
+    const { data: templates, error } = await supabase
+      .from('BuildTemplate')
+      .select('*, user:User(id, name, gamertag)')
+      .or(`isPublic.eq.true,userId.eq.${userData.id}`)
+      .order('name')
+
+    if (error) throw error
+
+    // canEdit drives the rename/delete buttons (owner or admin)
+    const admin = isAdmin(session)
+    return NextResponse.json({
+      templates: (templates || []).map((template) => ({
+        ...template,
+        canEdit: admin || template.userId === userData.id,
+      })),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const body = await request.json()
+    const validationResult = await validateBody(CreateBuildTemplateSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { buildId, name, description, isPublic, sections, categories } = validationResult.data
+    const supabase = createServiceRoleClient()
+
+    // ============================================================
+    // SOURCE BUILD
+    // ============================================================
+
+    const { data: source } = await supabase
+      .from('CarBuild')
+      .select('id, userId, isPublic')
+      .eq('id', buildId)
+      .single()
+
+    if (!source) {
+      throw new NotFoundError('Build')
+    }
+
+    if (!source.isPublic && source.userId !== userData.id && !isAdmin(session)) {
+      throw new ForbiddenError('This build is private')
+    }
+
+    const snapshot = await loadBuildSnapshot(supabase, buildId)
+
+    if (!snapshot) {
+      throw new NotFoundError('Build')
+    }
+
+    // ============================================================
+    // CREATE TEMPLATE
+    // ============================================================
+
+    const now = new Date().toISOString()
+    const { data: template, error } = await supabase
+      .from('BuildTemplate')
+      .insert({
+        id: crypto.randomUUID(),
+        userId: userData.id,
+        name,
+        description: description || null,
+        isPublic: isPublic ?? false,
+        setup: extractPartialSetup(snapshot, { sections, categories }),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .select('*, user:User(id, name, gamertag)')
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ template }, {
+      status: 201,
+      headers: rateLimitHeaders(rateLimit),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -24,6 +24,8 @@ import { createServiceRoleClient } from '@/lib/supabase/service-role'
 import { auth } from '@/lib/auth'
 import type { DbCarBuildUpgrade, DbCarBuildSetting } from '@/types/database'
 import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { createBuildRevision } from '@/lib/build-revisions'
+import { refreshBuildPerformance } from '@/lib/build-performance'
 
 export async function POST(
   request: NextRequest,
@@ -229,6 +231,20 @@ export async function POST(
       }
     }
 
+    // Cloned build starts its own history at revision 1
+    try {
+      await createBuildRevision(supabase, { buildId: newBuildId, createdById: userData.id })
+    } catch (revisionError) {
+      console.error('Error creating build revision:', revisionError)
+    }
+
+    // Estimated PP / power / weight for the build card and PP filters
+    try {
+      await refreshBuildPerformance(supabase, newBuildId)
+    } catch (performanceError) {
+      console.error('Error estimating build performance:', performanceError)
+    }
+
     // ============================================================
     // FETCH COMPLETE CLONED BUILD FOR RESPONSE
     // ============================================================
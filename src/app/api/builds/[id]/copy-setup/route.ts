@@ -0,0 +1,126 @@
+/**
+ * Build Copy Setup API
+ *
+ * POST /api/builds/[id]/copy-setup - Copy chosen sections/categories of this build onto other builds
+ *
+ * Purpose: "Apply partial setup" - e.g. copy just the suspension or just the LSD
+ * - [id] is the SOURCE build
+ * - Chosen tuning sections / part categories replace the same ones on every target
+ * - preview: true returns the overwrite diff per target without writing anything
+ *
+ * Request Body:
+ * - sections: TuningSection names (e.g. ["Suspension", "Differential Gear"])
+ * - categories: PartCategory names (e.g. ["Suspension"])
+ * - targetBuildIds: Builds to overwrite (1-20, the source itself is ignored)
+ * - preview: Only return diffs (default false)
+ *
+ * Response:
+ * - results[]: { buildId, name, car, diff (BuildSnapshotDiff), applied }
+ *
+ * Access Control:
+ * - Source: Public builds, own builds, or any build for admins
+ * - Targets: Own builds (admins: any build)
+ *
+ * Debugging Tips:
+ * - 400 "Choose at least one...": Both sections and categories were empty
+ * - applied false with changes: Request was a preview
+ * - Each applied target gets a new revision (undo via the History card)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { loadBuildSnapshot } from '@/lib/build-snapshot'
+import { applyPartialSetup, extractPartialSetup } from '@/lib/build-partial-setup'
+import { CopyBuildSetupSchema, validateBody } from '@/lib/validation'
+import { handleApiError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '@/lib/api-error-handler'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const { id } = await params
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const body = await request.json()
+    const validationResult = await validateBody(CopyBuildSetupSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { sections, categories, targetBuildIds, preview } = validationResult.data
+    const supabase = createServiceRoleClient()
+
+    // ============================================================
+    // SOURCE BUILD
+    // ============================================================
+    // Same visibility rule as GET /api/builds/[id]: public, own, or admin
+    // ============================================================
+
+    const { data: source } = await supabase
+      .from('CarBuild')
+      .select('id, userId, isPublic')
+      .eq('id', id)
+      .single()
+
+    if (!source) {
+      throw new NotFoundError('Build')
+    }
+
+    if (!source.isPublic && source.userId !== userData.id && !isAdmin(session)) {
+      throw new ForbiddenError('This build is private')
+    }
+
+    const snapshot = await loadBuildSnapshot(supabase, id)
+
+    if (!snapshot) {
+      throw new NotFoundError('Build')
+    }
+
+    // ============================================================
+    // PREVIEW / APPLY
+    // ============================================================
+    // Targets are all checked before the first write (see applyPartialSetup)
+    // ============================================================
+
+    const results = await applyPartialSetup(supabase, {
+      setup: extractPartialSetup(snapshot, { sections, categories }),
+      targetBuildIds: targetBuildIds.filter((targetId) => targetId !== id),
+      userId: userData.id,
+      admin: isAdmin(session),
+      preview,
+    })
+
+    return NextResponse.json({ results }, {
+      headers: rateLimitHeaders(rateLimit),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Build Export API
+ *
+ * GET /api/builds/[id]/export - Export a build as a portable document + setup code
+ *
+ * Purpose: Share tunes outside the group or between accounts
+ * - Document references the car by slug, parts by category/name, settings by section/name
+ * - No database IDs (they differ between installs)
+ * - Setup code = "FGT1." + base64url(JSON document) - paste into /builds/new → Import
+ *
+ * Query Parameters:
+ * - download: "true" to return the JSON document as a file attachment
+ *
+ * Response:
+ * - document: BuildExportDocument (versioned JSON)
+ * - code: Setup code string
+ *
+ * Access Control:
+ * - Same as GET /api/builds/[id]: public builds for anyone, private builds for owner
+ *
+ * Debugging Tips:
+ * - Custom gears are exported with custom: true (they have no TuningSetting row)
+ * - Empty gears object: Build has no gear ratios set
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { loadBuildSnapshot } from '@/lib/build-snapshot'
+import { buildExportDocument, encodeSetupCode } from '@/lib/build-export'
+import { handleApiError, ForbiddenError, NotFoundError } from '@/lib/api-error-handler'
+import type { DbCar } from '@/types/database'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const download = searchParams.get('download') === 'true'
+
+    const supabase = createServiceRoleClient()
+    const session = await auth()
+
+    // ============================================================
+    // AUTHORIZATION CHECK
+    // ============================================================
+    // Public builds: exportable by anyone
+    // Private builds: only exportable by owner
+    // ============================================================
+
+    const { data: build } = await supabase
+      .from('CarBuild')
+      .select('id, userId, isPublic, car:Car(slug, manufacturer, name, year)')
+      .eq('id', id)
+      .single()
+
+    if (!build) {
+      throw new NotFoundError('Build')
+    }
+
+    if (!build.isPublic) {
+      const userData = await getCurrentUser(session)
+      if (!userData || userData.id !== build.userId) {
+        throw new ForbiddenError('This build is private')
+      }
+    }
+
+    const snapshot = await loadBuildSnapshot(supabase, id)
+
+    if (!snapshot) {
+      throw new NotFoundError('Build')
+    }
+
+    const car = build.car as unknown as Pick<DbCar, 'slug' | 'manufacturer' | 'name' | 'year'>
+    const document = buildExportDocument(car, snapshot)
+
+    if (download) {
+      const filename = `${car.slug}-${snapshot.name}`.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+      return new NextResponse(JSON.stringify(document, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}.json"`,
+        },
+      })
+    }
+
+    return NextResponse.json({
+      document,
+      code: encodeSetupCode(document),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Build Revision Restore API
+ *
+ * POST /api/builds/[id]/revisions/[revisionId]/restore - Restore a build to an earlier revision
+ *
+ * Purpose: One-click "restore this revision" from the build history timeline
+ * - Overwrites the build's parts, tuning settings and gear ratios with the revision snapshot
+ * - Name and description are NOT restored (only the setup)
+ * - Stores a NEW revision marked restoredFromId, so the restore itself shows in history
+ *   and nothing is ever lost (the pre-restore setup is still the previous revision)
+ *
+ * Access Control:
+ * - Build owner or admin (same rule as PATCH /api/builds/[id])
+ *
+ * Debugging Tips:
+ * - "Revision not found": revisionId must belong to the build in the URL
+ * - Restore fails with FK error: A part/setting in the snapshot was deleted from the catalog
+ * - Rate limited to 20 requests per minute (mutation)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { applyBuildSnapshot } from '@/lib/build-snapshot'
+import { createBuildRevision } from '@/lib/build-revisions'
+import { refreshBuildPerformance } from '@/lib/build-performance'
+import { handleApiError, ForbiddenError, NotFoundError, UnauthorizedError } from '@/lib/api-error-handler'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import type { DbCarBuildRevision } from '@/types/database'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const { id, revisionId } = await params
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const supabase = createServiceRoleClient()
+
+    // ============================================================
+    // AUTHORIZATION CHECK
+    // ============================================================
+    // User must be admin OR owner to restore the build
+    // ============================================================
+
+    const { data: build } = await supabase
+      .from('CarBuild')
+      .select('id, userId')
+      .eq('id', id)
+      .single()
+
+    if (!build) {
+      throw new NotFoundError('Build')
+    }
+
+    if (!isAdmin(session) && build.userId !== userData.id) {
+      throw new ForbiddenError('Unauthorized to modify this build')
+    }
+
+    const { data: revision } = await supabase
+      .from('CarBuildRevision')
+      .select('*')
+      .eq('buildId', id)
+      .eq('id', revisionId)
+      .maybeSingle()
+
+    if (!revision) {
+      throw new NotFoundError('Revision')
+    }
+
+    // ============================================================
+    // RESTORE
+    // ============================================================
+    // 1. Apply the snapshot in one transaction (delete + insert upgrades/settings, update gears)
+    // 2. Record the result as a new revision pointing back at the source
+    // ============================================================
+
+    await applyBuildSnapshot(supabase, id, (revision as DbCarBuildRevision).snapshot)
+
+    const restored = await createBuildRevision(supabase, {
+      buildId: id,
+      createdById: userData.id,
+      restoredFromId: revisionId,
+    })
+
+    // Parts/settings changed, so the estimate must follow
+    try {
+      await refreshBuildPerformance(supabase, id)
+    } catch (performanceError) {
+      console.error('Error estimating build performance:', performanceError)
+    }
+
+    return NextResponse.json({ revision: restored }, {
+      headers: rateLimitHeaders(rateLimit),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Build Revision Diff API
+ *
+ * GET /api/builds/[id]/revisions/diff?from=<revisionId>&to=<revisionId>
+ *
+ * Purpose: Field-by-field comparison of two revisions of the same build
+ * - Details: name, description
+ * - Parts: added / removed / changed CarBuildUpgrade rows (grouped by PartCategory)
+ * - Settings: added / removed / changed CarBuildSetting values (grouped by TuningSection)
+ * - Gears: gear1-gear20 + finalDrive ratio changes
+ *
+ * Query Parameters:
+ * - from: Older revision ID (required)
+ * - to: Newer revision ID (optional - defaults to the latest revision)
+ *
+ * Response:
+ * - from / to: { id, revisionNumber, createdAt }
+ * - diff: { details[], parts[], settings[], gears[], totalChanges }
+ *
+ * Debugging Tips:
+ * - "Revision not found": Both revisions must belong to the build in the URL
+ * - Empty diff: Revisions have identical setups (e.g. a restore of the previous one)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { diffBuildSnapshots } from '@/lib/build-snapshot'
+import { handleApiError, ForbiddenError, NotFoundError, ValidationError } from '@/lib/api-error-handler'
+import type { DbCarBuildRevision } from '@/types/database'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const fromId = searchParams.get('from')
+    const toId = searchParams.get('to')
+
+    if (!fromId) {
+      throw new ValidationError('from revision is required')
+    }
+
+    const supabase = createServiceRoleClient()
+    const session = await auth()
+
+    // ============================================================
+    // AUTHORIZATION CHECK
+    // ============================================================
+    // Same visibility rules as the build itself
+    // ============================================================
+
+    const { data: build } = await supabase
+      .from('CarBuild')
+      .select('id, userId, isPublic')
+      .eq('id', id)
+      .single()
+
+    if (!build) {
+      throw new NotFoundError('Build')
+    }
+
+    if (!build.isPublic) {
+      const userData = await getCurrentUser(session)
+      if (!userData || userData.id !== build.userId) {
+        throw new ForbiddenError('This build is private')
+      }
+    }
+
+    // ============================================================
+    // FETCH BOTH REVISIONS
+    // ============================================================
+    // Scoped by buildId so revisions of other builds can't be compared here
+    // Missing "to" = compare against the latest revision
+    // ============================================================
+
+    const { data: fromRevision } = await supabase
+      .from('CarBuildRevision')
+      .select('*')
+      .eq('buildId', id)
+      .eq('id', fromId)
+      .maybeSingle()
+
+    let toQuery = supabase
+      .from('CarBuildRevision')
+      .select('*')
+      .eq('buildId', id)
+
+    toQuery = toId
+      ? toQuery.eq('id', toId)
+      : toQuery.order('revisionNumber', { ascending: false }).limit(1)
+
+    const { data: toRevision } = await toQuery.maybeSingle()
+
+    if (!fromRevision || !toRevision) {
+      throw new NotFoundError('Revision')
+    }
+
+    const from = fromRevision as DbCarBuildRevision
+    const to = toRevision as DbCarBuildRevision
+
+    return NextResponse.json({
+      from: { id: from.id, revisionNumber: from.revisionNumber, createdAt: from.createdAt },
+      to: { id: to.id, revisionNumber: to.revisionNumber, createdAt: to.createdAt },
+      diff: diffBuildSnapshots(from.snapshot, to.snapshot),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Build Revision History API
+ *
+ * GET /api/builds/[id]/revisions - List every saved revision of a build (newest first)
+ *
+ * Purpose: Timeline for the build detail page
+ * - One entry per save (CarBuildRevision), numbered per build
+ * - Each entry includes creator, change count vs previous revision and lap stats
+ * - Lap stats come from LapTime.revisionId (laps set on that exact setup)
+ *
+ * Response:
+ * - revisions: Array of { id, revisionNumber, createdAt, createdBy, restoredFrom,
+ *   partCount, settingCount, changeCount, lapCount, fastestTime }
+ * - Snapshots are NOT included (use the diff endpoint to compare revisions)
+ *
+ * Access Control:
+ * - Same as GET /api/builds/[id]: public builds viewable by anyone, private by owner
+ *
+ * Debugging Tips:
+ * - Empty list: Build was created before revisions existed and hasn't been saved since
+ * - changeCount null: First revision (nothing to compare against)
+ * - lapCount 0: Laps recorded before revisions existed have revisionId = NULL
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { diffBuildSnapshots } from '@/lib/build-snapshot'
+import { handleApiError, ForbiddenError, NotFoundError } from '@/lib/api-error-handler'
+import type { DbCarBuildRevision } from '@/types/database'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+    const session = await auth()
+
+    // ============================================================
+    // AUTHORIZATION CHECK
+    // ============================================================
+    // Public builds: history viewable by anyone
+    // Private builds: only viewable by owner
+    // ============================================================
+
+    const { data: build } = await supabase
+      .from('CarBuild')
+      .select('id, userId, isPublic')
+      .eq('id', id)
+      .single()
+
+    if (!build) {
+      throw new NotFoundError('Build')
+    }
+
+    if (!build.isPublic) {
+      const userData = await getCurrentUser(session)
+      if (!userData || userData.id !== build.userId) {
+        throw new ForbiddenError('This build is private')
+      }
+    }
+
+    // ============================================================
+    // FETCH REVISIONS & LAP TIMES
+    // ============================================================
+    // Revisions fetched oldest first so each one can be diffed against
+    // the previous; lap times fetched once and grouped by revisionId
+    // ============================================================
+
+    const [{ data: revisions, error }, { data: lapTimes }] = await Promise.all([
+      supabase
+        .from('CarBuildRevision')
+        .select('*, createdBy:User!CarBuildRevision_createdById_fkey(id, name, gamertag)')
+        .eq('buildId', id)
+        .order('revisionNumber', { ascending: true }),
+      supabase
+        .from('LapTime')
+        .select('revisionId, timeMs')
+        .eq('buildId', id)
+        .not('revisionId', 'is', null),
+    ])
+
+    if (error) {
+      throw error
+    }
+
+    const lapStats = new Map<string, { lapCount: number; fastestTime: number }>()
+    for (const lap of lapTimes || []) {
+      const stats = lapStats.get(lap.revisionId)
+      if (!stats) {
+        lapStats.set(lap.revisionId, { lapCount: 1, fastestTime: lap.timeMs })
+      } else {
+        stats.lapCount++
+        stats.fastestTime = Math.min(stats.fastestTime, lap.timeMs)
+      }
+    }
+
+    const rows = (revisions || []) as Array<DbCarBuildRevision & {
+      createdBy: { id: string; name: string | null; gamertag: string | null } | null
+    }>
+    const numberById = new Map(rows.map((r) => [r.id, r.revisionNumber]))
+
+    const timeline = rows.map((revision, index) => {
+      const previous = index > 0 ? rows[index - 1] : null
+      const stats = lapStats.get(revision.id)
+
+      return {
+        id: revision.id,
+        revisionNumber: revision.revisionNumber,
+        createdAt: revision.createdAt,
+        createdBy: revision.createdBy,
+        name: revision.snapshot.name,
+        restoredFrom: revision.restoredFromId
+          ? { id: revision.restoredFromId, revisionNumber: numberById.get(revision.restoredFromId) ?? null }
+          : null,
+        partCount: revision.snapshot.upgrades.length,
+        settingCount: revision.snapshot.settings.length,
+        changeCount: previous
+          ? diffBuildSnapshots(previous.snapshot, revision.snapshot).totalChanges
+          : null,
+        lapCount: stats?.lapCount ?? 0,
+        fastestTime: stats?.fastestTime ?? null,
+      }
+    })
+
+    return NextResponse.json({ revisions: timeline.reverse() })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -12,6 +12,8 @@
  * - DELETE cascades to CarBuildUpgrade and CarBuildSetting tables
  * - Gear ratios (gear1-20, finalDrive) stored as text to preserve formatting
  * - Settings fetched separately to avoid JOIN issues with NULL settingId (custom gears)
+ * - PATCH stores a CarBuildRevision snapshot after every successful save
+ * - PATCH 400 with errors['settings.<settingId>']: Setting value breaks its TuningSetting rules
  * - Common error: "Build not found" - verify buildId exists in CarBuild table
  * - Common error: "Unauthorized to modify" - check user is admin or owner
  */
@@ -26,6 +28,10 @@ import type {
   DbCarBuildSetting,
 } from '@/types/database'
 import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { createBuildRevision } from '@/lib/build-revisions'
+import { refreshBuildPerformance } from '@/lib/build-performance'
+import { loadTuningSettingRules, validateBuildSettings } from '@/lib/tuning-validation'
+import { formatZodError } from '@/lib/api-error-handler'
 
 export async function GET(
   request: NextRequest,
@@ -271,7 +277,28 @@ export async function PATCH(
       return NextResponse.json({ error: validationResult.error }, { status: 400 })
     }
 
-    const { name, description, isPublic, upgrades, settings, userId: requestedUserId, ...gearFields } = validationResult.data
+    const { name, description, isPublic, upgrades, settings, userId: requestedUserId, tyreSize, redlineRpm, ...gearFields } = validationResult.data
+
+    // ============================================================
+    // TUNING SETTING VALUES
+    // ============================================================
+    // Checked against the TuningSetting catalog (range, step, "front:rear",
+    // select options) before anything is written - unknown setting IDs fail here too.
+    // Errors are keyed 'settings.<settingId>' so the edit page can highlight the field.
+    // ============================================================
+
+    const settingRules = await loadTuningSettingRules(
+      supabase,
+      (settings || []).map(s => s.settingId || '')
+    )
+    const settingsError = validateBuildSettings(settings, settingRules)
+    if (settingsError) {
+      const formatted = formatZodError(settingsError)
+      return NextResponse.json(
+        { error: formatted.message, errors: formatted.errors },
+        { status: 400 }
+      )
+    }
 
     // ============================================================
     // BUILD CREATOR LOGIC
@@ -351,6 +378,8 @@ export async function PATCH(
       gear18: string | null
       gear19: string | null
       gear20: string | null
+      tyreSize: string | null
+      redlineRpm: number | null
     }> = {
       updatedAt: new Date().toISOString(),
     }
@@ -359,6 +388,8 @@ export async function PATCH(
     if (description !== undefined) updateData.description = description
     if (isPublic !== undefined) updateData.isPublic = isPublic
     if (newUserId !== undefined) updateData.userId = newUserId
+    if (tyreSize !== undefined) updateData.tyreSize = tyreSize || null
+    if (redlineRpm !== undefined) updateData.redlineRpm = redlineRpm ? Number(redlineRpm) : null
 
     // Add gear fields if provided (stored as text to preserve formatting)
     for (const [key, value] of Object.entries(gearFields)) {
@@ -469,35 +500,16 @@ export async function PATCH(
     // TUNING SETTINGS UPDATE
     // ============================================================
     // Delete all existing settings and insert new ones
-    // Settings validated against TuningSetting catalog before insertion
+    // Values were validated against the TuningSetting catalog above (settingRules)
     // Foreign key relationships: CarBuildSetting.settingId → TuningSetting.id
     //
     // Debugging Tips:
     // - Check TuningSetting table exists and settingId is valid
     // - Verify FK constraint: CarBuildSetting.settingId → TuningSetting.id
-    // - Common error: "Invalid setting IDs" - check settingId exists in TuningSetting table
+    // - 400 with errors['settings.<id>']: See @/lib/tuning-validation.ts
     // ============================================================
 
     if (settings !== undefined && Array.isArray(settings)) {
-      // Validate settingIds and lookup section/setting names
-      if (settings.length > 0) {
-        const settingIds = settings.map(s => s.settingId).filter(Boolean) as string[]
-
-        if (settingIds.length > 0) {
-          const { data: tuningSettings } = await supabase
-            .from('TuningSetting')
-            .select('id, name, sectionId')
-            .in('id', settingIds)
-
-          if (!tuningSettings || tuningSettings.length !== settingIds.length) {
-            return NextResponse.json(
-              { error: 'One or more invalid setting IDs' },
-              { status: 400 }
-            )
-          }
-        }
-      }
-
       // Delete existing settings
       await supabase
         .from('CarBuildSetting')
@@ -506,31 +518,11 @@ export async function PATCH(
 
       // Insert new settings with validation
       if (settings.length > 0) {
-        // Fetch setting details to populate category/setting display columns
-        const settingIds = settings
-          .map((s) => s.settingId)
-          .filter((id): id is string => id !== undefined && id !== null)
-
-        let settingDetails: Array<{ id: string; name: string; sectionName: string }> = []
-        if (settingIds.length > 0) {
-          // Fetch settings with section details using JOIN query
-          const { data: tuningSettings } = await supabase
-            .from('TuningSetting')
-            .select('id, name, section:TuningSection(id, name)')
-            .in('id', settingIds)
-
-          settingDetails = (tuningSettings || []).map(s => ({
-            ...s,
-            sectionName: (s.section as { name?: string } | null)?.name || ''
-          }))
-        }
-
-        const settingMap = new Map(settingDetails.map(s => [s.id, s]))
-
         // Handle standard settings
         const settingRecords = settings
           .map((setting: { settingId?: string | null; value?: string | number | null }) => {
-            const tuningSetting = settingMap.get(setting.settingId!)
+            // Name/section come from the rules loaded during validation
+            const tuningSetting = settingRules.get(setting.settingId!)
             return {
               id: crypto.randomUUID(),
               buildId: id,
@@ -549,6 +541,27 @@ export async function PATCH(
       }
     }
 
+    // ============================================================
+    // BUILD REVISION
+    // ============================================================
+    // Store an immutable snapshot of the saved setup (history, diff, restore)
+    // A failed snapshot is logged but doesn't fail the save itself
+    // Identical setups don't create a new revision (see build-revisions.ts)
+    // ============================================================
+
+    try {
+      await createBuildRevision(supabase, { buildId: id, createdById: userData.id })
+    } catch (revisionError) {
+      console.error('Error creating build revision:', revisionError)
+    }
+
+    // Estimated PP / power / weight for the build card and PP filters
+    try {
+      await refreshBuildPerformance(supabase, id)
+    } catch (performanceError) {
+      console.error('Error estimating build performance:', performanceError)
+    }
+
     // ============================================================
     // FETCH UPDATED BUILD FOR RESPONSE
     // ============================================================
@@ -0,0 +1,212 @@
+/**
+ * Build Usage API
+ *
+ * GET /api/builds/[id]/usage - Where a build has been raced and how it performed
+ *
+ * Purpose: Data for the "Race & Lap History" section on /builds/[id]
+ * - Every race that lists the build (RaceCar.buildId) with its track and members
+ * - Every lap set with the build (except removed ones), aggregated per track (best, median,
+ *   lap count, conditions split, rank of the build's best among all builds at that track)
+ * - Every driver who set laps with it or was a member of a race using it
+ *
+ * Response:
+ * - summary: { raceCount, lapCount, trackCount, driverCount }
+ * - races[]: { id, name, isActive, createdAt, track, members[] } newest first
+ * - tracks[]: TrackUsage + track { id, name, layout } (most laps first)
+ * - drivers[]: DriverUsage + user { id, name, gamertag } (most laps first)
+ *
+ * Access Control:
+ * - Same as GET /api/builds/[id]: public builds viewable by anyone, private by owner
+ *
+ * Debugging Tips:
+ * - Race missing: The race's RaceCar row has no buildId (car-only entry)
+ * - Member listed with 0 laps: In a race using the build but no LapTime with this buildId
+ * - Rank looks off: Ranking compares each build's best lap at the track, any conditions
+ *   (build_best_laps() returns them - one row per build + track, not every lap)
+ * - Lap count capped at 1000: loadBuildLaps stopped paging early (check the range/order)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { summarizeDriverUsage, summarizeTrackUsage, type UsageLap } from '@/lib/build-usage'
+import { handleApiError, ForbiddenError, NotFoundError } from '@/lib/api-error-handler'
+
+interface UsageRace {
+  id: string
+  name: string | null
+  isActive: boolean
+  createdAt: string
+  track: { id: string; name: string; layout: string | null } | null
+}
+
+interface UsageMember {
+  raceid: string
+  userid: string
+  user: { id: string; name: string | null; gamertag: string | null } | null
+}
+
+// Rows per request - PostgREST caps a response at max_rows (1000)
+const LAP_PAGE_SIZE = 1000
+
+/**
+ * Every (non-removed) lap set with the build, fetched page by page - the median and
+ * per-driver stats need each lap, and a popular build has more than one response holds
+ */
+async function loadBuildLaps(supabase: SupabaseClient, buildId: string): Promise<UsageLap[]> {
+  const laps: UsageLap[] = []
+
+  for (let from = 0; ; from += LAP_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('LapTime')
+      .select('userId, trackId, timeMs, conditions')
+      .eq('buildId', buildId)
+      .neq('status', 'REMOVED')
+      .order('id')
+      .range(from, from + LAP_PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    laps.push(...((data || []) as UsageLap[]))
+    if (!data || data.length < LAP_PAGE_SIZE) return laps
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+    const session = await auth()
+
+    // ============================================================
+    // AUTHORIZATION CHECK
+    // ============================================================
+    // Public builds: usage viewable by anyone
+    // Private builds: only viewable by owner
+    // ============================================================
+
+    const { data: build } = await supabase
+      .from('CarBuild')
+      .select('id, userId, isPublic')
+      .eq('id', id)
+      .single()
+
+    if (!build) {
+      throw new NotFoundError('Build')
+    }
+
+    if (!build.isPublic) {
+      const userData = await getCurrentUser(session)
+      if (!userData || userData.id !== build.userId) {
+        throw new ForbiddenError('This build is private')
+      }
+    }
+
+    // ============================================================
+    // RACES & LAPS WITH THIS BUILD
+    // ============================================================
+
+    const [{ data: raceCars, error: raceError }, laps] = await Promise.all([
+      supabase
+        .from('RaceCar')
+        .select('race:Race(id, name, isActive, createdAt, track:Track(id, name, layout))')
+        .eq('buildId', id),
+      loadBuildLaps(supabase, id),
+    ])
+
+    if (raceError) throw raceError
+
+    // A build listed twice in one race still counts as one race
+    const racesById = new Map<string, UsageRace>()
+    for (const row of (raceCars || []) as unknown as { race: UsageRace | null }[]) {
+      if (row.race) racesById.set(row.race.id, row.race)
+    }
+    const raceIds = [...racesById.keys()]
+    const trackIds = [...new Set(laps.map((lap) => lap.trackId))]
+
+    // ============================================================
+    // MEMBERS, COMPARISON LAPS, TRACKS
+    // ============================================================
+    // Comparison laps: every build's best at each track, grouped in SQL (busy tracks
+    // have more laps than one query returns)
+    // ============================================================
+
+    const [membersResult, trackLapsResult, tracksResult] = await Promise.all([
+      raceIds.length > 0
+        ? supabase
+            .from('RaceMember')
+            .select('raceid, userid, user:User!RaceMember_userid_fkey(id, name, gamertag)')
+            .in('raceid', raceIds)
+        : Promise.resolve({ data: [], error: null }),
+      trackIds.length > 0
+        ? supabase.rpc('build_best_laps', { p_track_ids: trackIds })
+        : Promise.resolve({ data: [], error: null }),
+      trackIds.length > 0
+        ? supabase.from('Track').select('id, name, layout').in('id', trackIds)
+        : Promise.resolve({ data: [], error: null }),
+    ])
+
+    if (membersResult.error) throw membersResult.error
+    if (trackLapsResult.error) throw trackLapsResult.error
+    if (tracksResult.error) throw tracksResult.error
+
+    const members = (membersResult.data || []) as unknown as UsageMember[]
+    const tracksById = new Map((tracksResult.data || []).map((track) => [track.id, track]))
+
+    // ============================================================
+    // AGGREGATE
+    // ============================================================
+
+    const tracks = summarizeTrackUsage(id, laps, trackLapsResult.data || []).map((usage) => ({
+      ...usage,
+      track: tracksById.get(usage.trackId) || null,
+    }))
+
+    const driverUsage = summarizeDriverUsage(laps, members.map((member) => member.userid))
+
+    // Lap drivers who were never race members need their user row fetched
+    const usersById = new Map(
+      members.filter((member) => member.user).map((member) => [member.userid, member.user])
+    )
+    const missingUserIds = driverUsage.map((d) => d.userId).filter((userId) => !usersById.has(userId))
+    if (missingUserIds.length > 0) {
+      const { data: users, error: usersError } = await supabase
+        .from('User')
+        .select('id, name, gamertag')
+        .in('id', missingUserIds)
+
+      if (usersError) throw usersError
+      for (const user of users || []) usersById.set(user.id, user)
+    }
+
+    const drivers = driverUsage.map((usage) => ({ ...usage, user: usersById.get(usage.userId) || null }))
+
+    const races = [...racesById.values()]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((race) => ({
+        ...race,
+        members: members
+          .filter((member) => member.raceid === race.id && member.user)
+          .map((member) => member.user),
+      }))
+
+    return NextResponse.json({
+      summary: {
+        raceCount: races.length,
+        lapCount: laps.length,
+        trackCount: tracks.length,
+        driverCount: drivers.length,
+      },
+      races,
+      tracks,
+      drivers,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Build Comparison API
+ *
+ * GET /api/builds/compare?ids=a,b,c - Fetch 2-4 builds side by side
+ *
+ * Purpose: Data for the /builds/compare page
+ * - Each build's full setup (parts, tuning settings, gear ratios) as a BuildSnapshot
+ * - Each build's best LapTime per track (removed laps don't count)
+ * - Ordering (PartCategory / TuningSection displayOrder) is NOT applied here -
+ *   the page reuses /api/parts/categories and /api/tuning-settings/sections
+ *
+ * Query Parameters:
+ * - ids: Comma-separated build IDs (2-4, order preserved in the response)
+ *
+ * Response:
+ * - builds: Array of { id, name, isPublic, user, car, snapshot, bestLaps[] }
+ *   - bestLaps: { track: { id, name, slug, layout }, timeMs }[] sorted by track name
+ *
+ * Access Control:
+ * - Same as GET /api/builds/[id]: public builds for anyone, private builds for owner
+ * - A single inaccessible build fails the whole request (403)
+ *
+ * Debugging Tips:
+ * - 404 "Build not found": One of the IDs doesn't exist (typo in URL)
+ * - Empty bestLaps: No LapTime rows recorded with this buildId
+ * - Builds of different cars can be compared, but the page warns about it
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { loadBuildSnapshot } from '@/lib/build-snapshot'
+import { handleApiError, ForbiddenError, NotFoundError, ValidationError } from '@/lib/api-error-handler'
+
+const MAX_COMPARE_BUILDS = 4
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const ids = [...new Set(
+      (searchParams.get('ids') || '').split(',').map((id) => id.trim()).filter(Boolean)
+    )]
+
+    if (ids.length < 2 || ids.length > MAX_COMPARE_BUILDS) {
+      throw new ValidationError(`Select between 2 and ${MAX_COMPARE_BUILDS} builds to compare`)
+    }
+
+    const supabase = createServiceRoleClient()
+    const session = await auth()
+
+    // ============================================================
+    // FETCH BUILDS & AUTHORIZATION CHECK
+    // ============================================================
+    // Public builds: viewable by anyone
+    // Private builds: only viewable by owner
+    // ============================================================
+
+    const { data: builds, error } = await supabase
+      .from('CarBuild')
+      .select(`
+        id,
+        name,
+        isPublic,
+        userId,
+        user:User(id, name, gamertag),
+        car:Car(id, name, slug, manufacturer, year)
+      `)
+      .in('id', ids)
+
+    if (error) throw error
+
+    if (!builds || builds.length !== ids.length) {
+      throw new NotFoundError('Build')
+    }
+
+    if (builds.some((build) => !build.isPublic)) {
+      const userData = await getCurrentUser(session)
+      const hidden = builds.find((build) => !build.isPublic && build.userId !== userData?.id)
+      if (hidden) {
+        throw new ForbiddenError('One or more builds are private')
+      }
+    }
+
+    // ============================================================
+    // SNAPSHOTS & BEST LAPS
+    // ============================================================
+    // Snapshots loaded in parallel (3 small queries per build)
+    // Best lap per (build, track) grouped in SQL (build_best_laps), then the tracks
+    // ============================================================
+
+    const [snapshots, { data: buildLaps, error: lapError }] = await Promise.all([
+      Promise.all(ids.map((id) => loadBuildSnapshot(supabase, id))),
+      supabase.rpc('build_best_laps', { p_build_ids: ids }),
+    ])
+
+    if (lapError) throw lapError
+
+    const bestLapRows = (buildLaps || []) as { buildId: string; trackId: string; timeMs: number }[]
+    const trackIds = [...new Set(bestLapRows.map((lap) => lap.trackId))]
+
+    const { data: tracks, error: trackError } = trackIds.length > 0
+      ? await supabase.from('Track').select('id, name, slug, layout').in('id', trackIds)
+      : { data: [], error: null }
+
+    if (trackError) throw trackError
+
+    type LapTrack = { id: string; name: string; slug: string; layout: string | null }
+    const trackById = new Map(((tracks || []) as LapTrack[]).map((track) => [track.id, track]))
+    const bestLaps = new Map<string, { track: LapTrack; timeMs: number }[]>()
+
+    for (const lap of bestLapRows) {
+      const track = trackById.get(lap.trackId)
+      if (!track) continue
+      bestLaps.set(lap.buildId, [...(bestLaps.get(lap.buildId) ?? []), { track, timeMs: lap.timeMs }])
+    }
+
+    const buildMap = new Map(builds.map((build) => [build.id, build]))
+
+    const result = ids.map((id, index) => {
+      const build = buildMap.get(id)!
+      return {
+        id: build.id,
+        name: build.name,
+        isPublic: build.isPublic,
+        user: build.user,
+        car: build.car,
+        snapshot: snapshots[index],
+        bestLaps: (bestLaps.get(id) ?? []).sort((a, b) => a.track.name.localeCompare(b.track.name)),
+      }
+    })
+
+    return NextResponse.json({ builds: result })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Build Import API
+ *
+ * POST /api/builds/import - Resolve a setup code / JSON document against the catalog
+ *
+ * Purpose: First step of the import flow on /builds/new
+ * - Decodes the setup code (or takes the JSON document as-is)
+ * - Validates the document shape and version
+ * - Matches car, parts and settings by name against Car / Part / TuningSetting
+ * - Does NOT create the build - the form is pre-filled and the user saves it
+ *   through POST /api/builds as usual
+ *
+ * Request Body:
+ * - code: Setup code ("FGT1....") OR
+ * - document: Export document (parsed JSON)
+ *
+ * Response:
+ * - build: { car, name, description, upgrades[], settings[], gears } (catalog IDs)
+ * - unmatched: Items that could not be matched, each with type, name, value and reason
+ *   (shown to the user - nothing is dropped silently)
+ *
+ * Debugging Tips:
+ * - 400 "Invalid setup code": Prefix missing or code truncated
+ * - 400 with errors map: Document failed BuildExportDocumentSchema (see errors keys)
+ * - Car in unmatched: Car slug not in this catalog - user must pick a car manually
+ * - Rate limited to 20 requests per minute (mutation)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { BuildExportDocumentSchema, ImportBuildSchema, validateBody } from '@/lib/validation'
+import { decodeSetupCode, resolveBuildImport } from '@/lib/build-export'
+import { formatZodError, handleApiError, UnauthorizedError, ValidationError } from '@/lib/api-error-handler'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const body = await request.json()
+    const validationResult = await validateBody(ImportBuildSchema, body)
+
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    // ============================================================
+    // DECODE & VALIDATE DOCUMENT
+    // ============================================================
+    // Setup code takes priority over a raw document if both are sent
+    // ============================================================
+
+    const { code, document: rawDocument } = validationResult.data
+    const decoded = code ? decodeSetupCode(code) : rawDocument
+
+    if (decoded === null || decoded === undefined) {
+      throw new ValidationError('Invalid setup code')
+    }
+
+    const parsed = BuildExportDocumentSchema.safeParse(decoded)
+
+    if (!parsed.success) {
+      const { errors } = formatZodError(parsed.error)
+      throw new ValidationError(parsed.error.issues[0]?.message || 'Invalid build document', errors)
+    }
+
+    // ============================================================
+    // RESOLVE AGAINST CATALOG
+    // ============================================================
+
+    const supabase = createServiceRoleClient()
+    const { unmatched, ...build } = await resolveBuildImport(supabase, parsed.data)
+
+    return NextResponse.json({ build, unmatched }, {
+      headers: rateLimitHeaders(rateLimit),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
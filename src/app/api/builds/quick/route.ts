@@ -1,25 +1,27 @@
 /**
  * Quick Build Creation API
  *
- * POST /api/builds/quick - Create a build with minimal fields (no upgrades/settings)
+ * POST /api/builds/quick - Create a build with minimal fields (no upgrades, optional settings)
  *
  * Purpose: Simplified build creation for inline modals (e.g., during race creation)
  * - Used when user needs to create a build without leaving the current flow
  * - Only requires: carId, name, description (all optional)
- * - No upgrades or settings included (can be added later via edit)
+ * - No upgrades included (can be added later via edit)
+ * - Optional settings array - values validated against the TuningSetting catalog
  * - Always assigned to current user (userId from session)
  * - Always private (isPublic = false)
- * - Designed for speed - minimal validation, no catalog lookups
+ * - Designed for speed - minimal validation, catalog lookup only when settings are sent
  *
  * Differences from full build creation (POST /api/builds):
  * - No upgrades array - parts can be added later
- * - No settings array - tuning can be configured later
+ * - Settings are optional and custom gears aren't supported
  * - No gear ratios - transmission set to stock defaults
  * - No userId parameter - always current user
  * - No isPublic parameter - always private
  *
  * Debugging Tips:
  * - Common error: "Car not found" - verify carId exists in Car table
+ * - 400 with errors['settings.<settingId>']: Setting value breaks its TuningSetting rules
  * - Uses custom error handler (handleApiError) for consistent error responses
  * - Rate limited to 20 requests per minute
  * - Returns complete build with car details for immediate use
@@ -31,6 +33,9 @@ import { auth } from '@/lib/auth'
 import { QuickBuildSchema, validateBody } from '@/lib/validation'
 import { handleApiError, NotFoundError, UnauthorizedError, ValidationError } from '@/lib/api-error-handler'
 import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { createBuildRevision } from '@/lib/build-revisions'
+import { refreshBuildPerformance } from '@/lib/build-performance'
+import { loadTuningSettingRules, validateBuildSettings } from '@/lib/tuning-validation'
 
 export async function POST(req: NextRequest) {
   try {
@@ -77,10 +82,26 @@ export async function POST(req: NextRequest) {
       throw new ValidationError(validationResult.error)
     }
 
-    const { carId, name, description } = validationResult.data
+    const { carId, name, description, settings } = validationResult.data
 
     const supabase = createServiceRoleClient()
 
+    // ============================================================
+    // TUNING SETTING VALUES
+    // ============================================================
+    // Same catalog checks as POST /api/builds (range, step, "front:rear", options)
+    // The ZodError is formatted by handleApiError into errors['settings.<settingId>']
+    // ============================================================
+
+    const settingRules = await loadTuningSettingRules(
+      supabase,
+      (settings || []).map(s => s.settingId)
+    )
+    const settingsError = validateBuildSettings(settings, settingRules)
+    if (settingsError) {
+      throw settingsError
+    }
+
     // ============================================================
     // CAR VERIFICATION
     // ============================================================
@@ -108,7 +129,7 @@ export async function POST(req: NextRequest) {
     // ============================================================
     // Create CarBuild record with minimal fields
     // - No upgrades (parts can be added later via edit)
-    // - No settings (tuning can be configured later via edit)
+    // - Settings only if sent (already validated above)
     // - No gear ratios (transmission uses stock defaults)
     // - isPublic = false (quick builds are private by default)
     // - userId from session (always current user)
@@ -141,6 +162,44 @@ export async function POST(req: NextRequest) {
       throw buildError // Will be caught by handleApiError
     }
 
+    const settingRecords = (settings || [])
+      .filter(s => !s.settingId.startsWith('custom:'))
+      .map((setting) => {
+        const rule = settingRules.get(setting.settingId)
+        return {
+          id: crypto.randomUUID(),
+          buildId,
+          settingId: setting.settingId,
+          category: rule?.sectionName || '',
+          setting: rule?.name || '',
+          value: setting.value,
+        }
+      })
+
+    if (settingRecords.length > 0) {
+      const { error: settingsInsertError } = await supabase
+        .from('CarBuildSetting')
+        .insert(settingRecords)
+
+      if (settingsInsertError) {
+        throw settingsInsertError
+      }
+    }
+
+    // Store the initial setup as revision 1
+    try {
+      await createBuildRevision(supabase, { buildId, createdById: session.user.id })
+    } catch (revisionError) {
+      console.error('Error creating build revision:', revisionError)
+    }
+
+    // Estimated PP / power / weight for the build card and PP filters
+    try {
+      await refreshBuildPerformance(supabase, buildId)
+    } catch (performanceError) {
+      console.error('Error estimating build performance:', performanceError)
+    }
+
     // ============================================================
     // FETCH COMPLETE BUILD FOR RESPONSE
     // ============================================================
@@ -175,6 +234,7 @@ export async function POST(req: NextRequest) {
     // Custom error handler (handleApiError) catches all error types
     // - UnauthorizedError: 401 - User not authenticated
     // - ValidationError: 400 - Invalid request body
+    // - ZodError: 400 - Setting values outside the catalog rules (errors per setting)
     // - NotFoundError: 404 - Car not found
     // - Generic errors: 500 - Internal server error
     //
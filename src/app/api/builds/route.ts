@@ -1,7 +1,7 @@
 /**
  * Build Management API
  *
- * GET /api/builds - List builds with filtering (carId, userId, ids, public, myBuilds)
+ * GET /api/builds - List builds with filtering (carId, userId, ids, public, myBuilds, minPp, maxPp)
  * POST /api/builds - Create a new build with upgrades, settings, and gear ratios
  *
  * Debugging Tips:
@@ -10,6 +10,10 @@
  * - Build creation fails if carId doesn't exist in Car table
  * - Admin users can set userId to create builds for other active users
  * - Gear ratios (gear1-20, finalDrive) stored as text to preserve formatting (e.g., "2.500")
+ * - minPp/maxPp filter on estimatedPp - builds without an estimate are excluded by either
+ * - estimatedPp/Power/Weight are recomputed on every save (see @/lib/build-performance.ts)
+ * - 400 with errors['settings.<settingId>']: Setting value breaks its TuningSetting rules
+ *   (see @/lib/tuning-validation.ts)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -19,6 +23,10 @@ import { getCurrentUser } from '@/lib/auth-utils'
 import type { DbPart, DbPartCategory, DbTuningSetting, DbTuningSection } from '@/types/database'
 import { CreateBuildSchema, validateBody } from '@/lib/validation'
 import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { createBuildRevision } from '@/lib/build-revisions'
+import { refreshBuildPerformance } from '@/lib/build-performance'
+import { loadTuningSettingRules, validateBuildSettings } from '@/lib/tuning-validation'
+import { formatZodError } from '@/lib/api-error-handler'
 
 export async function GET(request: NextRequest) {
   try {
@@ -31,6 +39,8 @@ export async function GET(request: NextRequest) {
     const ids = searchParams.get('ids')
     const publicOnly = searchParams.get('public') === 'true'
     const myBuilds = searchParams.get('myBuilds') === 'true'
+    const minPp = parseFloat(searchParams.get('minPp') || '')
+    const maxPp = parseFloat(searchParams.get('maxPp') || '')
 
     let query = supabase
       .from('CarBuild')
@@ -41,8 +51,12 @@ export async function GET(request: NextRequest) {
         isPublic,
         createdAt,
         updatedAt,
+        estimatedPp,
+        estimatedPower,
+        estimatedWeight,
+        estimatedTyre,
         user:User(id, name, email),
-        car:Car(id, name, slug, manufacturer, year)
+        car:Car(id, name, slug, manufacturer, year, category, driveType)
       `)
       .order('createdAt', { ascending: false })
 
@@ -69,6 +83,14 @@ export async function GET(request: NextRequest) {
       query = query.eq('isPublic', true)
     }
 
+    // Filter by estimated PP range (e.g. builds eligible for a PP-capped race)
+    if (!isNaN(minPp)) {
+      query = query.gte('estimatedPp', minPp)
+    }
+    if (!isNaN(maxPp)) {
+      query = query.lte('estimatedPp', maxPp)
+    }
+
     // Filter to current user's builds
     if (myBuilds && session?.user?.email) {
       const userData = await getCurrentUser(session)
@@ -142,7 +164,28 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { carId, name, description, isPublic, upgrades, settings, userId: requestedUserId, ...gearFields } = validationResult.data
+    const { carId, name, description, isPublic, upgrades, settings, userId: requestedUserId, tyreSize, redlineRpm, ...gearFields } = validationResult.data
+
+    // ============================================================
+    // TUNING SETTING VALUES
+    // ============================================================
+    // Every setting value is checked against its TuningSetting definition
+    // (range, step, "front:rear" format, select options) before anything is written.
+    // Errors are keyed 'settings.<settingId>' so the form can highlight the field.
+    // ============================================================
+
+    const settingRules = await loadTuningSettingRules(
+      supabase,
+      (settings || []).map(s => s.settingId || '')
+    )
+    const settingsError = validateBuildSettings(settings, settingRules)
+    if (settingsError) {
+      const formatted = formatZodError(settingsError)
+      return NextResponse.json(
+        { error: formatted.message, errors: formatted.errors },
+        { status: 400 }
+      )
+    }
 
     // ============================================================
     // BUILD CREATOR LOGIC
@@ -243,6 +286,8 @@ export async function POST(request: NextRequest) {
         createdAt: now,
         updatedAt: now,
         ...gearData,
+        tyreSize: tyreSize || null,
+        redlineRpm: redlineRpm ? Number(redlineRpm) : null,
       })
       .select()
       .single()
@@ -325,29 +370,11 @@ export async function POST(request: NextRequest) {
       const standardSettings = settings.filter(s => s.settingId && !s.settingId.startsWith('custom:'))
       const customGears = settings.filter(s => s.settingId && s.settingId.startsWith('custom:'))
 
-      // Handle standard settings (fetch details from TuningSetting table)
-      const settingIds = standardSettings.map(s => s.settingId).filter(Boolean)
-
-      let settingDetails: Array<{ id: string; name: string; sectionName: string }> = []
-      if (settingIds.length > 0) {
-        // Fetch settings with section details using JOIN query
-        const { data: tuningSettings } = await supabase
-          .from('TuningSetting')
-          .select('id, name, section:TuningSection(id, name)')
-          .in('id', settingIds)
-
-        settingDetails = (tuningSettings || []).map(s => ({
-          ...s,
-          sectionName: (s.section as { name?: string } | null)?.name || ''
-        }))
-      }
-
-      const settingMap = new Map(settingDetails.map(s => [s.id, s]))
-
       const settingRecords = standardSettings
         .filter((s): s is { settingId: string; value?: string } => !!s.settingId)
         .map((setting) => {
-          const tuningSetting = settingMap.get(setting.settingId)
+          // Name/section come from the rules loaded during validation
+          const tuningSetting = settingRules.get(setting.settingId)
           return {
             id: crypto.randomUUID(),
             buildId,
@@ -387,6 +414,20 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Store the initial setup as revision 1 (history starts at creation)
+    try {
+      await createBuildRevision(supabase, { buildId, createdById: userData.id })
+    } catch (revisionError) {
+      console.error('Error creating build revision:', revisionError)
+    }
+
+    // Estimated PP / power / weight for the build card and PP filters
+    try {
+      await refreshBuildPerformance(supabase, buildId)
+    } catch (performanceError) {
+      console.error('Error estimating build performance:', performanceError)
+    }
+
     // Fetch the complete build with upgrades and settings
     const { data: completeBuild } = await supabase
       .from('CarBuild')
@@ -0,0 +1,125 @@
+/**
+ * Build Search API
+ *
+ * GET /api/builds/search - Full-text + faceted build search with pagination
+ *
+ * Purpose: Server-side search for the /builds page (and anything else listing builds)
+ * - Full-text (prefix) match over build name, description, car manufacturer and car name
+ * - Facet filters: manufacturer, car category, drive type, creator, has lap times at a
+ *   track, uses a part
+ * - Sorted by most recent, most used in races (RaceCar rows) or fastest lap
+ *
+ * Query Parameters (all optional):
+ * - q: Free text
+ * - manufacturer, category (CarCategory), driveType (DriveType), userId (creator)
+ * - trackId: Only builds with a LapTime at this track (fastest lap sort uses this track too)
+ * - partId: Only builds using this Part
+ * - public=true / myBuilds=true, minPp / maxPp: Same as GET /api/builds
+ * - sort: recent (default) | races | fastest (builds without laps last)
+ * - page (default 1), limit (default 20, max 100)
+ *
+ * Response (ApiPaginatedResponse + facets):
+ * - data[]: Build (same fields as GET /api/builds) + raceCount + fastestLapMs
+ * - meta: { page, limit, total, totalPages, hasNextPage, hasPreviousPage }
+ * - facets: { manufacturer, category, driveType, creator } - { value, label, count }[]
+ *   counted over all matches, not just this page
+ *
+ * Access Control:
+ * - Public builds for everyone, plus the signed-in user's own private builds
+ *
+ * Debugging Tips:
+ * - 400 with errors: Invalid query parameter (e.g. unknown category, page=0)
+ * - Build missing: Private builds of other users are never returned
+ * - "function search_builds does not exist": Migration 20261019140000_build_search not applied
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { BuildSearchQuerySchema } from '@/lib/validation'
+import { toBuildSearchQuery, toPaginationMeta, type BuildSearchRpcResult } from '@/lib/build-search'
+import { handleApiError, UnauthorizedError } from '@/lib/api-error-handler'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = BuildSearchQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const session = await auth()
+    const userData = session?.user?.email ? await getCurrentUser(session) : null
+
+    if (query.myBuilds && !userData) {
+      throw new UnauthorizedError()
+    }
+
+    const supabase = createServiceRoleClient()
+
+    // ============================================================
+    // SEARCH (ids of the requested page + totals + facets)
+    // ============================================================
+
+    const { data: search, error: searchError } = await supabase.rpc('search_builds', {
+      p_query: toBuildSearchQuery(query.q),
+      p_manufacturer: query.manufacturer ?? null,
+      p_category: query.category ?? null,
+      p_drive_type: query.driveType ?? null,
+      p_user_id: query.myBuilds ? userData?.id : query.userId ?? null,
+      p_track_id: query.trackId ?? null,
+      p_part_id: query.partId ?? null,
+      p_public_only: query.public,
+      p_min_pp: query.minPp ?? null,
+      p_max_pp: query.maxPp ?? null,
+      p_viewer_id: userData?.id ?? null,
+      p_sort: query.sort,
+      p_limit: query.limit,
+      p_offset: (query.page - 1) * query.limit,
+    })
+
+    if (searchError) throw searchError
+
+    const { total, results, facets } = search as BuildSearchRpcResult
+
+    // ============================================================
+    // BUILD ROWS (same shape as GET /api/builds, in search order)
+    // ============================================================
+
+    let builds: Record<string, unknown>[] = []
+
+    if (results.length > 0) {
+      const { data, error } = await supabase
+        .from('CarBuild')
+        .select(`
+          id,
+          name,
+          description,
+          isPublic,
+          createdAt,
+          updatedAt,
+          estimatedPp,
+          estimatedPower,
+          estimatedWeight,
+          estimatedTyre,
+          user:User(id, name, email),
+          car:Car(id, name, slug, manufacturer, year, category, driveType)
+        `)
+        .in('id', results.map((result) => result.id))
+
+      if (error) throw error
+
+      const buildsById = new Map((data || []).map((build) => [build.id, build]))
+      builds = results.flatMap((result) => {
+        const build = buildsById.get(result.id)
+        return build ? [{ ...build, raceCount: result.raceCount, fastestLapMs: result.fastestLapMs }] : []
+      })
+    }
+
+    return NextResponse.json({
+      data: builds,
+      meta: toPaginationMeta(total, query.page, query.limit),
+      facets,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
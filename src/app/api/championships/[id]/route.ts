@@ -0,0 +1,264 @@
+/**
+ * Single Championship API
+ *
+ * GET /api/championships/[id] - Championship with its rounds and standings
+ * PATCH /api/championships/[id] - Update details and/or replace the rounds (creator or admin)
+ * DELETE /api/championships/[id] - Delete the championship (creator or admin; races are kept)
+ *
+ * Purpose: Season standings with a round-by-round breakdown
+ * - Points are the stored RaceResult.points of each round's race
+ * - Only completed races (Race.completedAt) count; the rest are upcoming rounds
+ * - Drop worst N and countback: See computeDriverStandings()
+ *
+ * Request Body (PATCH):
+ * - name, description, dropWorstRounds: Optional
+ * - raceIds: Races in round order - replaces every round
+ *
+ * Response:
+ * - GET: {
+ *     championship: DbChampionship + createdBy,
+ *     rounds[]: { round, completed, race: { id, name, completedAt, track } },
+ *     drivers[]: DriverStanding + user,
+ *     manufacturers[]: ManufacturerStanding
+ *   }
+ * - PATCH: { championship }
+ * - DELETE: { success: true }
+ *
+ * Debugging Tips:
+ * - 403: Only the creator (or an admin) can change the championship
+ * - Driver missing from the standings: No result in any completed round
+ * - Manufacturer missing: Results saved without a build (no car recorded)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { UpdateChampionshipSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import {
+  computeDriverStandings,
+  computeManufacturerStandings,
+  setChampionshipRounds,
+  type StandingsRound,
+} from '@/lib/championship-standings'
+import {
+  handleApiError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/lib/api-error-handler'
+import type { DbChampionship, RaceResultStatus } from '@/types/database'
+
+const CHAMPIONSHIP_SELECT = `
+  *,
+  createdBy:User!Championship_createdById_fkey(id, name, gamertag)
+`
+
+interface RoundRow {
+  round: number
+  race: {
+    id: string
+    name: string | null
+    completedAt: string | null
+    track: { id: string; name: string; layout: string | null } | null
+  } | null
+}
+
+interface ResultRow {
+  raceId: string
+  userId: string
+  status: RaceResultStatus
+  position: number | null
+  points: number
+  user: { id: string; name: string | null; gamertag: string | null } | null
+  car: { manufacturer: string } | null
+}
+
+// Load the championship and check the caller may change it
+async function getEditableChampionship(id: string) {
+  const session = await auth()
+  if (!session?.user?.email) {
+    throw new UnauthorizedError()
+  }
+
+  const userData = await getCurrentUser(session)
+  if (!userData) {
+    throw new NotFoundError('User')
+  }
+
+  const supabase = createServiceRoleClient()
+  const { data: championship } = await supabase.from('Championship').select('*').eq('id', id).single()
+
+  if (!championship) {
+    throw new NotFoundError('Championship')
+  }
+  if (championship.createdById !== userData.id && !isAdmin(session)) {
+    throw new ForbiddenError('Only the championship creator or an admin can change it')
+  }
+
+  return { supabase, championship: championship as DbChampionship }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+
+    const [{ data: championship }, { data: roundRows, error: roundsError }] = await Promise.all([
+      supabase.from('Championship').select(CHAMPIONSHIP_SELECT).eq('id', id).single(),
+      supabase
+        .from('ChampionshipRound')
+        .select('round, race:Race(id, name, completedAt, track:Track(id, name, layout))')
+        .eq('championshipId', id)
+        .order('round', { ascending: true }),
+    ])
+
+    if (!championship) {
+      throw new NotFoundError('Championship')
+    }
+    if (roundsError) throw roundsError
+
+    const rounds = ((roundRows || []) as unknown as RoundRow[]).filter((row) => row.race)
+    const raceIds = rounds.map((row) => row.race!.id)
+
+    // ============================================================
+    // RESULTS OF EVERY ROUND (ONE QUERY)
+    // ============================================================
+
+    let results: ResultRow[] = []
+    if (raceIds.length > 0) {
+      const { data, error } = await supabase
+        .from('RaceResult')
+        .select(`
+          raceId,
+          userId,
+          status,
+          position,
+          points,
+          user:User!RaceResult_userId_fkey(id, name, gamertag),
+          car:Car(manufacturer)
+        `)
+        .in('raceId', raceIds)
+
+      if (error) throw error
+      results = (data || []) as unknown as ResultRow[]
+    }
+
+    // ============================================================
+    // STANDINGS
+    // ============================================================
+
+    const standingsRounds: StandingsRound[] = rounds.map((row) => ({
+      round: row.round,
+      raceId: row.race!.id,
+      completed: row.race!.completedAt !== null,
+    }))
+    const standingsResults = results.map((result) => ({
+      raceId: result.raceId,
+      userId: result.userId,
+      status: result.status,
+      position: result.position,
+      points: result.points,
+      manufacturer: result.car?.manufacturer ?? null,
+    }))
+    const users = new Map(results.map((result) => [result.userId, result.user]))
+
+    return NextResponse.json({
+      championship,
+      rounds: rounds.map((row) => ({
+        round: row.round,
+        completed: row.race!.completedAt !== null,
+        race: row.race,
+      })),
+      drivers: computeDriverStandings(standingsRounds, standingsResults, championship.dropWorstRounds).map(
+        (standing) => ({ ...standing, user: users.get(standing.userId) ?? null })
+      ),
+      manufacturers: computeManufacturerStandings(standingsRounds, standingsResults),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const { id } = await params
+    const { supabase } = await getEditableChampionship(id)
+
+    const body = await request.json()
+    const validationResult = await validateBody(UpdateChampionshipSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { raceIds, ...details } = validationResult.data
+
+    // ============================================================
+    // ROUNDS (FIRST - NOTHING IS CHANGED WHEN A RACE IS MISSING)
+    // ============================================================
+
+    if (raceIds) {
+      if (raceIds.length > 0) {
+        const { data: races, error: racesError } = await supabase.from('Race').select('id').in('id', raceIds)
+        if (racesError) throw racesError
+        if ((races || []).length !== raceIds.length) {
+          throw new ValidationError('One or more races were not found')
+        }
+      }
+
+      await setChampionshipRounds(supabase, id, raceIds)
+    }
+
+    // ============================================================
+    // DETAILS
+    // ============================================================
+
+    const { data: updated, error } = await supabase
+      .from('Championship')
+      .update({ ...details, updatedAt: new Date().toISOString() })
+      .eq('id', id)
+      .select(CHAMPIONSHIP_SELECT)
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ championship: updated }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { supabase } = await getEditableChampionship(id)
+
+    // ChampionshipRound_championshipId_fkey is ON DELETE CASCADE - the races stay
+    const { error } = await supabase.from('Championship').delete().eq('id', id)
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
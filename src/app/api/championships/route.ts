@@ -0,0 +1,141 @@
+/**
+ * Championships API
+ *
+ * GET /api/championships - Every championship with its round count, newest first
+ * POST /api/championships - Create a championship (races become rounds 1..n)
+ *
+ * Purpose: Group races into a season
+ * - Rounds are races in order; a race can be a round of several championships
+ * - Standings (GET /api/championships/[id]) add up the points of the races' results
+ *
+ * Request Body (POST):
+ * - name: Required
+ * - description: Optional
+ * - dropWorstRounds: Each driver's N worst rounds don't count (default 0)
+ * - raceIds: Races in round order (default none - add them later)
+ *
+ * Response:
+ * - GET: { championships[]: DbChampionship + createdBy, roundCount, completedRounds }
+ * - POST: { championship } (201)
+ *
+ * Debugging Tips:
+ * - 400 "One or more races were not found": A raceId doesn't exist (deleted race?)
+ * - Round count lower than expected: Deleting a race deletes its rounds (ON DELETE CASCADE)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { CreateChampionshipSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { setChampionshipRounds } from '@/lib/championship-standings'
+import { handleApiError, NotFoundError, UnauthorizedError, ValidationError } from '@/lib/api-error-handler'
+
+export async function GET() {
+  try {
+    const supabase = createServiceRoleClient()
+
+    const { data: championships, error } = await supabase
+      .from('Championship')
+      .select(`
+        *,
+        createdBy:User!Championship_createdById_fkey(id, name, gamertag),
+        ChampionshipRound(race:Race(completedAt))
+      `)
+      .order('createdAt', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({
+      championships: (championships || []).map(({ ChampionshipRound: rounds, ...championship }) => ({
+        ...championship,
+        roundCount: (rounds || []).length,
+        completedRounds: (rounds || []).filter((round: { race: { completedAt: string | null } | null }) => (
+          round.race?.completedAt
+        )).length,
+      })),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const body = await request.json()
+    const validationResult = await validateBody(CreateChampionshipSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { name, description, dropWorstRounds, raceIds } = validationResult.data
+    const supabase = createServiceRoleClient()
+
+    if (raceIds.length > 0) {
+      const { data: races, error: racesError } = await supabase.from('Race').select('id').in('id', raceIds)
+      if (racesError) throw racesError
+      if ((races || []).length !== raceIds.length) {
+        throw new ValidationError('One or more races were not found')
+      }
+    }
+
+    // ============================================================
+    // CREATE CHAMPIONSHIP + ROUNDS
+    // ============================================================
+
+    const now = new Date().toISOString()
+    const { data: championship, error } = await supabase
+      .from('Championship')
+      .insert({
+        id: crypto.randomUUID(),
+        name,
+        description: description || null,
+        dropWorstRounds,
+        createdById: userData.id,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    if (raceIds.length > 0) {
+      try {
+        await setChampionshipRounds(supabase, championship.id, raceIds)
+      } catch (roundsError) {
+        // Keep the create all-or-nothing
+        await supabase.from('Championship').delete().eq('id', championship.id)
+        throw roundsError
+      }
+    }
+
+    return NextResponse.json({ championship }, { status: 201, headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
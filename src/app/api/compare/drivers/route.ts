@@ -0,0 +1,177 @@
+/**
+ * Driver Comparison API
+ *
+ * GET /api/compare/drivers - Drivers to pick from (no a/b)
+ * GET /api/compare/drivers?a=...&b=... - Head-to-head of two drivers
+ *
+ * Purpose: Data for the /compare/drivers page
+ * - Every track both drivers have a lap at: each one's best lap, gap and winner
+ * - Like the global leaderboards, every LapTime counts (any build, race or session);
+ *   removed laps don't
+ *
+ * Query Parameters:
+ * - a / b: User IDs (both or neither, must differ)
+ * - car: any (default) - best lap per track, whatever the car
+ *        same - best lap per track + car, only cars both have driven there
+ *
+ * Response (no a/b):
+ * - drivers[]: { id, name, gamertag } - approved users (USER/ADMIN)
+ *
+ * Response (a/b):
+ * - driverA / driverB: { id, name, gamertag }
+ * - carMode: any | same
+ * - summary: { compared, winsA, winsB, ties, averageGapMs } - gap is A - B (negative = A faster)
+ * - rows[]: { track, car (same-car mode only), a, b, gapMs }, ordered by track name
+ *   - a / b: { lapId, timeMs, createdAt, car, build } - build as in GET /api/leaderboards
+ *     ({ id, name, linkable }, linkable is false for other users' private builds)
+ *
+ * Debugging Tips:
+ * - 400 "Pick two drivers to compare": Only one of a/b was given
+ * - 404 "Driver not found": Unknown user ID
+ * - Empty rows: The drivers have no track in common (or no common car with car=same)
+ * - Best laps are picked in SQL (driver_best_laps) - active drivers have more laps than
+ *   one query returns
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { DriverComparisonQuerySchema } from '@/lib/validation'
+import { compareDrivers } from '@/lib/driver-comparison'
+import { handleApiError, NotFoundError, UnauthorizedError } from '@/lib/api-error-handler'
+
+interface ComparisonLapRow {
+  id: string
+  userId: string
+  trackId: string
+  carId: string
+  timeMs: number
+  createdAt: string
+  buildId: string | null
+  buildName: string | null
+  track: { id: string; name: string; layout: string | null } | null
+  car: { id: string; name: string; manufacturer: string; category: string | null } | null
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { a, b, car: carMode } = DriverComparisonQuerySchema.parse(Object.fromEntries(searchParams))
+    const supabase = createServiceRoleClient()
+
+    // ============================================================
+    // DRIVER LIST (no a/b)
+    // ============================================================
+    // GET /api/users is admin-only (it returns emails), so the pickers use this
+    // ============================================================
+
+    if (!a || !b) {
+      const { data: drivers, error } = await supabase
+        .from('User')
+        .select('id, name, gamertag')
+        .in('role', ['USER', 'ADMIN'])
+        .not('email', 'eq', 'nulluser')
+        .order('name', { ascending: true })
+
+      if (error) throw error
+
+      return NextResponse.json({ drivers: drivers || [] })
+    }
+
+    // ============================================================
+    // BOTH DRIVERS' BEST LAPS
+    // ============================================================
+    // One lap per driver + track (+ car in same-car mode), chosen by driver_best_laps()
+    // ============================================================
+
+    const [{ data: users, error: usersError }, { data: laps, error: lapsError }] = await Promise.all([
+      supabase.from('User').select('id, name, gamertag').in('id', [a, b]),
+      supabase
+        .rpc('driver_best_laps', { p_user_ids: [a, b], p_per_car: carMode === 'same' })
+        .select(`
+          id,
+          userId,
+          trackId,
+          carId,
+          timeMs,
+          createdAt,
+          buildId,
+          buildName,
+          track:Track(id, name, layout),
+          car:Car(id, name, manufacturer, category)
+        `),
+    ])
+
+    if (usersError) throw usersError
+    if (lapsError) throw lapsError
+
+    const driverA = users?.find((user) => user.id === a)
+    const driverB = users?.find((user) => user.id === b)
+    if (!driverA || !driverB) {
+      throw new NotFoundError('Driver')
+    }
+
+    const { rows, summary } = compareDrivers((laps || []) as unknown as ComparisonLapRow[], a, b, carMode)
+
+    // ============================================================
+    // BUILD LINKS
+    // ============================================================
+    // LapTime.buildId has no foreign key (deleted builds keep their laps) - same
+    // lookup as GET /api/leaderboards
+    // ============================================================
+
+    const buildIds = [...new Set(
+      rows.flatMap((row) => [row.lapA.buildId, row.lapB.buildId]).filter((id): id is string => Boolean(id))
+    )]
+
+    const { data: builds, error: buildsError } = buildIds.length > 0
+      ? await supabase.from('CarBuild').select('id, name, isPublic, userId').in('id', buildIds)
+      : { data: [], error: null }
+
+    if (buildsError) throw buildsError
+
+    const buildsById = new Map((builds || []).map((build) => [build.id, build]))
+
+    const toSide = (lap: ComparisonLapRow) => {
+      const build = lap.buildId ? buildsById.get(lap.buildId) : undefined
+      return {
+        lapId: lap.id,
+        timeMs: lap.timeMs,
+        createdAt: lap.createdAt,
+        car: lap.car,
+        build: lap.buildId
+          ? {
+              id: lap.buildId,
+              name: build?.name || lap.buildName,
+              linkable: Boolean(build && (build.isPublic || build.userId === session.user.id)),
+            }
+          : null,
+      }
+    }
+
+    const trackLabel = (row: (typeof rows)[number]) => row.lapA.track?.name || ''
+
+    return NextResponse.json({
+      driverA,
+      driverB,
+      carMode,
+      summary,
+      rows: rows
+        .sort((x, y) => trackLabel(x).localeCompare(trackLabel(y)) || (x.lapA.track?.layout || '').localeCompare(y.lapA.track?.layout || ''))
+        .map((row) => ({
+          track: row.lapA.track,
+          car: row.carId ? row.lapA.car : null,
+          a: toSide(row.lapA),
+          b: toSide(row.lapB),
+          gapMs: row.gapMs,
+        })),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Single Lap Session API
+ *
+ * GET /api/lap-sessions/[id] - Session with its laps and stint stats
+ * PATCH /api/lap-sessions/[id] - Update details, group or ungroup laps
+ * DELETE /api/lap-sessions/[id] - Delete the session (its laps are kept, sessionId → NULL)
+ *
+ * Purpose: Manage one stint
+ * - Owner only (admins can view)
+ * - Changing sessionType re-types every lap in the session
+ *
+ * Request Body (PATCH):
+ * - date, sessionType, conditions, notes: Optional
+ * - addLapTimeIds: Own laps at the session track to group into this session
+ * - removeLapTimeIds: Laps to take out (they become standalone laps)
+ *
+ * Response:
+ * - GET: { session: DbLapSession + track, race, laps[], stats }
+ *   - laps: Oldest first (driving order), with car and buildName; removed laps are left out
+ * - PATCH: { session }
+ * - DELETE: { success: true }
+ *
+ * Debugging Tips:
+ * - 403: Only the driver who owns the session can change it
+ * - Lap rejected: Different track or not the owner's lap (assignLapsToSession)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { UpdateLapSessionSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { assignLapsToSession, summarizeStint } from '@/lib/lap-sessions'
+import {
+  handleApiError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/lib/api-error-handler'
+import type { DbLapSession } from '@/types/database'
+
+const SESSION_SELECT = `
+  *,
+  track:Track(id, name, slug, layout),
+  race:Race(id, name)
+`
+
+// Load the session and check the caller may change it
+async function getOwnedSession(id: string) {
+  const session = await auth()
+  if (!session?.user?.email) {
+    throw new UnauthorizedError()
+  }
+
+  const userData = await getCurrentUser(session)
+  if (!userData) {
+    throw new NotFoundError('User')
+  }
+
+  const supabase = createServiceRoleClient()
+  const { data: lapSession } = await supabase.from('LapSession').select('*').eq('id', id).single()
+
+  if (!lapSession) {
+    throw new NotFoundError('Lap session')
+  }
+  if (lapSession.userId !== userData.id) {
+    throw new ForbiddenError('You can only change your own sessions')
+  }
+
+  return { supabase, lapSession: lapSession as DbLapSession }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+
+    const [{ data: lapSession }, { data: laps, error: lapsError }] = await Promise.all([
+      supabase.from('LapSession').select(SESSION_SELECT).eq('id', id).single(),
+      supabase
+        .from('LapTime')
+        .select(`
+          id,
+          timeMs,
+          sectorTimesMs,
+          notes,
+          conditions,
+          sessionType,
+          createdAt,
+          buildId,
+          buildName,
+          car:Car(id, name, manufacturer)
+        `)
+        .eq('sessionId', id)
+        .neq('status', 'REMOVED')
+        .order('createdAt', { ascending: true }),
+    ])
+
+    if (!lapSession) {
+      throw new NotFoundError('Lap session')
+    }
+    if (lapSession.userId !== userData.id && !isAdmin(session)) {
+      throw new ForbiddenError('You can only view your own sessions')
+    }
+    if (lapsError) throw lapsError
+
+    return NextResponse.json({
+      session: {
+        ...lapSession,
+        laps: laps || [],
+        stats: summarizeStint(laps || []),
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const { id } = await params
+    const { supabase, lapSession } = await getOwnedSession(id)
+
+    const body = await request.json()
+    const validationResult = await validateBody(UpdateLapSessionSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { addLapTimeIds, removeLapTimeIds, ...details } = validationResult.data
+    const now = new Date().toISOString()
+
+    // ============================================================
+    // GROUP LAPS (FIRST - NOTHING IS CHANGED WHEN A LAP IS REJECTED)
+    // ============================================================
+
+    if (addLapTimeIds?.length) {
+      const assignError = await assignLapsToSession(
+        supabase,
+        { ...lapSession, sessionType: details.sessionType || lapSession.sessionType },
+        addLapTimeIds
+      )
+      if (assignError) {
+        throw new ValidationError(assignError)
+      }
+    }
+
+    // ============================================================
+    // SESSION DETAILS
+    // ============================================================
+
+    const { data: updated, error } = await supabase
+      .from('LapSession')
+      .update({ ...details, updatedAt: now })
+      .eq('id', id)
+      .select(SESSION_SELECT)
+      .single()
+
+    if (error) throw error
+
+    if (details.sessionType && details.sessionType !== lapSession.sessionType) {
+      const { error: retypeError } = await supabase
+        .from('LapTime')
+        .update({ sessionType: details.sessionType, updatedAt: now })
+        .eq('sessionId', id)
+
+      if (retypeError) throw retypeError
+    }
+
+    // ============================================================
+    // UNGROUP LAPS
+    // ============================================================
+
+    if (removeLapTimeIds?.length) {
+      const { error: removeError } = await supabase
+        .from('LapTime')
+        .update({ sessionId: null, updatedAt: now })
+        .eq('sessionId', id)
+        .in('id', removeLapTimeIds)
+
+      if (removeError) throw removeError
+    }
+
+    return NextResponse.json({ session: updated }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { supabase } = await getOwnedSession(id)
+
+    // LapTime_sessionId_fkey is ON DELETE SET NULL - the laps stay
+    const { error } = await supabase.from('LapSession').delete().eq('id', id)
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Lap Sessions API
+ *
+ * GET /api/lap-sessions - The current user's lap sessions (stints), newest first
+ * POST /api/lap-sessions - Create a session (optionally grouping existing laps into it)
+ *
+ * Purpose: Treat a stint of laps as one entity
+ * - A session is one driver at one track on one date, optionally for a race
+ * - Each session comes back with stint stats (average, fastest lap, spread, std dev) -
+ *   removed laps don't count
+ *
+ * Query Parameters (GET):
+ * - trackId: Only sessions at this track (LapTimeForm session picker)
+ * - raceId: Only sessions for this race
+ *
+ * Request Body (POST):
+ * - trackId or raceId (race sets the track), date (default today), sessionType (default P)
+ * - conditions, notes: Optional
+ * - lapTimeIds: Optional existing laps to group (own laps at the same track)
+ *
+ * Response:
+ * - GET: { sessions[]: DbLapSession + track, race, stats (StintStats | null) }
+ * - POST: { session } (201)
+ *
+ * Debugging Tips:
+ * - 400 "Track or race is required": Neither trackId nor raceId sent
+ * - 400 "Race is at a different track": trackId and raceId disagree
+ * - Lap rejected: See assignLapsToSession (owner + track checks)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { CreateLapSessionSchema, LapSessionListQuerySchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { assignLapsToSession, summarizeStint } from '@/lib/lap-sessions'
+import { handleApiError, NotFoundError, UnauthorizedError, ValidationError } from '@/lib/api-error-handler'
+
+const SESSION_SELECT = `
+  *,
+  track:Track(id, name, slug, layout),
+  race:Race(id, name)
+`
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { trackId, raceId } = LapSessionListQuerySchema.parse(Object.fromEntries(searchParams))
+    const supabase = createServiceRoleClient()
+
+    let query = supabase
+      .from('LapSession')
+      .select(SESSION_SELECT)
+      .eq('userId', userData.id)
+      .order('date', { ascending: false })
+      .order('createdAt', { ascending: false })
+
+    if (trackId) query = query.eq('trackId', trackId)
+    if (raceId) query = query.eq('raceId', raceId)
+
+    const { data: sessions, error } = await query
+    if (error) throw error
+
+    // Stint stats from the laps of every listed session (one query)
+    const sessionIds = (sessions || []).map((lapSession) => lapSession.id)
+    const lapsBySession = new Map<string, { id: string; timeMs: number }[]>()
+
+    if (sessionIds.length > 0) {
+      const { data: laps, error: lapsError } = await supabase
+        .from('LapTime')
+        .select('id, timeMs, sessionId')
+        .in('sessionId', sessionIds)
+        .neq('status', 'REMOVED')
+
+      if (lapsError) throw lapsError
+      for (const lap of laps || []) {
+        lapsBySession.set(lap.sessionId, [...(lapsBySession.get(lap.sessionId) || []), lap])
+      }
+    }
+
+    return NextResponse.json({
+      sessions: (sessions || []).map((lapSession) => ({
+        ...lapSession,
+        stats: summarizeStint(lapsBySession.get(lapSession.id) || []),
+      })),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const body = await request.json()
+    const validationResult = await validateBody(CreateLapSessionSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { raceId, date, sessionType, conditions, notes, lapTimeIds } = validationResult.data
+    let { trackId } = validationResult.data
+    const supabase = createServiceRoleClient()
+
+    // ============================================================
+    // RESOLVE TRACK (RACE WINS)
+    // ============================================================
+
+    if (raceId) {
+      const { data: race } = await supabase.from('Race').select('id, trackId').eq('id', raceId).single()
+      if (!race) {
+        throw new NotFoundError('Race')
+      }
+      if (trackId && trackId !== race.trackId) {
+        throw new ValidationError('Race is at a different track')
+      }
+      trackId = race.trackId
+    } else {
+      const { data: track } = await supabase.from('Track').select('id').eq('id', trackId!).single()
+      if (!track) {
+        throw new NotFoundError('Track')
+      }
+    }
+
+    // ============================================================
+    // CREATE SESSION (+ GROUP LAPS)
+    // ============================================================
+
+    const now = new Date().toISOString()
+    const { data: lapSession, error } = await supabase
+      .from('LapSession')
+      .insert({
+        id: crypto.randomUUID(),
+        userId: userData.id,
+        trackId: trackId!,
+        raceId: raceId || null,
+        date: date || now.slice(0, 10),
+        sessionType,
+        conditions: conditions || null,
+        notes: notes || null,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .select(SESSION_SELECT)
+      .single()
+
+    if (error) throw error
+
+    if (lapTimeIds?.length) {
+      const assignError = await assignLapsToSession(supabase, lapSession, lapTimeIds)
+      if (assignError) {
+        // Keep the create all-or-nothing
+        await supabase.from('LapSession').delete().eq('id', lapSession.id)
+        throw new ValidationError(assignError)
+      }
+    }
+
+    return NextResponse.json({ session: lapSession }, { status: 201, headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Lap Time Dispute Resolution API
+ *
+ * PATCH /api/lap-time-disputes/[id] - Resolve an open dispute (admin only)
+ *
+ * Purpose: Settle a disputed lap for leaderboards and race standings
+ * - ACCEPTED: The lap stands (LapTime.status → ACTIVE)
+ * - REMOVED: The lap is hidden from leaderboards and race standings (LapTime.status → REMOVED);
+ *   the owner still sees it in their own lap list, and the track's records are recomputed
+ * - Written to the admin audit log (RESOLVE_LAP_DISPUTE)
+ *
+ * Request Body:
+ * - resolution: ACCEPTED | REMOVED
+ * - resolutionNote: Optional explanation shown in the lap history
+ *
+ * Response: { dispute }
+ *
+ * Debugging Tips:
+ * - 409: The dispute was already resolved
+ * - Time wrong rather than fake: Edit the lap (PATCH /api/lap-times/[id]) then accept
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { isAdmin } from '@/lib/auth-utils'
+import { ResolveLapTimeDisputeSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { statusAfterResolution } from '@/lib/lap-time-history'
+import { logAdminAction } from '@/lib/audit-log'
+import { rebuildTrackRecords } from '@/lib/track-records'
+import {
+  handleApiError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/lib/api-error-handler'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError()
+    }
+    if (!isAdmin(session)) {
+      throw new ForbiddenError('Only admins can resolve disputes')
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validationResult = await validateBody(ResolveLapTimeDisputeSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { resolution, resolutionNote } = validationResult.data
+    const supabase = createServiceRoleClient()
+
+    const { data: existing } = await supabase
+      .from('LapTimeDispute')
+      .select('id, lapTimeId, status')
+      .eq('id', id)
+      .single()
+
+    if (!existing) {
+      throw new NotFoundError('Dispute')
+    }
+    if (existing.status !== 'OPEN') {
+      throw new ConflictError('This dispute has already been resolved')
+    }
+
+    // ============================================================
+    // RESOLVE DISPUTE + APPLY OUTCOME TO THE LAP
+    // ============================================================
+
+    const now = new Date().toISOString()
+    const { data: dispute, error } = await supabase
+      .from('LapTimeDispute')
+      .update({
+        status: resolution,
+        resolvedById: session.user.id,
+        resolutionNote: resolutionNote || null,
+        resolvedAt: now,
+        updatedAt: now,
+      })
+      .eq('id', id)
+      .eq('status', 'OPEN')
+      .select('*')
+      .single()
+
+    if (error) throw error
+
+    const { data: lap, error: lapError } = await supabase
+      .from('LapTime')
+      .update({ status: statusAfterResolution(resolution), updatedAt: now })
+      .eq('id', existing.lapTimeId)
+      .select('trackId')
+      .single()
+
+    if (lapError) throw lapError
+
+    if (resolution === 'REMOVED') {
+      await rebuildTrackRecords(supabase, lap.trackId)
+    }
+
+    await logAdminAction({
+      adminId: session.user.id,
+      action: 'RESOLVE_LAP_DISPUTE',
+      targetId: existing.lapTimeId,
+      targetType: 'LapTime',
+      details: { disputeId: id, resolution, resolutionNote: resolutionNote || null },
+    })
+
+    return NextResponse.json({ dispute }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
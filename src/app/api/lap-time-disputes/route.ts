@@ -0,0 +1,66 @@
+/**
+ * Lap Time Disputes List API
+ *
+ * GET /api/lap-time-disputes - Disputes for the admin review page (admin only)
+ *
+ * Query Parameters:
+ * - status: OPEN (default), ACCEPTED, REMOVED or all
+ *
+ * Response:
+ * - disputes[]: LapTimeDispute + raisedBy, resolvedBy and the lap
+ *   (timeMs, status, createdAt, user, track, car), oldest open dispute first
+ *
+ * Debugging Tips:
+ * - 403: Only admins resolve disputes
+ * - Dispute gone: Deleting a lap deletes its disputes (ON DELETE CASCADE)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { isAdmin } from '@/lib/auth-utils'
+import { LapTimeDisputeListQuerySchema } from '@/lib/validation'
+import { handleApiError, ForbiddenError, UnauthorizedError } from '@/lib/api-error-handler'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError()
+    }
+    if (!isAdmin(session)) {
+      throw new ForbiddenError('Only admins can review disputes')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { status } = LapTimeDisputeListQuerySchema.parse(Object.fromEntries(searchParams))
+    const supabase = createServiceRoleClient()
+
+    let query = supabase
+      .from('LapTimeDispute')
+      .select(`
+        *,
+        raisedBy:User!LapTimeDispute_raisedById_fkey(id, name, gamertag),
+        resolvedBy:User!LapTimeDispute_resolvedById_fkey(id, name, gamertag),
+        lapTime:LapTime(
+          id,
+          timeMs,
+          status,
+          createdAt,
+          user:User!LapTime_userId_fkey(id, name, gamertag),
+          track:Track(id, name, layout),
+          car:Car(id, name, manufacturer)
+        )
+      `)
+      .order('createdAt', { ascending: status === 'OPEN' })
+
+    if (status !== 'all') query = query.eq('status', status)
+
+    const { data: disputes, error } = await query
+    if (error) throw error
+
+    return NextResponse.json({ disputes: disputes || [] })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Lap Time Review API
+ *
+ * PATCH /api/lap-time-reviews/[id] - Review a lap flagged as an outlier (admin only)
+ *
+ * Purpose: Settle laps the driver saved despite the outlier warning
+ * - [id] is the LapTime ID (the review lives on the lap: LapTime.reviewStatus)
+ * - APPROVED: The lap stands and can now set track records (records are recomputed)
+ * - REJECTED: The lap is hidden from leaderboards and race standings (LapTime.status → REMOVED)
+ * - Written to the admin audit log (REVIEW_LAP_TIME)
+ *
+ * Request Body:
+ * - decision: APPROVED | REJECTED
+ * - note: Optional, stored in the audit log
+ *
+ * Response: { lapTime }
+ *
+ * Debugging Tips:
+ * - 409: The lap isn't waiting for review (already reviewed, or edited to a plausible time)
+ * - Approved lap not the record: Approval rebuilds records silently (no announcement)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { isAdmin } from '@/lib/auth-utils'
+import { ReviewLapTimeSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { rebuildTrackRecords } from '@/lib/track-records'
+import { logAdminAction } from '@/lib/audit-log'
+import {
+  handleApiError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/lib/api-error-handler'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError()
+    }
+    if (!isAdmin(session)) {
+      throw new ForbiddenError('Only admins can review lap times')
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validationResult = await validateBody(ReviewLapTimeSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { decision, note } = validationResult.data
+    const supabase = createServiceRoleClient()
+
+    const { data: existing } = await supabase
+      .from('LapTime')
+      .select('id, userId, trackId, timeMs, reviewStatus, outlierReasons')
+      .eq('id', id)
+      .single()
+
+    if (!existing) {
+      throw new NotFoundError('Lap time')
+    }
+    if (existing.reviewStatus !== 'PENDING') {
+      throw new ConflictError('This lap time is not waiting for review')
+    }
+
+    // ============================================================
+    // APPLY DECISION
+    // ============================================================
+
+    const now = new Date().toISOString()
+    const { data: lapTime, error } = await supabase
+      .from('LapTime')
+      .update({
+        reviewStatus: decision,
+        reviewedById: session.user.id,
+        reviewedAt: now,
+        updatedAt: now,
+        ...(decision === 'REJECTED' ? { status: 'REMOVED' } : {}),
+      })
+      .eq('id', id)
+      .eq('reviewStatus', 'PENDING')
+      .select('id, timeMs, status, reviewStatus, outlierReasons, reviewedAt')
+      .single()
+
+    if (error) throw error
+
+    // Pending laps were left out of the records - an approved one may now hold one
+    if (decision === 'APPROVED') {
+      await rebuildTrackRecords(supabase, existing.trackId)
+    }
+
+    await logAdminAction({
+      adminId: session.user.id,
+      action: 'REVIEW_LAP_TIME',
+      targetId: id,
+      targetType: 'LapTime',
+      details: {
+        ownerId: existing.userId,
+        timeMs: existing.timeMs,
+        outlierReasons: existing.outlierReasons,
+        decision,
+        note: note || null,
+      },
+    })
+
+    return NextResponse.json({ lapTime }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
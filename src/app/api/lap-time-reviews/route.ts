@@ -0,0 +1,66 @@
+/**
+ * Lap Time Reviews List API
+ *
+ * GET /api/lap-time-reviews - Lap times flagged as outliers (admin only)
+ *
+ * Query Parameters:
+ * - status: PENDING (default), APPROVED, REJECTED or all
+ *
+ * Response:
+ * - lapTimes[]: Flagged laps (timeMs, outlierReasons, reviewStatus, reviewedAt) + user,
+ *   reviewedBy, track (incl. length) and car, oldest pending lap first
+ *
+ * Debugging Tips:
+ * - 403: Only admins review flagged laps
+ * - Lap missing: It was edited to a plausible time (the flag is cleared) or deleted
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { isAdmin } from '@/lib/auth-utils'
+import { LapTimeReviewListQuerySchema } from '@/lib/validation'
+import { handleApiError, ForbiddenError, UnauthorizedError } from '@/lib/api-error-handler'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError()
+    }
+    if (!isAdmin(session)) {
+      throw new ForbiddenError('Only admins can review lap times')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { status } = LapTimeReviewListQuerySchema.parse(Object.fromEntries(searchParams))
+    const supabase = createServiceRoleClient()
+
+    let query = supabase
+      .from('LapTime')
+      .select(`
+        id,
+        timeMs,
+        status,
+        reviewStatus,
+        outlierReasons,
+        reviewedAt,
+        createdAt,
+        buildName,
+        user:User!LapTime_userId_fkey(id, name, gamertag),
+        reviewedBy:User!LapTime_reviewedById_fkey(id, name, gamertag),
+        track:Track(id, name, layout, length),
+        car:Car(id, name, manufacturer, category)
+      `)
+      .order('createdAt', { ascending: status === 'PENDING' })
+
+    query = status === 'all' ? query.not('reviewStatus', 'is', null) : query.eq('reviewStatus', status)
+
+    const { data: lapTimes, error } = await query
+    if (error) throw error
+
+    return NextResponse.json({ lapTimes: lapTimes || [] })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Lap Time Disputes API
+ *
+ * POST /api/lap-times/[id]/disputes - Flag someone else's lap time as disputed
+ *
+ * Purpose: Let members question a time without editing it
+ * - Creates an OPEN LapTimeDispute and sets LapTime.status = DISPUTED
+ * - The lap stays on leaderboards (marked disputed) until an admin resolves it
+ *   (PATCH /api/lap-time-disputes/[id])
+ *
+ * Request Body:
+ * - comment: Why the time looks wrong (required)
+ *
+ * Response: { dispute } (201)
+ *
+ * Debugging Tips:
+ * - 403: You can't dispute your own lap (edit it instead)
+ * - 409 "already disputed": One open dispute per lap (LapTimeDispute_lapTimeId_open_key)
+ * - 409 "removed": The lap was already removed by an earlier dispute
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { CreateLapTimeDisputeSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import {
+  handleApiError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/lib/api-error-handler'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const body = await request.json()
+    const validationResult = await validateBody(CreateLapTimeDisputeSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+
+    const { data: lapTime } = await supabase
+      .from('LapTime')
+      .select('id, userId, status')
+      .eq('id', id)
+      .single()
+
+    if (!lapTime) {
+      throw new NotFoundError('Lap time')
+    }
+    if (lapTime.userId === userData.id) {
+      throw new ForbiddenError("You can't dispute your own lap time")
+    }
+    if (lapTime.status === 'DISPUTED') {
+      throw new ConflictError('This lap time is already disputed')
+    }
+    if (lapTime.status === 'REMOVED') {
+      throw new ConflictError('This lap time has been removed')
+    }
+
+    // ============================================================
+    // OPEN DISPUTE + FLAG LAP
+    // ============================================================
+
+    const now = new Date().toISOString()
+    const { data: dispute, error } = await supabase
+      .from('LapTimeDispute')
+      .insert({
+        id: crypto.randomUUID(),
+        lapTimeId: id,
+        raisedById: userData.id,
+        comment: validationResult.data.comment,
+        status: 'OPEN',
+        createdAt: now,
+        updatedAt: now,
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      // Unique index on open disputes - someone else got there first
+      if (error.code === '23505') {
+        throw new ConflictError('This lap time is already disputed')
+      }
+      throw error
+    }
+
+    const { error: statusError } = await supabase
+      .from('LapTime')
+      .update({ status: 'DISPUTED', updatedAt: now })
+      .eq('id', id)
+
+    if (statusError) throw statusError
+
+    return NextResponse.json({ dispute }, { status: 201, headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
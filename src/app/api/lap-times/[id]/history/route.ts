@@ -0,0 +1,78 @@
+/**
+ * Lap Time History API
+ *
+ * GET /api/lap-times/[id]/history - Edit history and disputes of one lap
+ *
+ * Purpose: Transparency for competitive laps
+ * - Any signed-in member can see how a lap changed and who disputed it
+ *
+ * Response:
+ * - lapTime: { id, timeMs, status, createdAt, user, track, car }
+ * - edits[]: LapTimeEdit + editor, oldest first
+ * - disputes[]: LapTimeDispute + raisedBy, resolvedBy, newest first
+ *
+ * Debugging Tips:
+ * - Empty edits: The lap was never edited (creation isn't an edit)
+ * - Editor null: The editing user was deleted (editedById ON DELETE SET NULL)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { handleApiError, NotFoundError, UnauthorizedError } from '@/lib/api-error-handler'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+
+    const [{ data: lapTime }, { data: edits, error: editsError }, { data: disputes, error: disputesError }] =
+      await Promise.all([
+        supabase
+          .from('LapTime')
+          .select(`
+            id,
+            timeMs,
+            status,
+            createdAt,
+            user:User!LapTime_userId_fkey(id, name, gamertag),
+            track:Track(id, name, layout),
+            car:Car(id, name, manufacturer)
+          `)
+          .eq('id', id)
+          .single(),
+        supabase
+          .from('LapTimeEdit')
+          .select('*, editor:User!LapTimeEdit_editedById_fkey(id, name, gamertag)')
+          .eq('lapTimeId', id)
+          .order('createdAt', { ascending: true }),
+        supabase
+          .from('LapTimeDispute')
+          .select(`
+            *,
+            raisedBy:User!LapTimeDispute_raisedById_fkey(id, name, gamertag),
+            resolvedBy:User!LapTimeDispute_resolvedById_fkey(id, name, gamertag)
+          `)
+          .eq('lapTimeId', id)
+          .order('createdAt', { ascending: false }),
+      ])
+
+    if (!lapTime) {
+      throw new NotFoundError('Lap time')
+    }
+    if (editsError) throw editsError
+    if (disputesError) throw disputesError
+
+    return NextResponse.json({ lapTime, edits: edits || [], disputes: disputes || [] })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
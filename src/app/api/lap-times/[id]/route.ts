@@ -1,8 +1,24 @@
 /**
- * Single Lap Time Deletion API
+ * Single Lap Time API
  *
+ * PATCH /api/lap-times/[id] - Edit a lap time (owner or admin), recorded in LapTimeEdit
  * DELETE /api/lap-times/[id] - Delete a specific lap time (owner only)
  *
+ * Edits (PATCH):
+ * - Body: timeMs, sectorTimesMs, notes, conditions (all optional) + reason (required)
+ * - Only changed fields are written; one LapTimeEdit row per edit (old/new timeMs, editor,
+ *   reason, changedFields) - see diffLapTimeEdit in @/lib/lap-time-history.ts
+ * - The update and its LapTimeEdit row are written in one transaction (edit_lap_time)
+ * - A new timeMs without new splits clears sectorTimesMs
+ * - Admin edits of other users' laps are also written to the admin audit log
+ * - A new timeMs recomputes the track's records (silently, no announcement)
+ * - A new timeMs is outlier-checked like POST: 409 { outlierReasons } until resent with
+ *   confirmOutlier: true (the lap then waits for review); a plausible new time clears a
+ *   pending review
+ * - Only ACTIVE laps can be edited: 409 while disputed (the dispute judges the time as
+ *   reported) and once removed
+ * - Response: { lapTime, edit }
+ *
  * Purpose: Allow users to delete their own lap times
  * - Only the lap time owner can delete (admin override not available)
  * - Lap times are personal data - users have full control
@@ -21,6 +37,7 @@
  * - Personal bests: Front-end recalculates after deletion
  * - Build statistics: Front-end recalculates after deletion
  * - Deleted lap times are permanently removed (no soft delete)
+ * - Track records: Recomputed for the lap's track after deletion
  *
  * How It Works:
  * 1. Authenticate user
@@ -35,12 +52,173 @@
  * - Admin users: Still bound by ownership rule (cannot delete others' times)
  * - After deletion: Frontend leaderboards/personal bests will recalculate
  * - No undo: Deletion is permanent (consider confirmation UI)
+ * - 409 on DELETE: The lap has an open dispute - an admin resolves it first
+ * - 400 "Nothing to change" on PATCH: Every field equals the stored value
+ * - 409 on PATCH: The lap is disputed or removed
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceRoleClient } from '@/lib/supabase/service-role'
 import { auth } from '@/lib/auth'
-import { getCurrentUser } from '@/lib/auth-utils'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { UpdateLapTimeSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { checkSectorTimes } from '@/lib/sectors'
+import { diffLapTimeEdit } from '@/lib/lap-time-history'
+import { logAdminAction } from '@/lib/audit-log'
+import { rebuildTrackRecords } from '@/lib/track-records'
+import { detectLapTimeOutliers, loadOutlierHistory } from '@/lib/lap-time-outliers'
+import {
+  handleApiError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/lib/api-error-handler'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+
+    const { data: lapTime } = await supabase
+      .from('LapTime')
+      .select('id, userId, trackId, timeMs, sectorTimesMs, notes, conditions, status, reviewStatus, track:Track(sectorCount, length), car:Car(category)')
+      .eq('id', id)
+      .single()
+
+    if (!lapTime) {
+      throw new NotFoundError('Lap time')
+    }
+
+    const editingAsAdmin = lapTime.userId !== userData.id
+    if (editingAsAdmin && !isAdmin(session)) {
+      throw new ForbiddenError('You can only edit your own lap times')
+    }
+
+    // A disputed lap keeps the time the dispute is about; a removed lap is final
+    if (lapTime.status === 'DISPUTED') {
+      throw new ConflictError('This lap time is disputed - an admin has to resolve the dispute first')
+    }
+    if (lapTime.status !== 'ACTIVE') {
+      throw new ConflictError('This lap time was removed and can no longer be edited')
+    }
+
+    const body = await request.json()
+    const validationResult = await validateBody(UpdateLapTimeSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { reason, confirmOutlier, ...edit } = validationResult.data
+
+    // ============================================================
+    // WORK OUT THE CHANGE
+    // ============================================================
+
+    const { changes, changedFields } = diffLapTimeEdit(lapTime, edit)
+    if (changedFields.length === 0) {
+      throw new ValidationError('Nothing to change')
+    }
+
+    const newTimeMs = changes.timeMs ?? lapTime.timeMs
+    const track = lapTime.track as unknown as { sectorCount: number | null; length: number | null } | null
+    if (changes.sectorTimesMs) {
+      const sectorError = checkSectorTimes(changes.sectorTimesMs, newTimeMs, track?.sectorCount ?? null)
+      if (sectorError) {
+        throw new ValidationError(sectorError)
+      }
+    }
+
+    // A new time gets the same outlier check as a new lap (see POST /api/lap-times)
+    let review = {}
+    if (changes.timeMs !== undefined) {
+      const car = lapTime.car as unknown as { category: string | null } | null
+      const history = await loadOutlierHistory(supabase, lapTime.trackId, car?.category ?? null, id)
+      const outlierReasons = detectLapTimeOutliers(changes.timeMs, track?.length ?? null, history)
+
+      if (outlierReasons.length > 0 && !confirmOutlier) {
+        return NextResponse.json(
+          { error: 'This lap time looks implausible for this track', outlierReasons },
+          { status: 409, headers: rateLimitHeaders(rateLimit) }
+        )
+      }
+
+      if (outlierReasons.length > 0) {
+        review = {
+          reviewStatus: 'PENDING',
+          outlierReasons: outlierReasons.map((outlier) => outlier.code),
+          reviewedById: null,
+          reviewedAt: null,
+        }
+      } else if (lapTime.reviewStatus === 'PENDING') {
+        review = { reviewStatus: null, outlierReasons: null }
+      }
+    }
+
+    // ============================================================
+    // UPDATE + HISTORY
+    // ============================================================
+
+    // One transaction: the lap never changes without its LapTimeEdit row
+    const { data: saved, error } = await supabase.rpc('edit_lap_time', {
+      p_lap_time_id: id,
+      p_changes: { ...changes, ...review },
+      p_edited_by: userData.id,
+      p_changed_fields: changedFields,
+      p_reason: reason,
+    })
+
+    if (error) throw error
+
+    const { lapTime: updated, edit: editRecord } = saved as { lapTime: unknown; edit: unknown }
+
+    if (changes.timeMs !== undefined) {
+      await rebuildTrackRecords(supabase, lapTime.trackId)
+    }
+
+    if (editingAsAdmin) {
+      await logAdminAction({
+        adminId: userData.id,
+        action: 'EDIT_LAP_TIME',
+        targetId: id,
+        targetType: 'LapTime',
+        details: { ownerId: lapTime.userId, oldTimeMs: lapTime.timeMs, newTimeMs, changedFields, reason },
+      })
+    }
+
+    return NextResponse.json({ lapTime: updated, edit: editRecord }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
 
 export async function DELETE(
   request: NextRequest,
@@ -94,7 +272,7 @@ export async function DELETE(
 
     const { data: lapTime } = await supabase
       .from('LapTime')
-      .select('id, userId')
+      .select('id, userId, trackId, status')
       .eq('id', id)
       .single()
 
@@ -109,6 +287,14 @@ export async function DELETE(
       )
     }
 
+    // A disputed lap can't be deleted out from under the dispute
+    if (lapTime.status === 'DISPUTED') {
+      return NextResponse.json(
+        { error: 'This lap time is disputed - an admin has to resolve the dispute first' },
+        { status: 409 }
+      )
+    }
+
     // ============================================================
     // DELETE LAP TIME
     // ============================================================
@@ -139,6 +325,8 @@ export async function DELETE(
       )
     }
 
+    await rebuildTrackRecords(supabase, lapTime.trackId)
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Unexpected error:', error)
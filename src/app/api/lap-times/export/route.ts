@@ -0,0 +1,168 @@
+/**
+ * Lap Time Export API
+ *
+ * GET /api/lap-times/export - Download lap times as CSV or JSON
+ *
+ * Purpose: Get lap times back out into spreadsheets (or other tools)
+ * - Default: The current user's laps, newest first
+ * - userId: Another user's laps (admin only)
+ * - raceId: A race's laps - same set as the race leaderboard (race track + race builds),
+ *   fastest first
+ *
+ * Query Parameters:
+ * - format: csv (default) | json
+ * - raceId / userId: See above (raceId wins when both are set)
+ *
+ * Response:
+ * - csv: text/csv attachment, columns LAP_TIME_EXPORT_HEADERS (imports again unchanged)
+ * - json: attachment { exportedAt, lapTimes[]: LapTimeExportRow + time (formatted) }
+ *
+ * Debugging Tips:
+ * - Race export empty: The race has no builds left (RaceCar.buildId NULL)
+ * - Spreadsheet shows times as dates: Use the "Time (ms)" column, or format the column as text
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { LapTimeExportQuerySchema } from '@/lib/validation'
+import { lapTimesToCsv, type LapTimeExportRow } from '@/lib/lap-time-csv'
+import { formatLapTime } from '@/lib/time'
+import {
+  handleApiError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from '@/lib/api-error-handler'
+
+interface ExportLapRow {
+  timeMs: number
+  notes: string | null
+  conditions: string | null
+  sessionType: string | null
+  createdAt: string
+  buildName: string | null
+  user: { name: string | null; gamertag: string | null } | null
+  track: { name: string; layout: string | null } | null
+  car: { name: string; manufacturer: string } | null
+}
+
+const EXPORT_SELECT = `
+  timeMs,
+  notes,
+  conditions,
+  sessionType,
+  createdAt,
+  buildName,
+  user:User!LapTime_userId_fkey(name, gamertag),
+  track:Track(name, layout),
+  car:Car(name, manufacturer)
+`
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { format, raceId, userId } = LapTimeExportQuerySchema.parse(Object.fromEntries(searchParams))
+    const supabase = createServiceRoleClient()
+
+    // ============================================================
+    // SELECT LAPS
+    // ============================================================
+
+    let laps: ExportLapRow[] = []
+    let filename: string
+
+    if (raceId) {
+      const [{ data: race }, { data: raceCars, error: raceCarsError }] = await Promise.all([
+        supabase.from('Race').select('id, name, trackId').eq('id', raceId).single(),
+        supabase.from('RaceCar').select('buildId').eq('raceId', raceId),
+      ])
+
+      if (!race) {
+        throw new NotFoundError('Race')
+      }
+      if (raceCarsError) throw raceCarsError
+
+      const buildIds = (raceCars || []).map((raceCar) => raceCar.buildId).filter(Boolean)
+      if (buildIds.length > 0) {
+        const { data, error } = await supabase
+          .from('LapTime')
+          .select(EXPORT_SELECT)
+          .eq('trackId', race.trackId)
+          .in('buildId', buildIds)
+          .order('timeMs', { ascending: true })
+
+        if (error) throw error
+        laps = (data || []) as unknown as ExportLapRow[]
+      }
+      filename = `race-${race.name || race.id}`
+    } else {
+      const targetUserId = userId || userData.id
+      if (targetUserId !== userData.id && !isAdmin(session)) {
+        throw new ForbiddenError('You can only export your own lap times')
+      }
+
+      const { data, error } = await supabase
+        .from('LapTime')
+        .select(EXPORT_SELECT)
+        .eq('userId', targetUserId)
+        .order('createdAt', { ascending: false })
+
+      if (error) throw error
+      laps = (data || []) as unknown as ExportLapRow[]
+      filename = targetUserId === userData.id ? 'my-lap-times' : `lap-times-${targetUserId}`
+    }
+
+    const rows: LapTimeExportRow[] = laps.map((lap) => ({
+      createdAt: lap.createdAt,
+      driver: lap.user?.gamertag || lap.user?.name || null,
+      track: lap.track?.name || '',
+      layout: lap.track?.layout || null,
+      car: lap.car ? `${lap.car.manufacturer} ${lap.car.name}` : '',
+      build: lap.buildName,
+      timeMs: lap.timeMs,
+      sessionType: lap.sessionType,
+      conditions: lap.conditions,
+      notes: lap.notes,
+    }))
+
+    // ============================================================
+    // SERIALIZE
+    // ============================================================
+
+    const safeName = `${filename}-${new Date().toISOString().slice(0, 10)}`.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+
+    if (format === 'json') {
+      const document = {
+        exportedAt: new Date().toISOString(),
+        lapTimes: rows.map((row) => ({ ...row, time: formatLapTime(row.timeMs) })),
+      }
+      return new NextResponse(JSON.stringify(document, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${safeName}.json"`,
+        },
+      })
+    }
+
+    return new NextResponse(lapTimesToCsv(rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${safeName}.csv"`,
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
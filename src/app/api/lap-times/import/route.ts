@@ -0,0 +1,260 @@
+/**
+ * Lap Time CSV Import API
+ *
+ * POST /api/lap-times/import - Preview or commit a CSV of the current user's lap times
+ *
+ * Purpose: Bring historic times (spreadsheets) into LapTime
+ * - Track and car names are fuzzy-matched against the catalog (see matchCatalogOption)
+ * - Preview (commit: false) returns every row with its status so the user can fix the file
+ * - Commit (commit: true) re-runs the same matching and inserts the ready rows in one
+ *   statement (all-or-nothing); unmatched, invalid and duplicate rows are skipped
+ * - Ready rows get the same outlier check as POST /api/lap-times: flagged rows carry
+ *   outlierReasons in the preview, and a commit answers 409 until confirmOutliers: true
+ *   (they are then imported with reviewStatus PENDING)
+ *
+ * Request Body:
+ * - csv: File contents (header row required: track, car, time)
+ * - commit: true to insert (default: preview)
+ * - confirmOutliers: Import ready rows flagged by the outlier check anyway
+ *
+ * Response:
+ * - summary: { total, ready, duplicate, unmatched, invalid, outlier }
+ *   (outlier: ready rows flagged by the outlier check)
+ * - rows[]: ResolvedLapTimeRow (status, issues, matched track/car, suggestions, outlierReasons)
+ * - imported: Number of laps inserted (commit only, status 201)
+ * - 409 { error, summary, rows }: Commit with flagged rows but no confirmOutliers
+ *
+ * Debugging Tips:
+ * - 400 "Missing columns": Header names are listed in CSV_COLUMN_ALIASES
+ * - Row "duplicate": Same track, car and time already recorded (or earlier in the file)
+ * - Build not linked: Only the user's own builds for the matched car, matched by exact name;
+ *   otherwise the build name is kept as a snapshot with buildId NULL
+ * - Track records: Recomputed silently for the imported tracks (historic times are not announced,
+ *   flagged rows only count once an admin approves them)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { ImportLapTimesSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { getLatestRevisionId } from '@/lib/build-revisions'
+import { rebuildTrackRecords } from '@/lib/track-records'
+import { detectLapTimeOutliers, loadOutlierHistory } from '@/lib/lap-time-outliers'
+import { formatCarOptions, formatTrackOptions } from '@/lib/dropdown-helpers'
+import { parseLapTimeCsv, resolveLapTimeCsvRow, type LapTimeImportStatus } from '@/lib/lap-time-csv'
+import { handleApiError, NotFoundError, UnauthorizedError, ValidationError } from '@/lib/api-error-handler'
+import type { DbCar, DbTrack } from '@/types/database'
+
+const MAX_IMPORT_ROWS = 1000
+
+export async function POST(request: NextRequest) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const body = await request.json()
+    const validationResult = await validateBody(ImportLapTimesSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { csv, commit, confirmOutliers } = validationResult.data
+
+    // ============================================================
+    // PARSE
+    // ============================================================
+
+    const { rows: csvRows, missingColumns } = parseLapTimeCsv(csv)
+
+    if (missingColumns.length > 0) {
+      throw new ValidationError(`Missing columns: ${missingColumns.join(', ')}`)
+    }
+    if (csvRows.length === 0) {
+      throw new ValidationError('CSV has no lap time rows')
+    }
+    if (csvRows.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`Maximum ${MAX_IMPORT_ROWS} rows per import`)
+    }
+
+    // ============================================================
+    // MATCH AGAINST CATALOG
+    // ============================================================
+
+    const supabase = createServiceRoleClient()
+
+    const [tracksResult, carsResult, buildsResult] = await Promise.all([
+      supabase.from('Track').select('*'),
+      supabase.from('Car').select('*'),
+      supabase.from('CarBuild').select('id, name, carId').eq('userId', userData.id),
+    ])
+
+    if (tracksResult.error) throw tracksResult.error
+    if (carsResult.error) throw carsResult.error
+    if (buildsResult.error) throw buildsResult.error
+
+    const catalog = {
+      trackOptions: formatTrackOptions((tracksResult.data || []) as DbTrack[]),
+      carOptions: formatCarOptions((carsResult.data || []) as DbCar[]),
+      builds: buildsResult.data || [],
+    }
+    const rows = csvRows.map((row) => resolveLapTimeCsvRow(row, catalog))
+
+    // ============================================================
+    // DUPLICATES
+    // ============================================================
+    // Same track + car + time as an existing lap of this user (checked in SQL, one row
+    // per match), or an earlier row
+    // ============================================================
+
+    const candidates = rows
+      .filter((row) => row.status === 'ready')
+      .map((row) => ({ trackId: row.track!.id, carId: row.car!.id, timeMs: row.timeMs! }))
+    const seen = new Set<string>()
+
+    if (candidates.length > 0) {
+      const { data: existing, error: existingError } = await supabase.rpc('find_duplicate_laps', {
+        p_user_id: userData.id,
+        p_laps: candidates,
+      })
+
+      if (existingError) throw existingError
+      for (const lap of (existing || []) as { trackId: string; carId: string; timeMs: number }[]) {
+        seen.add(`${lap.trackId}:${lap.carId}:${lap.timeMs}`)
+      }
+    }
+
+    for (const row of rows) {
+      if (row.status !== 'ready') continue
+      const key = `${row.track!.id}:${row.car!.id}:${row.timeMs}`
+      if (seen.has(key)) {
+        row.status = 'duplicate'
+        row.issues.push('Already recorded (same track, car and time)')
+      }
+      seen.add(key)
+    }
+
+    // ============================================================
+    // OUTLIER CHECK
+    // ============================================================
+    // Each ready row against its track length and earlier laps in its car category
+    // (one history per track + category)
+    // ============================================================
+
+    const trackLengths = new Map((tracksResult.data || []).map((track: DbTrack) => [track.id, track.length]))
+    const carCategories = new Map((carsResult.data || []).map((car: DbCar) => [car.id, car.category]))
+    const histories = new Map<string, Promise<number[]>>()
+
+    await Promise.all(
+      rows
+        .filter((row) => row.status === 'ready')
+        .map(async (row) => {
+          const trackId = row.track!.id
+          const category = carCategories.get(row.car!.id) ?? null
+          const historyKey = `${trackId}:${category}`
+          if (!histories.has(historyKey)) {
+            histories.set(historyKey, loadOutlierHistory(supabase, trackId, category))
+          }
+
+          row.outlierReasons = detectLapTimeOutliers(
+            row.timeMs!,
+            trackLengths.get(trackId) ?? null,
+            await histories.get(historyKey)!
+          )
+        })
+    )
+
+    const countOf = (status: LapTimeImportStatus) => rows.filter((row) => row.status === status).length
+    const summary = {
+      total: rows.length,
+      ready: countOf('ready'),
+      duplicate: countOf('duplicate'),
+      unmatched: countOf('unmatched'),
+      invalid: countOf('invalid'),
+      outlier: rows.filter((row) => row.status === 'ready' && row.outlierReasons.length > 0).length,
+    }
+
+    if (!commit) {
+      return NextResponse.json({ summary, rows })
+    }
+
+    if (summary.outlier > 0 && !confirmOutliers) {
+      return NextResponse.json(
+        { error: 'Some lap times look implausible for their track', summary, rows },
+        { status: 409, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    // ============================================================
+    // COMMIT (ALL-OR-NOTHING)
+    // ============================================================
+
+    const readyRows = rows.filter((row) => row.status === 'ready')
+    if (readyRows.length === 0) {
+      throw new ValidationError('No rows are ready to import')
+    }
+
+    const buildIds = [...new Set(readyRows.flatMap((row) => (row.buildId ? [row.buildId] : [])))]
+    const revisionIds = new Map(
+      await Promise.all(
+        buildIds.map(async (buildId) => [buildId, await getLatestRevisionId(supabase, buildId)] as const)
+      )
+    )
+
+    const now = new Date().toISOString()
+    const { error } = await supabase.from('LapTime').insert(
+      readyRows.map((row) => ({
+        id: crypto.randomUUID(),
+        userId: userData.id,
+        recordedById: userData.id,
+        trackId: row.track!.id,
+        carId: row.car!.id,
+        buildId: row.buildId,
+        buildName: row.buildName,
+        revisionId: row.buildId ? revisionIds.get(row.buildId) ?? null : null,
+        timeMs: row.timeMs!,
+        notes: row.notes,
+        conditions: row.conditions,
+        sessionType: row.sessionType,
+        reviewStatus: row.outlierReasons.length > 0 ? 'PENDING' : null,
+        outlierReasons: row.outlierReasons.length > 0 ? row.outlierReasons.map((reason) => reason.code) : null,
+        createdAt: row.createdAt || now,
+        updatedAt: now,
+      }))
+    )
+
+    if (error) throw error
+
+    for (const importedTrackId of new Set(readyRows.map((row) => row.track!.id))) {
+      await rebuildTrackRecords(supabase, importedTrackId)
+    }
+
+    return NextResponse.json({ summary, rows, imported: readyRows.length }, {
+      status: 201,
+      headers: rateLimitHeaders(rateLimit),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
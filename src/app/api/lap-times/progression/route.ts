@@ -0,0 +1,132 @@
+/**
+ * Personal Best Progression API
+ *
+ * GET /api/lap-times/progression - The current user's PB progression
+ *
+ * Purpose: Data for /lap-times/progress, aggregated on the server
+ * - No trackId: Index of every track/car/build the user has laps for (summaries only,
+ *   from progression_combos() in SQL)
+ * - trackId + carId: Time series for that combo - points, PB improvements with dates,
+ *   consistency (std dev) and a rolling median (see buildProgression)
+ *
+ * Query Parameters:
+ * - trackId / carId: Combo to chart (carId required with trackId)
+ * - buildId: Build id, "none" (laps without a build) or omitted (all builds combined)
+ * - window: Rolling median window in laps (2-50, default 5)
+ *
+ * Response:
+ * - Index: { combos[]: ProgressionCombo + track, car }
+ * - Combo: { track, car, build, progression: Progression | null }
+ *
+ * Debugging Tips:
+ * - 400 "Car is required": trackId without carId
+ * - progression null: No laps for that combo (wrong buildId?)
+ * - Only the signed-in user's laps are used (same as GET /api/lap-times); removed laps
+ *   (status REMOVED) are left out
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { PbProgressionQuerySchema } from '@/lib/validation'
+import { buildProgression, type ProgressionCombo } from '@/lib/pb-progression'
+import { handleApiError, NotFoundError, UnauthorizedError } from '@/lib/api-error-handler'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { trackId, carId, buildId, window } = PbProgressionQuerySchema.parse(Object.fromEntries(searchParams))
+    const supabase = createServiceRoleClient()
+
+    // ============================================================
+    // INDEX (ALL COMBOS)
+    // ============================================================
+
+    if (!trackId || !carId) {
+      // Summarized in SQL - a driver can have more laps than one query returns
+      const { data, error } = await supabase.rpc('progression_combos', { p_user_id: userData.id })
+
+      if (error) throw error
+
+      const combos = (data || []) as ProgressionCombo[]
+      const trackIds = [...new Set(combos.map((combo) => combo.trackId))]
+      const carIds = [...new Set(combos.map((combo) => combo.carId))]
+
+      const [{ data: tracks }, { data: cars }] = await Promise.all([
+        trackIds.length > 0
+          ? supabase.from('Track').select('id, name, layout').in('id', trackIds)
+          : Promise.resolve({ data: [] }),
+        carIds.length > 0
+          ? supabase.from('Car').select('id, name, manufacturer').in('id', carIds)
+          : Promise.resolve({ data: [] }),
+      ])
+
+      const trackById = new Map((tracks || []).map((track) => [track.id, track]))
+      const carById = new Map((cars || []).map((car) => [car.id, car]))
+
+      return NextResponse.json({
+        combos: combos.map((combo) => ({
+          ...combo,
+          track: trackById.get(combo.trackId) || null,
+          car: carById.get(combo.carId) || null,
+        })),
+      })
+    }
+
+    // ============================================================
+    // SINGLE COMBO
+    // ============================================================
+
+    let query = supabase
+      .from('LapTime')
+      .select('id, timeMs, createdAt, buildName')
+      .eq('userId', userData.id)
+      .eq('trackId', trackId)
+      .eq('carId', carId)
+      .neq('status', 'REMOVED')
+
+    if (buildId === 'none') {
+      query = query.is('buildId', null)
+    } else if (buildId) {
+      query = query.eq('buildId', buildId)
+    }
+
+    const [{ data: laps, error }, { data: track }, { data: car }] = await Promise.all([
+      query,
+      supabase.from('Track').select('id, name, layout').eq('id', trackId).single(),
+      supabase.from('Car').select('id, name, manufacturer').eq('id', carId).single(),
+    ])
+
+    if (error) throw error
+    if (!track) {
+      throw new NotFoundError('Track')
+    }
+    if (!car) {
+      throw new NotFoundError('Car')
+    }
+
+    const latestBuildName = [...(laps || [])]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .find((lap) => lap.buildName)?.buildName || null
+
+    return NextResponse.json({
+      track,
+      car,
+      build: buildId && buildId !== 'none' ? { id: buildId, name: latestBuildName } : null,
+      progression: buildProgression(laps || [], window),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -18,9 +18,20 @@
  *
  * POST Endpoint:
  * - Required: trackId, carId, buildId (optional), timeMs
- * - Optional: notes, conditions, sessionType (defaults to 'R')
+ * - Optional: notes, conditions, sessionType (P/Q/R, defaults to 'R')
+ * - Optional: sectorTimesMs - one split per Track.sectorCount, summing to timeMs
+ * - Optional: sessionId - own LapSession at the same track (sets sessionType)
  * - buildName snapshot: Copied from CarBuild.name at creation time
+ * - revisionId: Latest CarBuildRevision of the build (exact setup used)
+ * - recordedById: Current user (bulk race entry can record for others, see
+ *   POST /api/races/[id]/lap-times)
  * - Personal best: Application-level feature (calculated on frontend)
+ * - Outlier check: Implausible times for the track (speed from Track.length, far off the
+ *   category's record or median) answer 409 { outlierReasons } until the body is resent
+ *   with confirmOutlier: true; confirmed outliers are saved with reviewStatus PENDING
+ * - Track records: The lap is checked against the overall and car-category record at
+ *   the track in the same transaction as the insert (create_lap_time()); a broken record
+ *   is announced by email and a sticky note on the Notes board. Response includes trackRecords[]
  *
  * Time Format:
  * - timeMs in milliseconds (e.g., 92345 = 1:32.345)
@@ -39,6 +50,8 @@
  * - Common error: "Track not found" - verify trackId exists in Track table
  * - Common error: "Car not found" - verify carId exists in Car table
  * - Personal best: Calculated by frontend comparing times per car/track/build
+ * - Lap saved but 500: Never - if the record update fails the insert rolls back with it
+ * - 409 with outlierReasons: See lib/lap-time-outliers.ts for the thresholds
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -47,6 +60,11 @@ import { auth } from '@/lib/auth'
 import { getCurrentUser } from '@/lib/auth-utils'
 import { CreateLapTimeSchema, validateBody } from '@/lib/validation'
 import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { getLatestRevisionId } from '@/lib/build-revisions'
+import { checkSectorTimes } from '@/lib/sectors'
+import { createLapTime, recordScopeLabel } from '@/lib/track-records'
+import { detectLapTimeOutliers, loadOutlierHistory } from '@/lib/lap-time-outliers'
+import { announceTrackRecords } from '@/lib/track-record-announcements'
 
 // GET /api/lap-times - Get user's lap times with optional filtering
 export async function GET(request: NextRequest) {
@@ -118,13 +136,19 @@ export async function GET(request: NextRequest) {
       .select(`
         id,
         timeMs,
+        sectorTimesMs,
         notes,
         conditions,
         sessionType,
+        sessionId,
+        status,
+        reviewStatus,
+        outlierReasons,
         createdAt,
         updatedAt,
         buildId,
         buildName,
+        revisionId,
         track:Track(id, name, slug, location, category, layout),
         car:Car(id, name, slug, manufacturer, year, category)
       `)
@@ -208,7 +232,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: validationResult.error }, { status: 400 })
     }
 
-    const { trackId, carId, buildId, timeMs, notes, conditions, sessionType } = validationResult.data
+    const { trackId, carId, buildId, timeMs, notes, sectorTimesMs, sessionId, confirmOutlier } = validationResult.data
+    let { conditions, sessionType } = validationResult.data
 
     const supabase = createServiceRoleClient()
 
@@ -233,7 +258,7 @@ export async function POST(request: NextRequest) {
 
     const { data: track } = await supabase
       .from('Track')
-      .select('id')
+      .select('id, sectorCount, length')
       .eq('id', trackId)
       .single()
 
@@ -241,9 +266,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Track not found' }, { status: 404 })
     }
 
+    // Sector splits (optional) must match the track's sector count and add up to timeMs
+    if (sectorTimesMs) {
+      const sectorError = checkSectorTimes(sectorTimesMs, timeMs, track.sectorCount)
+      if (sectorError) {
+        return NextResponse.json({ error: sectorError }, { status: 400 })
+      }
+    }
+
     const { data: car } = await supabase
       .from('Car')
-      .select('id')
+      .select('id, category')
       .eq('id', carId)
       .single()
 
@@ -251,6 +284,49 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Car not found' }, { status: 404 })
     }
 
+    // ============================================================
+    // OUTLIER CHECK
+    // ============================================================
+    // Compare the time with the track length and earlier laps in the same car category
+    // - Flagged + not confirmed: 409 so the form can ask "are you sure?"
+    // - Flagged + confirmed: Saved with reviewStatus PENDING for an admin to review
+    // ============================================================
+
+    const history = await loadOutlierHistory(supabase, trackId, car.category)
+    const outlierReasons = detectLapTimeOutliers(timeMs, track.length, history)
+
+    if (outlierReasons.length > 0 && !confirmOutlier) {
+      return NextResponse.json(
+        { error: 'This lap time looks implausible for this track', outlierReasons },
+        { status: 409 }
+      )
+    }
+
+    // ============================================================
+    // LAP SESSION (STINT)
+    // ============================================================
+    // Optional: the user's own session at the same track
+    // The session's sessionType always wins; its conditions fill in a blank
+    // ============================================================
+
+    if (sessionId) {
+      const { data: lapSession } = await supabase
+        .from('LapSession')
+        .select('id, userId, trackId, sessionType, conditions')
+        .eq('id', sessionId)
+        .single()
+
+      if (!lapSession || lapSession.userId !== userData.id) {
+        return NextResponse.json({ error: 'Lap session not found' }, { status: 404 })
+      }
+      if (lapSession.trackId !== trackId) {
+        return NextResponse.json({ error: 'Lap session is at a different track' }, { status: 400 })
+      }
+
+      sessionType = lapSession.sessionType
+      conditions = conditions || lapSession.conditions
+    }
+
     // ============================================================
     // BUILD NAME SNAPSHOT
     // ============================================================
@@ -287,6 +363,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Tag the lap with the build revision it was set on, so lap times line up
+    // with the exact setup even after the build is edited again
+    const revisionId = buildId ? await getLatestRevisionId(supabase, buildId) : null
+
     // ============================================================
     // CREATE LAP TIME
     // ============================================================
@@ -306,49 +386,107 @@ export async function POST(request: NextRequest) {
     // - buildId FK constraint: LapTime.buildId → CarBuild.id (if provided)
     // - Verify timeMs is positive integer
     // - Personal best: Calculated by frontend, not stored here
+    //
+    // Track records:
+    // create_lap_time() inserts the lap and runs update_track_records() in the same
+    // transaction: it compares the lap with the overall and car-category record at the
+    // track under a per-track lock and returns the records it set
+    // - First lap of a track/category: Record stored silently (previousTimeMs null)
+    // - Lap waiting for review: No record until an admin approves it
+    // - Beaten record: Sticky note on the Notes board + email to approved members
+    // - Function error: Nothing is saved (the insert rolls back with the record check)
     // ============================================================
 
     const now = new Date().toISOString()
-    const { data: lapTime, error } = await supabase
-      .from('LapTime')
-      .insert({
-        id: crypto.randomUUID(),
+    const lapTimeId = crypto.randomUUID()
+
+    let trackRecords
+    try {
+      trackRecords = await createLapTime(supabase, {
+        id: lapTimeId,
         userId: userData.id,
+        recordedById: userData.id,
         trackId,
         carId,
         buildId: buildId || null,
         buildName: buildName,
+        revisionId,
         timeMs,
+        sectorTimesMs: sectorTimesMs || null,
         notes: notes || null,
         conditions: conditions || null,
         sessionType: sessionType || 'R',
+        sessionId: sessionId || null,
+        reviewStatus: outlierReasons.length > 0 ? 'PENDING' : null,
+        outlierReasons: outlierReasons.length > 0 ? outlierReasons.map((reason) => reason.code) : null,
         createdAt: now,
         updatedAt: now,
       })
+    } catch (createError) {
+      console.error('[LAP TIME API] Error creating lap time:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create lap time' },
+        { status: 500 }
+      )
+    }
+
+    const { data: lapTime, error } = await supabase
+      .from('LapTime')
       .select(`
         id,
         timeMs,
+        sectorTimesMs,
         notes,
         conditions,
         sessionType,
+        sessionId,
+        status,
+        reviewStatus,
+        outlierReasons,
         createdAt,
         updatedAt,
         buildId,
         buildName,
+        revisionId,
         track:Track(id, name, slug, location, category, layout),
         car:Car(id, name, slug, manufacturer, year, category)
       `)
+      .eq('id', lapTimeId)
       .single()
 
-    if (error) {
-      console.error('[LAP TIME API] Error creating lap time:', error)
-      return NextResponse.json(
-        { error: 'Failed to create lap time' },
-        { status: 500 }
-      )
+    if (error) throw error
+
+    const broken = trackRecords.filter((record) => record.previousTimeMs !== null)
+    if (broken.length > 0) {
+      const userIds = [userData.id, ...broken.map((record) => record.previousUserId).filter((id): id is string => !!id)]
+      const { data: users } = await supabase
+        .from('User')
+        .select('id, name, gamertag')
+        .in('id', userIds)
+
+      const nameOf = (id: string | null) => {
+        const user = users?.find((u: { id: string }) => u.id === id)
+        return user?.gamertag || user?.name || 'Unknown'
+      }
+      const track = lapTime.track as unknown as { name: string; layout: string | null }
+      const lapCar = lapTime.car as unknown as { name: string; manufacturer: string }
+
+      await announceTrackRecords(supabase, {
+        userId: userData.id,
+        driverName: nameOf(userData.id),
+        trackName: track.layout ? `${track.name} - ${track.layout}` : track.name,
+        carName: `${lapCar.manufacturer} ${lapCar.name}`,
+        buildName,
+        records: broken.map((record) => ({
+          scope: recordScopeLabel(record.category),
+          timeMs: record.timeMs,
+          previousTimeMs: record.previousTimeMs!,
+          previousHolder: nameOf(record.previousUserId),
+        })),
+      })
     }
 
-    return NextResponse.json({ lapTime }, { status: 201 })
+    return NextResponse.json({ lapTime, trackRecords }, { status: 201 })
   } catch (error) {
     console.error('[LAP TIME API] Unexpected error:', error)
     return NextResponse.json(
@@ -0,0 +1,182 @@
+/**
+ * Global Leaderboards API
+ *
+ * GET /api/leaderboards?trackId=... - Every driver's best lap at a track, ranked
+ *
+ * Purpose: Data for the /leaderboards page
+ * - Unlike the race leaderboard (GET /api/races/[id]), every LapTime at the track counts,
+ *   whatever build or race it was set in
+ * - One entry per user: their best lap matching the filters (see rankBestLaps)
+ *
+ * Query Parameters:
+ * - trackId: Track to rank (required)
+ * - category: Car category (CarCategory enum, e.g. GR3)
+ * - carId / buildId: Only laps with this car / build
+ * - conditions: Exact LapTime.conditions value (Dry, Wet, Mixed)
+ * - sessionType: P | Q | R
+ * - from / to: Inclusive date range on LapTime.createdAt (YYYY-MM-DD, UTC days)
+ *
+ * Response:
+ * - track: { id, name, layout, location }
+ * - entries[]: { position, user, timeMs, gapToLeaderMs, totalLaps, lapId, createdAt,
+ *   conditions, sessionType, disputed, underReview, car, build }
+ *   - disputed: The ranked lap has an open dispute (it still counts until an admin removes it)
+ *   - underReview: The ranked lap was flagged as an outlier and waits for an admin review
+ *   - build: { id, name, linkable } - name falls back to the LapTime.buildName snapshot;
+ *     linkable is false for other users' private builds
+ *
+ * Debugging Tips:
+ * - 400 "Track is required": trackId missing
+ * - Empty entries with category set: Car.category is NULL for some imported cars
+ * - Dates: "to" includes the whole day (createdAt < to + 1 day)
+ * - Driver missing: Their lap may have been removed after a dispute (LapTime.status = REMOVED)
+ * - Ranking happens in SQL (leaderboard_best_laps) - the filters live there too
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { LeaderboardQuerySchema } from '@/lib/validation'
+import { rankBestLaps } from '@/lib/leaderboard'
+import { handleApiError, NotFoundError } from '@/lib/api-error-handler'
+
+interface LeaderboardLapRow {
+  id: string
+  userId: string
+  timeMs: number
+  createdAt: string
+  conditions: string | null
+  sessionType: string | null
+  status: string
+  reviewStatus: string | null
+  buildId: string | null
+  buildName: string | null
+  user: { id: string; name: string | null; gamertag: string | null } | null
+  car: { id: string; name: string; manufacturer: string; category: string | null } | null
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const filters = LeaderboardQuerySchema.parse(Object.fromEntries(searchParams))
+    const supabase = createServiceRoleClient()
+
+    const { data: track } = await supabase
+      .from('Track')
+      .select('id, name, layout, location')
+      .eq('id', filters.trackId)
+      .maybeSingle()
+
+    if (!track) {
+      throw new NotFoundError('Track')
+    }
+
+    // ============================================================
+    // BEST LAP PER DRIVER
+    // ============================================================
+    // leaderboard_best_laps() applies the filters and picks each driver's best lap in
+    // SQL - a busy track has more laps than one query returns (max_rows)
+    // ============================================================
+
+    let dayAfterTo: string | null = null
+    if (filters.to) {
+      const dayAfter = new Date(`${filters.to}T00:00:00Z`)
+      dayAfter.setUTCDate(dayAfter.getUTCDate() + 1)
+      dayAfterTo = dayAfter.toISOString()
+    }
+
+    const { data: best, error: bestError } = await supabase.rpc('leaderboard_best_laps', {
+      p_track_id: filters.trackId,
+      p_category: filters.category ?? null,
+      p_car_id: filters.carId ?? null,
+      p_build_id: filters.buildId ?? null,
+      p_conditions: filters.conditions ?? null,
+      p_session_type: filters.sessionType ?? null,
+      p_from: filters.from ?? null,
+      p_to: dayAfterTo,
+    })
+
+    if (bestError) throw bestError
+
+    const bestLaps = (best || []) as { lapId: string; totalLaps: number }[]
+    let laps: LeaderboardLapRow[] = []
+
+    if (bestLaps.length > 0) {
+      const { data, error } = await supabase
+        .from('LapTime')
+        .select(`
+          id,
+          userId,
+          timeMs,
+          createdAt,
+          conditions,
+          sessionType,
+          status,
+          reviewStatus,
+          buildId,
+          buildName,
+          user:User!LapTime_userId_fkey(id, name, gamertag),
+          car:Car(id, name, manufacturer, category)
+        `)
+        .in('id', bestLaps.map((row) => row.lapId))
+
+      if (error) throw error
+      laps = (data || []) as unknown as LeaderboardLapRow[]
+    }
+
+    // ============================================================
+    // RANK & BUILD LINKS
+    // ============================================================
+    // LapTime.buildId has no foreign key (deleted builds keep their laps), so the
+    // builds of the ranked laps are fetched separately
+    // ============================================================
+
+    const totalsByLapId = new Map(bestLaps.map((row) => [row.lapId, row.totalLaps]))
+    const lapCounts = new Map(laps.map((lap) => [lap.userId, totalsByLapId.get(lap.id) ?? 1]))
+    const ranked = rankBestLaps(laps, lapCounts)
+    const buildIds = [...new Set(ranked.map((entry) => entry.lap.buildId).filter((id): id is string => Boolean(id)))]
+
+    const session = await auth()
+    const [userData, { data: builds, error: buildsError }] = await Promise.all([
+      session?.user?.email ? getCurrentUser(session) : Promise.resolve(null),
+      buildIds.length > 0
+        ? supabase.from('CarBuild').select('id, name, isPublic, userId').in('id', buildIds)
+        : Promise.resolve({ data: [], error: null }),
+    ])
+
+    if (buildsError) throw buildsError
+
+    const buildsById = new Map((builds || []).map((build) => [build.id, build]))
+
+    const entries = ranked.map((entry) => {
+      const { lap } = entry
+      const build = lap.buildId ? buildsById.get(lap.buildId) : undefined
+      return {
+        position: entry.position,
+        user: lap.user,
+        timeMs: lap.timeMs,
+        gapToLeaderMs: entry.gapToLeaderMs,
+        totalLaps: entry.totalLaps,
+        lapId: lap.id,
+        createdAt: lap.createdAt,
+        conditions: lap.conditions,
+        sessionType: lap.sessionType,
+        disputed: lap.status === 'DISPUTED',
+        underReview: lap.reviewStatus === 'PENDING',
+        car: lap.car,
+        build: lap.buildId
+          ? {
+              id: lap.buildId,
+              name: build?.name || lap.buildName,
+              linkable: Boolean(build && (build.isPublic || build.userId === userData?.id)),
+            }
+          : null,
+      }
+    })
+
+    return NextResponse.json({ track, entries })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Single Lobby Preset API
+ *
+ * GET /api/lobby-settings/[id] - Preset with the races using it
+ * PATCH /api/lobby-settings/[id] - Update the preset (creator or admin)
+ * DELETE /api/lobby-settings/[id] - Delete the preset (creator or admin; races lose their link)
+ *
+ * Purpose: Edit a shared GT7 room setup
+ * - Every race linked to the preset (Race.lobbySettingsId) shows the new settings
+ * - Presets without a creator (made before createdById existed) are admin only
+ *
+ * Request Body (PATCH):
+ * - Any LobbySettings field - only the fields sent are changed
+ * - requiredTires: Tyre codes (["RM", "RS"]) - [] clears them
+ *
+ * Response:
+ * - GET: { lobbySettings: DbLobbySettings + createdBy, races[]: { id, name, track } }
+ * - PATCH: { lobbySettings }
+ * - DELETE: { success: true }
+ *
+ * Debugging Tips:
+ * - 403: Only the creator (or an admin) can change the preset
+ * - Race lost its preset: The preset was deleted (Race_lobbySettingsId_fkey is ON DELETE SET NULL)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { UpdateLobbySettingsSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { formatRequiredTyres } from '@/lib/lobby-settings'
+import {
+  handleApiError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/lib/api-error-handler'
+import type { DbLobbySettings } from '@/types/database'
+
+// Load the preset and check the caller may change it
+async function getEditableLobbySettings(id: string) {
+  const session = await auth()
+  if (!session?.user?.email) {
+    throw new UnauthorizedError()
+  }
+
+  const userData = await getCurrentUser(session)
+  if (!userData) {
+    throw new NotFoundError('User')
+  }
+
+  const supabase = createServiceRoleClient()
+  const { data: lobbySettings } = await supabase.from('LobbySettings').select('*').eq('id', id).single()
+
+  if (!lobbySettings) {
+    throw new NotFoundError('Lobby preset')
+  }
+  if (lobbySettings.createdById !== userData.id && !isAdmin(session)) {
+    throw new ForbiddenError('Only the preset creator or an admin can change it')
+  }
+
+  return { supabase, lobbySettings: lobbySettings as DbLobbySettings }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+
+    const [{ data: lobbySettings }, { data: races, error: racesError }] = await Promise.all([
+      supabase
+        .from('LobbySettings')
+        .select('*, createdBy:User!LobbySettings_createdById_fkey(id, name, gamertag)')
+        .eq('id', id)
+        .single(),
+      supabase
+        .from('Race')
+        .select('id, name, track:Track(id, name, layout)')
+        .eq('lobbySettingsId', id)
+        .order('createdAt', { ascending: false }),
+    ])
+
+    if (!lobbySettings) {
+      throw new NotFoundError('Lobby preset')
+    }
+    if (racesError) throw racesError
+
+    return NextResponse.json({ lobbySettings, races: races || [] })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const { id } = await params
+    const { supabase } = await getEditableLobbySettings(id)
+
+    const body = await request.json()
+    const validationResult = await validateBody(UpdateLobbySettingsSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { requiredTires, ...settings } = validationResult.data
+
+    const { data: lobbySettings, error } = await supabase
+      .from('LobbySettings')
+      .update({
+        ...settings,
+        ...(requiredTires !== undefined && { requiredTires: formatRequiredTyres(requiredTires) }),
+        updatedAt: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ lobbySettings }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { supabase } = await getEditableLobbySettings(id)
+
+    // Race_lobbySettingsId_fkey / RunListEntry_lobbySettingsId_fkey are ON DELETE SET NULL
+    const { error } = await supabase.from('LobbySettings').delete().eq('id', id)
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Lobby Presets API
+ *
+ * GET /api/lobby-settings - Every lobby preset with the number of races using it, by name
+ * POST /api/lobby-settings - Create a preset
+ *
+ * Purpose: Reusable GT7 room setups (LobbySettings)
+ * - A race links to one preset (Race.lobbySettingsId, set with PATCH /api/races/[id])
+ * - Presets are shared - editing one changes it for every race that uses it
+ *
+ * Request Body (POST):
+ * - name: Required
+ * - Any LobbySettings field (raceType, startType, boostLevel, tireWearMultiplier, ...) -
+ *   missing ones get the column defaults (DEFAULT_LOBBY_SETTINGS)
+ * - requiredTires: Tyre codes (["RM", "RS"]), stored as "RM,RS"
+ *
+ * Response:
+ * - GET: { lobbySettings[]: DbLobbySettings + createdBy, raceCount }
+ * - POST: { lobbySettings } (201)
+ *
+ * Debugging Tips:
+ * - 500 on insert: The remote lobby enums differ from CreateLobbySettingsSchema
+ * - raceCount 0 after a race was deleted: Expected - only linked races count
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { CreateLobbySettingsSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { DEFAULT_LOBBY_SETTINGS, formatRequiredTyres } from '@/lib/lobby-settings'
+import { handleApiError, NotFoundError, UnauthorizedError, ValidationError } from '@/lib/api-error-handler'
+
+export async function GET() {
+  try {
+    const supabase = createServiceRoleClient()
+
+    const { data: presets, error } = await supabase
+      .from('LobbySettings')
+      .select(`
+        *,
+        createdBy:User!LobbySettings_createdById_fkey(id, name, gamertag),
+        Race(id)
+      `)
+      .order('name', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({
+      lobbySettings: (presets || []).map(({ Race: races, ...preset }) => ({
+        ...preset,
+        raceCount: (races || []).length,
+      })),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const body = await request.json()
+    const validationResult = await validateBody(CreateLobbySettingsSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    // ============================================================
+    // CREATE PRESET
+    // ============================================================
+
+    const settings = { ...DEFAULT_LOBBY_SETTINGS, ...validationResult.data }
+    const now = new Date().toISOString()
+    const supabase = createServiceRoleClient()
+
+    const { data: lobbySettings, error } = await supabase
+      .from('LobbySettings')
+      .insert({
+        ...settings,
+        id: crypto.randomUUID(),
+        requiredTires: formatRequiredTyres(settings.requiredTires),
+        createdById: userData.id,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ lobbySettings }, { status: 201, headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Single Race Night API
+ *
+ * GET /api/race-nights/[id] - Race night with its lineup
+ * PATCH /api/race-nights/[id] - Edit, reorder the lineup, move the pointer, change status
+ * DELETE /api/race-nights/[id] - Delete the night and its run list (races are kept)
+ *
+ * Purpose: Run a race night live
+ * - Creator (RunList.createdById) or admin only for changes
+ * - status: SCHEDULED → IN_PROGRESS → COMPLETED (or CANCELLED) - see checkStatusTransition()
+ * - Starting a night puts the pointer (currentEntryOrder) on the first race
+ * - Completed and cancelled nights are archived: they can't be changed, only deleted
+ *
+ * Request Body (PATCH):
+ * - name, description, date: Optional details
+ * - raceIds: Races in running order - replaces the lineup (the pointer follows the current race)
+ * - status: New status
+ * - currentEntryOrder: Race being run now (RunListEntry.order) - only while IN_PROGRESS
+ *
+ * Response:
+ * - GET / PATCH: { raceNight: RaceNight } (see toRaceNight)
+ * - DELETE: { success: true }
+ *
+ * Debugging Tips:
+ * - 409 "already in progress": Another night is running - complete or cancel it first
+ * - 409 "archived": The night is completed or cancelled
+ * - 400 on currentEntryOrder: The night isn't in progress, or no race has that order (in the
+ *   new lineup when raceIds is sent too - checked before anything is saved)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { UpdateRaceNightSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import {
+  checkStatusTransition,
+  isArchivedStatus,
+  RACE_NIGHT_SELECT,
+  setRaceNightRaces,
+  toRaceNight,
+} from '@/lib/race-nights'
+import {
+  handleApiError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/lib/api-error-handler'
+import type { DbRunSession } from '@/types/database'
+
+// Load the night and check the caller may change it
+async function getEditableRaceNight(id: string) {
+  const session = await auth()
+  if (!session?.user?.email) {
+    throw new UnauthorizedError()
+  }
+
+  const userData = await getCurrentUser(session)
+  if (!userData) {
+    throw new NotFoundError('User')
+  }
+
+  const supabase = createServiceRoleClient()
+  const { data: raceNight } = await supabase
+    .from('RunSession')
+    .select('*, runList:RunList(id, createdById)')
+    .eq('id', id)
+    .single()
+
+  if (!raceNight) {
+    throw new NotFoundError('Race night')
+  }
+  if (raceNight.runList?.createdById !== userData.id && !isAdmin(session)) {
+    throw new ForbiddenError('Only the race night host or an admin can change it')
+  }
+
+  return { supabase, raceNight: raceNight as DbRunSession }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+
+    const { data: raceNight } = await supabase.from('RunSession').select(RACE_NIGHT_SELECT).eq('id', id).single()
+    if (!raceNight) {
+      throw new NotFoundError('Race night')
+    }
+
+    return NextResponse.json({ raceNight: toRaceNight(raceNight) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const { id } = await params
+    const { supabase, raceNight } = await getEditableRaceNight(id)
+
+    const body = await request.json()
+    const validationResult = await validateBody(UpdateRaceNightSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { name, description, date, status, currentEntryOrder, raceIds } = validationResult.data
+    const now = new Date().toISOString()
+
+    // ============================================================
+    // LIFECYCLE CHECKS (NOTHING IS CHANGED WHEN ONE FAILS)
+    // ============================================================
+
+    if (isArchivedStatus(raceNight.status)) {
+      throw new ConflictError('This race night is archived')
+    }
+
+    const nextStatus = status ?? raceNight.status
+    const transitionError = checkStatusTransition(raceNight.status, nextStatus)
+    if (transitionError) {
+      throw new ValidationError(transitionError)
+    }
+
+    if (nextStatus === 'IN_PROGRESS' && raceNight.status !== 'IN_PROGRESS') {
+      const { data: running } = await supabase
+        .from('RunSession')
+        .select('id, name')
+        .eq('status', 'IN_PROGRESS')
+        .maybeSingle()
+
+      if (running) {
+        throw new ConflictError(`"${running.name}" is already in progress - complete or cancel it first`)
+      }
+    }
+
+    if (currentEntryOrder !== undefined && nextStatus !== 'IN_PROGRESS') {
+      throw new ValidationError('The current race can only be set while the night is in progress')
+    }
+
+    if (raceIds?.length) {
+      const { data: races, error: racesError } = await supabase.from('Race').select('id').in('id', raceIds)
+      if (racesError) throw racesError
+      if ((races || []).length !== raceIds.length) {
+        throw new ValidationError('One or more races were not found')
+      }
+    }
+
+    // Orders of the lineup after this request - a new lineup is numbered 1..n
+    let orders: number[]
+    if (raceIds) {
+      orders = raceIds.map((_, index) => index + 1)
+    } else {
+      const { data: entries, error: entriesError } = await supabase
+        .from('RunListEntry')
+        .select('order')
+        .eq('runListId', raceNight.runListId)
+        .not('raceId', 'is', null)
+        .order('order', { ascending: true })
+
+      if (entriesError) throw entriesError
+      orders = (entries || []).map((entry) => entry.order)
+    }
+
+    if (currentEntryOrder !== undefined && !orders.includes(currentEntryOrder)) {
+      throw new ValidationError(`No race ${currentEntryOrder} on this night`)
+    }
+
+    // ============================================================
+    // LINEUP (FIRST - STARTING NEEDS THE NEW FIRST RACE)
+    // ============================================================
+
+    if (raceIds) {
+      await setRaceNightRaces(supabase, id, raceIds)
+    }
+
+    // ============================================================
+    // SESSION + RUN LIST DETAILS
+    // ============================================================
+
+    const update: Record<string, unknown> = { updatedAt: now }
+    if (name !== undefined) update.name = name
+    if (date !== undefined) update.date = date
+    if (currentEntryOrder !== undefined) update.currentEntryOrder = currentEntryOrder
+
+    if (status && status !== raceNight.status) {
+      update.status = status
+      if (status === 'IN_PROGRESS') {
+        update.startedAt = now
+        update.currentEntryOrder = currentEntryOrder ?? orders[0] ?? null
+      } else {
+        update.completedAt = now
+      }
+    }
+
+    const { error: sessionError } = await supabase.from('RunSession').update(update).eq('id', id)
+    if (sessionError) throw sessionError
+
+    if (name !== undefined || description !== undefined) {
+      const { error: runListError } = await supabase
+        .from('RunList')
+        .update({
+          ...(name !== undefined && { name }),
+          ...(description !== undefined && { description: description || null }),
+          updatedAt: now,
+        })
+        .eq('id', raceNight.runListId)
+
+      if (runListError) throw runListError
+    }
+
+    const { data: updated, error } = await supabase.from('RunSession').select(RACE_NIGHT_SELECT).eq('id', id).single()
+    if (error) throw error
+
+    return NextResponse.json({ raceNight: toRaceNight(updated) }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { supabase, raceNight } = await getEditableRaceNight(id)
+
+    // One run list per night: deleting it cascades to the session and its entries
+    const { error } = await supabase.from('RunList').delete().eq('id', raceNight.runListId)
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Current Race Night API
+ *
+ * GET /api/race-nights/current?date=YYYY-MM-DD - The night the Tonight page runs
+ *
+ * Purpose: Pick tonight's race night
+ * - The night IN_PROGRESS, otherwise the first night SCHEDULED on `date`
+ * - date: The caller's local date (default: today on the server, UTC)
+ *
+ * Response:
+ * - { raceNight: RaceNight | null } - null = Tonight falls back to the active races
+ *
+ * Debugging Tips:
+ * - Scheduled night not picked up: Its date differs from the date sent (time zones -
+ *   the Tonight page sends the browser's local date)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { RaceNightCurrentQuerySchema } from '@/lib/validation'
+import { RACE_NIGHT_SELECT, toRaceNight } from '@/lib/race-nights'
+import { handleApiError } from '@/lib/api-error-handler'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { date } = RaceNightCurrentQuerySchema.parse(Object.fromEntries(searchParams))
+    const day = date || new Date().toISOString().slice(0, 10)
+    const supabase = createServiceRoleClient()
+
+    const { data: inProgress, error } = await supabase
+      .from('RunSession')
+      .select(RACE_NIGHT_SELECT)
+      .eq('status', 'IN_PROGRESS')
+      .maybeSingle()
+
+    if (error) throw error
+    if (inProgress) {
+      return NextResponse.json({ raceNight: toRaceNight(inProgress) })
+    }
+
+    // date is a timestamp - nights are stored at midnight
+    const nextDay = new Date(`${day}T00:00:00Z`)
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1)
+
+    const { data: scheduled, error: scheduledError } = await supabase
+      .from('RunSession')
+      .select(RACE_NIGHT_SELECT)
+      .eq('status', 'SCHEDULED')
+      .gte('date', day)
+      .lt('date', nextDay.toISOString().slice(0, 10))
+      .order('createdAt', { ascending: true })
+      .limit(1)
+
+    if (scheduledError) throw scheduledError
+
+    return NextResponse.json({ raceNight: scheduled?.[0] ? toRaceNight(scheduled[0]) : null })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Race Nights API
+ *
+ * GET /api/race-nights - Upcoming race nights (or ?archived=true for past ones)
+ * POST /api/race-nights - Plan a race night (races in running order)
+ *
+ * Purpose: Dated race-night events instead of toggling Race.isActive
+ * - A night is a RunSession over its own RunList; the lineup is RunListEntry rows
+ * - Upcoming = SCHEDULED + IN_PROGRESS (soonest first), archive = COMPLETED + CANCELLED
+ *   (latest first)
+ *
+ * Request Body (POST):
+ * - name, date (YYYY-MM-DD): Required
+ * - description: Optional
+ * - raceIds: Races in running order (default none - add them later)
+ *
+ * Response:
+ * - GET: { raceNights[]: RaceNight } (see toRaceNight)
+ * - POST: { raceNight } (201)
+ *
+ * Debugging Tips:
+ * - 400 "One or more races were not found": A raceId doesn't exist (deleted race?)
+ * - Night missing from the list: Completed/cancelled nights only show with ?archived=true
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth-utils'
+import { CreateRaceNightSchema, RaceNightListQuerySchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { RACE_NIGHT_SELECT, setRaceNightRaces, toRaceNight } from '@/lib/race-nights'
+import { handleApiError, NotFoundError, UnauthorizedError, ValidationError } from '@/lib/api-error-handler'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { archived } = RaceNightListQuerySchema.parse(Object.fromEntries(searchParams))
+    const supabase = createServiceRoleClient()
+
+    const { data: raceNights, error } = await supabase
+      .from('RunSession')
+      .select(RACE_NIGHT_SELECT)
+      .in('status', archived === 'true' ? ['COMPLETED', 'CANCELLED'] : ['SCHEDULED', 'IN_PROGRESS'])
+      .order('date', { ascending: archived !== 'true' })
+      .order('createdAt', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ raceNights: (raceNights || []).map(toRaceNight) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const body = await request.json()
+    const validationResult = await validateBody(CreateRaceNightSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { name, description, date, raceIds } = validationResult.data
+    const supabase = createServiceRoleClient()
+
+    if (raceIds.length > 0) {
+      const { data: races, error: racesError } = await supabase.from('Race').select('id').in('id', raceIds)
+      if (racesError) throw racesError
+      if ((races || []).length !== raceIds.length) {
+        throw new ValidationError('One or more races were not found')
+      }
+    }
+
+    // ============================================================
+    // CREATE RUN LIST + SESSION + LINEUP
+    // ============================================================
+
+    const now = new Date().toISOString()
+    const runListId = crypto.randomUUID()
+    const sessionId = crypto.randomUUID()
+
+    const { error: runListError } = await supabase.from('RunList').insert({
+      id: runListId,
+      name,
+      description: description || null,
+      createdById: userData.id,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    if (runListError) throw runListError
+
+    try {
+      const { error: sessionError } = await supabase.from('RunSession').insert({
+        id: sessionId,
+        runListId,
+        name,
+        date,
+        status: 'SCHEDULED',
+        createdAt: now,
+        updatedAt: now,
+      })
+
+      if (sessionError) throw sessionError
+
+      if (raceIds.length > 0) {
+        await setRaceNightRaces(supabase, sessionId, raceIds)
+      }
+    } catch (createError) {
+      // Keep the create all-or-nothing (RunSession_runListId_fkey cascades)
+      await supabase.from('RunList').delete().eq('id', runListId)
+      throw createError
+    }
+
+    const { data: raceNight, error } = await supabase
+      .from('RunSession')
+      .select(RACE_NIGHT_SELECT)
+      .eq('id', sessionId)
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json(
+      { raceNight: toRaceNight(raceNight) },
+      { status: 201, headers: rateLimitHeaders(rateLimit) }
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Race Lap Times API (Bulk Entry)
+ *
+ * POST /api/races/[id]/lap-times - Record lap times for several race members at once
+ *
+ * Purpose: Enter a whole race night's times from the bulk entry grid (/races/[id]/lap-times)
+ * - One time per member, each with one of the race's builds
+ * - All rows are inserted in a single statement: either every lap is saved or none is
+ * - Admins can record for any member; other users only for themselves
+ * - recordedById stores who entered the laps, raceId ties them to the race
+ *
+ * Request Body:
+ * - entries[]: { userId, buildId, timeMs } (1-50, one per user)
+ * - conditions, sessionType, notes: Shared by every entry
+ * - confirmOutliers: Save rows flagged by the outlier check anyway (see below)
+ *
+ * Outlier Check (same as POST /api/lap-times, per row):
+ * - Implausible times answer 409 { outliers[]: { userId, outlierReasons } } and nothing is
+ *   saved until the body is resent with confirmOutliers: true
+ * - Confirmed outliers are saved with reviewStatus PENDING - they stay out of track records
+ *   until an admin approves them
+ *
+ * Response:
+ * - 201 { lapTimes[]: { id, userId, buildId, buildName, timeMs, reviewStatus } }
+ *
+ * Debugging Tips:
+ * - 400 "Race is not active": Bulk entry is only open while Race.isActive
+ * - 400 "not a member": userId has no RaceMember row for this race
+ * - 400 "not in this race": buildId has no RaceCar row for this race
+ * - 403: Non-admin submitted a row for someone else
+ * - 409 with outliers: See lib/lap-time-outliers.ts for the thresholds
+ * - Nothing saved after an error: Expected - the insert is all-or-nothing
+ * - Track records are recomputed silently afterwards (no record announcements for bulk entry)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { BulkLapTimesSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { getLatestRevisionId } from '@/lib/build-revisions'
+import { rebuildTrackRecords } from '@/lib/track-records'
+import { detectLapTimeOutliers, loadOutlierHistory, type OutlierReason } from '@/lib/lap-time-outliers'
+import {
+  handleApiError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/lib/api-error-handler'
+
+interface RaceBuildRow {
+  buildId: string | null
+  build: { id: string; name: string; carId: string; car: { category: string | null } | null } | null
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const validationResult = await validateBody(BulkLapTimesSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { entries, conditions, sessionType, notes, confirmOutliers } = validationResult.data
+
+    // ============================================================
+    // AUTHORIZATION CHECK
+    // ============================================================
+    // Admins record for anyone in the race, everyone else only for themselves
+    // ============================================================
+
+    if (!isAdmin(session) && entries.some((entry) => entry.userId !== userData.id)) {
+      throw new ForbiddenError('Only admins can record lap times for other members')
+    }
+
+    const supabase = createServiceRoleClient()
+
+    const { data: race } = await supabase
+      .from('Race')
+      .select('id, trackId, isActive, track:Track(length)')
+      .eq('id', id)
+      .single()
+
+    if (!race) {
+      throw new NotFoundError('Race')
+    }
+
+    if (!race.isActive) {
+      throw new ValidationError('Race is not active - activate it to enter lap times')
+    }
+
+    // ============================================================
+    // MEMBERS & BUILDS
+    // ============================================================
+    // Every driver must be a RaceMember and every build one of the race's builds
+    // ============================================================
+
+    const [{ data: members, error: membersError }, { data: raceCars, error: raceCarsError }] = await Promise.all([
+      supabase.from('RaceMember').select('userid').eq('raceid', id),
+      supabase.from('RaceCar').select('buildId, build:CarBuild(id, name, carId, car:Car(category))').eq('raceId', id),
+    ])
+
+    if (membersError) throw membersError
+    if (raceCarsError) throw raceCarsError
+
+    const memberIds = new Set((members || []).map((member) => member.userid))
+    const buildsById = new Map(
+      ((raceCars || []) as unknown as RaceBuildRow[])
+        .filter((raceCar) => raceCar.build)
+        .map((raceCar) => [raceCar.build!.id, raceCar.build!])
+    )
+
+    if (entries.some((entry) => !memberIds.has(entry.userId))) {
+      throw new ValidationError('Every driver must be a member of this race')
+    }
+
+    const unknownBuild = entries.find((entry) => !buildsById.has(entry.buildId))
+    if (unknownBuild) {
+      throw new ValidationError(`Build ${unknownBuild.buildId} is not in this race`)
+    }
+
+    // Tag each lap with its build's latest revision (same as POST /api/lap-times)
+    const buildIds = [...new Set(entries.map((entry) => entry.buildId))]
+    const revisionIds = new Map(
+      await Promise.all(
+        buildIds.map(async (buildId) => [buildId, await getLatestRevisionId(supabase, buildId)] as const)
+      )
+    )
+
+    // ============================================================
+    // OUTLIER CHECK
+    // ============================================================
+    // Each row against the track length and earlier laps in its car category
+    // - Any row flagged + not confirmed: 409 listing the flagged rows, nothing saved
+    // - Confirmed: Flagged rows are saved with reviewStatus PENDING for an admin to review
+    // ============================================================
+
+    const trackLength = (race.track as unknown as { length: number | null } | null)?.length ?? null
+    const categories = [...new Set(entries.map((entry) => buildsById.get(entry.buildId)!.car?.category ?? null))]
+    const historyByCategory = new Map(
+      await Promise.all(
+        categories.map(async (category) => [category, await loadOutlierHistory(supabase, race.trackId, category)] as const)
+      )
+    )
+
+    const outlierReasons = new Map<string, OutlierReason[]>()
+    for (const entry of entries) {
+      const category = buildsById.get(entry.buildId)!.car?.category ?? null
+      const reasons = detectLapTimeOutliers(entry.timeMs, trackLength, historyByCategory.get(category) || [])
+      if (reasons.length > 0) outlierReasons.set(entry.userId, reasons)
+    }
+
+    if (outlierReasons.size > 0 && !confirmOutliers) {
+      return NextResponse.json(
+        {
+          error: 'Some lap times look implausible for this track',
+          outliers: [...outlierReasons].map(([userId, reasons]) => ({ userId, outlierReasons: reasons })),
+        },
+        { status: 409, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    // ============================================================
+    // INSERT (ALL-OR-NOTHING)
+    // ============================================================
+    // A multi-row insert is one statement, so a failing row rolls back the others
+    // ============================================================
+
+    const now = new Date().toISOString()
+    const { data: lapTimes, error } = await supabase
+      .from('LapTime')
+      .insert(
+        entries.map((entry) => {
+          const build = buildsById.get(entry.buildId)!
+          const reasons = outlierReasons.get(entry.userId)
+          return {
+            id: crypto.randomUUID(),
+            userId: entry.userId,
+            recordedById: userData.id,
+            raceId: race.id,
+            trackId: race.trackId,
+            carId: build.carId,
+            buildId: build.id,
+            buildName: build.name,
+            revisionId: revisionIds.get(build.id) ?? null,
+            timeMs: entry.timeMs,
+            notes: notes || null,
+            conditions: conditions || null,
+            sessionType: sessionType || 'R',
+            reviewStatus: reasons ? 'PENDING' : null,
+            outlierReasons: reasons ? reasons.map((reason) => reason.code) : null,
+            createdAt: now,
+            updatedAt: now,
+          }
+        })
+      )
+      .select('id, userId, buildId, buildName, timeMs, reviewStatus')
+
+    if (error) throw error
+
+    await rebuildTrackRecords(supabase, race.trackId)
+
+    return NextResponse.json({ lapTimes }, {
+      status: 201,
+      headers: rateLimitHeaders(rateLimit),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -25,14 +25,16 @@
  * 2. Validate partId is provided
  * 3. Verify part exists in Parts table
  * 4. Verify member exists in RaceMember table
- * 5. Update member's partId, updatedat, and updatedbyid
- * 6. Return updated member with all relationship data
+ * 5. Reject tyres the race regulations don't allow
+ * 6. Update member's partId, updatedat, and updatedbyid
+ * 7. Return updated member with all relationship data
  *
  * Debugging Tips:
  * - Common error: "partId is required" - check request body includes partId
  * - Common error: "Part not found" - verify partId exists in Part table
  * - Common error: "Race member not found" - verify memberId exists in RaceMember table
  * - Common error: "Access denied" - check user role is ADMIN
+ * - Common error: "... not allowed (... only)" - Race.regulations.tyres excludes that compound
  * - After update: Check member has updated partId, updatedat, and updatedbyid
  * - Frontend: "Last Updated" should show current user and current time
  */
@@ -42,6 +44,8 @@ import { createServiceRoleClient } from '@/lib/supabase/service-role'
 import { auth } from '@/lib/auth'
 import { isAdmin, getCurrentUser } from '@/lib/auth-utils'
 import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { checkTyreAgainstRegulations } from '@/lib/race-regulations'
+import type { DbRace } from '@/types/database'
 
 export async function PATCH(
   request: NextRequest,
@@ -64,7 +68,7 @@ export async function PATCH(
       )
     }
 
-    const { memberId } = await params
+    const { id: raceId, memberId } = await params
     const session = await auth()
 
     if (!session?.user?.email) {
@@ -138,14 +142,27 @@ export async function PATCH(
 
     const { data: existingMember, error: fetchError } = await supabase
       .from('RaceMember')
-      .select('id')
+      .select('id, race:Race(regulations)')
       .eq('id', memberId)
+      .eq('raceid', raceId)
       .single()
 
     if (fetchError || !existingMember) {
       return NextResponse.json({ error: 'Race member not found' }, { status: 404 })
     }
 
+    // ============================================================
+    // REGULATION CHECK
+    // ============================================================
+    // Tyre must be one of the compounds allowed by Race.regulations.tyres
+    // ============================================================
+
+    const race = existingMember.race as unknown as { regulations: DbRace['regulations'] } | null
+    const tyreIssue = checkTyreAgainstRegulations(race?.regulations, part.name)
+    if (tyreIssue) {
+      return NextResponse.json({ error: tyreIssue }, { status: 400 })
+    }
+
     // ============================================================
     // UPDATE TYRE SELECTION WITH CHANGE TRACKING
     // ============================================================
@@ -7,7 +7,9 @@
  * Debugging Tips:
  * - Members ordered by 'order' field (position in list)
  * - Gamertags only (no names/emails exposed)
- * - Default tyre: Racing: Soft if not specified
+ * - Default tyre: Racing: Soft if not specified (first allowed tyre if the regulations exclude it)
+ * - Tyres outside Race.regulations.tyres are rejected on POST and flagged
+ *   on GET (regulationIssue per member)
  * - Active users only (role IN ('USER', 'ADMIN'))
  */
 
@@ -17,6 +19,8 @@ import { createServiceRoleClient } from '@/lib/supabase/service-role'
 import { auth } from '@/lib/auth'
 import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
 import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { checkTyreAgainstRegulations } from '@/lib/race-regulations'
+import { parseTyreCompound } from '@/lib/build-performance'
 
 // GET /api/races/[id]/members - Get all race members
 export async function GET(
@@ -27,6 +31,13 @@ export async function GET(
     const { id } = await params
     const supabase = createServiceRoleClient()
 
+    // Regulations (to flag tyres that aren't allowed)
+    const { data: race } = await supabase
+      .from('Race')
+      .select('regulations')
+      .eq('id', id)
+      .single()
+
     // Get race members with user and part data
     const { data: members, error } = await supabase
       .from('RaceMember')
@@ -54,7 +65,15 @@ export async function GET(
       )
     }
 
-    return NextResponse.json({ members: members || [] })
+    return NextResponse.json({
+      members: (members || []).map((member) => ({
+        ...member,
+        regulationIssue: checkTyreAgainstRegulations(
+          race?.regulations,
+          (member.part as unknown as { name: string } | null)?.name
+        ),
+      })),
+    })
   } catch (error) {
     console.error('Unexpected error:', error)
     return NextResponse.json(
@@ -113,6 +132,17 @@ export async function POST(
 
     const supabase = createServiceRoleClient()
 
+    // Verify race exists (regulations decide which tyres are allowed)
+    const { data: race } = await supabase
+      .from('Race')
+      .select('id, regulations')
+      .eq('id', raceId)
+      .single()
+
+    if (!race) {
+      return NextResponse.json({ error: 'Race not found' }, { status: 404 })
+    }
+
     // Verify user exists and is active
     const { data: user, error: userError } = await supabase
       .from('User')
@@ -151,16 +181,19 @@ export async function POST(
     let selectedPartId = partId
 
     if (!selectedPartId) {
-      // Default to Racing: Soft
-      const { data: defaultTyre } = await supabase
+      // Default to Racing: Soft (or the first tyre the regulations allow)
+      const { data: parts } = await supabase
         .from('Part')
-        .select('id')
-        .eq('name', 'Racing: Soft')
-        .single()
+        .select('id, name')
+
+      const allowedTyres = (parts || []).filter((part) =>
+        parseTyreCompound(part.name) !== null && !checkTyreAgainstRegulations(race.regulations, part.name)
+      )
+      const defaultTyre = allowedTyres.find((part) => part.name === 'Racing: Soft') || allowedTyres[0]
 
       if (!defaultTyre) {
         return NextResponse.json(
-          { error: 'Default tyre (Racing: Soft) not found in Parts table' },
+          { error: 'No tyre allowed by the race regulations found in Parts table' },
           { status: 404 }
         )
       }
@@ -170,13 +203,18 @@ export async function POST(
       // Validate specified part exists
       const { data: part } = await supabase
         .from('Part')
-        .select('id')
+        .select('id, name')
         .eq('id', selectedPartId)
         .single()
 
       if (!part) {
         return NextResponse.json({ error: 'Specified part not found' }, { status: 404 })
       }
+
+      const tyreIssue = checkTyreAgainstRegulations(race.regulations, part.name)
+      if (tyreIssue) {
+        return NextResponse.json({ error: tyreIssue }, { status: 400 })
+      }
     }
 
     // Get next order position
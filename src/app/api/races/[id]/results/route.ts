@@ -0,0 +1,249 @@
+/**
+ * Race Results API
+ *
+ * GET /api/races/[id]/results - Finishing order, DNF/DNS and points of a race
+ * PUT /api/races/[id]/results - Replace the results (race creator or admin)
+ *
+ * Purpose: Record who actually won, after the race
+ * - Results are keyed by user: every driver must be a race member when saving
+ *   (drivers removed from the race later keep their result)
+ * - Points come from the points table (Race.pointsTable, default 25-18-15-12-10-8-6-4-2-1)
+ *   and are stored with each result
+ * - completed: true marks the race as completed (Race.completedAt) - the race page and
+ *   the Tonight card then show the results; false keeps them provisional
+ *
+ * Request Body (PUT):
+ * - results[]: { userId, buildId, status: FINISHED | DNF | DNS, position, totalTimeMs, fastestLapMs }
+ * - pointsTable: Points for P1, P2, ... (null = default table)
+ * - completed: boolean
+ *
+ * Response (GET and PUT):
+ * - completedAt: When the results were marked final (null = provisional / none)
+ * - pointsTable: Effective points table (the default when the race has none)
+ * - customPointsTable: Whether the race has its own table
+ * - results[]: { id, userId, status, position, totalTimeMs, fastestLapMs, points,
+ *   fastestLap (true for the race's fastest lap), user, car, build }, by position, DNS last
+ *
+ * Debugging Tips:
+ * - 400 "Positions must run from 1 to n": FINISHED + DNF drivers need positions 1..n
+ * - 400 "not a member": userId has no RaceMember row for this race
+ * - 400 "not in this race": buildId has no RaceCar row for this race
+ * - Points unchanged after editing the table: Save the results again (points are stored)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
+import { SaveRaceResultsSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import {
+  checkRaceResults,
+  compareRaceResults,
+  DEFAULT_POINTS_TABLE,
+  pointsForResult,
+  saveRaceResults,
+  type RaceResultInput,
+} from '@/lib/race-results'
+import {
+  handleApiError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/lib/api-error-handler'
+
+interface RaceBuildRow {
+  build: { id: string; carId: string } | null
+}
+
+// ============================================================
+// LOAD RESULTS (shared by GET and PUT)
+// ============================================================
+
+async function loadRaceResults(supabase: SupabaseClient, raceId: string) {
+  const { data: race } = await supabase
+    .from('Race')
+    .select('id, completedAt, pointsTable')
+    .eq('id', raceId)
+    .maybeSingle()
+
+  if (!race) {
+    throw new NotFoundError('Race')
+  }
+
+  const { data: results, error } = await supabase
+    .from('RaceResult')
+    .select(`
+      id,
+      userId,
+      status,
+      position,
+      totalTimeMs,
+      fastestLapMs,
+      points,
+      user:User!RaceResult_userId_fkey(id, name, gamertag),
+      car:Car(id, name, manufacturer),
+      build:CarBuild(id, name)
+    `)
+    .eq('raceId', raceId)
+
+  if (error) throw error
+
+  const rows = (results || []).slice().sort(compareRaceResults)
+  const lapTimes = rows.map((result) => result.fastestLapMs).filter((ms): ms is number => ms !== null)
+  const fastestLapMs = lapTimes.length > 0 ? Math.min(...lapTimes) : null
+
+  return {
+    completedAt: race.completedAt,
+    pointsTable: race.pointsTable ?? DEFAULT_POINTS_TABLE,
+    customPointsTable: race.pointsTable !== null,
+    results: rows.map((result) => ({
+      ...result,
+      fastestLap: fastestLapMs !== null && result.fastestLapMs === fastestLapMs,
+    })),
+  }
+}
+
+// GET /api/races/[id]/results - Results of a race
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = createServiceRoleClient()
+
+    return NextResponse.json(await loadRaceResults(supabase, id))
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// PUT /api/races/[id]/results - Replace the results of a race
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHENTICATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.email) {
+      throw new UnauthorizedError()
+    }
+
+    const userData = await getCurrentUser(session)
+    if (!userData) {
+      throw new NotFoundError('User')
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const validationResult = await validateBody(SaveRaceResultsSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    const { results, pointsTable, completed } = validationResult.data
+    const supabase = createServiceRoleClient()
+
+    const { data: race } = await supabase
+      .from('Race')
+      .select('id, createdById')
+      .eq('id', id)
+      .single()
+
+    if (!race) {
+      throw new NotFoundError('Race')
+    }
+
+    // Same rule as editing the race
+    if (race.createdById !== userData.id && !isAdmin(session)) {
+      throw new ForbiddenError('Only the race creator or admins can record results')
+    }
+
+    // ============================================================
+    // MEMBERS, BUILDS & CLASSIFICATION
+    // ============================================================
+
+    const [{ data: members, error: membersError }, { data: raceCars, error: raceCarsError }] = await Promise.all([
+      supabase.from('RaceMember').select('userid').eq('raceid', id),
+      supabase.from('RaceCar').select('build:CarBuild(id, carId)').eq('raceId', id),
+    ])
+
+    if (membersError) throw membersError
+    if (raceCarsError) throw raceCarsError
+
+    const memberIds = new Set((members || []).map((member) => member.userid))
+    const carsByBuild = new Map(
+      ((raceCars || []) as unknown as RaceBuildRow[])
+        .filter((raceCar) => raceCar.build)
+        .map((raceCar) => [raceCar.build!.id, raceCar.build!.carId])
+    )
+
+    if (results.some((result) => !memberIds.has(result.userId))) {
+      throw new ValidationError('Every driver must be a member of this race')
+    }
+
+    const unknownBuild = results.find((result) => result.buildId && !carsByBuild.has(result.buildId))
+    if (unknownBuild) {
+      throw new ValidationError(`Build ${unknownBuild.buildId} is not in this race`)
+    }
+
+    const inputs: RaceResultInput[] = results.map((result) => ({
+      userId: result.userId,
+      buildId: result.buildId ?? null,
+      status: result.status,
+      position: result.position ?? null,
+      totalTimeMs: result.totalTimeMs ?? null,
+      fastestLapMs: result.fastestLapMs ?? null,
+    }))
+
+    const problem = checkRaceResults(inputs)
+    if (problem) {
+      throw new ValidationError(problem)
+    }
+
+    if (completed && inputs.length === 0) {
+      throw new ValidationError('Enter at least one result before completing the race')
+    }
+
+    // ============================================================
+    // SAVE (ALL-OR-NOTHING)
+    // ============================================================
+
+    const table = pointsTable ?? null
+    await saveRaceResults(
+      supabase,
+      id,
+      inputs.map((input) => ({
+        ...input,
+        carId: input.buildId ? carsByBuild.get(input.buildId) ?? null : null,
+        points: pointsForResult(input.status, input.position, table),
+      })),
+      table,
+      completed,
+      userData.id
+    )
+
+    return NextResponse.json(await loadRaceResults(supabase, id), {
+      headers: rateLimitHeaders(rateLimit),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -2,15 +2,24 @@
  * Single Race Details API
  *
  * GET /api/races/[id] - Get race with leaderboard, user stats, and statistics
- * PATCH /api/races/[id] - Update race (name, description, buildIds, laps, weather, isActive)
+ * PATCH /api/races/[id] - Update race (name, description, buildIds, laps, weather, isActive,
+ *   lobbySettingsId - the lobby preset, null to unlink)
  * DELETE /api/races/[id] - Delete race (cascade deletes RaceCar entries)
  *
  * Debugging Tips:
  * - Leaderboard filtered to ONLY builds in this race at this track
  * - buildIds extracted from RaceCar table for filtering
  * - Statistics: totalLaps, uniqueDrivers, fastestTime, averageTime, worldRecord
+ * - Laps removed after a dispute (LapTime.status = REMOVED) are left out of everything;
+ *   leaderboard entries whose best lap is disputed have bestLapDisputed = true
  * - User stats: personal best, position, recent laps
  * - Permission: creator or admin can edit/delete
+ * - PATCH checks regulations against the resulting builds BEFORE saving anything
+ *   (400 with per-build reasons in `errors`)
+ * - GET adds regulationIssues to each RaceCar (empty when the build is legal)
+ * - GET embeds the linked lobby preset as race.lobbySettings (null without one)
+ * - GET `sectors` is null unless the track has sectorCount and some laps have splits
+ *   (see summarizeSectors in @/lib/sectors.ts)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -19,8 +28,10 @@ import { createServiceRoleClient } from '@/lib/supabase/service-role'
 import { auth } from '@/lib/auth'
 import { getCurrentUser, isAdmin } from '@/lib/auth-utils'
 import { UpdateRaceSchema, validateBody } from '@/lib/validation'
-import type { DbRace, DbRaceCar, DbCarBuild, DbUser, DbTrack, DbLapTime, DbCar } from '@/types/database'
+import type { DbRace, DbRaceCar, DbCarBuild, DbUser, DbTrack, DbLapTime, DbCar, DbLobbySettings } from '@/types/database'
 import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { checkBuildAgainstRegulations, normalizeRegulations, type RegulationBuild } from '@/lib/race-regulations'
+import { summarizeSectors } from '@/lib/sectors'
 
 // Enriched lap time type with nested user and car data
 type DbLapTimeWithRelations = DbLapTime & {
@@ -73,6 +84,11 @@ export async function GET(
       .eq('id', race.createdById)
       .single()
 
+    // Get the lobby preset (if one is linked)
+    const { data: lobbySettings } = race.lobbySettingsId
+      ? await supabase.from('LobbySettings').select('*').eq('id', race.lobbySettingsId).single()
+      : { data: null }
+
     // Get race cars with nested data
     const { data: raceCars } = await supabase
       .from('RaceCar')
@@ -81,21 +97,32 @@ export async function GET(
         raceId,
         carId,
         buildId,
-        car:Car(id, name, slug, manufacturer, year, category, imageUrl),
-        build:CarBuild(id, name, description, isPublic)
+        car:Car(id, name, slug, manufacturer, year, category, driveType, imageUrl),
+        build:CarBuild(id, name, description, isPublic, estimatedPp)
       `)
       .eq('raceId', id)
 
+    // Flag builds that break the regulations
+    const checkedRaceCars = (raceCars || []).map((raceCar) => ({
+      ...raceCar,
+      regulationIssues: checkBuildAgainstRegulations(race.regulations, {
+        estimatedPp: (raceCar.build as unknown as RegulationBuild | null)?.estimatedPp,
+        car: raceCar.car as unknown as RegulationBuild['car'],
+      }),
+    }))
+
     // Attach related data to race object
     const enrichedRace: DbRace & {
       track?: DbTrack
       createdBy?: DbUser
+      lobbySettings: DbLobbySettings | null
       RaceCar: DbRaceCar[]
     } = {
       ...race,
       track,
       createdBy,
-      RaceCar: raceCars || [],
+      lobbySettings: lobbySettings || null,
+      RaceCar: checkedRaceCars,
     }
 
     // ============================================================
@@ -114,19 +141,23 @@ export async function GET(
       .from('LapTime')
       .select(`
         id,
+        userId,
         timeMs,
+        sectorTimesMs,
         notes,
         conditions,
         createdAt,
         updatedAt,
         sessionType,
+        status,
         buildId,
         buildName,
-        user:User(id, name, email),
+        user:User!LapTime_userId_fkey(id, name, email, gamertag),
         car:Car(id, name, slug, manufacturer, year)
       `)
       .eq('trackId', trackId)
       .in('buildId', buildIds)  // Filter to ONLY builds in this race
+      .neq('status', 'REMOVED')
       .order('timeMs', { ascending: true })
 
     // Calculate leaderboard (best time per user per car per build)
@@ -141,6 +172,7 @@ export async function GET(
       bestTime: number
       totalLaps: number
       bestLapId: string
+      bestLapDisputed: boolean
       lastImprovement: string
     }>()
 
@@ -168,6 +200,7 @@ export async function GET(
           bestTime: lapTime.timeMs,
           totalLaps: 1,
           bestLapId: lapTime.id,
+          bestLapDisputed: lapTime.status === 'DISPUTED',
           lastImprovement: lapTime.createdAt
         })
       } else {
@@ -176,6 +209,7 @@ export async function GET(
         if (lapTime.timeMs < userData.bestTime) {
           userData.bestTime = lapTime.timeMs
           userData.bestLapId = lapTime.id
+          userData.bestLapDisputed = lapTime.status === 'DISPUTED'
           userData.lastImprovement = lapTime.createdAt
         }
       }
@@ -232,11 +266,34 @@ export async function GET(
       worldRecord: leaderboard.length > 0 ? leaderboard[0] : null
     }
 
+    // ============================================================
+    // SECTOR SPLITS
+    // ============================================================
+    // Theoretical best + per-driver deltas against the leader (null without splits)
+    // ============================================================
+
+    const sectorSummary = summarizeSectors(lapTimes || [], track?.sectorCount ?? null)
+    const driverNames = new Map(
+      (lapTimes || []).map((lapTime) => {
+        const user = (lapTime as unknown as { user: { name: string | null; gamertag: string | null } | null }).user
+        return [lapTime.userId, user?.gamertag || user?.name || 'Unknown driver'] as const
+      })
+    )
+    const sectors = sectorSummary && {
+      ...sectorSummary,
+      bestSectorUserNames: sectorSummary.bestSectorUserIds.map((userId) => driverNames.get(userId) || null),
+      drivers: sectorSummary.drivers.map((driver) => ({
+        ...driver,
+        userName: driverNames.get(driver.userId) || null,
+      })),
+    }
+
     return NextResponse.json({
       race: enrichedRace,
       leaderboard,
       userStats,
       statistics,
+      sectors,
       recentActivity: (lapTimes || [])
         .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
         .slice(0, 10)
@@ -280,7 +337,7 @@ export async function PATCH(
       return NextResponse.json({ error: validationResult.error }, { status: 400 })
     }
 
-    const { name, description, buildIds, laps, weather, isActive } = validationResult.data
+    const { name, description, buildIds, laps, weather, isActive, regulations, lobbySettingsId } = validationResult.data
 
     const supabase = createServiceRoleClient()
 
@@ -294,7 +351,7 @@ export async function PATCH(
     // Get race to check permissions and current state
     const { data: existingRace } = await supabase
       .from('Race')
-      .select('createdById, isActive')
+      .select('createdById, isActive, regulations')
       .eq('id', id)
       .single()
 
@@ -312,6 +369,68 @@ export async function PATCH(
       )
     }
 
+    // ============================================================
+    // BUILD + REGULATION CHECKS (before anything is written)
+    // ============================================================
+    // Resulting regulations = new ones if sent, otherwise the stored ones
+    // Resulting builds = buildIds if sent, otherwise the race's current builds
+    // ============================================================
+
+    const effectiveRegulations = regulations !== undefined
+      ? normalizeRegulations(regulations)
+      : normalizeRegulations(existingRace.regulations)
+
+    let builds: Array<{ id: string; carId: string }> | null = null
+    if (buildIds) {
+      const { data } = await supabase
+        .from('CarBuild')
+        .select('id, name, carId, estimatedPp, car:Car(manufacturer, category, driveType)')
+        .in('id', buildIds)
+
+      if (!data || data.length !== buildIds.length) {
+        return NextResponse.json({ error: 'One or more builds not found' }, { status: 404 })
+      }
+      builds = data
+    }
+
+    if (effectiveRegulations) {
+      let buildsToCheck = builds as unknown as Array<RegulationBuild & { id: string }> | null
+      if (!buildsToCheck) {
+        const { data: currentCars } = await supabase
+          .from('RaceCar')
+          .select('build:CarBuild(id, estimatedPp, car:Car(manufacturer, category, driveType))')
+          .eq('raceId', id)
+        buildsToCheck = (currentCars || [])
+          .map((raceCar) => raceCar.build as unknown as RegulationBuild & { id: string })
+          .filter(Boolean)
+      }
+
+      const regulationErrors: Record<string, string[]> = {}
+      for (const build of buildsToCheck) {
+        const reasons = checkBuildAgainstRegulations(effectiveRegulations, build)
+        if (reasons.length > 0) regulationErrors[build.id] = reasons
+      }
+
+      if (Object.keys(regulationErrors).length > 0) {
+        return NextResponse.json(
+          { error: 'One or more builds do not meet the race regulations', errors: regulationErrors },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (lobbySettingsId) {
+      const { data: lobbySettings } = await supabase
+        .from('LobbySettings')
+        .select('id')
+        .eq('id', lobbySettingsId)
+        .single()
+
+      if (!lobbySettings) {
+        return NextResponse.json({ error: 'Lobby preset not found' }, { status: 404 })
+      }
+    }
+
     const now = new Date().toISOString()
     const updates: Partial<{
       name: string | null
@@ -320,6 +439,8 @@ export async function PATCH(
       weather: string | null
       isActive: boolean
       order: number
+      regulations: DbRace['regulations']
+      lobbySettingsId: string | null
       updatedAt: string
     }> = {
       updatedAt: now
@@ -330,6 +451,8 @@ export async function PATCH(
     if (laps !== undefined) updates.laps = laps || null
     if (weather !== undefined) updates.weather = weather || null
     if (isActive !== undefined) updates.isActive = isActive
+    if (regulations !== undefined) updates.regulations = effectiveRegulations
+    if (lobbySettingsId !== undefined) updates.lobbySettingsId = lobbySettingsId
 
     // When activating a race, set order to MAX(order) + 1 among active races
     if (isActive === true && existingRace.isActive === false) {
@@ -358,6 +481,8 @@ export async function PATCH(
         laps,
         weather,
         isActive,
+        regulations,
+        lobbySettingsId,
         createdAt,
         updatedAt,
         track:Track(id, name, slug, location, length, category, layout),
@@ -374,17 +499,7 @@ export async function PATCH(
     }
 
     // If buildIds are being updated, handle that
-    if (buildIds && Array.isArray(buildIds)) {
-      // Verify all builds exist
-      const { data: builds } = await supabase
-        .from('CarBuild')
-        .select('id, carId')
-        .in('id', buildIds)
-
-      if (!builds || builds.length !== buildIds.length) {
-        return NextResponse.json({ error: 'One or more builds not found' }, { status: 404 })
-      }
-
+    if (builds) {
       // Delete existing race cars
       await supabase.from('RaceCar').delete().eq('raceId', id)
 
@@ -1,7 +1,8 @@
 /**
  * Race Management API
  *
- * GET /api/races - List all races (optional: ?isActive=true for active races only)
+ * GET /api/races - List all races (optional: ?isActive=true for active races only,
+ *   ?ids=a,b,c for specific races - the Tonight page loads a race night's lineup this way)
  * POST /api/races - Create a new race with track and builds
  *
  * Debugging Tips:
@@ -10,14 +11,27 @@
  * - RaceCar junction table links Race ↔ Car ↔ Build (many-to-many)
  * - buildId is NOT NULL (build-centric architecture)
  * - Race creator (createdById) is tracked for permission checks
+ * - regulations (PP cap, tyres, category, drive type, manufacturers) are enforced on create:
+ *   builds that break them are rejected with per-build reasons in `errors`
+ * - GET adds regulationIssues per race (illegal builds / tyre choices) for the Tonight card
+ * - GET embeds the linked lobby preset (lobbySettings, null without one) for the Tonight card
+ * - GET embeds RaceResult (status, position, points, user) - the Tonight card shows the
+ *   podium once Race.completedAt is set
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceRoleClient } from '@/lib/supabase/service-role'
 import { auth } from '@/lib/auth'
-import type { DbRaceWithRelations, DbCarBuild } from '@/types/database'
+import type { DbRace, DbRaceWithRelations, DbCarBuild } from '@/types/database'
 import { CreateRaceSchema, UpdateRaceSchema, validateBody } from '@/lib/validation'
 import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import {
+  checkBuildAgainstRegulations,
+  checkTyreAgainstRegulations,
+  normalizeRegulations,
+  type RegulationBuild,
+} from '@/lib/race-regulations'
+import { parseTyreCompound } from '@/lib/build-performance'
 
 // GET /api/races - List all races with run list associations
 export async function GET(req: NextRequest) {
@@ -25,19 +39,36 @@ export async function GET(req: NextRequest) {
     const supabase = createServiceRoleClient()
 
     const isActiveParam = req.nextUrl.searchParams.get('isActive')
+    const idsParam = req.nextUrl.searchParams.get('ids')
 
     let query = supabase
       .from('Race')
       .select(`
         *,
         track:Track(*),
+        lobbySettings:LobbySettings(*),
         RaceCar(
           *,
-          car:Car(id, name, slug, manufacturer),
-          build:CarBuild(id, name, description)
+          car:Car(id, name, slug, manufacturer, category, driveType),
+          build:CarBuild(id, name, description, estimatedPp)
+        ),
+        RaceMember(
+          user:User!RaceMember_userid_fkey(id, name, gamertag),
+          part:Part(id, name)
+        ),
+        RaceResult(
+          userId,
+          status,
+          position,
+          points,
+          user:User!RaceResult_userId_fkey(id, gamertag)
         )
       `)
 
+    if (idsParam) {
+      query = query.in('id', idsParam.split(',').filter(Boolean).slice(0, 100))
+    }
+
     // When filtering for active races, sort by order then createdAt
     if (isActiveParam === 'true') {
       query = query
@@ -67,7 +98,13 @@ export async function GET(req: NextRequest) {
       })
     }
 
-    return NextResponse.json({ races: sortedRaces })
+    // Flag builds and tyre choices that break each race's regulations
+    const racesWithIssues = sortedRaces.map(({ RaceMember: members, ...race }) => ({
+      ...race,
+      regulationIssues: getRegulationIssues(race, members || []),
+    }))
+
+    return NextResponse.json({ races: racesWithIssues })
   } catch (error) {
     console.error('Error fetching races:', error)
     return NextResponse.json(
@@ -90,6 +127,37 @@ function getDisplayName(race: DbRaceWithRelations & { RaceCar?: Array<{ car?: {
   return `${trackName} + ${carName}`
 }
 
+type RaceMemberTyre = {
+  user?: { name?: string | null; gamertag?: string | null } | null
+  part?: { name?: string | null } | null
+}
+
+// Helper function to list regulation breaches ("Build: reason", "Driver: reason")
+function getRegulationIssues(
+  race: { regulations?: DbRace['regulations']; RaceCar?: Array<RegulationBuild & { build?: RegulationBuild & { name?: string } | null }> },
+  members: RaceMemberTyre[]
+): string[] {
+  if (!normalizeRegulations(race.regulations)) return []
+
+  const issues: string[] = []
+  for (const raceCar of race.RaceCar || []) {
+    const reasons = checkBuildAgainstRegulations(race.regulations, {
+      estimatedPp: raceCar.build?.estimatedPp,
+      car: raceCar.car,
+    })
+    for (const reason of reasons) {
+      issues.push(`${raceCar.build?.name || 'Build'}: ${reason}`)
+    }
+  }
+  for (const member of members) {
+    const reason = checkTyreAgainstRegulations(race.regulations, member.part?.name)
+    if (reason) {
+      issues.push(`${member.user?.gamertag || member.user?.name || 'Driver'}: ${reason}`)
+    }
+  }
+  return issues
+}
+
 // POST /api/races - Create a new race with builds
 export async function POST(req: NextRequest) {
   try {
@@ -118,6 +186,7 @@ export async function POST(req: NextRequest) {
     }
 
     const { trackId, buildIds, name, description, laps, weather, isActive } = validationResult.data
+    const regulations = normalizeRegulations(validationResult.data.regulations)
 
     const supabase = createServiceRoleClient()
 
@@ -127,7 +196,8 @@ export async function POST(req: NextRequest) {
     // 1. Track must exist in Track table
     // 2. All builds must exist and be accessible
     // 3. buildIds array contains the builds to add to this race
-    // 4. createdById is set to current authenticated user
+    // 4. Every build must meet the race regulations (if any)
+    // 5. createdById is set to current authenticated user
     // ============================================================
 
     // Verify track exists
@@ -144,7 +214,7 @@ export async function POST(req: NextRequest) {
     // Verify all builds exist and get their car IDs
     const { data: builds, error: buildsError } = await supabase
       .from('CarBuild')
-      .select('id, carId, car:Car(id, name, slug, manufacturer)')
+      .select('id, name, carId, estimatedPp, car:Car(id, name, slug, manufacturer, category, driveType)')
       .in('id', buildIds)
 
     if (buildsError) {
@@ -162,6 +232,20 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    // Reject builds that break the regulations (reasons keyed by build ID)
+    const regulationErrors: Record<string, string[]> = {}
+    for (const build of builds) {
+      const reasons = checkBuildAgainstRegulations(regulations, build as unknown as RegulationBuild)
+      if (reasons.length > 0) regulationErrors[build.id] = reasons
+    }
+
+    if (Object.keys(regulationErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'One or more builds do not meet the race regulations', errors: regulationErrors },
+        { status: 400 }
+      )
+    }
+
     // Generate race ID
     const raceId = crypto.randomUUID()
 
@@ -177,6 +261,7 @@ export async function POST(req: NextRequest) {
         laps: laps || null,
         weather: weather || null,
         isActive: isActive || false,
+        regulations,
       })
       .select()
       .single()
@@ -232,12 +317,15 @@ export async function POST(req: NextRequest) {
         .in('role', ['USER', 'ADMIN'])
 
       if (activeUsers && activeUsers.length > 0) {
-        // Get default Racing: Soft tyre
-        const { data: defaultTyre } = await supabase
+        // Get default tyre: Racing: Soft, or the first tyre the regulations allow
+        const { data: parts } = await supabase
           .from('Part')
-          .select('id')
-          .eq('name', 'Racing: Soft')
-          .single()
+          .select('id, name')
+
+        const allowedTyres = (parts || []).filter((part) =>
+          parseTyreCompound(part.name) !== null && !checkTyreAgainstRegulations(regulations, part.name)
+        )
+        const defaultTyre = allowedTyres.find((tyre) => tyre.name === 'Racing: Soft') || allowedTyres[0]
 
         if (defaultTyre) {
           const raceMembers = activeUsers.map((user, index) => ({
@@ -258,7 +346,7 @@ export async function POST(req: NextRequest) {
             // Admins can manually add members via UI
           }
         } else {
-          console.warn('Default tyre (Racing: Soft) not found, skipping auto-population')
+          console.warn('No tyre allowed by the regulations found, skipping auto-population')
         }
       }
     } catch (error) {
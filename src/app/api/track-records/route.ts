@@ -0,0 +1,62 @@
+/**
+ * Track Records API
+ *
+ * GET /api/track-records?trackId= - Current records at a track
+ *
+ * Purpose: Show who holds the overall and per-category record at a track
+ * - Records are maintained by POST /api/lap-times (update_track_records()) and
+ *   recomputed when a record lap is edited, deleted or removed by a dispute
+ *
+ * Query Parameters:
+ * - trackId: Track (required)
+ *
+ * Response:
+ * - records[]: TrackRecord + user, previousUser and the lap's car and build name;
+ *   overall record (category null) first, then by category
+ *
+ * Debugging Tips:
+ * - Empty: No laps at the track yet
+ * - previousUser null: First record in that scope, or records were rebuilt
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auth } from '@/lib/auth'
+import { TrackRecordListQuerySchema } from '@/lib/validation'
+import { handleApiError, UnauthorizedError } from '@/lib/api-error-handler'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { trackId } = TrackRecordListQuerySchema.parse(Object.fromEntries(searchParams))
+    const supabase = createServiceRoleClient()
+
+    const { data: records, error } = await supabase
+      .from('TrackRecord')
+      .select(`
+        *,
+        user:User!TrackRecord_userId_fkey(id, name, gamertag),
+        previousUser:User!TrackRecord_previousUserId_fkey(id, name, gamertag),
+        lapTime:LapTime(
+          id,
+          buildId,
+          buildName,
+          createdAt,
+          car:Car(id, name, manufacturer)
+        )
+      `)
+      .eq('trackId', trackId)
+      .order('category', { ascending: true, nullsFirst: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ records: records || [] })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Track Settings API
+ *
+ * PATCH /api/tracks/[id] - Configure a track's sector count (admin only)
+ *
+ * Purpose: Let admins decide how many sectors a track is split into
+ * - sectorCount 2-10 enables sector inputs for the track in LapTimeForm
+ * - sectorCount null turns sectors off (existing splits stay stored but are hidden)
+ *
+ * Request Body:
+ * - sectorCount: 2-10, or null
+ *
+ * Response:
+ * - track: Updated Track row
+ *
+ * Debugging Tips:
+ * - 403: Only admins can change track settings
+ * - Old splits missing from race detail: They were recorded with a different sector count
+ * - Form still shows old count: GET /api/tracks is cached for an hour
+ *
+ * Related Files:
+ * - @/lib/sectors.ts: Sector validation and race summary
+ * - @/app/admin/settings/page.tsx: Track sectors UI
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { isAdmin } from '@/lib/auth-utils'
+import { UpdateTrackSectorsSchema, validateBody } from '@/lib/validation'
+import { checkRateLimit, rateLimitHeaders, RateLimit } from '@/lib/rate-limit'
+import { logAdminAction } from '@/lib/audit-log'
+import {
+  handleApiError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@/lib/api-error-handler'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // ============================================================
+    // RATE LIMITING & AUTHORIZATION
+    // ============================================================
+
+    const rateLimit = await checkRateLimit(request, RateLimit.Mutation())
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError()
+    }
+    if (!isAdmin(session)) {
+      throw new ForbiddenError('Only admins can change track settings')
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validationResult = await validateBody(UpdateTrackSectorsSchema, body)
+    if (!validationResult.success) {
+      throw new ValidationError(validationResult.error)
+    }
+
+    // ============================================================
+    // UPDATE TRACK
+    // ============================================================
+
+    const supabase = createServiceRoleClient()
+    const { sectorCount } = validationResult.data
+
+    const { data: existing } = await supabase
+      .from('Track')
+      .select('id, sectorCount')
+      .eq('id', id)
+      .single()
+
+    if (!existing) {
+      throw new NotFoundError('Track')
+    }
+
+    const { data: track, error } = await supabase
+      .from('Track')
+      .update({ sectorCount })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    await logAdminAction({
+      adminId: session.user.id,
+      action: 'UPDATE_TRACK',
+      targetId: id,
+      targetType: 'Track',
+      details: { oldSectorCount: existing.sectorCount, newSectorCount: sectorCount },
+    })
+
+    return NextResponse.json({ track }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
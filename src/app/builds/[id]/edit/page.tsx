@@ -38,6 +38,8 @@
  * - showErrorDialog: Error dialog visibility
  * - showValidationDialog: Validation dialog visibility
  * - errorMessage: Error message to display
+ * - settingErrors: Server validation errors by settingId (highlighted in the tuning tab)
+ * - activeTab: Upgrades / Tuning tab (switches to Tuning when a setting is rejected)
  * - carName: Formatted car name (read-only display)
  * - selectedUserId: Creator ID (admin only)
  * - selectedUpgrades: Map of partId → boolean (checked state)
@@ -186,6 +188,7 @@ import {
 import { ArrowLeft, Save, Wrench, Settings } from 'lucide-react'
 import { BuildUpgradesTab } from '@/components/builds/BuildUpgradesTab'
 import { BuildTuningTab } from '@/components/builds/BuildTuningTab'
+import { getSettingErrors } from '@/lib/tuning-validation'
 import { LoadingSection } from '@/components/ui/loading'
 
 // ============================================================
@@ -260,6 +263,8 @@ interface Build {
   gear18: string | null
   gear19: string | null
   gear20: string | null
+  tyreSize: string | null
+  redlineRpm: number | null
 }
 
 export default function EditBuildPage({ params }: { params: Promise<{ id: string }> }) {
@@ -275,6 +280,8 @@ export default function EditBuildPage({ params }: { params: Promise<{ id: string
   // - showErrorDialog: Error dialog visibility
   // - showValidationDialog: Validation dialog visibility
   // - errorMessage: Error message to display
+  // - settingErrors: Server validation errors by settingId (cleared when the setting changes)
+  // - activeTab: Upgrades / Tuning tab
   //
   // Form fields:
   // - name: Build name
@@ -304,6 +311,8 @@ export default function EditBuildPage({ params }: { params: Promise<{ id: string
   const [showErrorDialog, setShowErrorDialog] = useState(false)
   const [showValidationDialog, setShowValidationDialog] = useState(false)
   const [errorMessage, setErrorMessage] = useState('')
+  const [settingErrors, setSettingErrors] = useState<Record<string, string>>({})
+  const [activeTab, setActiveTab] = useState('upgrades')
 
   // Form fields
   const [name, setName] = useState('')
@@ -440,6 +449,11 @@ export default function EditBuildPage({ params }: { params: Promise<{ id: string
           }
         }
       }
+      // Gearing calculator inputs live alongside the gears (sent back as strings)
+      if (data.tyreSize) gearsData.tyreSize = data.tyreSize
+      if (data.redlineRpm !== null && data.redlineRpm !== undefined) {
+        gearsData.redlineRpm = String(data.redlineRpm)
+      }
       setGears(gearsData)
       // Store original values for reset functionality (deep copy)
       setOriginalGears(structuredClone(gearsData))
@@ -480,11 +494,22 @@ export default function EditBuildPage({ params }: { params: Promise<{ id: string
   // FORM HANDLERS - TUNING
   // ============================================================
   // Update tuning setting value
+  // Editing a rejected setting clears its error
+  const clearSettingError = (settingId: string) => {
+    setSettingErrors((prev) => {
+      if (!prev[settingId]) return prev
+      const updated = { ...prev }
+      delete updated[settingId]
+      return updated
+    })
+  }
+
   const handleTuningSetting = (settingId: string, value: string) => {
     setTuningSettings((prev) => ({
       ...prev,
       [settingId]: value,
     }))
+    clearSettingError(settingId)
   }
 
   const handleTuningSettingDelete = (settingId: string) => {
@@ -493,6 +518,7 @@ export default function EditBuildPage({ params }: { params: Promise<{ id: string
       delete updated[settingId]
       return updated
     })
+    clearSettingError(settingId)
   }
 
   // ============================================================
@@ -584,6 +610,17 @@ export default function EditBuildPage({ params }: { params: Promise<{ id: string
       })
 
       if (!response.ok) {
+        // Setting values outside their TuningSetting rules come back per setting
+        const data = await response.json().catch(() => ({}))
+        const rejected = getSettingErrors(data.errors)
+        if (Object.keys(rejected).length > 0) {
+          setSettingErrors(rejected)
+          setActiveTab('tuning')
+          setErrorMessage(`${Object.keys(rejected).length} tuning setting(s) are invalid - fix the highlighted fields and save again`)
+          setShowErrorDialog(true)
+          setSaving(false)
+          return
+        }
         throw new Error('Failed to update build')
       }
 
@@ -712,7 +749,7 @@ export default function EditBuildPage({ params }: { params: Promise<{ id: string
       </Card>
 
       {/* Upgrades and Tuning Tabs */}
-      <Tabs defaultValue="upgrades" className="w-full">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <TabsList className="grid w-full grid-cols-2">
           <TabsTrigger value="upgrades" type="button">
             <Wrench className="h-4 w-4 mr-2" />
@@ -746,6 +783,7 @@ export default function EditBuildPage({ params }: { params: Promise<{ id: string
             visibleGearCount={visibleGearCount}
             originalTuningSettings={originalTuningSettings}
             originalGears={originalGears}
+            settingErrors={settingErrors}
           />
         </TabsContent>
       </Tabs>
@@ -19,8 +19,14 @@
  * - Tuning settings: Grouped by section with custom values and gear ratios
  * - Gear ratios: Special handling for transmission (gears 1-20 + final drive)
  * - Clone functionality: Create a copy of the build
+ * - Compare functionality: Open /builds/compare with this build pre-selected
+ * - Share functionality: Setup code + JSON export (BuildShareDialog)
+ * - Copy Setup: Copy chosen sections/categories onto other builds, save as template
+ * - Templates: Apply a saved template to this build (preview, then overwrite)
  * - Edit functionality: Navigate to edit page
  * - Delete functionality: Delete with confirmation dialog
+ * - Race & Lap History: Races, per-track lap stats and drivers (BuildUsage component)
+ * - History: Revision timeline with diff and restore (BuildHistory component)
  *
  * **Data Flow:**
  * 1. Page loads → params.id extracted → fetchBuild(buildId) called
@@ -39,6 +45,8 @@
  * - cloning: Loading state during clone
  * - showDeleteDialog: Delete confirmation dialog visibility
  * - showErrorDialog: Error dialog visibility
+ * - showShareDialog: Share (export) dialog visibility
+ * - showCopySetupDialog / showTemplateDialog: Copy setup / apply template dialogs
  * - errorMessage: Error message to display
  * - tuningSettingsMetadata: Map of setting ID → metadata (input type, unit, etc.)
  *
@@ -114,12 +122,13 @@
  * **Page Layout:**
  * - PageWrapper: Standard container with padding
  * - Back button: Navigates to /builds
- * - Build header: Name, badge, description, action buttons (Clone, Edit, Delete)
+ * - Build header: Name, badge, description, action buttons (Clone, Share, Compare, Edit, Delete)
  * - Car info: Manufacturer, name (link to car), creator, dates
  * - Statistics: Grid of 4 stat cards (if data available)
  * - Upgrades card: Grouped by category, 2-column grid
  * - Tuning settings card: Grouped by section, 2-column grid (transmission single column)
  * - Empty state: "No upgrades or tuning settings configured"
+ * - History card: Revision timeline with diff and restore (if revisions exist)
  * - Dialogs: Delete confirmation, error display
  *
  * **Styling:**
@@ -133,6 +142,7 @@
  * **Navigation:**
  * - Back: /builds (from back button)
  * - Edit: /builds/[id]/edit (from edit button)
+ * - Compare: /builds/compare?ids=[id] (from compare button)
  * - Car: /cars/[slug] (from car name link)
  * - Clone: /builds/[new-id] (after clone)
  *
@@ -159,6 +169,8 @@
  * - @/app/builds/[id]/edit/page.tsx: Edit build page
  * - @/app/api/builds/[id]/route.ts: Build details API endpoint
  * - @/app/api/builds/[id]/clone/route.ts: Clone build API endpoint
+ * - @/components/builds/BuildUsage.tsx: Race & lap history card
+ * - @/components/builds/BuildHistory.tsx: Revision history card
  * - @/lib/time: formatLapTime helper function
  * - @/components/ui: Card, Button, Badge, Dialog components
  */
@@ -196,8 +208,17 @@ import {
   Edit,
   Trophy,
   Settings,
+  Columns3,
+  Share2,
+  ClipboardCopy,
+  LayoutTemplate,
 } from 'lucide-react'
 import { ToeInIcon, ToeOutIcon, ToeStraightIcon } from '@/components/icons/ToeIcons'
+import { BuildHistory } from '@/components/builds/BuildHistory'
+import { BuildUsage } from '@/components/builds/BuildUsage'
+import { BuildShareDialog } from '@/components/builds/BuildShareDialog'
+import { BuildCopySetupDialog } from '@/components/builds/BuildCopySetupDialog'
+import { BuildApplyTemplateDialog } from '@/components/builds/BuildApplyTemplateDialog'
 import { formatLapTime } from '@/lib/time'
 import { LoadingSection } from '@/components/ui/loading'
 import { PageWrapper } from '@/components/layout'
@@ -347,6 +368,9 @@ export default function BuildDetailPage({ params }: { params: Promise<{ id: stri
   const [cloning, setCloning] = useState(false)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [showErrorDialog, setShowErrorDialog] = useState(false)
+  const [showShareDialog, setShowShareDialog] = useState(false)
+  const [showCopySetupDialog, setShowCopySetupDialog] = useState(false)
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false)
   const [errorMessage, setErrorMessage] = useState('')
   const [tuningSettingsMetadata, setTuningSettingsMetadata] = useState<Record<string, TuningSettingMetadata>>({})
 
@@ -824,6 +848,42 @@ export default function BuildDetailPage({ params }: { params: Promise<{ id: stri
               <Copy className="h-4 w-4 mr-2" />
               {cloning ? 'Cloning...' : 'Clone'}
             </Button>
+            <Button
+              variant="ghostBordered"
+              size="sm"
+              onClick={() => setShowShareDialog(true)}
+              className="w-full sm:w-auto min-h-[44px]"
+            >
+              <Share2 className="h-4 w-4 mr-2" />
+              Share
+            </Button>
+            <Button
+              variant="ghostBordered"
+              size="sm"
+              onClick={() => setShowCopySetupDialog(true)}
+              className="w-full sm:w-auto min-h-[44px]"
+            >
+              <ClipboardCopy className="h-4 w-4 mr-2" />
+              Copy Setup
+            </Button>
+            <Button
+              variant="ghostBordered"
+              size="sm"
+              onClick={() => setShowTemplateDialog(true)}
+              className="w-full sm:w-auto min-h-[44px]"
+            >
+              <LayoutTemplate className="h-4 w-4 mr-2" />
+              Templates
+            </Button>
+            <Button
+              variant="ghostBordered"
+              size="sm"
+              onClick={() => router.push(`/builds/compare?ids=${id}`)}
+              className="w-full sm:w-auto min-h-[44px]"
+            >
+              <Columns3 className="h-4 w-4 mr-2" />
+              Compare
+            </Button>
             <Button
               variant="ghostBordered"
               size="sm"
@@ -1034,6 +1094,38 @@ export default function BuildDetailPage({ params }: { params: Promise<{ id: stri
           </Card>
         )}
 
+      {/* Usage Card */}
+      {/* - Races using this build, per-track lap stats and drivers (hidden if unused) */}
+      <BuildUsage buildId={id} />
+
+      {/* History Card */}
+      {/* - Revision timeline, diff between two revisions, restore */}
+      {/* - Restore refetches the build so cards above show the restored setup */}
+      <BuildHistory buildId={id} onRestored={() => fetchBuild(id)} />
+
+      {/* Share Dialog */}
+      {/* - Setup code (copy) and JSON download */}
+      <BuildShareDialog buildId={id} open={showShareDialog} onOpenChange={setShowShareDialog} />
+
+      {/* Copy Setup Dialog */}
+      {/* - Chosen sections/categories → other builds (preview first), or save as template */}
+      <BuildCopySetupDialog
+        buildId={id}
+        upgradeCategories={build.upgrades.map((u) => u.category)}
+        settingSections={build.settings.map((s) => s.section)}
+        open={showCopySetupDialog}
+        onOpenChange={setShowCopySetupDialog}
+      />
+
+      {/* Apply Template Dialog */}
+      {/* - Applying refetches the build so the cards show the new setup */}
+      <BuildApplyTemplateDialog
+        buildId={id}
+        open={showTemplateDialog}
+        onOpenChange={setShowTemplateDialog}
+        onApplied={() => fetchBuild(id)}
+      />
+
       {/* Delete Confirmation Dialog */}
       {/* - Warning: "This action cannot be undone" */}
       {/* - Shows build name and car info */}
@@ -0,0 +1,467 @@
+/**
+ * Build Comparison Page
+ *
+ * Purpose: Compare 2-4 builds side by side before race night
+ * - URL driven: /builds/compare?ids=a,b,c (shareable, bookmarkable)
+ * - Parts lined up by PartCategory, tuning settings by TuningSection, then gear ratios
+ * - Rows where the builds differ are highlighted
+ * - Best lap per track for each build (fastest build per track highlighted)
+ *
+ * **Key Features:**
+ * - Build picker: BuildSelector with public + own builds, max 4
+ * - Differences only: Toggle to hide rows where every build has the same value
+ * - Different cars: Warning banner (comparison still allowed)
+ * - Missing values: "-" when a build doesn't have a part/setting at all
+ *
+ * **Data Flow:**
+ * 1. Page loads → ids read from ?ids= → selectedIds state
+ * 2. Parallel fetch (once): part categories, tuning sections, tuning settings, pickable builds
+ * 3. When 2+ ids selected: GET /api/builds/compare?ids= → builds with snapshots + best laps
+ * 4. Picker changes → router.replace() updates ?ids= → refetch comparison
+ *
+ * **Row Ordering:**
+ * - Parts: PartCategory.displayOrder (GET /api/parts/categories), then part name
+ * - Settings: TuningSection order (GET /api/tuning-settings/sections), then TuningSetting.displayOrder
+ * - Custom gears (settingId NULL) sort after catalog settings in Transmission
+ * - Gear ratios: 1st-20th then Final Drive
+ * - Best laps: Track name
+ *
+ * **API Integration:**
+ * - GET /api/builds/compare?ids=: Builds with snapshot + bestLaps
+ * - GET /api/parts/categories: Category ordering
+ * - GET /api/tuning-settings/sections: Section ordering (same order as the build editor)
+ * - GET /api/tuning-settings: Setting ordering within a section
+ * - GET /api/builds?public=true + ?myBuilds=true: Builds for the picker
+ *
+ * **Debugging Tips:**
+ * - 403 error: One of the builds in the URL is private and not yours
+ * - Row in wrong section: CarBuildSetting.category must match TuningSection.name
+ * - Section missing from order: Unknown sections sort last (alphabetically)
+ *
+ * **Related Files:**
+ * - @/app/api/builds/compare/route.ts: Comparison API
+ * - @/lib/build-snapshot.ts: BuildSnapshot format, gear field order
+ * - @/components/builds/BuildSelector.tsx: Build picker
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { BuildSelector } from '@/components/builds/BuildSelector'
+import { ArrowLeft, AlertTriangle, Columns3 } from 'lucide-react'
+import { BUILD_GEAR_FIELDS, getGearLabel } from '@/lib/build-snapshot'
+import { formatLapTime } from '@/lib/time'
+import { cn } from '@/lib/utils'
+import type { BuildSnapshot, DbPartCategory, DbTuningSection, DbTuningSetting } from '@/types/database'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface CompareBuild {
+  id: string
+  name: string
+  isPublic: boolean
+  user: { id: string; name: string | null; gamertag: string | null } | null
+  car: { id: string; name: string; slug: string; manufacturer: string; year: number | null }
+  snapshot: BuildSnapshot
+  bestLaps: Array<{
+    track: { id: string; name: string; slug: string; layout: string | null }
+    timeMs: number
+  }>
+}
+
+interface PickerBuild {
+  id: string
+  name: string
+  description: string | null
+  isPublic: boolean
+  car: { id: string; name: string; slug: string; manufacturer: string; year?: number }
+}
+
+interface CompareRow {
+  key: string
+  label: string
+  values: (string | null)[]
+  differs: boolean
+  // Index of the "best" value to highlight (best laps only)
+  bestIndex?: number
+}
+
+interface CompareGroup {
+  title: string
+  rows: CompareRow[]
+}
+
+const MAX_COMPARE_BUILDS = 4
+
+function makeRow(key: string, label: string, values: (string | null)[]): CompareRow {
+  return { key, label, values, differs: new Set(values).size > 1 }
+}
+
+export default function CompareBuildsPage() {
+  // ============================================================
+  // STATE
+  // ============================================================
+
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const selectedIds = useMemo(
+    () => (searchParams.get('ids') || '').split(',').filter(Boolean).slice(0, MAX_COMPARE_BUILDS),
+    [searchParams]
+  )
+
+  const [builds, setBuilds] = useState<CompareBuild[]>([])
+  const [pickerBuilds, setPickerBuilds] = useState<PickerBuild[]>([])
+  const [pickerLoading, setPickerLoading] = useState(true)
+  const [categories, setCategories] = useState<DbPartCategory[]>([])
+  const [sections, setSections] = useState<DbTuningSection[]>([])
+  const [tuningSettings, setTuningSettings] = useState<DbTuningSetting[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [differencesOnly, setDifferencesOnly] = useState(false)
+
+  // ============================================================
+  // DATA FETCHING - ORDERING METADATA & PICKER
+  // ============================================================
+  // Fetched once on mount; section order comes from the same endpoint
+  // the build editor uses so both pages list sections identically
+  // ============================================================
+
+  useEffect(() => {
+    const fetchMetadata = async () => {
+      try {
+        const [categoriesRes, sectionsRes, settingsRes, publicRes, mineRes] = await Promise.all([
+          fetch('/api/parts/categories'),
+          fetch('/api/tuning-settings/sections'),
+          fetch('/api/tuning-settings'),
+          fetch('/api/builds?public=true'),
+          fetch('/api/builds?myBuilds=true'),
+        ])
+
+        if (categoriesRes.ok) setCategories((await categoriesRes.json()).categories || [])
+        if (sectionsRes.ok) setSections((await sectionsRes.json()).sections || [])
+        if (settingsRes.ok) setTuningSettings((await settingsRes.json()).settings || [])
+
+        // Public + own builds, de-duplicated (own public builds appear in both)
+        const publicBuilds: PickerBuild[] = publicRes.ok ? (await publicRes.json()).builds || [] : []
+        const myBuilds: PickerBuild[] = mineRes.ok ? (await mineRes.json()).builds || [] : []
+        const byId = new Map([...myBuilds, ...publicBuilds].map((b) => [b.id, b]))
+        setPickerBuilds([...byId.values()])
+      } catch (err) {
+        console.error('Error fetching comparison metadata:', err)
+      } finally {
+        setPickerLoading(false)
+      }
+    }
+
+    fetchMetadata()
+  }, [])
+
+  // ============================================================
+  // DATA FETCHING - COMPARISON
+  // ============================================================
+
+  useEffect(() => {
+    if (selectedIds.length < 2) {
+      setBuilds([])
+      setError(null)
+      return
+    }
+
+    const fetchComparison = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const res = await fetch(`/api/builds/compare?ids=${selectedIds.join(',')}`)
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load builds')
+        setBuilds(data.builds || [])
+      } catch (err) {
+        setBuilds([])
+        setError(err instanceof Error ? err.message : 'Failed to load builds')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchComparison()
+  }, [selectedIds])
+
+  const handleBuildsChange = (ids: string[]) => {
+    const next = ids.slice(0, MAX_COMPARE_BUILDS)
+    router.replace(next.length > 0 ? `/builds/compare?ids=${next.join(',')}` : '/builds/compare')
+  }
+
+  // ============================================================
+  // DERIVED STATE - COMPARISON ROWS
+  // ============================================================
+  // One group per PartCategory / TuningSection (in catalog order),
+  // then gear ratios and best laps. Every row has one value per build.
+  // ============================================================
+
+  const groups = useMemo<CompareGroup[]>(() => {
+    if (builds.length === 0) return []
+
+    const categoryOrder = new Map(categories.map((c) => [c.name, c.displayOrder]))
+    const sectionOrder = new Map(sections.map((s, index) => [s.name, index]))
+    const settingOrder = new Map(tuningSettings.map((s) => [s.id, s.displayOrder ?? 0]))
+    const orderOf = (order: Map<string, number>, name: string) => order.get(name) ?? Number.MAX_SAFE_INTEGER
+
+    const result: CompareGroup[] = []
+
+    // Parts: keyed by partId
+    const partGroups = new Map<string, Map<string, string>>()
+    for (const build of builds) {
+      for (const u of build.snapshot.upgrades) {
+        const rows = partGroups.get(u.category) ?? new Map<string, string>()
+        rows.set(u.partId, u.part)
+        partGroups.set(u.category, rows)
+      }
+    }
+
+    const sortedCategories = [...partGroups.keys()].sort(
+      (a, b) => orderOf(categoryOrder, a) - orderOf(categoryOrder, b) || a.localeCompare(b)
+    )
+    for (const category of sortedCategories) {
+      const rows = [...partGroups.get(category)!.entries()]
+        .sort((a, b) => a[1].localeCompare(b[1]))
+        .map(([partId, label]) => makeRow(
+          `part:${partId}`,
+          label,
+          builds.map((b) => {
+            const upgrade = b.snapshot.upgrades.find((u) => u.partId === partId)
+            return upgrade ? upgrade.value || 'Installed' : null
+          })
+        ))
+      result.push({ title: category, rows })
+    }
+
+    // Settings: keyed by settingId (custom gears by name)
+    const settingKey = (s: BuildSnapshot['settings'][number]) => s.settingId || `custom:${s.setting}`
+    const settingGroups = new Map<string, Map<string, { label: string; settingId: string | null }>>()
+    for (const build of builds) {
+      for (const s of build.snapshot.settings) {
+        const rows = settingGroups.get(s.category) ?? new Map()
+        rows.set(settingKey(s), { label: s.setting, settingId: s.settingId })
+        settingGroups.set(s.category, rows)
+      }
+    }
+
+    const sortedSections = [...settingGroups.keys()].sort(
+      (a, b) => orderOf(sectionOrder, a) - orderOf(sectionOrder, b) || a.localeCompare(b)
+    )
+    for (const section of sortedSections) {
+      const rows = [...settingGroups.get(section)!.entries()]
+        .sort((a, b) =>
+          (a[1].settingId ? orderOf(settingOrder, a[1].settingId) : Number.MAX_SAFE_INTEGER) -
+          (b[1].settingId ? orderOf(settingOrder, b[1].settingId) : Number.MAX_SAFE_INTEGER) ||
+          a[1].label.localeCompare(b[1].label)
+        )
+        .map(([key, { label }]) => makeRow(
+          `setting:${key}`,
+          label,
+          builds.map((b) => b.snapshot.settings.find((s) => settingKey(s) === key)?.value ?? null)
+        ))
+      result.push({ title: section, rows })
+    }
+
+    // Gear ratios: only gears at least one build has set
+    const gearRows = BUILD_GEAR_FIELDS
+      .filter((field) => builds.some((b) => b.snapshot.gears[field]))
+      .map((field) => makeRow(
+        `gear:${field}`,
+        getGearLabel(field),
+        builds.map((b) => b.snapshot.gears[field] || null)
+      ))
+    if (gearRows.length > 0) {
+      result.push({ title: 'Gear Ratios', rows: gearRows })
+    }
+
+    // Best laps: one row per track any build has a lap on
+    const tracks = new Map<string, string>()
+    for (const build of builds) {
+      for (const lap of build.bestLaps) {
+        const layout = lap.track.layout ? ` - ${lap.track.layout}` : ''
+        tracks.set(lap.track.id, `${lap.track.name}${layout}`)
+      }
+    }
+    const lapRows = [...tracks.entries()]
+      .sort((a, b) => a[1].localeCompare(b[1]))
+      .map(([trackId, label]) => {
+        const times = builds.map((b) => b.bestLaps.find((l) => l.track.id === trackId)?.timeMs ?? null)
+        const recorded = times.filter((t): t is number => t !== null)
+        const fastest = Math.min(...recorded)
+        return {
+          ...makeRow(`lap:${trackId}`, label, times.map((t) => (t === null ? null : formatLapTime(t)))),
+          bestIndex: recorded.length > 1 ? times.indexOf(fastest) : undefined,
+        }
+      })
+    if (lapRows.length > 0) {
+      result.push({ title: 'Best Laps', rows: lapRows })
+    }
+
+    return result
+  }, [builds, categories, sections, tuningSettings])
+
+  const visibleGroups = useMemo(() => {
+    if (!differencesOnly) return groups
+    return groups
+      .map((group) => ({ ...group, rows: group.rows.filter((row) => row.differs) }))
+      .filter((group) => group.rows.length > 0)
+  }, [groups, differencesOnly])
+
+  const differenceCount = groups.reduce(
+    (sum, group) => sum + group.rows.filter((row) => row.differs && !row.key.startsWith('lap:')).length,
+    0
+  )
+  const mixedCars = new Set(builds.map((b) => b.car.id)).size > 1
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  return (
+    <PageWrapper>
+      <Button variant="ghostBordered" size="sm" asChild className="w-fit min-h-[44px]">
+        <Link href="/builds">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Builds
+        </Link>
+      </Button>
+
+      <PageHeader
+        title="COMPARE BUILDS"
+        icon={Columns3}
+        description={
+          builds.length > 0
+            ? `${differenceCount} ${differenceCount === 1 ? 'difference' : 'differences'} across ${builds.length} builds`
+            : `Pick 2-${MAX_COMPARE_BUILDS} builds to compare`
+        }
+      />
+
+      {/* Build Picker */}
+      {/* - Public builds + your own builds */}
+      {/* - Selection is stored in the URL (?ids=) */}
+      <BuildSelector
+        selectedBuilds={selectedIds}
+        onBuildsChange={handleBuildsChange}
+        builds={pickerBuilds}
+        buildsLoading={pickerLoading}
+        placeholder="Add a build to compare..."
+      />
+
+      {selectedIds.length < 2 ? (
+        <EmptyState
+          icon={Columns3}
+          title="Select at least two builds"
+          description="Builds are lined up part by part, setting by setting"
+        />
+      ) : loading ? (
+        <LoadingSection text="Loading builds..." />
+      ) : error ? (
+        <EmptyState icon={AlertTriangle} title={error} />
+      ) : (
+        <>
+          {mixedCars && (
+            <div className="flex items-center gap-2 p-3 border border-border rounded-lg text-sm">
+              <AlertTriangle className="h-4 w-4 text-primary shrink-0" />
+              These builds are for different cars - values may not be directly comparable.
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="differences-only"
+              checked={differencesOnly}
+              onCheckedChange={setDifferencesOnly}
+            />
+            <Label htmlFor="differences-only">Differences only</Label>
+          </div>
+
+          {/* Comparison Table */}
+          {/* - Sticky first column with the row label */}
+          {/* - Differing rows: highlighted background, values in primary colour */}
+          {/* - Best laps: fastest build per track in bold primary */}
+          <div className="overflow-x-auto border border-border rounded-lg">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="sticky left-0 bg-background text-left p-3 min-w-[160px]" />
+                  {builds.map((build) => (
+                    <th key={build.id} className="text-left p-3 min-w-[160px] align-top">
+                      <Link href={`/builds/${build.id}`} className="font-semibold gt-hover-text-link">
+                        {build.name}
+                      </Link>
+                      <p className="text-xs font-normal text-muted-foreground">
+                        {build.car.manufacturer} {build.car.name}
+                      </p>
+                      {build.user && (
+                        <p className="text-xs font-normal text-muted-foreground">
+                          by {build.user.gamertag || build.user.name}
+                        </p>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleGroups.map((group) => (
+                  <CompareGroupRows key={group.title} group={group} columns={builds.length} />
+                ))}
+              </tbody>
+            </table>
+            {visibleGroups.length === 0 && (
+              <p className="p-6 text-center text-muted-foreground">
+                {differencesOnly ? 'These builds are identical' : 'No parts or settings configured'}
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </PageWrapper>
+  )
+}
+
+function CompareGroupRows({ group, columns }: { group: CompareGroup; columns: number }) {
+  return (
+    <>
+      <tr className="border-b border-border bg-muted/50">
+        <td colSpan={columns + 1} className="p-2 px-3 font-semibold text-primary">
+          {group.title}
+        </td>
+      </tr>
+      {group.rows.map((row) => (
+        <tr
+          key={row.key}
+          className={cn('border-b border-border', row.differs && 'bg-primary/10')}
+        >
+          <td className="sticky left-0 bg-background p-3 text-muted-foreground">{row.label}</td>
+          {row.values.map((value, index) => (
+            <td
+              key={index}
+              className={cn(
+                'p-3 font-mono',
+                row.differs && value !== null && 'text-primary',
+                row.bestIndex === index && 'font-bold'
+              )}
+            >
+              {value ?? <span className="text-muted-foreground">-</span>}
+              {row.bestIndex === index && (
+                <Badge variant="outline" className="ml-2 font-sans">Fastest</Badge>
+              )}
+            </td>
+          ))}
+        </tr>
+      ))}
+    </>
+  )
+}
@@ -19,6 +19,7 @@
  * - Upgrades tab: Checkboxes for parts by category
  * - Tuning tab: Custom settings + gear ratios
  * - Validation: Client-side validation before submit
+ * - Import: Pre-fill the form from a setup code or JSON export (BuildImportDialog)
  * - Success: Redirect to /builds/[id] on create
  *
  * **Form Flow:**
@@ -97,6 +98,12 @@
  * - Use case: "Create build" button on car detail page
  * - Code: searchParams.get('carId') in useEffect
  *
+ * **Import Flow:**
+ * 1. User clicks Import → BuildImportDialog → POST /api/builds/import
+ * 2. Matched car, name, description, parts, settings and gears replace the form values
+ * 3. Unmatched items (car, parts, settings) listed in a warning card above the form
+ * 4. User reviews, picks a car if it wasn't matched, and saves as usual
+ *
  * **Tabs Component:**
  * - Two tabs: Upgrades & Parts, Tuning Settings
  * - Icons: Wrench (upgrades), Settings (tuning)
@@ -146,6 +153,7 @@
  * - @/app/builds/[id]/edit/page.tsx: Edit build page
  * - @/components/builds/BuildUpgradesTab: Upgrades tab component
  * - @/components/builds/BuildTuningTab: Tuning tab component
+ * - @/components/builds/BuildImportDialog: Setup code / JSON import dialog
  * - @/lib/dropdown-helpers: formatCarOptions helper
  * - @/app/api/builds/route.ts: Create build API endpoint
  */
@@ -181,9 +189,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { ArrowLeft, Save, Wrench, Settings } from 'lucide-react'
+import { ArrowLeft, Save, Wrench, Settings, Upload, AlertTriangle, X } from 'lucide-react'
 import { BuildUpgradesTab } from '@/components/builds/BuildUpgradesTab'
 import { BuildTuningTab } from '@/components/builds/BuildTuningTab'
+import { getSettingErrors } from '@/lib/tuning-validation'
+import { BuildImportDialog, type ImportedBuild } from '@/components/builds/BuildImportDialog'
+import type { BuildImportIssue } from '@/lib/build-export'
 import { LoadingSection } from '@/components/ui/loading'
 import { formatCarOptions } from '@/lib/dropdown-helpers'
 import type { DbCar } from '@/types/database'
@@ -217,6 +228,10 @@ export default function NewBuildPage() {
   // - showErrorDialog: Error dialog visibility
   // - showValidationDialog: Validation dialog visibility
   // - errorMessage: Error message to display
+  // - settingErrors: Server validation errors by settingId (cleared when the setting changes)
+  // - activeTab: Upgrades / Tuning tab (switches to Tuning when a setting is rejected)
+  // - showImportDialog: Import dialog visibility
+  // - importIssues: Items from the last import that could not be matched
   //
   // Form fields:
   // - carId: Selected car ID
@@ -247,6 +262,10 @@ export default function NewBuildPage() {
   const [showErrorDialog, setShowErrorDialog] = useState(false)
   const [showValidationDialog, setShowValidationDialog] = useState(false)
   const [errorMessage, setErrorMessage] = useState('')
+  const [settingErrors, setSettingErrors] = useState<Record<string, string>>({})
+  const [activeTab, setActiveTab] = useState('upgrades')
+  const [showImportDialog, setShowImportDialog] = useState(false)
+  const [importIssues, setImportIssues] = useState<BuildImportIssue[]>([])
 
   // Form fields
   const [carId, setCarId] = useState('')
@@ -440,6 +459,16 @@ export default function NewBuildPage() {
   // ============================================================
   // FORM HANDLERS - TUNING
   // ============================================================
+  // Editing a rejected setting clears its error
+  const clearSettingError = (settingId: string) => {
+    setSettingErrors((prev) => {
+      if (!prev[settingId]) return prev
+      const updated = { ...prev }
+      delete updated[settingId]
+      return updated
+    })
+  }
+
   // Update tuning setting value
   // - settingId: Setting ID to update
   // - value: New value
@@ -450,6 +479,7 @@ export default function NewBuildPage() {
       ...prev,
       [settingId]: value,
     }))
+    clearSettingError(settingId)
   }
 
   // Delete tuning setting
@@ -462,6 +492,7 @@ export default function NewBuildPage() {
       delete updated[settingId]
       return updated
     })
+    clearSettingError(settingId)
   }
 
   // ============================================================
@@ -504,6 +535,49 @@ export default function NewBuildPage() {
     }
   }
 
+  // ============================================================
+  // IMPORT
+  // ============================================================
+  // Replace the form with an imported build
+  // - Car: Only replaced if matched (otherwise the user picks one)
+  // - Upgrades: Part defaults kept, imported parts layered on top
+  //   (checkbox parts have value null → true)
+  // - Settings/gears: Replaced entirely
+  // - Unmatched items: Kept in importIssues and shown until dismissed
+  const handleImported = (imported: ImportedBuild, unmatched: BuildImportIssue[]) => {
+    if (imported.car) {
+      setCarId(imported.car.id)
+    }
+    setName(imported.name)
+    setDescription(imported.description || '')
+
+    setSelectedUpgrades((prev) => {
+      const next = { ...prev }
+      for (const upgrade of imported.upgrades) {
+        next[upgrade.partId] = upgrade.value ?? true
+      }
+      return next
+    })
+
+    setTuningSettings(Object.fromEntries(
+      imported.settings.map((setting) => [setting.settingId, setting.value])
+    ))
+
+    const importedGears: Record<string, string> = { finalDrive: '' }
+    let highestGear = 6
+    for (const [field, value] of Object.entries(imported.gears)) {
+      if (!value) continue
+      importedGears[field] = value
+      if (field.startsWith('gear')) {
+        highestGear = Math.max(highestGear, parseInt(field.replace('gear', ''), 10))
+      }
+    }
+    setGears(importedGears)
+    setVisibleGearCount(highestGear)
+
+    setImportIssues(unmatched)
+  }
+
   // ============================================================
   // FORM SUBMISSION
   // ============================================================
@@ -566,6 +640,17 @@ export default function NewBuildPage() {
       })
 
       if (!response.ok) {
+        // Setting values outside their TuningSetting rules come back per setting
+        const data = await response.json().catch(() => ({}))
+        const rejected = getSettingErrors(data.errors)
+        if (Object.keys(rejected).length > 0) {
+          setSettingErrors(rejected)
+          setActiveTab('tuning')
+          setErrorMessage(`${Object.keys(rejected).length} tuning setting(s) are invalid - fix the highlighted fields and save again`)
+          setShowErrorDialog(true)
+          setSaving(false)
+          return
+        }
         throw new Error('Failed to create build')
       }
 
@@ -611,12 +696,71 @@ export default function NewBuildPage() {
           <Wrench className="h-8 w-8 text-primary" />
           CREATE NEW BUILD
         </h1>
-        <Button type="submit" disabled={saving} className="w-full sm:w-auto min-h-[44px]">
-          <Save className="h-4 w-4 mr-2" />
-          {saving ? 'Saving...' : 'Save Build'}
-        </Button>
+        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+          <Button
+            type="button"
+            variant="ghostBordered"
+            onClick={() => setShowImportDialog(true)}
+            disabled={saving}
+            className="w-full sm:w-auto min-h-[44px]"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button type="submit" disabled={saving} className="w-full sm:w-auto min-h-[44px]">
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Build'}
+          </Button>
+        </div>
       </div>
 
+      {/* Import Issues */}
+      {/* - Shown after an import with items that couldn't be matched to the catalog */}
+      {/* - Each item: type, category/section, name, value, reason */}
+      {/* - Dismissable: Cleared with the X button */}
+      {importIssues.length > 0 && (
+        <Card className="border-destructive">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-destructive" />
+                  {importIssues.length} {importIssues.length === 1 ? 'item' : 'items'} not imported
+                </CardTitle>
+                <CardDescription>
+                  These couldn&apos;t be matched to this site&apos;s catalog - set them manually if needed
+                </CardDescription>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setImportIssues([])}
+                aria-label="Dismiss import issues"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {importIssues.map((issue, index) => (
+              <div
+                key={`${issue.type}-${index}`}
+                className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 px-3 py-2 border border-border rounded text-sm"
+              >
+                <span>
+                  <span className="text-muted-foreground capitalize">{issue.type}</span>
+                  {issue.category && <span className="text-muted-foreground"> · {issue.category}</span>}
+                  {' · '}{issue.name}
+                  {issue.value && <span className="font-mono text-primary"> = {issue.value}</span>}
+                </span>
+                <span className="text-xs text-muted-foreground">{issue.reason}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Basic Info Card */}
       <Card>
         <CardHeader>
@@ -720,7 +864,7 @@ export default function NewBuildPage() {
       {/* - Two tabs: Upgrades & Parts, Tuning Settings */}
       {/* - Full width: Grid layout (2 columns) */}
       {/* - Controlled components: State managed by parent */}
-      <Tabs defaultValue="upgrades" className="w-full">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <TabsList className="grid w-full grid-cols-2">
           <TabsTrigger value="upgrades">
             <Wrench className="h-4 w-4 mr-2" />
@@ -760,6 +904,7 @@ export default function NewBuildPage() {
             visibleGearCount={visibleGearCount}
             originalTuningSettings={tuningSettings}  // For new builds, current = original
             originalGears={gears}  // For new builds, current = original
+            settingErrors={settingErrors}
           />
         </TabsContent>
       </Tabs>
@@ -774,6 +919,15 @@ export default function NewBuildPage() {
         </Button>
       </div>
 
+      {/* Import Dialog */}
+      {/* - Paste setup code / JSON or choose a .json file */}
+      {/* - On success: handleImported() pre-fills the form */}
+      <BuildImportDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        onImported={handleImported}
+      />
+
       {/* Validation Dialog */}
       {/* - Shows: When car or name is empty */}
       {/* - Message: "Please select a car and enter a build name before saving" */}
@@ -2,32 +2,39 @@
  * Builds Listing Page
  *
  * Purpose: Main page for viewing and managing car builds
- * - Lists all builds with search and filtering capabilities
+ * - Lists builds with server-side search, facets, sorting and pagination
  * - Supports public/private builds with visibility badges
  * - Edit and delete functionality for owned builds
  * - Navigate to build details and creation
  *
  * **Key Features:**
- * - Search: Full-text search across build name, description, car, creator
- * - Filters: All builds, Public only, My builds
+ * - Search: Full-text (prefix) search across build name, description, car
+ * - Filters: All builds, Public only, My builds, estimated PP range
+ * - Facets: Manufacturer, category, drive type (with match counts), has laps at a track
+ * - Sort: Most recent, most used in races, fastest lap
+ * - Pagination: 20 builds per page
  * - Build cards: Display name, car info, creator, visibility badge
  * - Action buttons: Edit, Delete (with confirmation dialog)
  * - Empty states: Contextual messages for no results
  * - Loading states: Loading spinner during data fetch
  *
  * **Data Flow:**
- * 1. Page loads → fetchBuilds() called with filter
- * 2. API call: GET /api/builds?public=true or ?myBuilds=true
- * 3. Builds stored in state → filtered by search term
+ * 1. Page loads → fetchBuilds() called with search, filters, sort and page
+ * 2. API call: GET /api/builds/search?q=...&public=true&sort=...&page=...
+ * 3. Builds, pagination meta and facet counts stored in state
  * 4. User can click build → Navigate to /builds/[id]
  * 5. User can edit → Navigate to /builds/[id]/edit
  * 6. User can delete → Confirm dialog → DELETE /api/builds/[id]
  *
  * **State Management:**
- * - builds: Array of all builds from API
- * - search: Search query string
+ * - builds: Builds on the current page
+ * - search / debouncedSearch: Search box value / value sent to the API (300ms debounce)
  * - filter: 'all' | 'public' | 'mine'
- * - loading: Loading state during fetch
+ * - minPp / maxPp: Estimated PP range (server-side filter)
+ * - manufacturer / category / driveType / trackId: Facet filters ('' = any)
+ * - sort: 'recent' | 'races' | 'fastest'
+ * - page / meta / facets: Current page, pagination meta and facet counts from the API
+ * - loading: Full-page loading state (first load only) / refreshing: later fetches
  * - deletingBuildId: ID of build being deleted (for loading state)
  * - showDeleteDialog: Delete confirmation dialog visibility
  * - pendingDeleteId: ID of build pending deletion
@@ -38,7 +45,9 @@
  * - All: Shows all builds user can access (public + own)
  * - Public: Only builds with isPublic = true
  * - Mine: Only builds created by current user
- * - Search: Client-side filter by name, description, car, creator
+ * - Search: Server-side full-text match on name, description, car manufacturer and name
+ * - PP range: Server-side (?minPp/?maxPp) on the build's estimated PP
+ * - Any filter or sort change jumps back to page 1
  *
  * **Delete Flow:**
  * 1. User clicks delete → deleteBuild(buildId) called
@@ -53,6 +62,8 @@
  * - Visibility badge (Public/Private icon)
  * - Description (optional, line-clamp-1)
  * - Car info (manufacturer • name • year)
+ * - Estimated PP (tyre), power and weight when available
+ * - Race count and fastest lap (at the chosen track, if any)
  * - Creator name/email fallback
  * - Action buttons (Edit, Delete)
  *
@@ -62,11 +73,9 @@
  * - Icon: Wrench icon
  *
  * **API Integration:**
- * - GET /api/builds: Fetch all builds
- * - GET /api/builds?public=true: Fetch public builds only
- * - GET /api/builds?myBuilds=true: Fetch user's builds only
+ * - GET /api/builds/search: Search builds (ApiPaginatedResponse + facets)
+ * - GET /api/tracks: Tracks for the "has laps at" filter
  * - DELETE /api/builds/[id]: Delete a build
- * - Response: { builds: Build[], error?: string }
  *
  * **Access Control:**
  * - Authenticated: User must be logged in
@@ -102,9 +111,9 @@
  * - User stays: Can retry after error
  *
  * **Optimizations:**
- * - useMemo: Filter builds memoized to avoid re-filter on every render
- * - Client-side search: Faster than API calls for search
- * - Lazy loading: Only fetch when filter changes
+ * - Debounced search: One API call per pause in typing, not per keystroke
+ * - Pagination: Only one page of builds is fetched at a time
+ * - Refetches keep the current list on screen (no full-page spinner)
  *
  * **Accessibility:**
  * - Button labels: Clear text labels
@@ -114,21 +123,22 @@
  *
  * **Debugging Tips:**
  * - Builds not loading: Check API endpoint and auth
- * - Search not working: Check filteredBuilds useMemo logic
+ * - Search not working: Check the search_builds() migration is applied
  * - Delete not working: Check API permissions and error dialog
  * - Filter not working: Check fetchBuilds URL params
  *
  * **Common Issues:**
  * - No builds shown: Check user has created builds or filter settings
  * - Delete fails: Check user is owner of build
- * - Search not finding: Check search query matches build fields
+ * - Search not finding: Creator names aren't searched as text - every word must prefix-match
  * - Filter button active: Check filter state matches URL param
  *
  * **Related Files:**
  * - @/app/builds/new/page.tsx: Create new build
  * - @/app/builds/[id]/page.tsx: Build detail page
  * - @/app/builds/[id]/edit/page.tsx: Edit build page
- * - @/app/api/builds/route.ts: Builds API endpoint
+ * - @/app/api/builds/search/route.ts: Build search endpoint
+ * - @/lib/build-search.ts: Sort options, facet types
  * - @/components/layout: PageWrapper, PageHeader, EmptyState, SearchBar
  */
 
@@ -139,7 +149,16 @@ import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Plus, Wrench, Lock, Globe, User, Trash2, Pencil } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SearchableComboBox } from '@/components/ui/searchable-combobox'
+import { Plus, Wrench, Lock, Globe, User, Trash2, Pencil, Gauge, Flag, Timer, ChevronLeft, ChevronRight, X } from 'lucide-react'
 import { LoadingSection } from '@/components/ui/loading'
 import { PageWrapper, PageHeader, EmptyState, SearchBar } from '@/components/layout'
 import {
@@ -150,6 +169,18 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
+import { formatTrackOptions } from '@/lib/dropdown-helpers'
+import { formatLapTime } from '@/lib/time'
+import {
+  BUILD_SEARCH_SORTS,
+  BUILD_SEARCH_SORT_LABELS,
+  type BuildSearchFacets,
+  type BuildSearchFacetValue,
+  type BuildSearchResponse,
+  type BuildSearchSort,
+} from '@/lib/build-search'
+import type { ApiPaginationMeta } from '@/types/api'
+import type { DbTrack } from '@/types/database'
 
 // ============================================================
 // TYPES
@@ -163,6 +194,8 @@ import {
 // - updatedAt: Last update timestamp
 // - user: Creator info (id, name, email)
 // - car: Associated car info (id, name, slug, manufacturer, year)
+// - estimatedPp/Power/Weight/Tyre: Performance estimate (null until first save)
+// - raceCount / fastestLapMs: Search extras (races using the build, best lap)
 interface Build {
   id: string
   name: string
@@ -170,6 +203,12 @@ interface Build {
   isPublic: boolean
   createdAt: string
   updatedAt: string
+  estimatedPp: number | null
+  estimatedPower: number | null
+  estimatedWeight: number | null
+  estimatedTyre: string | null
+  raceCount: number
+  fastestLapMs: number | null
   user: {
     id: string
     name: string | null
@@ -184,15 +223,60 @@ interface Build {
   }
 }
 
+// ============================================================
+// FACET SELECT
+// ============================================================
+// Dropdown for one search facet - options come from the facet counts of the
+// current search ("Porsche (12)"); ANY_VALUE clears the filter
+const ANY_VALUE = '__any__'
+
+function FacetSelect({
+  label,
+  value,
+  values,
+  onChange,
+}: {
+  label: string
+  value: string
+  values: BuildSearchFacetValue[] | undefined
+  onChange: (value: string) => void
+}) {
+  // Keep the selected value listed even when the current search has no counts for it
+  const options = values || []
+  const showSelected = value && !options.some((option) => option.value === value)
+
+  return (
+    <Select value={value || ANY_VALUE} onValueChange={(next) => onChange(next === ANY_VALUE ? '' : next)}>
+      <SelectTrigger aria-label={label} className="w-full min-h-[44px] text-xs">
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY_VALUE}>Any {label.toLowerCase()}</SelectItem>
+        {showSelected && <SelectItem value={value}>{value}</SelectItem>}
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label} ({option.count})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
 export default function BuildsPage() {
   // ============================================================
   // STATE
   // ============================================================
   // - router: Next.js router for navigation
-  // - builds: Array of builds from API
-  // - search: Search query string
+  // - builds: Builds on the current page
+  // - search / debouncedSearch: Search box value / value sent to the API
   // - filter: Current filter (all | public | mine)
-  // - loading: Loading state during fetch
+  // - manufacturer / category / driveType / trackId: Facet filters ('' = any)
+  // - sort / page: Sort order and current page
+  // - meta / facets: Pagination meta and facet counts from the last search
+  // - tracks: Track list for the "has laps at" filter
+  // - loading: Full-page loading state (first load only)
+  // - refreshing: Later fetches (list stays on screen)
   // - deletingBuildId: ID of build being deleted (for loading state)
   // - showDeleteDialog: Delete confirmation dialog visibility
   // - pendingDeleteId: ID of build pending deletion
@@ -200,8 +284,8 @@ export default function BuildsPage() {
   // - errorMessage: Error message to display
   //
   // Why this state?
-  // - builds: Store fetched builds for display and filtering
-  // - search: Client-side search for instant feedback
+  // - builds: Only the current page is fetched - search and filters run on the server
+  // - debouncedSearch: One API call per pause in typing instead of per keystroke
   // - filter: Server-side filter for public/my builds
   // - deletingBuildId: Show loading state on specific build during delete
   // - pendingDeleteId: Track which build is pending deletion in dialog
@@ -210,85 +294,118 @@ export default function BuildsPage() {
   const router = useRouter()
   const [builds, setBuilds] = useState<Build[]>([])
   const [search, setSearch] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
   const [filter, setFilter] = useState<'all' | 'public' | 'mine'>('all')
+  const [minPp, setMinPp] = useState('')
+  const [maxPp, setMaxPp] = useState('')
+  const [manufacturer, setManufacturer] = useState('')
+  const [category, setCategory] = useState('')
+  const [driveType, setDriveType] = useState('')
+  const [trackId, setTrackId] = useState('')
+  const [sort, setSort] = useState<BuildSearchSort>('recent')
+  const [page, setPage] = useState(1)
+  const [meta, setMeta] = useState<ApiPaginationMeta | null>(null)
+  const [facets, setFacets] = useState<BuildSearchFacets | null>(null)
+  const [tracks, setTracks] = useState<DbTrack[]>([])
   const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
   const [deletingBuildId, setDeletingBuildId] = useState<string | null>(null)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null)
   const [showErrorDialog, setShowErrorDialog] = useState(false)
   const [errorMessage, setErrorMessage] = useState('')
 
-  // ============================================================
-  // DERIVED STATE - FILTERED BUILDS
-  // ============================================================
-  // Memoized filtered builds based on search query
-  // - Searches: build name, description, car name, car manufacturer, creator name/email
-  // - Case-insensitive: Uses toLowerCase() for comparison
-  // - Performance: Memoized to avoid re-filter on every render
-  // - Client-side: Faster than API calls for search
-  //
-  // Why useMemo?
-  // - Avoid re-filtering builds on every render
-  // - Only re-filter when builds or search changes
-  // - Better performance for large build lists
-  const filteredBuilds = useMemo(() => {
-    if (!search) {
-      return builds
-    }
+  const trackOptions = useMemo(() => formatTrackOptions(tracks), [tracks])
 
-    const query = search.toLowerCase()
-    return builds.filter(
-      (build) =>
-        build.name.toLowerCase().includes(query) ||
-        build.description?.toLowerCase().includes(query) ||
-        build.car.name.toLowerCase().includes(query) ||
-        build.car.manufacturer.toLowerCase().includes(query) ||
-        build.user.name?.toLowerCase().includes(query) ||
-        build.user.email.toLowerCase().includes(query)
-    )
-  }, [builds, search])
+  // Any filter/sort change starts again from page 1
+  const withPageReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setPage(1)
+    setter(value)
+  }
+
+  const hasFacetFilter = Boolean(manufacturer || category || driveType || trackId)
 
   // ============================================================
   // DATA FETCHING
   // ============================================================
-  // Fetch builds on mount and when filter changes
-  // - Calls API with filter param
-  // - Updates builds state
-  // - Handles errors gracefully
+  // Debounce the search box (300ms), then fetch whenever search, filters,
+  // sort or page change
   //
   // Why useEffect?
   // - Fetch on mount: Load builds when page loads
-  // - Fetch on filter change: Reload when filter changes
-  // - dependency array [filter]: Only refetch when filter changes
+  // - Fetch on change: Every filter/sort/page change is a new server-side search
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setPage(1)
+      setDebouncedSearch(search.trim())
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [search])
+
   useEffect(() => {
     fetchBuilds()
-  }, [filter])
+  }, [filter, minPp, maxPp, debouncedSearch, manufacturer, category, driveType, trackId, sort, page])
+
+  // Tracks for the "has laps at" filter (once)
+  useEffect(() => {
+    const fetchTracks = async () => {
+      try {
+        const response = await fetch('/api/tracks')
+        const data = await response.json()
+        setTracks(data.tracks || [])
+      } catch (error) {
+        console.error('Error fetching tracks:', error)
+      }
+    }
 
-  // Fetch builds from API
+    fetchTracks()
+  }, [])
+
+  // Fetch one page of builds from the search API
   // - Filter: all (default), public (?public=true), mine (?myBuilds=true)
-  // - Response: { builds: Build[] }
+  // - PP range: ?minPp / ?maxPp (server-side, on the estimated PP)
+  // - Facets: ?manufacturer / ?category / ?driveType / ?trackId
+  // - Response: { data: Build[], meta, facets }
   // - Error handling: Console log, set loading false
   const fetchBuilds = async () => {
     try {
-      setLoading(true)
-      let url = '/api/builds'
+      setRefreshing(true)
+      const params = new URLSearchParams({ sort, page: String(page) })
 
       if (filter === 'public') {
-        url += '?public=true'
+        params.set('public', 'true')
       } else if (filter === 'mine') {
-        url += '?myBuilds=true'
+        params.set('myBuilds', 'true')
       }
+      if (debouncedSearch) params.set('q', debouncedSearch)
+      if (minPp) params.set('minPp', minPp)
+      if (maxPp) params.set('maxPp', maxPp)
+      if (manufacturer) params.set('manufacturer', manufacturer)
+      if (category) params.set('category', category)
+      if (driveType) params.set('driveType', driveType)
+      if (trackId) params.set('trackId', trackId)
 
-      const response = await fetch(url)
-      const data = await response.json()
-      setBuilds(data.builds || [])
+      const response = await fetch(`/api/builds/search?${params}`)
+      const data: BuildSearchResponse<Build> = await response.json()
+      setBuilds(data.data || [])
+      setMeta(data.meta || null)
+      setFacets(data.facets || null)
     } catch (error) {
       console.error('Error fetching builds:', error)
     } finally {
       setLoading(false)
+      setRefreshing(false)
     }
   }
 
+  const clearFacets = () => {
+    setPage(1)
+    setManufacturer('')
+    setCategory('')
+    setDriveType('')
+    setTrackId('')
+  }
+
   // ============================================================
   // DELETE HANDLERS
   // ============================================================
@@ -363,7 +480,7 @@ export default function BuildsPage() {
       <PageHeader
         title="BUILDS"
         icon={Wrench}
-        description={`${builds.length} ${builds.length === 1 ? 'build' : 'builds'} available`}
+        description={`${meta?.total ?? 0} ${meta?.total === 1 ? 'build' : 'builds'} found`}
         actions={
           <Button asChild className="gap-2 min-h-[44px]">
             <Link href="/builds/new">
@@ -375,7 +492,7 @@ export default function BuildsPage() {
       />
 
       {/* Search and Filters */}
-      {/* - SearchBar: Client-side search with icon */}
+      {/* - SearchBar: Server-side full-text search (debounced) */}
       {/* - Filter buttons: All, Public, My Builds (3-column grid) */}
       {/* - Active state: default variant, inactive: outline variant */}
       <div className="flex flex-col gap-3">
@@ -387,7 +504,7 @@ export default function BuildsPage() {
         <div className="grid grid-cols-3 gap-2">
           <Button
             variant={filter === 'all' ? 'default' : 'outline'}
-            onClick={() => setFilter('all')}
+            onClick={() => withPageReset(setFilter)('all')}
             size="sm"
             className="min-h-[44px] text-xs"
           >
@@ -395,7 +512,7 @@ export default function BuildsPage() {
           </Button>
           <Button
             variant={filter === 'public' ? 'default' : 'outline'}
-            onClick={() => setFilter('public')}
+            onClick={() => withPageReset(setFilter)('public')}
             size="sm"
             className="min-h-[44px] text-xs"
           >
@@ -404,7 +521,7 @@ export default function BuildsPage() {
           </Button>
           <Button
             variant={filter === 'mine' ? 'default' : 'outline'}
-            onClick={() => setFilter('mine')}
+            onClick={() => withPageReset(setFilter)('mine')}
             size="sm"
             className="min-h-[44px] text-xs"
           >
@@ -412,24 +529,94 @@ export default function BuildsPage() {
             My Builds
           </Button>
         </div>
+        {/* PP range (estimated PP - builds without an estimate are hidden while set) */}
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="text"
+            inputMode="numeric"
+            value={minPp}
+            onChange={(e) => withPageReset(setMinPp)(e.target.value.replace(/[^\d.]/g, ''))}
+            placeholder="Min PP"
+            aria-label="Minimum PP"
+            className="min-h-[44px]"
+          />
+          <Input
+            type="text"
+            inputMode="numeric"
+            value={maxPp}
+            onChange={(e) => withPageReset(setMaxPp)(e.target.value.replace(/[^\d.]/g, ''))}
+            placeholder="Max PP"
+            aria-label="Maximum PP"
+            className="min-h-[44px]"
+          />
+        </div>
+        {/* Facets (counts are for the current search) + has laps at track */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <FacetSelect
+            label="Manufacturer"
+            value={manufacturer}
+            values={facets?.manufacturer}
+            onChange={withPageReset(setManufacturer)}
+          />
+          <FacetSelect
+            label="Category"
+            value={category}
+            values={facets?.category}
+            onChange={withPageReset(setCategory)}
+          />
+          <FacetSelect
+            label="Drive type"
+            value={driveType}
+            values={facets?.driveType}
+            onChange={withPageReset(setDriveType)}
+          />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <SearchableComboBox
+            options={trackOptions}
+            value={trackId}
+            onValueChange={withPageReset(setTrackId)}
+            placeholder="Has lap times at track..."
+            searchPlaceholder="Search tracks..."
+            emptyText="No tracks found."
+            grouped
+            className="min-h-[44px]"
+          />
+          <Select value={sort} onValueChange={(value) => withPageReset(setSort)(value as BuildSearchSort)}>
+            <SelectTrigger aria-label="Sort builds" className="w-full min-h-[44px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUILD_SEARCH_SORTS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {BUILD_SEARCH_SORT_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {hasFacetFilter && (
+          <Button variant="ghost" size="sm" onClick={clearFacets} className="self-start min-h-[44px] text-xs">
+            <X className="h-3 w-3 mr-2" />
+            Clear facet filters
+          </Button>
+        )}
       </div>
 
       {/* Builds List */}
       {/* - Empty state: Show when no builds match filter/search */}
       {/* - Build cards: Stacked list with hover effects */}
       {/* - Each card: Name, badge, description, car, creator, actions */}
-      {filteredBuilds.length === 0 ? (
+      {builds.length === 0 ? (
         <EmptyState
           icon={Wrench}
           title={
-            builds.length === 0
-              ? 'No builds found'
-              : search || filter !== 'all'
+            debouncedSearch || filter !== 'all' || minPp || maxPp || hasFacetFilter
               ? 'No builds match your search or filter'
               : 'No builds found'
           }
           actions={
-            filter === 'mine' && builds.length === 0 && (
+            filter === 'mine' && !debouncedSearch && !hasFacetFilter && (
               <Button asChild>
                 <Link href="/builds/new">
                   <Plus className="h-4 w-4 mr-2" />
@@ -440,8 +627,8 @@ export default function BuildsPage() {
           }
         />
       ) : (
-        <div className="space-y-3">
-          {filteredBuilds.map((build) => (
+        <div className={`space-y-3 ${refreshing ? 'opacity-60' : ''}`}>
+          {builds.map((build) => (
             <div
               key={build.id}
               className="group relative flex items-start gap-2 gt-hover-card"
@@ -502,6 +689,47 @@ export default function BuildsPage() {
                       )}
                     </div>
 
+                    {/* Estimated Performance */}
+                    {/* - PP on the estimated tyre, power (hp), weight (kg) */}
+                    {build.estimatedPp !== null && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground font-mono">
+                        <Gauge className="h-3 w-3" />
+                        <span className="text-foreground font-semibold">PP {build.estimatedPp.toFixed(0)}</span>
+                        {build.estimatedTyre && <span>({build.estimatedTyre})</span>}
+                        {build.estimatedPower !== null && (
+                          <>
+                            <span>•</span>
+                            <span>{build.estimatedPower} hp</span>
+                          </>
+                        )}
+                        {build.estimatedWeight !== null && (
+                          <>
+                            <span>•</span>
+                            <span>{build.estimatedWeight} kg</span>
+                          </>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Usage */}
+                    {/* - Races using the build, fastest lap (at the chosen track, if filtered) */}
+                    {(build.raceCount > 0 || build.fastestLapMs !== null) && (
+                      <div className="flex items-center gap-3 text-xs text-muted-foreground font-mono">
+                        {build.raceCount > 0 && (
+                          <span className="flex items-center gap-1">
+                            <Flag className="h-3 w-3" />
+                            {build.raceCount} {build.raceCount === 1 ? 'race' : 'races'}
+                          </span>
+                        )}
+                        {build.fastestLapMs !== null && (
+                          <span className="flex items-center gap-1">
+                            <Timer className="h-3 w-3" />
+                            {formatLapTime(build.fastestLapMs)}
+                          </span>
+                        )}
+                      </div>
+                    )}
+
                     {/* Creator */}
                     {/* - User icon: Small icon */}
                     {/* - Name fallback: name → email */}
@@ -561,6 +789,35 @@ export default function BuildsPage() {
         </div>
       )}
 
+      {/* Pagination */}
+      {meta && meta.totalPages > 1 && (
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={!meta.hasPreviousPage || refreshing}
+            className="min-h-[44px]"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Page {meta.page} of {meta.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={!meta.hasNextPage || refreshing}
+            className="min-h-[44px]"
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+
       {/* Delete Confirmation Dialog */}
       {/* - Warning: "This will permanently delete this build" */}
       {/* - Actions: Cancel (outline), Delete Build (destructive) */}
@@ -0,0 +1,407 @@
+/**
+ * Championship Standings Page
+ *
+ * Purpose: Season table of a championship with a round-by-round breakdown
+ * - Drivers: Points per round, dropped rounds struck through, total after drops
+ * - Manufacturers: Points of every driver in that make's cars per round (no drops)
+ * - Rounds: The races in order, each linking to its race page (results live there)
+ *
+ * **Key Features:**
+ * - Round columns: R1..Rn; upcoming rounds (race not completed) are dimmed with no points
+ * - Cells: Points, with the finishing position (or DNF/DNS) underneath; "-" = didn't take part
+ * - Ties: Equal totals are split by countback (more wins, then more 2nds, ...) - drivers
+ *   still level share the position
+ * - Edit / Delete: Creator or admin only (edit opens ChampionshipFormDialog)
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/championships/[id] + GET /api/auth/session
+ * 2. Edit: ChampionshipFormDialog → PATCH → refetch
+ * 3. Delete: Second click confirms → DELETE → /championships
+ *
+ * **Debugging Tips:**
+ * - Round shows no points: The race's results aren't saved as completed yet
+ * - Points look stale: Points are stored with each race's results - re-save them after
+ *   changing that race's points table
+ *
+ * **Related Files:**
+ * - @/app/api/championships/[id]/route.ts: Standings API
+ * - @/lib/championship-standings.ts: Drop-worst and countback rules
+ * - @/components/championships/championship-form-dialog.tsx: Edit form
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { ChampionshipFormDialog } from '@/components/championships/championship-form-dialog'
+import { pickedRaceName, type PickedRace } from '@/components/races/ordered-race-picker'
+import { ArrowLeft, CheckCircle2, Factory, Pencil, Trash2, Trophy, Users } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { RACE_RESULT_STATUS_LABELS } from '@/lib/race-results'
+import type { DriverStanding, ManufacturerStanding } from '@/lib/championship-standings'
+import type { DbChampionship } from '@/types/database'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface ChampionshipRoundView {
+  round: number
+  completed: boolean
+  race: PickedRace
+}
+
+interface DriverStandingView extends DriverStanding {
+  user: { id: string; name: string | null; gamertag: string | null } | null
+}
+
+interface ChampionshipData {
+  championship: DbChampionship & {
+    createdBy: { id: string; name: string | null; gamertag: string | null } | null
+  }
+  rounds: ChampionshipRoundView[]
+  drivers: DriverStandingView[]
+  manufacturers: ManufacturerStanding[]
+}
+
+export default function ChampionshipPage() {
+  const params = useParams<{ id: string }>()
+  const router = useRouter()
+  const [data, setData] = useState<ChampionshipData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [currentUser, setCurrentUser] = useState<{ id: string; role: string } | null>(null)
+  const [showEdit, setShowEdit] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // ============================================================
+  // DATA FETCHING
+  // ============================================================
+
+  const fetchChampionship = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/championships/${params.id}`)
+      setData(res.ok ? await res.json() : null)
+    } catch (err) {
+      console.error('Error fetching championship:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [params.id])
+
+  useEffect(() => {
+    fetchChampionship()
+
+    const fetchCurrentUser = async () => {
+      try {
+        const res = await fetch('/api/auth/session')
+        if (res.ok) {
+          const session = await res.json()
+          if (session?.user) setCurrentUser({ id: session.user.id, role: session.user.role })
+        }
+      } catch (err) {
+        console.error('Error fetching current user:', err)
+      }
+    }
+
+    fetchCurrentUser()
+  }, [fetchChampionship])
+
+  const deleteChampionship = async () => {
+    setConfirmDelete(false)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/championships/${params.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error || 'Failed to delete championship')
+      }
+      router.push('/championships')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete championship')
+    }
+  }
+
+  // ============================================================
+  // LOADING / NOT FOUND
+  // ============================================================
+
+  if (loading) {
+    return (
+      <PageWrapper>
+        <LoadingSection text="Loading standings..." />
+      </PageWrapper>
+    )
+  }
+
+  if (!data) {
+    return (
+      <PageWrapper>
+        <EmptyState
+          icon={Trophy}
+          title="Championship not found"
+          actions={
+            <Button asChild className="min-h-[44px]">
+              <Link href="/championships">Go Back</Link>
+            </Button>
+          }
+        />
+      </PageWrapper>
+    )
+  }
+
+  const { championship, rounds, drivers, manufacturers } = data
+  const completedRounds = rounds.filter((round) => round.completed).length
+
+  // Creator or admin (same rule as PATCH/DELETE /api/championships/[id])
+  const canEdit = Boolean(
+    currentUser && (currentUser.id === championship.createdById || currentUser.role === 'ADMIN')
+  )
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  return (
+    <PageWrapper>
+      <Link href="/championships" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground w-fit">
+        <ArrowLeft className="h-4 w-4" />
+        Championships
+      </Link>
+
+      <PageHeader
+        title={championship.name}
+        icon={Trophy}
+        description={[
+          `${completedRounds} of ${rounds.length} ${rounds.length === 1 ? 'round' : 'rounds'} completed`,
+          championship.dropWorstRounds > 0 &&
+            `worst ${championship.dropWorstRounds} ${championship.dropWorstRounds === 1 ? 'round' : 'rounds'} dropped`,
+        ].filter(Boolean).join(' · ')}
+        actions={canEdit && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowEdit(true)} className="gap-2 min-h-[44px]">
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+            {/* Delete asks for a second click */}
+            <Button
+              variant={confirmDelete ? 'destructive' : 'outline'}
+              onClick={() => (confirmDelete ? deleteChampionship() : setConfirmDelete(true))}
+              className="gap-2 min-h-[44px]"
+            >
+              <Trash2 className="h-4 w-4" />
+              {confirmDelete ? 'Delete?' : 'Delete'}
+            </Button>
+          </div>
+        )}
+      />
+
+      {championship.description && (
+        <p className="text-sm text-muted-foreground">{championship.description}</p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {/* Drivers */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Drivers
+          </CardTitle>
+          <CardDescription>
+            Ties are split by countback: most wins, then most 2nd places, and so on
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {drivers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No completed rounds yet</p>
+          ) : (
+            <StandingsTable
+              rounds={rounds}
+              rows={drivers.map((standing) => ({
+                key: standing.userId,
+                position: standing.position,
+                name: standing.user?.gamertag || standing.user?.name || 'Unknown driver',
+                detail: standing.gross !== standing.total ? `${standing.gross} before drops` : null,
+                total: standing.total,
+                tiedOnPoints: standing.tiedOnPoints,
+                cells: standing.rounds.map((score) => ({
+                  round: score.round,
+                  points: score.points,
+                  dropped: score.dropped,
+                  note: score.status === 'FINISHED'
+                    ? `P${score.position}`
+                    : score.status ? RACE_RESULT_STATUS_LABELS[score.status] : null,
+                })),
+              }))}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Manufacturers */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Factory className="h-5 w-5" />
+            Manufacturers
+          </CardTitle>
+          <CardDescription>Points of every driver in that make&apos;s cars, no rounds dropped</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {manufacturers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No results with a recorded car yet</p>
+          ) : (
+            <StandingsTable
+              rounds={rounds}
+              rows={manufacturers.map((standing) => ({
+                key: standing.manufacturer,
+                position: standing.position,
+                name: standing.manufacturer,
+                detail: null,
+                total: standing.total,
+                tiedOnPoints: standing.tiedOnPoints,
+                cells: standing.rounds.map((score) => ({ ...score, dropped: false, note: null })),
+              }))}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rounds */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Rounds</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rounds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rounds yet{canEdit && ' - add races with Edit'}</p>
+          ) : (
+            <div className="space-y-1">
+              {rounds.map((round) => (
+                <Link
+                  key={round.round}
+                  href={`/races/${round.race.id}`}
+                  className="flex items-center gap-3 px-3 py-2 border border-border rounded hover:border-primary text-sm min-h-[44px]"
+                >
+                  <span className="font-mono text-xs text-muted-foreground w-8 shrink-0">R{round.round}</span>
+                  <span className="flex-1 min-w-0 truncate">
+                    {pickedRaceName(round.race)}
+                    {round.race.name && round.race.track && (
+                      <span className="text-muted-foreground"> · {round.race.track.name}</span>
+                    )}
+                  </span>
+                  {round.completed ? (
+                    <Badge variant="default" className="gap-1 shrink-0">
+                      <CheckCircle2 className="h-3 w-3" />
+                      Completed
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary" className="shrink-0">Upcoming</Badge>
+                  )}
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ChampionshipFormDialog
+        championship={championship}
+        rounds={rounds.map((round) => round.race)}
+        open={showEdit}
+        onOpenChange={setShowEdit}
+        onSaved={() => fetchChampionship()}
+      />
+    </PageWrapper>
+  )
+}
+
+// ============================================================
+// SUB-COMPONENTS
+// ============================================================
+
+interface StandingsRow {
+  key: string
+  position: number
+  name: string
+  detail: string | null
+  total: number
+  tiedOnPoints: boolean
+  cells: { round: number; points: number | null; dropped: boolean; note: string | null }[]
+}
+
+// Position, name, one column per round, total - scrolls sideways on small screens
+function StandingsTable({ rounds, rows }: { rounds: ChampionshipRoundView[]; rows: StandingsRow[] }) {
+  const completed = new Set(rounds.filter((round) => round.completed).map((round) => round.round))
+
+  return (
+    <div className="overflow-x-auto -mx-2">
+      <table className="w-full text-sm border-separate border-spacing-0">
+        <thead>
+          <tr className="text-xs text-muted-foreground">
+            <th className="px-2 py-1 text-left font-medium w-10">Pos</th>
+            <th className="px-2 py-1 text-left font-medium">Name</th>
+            {rounds.map((round) => (
+              <th
+                key={round.round}
+                className={cn('px-2 py-1 text-center font-mono font-medium', !round.completed && 'opacity-50')}
+                title={pickedRaceName(round.race)}
+              >
+                R{round.round}
+              </th>
+            ))}
+            <th className="px-2 py-1 text-right font-medium">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => {
+            const shared = rows.some((other, i) => i !== index && other.position === row.position)
+            return (
+              <tr key={row.key}>
+                <td className="px-2 py-2 font-mono font-bold border-t border-border">
+                  {shared ? `=${row.position}` : row.position}
+                </td>
+                <td className="px-2 py-2 border-t border-border min-w-[8rem]">
+                  <span className={cn('block truncate', row.position === 1 && 'font-semibold')}>{row.name}</span>
+                  {row.tiedOnPoints && !shared && (
+                    <span className="block text-xs text-muted-foreground">On countback</span>
+                  )}
+                  {row.detail && <span className="block text-xs text-muted-foreground">{row.detail}</span>}
+                </td>
+                {row.cells.map((cell) => (
+                  <td
+                    key={cell.round}
+                    className={cn(
+                      'px-2 py-2 text-center font-mono border-t border-border',
+                      !completed.has(cell.round) && 'opacity-50'
+                    )}
+                  >
+                    {cell.points === null ? (
+                      <span className="text-muted-foreground">{completed.has(cell.round) ? '-' : ''}</span>
+                    ) : (
+                      <>
+                        <span className={cn(cell.dropped && 'line-through text-muted-foreground')}>{cell.points}</span>
+                        {cell.note && <span className="block text-[10px] text-muted-foreground">{cell.note}</span>}
+                      </>
+                    )}
+                  </td>
+                ))}
+                <td className="px-2 py-2 text-right font-mono font-bold text-primary border-t border-border">
+                  {row.total}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+/**
+ * Championships Listing Page
+ *
+ * Purpose: Every championship (season of races), newest first
+ * - Each card shows the rounds completed so far and the drop-worst rule
+ * - "New Championship" opens the form dialog; saving goes to the standings page
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/championships
+ * 2. Create: ChampionshipFormDialog → POST /api/championships → /championships/[id]
+ *
+ * **Related Files:**
+ * - @/app/championships/[id]/page.tsx: Standings
+ * - @/components/championships/championship-form-dialog.tsx: Create/edit form
+ * - @/app/api/championships/route.ts: List/create API
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { ChampionshipFormDialog } from '@/components/championships/championship-form-dialog'
+import { Plus, Trophy } from 'lucide-react'
+import type { DbChampionship } from '@/types/database'
+
+interface ChampionshipListItem extends DbChampionship {
+  createdBy: { id: string; name: string | null; gamertag: string | null } | null
+  roundCount: number
+  completedRounds: number
+}
+
+export default function ChampionshipsPage() {
+  const router = useRouter()
+  const [championships, setChampionships] = useState<ChampionshipListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showCreate, setShowCreate] = useState(false)
+
+  useEffect(() => {
+    const fetchChampionships = async () => {
+      try {
+        const res = await fetch('/api/championships')
+        if (res.ok) setChampionships((await res.json()).championships || [])
+      } catch (err) {
+        console.error('Error fetching championships:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchChampionships()
+  }, [])
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  return (
+    <PageWrapper>
+      <PageHeader
+        title="CHAMPIONSHIPS"
+        icon={Trophy}
+        description="Seasons of races with points standings"
+        actions={
+          <Button onClick={() => setShowCreate(true)} className="gap-2 min-h-[44px]">
+            <Plus className="h-4 w-4" />
+            New Championship
+          </Button>
+        }
+      />
+
+      {loading ? (
+        <LoadingSection text="Loading championships..." />
+      ) : championships.length === 0 ? (
+        <EmptyState
+          icon={Trophy}
+          title="No championships yet"
+          description="Group races into a season to get points standings"
+        />
+      ) : (
+        <div className="space-y-3">
+          {championships.map((championship) => (
+            <Link
+              key={championship.id}
+              href={`/championships/${championship.id}`}
+              className="block gt-hover-card p-3 sm:p-4 space-y-1"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-base sm:text-lg truncate">{championship.name}</span>
+                <Badge variant={championship.roundCount > 0 && championship.completedRounds === championship.roundCount ? 'default' : 'secondary'}>
+                  {championship.completedRounds}/{championship.roundCount} rounds
+                </Badge>
+              </div>
+              {championship.description && (
+                <p className="text-sm text-muted-foreground line-clamp-2">{championship.description}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {championship.dropWorstRounds > 0 && `Worst ${championship.dropWorstRounds} dropped · `}
+                by {championship.createdBy?.gamertag || championship.createdBy?.name || 'Unknown'}
+              </p>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <ChampionshipFormDialog
+        open={showCreate}
+        onOpenChange={setShowCreate}
+        onSaved={(championship) => router.push(`/championships/${championship.id}`)}
+      />
+    </PageWrapper>
+  )
+}
@@ -0,0 +1,388 @@
+/**
+ * Driver Comparison Page
+ *
+ * Purpose: Head-to-head of two drivers' best laps at every track they have both driven
+ * - URL driven: /compare/drivers?a=...&b=...&car=same (shareable, bookmarkable)
+ * - Win/loss counts and the average gap over the common tracks
+ * - Each side shows the car and build the best lap was set with
+ *
+ * **Key Features:**
+ * - Driver pickers: Searchable, approved drivers only; swap button flips A and B
+ * - Car filter: "Any car" (best lap per track) or "Same car only" (best lap per track + car,
+ *   one row per car both have driven there)
+ * - Winner per row: Faster time in bold primary, gap shown from driver A's side
+ * - Build link: Only for public builds (or your own) - otherwise the name is plain text
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/compare/drivers → drivers for the pickers
+ * 2. Both drivers chosen / car filter changes: router.replace() updates the URL →
+ *    GET /api/compare/drivers?a=&b=&car= → summary + rows
+ *
+ * **API Integration:**
+ * - GET /api/compare/drivers: Driver list (no a/b) or head-to-head (a/b)
+ *
+ * **Debugging Tips:**
+ * - No rows: The drivers have no track in common (or no common car with "Same car only")
+ * - Gap sign: Negative = driver A faster (see @/lib/driver-comparison.ts)
+ * - Removed laps (disputes, rejected reviews) never count
+ *
+ * **Related Files:**
+ * - @/app/api/compare/drivers/route.ts: Comparison API
+ * - @/lib/driver-comparison.ts: Best lap per track (+ car) and the summary
+ * - @/app/leaderboards/page.tsx: Same build link rules
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SearchableComboBox } from '@/components/ui/searchable-combobox'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { AlertTriangle, ArrowLeftRight, Swords } from 'lucide-react'
+import { formatLapTime, getTimeDifference } from '@/lib/time'
+import { cn } from '@/lib/utils'
+import type { CarMode, HeadToHeadSummary } from '@/lib/driver-comparison'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface Driver {
+  id: string
+  name: string | null
+  gamertag: string | null
+}
+
+interface RowCar {
+  id: string
+  name: string
+  manufacturer: string
+  category: string | null
+}
+
+interface ComparisonSide {
+  lapId: string
+  timeMs: number
+  createdAt: string
+  car: RowCar | null
+  build: { id: string; name: string | null; linkable: boolean } | null
+}
+
+interface ComparisonRow {
+  track: { id: string; name: string; layout: string | null } | null
+  car: RowCar | null
+  a: ComparisonSide
+  b: ComparisonSide
+  gapMs: number
+}
+
+interface Comparison {
+  driverA: Driver
+  driverB: Driver
+  carMode: CarMode
+  summary: HeadToHeadSummary
+  rows: ComparisonRow[]
+}
+
+const CAR_MODE_OPTIONS: { value: CarMode; label: string }[] = [
+  { value: 'any', label: 'Any car' },
+  { value: 'same', label: 'Same car only' },
+]
+
+const driverName = (driver: Driver | null | undefined) => driver?.gamertag || driver?.name || 'Unknown driver'
+
+export default function CompareDriversPage() {
+  // ============================================================
+  // STATE
+  // ============================================================
+  // Drivers and car filter live in the URL; everything else is fetched data
+
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const driverA = searchParams.get('a') || ''
+  const driverB = searchParams.get('b') || ''
+  const carMode: CarMode = searchParams.get('car') === 'same' ? 'same' : 'any'
+
+  const [drivers, setDrivers] = useState<Driver[]>([])
+  const [driversLoading, setDriversLoading] = useState(true)
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const driverOptions = useMemo(
+    () => drivers.map((driver) => ({
+      value: driver.id,
+      label: driverName(driver),
+      searchTerms: [driver.name, driver.gamertag].filter(Boolean).join(' '),
+    })),
+    [drivers]
+  )
+  const ready = Boolean(driverA && driverB && driverA !== driverB)
+
+  // ============================================================
+  // URL UPDATES
+  // ============================================================
+
+  const updateParams = (changes: Record<string, string>) => {
+    const params = new URLSearchParams(searchParams.toString())
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) {
+        params.set(key, value)
+      } else {
+        params.delete(key)
+      }
+    }
+    const query = params.toString()
+    router.replace(query ? `/compare/drivers?${query}` : '/compare/drivers')
+  }
+
+  // ============================================================
+  // DATA FETCHING - DRIVER PICKERS
+  // ============================================================
+
+  useEffect(() => {
+    const fetchDrivers = async () => {
+      try {
+        const res = await fetch('/api/compare/drivers')
+        if (res.ok) setDrivers((await res.json()).drivers || [])
+      } catch (err) {
+        console.error('Error fetching drivers:', err)
+      } finally {
+        setDriversLoading(false)
+      }
+    }
+
+    fetchDrivers()
+  }, [])
+
+  // ============================================================
+  // DATA FETCHING - COMPARISON
+  // ============================================================
+
+  useEffect(() => {
+    if (!ready) {
+      setComparison(null)
+      setError(null)
+      return
+    }
+
+    const fetchComparison = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const params = new URLSearchParams({ a: driverA, b: driverB, car: carMode })
+        const res = await fetch(`/api/compare/drivers?${params}`)
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to compare drivers')
+        setComparison(data)
+      } catch (err) {
+        setComparison(null)
+        setError(err instanceof Error ? err.message : 'Failed to compare drivers')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchComparison()
+  }, [ready, driverA, driverB, carMode])
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  const summary = comparison?.summary
+
+  return (
+    <PageWrapper>
+      <PageHeader
+        title="HEAD TO HEAD"
+        icon={Swords}
+        description={
+          comparison
+            ? `${driverName(comparison.driverA)} vs ${driverName(comparison.driverB)}`
+            : 'Compare two drivers at every track they have both driven'
+        }
+      />
+
+      {/* Pickers */}
+      {/* - A and B can't be the same driver (the other picker's driver is left out) */}
+      <div className="flex flex-col gap-3">
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr] items-center gap-2">
+          <SearchableComboBox
+            options={driverOptions.filter((option) => option.value !== driverB)}
+            value={driverA}
+            onValueChange={(value) => updateParams({ a: value })}
+            placeholder="Driver A..."
+            searchPlaceholder="Search drivers..."
+            emptyText="No drivers found."
+            isLoading={driversLoading}
+            className="min-h-[44px]"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateParams({ a: driverB, b: driverA })}
+            disabled={!driverA && !driverB}
+            className="min-h-[44px] justify-self-center"
+            title="Swap drivers"
+          >
+            <ArrowLeftRight className="h-4 w-4" />
+          </Button>
+          <SearchableComboBox
+            options={driverOptions.filter((option) => option.value !== driverA)}
+            value={driverB}
+            onValueChange={(value) => updateParams({ b: value })}
+            placeholder="Driver B..."
+            searchPlaceholder="Search drivers..."
+            emptyText="No drivers found."
+            isLoading={driversLoading}
+            className="min-h-[44px]"
+          />
+        </div>
+
+        <Select
+          value={carMode}
+          onValueChange={(value) => updateParams({ car: value === 'any' ? '' : value })}
+        >
+          <SelectTrigger aria-label="Car filter" className="w-full sm:w-48 min-h-[44px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CAR_MODE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!ready ? (
+        <EmptyState
+          icon={Swords}
+          title="Pick two drivers"
+          description="Best laps at every track you have both driven, side by side"
+        />
+      ) : loading ? (
+        <LoadingSection text="Comparing drivers..." />
+      ) : error ? (
+        <EmptyState icon={AlertTriangle} title={error} />
+      ) : comparison && summary && comparison.rows.length === 0 ? (
+        <EmptyState
+          icon={Swords}
+          title={carMode === 'same' ? 'No car in common at any track' : 'No tracks in common'}
+          description={carMode === 'same' ? 'Try "Any car" to compare best laps whatever the car' : undefined}
+        />
+      ) : comparison && summary ? (
+        <>
+          {/* Summary */}
+          {/* - Average gap is from driver A's side: negative = A faster on average */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <SummaryCard label={`${driverName(comparison.driverA)} wins`} value={summary.winsA} highlight={summary.winsA > summary.winsB} />
+            <SummaryCard label={`${driverName(comparison.driverB)} wins`} value={summary.winsB} highlight={summary.winsB > summary.winsA} />
+            <SummaryCard label="Ties" value={summary.ties} />
+            <SummaryCard
+              label="Average gap (A to B)"
+              value={summary.averageGapMs === null ? '-' : getTimeDifference(summary.averageGapMs, 0)}
+            />
+          </div>
+
+          {/* Rows */}
+          {/* - One per track (any car) or per track + car (same car) */}
+          {/* - Faster side in bold primary; gap = A - B */}
+          <div className="space-y-2">
+            {comparison.rows.map((row) => (
+              <div
+                key={`${row.track?.id}:${row.car?.id || ''}`}
+                className="border border-border rounded-lg p-3 sm:p-4 space-y-2"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold truncate">
+                    {row.track ? `${row.track.name}${row.track.layout ? ` - ${row.track.layout}` : ''}` : 'Unknown track'}
+                    {row.car && (
+                      <span className="font-normal text-muted-foreground">
+                        {' · '}{row.car.manufacturer} {row.car.name}
+                      </span>
+                    )}
+                  </span>
+                  <span
+                    className={cn(
+                      'font-mono text-xs shrink-0',
+                      row.gapMs < 0 ? 'text-primary' : row.gapMs > 0 ? 'text-destructive' : 'text-muted-foreground'
+                    )}
+                  >
+                    {getTimeDifference(row.a.timeMs, row.b.timeMs)}
+                  </span>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <SideCell driver={comparison.driverA} side={row.a} winner={row.gapMs < 0} showCar={!row.car} />
+                  <SideCell driver={comparison.driverB} side={row.b} winner={row.gapMs > 0} showCar={!row.car} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : null}
+    </PageWrapper>
+  )
+}
+
+// ============================================================
+// SUB-COMPONENTS
+// ============================================================
+
+function SummaryCard({ label, value, highlight }: { label: string; value: string | number; highlight?: boolean }) {
+  return (
+    <div className={cn('border rounded-lg p-2 space-y-0.5', highlight ? 'border-primary' : 'border-border')}>
+      <p className="text-xs text-muted-foreground truncate">{label}</p>
+      <p className={cn('font-mono font-bold', highlight && 'text-primary')}>{value}</p>
+    </div>
+  )
+}
+
+function SideCell({
+  driver,
+  side,
+  winner,
+  showCar,
+}: {
+  driver: Driver
+  side: ComparisonSide
+  winner: boolean
+  showCar: boolean
+}) {
+  return (
+    <div className={cn('rounded-md p-2 space-y-0.5', winner ? 'bg-primary/10' : 'bg-muted/40')}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm truncate">{driverName(driver)}</span>
+        <span className={cn('font-mono', winner ? 'font-bold text-primary' : 'text-muted-foreground')}>
+          {formatLapTime(side.timeMs)}
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground truncate">
+        {showCar && (side.car ? `${side.car.manufacturer} ${side.car.name}` : 'Unknown car')}
+        {side.build && (
+          <>
+            {showCar && ' · '}
+            {side.build.linkable ? (
+              <Link href={`/builds/${side.build.id}`} className="text-primary hover:underline">
+                {side.build.name || 'Build'}
+              </Link>
+            ) : (
+              <span>{side.build.name || 'Deleted build'}</span>
+            )}
+          </>
+        )}
+        {!showCar && !side.build && 'No build'}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,262 @@
+/**
+ * Lap Time CSV Import Page
+ *
+ * Purpose: Import historic lap times from a spreadsheet
+ * - Paste CSV or pick a .csv file, preview how every row matched, then import
+ * - Only "ready" rows are imported; the preview lists what will be skipped and why
+ *
+ * **Key Features:**
+ * - Preview: POST /api/lap-times/import { csv } → per-row status, matched track/car
+ * - Suggestions: Close-but-not-certain matches are shown so the file can be fixed
+ * - Import: POST /api/lap-times/import { csv, commit: true } (all-or-nothing insert)
+ * - Editing the CSV after a preview clears it (the import always matches what was previewed)
+ * - Outlier check: Implausible times show OutlierWarning under their rows; importing them
+ *   anyway sends confirmOutliers: true and they wait for an admin review
+ *
+ * **CSV Format:**
+ * - Header row required: Track, Car, Time (mm:ss.sss) - or Time (ms)
+ * - Optional: Layout, Build, Date (YYYY-MM-DD), Session (P/Q/R), Conditions, Notes
+ * - Files exported from /lap-times import again unchanged
+ *
+ * **Debugging Tips:**
+ * - Every row unmatched: Check the delimiter (comma, semicolon or tab) and header names
+ * - Row "duplicate": Same track, car and time is already recorded
+ * - Row flagged as implausible: See lib/lap-time-outliers.ts for the thresholds
+ *
+ * **Related Files:**
+ * - @/app/api/lap-times/import/route.ts: Preview / commit endpoint
+ * - @/lib/lap-time-csv.ts: Parsing and fuzzy matching
+ * - @/components/lap-times/OutlierWarning.tsx: Flagged row warning
+ * - @/app/lap-times/page.tsx: Lap times list (export buttons)
+ */
+
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { PageWrapper, PageHeader } from '@/components/layout'
+import { OutlierWarning } from '@/components/lap-times/OutlierWarning'
+import { AlertCircle, ArrowLeft, CheckCircle2, FileUp, Loader2, Upload } from 'lucide-react'
+import { formatLapTime } from '@/lib/time'
+import { cn } from '@/lib/utils'
+import type { LapTimeImportStatus, ResolvedLapTimeRow } from '@/lib/lap-time-csv'
+
+interface ImportPreview {
+  summary: Record<'total' | 'outlier' | LapTimeImportStatus, number>
+  rows: ResolvedLapTimeRow[]
+}
+
+const STATUS_LABELS: Record<LapTimeImportStatus, string> = {
+  ready: 'Ready',
+  duplicate: 'Duplicate',
+  unmatched: 'Unmatched',
+  invalid: 'Invalid',
+}
+
+const EXAMPLE_CSV = 'Track,Layout,Car,Time,Date,Session,Conditions\nSuzuka Circuit,Full Course,Porsche 911 GT3 RS,2:05.432,2024-03-01,R,Dry'
+
+export default function LapTimeImportPage() {
+  const [csv, setCsv] = useState('')
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [imported, setImported] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateCsv = (value: string) => {
+    setCsv(value)
+    setPreview(null)
+    setImported(null)
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    updateCsv(await file.text())
+  }
+
+  // The preview shows the flagged rows, so importing after it confirms them
+  const hasOutliers = (preview?.summary.outlier ?? 0) > 0
+
+  // commit: false = preview, true = insert the ready rows
+  const submit = async (commit: boolean) => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/lap-times/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv, commit, confirmOutliers: commit && hasOutliers }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        // 409: Rows were flagged since the preview - show them before importing
+        if (data.rows) setPreview({ summary: data.summary, rows: data.rows })
+        throw new Error(data.error || 'Import failed')
+      }
+
+      setPreview({ summary: data.summary, rows: data.rows })
+      if (commit) setImported(data.imported)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <PageWrapper>
+      <div>
+        <Link
+          href="/lap-times"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground gt-hover-text-link mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Lap Times
+        </Link>
+        <PageHeader
+          title="IMPORT LAP TIMES"
+          icon={FileUp}
+          description="Bring in lap times from a spreadsheet (CSV)"
+        />
+      </div>
+
+      {/* CSV input */}
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="csv-file">CSV file</Label>
+          <Input
+            id="csv-file"
+            type="file"
+            accept=".csv,text/csv,text/plain"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="min-h-[44px]"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="csv">Or paste CSV</Label>
+          <Textarea
+            id="csv"
+            value={csv}
+            onChange={(e) => updateCsv(e.target.value)}
+            placeholder={EXAMPLE_CSV}
+            rows={8}
+            className="font-mono text-xs"
+          />
+          <p className="text-xs text-muted-foreground">
+            Required columns: Track, Car, Time. Optional: Layout, Build, Date (YYYY-MM-DD), Session (P/Q/R),
+            Conditions, Notes.
+          </p>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-lg">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => submit(false)} disabled={loading || !csv.trim()} className="min-h-[44px]">
+            {loading && !preview ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Preview
+          </Button>
+          <Button
+            onClick={() => submit(true)}
+            disabled={loading || !preview || preview.summary.ready === 0 || imported !== null}
+            className="min-h-[44px]"
+          >
+            {loading && preview ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Import {preview ? preview.summary.ready : ''} {preview?.summary.ready === 1 ? 'Lap' : 'Laps'}
+            {hasOutliers ? ' Anyway' : ''}
+          </Button>
+        </div>
+      </div>
+
+      {imported !== null && (
+        <div className="flex items-center gap-2 p-4 text-sm bg-primary/10 border border-primary/20 rounded-lg">
+          <CheckCircle2 className="h-4 w-4 text-primary shrink-0" />
+          Imported {imported} lap {imported === 1 ? 'time' : 'times'}.
+          <Link href="/lap-times" className="gt-hover-text-link font-medium">View lap times</Link>
+        </div>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2 text-sm">
+            <Badge>{preview.summary.ready} ready</Badge>
+            <Badge variant="secondary">{preview.summary.duplicate} duplicate</Badge>
+            <Badge variant="outline">{preview.summary.unmatched} unmatched</Badge>
+            <Badge variant="destructive">{preview.summary.invalid} invalid</Badge>
+            {hasOutliers && (
+              <Badge variant="outline" className="border-yellow-500/30 text-yellow-600 dark:text-yellow-500">
+                {preview.summary.outlier} for review
+              </Badge>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {preview.rows.map((row) => (
+              <div
+                key={row.line}
+                className={cn(
+                  'p-3 border rounded-lg text-sm space-y-1',
+                  row.status === 'ready' ? 'border-border' : 'border-destructive/40',
+                  row.status === 'duplicate' && 'opacity-60'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground font-mono">Line {row.line}</span>
+                  <Badge
+                    variant={row.status === 'ready' ? 'default' : row.status === 'invalid' ? 'destructive' : 'outline'}
+                  >
+                    {STATUS_LABELS[row.status]}
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                  <span className="font-medium">{row.track?.label || row.input.track || '-'}</span>
+                  <span className="text-muted-foreground">•</span>
+                  <span className="text-muted-foreground">{row.car?.label || row.input.car || '-'}</span>
+                  {row.buildName && (
+                    <span className="text-xs text-muted-foreground">
+                      ({row.buildName}{row.buildId ? '' : ', not linked'})
+                    </span>
+                  )}
+                  <span className="ml-auto font-mono font-bold text-primary">
+                    {row.timeMs !== null ? formatLapTime(row.timeMs) : row.input.time}
+                  </span>
+                </div>
+                {row.issues.length > 0 && (
+                  <ul className="text-xs text-destructive space-y-0.5">
+                    {row.issues.map((issue) => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                )}
+                {(row.trackSuggestion || row.carSuggestion) && (
+                  <p className="text-xs text-muted-foreground">
+                    Did you mean{' '}
+                    {[row.trackSuggestion?.label, row.carSuggestion?.label].filter(Boolean).join(' / ')}?
+                  </p>
+                )}
+                {row.status === 'ready' && row.outlierReasons.length > 0 && (
+                  <OutlierWarning reasons={row.outlierReasons} />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </PageWrapper>
+  )
+}
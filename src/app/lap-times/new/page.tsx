@@ -9,6 +9,7 @@
  * - Page header with clock icon and title
  * - Form card with consistent styling
  * - Routes to /lap-times/new
+ * - /lap-times/new?sessionId=... adds the lap to a lap session (read by LapTimeForm)
  *
  * Layout Structure:
  * - Top border indicator line (primary color)
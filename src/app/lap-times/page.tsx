@@ -9,9 +9,16 @@
  * - Lap times listing with track/car/build information
  * - Real-time search filtering by track name, location, car name/manufacturer
  * - Personal Best (PB) badge calculation for track/car combinations
- * - Session type indicators (Qualify/Race)
+ * - Session type indicators (Practice/Qualify/Race)
+ * - Lap sessions (/lap-times/sessions): Header button, and grouped laps link to their stint
  * - Conditions and notes display
  * - Delete functionality with confirmation dialog
+ * - Edit a time with a required reason (every edit is kept in the lap's history)
+ * - History dialog: Edits and disputes of a lap; Disputed/Removed badges
+ * - Flagged laps: "Under review" badge while an admin checks an implausible time; an
+ *   implausible edited time asks for confirmation first (OutlierWarning)
+ * - CSV import (/lap-times/import) and CSV/JSON export buttons
+ * - PB progression (/lap-times/progress): Header button, and each PB badge links to its chart
  * - Responsive card-based layout
  *
  * Data Flow:
@@ -27,21 +34,30 @@
  * - personalBestsMap: Memoized Map of track/car -> best time
  * - deleteDialogOpen: Controls delete confirmation visibility
  * - lapToDelete: Currently selected lap for deletion
+ * - lapToEdit/editTime/editReason: Edit dialog state
+ * - editOutliers: Reasons the edited time looks implausible (409) - next save confirms it
+ * - historyLapId: Lap shown in the history dialog
  * - deletingId: ID of lap being deleted (for loading state)
  * - showErrorDialog/errorMessage: Error display state
  *
  * API Integration:
  * - GET /api/lap-times: Fetch user's lap times (requires auth)
- * - DELETE /api/lap-times/{id}: Delete specific lap time (requires ownership)
+ * - DELETE /api/lap-times/{id}: Delete specific lap time (requires ownership, 409 while disputed)
+ * - PATCH /api/lap-times/{id}: Edit time/notes with a reason (recorded in LapTimeEdit)
+ * - GET /api/lap-times/{id}/history: Edits + disputes (LapTimeHistoryDialog)
+ * - GET /api/lap-times/export?format=csv|json: Download all of the user's lap times
  *
  * Personal Best Logic:
  * - Key format: "{trackId}-{carId}"
  * - Calculated across all laps for each track/car combo
  * - Displayed with trophy badge when lap.timeMs === personalBest
+ * - Badge is only a marker - history, consistency and trends come from
+ *   GET /api/lap-times/progression (aggregated server-side)
  *
  * Error Handling:
  * - Network errors caught and logged to console
  * - Delete errors shown in error dialog
+ * - Edit errors shown inside the edit dialog
  * - Loading states prevent duplicate operations
  *
  * Styling:
@@ -59,8 +75,11 @@
  * - /api/lap-times/route.ts: Lap times API endpoints
  * - /api/lap-times/[id]/route.ts: Individual lap time operations
  * - @/lib/time: formatLapTime utility
+ * - @/components/lap-times/LapTimeHistoryDialog.tsx: Edit/dispute history
  * - @/components/layout: PageWrapper, PageHeader, SearchBar components
  * - /lap-times/new/page.tsx: Create new lap time
+ * - /lap-times/progress/page.tsx: PB progression charts
+ * - /lap-times/sessions/page.tsx: Lap sessions (stints)
  */
 
 'use client'
@@ -78,8 +97,28 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { formatLapTime } from '@/lib/time'
-import { Plus, Clock, Trophy, Wrench, Trash2, Loader2 } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { LapTimeHistoryDialog } from '@/components/lap-times/LapTimeHistoryDialog'
+import { formatLapTime, parseLapTime, isValidLapTime } from '@/lib/time'
+import { LAP_TIME_STATUS_LABELS } from '@/lib/lap-time-history'
+import { LAP_TIME_REVIEW_STATUS_LABELS, type OutlierReason } from '@/lib/lap-time-outliers'
+import { OutlierWarning } from '@/components/lap-times/OutlierWarning'
+import type { LapTimeReviewStatus, LapTimeStatus } from '@/types/database'
+import {
+  Plus,
+  Clock,
+  Trophy,
+  Wrench,
+  Trash2,
+  Loader2,
+  FileUp,
+  Download,
+  TrendingUp,
+  Layers,
+  Pencil,
+  History,
+} from 'lucide-react'
 import { LoadingSection } from '@/components/ui/loading'
 import { PageWrapper, PageHeader, EmptyState, SearchBar } from '@/components/layout'
 
@@ -88,7 +127,10 @@ interface LapTime {
   timeMs: number
   notes: string | null
   conditions: string | null
-  sessionType: 'Q' | 'R' | null
+  sessionType: 'P' | 'Q' | 'R' | null
+  sessionId: string | null
+  status: LapTimeStatus
+  reviewStatus: LapTimeReviewStatus | null
   createdAt: string
   buildId: string | null
   buildName: string | null
@@ -117,6 +159,13 @@ export default function LapTimesPage() {
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [showErrorDialog, setShowErrorDialog] = useState(false)
   const [errorMessage, setErrorMessage] = useState('')
+  const [lapToEdit, setLapToEdit] = useState<LapTime | null>(null)
+  const [editTime, setEditTime] = useState('')
+  const [editReason, setEditReason] = useState('')
+  const [editError, setEditError] = useState<string | null>(null)
+  const [editOutliers, setEditOutliers] = useState<OutlierReason[] | null>(null)
+  const [savingEdit, setSavingEdit] = useState(false)
+  const [historyLapId, setHistoryLapId] = useState<string | null>(null)
 
   // ===========================================================================
   // DERIVED STATE - MEMOIZED FILTERING & PERSONAL BESTS
@@ -213,6 +262,55 @@ export default function LapTimesPage() {
     }
   }
 
+  // Open edit dialog with the current time prefilled
+  function openEditDialog(lap: LapTime) {
+    setLapToEdit(lap)
+    setEditTime(formatLapTime(lap.timeMs))
+    setEditReason('')
+    setEditError(null)
+    setEditOutliers(null)
+  }
+
+  // Save the edit - the API records old/new time and the reason
+  async function saveEdit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!lapToEdit) return
+
+    const timeMs = parseLapTime(editTime)
+    if (timeMs === null || !isValidLapTime(timeMs)) {
+      setEditError('Enter a valid lap time (e.g. 1:23.456)')
+      return
+    }
+
+    setSavingEdit(true)
+    setEditError(null)
+
+    try {
+      const response = await fetch(`/api/lap-times/${lapToEdit.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timeMs, reason: editReason, confirmOutlier: !!editOutliers }),
+      })
+      const data = await response.json()
+      if (response.status === 409 && data.outlierReasons) {
+        setEditOutliers(data.outlierReasons)
+        return
+      }
+      if (!response.ok) throw new Error(data.error || 'Failed to edit lap time')
+
+      setLapTimes(lapTimes.map((lap) => (
+        lap.id === lapToEdit.id
+          ? { ...lap, timeMs: data.lapTime.timeMs, reviewStatus: data.lapTime.reviewStatus }
+          : lap
+      )))
+      setLapToEdit(null)
+    } catch (error: unknown) {
+      setEditError(error instanceof Error ? error.message : 'Failed to edit lap time')
+    } finally {
+      setSavingEdit(false)
+    }
+  }
+
   // ===========================================================================
   // RENDER
   // ===========================================================================
@@ -236,12 +334,48 @@ export default function LapTimesPage() {
         icon={Clock}
         description={`${lapTimes.length} ${lapTimes.length === 1 ? 'lap' : 'laps'} recorded`}
         actions={
-          <Button asChild>
-            <Link href="/lap-times/new">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Lap Time
-            </Link>
-          </Button>
+          <div className="flex flex-wrap gap-2">
+            <Button asChild variant="outline">
+              <Link href="/lap-times/sessions">
+                <Layers className="h-4 w-4 mr-2" />
+                Sessions
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/lap-times/import">
+                <FileUp className="h-4 w-4 mr-2" />
+                Import
+              </Link>
+            </Button>
+            {lapTimes.length > 0 && (
+              <>
+                <Button asChild variant="outline">
+                  <Link href="/lap-times/progress">
+                    <TrendingUp className="h-4 w-4 mr-2" />
+                    Progress
+                  </Link>
+                </Button>
+                <Button asChild variant="outline">
+                  <a href="/api/lap-times/export?format=csv" download>
+                    <Download className="h-4 w-4 mr-2" />
+                    CSV
+                  </a>
+                </Button>
+                <Button asChild variant="outline">
+                  <a href="/api/lap-times/export?format=json" download>
+                    <Download className="h-4 w-4 mr-2" />
+                    JSON
+                  </a>
+                </Button>
+              </>
+            )}
+            <Button asChild>
+              <Link href="/lap-times/new">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Lap Time
+              </Link>
+            </Button>
+          </div>
         }
       />
 
@@ -314,21 +448,32 @@ export default function LapTimesPage() {
                         </span>
                         {lap.sessionType && (
                           <Badge
-                            variant={lap.sessionType === 'Q' ? 'secondary' : 'default'}
+                            variant={lap.sessionType === 'Q' ? 'secondary' : lap.sessionType === 'P' ? 'outline' : 'default'}
                             className="font-bold"
                           >
                             {lap.sessionType}
                           </Badge>
                         )}
                         {isPersonalBest && (
-                          <Badge variant="default" className="flex items-center gap-1">
-                            <Trophy className="h-3 w-3" />
-                            PB
-                          </Badge>
+                          <Link
+                            href={`/lap-times/progress?trackId=${lap.track.id}&carId=${lap.car.id}&buildId=${lap.buildId || 'none'}`}
+                            title="View PB progression"
+                          >
+                            <Badge variant="default" className="flex items-center gap-1">
+                              <Trophy className="h-3 w-3" />
+                              PB
+                            </Badge>
+                          </Link>
                         )}
                         {lap.conditions && (
                           <Badge variant="outline">{lap.conditions}</Badge>
                         )}
+                        {lap.status !== 'ACTIVE' && (
+                          <Badge variant="destructive">{LAP_TIME_STATUS_LABELS[lap.status]}</Badge>
+                        )}
+                        {lap.reviewStatus === 'PENDING' && (
+                          <Badge variant="secondary">{LAP_TIME_REVIEW_STATUS_LABELS.PENDING}</Badge>
+                        )}
                       </div>
 
                       {/* Notes & Date */}
@@ -336,24 +481,52 @@ export default function LapTimesPage() {
                         {lap.notes && <p>{lap.notes}</p>}
                         <p className="text-xs text-muted-foreground">
                           {new Date(lap.createdAt).toLocaleDateString(undefined, {month: 'short', day: 'numeric', year: 'numeric'})}
+                          {lap.sessionId && (
+                            <>
+                              {' • '}
+                              <Link href={`/lap-times/sessions/${lap.sessionId}`} className="underline hover:text-foreground">
+                                View session
+                              </Link>
+                            </>
+                          )}
                         </p>
                       </div>
                     </div>
 
-                    {/* Delete Button */}
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => openDeleteDialog(lap)}
-                      disabled={deletingId === lap.id}
-                      className="gt-hover-icon-btn-destructive h-11 w-11 sm:h-10 sm:w-auto sm:px-3"
-                    >
-                      {deletingId === lap.id ? (
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                      ) : (
-                        <Trash2 className="h-4 w-4" />
-                      )}
-                    </Button>
+                    {/* Actions */}
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryLapId(lap.id)}
+                        className="h-11 w-11 sm:h-10 sm:w-auto sm:px-3"
+                        title="History"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEditDialog(lap)}
+                        className="h-11 w-11 sm:h-10 sm:w-auto sm:px-3"
+                        title="Edit"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openDeleteDialog(lap)}
+                        disabled={deletingId === lap.id}
+                        className="gt-hover-icon-btn-destructive h-11 w-11 sm:h-10 sm:w-auto sm:px-3"
+                      >
+                        {deletingId === lap.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
                   </div>
                 </div>
               )
@@ -413,6 +586,63 @@ export default function LapTimesPage() {
         </DialogContent>
       </Dialog>
 
+      {/* ========================================================================
+          EDIT DIALOG
+          ======================================================================== */}
+      <Dialog open={!!lapToEdit} onOpenChange={(open) => !open && setLapToEdit(null)}>
+        <DialogContent>
+          <form onSubmit={saveEdit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Edit Lap Time</DialogTitle>
+              <DialogDescription>
+                {lapToEdit?.track.name} • {lapToEdit?.car.manufacturer} {lapToEdit?.car.name}. The old time,
+                the new time and your reason are kept in the lap&apos;s history.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="editTime">Lap Time</Label>
+              <Input
+                id="editTime"
+                value={editTime}
+                onChange={(e) => {
+                  setEditTime(e.target.value)
+                  setEditOutliers(null)
+                }}
+                placeholder="1:23.456"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="editReason">Reason *</Label>
+              <Input
+                id="editReason"
+                value={editReason}
+                onChange={(e) => setEditReason(e.target.value)}
+                placeholder="e.g. Typo - replay shows 1:24.456"
+                maxLength={500}
+              />
+            </div>
+            {editOutliers && <OutlierWarning reasons={editOutliers} />}
+            {editError && <p className="text-sm text-destructive">{editError}</p>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setLapToEdit(null)} disabled={savingEdit}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={savingEdit || !editReason.trim()}>
+                {savingEdit && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editOutliers ? 'Save Anyway' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <LapTimeHistoryDialog
+        lapTimeId={historyLapId}
+        open={!!historyLapId}
+        onOpenChange={(open) => !open && setHistoryLapId(null)}
+      />
+
       {/* ========================================================================
           ERROR DIALOG
           ======================================================================== */}
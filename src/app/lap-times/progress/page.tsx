@@ -0,0 +1,361 @@
+/**
+ * PB Progression Page
+ *
+ * Purpose: Show how your lap times develop per track/car/build
+ * - URL driven: /lap-times/progress?trackId=...&carId=...&buildId=... (buildId "none" =
+ *   laps without a build)
+ * - Without a combo: Overview of every combo you have laps for
+ *
+ * **Key Features:**
+ * - Combo picker: Searchable, grouped by track
+ * - Stats: Best, laps, improvement since the first lap, median, consistency (std dev)
+ * - Chart: Every lap, PB step line and rolling median (ProgressionChart)
+ * - PB history: Each improvement with its date and how much it took off
+ * - Rolling window: 3 / 5 / 10 laps (also drives "recent" consistency)
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/lap-times/progression → combos (summaries only)
+ * 2. Combo chosen: router.replace() updates the URL →
+ *    GET /api/lap-times/progression?trackId&carId&buildId&window → progression
+ *
+ * **Debugging Tips:**
+ * - Combo missing: Only your own laps are included
+ * - Chart looks noisy: Increase the rolling window
+ * - Same car twice in the picker: Laps with and without a build are separate combos
+ *
+ * **Related Files:**
+ * - @/app/api/lap-times/progression/route.ts: Progression API
+ * - @/lib/pb-progression.ts: Aggregation (PBs, rolling median, std dev)
+ * - @/components/lap-times/ProgressionChart.tsx: Chart
+ * - @/app/lap-times/page.tsx: Lap times list (links here from the PB badge)
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SearchableComboBox } from '@/components/ui/searchable-combobox'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { ProgressionChart } from '@/components/lap-times/ProgressionChart'
+import { ArrowLeft, Clock, Trophy, TrendingUp, Wrench } from 'lucide-react'
+import { formatLapTime, getTimeDifference } from '@/lib/time'
+import type { Progression, ProgressionCombo } from '@/lib/pb-progression'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+type ComboWithNames = ProgressionCombo & {
+  track: { id: string; name: string; layout: string | null } | null
+  car: { id: string; name: string; manufacturer: string } | null
+}
+
+const WINDOW_OPTIONS = ['3', '5', '10']
+
+const trackLabel = (track: ComboWithNames['track']) =>
+  track ? `${track.name}${track.layout ? ` - ${track.layout}` : ''}` : 'Unknown track'
+
+const carLabel = (car: ComboWithNames['car']) => (car ? `${car.manufacturer} ${car.name}` : 'Unknown car')
+
+const comboParams = (combo: ProgressionCombo) =>
+  `trackId=${combo.trackId}&carId=${combo.carId}&buildId=${combo.buildId || 'none'}`
+
+export default function PbProgressionPage() {
+  // ============================================================
+  // STATE
+  // ============================================================
+  // Selected combo + rolling window live in the URL
+
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const trackId = searchParams.get('trackId') || ''
+  const carId = searchParams.get('carId') || ''
+  const buildId = searchParams.get('buildId') || 'none'
+  const rollingWindow = searchParams.get('window') || '5'
+  const selectedKey = trackId && carId ? `${trackId}:${carId}:${buildId}` : ''
+
+  const [combos, setCombos] = useState<ComboWithNames[]>([])
+  const [combosLoading, setCombosLoading] = useState(true)
+  const [progression, setProgression] = useState<Progression | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const comboOptions = useMemo(
+    () =>
+      combos.map((combo) => ({
+        value: combo.key,
+        label: `${carLabel(combo.car)}${combo.buildName ? ` • ${combo.buildName}` : ''}`,
+        group: trackLabel(combo.track),
+        searchTerms: `${trackLabel(combo.track)} ${carLabel(combo.car)} ${combo.buildName || ''}`,
+      })),
+    [combos]
+  )
+  const selectedCombo = combos.find((combo) => combo.key === selectedKey)
+
+  const selectCombo = (key: string) => {
+    const combo = combos.find((c) => c.key === key)
+    const params = combo ? `${comboParams(combo)}&window=${rollingWindow}` : ''
+    router.replace(params ? `/lap-times/progress?${params}` : '/lap-times/progress')
+  }
+
+  const changeWindow = (value: string) => {
+    const params = new URLSearchParams(searchParams.toString())
+    params.set('window', value)
+    router.replace(`/lap-times/progress?${params.toString()}`)
+  }
+
+  // ============================================================
+  // DATA FETCHING
+  // ============================================================
+
+  useEffect(() => {
+    const fetchCombos = async () => {
+      try {
+        const res = await fetch('/api/lap-times/progression')
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load lap times')
+        setCombos(data.combos || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load lap times')
+      } finally {
+        setCombosLoading(false)
+      }
+    }
+
+    fetchCombos()
+  }, [])
+
+  useEffect(() => {
+    const fetchProgression = async () => {
+      if (!trackId || !carId) {
+        setProgression(null)
+        return
+      }
+
+      try {
+        setLoading(true)
+        setError(null)
+        const res = await fetch(
+          `/api/lap-times/progression?trackId=${trackId}&carId=${carId}&buildId=${buildId}&window=${rollingWindow}`
+        )
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load progression')
+        setProgression(data.progression || null)
+      } catch (err) {
+        setProgression(null)
+        setError(err instanceof Error ? err.message : 'Failed to load progression')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchProgression()
+  }, [trackId, carId, buildId, rollingWindow])
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  if (combosLoading) {
+    return (
+      <PageWrapper>
+        <LoadingSection text="Loading lap times..." />
+      </PageWrapper>
+    )
+  }
+
+  const stats = progression?.stats
+
+  return (
+    <PageWrapper>
+      <div>
+        <Link
+          href="/lap-times"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground gt-hover-text-link mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Lap Times
+        </Link>
+        <PageHeader
+          title="PB PROGRESSION"
+          icon={TrendingUp}
+          description="How your lap times develop per track, car and build"
+        />
+      </div>
+
+      {combos.length === 0 ? (
+        <EmptyState icon={Clock} title="No lap times recorded yet" />
+      ) : (
+        <>
+          {/* ========================================================================
+              PICKERS
+              ======================================================================== */}
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-3 items-end">
+            <div className="space-y-2">
+              <Label>Track / Car / Build</Label>
+              <SearchableComboBox
+                options={comboOptions}
+                value={selectedKey}
+                onValueChange={selectCombo}
+                placeholder="Select a combination..."
+                searchPlaceholder="Search tracks, cars, builds..."
+                emptyText="No lap times found."
+                grouped
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="window">Rolling window</Label>
+              <Select value={rollingWindow} onValueChange={changeWindow}>
+                <SelectTrigger id="window" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WINDOW_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option} laps
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {/* ========================================================================
+              SELECTED COMBO
+              ======================================================================== */}
+          {loading ? (
+            <LoadingSection text="Loading progression..." />
+          ) : progression && stats ? (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <div className="border border-border rounded-lg p-3 bg-muted/30">
+                  <p className="text-xs text-muted-foreground font-mono mb-1">Best</p>
+                  <p className="text-lg font-bold font-mono text-primary">{formatLapTime(stats.bestMs)}</p>
+                </div>
+                <div className="border border-border rounded-lg p-3 bg-muted/30">
+                  <p className="text-xs text-muted-foreground font-mono mb-1">Laps</p>
+                  <p className="text-lg font-bold">{stats.lapCount}</p>
+                </div>
+                <div className="border border-border rounded-lg p-3 bg-muted/30">
+                  <p className="text-xs text-muted-foreground font-mono mb-1">Since first lap</p>
+                  <p className="text-lg font-bold font-mono">{getTimeDifference(stats.bestMs, stats.firstMs)}</p>
+                </div>
+                <div className="border border-border rounded-lg p-3 bg-muted/30">
+                  <p className="text-xs text-muted-foreground font-mono mb-1">Median</p>
+                  <p className="text-lg font-bold font-mono">{formatLapTime(stats.medianMs)}</p>
+                </div>
+                <div className="border border-border rounded-lg p-3 bg-muted/30">
+                  <p className="text-xs text-muted-foreground font-mono mb-1">Consistency (σ)</p>
+                  <p className="text-lg font-bold font-mono">
+                    {stats.stdDevMs !== null ? `±${(stats.stdDevMs / 1000).toFixed(3)}` : '-'}
+                  </p>
+                  {stats.recentStdDevMs !== null && (
+                    <p className="text-xs text-muted-foreground font-mono">
+                      last {progression.window}: ±{(stats.recentStdDevMs / 1000).toFixed(3)}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="h-5 w-5" />
+                    {selectedCombo ? trackLabel(selectedCombo.track) : 'Progression'}
+                  </CardTitle>
+                  {selectedCombo && (
+                    <CardDescription className="flex flex-wrap items-center gap-2">
+                      {carLabel(selectedCombo.car)}
+                      {selectedCombo.buildName && (
+                        <span className="flex items-center gap-1">
+                          <Wrench className="h-3 w-3" />
+                          {selectedCombo.buildName}
+                        </span>
+                      )}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <ProgressionChart points={progression.points} window={progression.window} />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Trophy className="h-5 w-5" />
+                    Personal Bests
+                  </CardTitle>
+                  <CardDescription>
+                    {progression.improvements.length} {progression.improvements.length === 1 ? 'PB' : 'PBs'} set
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-1">
+                    {[...progression.improvements].reverse().map((pb) => (
+                      <div key={pb.lapId} className="flex items-center justify-between gap-3 p-2 rounded gt-hover-card text-sm">
+                        <span className="font-mono font-bold">{formatLapTime(pb.timeMs)}</span>
+                        {pb.improvementMs !== null ? (
+                          <Badge variant="secondary" className="font-mono">
+                            {getTimeDifference(-pb.improvementMs, 0)}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">First lap</Badge>
+                        )}
+                        <span className="ml-auto text-xs text-muted-foreground">
+                          {new Date(pb.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          ) : (
+            /* ========================================================================
+               OVERVIEW (NO COMBO SELECTED)
+               ======================================================================== */
+            <div className="space-y-2">
+              {combos.map((combo) => (
+                <Link
+                  key={combo.key}
+                  href={`/lap-times/progress?${comboParams(combo)}&window=${rollingWindow}`}
+                  className="flex items-center gap-3 p-3 border border-border rounded-lg gt-hover-card"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold truncate">{trackLabel(combo.track)}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {carLabel(combo.car)}
+                      {combo.buildName && ` • ${combo.buildName}`}
+                    </p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="font-mono font-bold text-primary">{formatLapTime(combo.bestMs)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {combo.lapCount} {combo.lapCount === 1 ? 'lap' : 'laps'} • {combo.pbCount} {combo.pbCount === 1 ? 'PB' : 'PBs'}
+                      {combo.improvementMs > 0 && ` • ${getTimeDifference(-combo.improvementMs, 0)}`}
+                    </p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </PageWrapper>
+  )
+}
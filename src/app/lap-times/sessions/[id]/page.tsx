@@ -0,0 +1,451 @@
+/**
+ * Lap Session Detail Page
+ *
+ * Purpose: One stint - its laps in driving order and its stats
+ * - Stats: Laps, average, fastest lap, spread, consistency (std dev)
+ * - Laps: Numbered in driving order, fastest lap highlighted, delta to the fastest
+ *
+ * **Key Features:**
+ * - Add Lap: /lap-times/new?sessionId=... (LapTimeForm returns here after saving)
+ * - Group laps: Tick your ungrouped laps at this track and add them to the session
+ * - Remove a lap: It stays in your lap times, just without a session
+ * - Change the session type (re-types every lap) or delete the session (laps are kept)
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/lap-sessions/[id] → session + laps + stats
+ *    GET /api/lap-times?trackId=... → candidate laps (no session yet)
+ * 2. Changes: PATCH /api/lap-sessions/[id] (addLapTimeIds / removeLapTimeIds / sessionType) → reload
+ * 3. Delete: DELETE /api/lap-sessions/[id] → /lap-times/sessions
+ *
+ * **Debugging Tips:**
+ * - Lap missing from "Add existing laps": It is already in another session, or at another track
+ * - Session type badge on laps changed: Expected - the session decides the type of its laps
+ *
+ * **Related Files:**
+ * - @/app/api/lap-sessions/[id]/route.ts: Detail, update, delete
+ * - @/app/lap-times/sessions/page.tsx: Sessions list
+ * - @/components/lap-times/LapTimeForm.tsx: Adds laps via ?sessionId=
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { ArrowLeft, Clock, Layers, Loader2, Plus, Trash2, Trophy, Wrench, X } from 'lucide-react'
+import { formatLapTime, getTimeDifference } from '@/lib/time'
+import { SESSION_TYPE_LABELS, type SessionType, type StintStats } from '@/lib/lap-sessions'
+import { cn } from '@/lib/utils'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface SessionLap {
+  id: string
+  timeMs: number
+  notes: string | null
+  createdAt: string
+  buildName: string | null
+  car: { id: string; name: string; manufacturer: string } | null
+}
+
+interface LapSessionDetail {
+  id: string
+  trackId: string
+  date: string
+  sessionType: SessionType
+  conditions: string | null
+  notes: string | null
+  track: { id: string; name: string; layout: string | null } | null
+  race: { id: string; name: string | null } | null
+  laps: SessionLap[]
+  stats: StintStats | null
+}
+
+interface CandidateLap {
+  id: string
+  timeMs: number
+  createdAt: string
+  sessionId: string | null
+  car: { name: string; manufacturer: string }
+}
+
+export default function LapSessionPage() {
+  const params = useParams<{ id: string }>()
+  const router = useRouter()
+
+  // ============================================================
+  // STATE
+  // ============================================================
+
+  const [lapSession, setLapSession] = useState<LapSessionDetail | null>(null)
+  const [candidates, setCandidates] = useState<CandidateLap[]>([])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+
+  // ============================================================
+  // DATA FETCHING
+  // ============================================================
+
+  const loadSession = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/lap-sessions/${params.id}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load session')
+
+      setLapSession(data.session)
+
+      const lapsRes = await fetch(`/api/lap-times?trackId=${data.session.trackId}`)
+      if (lapsRes.ok) {
+        const lapsData = await lapsRes.json()
+        setCandidates(((lapsData.lapTimes || []) as CandidateLap[]).filter((lap) => !lap.sessionId))
+      }
+      setSelectedIds([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load session')
+    } finally {
+      setLoading(false)
+    }
+  }, [params.id])
+
+  useEffect(() => {
+    loadSession()
+  }, [loadSession])
+
+  // ============================================================
+  // MUTATIONS
+  // ============================================================
+
+  const updateSession = async (body: Record<string, unknown>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/lap-sessions/${params.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to update session')
+
+      await loadSession()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update session')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteSession = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/lap-sessions/${params.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete session')
+      }
+      router.push('/lap-times/sessions')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete session')
+      setDeleteDialogOpen(false)
+      setSaving(false)
+    }
+  }
+
+  const toggleCandidate = (lapId: string) => {
+    setSelectedIds((current) =>
+      current.includes(lapId) ? current.filter((id) => id !== lapId) : [...current, lapId]
+    )
+  }
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  if (loading) {
+    return (
+      <PageWrapper>
+        <LoadingSection text="Loading session..." />
+      </PageWrapper>
+    )
+  }
+
+  if (!lapSession) {
+    return (
+      <PageWrapper>
+        <EmptyState
+          icon={Layers}
+          title="Session not found"
+          description={error || undefined}
+          actions={
+            <Button asChild variant="outline">
+              <Link href="/lap-times/sessions">Back to Sessions</Link>
+            </Button>
+          }
+        />
+      </PageWrapper>
+    )
+  }
+
+  const { stats } = lapSession
+  const trackName = lapSession.track
+    ? `${lapSession.track.name}${lapSession.track.layout ? ` - ${lapSession.track.layout}` : ''}`
+    : 'Unknown track'
+
+  return (
+    <PageWrapper>
+      <div>
+        <Link
+          href="/lap-times/sessions"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground gt-hover-text-link mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Sessions
+        </Link>
+        <PageHeader
+          title={trackName.toUpperCase()}
+          icon={Layers}
+          description={[
+            `${SESSION_TYPE_LABELS[lapSession.sessionType]} session`,
+            new Date(`${lapSession.date}T00:00:00`).toLocaleDateString(undefined, {
+              month: 'short',
+              day: 'numeric',
+              year: 'numeric',
+            }),
+            lapSession.race?.name,
+            lapSession.conditions,
+          ]
+            .filter(Boolean)
+            .join(' • ')}
+          actions={
+            <div className="flex flex-wrap gap-2">
+              <Button asChild>
+                <Link href={`/lap-times/new?sessionId=${lapSession.id}`}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Lap
+                </Link>
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setDeleteDialogOpen(true)}
+                disabled={saving}
+                className="gt-hover-icon-btn-destructive"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          }
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {lapSession.notes && <p className="text-sm text-muted-foreground">{lapSession.notes}</p>}
+
+      {/* ========================================================================
+          STINT STATS
+          ======================================================================== */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="border border-border rounded-lg p-3 bg-muted/30">
+          <p className="text-xs text-muted-foreground font-mono mb-1">Laps</p>
+          <p className="text-lg font-bold">{stats?.lapCount || 0}</p>
+        </div>
+        <div className="border border-border rounded-lg p-3 bg-muted/30">
+          <p className="text-xs text-muted-foreground font-mono mb-1">Fastest</p>
+          <p className="text-lg font-bold font-mono text-primary">{stats ? formatLapTime(stats.fastestMs) : '-'}</p>
+        </div>
+        <div className="border border-border rounded-lg p-3 bg-muted/30">
+          <p className="text-xs text-muted-foreground font-mono mb-1">Average</p>
+          <p className="text-lg font-bold font-mono">{stats ? formatLapTime(stats.averageMs) : '-'}</p>
+        </div>
+        <div className="border border-border rounded-lg p-3 bg-muted/30">
+          <p className="text-xs text-muted-foreground font-mono mb-1">Spread</p>
+          <p className="text-lg font-bold font-mono">{stats ? `${(stats.spreadMs / 1000).toFixed(3)}s` : '-'}</p>
+        </div>
+        <div className="border border-border rounded-lg p-3 bg-muted/30">
+          <p className="text-xs text-muted-foreground font-mono mb-1">Consistency (σ)</p>
+          <p className="text-lg font-bold font-mono">
+            {stats?.stdDevMs != null ? `±${(stats.stdDevMs / 1000).toFixed(3)}` : '-'}
+          </p>
+        </div>
+      </div>
+
+      {/* ========================================================================
+          LAPS
+          ======================================================================== */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Laps
+            </CardTitle>
+            <CardDescription>In driving order</CardDescription>
+          </div>
+          <Select
+            value={lapSession.sessionType}
+            onValueChange={(value) => updateSession({ sessionType: value })}
+            disabled={saving}
+          >
+            <SelectTrigger className="w-36" aria-label="Session type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SESSION_TYPE_LABELS) as SessionType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {SESSION_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {lapSession.laps.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No laps in this session yet</p>
+          ) : (
+            <div className="space-y-1">
+              {lapSession.laps.map((lap, index) => {
+                const isFastest = lap.id === stats?.fastestLapId
+                return (
+                  <div
+                    key={lap.id}
+                    className={cn(
+                      'flex items-center gap-3 p-2 rounded text-sm',
+                      isFastest ? 'bg-primary/10 border border-primary/30' : 'gt-hover-card'
+                    )}
+                  >
+                    <span className="w-8 text-xs text-muted-foreground font-mono">L{index + 1}</span>
+                    <span className={cn('font-mono font-bold', isFastest && 'text-primary')}>
+                      {formatLapTime(lap.timeMs)}
+                    </span>
+                    {isFastest ? (
+                      <Badge variant="default" className="flex items-center gap-1">
+                        <Trophy className="h-3 w-3" />
+                        Fastest
+                      </Badge>
+                    ) : (
+                      stats && (
+                        <span className="text-xs font-mono text-muted-foreground">
+                          {getTimeDifference(lap.timeMs, stats.fastestMs)}
+                        </span>
+                      )
+                    )}
+                    <span className="hidden sm:flex items-center gap-1 text-muted-foreground truncate">
+                      {lap.car && `${lap.car.manufacturer} ${lap.car.name}`}
+                      {lap.buildName && (
+                        <>
+                          <Wrench className="h-3 w-3 ml-1" />
+                          {lap.buildName}
+                        </>
+                      )}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateSession({ removeLapTimeIds: [lap.id] })}
+                      disabled={saving}
+                      className="ml-auto h-8 w-8 p-0"
+                      title="Remove from session (the lap is kept)"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* ========================================================================
+          ADD EXISTING LAPS
+          ======================================================================== */}
+      {candidates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Existing Laps</CardTitle>
+            <CardDescription>Your laps at this track that aren&apos;t in a session yet</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1 max-h-80 overflow-y-auto">
+              {candidates.map((lap) => (
+                <label
+                  key={lap.id}
+                  className="flex items-center gap-3 p-2 rounded gt-hover-card text-sm cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(lap.id)}
+                    onChange={() => toggleCandidate(lap.id)}
+                    className="w-4 h-4"
+                  />
+                  <span className="font-mono font-bold">{formatLapTime(lap.timeMs)}</span>
+                  <span className="text-muted-foreground truncate">
+                    {lap.car.manufacturer} {lap.car.name}
+                  </span>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {new Date(lap.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <Button
+              onClick={() => updateSession({ addLapTimeIds: selectedIds })}
+              disabled={saving || selectedIds.length === 0}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add {selectedIds.length || ''} {selectedIds.length === 1 ? 'Lap' : 'Laps'}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* ========================================================================
+          DELETE CONFIRMATION
+          ======================================================================== */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Session</DialogTitle>
+            <DialogDescription>
+              The session is removed; its {stats?.lapCount || 0} laps stay in your lap times.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={deleteSession} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </PageWrapper>
+  )
+}
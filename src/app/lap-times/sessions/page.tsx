@@ -0,0 +1,388 @@
+/**
+ * Lap Sessions Page
+ *
+ * Purpose: Your stints - laps driven in one sitting, grouped as one entity
+ * - Each session: Type (Practice/Qualifying/Race), track, optional race, date, conditions
+ * - Stint stats per session: Laps, average, fastest lap, spread
+ *
+ * **Key Features:**
+ * - Create form: Race (optional - sets the track) or track, date, type, conditions, notes
+ * - New session opens its detail page to add laps
+ * - List: Newest first, each card links to /lap-times/sessions/[id]
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/lap-sessions, GET /api/tracks, GET /api/races
+ * 2. Create: POST /api/lap-sessions → router.push(/lap-times/sessions/[id])
+ *
+ * **Debugging Tips:**
+ * - Stats show "-": The session has no laps yet
+ * - "Race is at a different track": Track picker is disabled while a race is selected
+ *
+ * **Related Files:**
+ * - @/app/api/lap-sessions/route.ts: List + create
+ * - @/app/lap-times/sessions/[id]/page.tsx: Session detail
+ * - @/lib/lap-sessions.ts: Stint stats, session type labels
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SearchableComboBox } from '@/components/ui/searchable-combobox'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { ArrowLeft, Layers, Loader2, Plus, Trophy } from 'lucide-react'
+import { formatLapTime } from '@/lib/time'
+import { formatTrackOptions } from '@/lib/dropdown-helpers'
+import { SESSION_TYPE_LABELS, type SessionType, type StintStats } from '@/lib/lap-sessions'
+import type { DbTrack } from '@/types/database'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface LapSessionListItem {
+  id: string
+  date: string
+  sessionType: SessionType
+  conditions: string | null
+  notes: string | null
+  track: { id: string; name: string; layout: string | null } | null
+  race: { id: string; name: string | null } | null
+  stats: StintStats | null
+}
+
+interface RaceOption {
+  id: string
+  name: string | null
+  trackId: string
+  track: { name: string } | null
+}
+
+// Select components can't use '' as an item value
+const NONE = '__none__'
+
+const SESSION_TYPE_BADGE: Record<SessionType, 'default' | 'secondary' | 'outline'> = {
+  R: 'default',
+  Q: 'secondary',
+  P: 'outline',
+}
+
+const trackLabel = (track: LapSessionListItem['track']) =>
+  track ? `${track.name}${track.layout ? ` - ${track.layout}` : ''}` : 'Unknown track'
+
+export default function LapSessionsPage() {
+  const router = useRouter()
+
+  // ============================================================
+  // STATE
+  // ============================================================
+
+  const [sessions, setSessions] = useState<LapSessionListItem[]>([])
+  const [tracks, setTracks] = useState<DbTrack[]>([])
+  const [races, setRaces] = useState<RaceOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [showForm, setShowForm] = useState(false)
+  const [raceId, setRaceId] = useState('')
+  const [trackId, setTrackId] = useState('')
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10))
+  const [sessionType, setSessionType] = useState<SessionType>('P')
+  const [conditions, setConditions] = useState('')
+  const [notes, setNotes] = useState('')
+  const [creating, setCreating] = useState(false)
+
+  const trackOptions = useMemo(() => formatTrackOptions(tracks), [tracks])
+
+  // ============================================================
+  // DATA FETCHING
+  // ============================================================
+
+  useEffect(() => {
+    async function loadData() {
+      try {
+        const [sessionsRes, tracksRes, racesRes] = await Promise.all([
+          fetch('/api/lap-sessions'),
+          fetch('/api/tracks'),
+          fetch('/api/races'),
+        ])
+
+        const sessionsData = await sessionsRes.json()
+        if (!sessionsRes.ok) throw new Error(sessionsData.error || 'Failed to load sessions')
+
+        setSessions(sessionsData.sessions || [])
+        setTracks((await tracksRes.json()).tracks || [])
+        setRaces((await racesRes.json()).races || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load sessions')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadData()
+  }, [])
+
+  // ============================================================
+  // CREATE SESSION
+  // ============================================================
+
+  const handleRaceChange = (value: string) => {
+    const race = races.find((option) => option.id === value)
+    setRaceId(race ? race.id : '')
+    if (race) {
+      setTrackId(race.trackId)
+      setSessionType('R')
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!trackId && !raceId) {
+      setError('Please select a track or race')
+      return
+    }
+
+    setCreating(true)
+    try {
+      const response = await fetch('/api/lap-sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          trackId: raceId ? undefined : trackId,
+          raceId: raceId || undefined,
+          date,
+          sessionType,
+          conditions: conditions || undefined,
+          notes: notes || undefined,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to create session')
+
+      router.push(`/lap-times/sessions/${data.session.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create session')
+      setCreating(false)
+    }
+  }
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  if (loading) {
+    return (
+      <PageWrapper>
+        <LoadingSection text="Loading sessions..." />
+      </PageWrapper>
+    )
+  }
+
+  return (
+    <PageWrapper>
+      <div>
+        <Link
+          href="/lap-times"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground gt-hover-text-link mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Lap Times
+        </Link>
+        <PageHeader
+          title="LAP SESSIONS"
+          icon={Layers}
+          description={`${sessions.length} ${sessions.length === 1 ? 'session' : 'sessions'} - stints of laps driven in one sitting`}
+          actions={
+            !showForm && (
+              <Button onClick={() => setShowForm(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Session
+              </Button>
+            )
+          }
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {/* ========================================================================
+          CREATE FORM
+          ======================================================================== */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Session</CardTitle>
+            <CardDescription>Add laps to it afterwards, or pick it when adding a lap time</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="race">Race (optional)</Label>
+                <Select value={raceId || NONE} onValueChange={handleRaceChange}>
+                  <SelectTrigger id="race">
+                    <SelectValue placeholder="No race" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No race</SelectItem>
+                    {races.map((race) => (
+                      <SelectItem key={race.id} value={race.id}>
+                        {race.name || race.track?.name || 'Untitled race'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Track *</Label>
+                <SearchableComboBox
+                  options={trackOptions}
+                  value={trackId}
+                  onValueChange={setTrackId}
+                  placeholder="Select a track..."
+                  searchPlaceholder="Search tracks..."
+                  emptyText="No tracks found."
+                  disabled={!!raceId}
+                  grouped
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="date">Date</Label>
+                <Input id="date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sessionType">Session Type</Label>
+                <Select value={sessionType} onValueChange={(value) => setSessionType(value as SessionType)}>
+                  <SelectTrigger id="sessionType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SESSION_TYPE_LABELS) as SessionType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {SESSION_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="conditions">Conditions (optional)</Label>
+                <Select
+                  value={conditions || NONE}
+                  onValueChange={(value) => setConditions(value === NONE ? '' : value)}
+                >
+                  <SelectTrigger id="conditions">
+                    <SelectValue placeholder="Not specified" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Not specified</SelectItem>
+                    <SelectItem value="Dry">Dry</SelectItem>
+                    <SelectItem value="Wet">Wet</SelectItem>
+                    <SelectItem value="Mixed">Mixed Conditions</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="notes">Notes (optional)</Label>
+                <Textarea
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Fuel strategy, setup changes, ..."
+                  rows={2}
+                />
+              </div>
+              <div className="flex gap-2 sm:col-span-2">
+                <Button type="submit" disabled={creating}>
+                  {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create Session
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setShowForm(false)} disabled={creating}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* ========================================================================
+          SESSION LIST
+          ======================================================================== */}
+      {sessions.length === 0 ? (
+        <EmptyState
+          icon={Layers}
+          title="No sessions yet"
+          description="Create a session to group a stint of laps and see its average and fastest lap"
+        />
+      ) : (
+        <div className="space-y-2">
+          {sessions.map((lapSession) => (
+            <Link
+              key={lapSession.id}
+              href={`/lap-times/sessions/${lapSession.id}`}
+              className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 border border-border rounded-lg gt-hover-card"
+            >
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={SESSION_TYPE_BADGE[lapSession.sessionType]} className="font-bold">
+                    {SESSION_TYPE_LABELS[lapSession.sessionType]}
+                  </Badge>
+                  <span className="font-semibold truncate">{trackLabel(lapSession.track)}</span>
+                  {lapSession.conditions && <Badge variant="outline">{lapSession.conditions}</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {new Date(`${lapSession.date}T00:00:00`).toLocaleDateString(undefined, {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                  })}
+                  {lapSession.race && ` • ${lapSession.race.name || 'Race'}`}
+                </p>
+              </div>
+              <div className="grid grid-cols-3 gap-4 text-right shrink-0">
+                <div>
+                  <p className="text-xs text-muted-foreground font-mono">Laps</p>
+                  <p className="font-bold">{lapSession.stats?.lapCount || 0}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground font-mono">Average</p>
+                  <p className="font-mono font-bold">
+                    {lapSession.stats ? formatLapTime(lapSession.stats.averageMs) : '-'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground font-mono flex items-center justify-end gap-1">
+                    <Trophy className="h-3 w-3" />
+                    Fastest
+                  </p>
+                  <p className="font-mono font-bold text-primary">
+                    {lapSession.stats ? formatLapTime(lapSession.stats.fastestMs) : '-'}
+                  </p>
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </PageWrapper>
+  )
+}
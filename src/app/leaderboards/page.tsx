@@ -0,0 +1,577 @@
+/**
+ * Global Leaderboards Page
+ *
+ * Purpose: Rank every driver's best lap at a track, across all races and builds
+ * - URL driven: /leaderboards?trackId=...&category=GR3 (shareable, bookmarkable)
+ * - One row per driver with gap to the leader and a link to the build used
+ *
+ * **Key Features:**
+ * - Track picker: Searchable, grouped by country
+ * - Filters: Car category, car, build (of the chosen car), conditions, session type, date range
+ * - Gap to leader: getTimeDifference() against P1
+ * - Build link: Only for public builds (or your own) - otherwise the name is plain text
+ * - Flagged laps: "Under review" badge while an admin checks an implausible time
+ * - Disputed laps: Marked with a badge; the history button shows edits/disputes and lets
+ *   you dispute someone else's lap (LapTimeHistoryDialog)
+ * - Track records: Overall and per-category record holders above the list (ignores filters)
+ * - Head to Head: Links to /compare/drivers (two drivers across all common tracks)
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/tracks + GET /api/cars (pickers)
+ * 2. Car chosen: GET /api/builds?carId= (build picker)
+ * 3. Track chosen / filters change: router.replace() updates the URL →
+ *    GET /api/leaderboards?trackId=...&filters → entries
+ *    GET /api/track-records?trackId=... → records
+ * 4. Dispute raised: Leaderboard refetched (reloadKey)
+ *
+ * **API Integration:**
+ * - GET /api/leaderboards: Ranked entries
+ * - GET /api/track-records: Current track records
+ * - GET /api/tracks, /api/cars, /api/builds?carId=: Picker options
+ *
+ * **Debugging Tips:**
+ * - Driver missing: None of their laps match every filter (check the date range)
+ * - Build not clickable: The build is private (or was deleted - name is the lap's snapshot)
+ * - Changing the car clears the build filter (builds belong to one car)
+ * - Driver gone after a dispute: An admin removed the lap (LapTime.status = REMOVED)
+ *
+ * **Related Files:**
+ * - @/app/api/leaderboards/route.ts: Leaderboard API
+ * - @/lib/leaderboard.ts: Ranking (best lap per user)
+ * - @/app/races/[id]/page.tsx: Per-race leaderboard (only that race's builds)
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SearchableComboBox } from '@/components/ui/searchable-combobox'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { LapTimeHistoryDialog } from '@/components/lap-times/LapTimeHistoryDialog'
+import { Flag, History, Medal, ShieldAlert, Swords, Trophy, X } from 'lucide-react'
+import { formatCarOptions, formatTrackOptions } from '@/lib/dropdown-helpers'
+import { formatLapTime, getTimeDifference } from '@/lib/time'
+import { cn } from '@/lib/utils'
+import { SESSION_TYPE_LABELS, type SessionType } from '@/lib/lap-sessions'
+import { recordScopeLabel } from '@/lib/track-records'
+import type { DbCar, DbTrack, DbTrackRecord } from '@/types/database'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface LeaderboardEntry {
+  position: number
+  user: { id: string; name: string | null; gamertag: string | null } | null
+  timeMs: number
+  gapToLeaderMs: number
+  totalLaps: number
+  lapId: string
+  createdAt: string
+  conditions: string | null
+  sessionType: SessionType | null
+  disputed: boolean
+  underReview: boolean
+  car: { id: string; name: string; manufacturer: string; category: string | null } | null
+  build: { id: string; name: string | null; linkable: boolean } | null
+}
+
+type TrackRecord = DbTrackRecord & {
+  user: { id: string; name: string | null; gamertag: string | null } | null
+  lapTime: { car: { name: string; manufacturer: string } | null } | null
+}
+
+interface PickerBuild {
+  id: string
+  name: string
+}
+
+// URL parameters (besides trackId) that filter the leaderboard
+const FILTER_KEYS = ['category', 'carId', 'buildId', 'conditions', 'sessionType', 'from', 'to'] as const
+
+// Select components can't use '' as an item value
+const ANY_VALUE = '__any__'
+
+const CATEGORY_OPTIONS = [
+  'N100', 'N200', 'N300', 'N400', 'N500', 'N600', 'N700', 'N800', 'N900', 'N1000',
+  'GR1', 'GR2', 'GR3', 'GR4', 'RALLY', 'KART', 'VISION_GT', 'OTHER',
+]
+
+const CONDITIONS_OPTIONS = [
+  { value: 'Dry', label: 'Dry' },
+  { value: 'Wet', label: 'Wet' },
+  { value: 'Mixed', label: 'Mixed Conditions' },
+]
+
+const SESSION_TYPE_OPTIONS = (['Q', 'R', 'P'] as const).map((value) => ({
+  value,
+  label: SESSION_TYPE_LABELS[value],
+}))
+
+export default function LeaderboardsPage() {
+  // ============================================================
+  // STATE
+  // ============================================================
+  // Filters live in the URL; everything else is fetched data
+
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const trackId = searchParams.get('trackId') || ''
+  const carId = searchParams.get('carId') || ''
+
+  const [tracks, setTracks] = useState<DbTrack[]>([])
+  const [cars, setCars] = useState<DbCar[]>([])
+  const [carBuilds, setCarBuilds] = useState<PickerBuild[]>([])
+  const [pickersLoading, setPickersLoading] = useState(true)
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([])
+  const [records, setRecords] = useState<TrackRecord[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [historyEntry, setHistoryEntry] = useState<LeaderboardEntry | null>(null)
+
+  const trackOptions = useMemo(() => formatTrackOptions(tracks), [tracks])
+  const carOptions = useMemo(() => formatCarOptions(cars), [cars])
+  const buildOptions = useMemo(
+    () => carBuilds.map((build) => ({ value: build.id, label: build.name })),
+    [carBuilds]
+  )
+  const selectedTrack = tracks.find((track) => track.id === trackId)
+  const hasFilters = FILTER_KEYS.some((key) => searchParams.get(key))
+
+  // ============================================================
+  // URL UPDATES
+  // ============================================================
+
+  const updateParams = (changes: Record<string, string>) => {
+    const params = new URLSearchParams(searchParams.toString())
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) {
+        params.set(key, value)
+      } else {
+        params.delete(key)
+      }
+    }
+    const query = params.toString()
+    router.replace(query ? `/leaderboards?${query}` : '/leaderboards')
+  }
+
+  const clearFilters = () => {
+    updateParams(Object.fromEntries(FILTER_KEYS.map((key) => [key, ''])))
+  }
+
+  // ============================================================
+  // DATA FETCHING - PICKERS
+  // ============================================================
+
+  useEffect(() => {
+    const fetchPickers = async () => {
+      try {
+        const [tracksRes, carsRes] = await Promise.all([fetch('/api/tracks'), fetch('/api/cars')])
+        if (tracksRes.ok) setTracks((await tracksRes.json()).tracks || [])
+        if (carsRes.ok) setCars((await carsRes.json()).cars || [])
+      } catch (err) {
+        console.error('Error fetching tracks/cars:', err)
+      } finally {
+        setPickersLoading(false)
+      }
+    }
+
+    fetchPickers()
+  }, [])
+
+  // Current user - hides the dispute form on your own laps
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        const res = await fetch('/api/auth/session')
+        const data = await res.json()
+        setCurrentUserId(data?.user?.id || null)
+      } catch (err) {
+        console.error('Error fetching session:', err)
+      }
+    }
+
+    fetchSession()
+  }, [])
+
+  useEffect(() => {
+    const fetchCarBuilds = async () => {
+      if (!carId) {
+        setCarBuilds([])
+        return
+      }
+
+      try {
+        const res = await fetch(`/api/builds?carId=${carId}`)
+        if (res.ok) setCarBuilds((await res.json()).builds || [])
+      } catch (err) {
+        console.error('Error fetching builds for car:', err)
+      }
+    }
+
+    fetchCarBuilds()
+  }, [carId])
+
+  // ============================================================
+  // DATA FETCHING - LEADERBOARD
+  // ============================================================
+
+  const leaderboardQuery = useMemo(() => {
+    const params = new URLSearchParams()
+    if (trackId) params.set('trackId', trackId)
+    for (const key of FILTER_KEYS) {
+      const value = searchParams.get(key)
+      if (value) params.set(key, value)
+    }
+    return params.toString()
+  }, [searchParams, trackId])
+
+  useEffect(() => {
+    const fetchLeaderboard = async () => {
+      if (!trackId) {
+        setEntries([])
+        setError(null)
+        return
+      }
+
+      try {
+        setLoading(true)
+        setError(null)
+        const res = await fetch(`/api/leaderboards?${leaderboardQuery}`)
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load leaderboard')
+        setEntries(data.entries || [])
+      } catch (err) {
+        setEntries([])
+        setError(err instanceof Error ? err.message : 'Failed to load leaderboard')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchLeaderboard()
+  }, [leaderboardQuery, trackId, reloadKey])
+
+  // Records don't follow the filters - they are the track's all-time bests
+  useEffect(() => {
+    const fetchRecords = async () => {
+      if (!trackId) {
+        setRecords([])
+        return
+      }
+
+      try {
+        const res = await fetch(`/api/track-records?trackId=${trackId}`)
+        const data = await res.json()
+        setRecords(res.ok ? data.records || [] : [])
+      } catch (err) {
+        console.error('Failed to fetch track records:', err)
+        setRecords([])
+      }
+    }
+
+    fetchRecords()
+  }, [trackId, reloadKey])
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  const leaderTime = entries[0]?.timeMs
+
+  return (
+    <PageWrapper>
+      <PageHeader
+        title="LEADERBOARDS"
+        icon={Trophy}
+        description={
+          selectedTrack
+            ? `${entries.length} ${entries.length === 1 ? 'driver' : 'drivers'} at ${selectedTrack.name}${selectedTrack.layout ? ` - ${selectedTrack.layout}` : ''}`
+            : 'Best lap per driver at any track'
+        }
+        actions={
+          <Button variant="ghostBordered" size="sm" asChild className="min-h-[44px]">
+            <Link href="/compare/drivers">
+              <Swords className="h-4 w-4 mr-2" />
+              Head to Head
+            </Link>
+          </Button>
+        }
+      />
+
+      {/* Filters */}
+      {/* - Track is required; everything else narrows the laps that count */}
+      <div className="flex flex-col gap-3">
+        <SearchableComboBox
+          options={trackOptions}
+          value={trackId}
+          onValueChange={(value) => updateParams({ trackId: value })}
+          placeholder="Select a track..."
+          searchPlaceholder="Search tracks..."
+          emptyText="No tracks found."
+          grouped
+          isLoading={pickersLoading}
+          className="min-h-[44px]"
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <SearchableComboBox
+            options={carOptions}
+            value={carId}
+            onValueChange={(value) => updateParams({ carId: value, buildId: '' })}
+            placeholder="Any car"
+            searchPlaceholder="Search cars..."
+            emptyText="No cars found."
+            grouped
+            virtualized
+            isLoading={pickersLoading}
+            className="min-h-[44px]"
+          />
+          <SearchableComboBox
+            options={buildOptions}
+            value={searchParams.get('buildId') || ''}
+            onValueChange={(value) => updateParams({ buildId: value })}
+            placeholder={carId ? 'Any build' : 'Pick a car to filter by build'}
+            searchPlaceholder="Search builds..."
+            emptyText="No builds for this car."
+            disabled={!carId}
+            className="min-h-[44px]"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <Select
+            value={searchParams.get('category') || ANY_VALUE}
+            onValueChange={(value) => updateParams({ category: value === ANY_VALUE ? '' : value })}
+          >
+            <SelectTrigger aria-label="Car category" className="w-full min-h-[44px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_VALUE}>Any category</SelectItem>
+              {CATEGORY_OPTIONS.map((category) => (
+                <SelectItem key={category} value={category}>{category}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={searchParams.get('conditions') || ANY_VALUE}
+            onValueChange={(value) => updateParams({ conditions: value === ANY_VALUE ? '' : value })}
+          >
+            <SelectTrigger aria-label="Conditions" className="w-full min-h-[44px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_VALUE}>Any conditions</SelectItem>
+              {CONDITIONS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={searchParams.get('sessionType') || ANY_VALUE}
+            onValueChange={(value) => updateParams({ sessionType: value === ANY_VALUE ? '' : value })}
+          >
+            <SelectTrigger aria-label="Session type" className="w-full min-h-[44px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_VALUE}>Any session</SelectItem>
+              {SESSION_TYPE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="from" className="text-xs text-muted-foreground">From</Label>
+            <Input
+              id="from"
+              type="date"
+              value={searchParams.get('from') || ''}
+              onChange={(e) => updateParams({ from: e.target.value })}
+              className="min-h-[44px]"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="to" className="text-xs text-muted-foreground">To</Label>
+            <Input
+              id="to"
+              type="date"
+              value={searchParams.get('to') || ''}
+              onChange={(e) => updateParams({ to: e.target.value })}
+              className="min-h-[44px]"
+            />
+          </div>
+        </div>
+
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters} className="self-start min-h-[44px] text-xs">
+            <X className="h-3 w-3 mr-2" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {/* Track records */}
+      {trackId && records.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {records.map((record) => (
+            <div
+              key={record.id}
+              className={cn('border rounded-lg p-2 space-y-0.5', record.category ? 'border-border' : 'border-primary')}
+            >
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Trophy className="h-3 w-3" />
+                {recordScopeLabel(record.category)}
+              </p>
+              <p className="font-mono font-bold text-primary">{formatLapTime(record.timeMs)}</p>
+              <p className="text-xs truncate">{record.user?.gamertag || record.user?.name || 'Unknown driver'}</p>
+              {record.lapTime?.car && (
+                <p className="text-xs text-muted-foreground truncate">
+                  {record.lapTime.car.manufacturer} {record.lapTime.car.name}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Leaderboard */}
+      {!trackId ? (
+        <EmptyState
+          icon={Trophy}
+          title="Pick a track"
+          description="Every driver's best lap at the track, across all races and builds"
+        />
+      ) : loading ? (
+        <LoadingSection text="Loading leaderboard..." />
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : entries.length === 0 ? (
+        <EmptyState
+          icon={Trophy}
+          title={hasFilters ? 'No laps match these filters' : 'No laps recorded at this track yet'}
+        />
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => (
+            <div
+              key={entry.lapId}
+              className={cn(
+                'flex items-start gap-3 p-3 sm:p-4 border rounded-lg',
+                entry.position === 1 ? 'border-primary' : 'border-border'
+              )}
+            >
+              <div className="w-10 shrink-0 text-center">
+                {entry.position <= 3 ? (
+                  <Medal
+                    className={cn(
+                      'h-6 w-6 mx-auto',
+                      entry.position === 1 && 'text-yellow-500',
+                      entry.position === 2 && 'text-gray-400',
+                      entry.position === 3 && 'text-amber-700'
+                    )}
+                  />
+                ) : (
+                  <span className="font-mono font-bold text-muted-foreground">P{entry.position}</span>
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold truncate">
+                    {entry.user?.gamertag || entry.user?.name || 'Unknown driver'}
+                  </span>
+                  <span className="flex items-center gap-1 shrink-0">
+                    <span className="font-mono font-bold text-primary">{formatLapTime(entry.timeMs)}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryEntry(entry)}
+                      className="h-7 w-7 p-0"
+                      title="Lap history / dispute"
+                    >
+                      <History className="h-3.5 w-3.5" />
+                    </Button>
+                  </span>
+                </div>
+                <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                  <span className="truncate">
+                    {entry.car ? `${entry.car.manufacturer} ${entry.car.name}` : 'Unknown car'}
+                    {entry.build && (
+                      <>
+                        {' · '}
+                        {entry.build.linkable ? (
+                          <Link href={`/builds/${entry.build.id}`} className="text-primary hover:underline">
+                            {entry.build.name || 'Build'}
+                          </Link>
+                        ) : (
+                          <span>{entry.build.name || 'Deleted build'}</span>
+                        )}
+                      </>
+                    )}
+                  </span>
+                  <span className="font-mono text-xs shrink-0">
+                    {leaderTime !== undefined && entry.position > 1
+                      ? getTimeDifference(entry.timeMs, leaderTime)
+                      : 'Leader'}
+                  </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                  {entry.disputed && (
+                    <Badge variant="destructive" className="text-xs flex items-center gap-1">
+                      <Flag className="h-3 w-3" />
+                      Disputed
+                    </Badge>
+                  )}
+                  {entry.underReview && (
+                    <Badge variant="secondary" className="text-xs flex items-center gap-1">
+                      <ShieldAlert className="h-3 w-3" />
+                      Under review
+                    </Badge>
+                  )}
+                  {entry.sessionType && (
+                    <Badge variant="outline" className="text-xs">
+                      {SESSION_TYPE_LABELS[entry.sessionType]}
+                    </Badge>
+                  )}
+                  {entry.conditions && <Badge variant="secondary" className="text-xs">{entry.conditions}</Badge>}
+                  <span>
+                    {new Date(entry.createdAt).toLocaleDateString()} · {entry.totalLaps}{' '}
+                    {entry.totalLaps === 1 ? 'lap' : 'laps'}
+                  </span>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <LapTimeHistoryDialog
+        lapTimeId={historyEntry?.lapId || null}
+        canDispute={!!currentUserId && historyEntry?.user?.id !== currentUserId}
+        open={!!historyEntry}
+        onOpenChange={(open) => !open && setHistoryEntry(null)}
+        onDisputed={() => setReloadKey((key) => key + 1)}
+      />
+    </PageWrapper>
+  )
+}
@@ -0,0 +1,197 @@
+/**
+ * Lobby Presets Page
+ *
+ * Purpose: Every saved lobby preset (GT7 room setup), by name
+ * - Each card shows the key settings and how many races use the preset
+ * - "New Preset" / "Copy" open the form dialog; creator or admin can edit and delete
+ * - Presets are linked to races on the race page (Lobby Settings card)
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/lobby-settings + GET /api/auth/session (edit rights)
+ * 2. Create / copy / edit: LobbySettingsFormDialog → POST or PATCH → refetch
+ * 3. Delete (second click confirms): DELETE /api/lobby-settings/[id] - linked races keep
+ *    running without a preset
+ *
+ * **Related Files:**
+ * - @/components/lobby-settings/lobby-settings-form-dialog.tsx: Create/edit form
+ * - @/components/races/race-lobby-card.tsx: Link a preset to a race
+ * - @/app/api/lobby-settings/route.ts: List/create API
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { LobbySettingsBadges } from '@/components/lobby-settings/lobby-settings-badges'
+import { LobbySettingsFormDialog } from '@/components/lobby-settings/lobby-settings-form-dialog'
+import { Copy, Edit, Gamepad2, Plus, Trash2 } from 'lucide-react'
+import type { DbLobbySettings } from '@/types/database'
+
+interface LobbyPresetListItem extends DbLobbySettings {
+  createdBy: { id: string; name: string | null; gamertag: string | null } | null
+  raceCount: number
+}
+
+export default function LobbySettingsPage() {
+  const [presets, setPresets] = useState<LobbyPresetListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [currentUser, setCurrentUser] = useState<{ id: string; role: string } | null>(null)
+  const [dialog, setDialog] = useState<{ preset: LobbyPresetListItem | null; copyFrom: LobbyPresetListItem | null } | null>(null)
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // ============================================================
+  // DATA FETCHING
+  // ============================================================
+
+  const fetchPresets = async () => {
+    try {
+      const res = await fetch('/api/lobby-settings')
+      if (res.ok) setPresets((await res.json()).lobbySettings || [])
+    } catch (err) {
+      console.error('Error fetching lobby presets:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPresets()
+
+    const fetchCurrentUser = async () => {
+      try {
+        const res = await fetch('/api/auth/session')
+        if (res.ok) {
+          const session = await res.json()
+          if (session?.user) setCurrentUser({ id: session.user.id, role: session.user.role })
+        }
+      } catch (err) {
+        console.error('Error fetching current user:', err)
+      }
+    }
+
+    fetchCurrentUser()
+  }, [])
+
+  // ============================================================
+  // ACTIONS
+  // ============================================================
+
+  // Creator or admin (same rule as PATCH /api/lobby-settings/[id])
+  const canEdit = (preset: LobbyPresetListItem) =>
+    Boolean(currentUser && (currentUser.id === preset.createdById || currentUser.role === 'ADMIN'))
+
+  const deletePreset = async (preset: LobbyPresetListItem) => {
+    if (confirmDeleteId !== preset.id) {
+      setConfirmDeleteId(preset.id)
+      return
+    }
+
+    setError(null)
+    try {
+      const res = await fetch(`/api/lobby-settings/${preset.id}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error((await res.json()).error || 'Failed to delete lobby preset')
+      setPresets(presets.filter((p) => p.id !== preset.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete lobby preset')
+    } finally {
+      setConfirmDeleteId(null)
+    }
+  }
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  return (
+    <PageWrapper>
+      <PageHeader
+        title="LOBBY PRESETS"
+        icon={Gamepad2}
+        description="Saved GT7 room settings - link one to a race on its page"
+        actions={
+          <Button onClick={() => setDialog({ preset: null, copyFrom: null })} className="gap-2 min-h-[44px]">
+            <Plus className="h-4 w-4" />
+            New Preset
+          </Button>
+        }
+      />
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {loading ? (
+        <LoadingSection text="Loading lobby presets..." />
+      ) : presets.length === 0 ? (
+        <EmptyState
+          icon={Gamepad2}
+          title="No lobby presets yet"
+          description="Save the room settings you race with to reuse them across races"
+        />
+      ) : (
+        <div className="space-y-3">
+          {presets.map((preset) => (
+            <div key={preset.id} className="gt-hover-card p-3 sm:p-4 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-base sm:text-lg truncate">{preset.name}</span>
+                <Badge variant={preset.raceCount > 0 ? 'default' : 'secondary'}>
+                  {preset.raceCount} {preset.raceCount === 1 ? 'race' : 'races'}
+                </Badge>
+              </div>
+              <LobbySettingsBadges settings={preset} showName={false} compact />
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  by {preset.createdBy?.gamertag || preset.createdBy?.name || 'Unknown'}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDialog({ preset: null, copyFrom: preset })}
+                    className="min-h-[44px]"
+                  >
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy
+                  </Button>
+                  {canEdit(preset) && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDialog({ preset, copyFrom: null })}
+                        className="min-h-[44px]"
+                      >
+                        <Edit className="h-4 w-4 mr-2" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant={confirmDeleteId === preset.id ? 'destructive' : 'ghost'}
+                        size="sm"
+                        onClick={() => deletePreset(preset)}
+                        className="min-h-[44px]"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        {confirmDeleteId === preset.id ? 'Delete?' : 'Delete'}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <LobbySettingsFormDialog
+        preset={dialog?.preset}
+        copyFrom={dialog?.copyFrom}
+        raceCount={dialog?.preset?.raceCount}
+        open={dialog !== null}
+        onOpenChange={(open) => !open && setDialog(null)}
+        onSaved={() => fetchPresets()}
+      />
+    </PageWrapper>
+  )
+}
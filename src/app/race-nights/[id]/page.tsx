@@ -0,0 +1,237 @@
+/**
+ * Race Night Page
+ *
+ * Purpose: One race night - its lineup and the live controls
+ * - Lineup in running order; the current race is highlighted, races already run are dimmed
+ * - Host (creator or admin): Start / Previous / Next / Finish / Cancel, Edit, Delete
+ * - Archived nights (completed, cancelled) are read-only apart from Delete
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/race-nights/[id] + GET /api/auth/session
+ * 2. Controls / Edit: PATCH → page state replaced with the server's copy
+ * 3. Delete: Second click confirms → DELETE → /race-nights
+ *
+ * **Related Files:**
+ * - @/components/race-nights/race-night-controls.tsx: Live controls
+ * - @/components/race-nights/race-night-form-dialog.tsx: Edit form
+ * - @/app/api/race-nights/[id]/route.ts: Race night API
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { RaceNightControls } from '@/components/race-nights/race-night-controls'
+import { RaceNightFormDialog } from '@/components/race-nights/race-night-form-dialog'
+import { ArrowLeft, CalendarDays, CheckCircle2, Pencil, Radio, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatRaceNightDate, isArchivedStatus, type RaceNight } from '@/lib/race-nights'
+
+export default function RaceNightPage() {
+  const params = useParams<{ id: string }>()
+  const router = useRouter()
+  const [raceNight, setRaceNight] = useState<RaceNight | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [currentUser, setCurrentUser] = useState<{ id: string; role: string } | null>(null)
+  const [showEdit, setShowEdit] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // ============================================================
+  // DATA FETCHING
+  // ============================================================
+
+  useEffect(() => {
+    const fetchRaceNight = async () => {
+      try {
+        const res = await fetch(`/api/race-nights/${params.id}`)
+        setRaceNight(res.ok ? (await res.json()).raceNight : null)
+      } catch (err) {
+        console.error('Error fetching race night:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    const fetchCurrentUser = async () => {
+      try {
+        const res = await fetch('/api/auth/session')
+        if (res.ok) {
+          const session = await res.json()
+          if (session?.user) setCurrentUser({ id: session.user.id, role: session.user.role })
+        }
+      } catch (err) {
+        console.error('Error fetching current user:', err)
+      }
+    }
+
+    fetchRaceNight()
+    fetchCurrentUser()
+  }, [params.id])
+
+  const deleteRaceNight = async () => {
+    setConfirmDelete(false)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/race-nights/${params.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error || 'Failed to delete race night')
+      }
+      router.push('/race-nights')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete race night')
+    }
+  }
+
+  // ============================================================
+  // LOADING / NOT FOUND
+  // ============================================================
+
+  if (loading) {
+    return (
+      <PageWrapper>
+        <LoadingSection text="Loading race night..." />
+      </PageWrapper>
+    )
+  }
+
+  if (!raceNight) {
+    return (
+      <PageWrapper>
+        <EmptyState
+          icon={CalendarDays}
+          title="Race night not found"
+          actions={
+            <Button asChild className="min-h-[44px]">
+              <Link href="/race-nights">Go Back</Link>
+            </Button>
+          }
+        />
+      </PageWrapper>
+    )
+  }
+
+  // Creator or admin (same rule as PATCH/DELETE /api/race-nights/[id])
+  const canHost = Boolean(
+    currentUser && (currentUser.id === raceNight.createdById || currentUser.role === 'ADMIN')
+  )
+  const archived = isArchivedStatus(raceNight.status)
+  const currentIndex = raceNight.entries.findIndex((entry) => entry.order === raceNight.currentEntryOrder)
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  return (
+    <PageWrapper>
+      <Link href="/race-nights" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground w-fit">
+        <ArrowLeft className="h-4 w-4" />
+        Race Nights
+      </Link>
+
+      <PageHeader
+        title={raceNight.name}
+        icon={CalendarDays}
+        description={`${formatRaceNightDate(raceNight.date)}${
+          raceNight.createdBy ? ` · hosted by ${raceNight.createdBy.gamertag || raceNight.createdBy.name}` : ''
+        }`}
+        actions={canHost && (
+          <div className="flex gap-2">
+            {!archived && (
+              <Button variant="outline" onClick={() => setShowEdit(true)} className="gap-2 min-h-[44px]">
+                <Pencil className="h-4 w-4" />
+                Edit
+              </Button>
+            )}
+            {/* Delete asks for a second click */}
+            <Button
+              variant={confirmDelete ? 'destructive' : 'outline'}
+              onClick={() => (confirmDelete ? deleteRaceNight() : setConfirmDelete(true))}
+              className="gap-2 min-h-[44px]"
+            >
+              <Trash2 className="h-4 w-4" />
+              {confirmDelete ? 'Delete?' : 'Delete'}
+            </Button>
+          </div>
+        )}
+      />
+
+      {raceNight.description && (
+        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{raceNight.description}</p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <RaceNightControls raceNight={raceNight} canHost={canHost} onChange={setRaceNight} />
+
+      {raceNight.status === 'IN_PROGRESS' && (
+        <Button asChild variant="outline" className="gap-2 min-h-[44px] w-fit">
+          <Link href="/tonight">
+            <Radio className="h-4 w-4" />
+            Open Tonight
+          </Link>
+        </Button>
+      )}
+
+      {/* Lineup */}
+      {/* - Current race: primary border + "Now"; earlier races dimmed while the night runs */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Lineup</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {raceNight.entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No races yet{canHost && !archived && ' - add them with Edit'}</p>
+          ) : (
+            <div className="space-y-1">
+              {raceNight.entries.map((entry, index) => {
+                const race = entry.race!
+                const isCurrent = raceNight.status === 'IN_PROGRESS' && index === currentIndex
+                return (
+                  <Link
+                    key={entry.order}
+                    href={`/races/${race.id}`}
+                    className={cn(
+                      'flex items-center gap-3 px-3 py-2 border rounded hover:border-primary text-sm min-h-[44px]',
+                      isCurrent ? 'border-primary bg-primary/5' : 'border-border',
+                      raceNight.status === 'IN_PROGRESS' && index < currentIndex && 'opacity-60'
+                    )}
+                  >
+                    <span className="font-mono text-xs text-muted-foreground w-8 shrink-0">R{index + 1}</span>
+                    <span className="flex-1 min-w-0 truncate">
+                      <span className={cn(isCurrent && 'font-semibold')}>{race.name || race.track?.name || 'Unnamed race'}</span>
+                      {race.name && race.track && (
+                        <span className="text-muted-foreground"> · {race.track.name}</span>
+                      )}
+                    </span>
+                    {isCurrent && <Badge variant="destructive" className="shrink-0">Now</Badge>}
+                    {race.completedAt && (
+                      <Badge variant="secondary" className="gap-1 shrink-0">
+                        <CheckCircle2 className="h-3 w-3" />
+                        Results
+                      </Badge>
+                    )}
+                  </Link>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <RaceNightFormDialog
+        raceNight={raceNight}
+        open={showEdit}
+        onOpenChange={setShowEdit}
+        onSaved={setRaceNight}
+      />
+    </PageWrapper>
+  )
+}
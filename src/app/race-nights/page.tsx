@@ -0,0 +1,130 @@
+/**
+ * Race Nights Page
+ *
+ * Purpose: Plan race nights and browse past ones
+ * - Upcoming: Scheduled and in-progress nights, soonest first
+ * - Archive: Completed and cancelled nights, latest first (replaces toggling races
+ *   active/inactive between nights)
+ * - "Plan Race Night" opens the form dialog; saving goes to the night's page
+ *
+ * **Data Flow:**
+ * 1. Tab from the URL (?archived=true) → GET /api/race-nights?archived=
+ * 2. Create: RaceNightFormDialog → POST /api/race-nights → /race-nights/[id]
+ *
+ * **Related Files:**
+ * - @/app/race-nights/[id]/page.tsx: One night (lineup, live controls)
+ * - @/app/tonight/page.tsx: Runs the current night
+ * - @/app/api/race-nights/route.ts: List/create API
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper, PageHeader, EmptyState } from '@/components/layout'
+import { RaceNightFormDialog } from '@/components/race-nights/race-night-form-dialog'
+import { Archive, CalendarDays, Plus } from 'lucide-react'
+import { formatRaceNightDate, SESSION_STATUS_LABELS, type RaceNight } from '@/lib/race-nights'
+
+export default function RaceNightsPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const archived = searchParams.get('archived') === 'true'
+
+  const [raceNights, setRaceNights] = useState<RaceNight[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showCreate, setShowCreate] = useState(false)
+
+  useEffect(() => {
+    const fetchRaceNights = async () => {
+      try {
+        setLoading(true)
+        const res = await fetch(`/api/race-nights?archived=${archived}`)
+        if (res.ok) setRaceNights((await res.json()).raceNights || [])
+      } catch (err) {
+        console.error('Error fetching race nights:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRaceNights()
+  }, [archived])
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  return (
+    <PageWrapper>
+      <PageHeader
+        title="RACE NIGHTS"
+        icon={CalendarDays}
+        description="Plan the races of a night and run them in order"
+        actions={
+          <Button onClick={() => setShowCreate(true)} className="gap-2 min-h-[44px]">
+            <Plus className="h-4 w-4" />
+            Plan Race Night
+          </Button>
+        }
+      />
+
+      <Tabs
+        value={archived ? 'archive' : 'upcoming'}
+        onValueChange={(value) => router.replace(value === 'archive' ? '/race-nights?archived=true' : '/race-nights')}
+      >
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
+          <TabsTrigger value="archive">Archive</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {loading ? (
+        <LoadingSection text="Loading race nights..." />
+      ) : raceNights.length === 0 ? (
+        <EmptyState
+          icon={archived ? Archive : CalendarDays}
+          title={archived ? 'No past race nights' : 'No race nights planned'}
+          description={archived ? 'Completed and cancelled nights end up here' : 'Plan a night to run its races from Tonight'}
+        />
+      ) : (
+        <div className="space-y-3">
+          {raceNights.map((raceNight) => (
+            <Link
+              key={raceNight.id}
+              href={`/race-nights/${raceNight.id}`}
+              className="block gt-hover-card p-3 sm:p-4 space-y-1"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-base sm:text-lg truncate">{raceNight.name}</span>
+                <Badge variant={raceNight.status === 'IN_PROGRESS' ? 'destructive' : 'secondary'}>
+                  {SESSION_STATUS_LABELS[raceNight.status]}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {formatRaceNightDate(raceNight.date)} · {raceNight.entries.length}{' '}
+                {raceNight.entries.length === 1 ? 'race' : 'races'}
+              </p>
+              {raceNight.entries.length > 0 && (
+                <p className="text-xs text-muted-foreground truncate">
+                  {raceNight.entries.map((entry) => entry.race?.name || entry.race?.track?.name).join(' → ')}
+                </p>
+              )}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <RaceNightFormDialog
+        open={showCreate}
+        onOpenChange={setShowCreate}
+        onSaved={(raceNight) => router.push(`/race-nights/${raceNight.id}`)}
+      />
+    </PageWrapper>
+  )
+}
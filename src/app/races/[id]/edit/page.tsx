@@ -16,11 +16,14 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { BuildSelector } from '@/components/builds/BuildSelector'
+import { RaceRegulationsForm } from '@/components/races/race-regulations-form'
 import { QuickBuildModal } from '@/components/builds/QuickBuildModal'
 import { ArrowLeft, Loader2, MapPin, Save } from 'lucide-react'
 import { LoadingSection } from '@/components/ui/loading'
 import Link from 'next/link'
 import { Switch } from '@/components/ui/switch'
+import { normalizeRegulations } from '@/lib/race-regulations'
+import type { RaceRegulations } from '@/types/database'
 
 interface Car {
   id: string
@@ -43,11 +46,14 @@ interface AllBuild {
   name: string
   description: string | null
   isPublic: boolean
+  estimatedPp?: number | null
   car: {
     id: string
     name: string
     slug: string
     manufacturer: string
+    category?: string | null
+    driveType?: string | null
   }
 }
 
@@ -68,6 +74,7 @@ interface RaceData {
   laps: number | null
   weather: string | null
   isActive: boolean
+  regulations: RaceRegulations | null
   track: Track
   RaceCar: {
     id: string
@@ -98,6 +105,7 @@ export default function EditRacePage() {
     laps: '',
     weather: '' as 'dry' | 'wet' | '',
     isActive: false,
+    regulations: null as RaceRegulations | null,
   })
 
   // Fetch race data and builds on mount
@@ -127,6 +135,7 @@ export default function EditRacePage() {
           laps: raceData.race.laps?.toString() || '',
           weather: raceData.race.weather || '',
           isActive: raceData.race.isActive || false,
+          regulations: raceData.race.regulations || null,
         })
       } catch (err) {
         console.error('Error fetching data:', err)
@@ -195,6 +204,7 @@ export default function EditRacePage() {
           laps: formData.laps ? parseInt(formData.laps) : null,
           weather: formData.weather || null,
           isActive: formData.isActive,
+          regulations: normalizeRegulations(formData.regulations),
         }),
       })
 
@@ -310,6 +320,19 @@ export default function EditRacePage() {
             />
           </div>
 
+          {/* Regulations */}
+          <div>
+            <Label>Regulations</Label>
+            <p className="text-sm text-muted-foreground mb-3">
+              Restrict which builds and tyres are legal for this race.
+            </p>
+            <RaceRegulationsForm
+              value={formData.regulations}
+              onChange={(regulations) => setFormData({ ...formData, regulations })}
+              disabled={saving}
+            />
+          </div>
+
           {/* Builds */}
           <div>
             <Label>Builds</Label>
@@ -326,6 +349,7 @@ export default function EditRacePage() {
               buildsLoading={buildsLoading}
               allowDuplicateCars={true}
               placeholder="Select builds..."
+              regulations={formData.regulations}
             />
           </div>
 
@@ -0,0 +1,496 @@
+/**
+ * Race Lap Time Bulk Entry Page
+ *
+ * Purpose: Enter a whole race night's lap times in one go
+ * - One row per race member: build + time field
+ * - Shared session type, conditions and notes for the batch
+ * - Submitted as one all-or-nothing request (POST /api/races/[id]/lap-times)
+ *
+ * **Key Features:**
+ * - Time parsing: parseLapTime() with live preview, isValidLapTime() range check per row
+ * - Build per row: The race's builds (preselected when the race has only one)
+ * - Admins: Can fill in every member's row (recorded with them as recordedById)
+ * - Everyone else: Only their own row is editable
+ * - Empty rows are skipped; any invalid row blocks the whole submit
+ * - Outlier check: Implausible times (409 outliers) show OutlierWarning under their rows;
+ *   saving the same times again confirms them (they wait for an admin review)
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/races/[id] (race + builds), GET /api/races/[id]/members,
+ *    GET /api/auth/session (admin / own row)
+ * 2. Submit: Validate rows → POST /api/races/[id]/lap-times → back to the race page
+ *    (409 outliers: warnings shown, the next submit of the same rows sends confirmOutliers)
+ *
+ * **Debugging Tips:**
+ * - "Race is not active": Bulk entry is only open for active races (toggle on /races)
+ * - Row disabled: Only admins can record for other members
+ * - No build options: The race has no builds (RaceCar rows with a removed build are skipped)
+ *
+ * **Related Files:**
+ * - @/app/api/races/[id]/lap-times/route.ts: Bulk insert endpoint
+ * - @/components/lap-times/LapTimeForm.tsx: Single lap entry (any track/build)
+ * - @/lib/time.ts: parseLapTime, formatLapTime, isValidLapTime
+ * - @/components/lap-times/OutlierWarning.tsx: Flagged row warning
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper } from '@/components/layout'
+import { AlertCircle, ArrowLeft, Clock, Loader2, Save, Users } from 'lucide-react'
+import { parseLapTime, formatLapTime, isValidLapTime } from '@/lib/time'
+import { cn } from '@/lib/utils'
+import type { SessionType } from '@/lib/lap-sessions'
+import type { OutlierReason } from '@/lib/lap-time-outliers'
+import { OutlierWarning } from '@/components/lap-times/OutlierWarning'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface RaceBuild {
+  id: string
+  name: string
+  carName: string
+}
+
+interface EntryRace {
+  id: string
+  name: string | null
+  isActive: boolean
+  track: { name: string; layout: string | null }
+  builds: RaceBuild[]
+}
+
+interface EntryMember {
+  userid: string
+  user: { id: string; gamertag: string | null } | null
+}
+
+interface RowInput {
+  buildId: string
+  timeInput: string
+}
+
+type RowStatus =
+  | { state: 'empty' }
+  | { state: 'invalid'; message: string }
+  | { state: 'valid'; timeMs: number }
+
+// Validate one grid row (empty rows are skipped on submit)
+function getRowStatus(row: RowInput | undefined): RowStatus {
+  if (!row || !row.timeInput.trim()) return { state: 'empty' }
+
+  const timeMs = parseLapTime(row.timeInput)
+  if (timeMs === null) return { state: 'invalid', message: 'Use mm:ss.sss or ss.sss' }
+  if (!isValidLapTime(timeMs)) return { state: 'invalid', message: 'Must be 10s - 30min' }
+  if (!row.buildId) return { state: 'invalid', message: 'Pick a build' }
+
+  return { state: 'valid', timeMs }
+}
+
+export default function RaceLapTimeEntryPage() {
+  // ============================================================
+  // STATE
+  // ============================================================
+
+  const params = useParams()
+  const router = useRouter()
+  const raceId = params.id as string
+
+  const [race, setRace] = useState<EntryRace | null>(null)
+  const [members, setMembers] = useState<EntryMember[]>([])
+  const [currentUser, setCurrentUser] = useState<{ id: string; role: string } | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Grid inputs keyed by userId
+  const [rows, setRows] = useState<Record<string, RowInput>>({})
+  const [sessionType, setSessionType] = useState<SessionType>('R')
+  const [conditions, setConditions] = useState('')
+  const [notes, setNotes] = useState('')
+  // Rows the API flagged (by userId), for the entries submitted as `key`
+  const [outliers, setOutliers] = useState<{ key: string; reasons: Record<string, OutlierReason[]> } | null>(null)
+
+  const admin = currentUser?.role === 'ADMIN'
+
+  // ============================================================
+  // DATA FETCHING
+  // ============================================================
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [raceRes, membersRes, sessionRes] = await Promise.all([
+          fetch(`/api/races/${raceId}`),
+          fetch(`/api/races/${raceId}/members`),
+          fetch('/api/auth/session'),
+        ])
+
+        if (!raceRes.ok) throw new Error('Race not found')
+
+        const raceData = await raceRes.json()
+        const builds: RaceBuild[] = (raceData.race.RaceCar || [])
+          .filter((raceCar: { build: { id: string; name: string } | null }) => raceCar.build)
+          .map((raceCar: { build: { id: string; name: string }; car: { manufacturer: string; name: string } }) => ({
+            id: raceCar.build.id,
+            name: raceCar.build.name,
+            carName: `${raceCar.car.manufacturer} ${raceCar.car.name}`,
+          }))
+
+        setRace({
+          id: raceData.race.id,
+          name: raceData.race.name,
+          isActive: raceData.race.isActive,
+          track: raceData.race.track,
+          builds,
+        })
+
+        if (membersRes.ok) {
+          const membersData = await membersRes.json()
+          const raceMembers: EntryMember[] = membersData.members || []
+          setMembers(raceMembers)
+          setRows(Object.fromEntries(
+            raceMembers.map((member) => [
+              member.userid,
+              { buildId: builds.length === 1 ? builds[0].id : '', timeInput: '' },
+            ])
+          ))
+        }
+
+        if (sessionRes.ok) {
+          const sessionData = await sessionRes.json()
+          if (sessionData?.user) setCurrentUser({ id: sessionData.user.id, role: sessionData.user.role })
+        }
+      } catch (err) {
+        console.error('Error loading race entry data:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load race')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadData()
+  }, [raceId])
+
+  const statuses = useMemo(
+    () => Object.fromEntries(members.map((member) => [member.userid, getRowStatus(rows[member.userid])])),
+    [members, rows]
+  )
+  const validCount = Object.values(statuses).filter((status) => status.state === 'valid').length
+  const invalidCount = Object.values(statuses).filter((status) => status.state === 'invalid').length
+
+  const entries = members.flatMap((member) => {
+    const status = statuses[member.userid]
+    return status.state === 'valid'
+      ? [{ userId: member.userid, buildId: rows[member.userid].buildId, timeMs: status.timeMs }]
+      : []
+  })
+
+  // The warnings only apply while the flagged rows are still entered as submitted
+  const entriesKey = JSON.stringify(entries)
+  const confirmingOutliers = outliers !== null && outliers.key === entriesKey
+
+  const updateRow = (userId: string, changes: Partial<RowInput>) => {
+    setRows((prev) => ({ ...prev, [userId]: { ...prev[userId], ...changes } }))
+  }
+
+  // ============================================================
+  // SUBMIT
+  // ============================================================
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (invalidCount > 0) {
+      setError(`Fix ${invalidCount} invalid ${invalidCount === 1 ? 'row' : 'rows'} before saving`)
+      return
+    }
+
+    if (validCount === 0) {
+      setError('Enter at least one lap time')
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const response = await fetch(`/api/races/${raceId}/lap-times`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          entries,
+          sessionType,
+          conditions: conditions && conditions !== 'not-specified' ? conditions : null,
+          notes: notes || null,
+          confirmOutliers: confirmingOutliers,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        if (data.outliers) {
+          setOutliers({
+            key: entriesKey,
+            reasons: Object.fromEntries(
+              (data.outliers as { userId: string; outlierReasons: OutlierReason[] }[])
+                .map((outlier) => [outlier.userId, outlier.outlierReasons])
+            ),
+          })
+          setSaving(false)
+          return
+        }
+        throw new Error(data.error || 'Failed to save lap times')
+      }
+
+      router.push(`/races/${raceId}`)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save lap times')
+      setSaving(false)
+    }
+  }
+
+  // ============================================================
+  // LOADING / NOT FOUND
+  // ============================================================
+
+  if (loading) {
+    return (
+      <PageWrapper>
+        <LoadingSection text="Loading race..." />
+      </PageWrapper>
+    )
+  }
+
+  if (!race) {
+    return (
+      <PageWrapper>
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Race not found</p>
+          <Link href="/races" className="gt-hover-text-link">
+            Back to Races
+          </Link>
+        </div>
+      </PageWrapper>
+    )
+  }
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  return (
+    <PageWrapper>
+      {/* Header */}
+      <div>
+        <Link
+          href={`/races/${race.id}`}
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground gt-hover-text-link mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Race
+        </Link>
+        <h1 className="text-3xl font-bold">Enter Lap Times</h1>
+        <p className="text-muted-foreground mt-2">
+          {race.name || race.track.name} · {race.track.name}
+          {race.track.layout && ` - ${race.track.layout}`}
+        </p>
+      </div>
+
+      {!race.isActive && (
+        <div className="flex items-center gap-2 p-4 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-lg">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          This race is not active. Activate it to enter lap times.
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {error && (
+          <div className="flex items-center gap-2 p-4 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-lg">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Shared session settings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Session
+            </CardTitle>
+            <CardDescription>Applies to every lap in this batch</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="sessionType">Session Type</Label>
+              <Select value={sessionType} onValueChange={(value) => setSessionType(value as SessionType)}>
+                <SelectTrigger id="sessionType" className="min-h-[44px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="R">Race</SelectItem>
+                  <SelectItem value="Q">Qualifying</SelectItem>
+                  <SelectItem value="P">Practice</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="conditions">Conditions (optional)</Label>
+              <Select value={conditions} onValueChange={setConditions}>
+                <SelectTrigger id="conditions" className="min-h-[44px]">
+                  <SelectValue placeholder="Select conditions..." />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="not-specified">Not specified</SelectItem>
+                  <SelectItem value="Dry">Dry</SelectItem>
+                  <SelectItem value="Wet">Wet</SelectItem>
+                  <SelectItem value="Mixed">Mixed Conditions</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="notes">Notes (optional)</Label>
+              <Textarea
+                id="notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Added to every lap in this batch..."
+                rows={2}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Member grid */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Drivers ({members.length})
+            </CardTitle>
+            <CardDescription>
+              {admin
+                ? 'Leave a time empty to skip that driver'
+                : 'You can only enter your own time - ask an admin to record for others'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {members.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">This race has no members yet</p>
+            ) : (
+              <div className="space-y-2">
+                {members.map((member) => {
+                  const row = rows[member.userid]
+                  const status = statuses[member.userid]
+                  const editable = race.isActive && (admin || member.userid === currentUser?.id)
+                  const outlierReasons = confirmingOutliers ? outliers.reasons[member.userid] : undefined
+
+                  return (
+                    <div
+                      key={member.userid}
+                      className={cn(
+                        'grid gap-2 p-3 border rounded-lg sm:grid-cols-[minmax(0,1fr)_minmax(0,1.5fr)_10rem] sm:items-start',
+                        status.state === 'invalid'
+                          ? 'border-destructive'
+                          : outlierReasons
+                          ? 'border-yellow-500/50'
+                          : 'border-border',
+                        !editable && 'opacity-60'
+                      )}
+                    >
+                      <div className="flex items-center gap-2 min-h-[44px]">
+                        <span className="font-medium truncate">{member.user?.gamertag || 'Unknown driver'}</span>
+                        {member.userid === currentUser?.id && <Badge variant="outline">You</Badge>}
+                      </div>
+                      <Select
+                        value={row?.buildId || ''}
+                        onValueChange={(value) => updateRow(member.userid, { buildId: value })}
+                        disabled={!editable || race.builds.length === 0}
+                      >
+                        <SelectTrigger aria-label="Build" className="w-full min-h-[44px] text-xs">
+                          <SelectValue placeholder="Select build..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {race.builds.map((build) => (
+                            <SelectItem key={build.id} value={build.id}>
+                              {build.name} ({build.carName})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="space-y-1">
+                        <Input
+                          aria-label="Lap time"
+                          value={row?.timeInput || ''}
+                          onChange={(e) => updateRow(member.userid, { timeInput: e.target.value })}
+                          placeholder="1:23.456"
+                          disabled={!editable}
+                          className="font-mono min-h-[44px]"
+                        />
+                        {status.state === 'valid' && (
+                          <p className="text-xs text-primary font-mono">= {formatLapTime(status.timeMs)}</p>
+                        )}
+                        {status.state === 'invalid' && (
+                          <p className="text-xs text-destructive">{status.message}</p>
+                        )}
+                      </div>
+                      {outlierReasons && (
+                        <div className="sm:col-span-3">
+                          <OutlierWarning reasons={outlierReasons} />
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex gap-3">
+          <Button type="submit" disabled={saving || !race.isActive || validCount === 0} className="flex-1 min-h-[44px]">
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            {saving
+              ? 'Saving...'
+              : confirmingOutliers
+              ? 'Save Anyway'
+              : `Save ${validCount} Lap ${validCount === 1 ? 'Time' : 'Times'}`}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.back()}
+            disabled={saving}
+            className="min-h-[44px]"
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </PageWrapper>
+  )
+}
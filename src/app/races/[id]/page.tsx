@@ -20,6 +20,10 @@
  * - Your stats: Current user's position, best time, recent laps
  * - Add lap time: Quick link to /lap-times/new
  * - Edit race: Link to /races/[id]/edit
+ * - Results: Finishing order + points once the race is completed; "Record Results"
+ *   (creator/admin) opens /races/[id]/results
+ * - Lobby settings: The linked lobby preset's key settings; creator/admin pick, create or
+ *   edit the preset (RaceLobbyCard)
  *
  * **Data Flow:**
  * 1. Page loads → params.id extracted → fetchRaceData() called
@@ -28,6 +32,8 @@
  * 4. Data stored in state → Rendered in components
  * 5. User can click edit → Navigate to /races/[id]/edit
  * 6. User can add lap time → Navigate to /lap-times/new
+ * 7. Realtime: Another client changes the race or its cars (or records results) →
+ *    fetchRaceData() + fetchResults() again; the member list subscribes on its own
  *
  * **State Management:**
  * - params: URL params (race ID)
@@ -47,6 +53,8 @@
  * - Build: Build name with Wrench icon (if available)
  * - Time: Formatted as MM:SS.mmm (monospace font)
  * - Laps: Total number of laps submitted
+ * - Disputed badge: The entry's best lap has an open dispute (removed laps never show up)
+ * - History button: LapTimeHistoryDialog - edits, disputes, dispute someone else's lap
  * - Empty state: "No lap times yet" message
  *
  * **User Stats Display:**
@@ -69,6 +77,7 @@
  * - Grid: 2-column on mobile, 3-column on desktop
  * - Each build: Car image, name, build name, year, category
  * - Build removed: Shows "Build removed" badge if build deleted
+ * - Regulations: Estimated PP shown; builds breaking the regulations get a red border + reasons
  * - Link: Click to navigate to build detail page
  * - Opacity: 60% if build removed
  * - Hover: gt-hover-card effect
@@ -89,10 +98,19 @@
  * - Configuration: Laps badge, Weather badge
  * - Description: Optional text below header
  * - Edit button: Top-right corner
+ * - Enter Lap Times button: Active races only, opens the bulk entry grid
+ * - Export CSV link on the leaderboard: GET /api/lap-times/export?raceId=
+ *
+ * **Sector Splits:**
+ * - Shown only when the track has sectors and at least one lap has splits
+ * - Best sectors (with holder) and the theoretical best lap (sum of best sectors)
+ * - One row per driver: splits of their fastest split lap, delta to the leader per sector
+ * - Green = faster than the leader in that sector, red = slower
  *
  * **API Integration:**
  * - GET /api/races/[id]: Fetch race details
- *   - Response: { race, leaderboard[], userStats, statistics }
+ *   - Response: { race, leaderboard[], userStats, statistics, sectors }
+ * - GET /api/races/[id]/results: Finishing order (shown once Race.completedAt is set)
  * - GET /api/auth/session: Fetch current user info
  *   - Response: { user: { id, role } }
  * - Data structure:
@@ -151,7 +169,10 @@
  * - @/app/races/page.tsx: Races listing page
  * - @/app/races/new/page.tsx: Create new race page
  * - @/app/races/[id]/edit/page.tsx: Edit race page
+ * - @/app/races/[id]/lap-times/page.tsx: Bulk lap time entry for race members
  * - @/components/race-members/race-member-list: Race members component
+ * - @/components/races/race-lobby-card: Lobby preset card
+ * - @/hooks/use-races-realtime: Realtime subscription
  * - @/app/api/races/[id]/route.ts: Race details API endpoint
  * - @/lib/time: formatLapTime helper function
  * - @/components/ui: Card, Button, Badge components
@@ -176,14 +197,27 @@ import {
   Award,
   Activity,
   Wrench,
+  AlertTriangle,
   Plus,
   Edit,
+  Timer,
+  Download,
+  Flag,
+  History,
+  Medal,
 } from 'lucide-react'
 import Link from 'next/link'
 import { LoadingSection } from '@/components/ui/loading'
 import { PageWrapper } from '@/components/layout'
-import { formatLapTime } from '@/lib/time'
+import { formatLapTime, getTimeDifference } from '@/lib/time'
 import { RaceMemberList } from '@/components/race-members/race-member-list'
+import { LapTimeHistoryDialog } from '@/components/lap-times/LapTimeHistoryDialog'
+import { RaceRegulationsBadges } from '@/components/races/race-regulations-badges'
+import { RaceResultsTable, type RaceResultView } from '@/components/races/race-results-table'
+import { RaceLobbyCard } from '@/components/races/race-lobby-card'
+import { useRacesRealtime } from '@/hooks/use-races-realtime'
+import type { DbLobbySettings, RaceRegulations } from '@/types/database'
+import type { DriverSectors, SectorSummary } from '@/lib/sectors'
 
 // ============================================================
 // TYPES
@@ -206,7 +240,9 @@ interface RaceCar {
     name: string
     description: string | null
     isPublic: boolean
+    estimatedPp?: number | null
   } | null
+  regulationIssues?: string[]
 }
 
 interface Race {
@@ -215,6 +251,10 @@ interface Race {
   description: string | null
   laps: number | null
   weather: string | null
+  isActive: boolean
+  regulations: RaceRegulations | null
+  completedAt: string | null
+  lobbySettings: DbLobbySettings | null
   createdAt: string
   updatedAt: string
   track: {
@@ -247,6 +287,7 @@ interface LeaderboardEntry {
   bestTime: number
   totalLaps: number
   bestLapId: string
+  bestLapDisputed: boolean
   lastImprovement: string
 }
 
@@ -255,7 +296,7 @@ interface LapTime {
   timeMs: number
   notes: string | null
   conditions: string | null
-  sessionType: 'Q' | 'R' | null
+  sessionType: 'P' | 'Q' | 'R' | null
   createdAt: string
   buildId: string | null
   buildName: string | null
@@ -282,6 +323,11 @@ interface UserStats {
   recentLaps: LapTime[]
 }
 
+type RaceSectors = Omit<SectorSummary, 'drivers'> & {
+  bestSectorUserNames: (string | null)[]
+  drivers: (DriverSectors & { userName: string | null })[]
+}
+
 interface Statistics {
   totalLaps: number
   uniqueDrivers: number
@@ -299,8 +345,11 @@ export default function RaceDetailPage() {
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([])
   const [userStats, setUserStats] = useState<UserStats | null>(null)
   const [statistics, setStatistics] = useState<Statistics | null>(null)
+  const [sectors, setSectors] = useState<RaceSectors | null>(null)
+  const [results, setResults] = useState<RaceResultView[]>([])
   const [loading, setLoading] = useState(true)
   const [currentUser, setCurrentUser] = useState<{ id: string; role: string } | null>(null)
+  const [historyEntry, setHistoryEntry] = useState<LeaderboardEntry | null>(null)
 
   // ============================================================
   // DATA FETCHING
@@ -308,6 +357,7 @@ export default function RaceDetailPage() {
   // Fetch race data and current user on mount
   useEffect(() => {
     fetchRaceData()
+    fetchResults()
     fetchCurrentUser()
   }, [params.id])
 
@@ -323,6 +373,18 @@ export default function RaceDetailPage() {
     }
   }
 
+  const fetchResults = async () => {
+    try {
+      const response = await fetch(`/api/races/${params.id}/results`)
+      if (response.ok) {
+        const data = await response.json()
+        setResults(data.results || [])
+      }
+    } catch (error) {
+      console.error('Error fetching race results:', error)
+    }
+  }
+
   const fetchRaceData = async () => {
     try {
       const response = await fetch(`/api/races/${params.id}`)
@@ -333,6 +395,7 @@ export default function RaceDetailPage() {
         setLeaderboard(data.leaderboard || [])
         setUserStats(data.userStats || null)
         setStatistics(data.statistics || null)
+        setSectors(data.sectors || null)
       } else {
         console.error('Error fetching race:', data.error)
       }
@@ -343,6 +406,15 @@ export default function RaceDetailPage() {
     }
   }
 
+  // Live: race, car and member changes from any client
+  useRacesRealtime({
+    raceId: params.id as string,
+    onChange: () => {
+      fetchRaceData()
+      fetchResults()
+    },
+  })
+
   // ============================================================
   // LOADING STATE
   // ============================================================
@@ -368,6 +440,11 @@ export default function RaceDetailPage() {
     )
   }
 
+  // Creator or admin (same rule as PUT /api/races/[id]/results)
+  const canRecordResults = Boolean(
+    currentUser && (currentUser.id === race.createdBy?.id || currentUser.role === 'ADMIN')
+  )
+
   // ============================================================
   // PAGE RENDER
   // ============================================================
@@ -377,7 +454,7 @@ export default function RaceDetailPage() {
       {/* - Back button: Navigates to /races */}
       {/* - Race name: race.name or generated from track + builds */}
       {/* - Track info: MapPin icon, link to track, badges */}
-      {/* - Edit button: Top-right corner */}
+      {/* - Edit button: Top-right corner (Enter Lap Times next to it while active) */}
       <div>
         <Link href="/races" className="inline-block mb-4">
           <Button
@@ -395,12 +472,30 @@ export default function RaceDetailPage() {
             <h1 className="text-3xl font-bold">
               {race.name || `${race.track.name} - ${race.RaceCar.length} build${race.RaceCar.length > 1 ? 's' : ''}`}
             </h1>
-            <Link href={`/races/${race.id}/edit`} className="shrink-0">
-              <Button variant="ghostBordered" size="sm" className="min-h-[44px]">
-                <Edit className="h-4 w-4 mr-2" />
-                Edit Race
-              </Button>
-            </Link>
+            <div className="flex flex-wrap justify-end gap-2 shrink-0">
+              {race.isActive && (
+                <Link href={`/races/${race.id}/lap-times`}>
+                  <Button variant="ghostBordered" size="sm" className="min-h-[44px]">
+                    <Timer className="h-4 w-4 mr-2" />
+                    Enter Lap Times
+                  </Button>
+                </Link>
+              )}
+              {canRecordResults && (
+                <Link href={`/races/${race.id}/results`}>
+                  <Button variant="ghostBordered" size="sm" className="min-h-[44px]">
+                    <Medal className="h-4 w-4 mr-2" />
+                    {race.completedAt ? 'Edit Results' : 'Record Results'}
+                  </Button>
+                </Link>
+              )}
+              <Link href={`/races/${race.id}/edit`}>
+                <Button variant="ghostBordered" size="sm" className="min-h-[44px]">
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit Race
+                </Button>
+              </Link>
+            </div>
           </div>
 
           {/* Track Info */}
@@ -426,8 +521,14 @@ export default function RaceDetailPage() {
             {race.weather && (
               <Badge variant="secondary">{race.weather}</Badge>
             )}
+            {race.completedAt && (
+              <Badge>Completed</Badge>
+            )}
           </div>
 
+          {/* Regulations */}
+          <RaceRegulationsBadges regulations={race.regulations} />
+
           {/* Description */}
           {race.description && (
             <p className="text-muted-foreground">{race.description}</p>
@@ -435,6 +536,35 @@ export default function RaceDetailPage() {
         </div>
       </div>
 
+      {/* Lobby Settings */}
+      {/* - Linked preset; creator/admin pick, create or edit it */}
+      <RaceLobbyCard
+        raceId={race.id}
+        lobbySettings={race.lobbySettings}
+        canEdit={canRecordResults}
+        currentUser={currentUser}
+        onChange={(lobbySettings) => setRace({ ...race, lobbySettings })}
+      />
+
+      {/* Results */}
+      {/* - Only once the race is completed (provisional results stay on /races/[id]/results) */}
+      {race.completedAt && results.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Medal className="h-5 w-5" />
+              Results
+            </CardTitle>
+            <CardDescription>
+              Completed {new Date(race.completedAt).toLocaleDateString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RaceResultsTable results={results} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Builds in this race */}
       <Card className="mb-6">
         <CardHeader>
@@ -447,13 +577,14 @@ export default function RaceDetailPage() {
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {race.RaceCar.map((raceCar) => {
               const car = raceCar.car
+              const issues = raceCar.regulationIssues || []
               return (
                 <Link
                   key={raceCar.id}
                   href={raceCar.build ? `/builds/${raceCar.buildId}` : '/builds'}
                   className="block h-full"
                 >
-                  <Card className={`gt-hover-card h-full min-h-[140px] ${!raceCar.build ? 'opacity-60' : ''}`}>
+                  <Card className={`gt-hover-card h-full min-h-[140px] ${!raceCar.build ? 'opacity-60' : ''} ${issues.length > 0 ? 'border-destructive' : ''}`}>
                     <CardContent className="p-4">
                       <div className="flex items-start gap-3">
                         {car.imageUrl && (
@@ -485,6 +616,21 @@ export default function RaceDetailPage() {
                               {car.category}
                             </Badge>
                           )}
+                          {typeof raceCar.build?.estimatedPp === 'number' && (
+                            <Badge variant="outline" className="mt-1 ml-1">
+                              PP {raceCar.build.estimatedPp.toFixed(2)}
+                            </Badge>
+                          )}
+                          {issues.length > 0 && (
+                            <ul className="mt-2 space-y-0.5 text-xs text-destructive">
+                              {issues.map((issue) => (
+                                <li key={issue} className="flex items-start gap-1">
+                                  <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+                                  {issue}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                         </div>
                       </div>
                     </CardContent>
@@ -497,7 +643,7 @@ export default function RaceDetailPage() {
       </Card>
 
       {/* Race Members */}
-      <RaceMemberList raceId={race.id} isAdmin={currentUser?.role === 'ADMIN'} />
+      <RaceMemberList raceId={race.id} isAdmin={currentUser?.role === 'ADMIN'} regulations={race.regulations} />
 
       {/* Statistics */}
       {statistics && (
@@ -538,7 +684,19 @@ export default function RaceDetailPage() {
             <Trophy className="h-5 w-5" />
             Race Leaderboard - Top 10
           </CardTitle>
-          <CardDescription>Fastest laps from builds in this race at {race.track.name}</CardDescription>
+          <CardDescription className="flex flex-wrap items-center justify-between gap-2">
+            <span>Fastest laps from builds in this race at {race.track.name}</span>
+            {leaderboard.length > 0 && (
+              <a
+                href={`/api/lap-times/export?raceId=${race.id}&format=csv`}
+                download
+                className="inline-flex items-center gap-1 text-xs gt-hover-text-link"
+              >
+                <Download className="h-3 w-3" />
+                Export CSV
+              </a>
+            )}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           {leaderboard.length === 0 ? (
@@ -566,7 +724,22 @@ export default function RaceDetailPage() {
                   <div className="text-right shrink-0">
                     <p className="font-mono font-bold text-sm sm:text-base">{formatLapTime(entry.bestTime)}</p>
                     <p className="text-xs text-muted-foreground">{entry.totalLaps} laps</p>
+                    {entry.bestLapDisputed && (
+                      <Badge variant="destructive" className="text-xs mt-1 flex items-center gap-1">
+                        <Flag className="h-3 w-3" />
+                        Disputed
+                      </Badge>
+                    )}
                   </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setHistoryEntry(entry)}
+                    className="h-8 w-8 p-0 shrink-0"
+                    title="Lap history / dispute"
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
                 </div>
               ))}
             </div>
@@ -574,6 +747,92 @@ export default function RaceDetailPage() {
         </CardContent>
       </Card>
 
+      {/* Sector Splits */}
+      {sectors && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              Sector Times
+            </CardTitle>
+            <CardDescription>
+              Theoretical best{' '}
+              <span className="font-mono font-bold text-foreground">{formatLapTime(sectors.theoreticalBestMs)}</span>
+              {statistics?.fastestTime && statistics.fastestTime !== sectors.theoreticalBestMs && (
+                <span className="font-mono ml-1">
+                  ({getTimeDifference(sectors.theoreticalBestMs, statistics.fastestTime)} vs fastest lap)
+                </span>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {sectors.bestSectorsMs.map((split, sector) => (
+                <div key={sector} className="border border-border rounded-lg p-2 bg-muted/30">
+                  <p className="text-xs text-muted-foreground font-mono">Best S{sector + 1}</p>
+                  <p className="font-mono font-bold text-sm">{formatLapTime(split)}</p>
+                  <p className="text-xs text-muted-foreground truncate">{sectors.bestSectorUserNames[sector]}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground border-b border-border">
+                    <th className="text-left font-normal py-2 pr-2">Driver</th>
+                    {sectors.bestSectorsMs.map((_, sector) => (
+                      <th key={sector} className="text-right font-normal font-mono py-2 px-2">S{sector + 1}</th>
+                    ))}
+                    <th className="text-right font-normal py-2 pl-2">Lap</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sectors.drivers.map((driver, index) => (
+                    <tr key={driver.userId} className="border-b border-border last:border-0">
+                      <td className="py-2 pr-2">
+                        <p className="font-medium truncate max-w-[10rem]">{driver.userName}</p>
+                        <p className="text-xs text-muted-foreground font-mono">
+                          Best possible {formatLapTime(driver.theoreticalBestMs)}
+                        </p>
+                      </td>
+                      {driver.sectorsMs.map((split, sector) => (
+                        <td key={sector} className="text-right font-mono py-2 px-2">
+                          <p className={split === sectors.bestSectorsMs[sector] ? 'font-bold text-purple-500' : ''}>
+                            {formatLapTime(split)}
+                          </p>
+                          {index > 0 && (
+                            <p
+                              className={`text-xs ${
+                                driver.deltasMs[sector] < 0
+                                  ? 'text-green-500'
+                                  : driver.deltasMs[sector] > 0
+                                    ? 'text-destructive'
+                                    : 'text-muted-foreground'
+                              }`}
+                            >
+                              {getTimeDifference(driver.deltasMs[sector], 0)}
+                            </p>
+                          )}
+                        </td>
+                      ))}
+                      <td className="text-right font-mono font-bold py-2 pl-2">
+                        {formatLapTime(driver.lapTimeMs)}
+                        {index > 0 && (
+                          <p className="text-xs font-normal text-muted-foreground">
+                            {getTimeDifference(driver.lapTimeMs, sectors.drivers[0].lapTimeMs)}
+                          </p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* User Stats */}
       {userStats && (
         <Card>
@@ -633,6 +892,13 @@ export default function RaceDetailPage() {
         </Card>
       )}
 
+      <LapTimeHistoryDialog
+        lapTimeId={historyEntry?.bestLapId || null}
+        canDispute={!!currentUser && historyEntry?.userId !== currentUser.id}
+        open={!!historyEntry}
+        onOpenChange={(open) => !open && setHistoryEntry(null)}
+        onDisputed={fetchRaceData}
+      />
     </PageWrapper>
   )
 }
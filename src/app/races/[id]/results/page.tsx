@@ -0,0 +1,542 @@
+/**
+ * Race Results Entry Page
+ *
+ * Purpose: Record the finishing order after a race
+ * - One row per race member: status, position, build, total race time, fastest lap
+ * - Points table for the race (empty = default 25-18-15-12-10-8-6-4-2-1)
+ * - Saved as one request that replaces the race's results (PUT /api/races/[id]/results)
+ *
+ * **Key Features:**
+ * - Status per row: Finished, DNF, DNS or "Not entered" (row skipped)
+ * - Order by race time: Numbers finishers by total time, then DNFs behind them
+ * - Points preview: Points each finisher will get with the current table
+ * - Mark as completed: Sets Race.completedAt - the race page and Tonight card show the results
+ * - Time parsing: parseLapTime() for both times ("25:12.345" works for race times)
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/races/[id] (race + builds), GET /api/races/[id]/members,
+ *    GET /api/races/[id]/results (existing results, points table, completed flag)
+ * 2. Submit: Validate rows → PUT /api/races/[id]/results → back to the race page
+ *
+ * **Debugging Tips:**
+ * - 403: Only the race creator or admins record results
+ * - "Positions must run from 1 to n": Every Finished/DNF row needs a position, no gaps
+ * - Result of a removed member disappears on save: Only current members can have results
+ *
+ * **Related Files:**
+ * - @/app/api/races/[id]/results/route.ts: Results endpoint
+ * - @/lib/race-results.ts: Points and classification rules
+ * - @/app/races/[id]/lap-times/page.tsx: Same per-member grid for lap times
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { LoadingSection } from '@/components/ui/loading'
+import { PageWrapper } from '@/components/layout'
+import { AlertCircle, ArrowDownUp, ArrowLeft, Flag, Loader2, Medal, Save } from 'lucide-react'
+import { parseLapTime, formatLapTime } from '@/lib/time'
+import { cn } from '@/lib/utils'
+import {
+  checkRaceResults,
+  DEFAULT_POINTS_TABLE,
+  pointsForResult,
+  RACE_RESULT_STATUS_LABELS,
+  type RaceResultInput,
+} from '@/lib/race-results'
+import type { RaceResultStatus } from '@/types/database'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface RaceBuild {
+  id: string
+  name: string
+  carName: string
+}
+
+interface ResultsRace {
+  id: string
+  name: string | null
+  track: { name: string; layout: string | null }
+  builds: RaceBuild[]
+}
+
+interface ResultsMember {
+  userid: string
+  user: { id: string; gamertag: string | null } | null
+}
+
+interface SavedResult {
+  userId: string
+  status: RaceResultStatus
+  position: number | null
+  totalTimeMs: number | null
+  fastestLapMs: number | null
+  build: { id: string } | null
+}
+
+// status '' = not entered (row skipped)
+interface RowInput {
+  status: RaceResultStatus | ''
+  position: string
+  buildId: string
+  totalTime: string
+  fastestLap: string
+}
+
+type RowStatus =
+  | { state: 'empty' }
+  | { state: 'invalid'; message: string }
+  | { state: 'valid'; result: RaceResultInput }
+
+// Select components can't use '' as an item value
+const NOT_ENTERED = '__none__'
+
+const STATUS_OPTIONS: RaceResultStatus[] = ['FINISHED', 'DNF', 'DNS']
+
+function parseOptionalTime(input: string): number | null | undefined {
+  if (!input.trim()) return null
+  return parseLapTime(input) ?? undefined
+}
+
+// Validate one grid row (classification across rows is checked by checkRaceResults)
+function getRowStatus(userId: string, row: RowInput | undefined): RowStatus {
+  if (!row || !row.status) return { state: 'empty' }
+
+  const position = row.position.trim() ? Number(row.position) : null
+  if (row.status !== 'DNS' && (position === null || !Number.isInteger(position) || position < 1)) {
+    return { state: 'invalid', message: 'Enter a position' }
+  }
+
+  const totalTimeMs = row.status === 'FINISHED' ? parseOptionalTime(row.totalTime) : null
+  if (totalTimeMs === undefined) return { state: 'invalid', message: 'Race time: use m:ss.sss' }
+
+  const fastestLapMs = row.status === 'DNS' ? null : parseOptionalTime(row.fastestLap)
+  if (fastestLapMs === undefined) return { state: 'invalid', message: 'Fastest lap: use m:ss.sss' }
+
+  return {
+    state: 'valid',
+    result: {
+      userId,
+      buildId: row.buildId || null,
+      status: row.status,
+      position: row.status === 'DNS' ? null : position,
+      totalTimeMs,
+      fastestLapMs,
+    },
+  }
+}
+
+// "25, 18, 15" → [25, 18, 15]; '' → null (default table); undefined = invalid
+function parsePointsTable(input: string): number[] | null | undefined {
+  if (!input.trim()) return null
+  const values = input.split(',').map((value) => value.trim()).filter(Boolean).map(Number)
+  return values.every((value) => Number.isInteger(value) && value >= 0) ? values : undefined
+}
+
+export default function RaceResultsEntryPage() {
+  // ============================================================
+  // STATE
+  // ============================================================
+
+  const params = useParams()
+  const router = useRouter()
+  const raceId = params.id as string
+
+  const [race, setRace] = useState<ResultsRace | null>(null)
+  const [members, setMembers] = useState<ResultsMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Grid inputs keyed by userId
+  const [rows, setRows] = useState<Record<string, RowInput>>({})
+  const [pointsInput, setPointsInput] = useState('')
+  const [completed, setCompleted] = useState(true)
+
+  // ============================================================
+  // DATA FETCHING
+  // ============================================================
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [raceRes, membersRes, resultsRes] = await Promise.all([
+          fetch(`/api/races/${raceId}`),
+          fetch(`/api/races/${raceId}/members`),
+          fetch(`/api/races/${raceId}/results`),
+        ])
+
+        if (!raceRes.ok) throw new Error('Race not found')
+
+        const raceData = await raceRes.json()
+        const builds: RaceBuild[] = (raceData.race.RaceCar || [])
+          .filter((raceCar: { build: { id: string; name: string } | null }) => raceCar.build)
+          .map((raceCar: { build: { id: string; name: string }; car: { manufacturer: string; name: string } }) => ({
+            id: raceCar.build.id,
+            name: raceCar.build.name,
+            carName: `${raceCar.car.manufacturer} ${raceCar.car.name}`,
+          }))
+
+        setRace({
+          id: raceData.race.id,
+          name: raceData.race.name,
+          track: raceData.race.track,
+          builds,
+        })
+
+        const resultsData = resultsRes.ok ? await resultsRes.json() : null
+        const saved = new Map<string, SavedResult>(
+          (resultsData?.results || []).map((result: SavedResult) => [result.userId, result])
+        )
+        if (resultsData?.customPointsTable) setPointsInput(resultsData.pointsTable.join(', '))
+        // Provisional results stay provisional until the box is ticked
+        if (resultsData?.results?.length) setCompleted(Boolean(resultsData.completedAt))
+
+        if (membersRes.ok) {
+          const membersData = await membersRes.json()
+          const raceMembers: ResultsMember[] = membersData.members || []
+          setMembers(raceMembers)
+          setRows(Object.fromEntries(
+            raceMembers.map((member) => {
+              const result = saved.get(member.userid)
+              return [member.userid, {
+                status: result?.status || '',
+                position: result?.position ? String(result.position) : '',
+                buildId: result?.build?.id || (builds.length === 1 ? builds[0].id : ''),
+                totalTime: result?.totalTimeMs ? formatLapTime(result.totalTimeMs) : '',
+                fastestLap: result?.fastestLapMs ? formatLapTime(result.fastestLapMs) : '',
+              }]
+            })
+          ))
+        }
+      } catch (err) {
+        console.error('Error loading race results data:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load race')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadData()
+  }, [raceId])
+
+  const statuses = useMemo(
+    () => Object.fromEntries(members.map((member) => [member.userid, getRowStatus(member.userid, rows[member.userid])])),
+    [members, rows]
+  )
+  const pointsTable = parsePointsTable(pointsInput)
+  const validResults = Object.values(statuses).flatMap((status) => (status.state === 'valid' ? [status.result] : []))
+  const invalidCount = Object.values(statuses).filter((status) => status.state === 'invalid').length
+
+  const updateRow = (userId: string, changes: Partial<RowInput>) => {
+    setRows((prev) => ({ ...prev, [userId]: { ...prev[userId], ...changes } }))
+  }
+
+  // Finishers by total time (rows without a time keep their relative order at the end), then DNFs
+  const orderByRaceTime = () => {
+    const classified = members.filter((member) => {
+      const status = rows[member.userid]?.status
+      return status === 'FINISHED' || status === 'DNF'
+    })
+    const sortKey = (userId: string) => {
+      const row = rows[userId]
+      const time = row.status === 'FINISHED' ? parseLapTime(row.totalTime) : null
+      return [row.status === 'DNF' ? 1 : 0, time ?? Number.MAX_SAFE_INTEGER] as const
+    }
+    const ordered = classified
+      .map((member) => member.userid)
+      .sort((a, b) => {
+        const [groupA, timeA] = sortKey(a)
+        const [groupB, timeB] = sortKey(b)
+        return groupA - groupB || timeA - timeB
+      })
+
+    setRows((prev) => {
+      const next = { ...prev }
+      ordered.forEach((userId, index) => {
+        next[userId] = { ...next[userId], position: String(index + 1) }
+      })
+      return next
+    })
+  }
+
+  // ============================================================
+  // SUBMIT
+  // ============================================================
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (invalidCount > 0) {
+      setError(`Fix ${invalidCount} invalid ${invalidCount === 1 ? 'row' : 'rows'} before saving`)
+      return
+    }
+
+    if (pointsTable === undefined) {
+      setError('Points table: whole numbers separated by commas')
+      return
+    }
+
+    const problem = checkRaceResults(validResults)
+    if (problem) {
+      setError(problem)
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const response = await fetch(`/api/races/${raceId}/results`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ results: validResults, pointsTable, completed }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save results')
+      }
+
+      router.push(`/races/${raceId}`)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save results')
+      setSaving(false)
+    }
+  }
+
+  // ============================================================
+  // LOADING / NOT FOUND
+  // ============================================================
+
+  if (loading) {
+    return (
+      <PageWrapper>
+        <LoadingSection text="Loading race..." />
+      </PageWrapper>
+    )
+  }
+
+  if (!race) {
+    return (
+      <PageWrapper>
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Race not found</p>
+          <Link href="/races" className="gt-hover-text-link">
+            Back to Races
+          </Link>
+        </div>
+      </PageWrapper>
+    )
+  }
+
+  // ============================================================
+  // PAGE RENDER
+  // ============================================================
+
+  return (
+    <PageWrapper>
+      {/* Header */}
+      <div>
+        <Link
+          href={`/races/${race.id}`}
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground gt-hover-text-link mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Race
+        </Link>
+        <h1 className="text-3xl font-bold">Race Results</h1>
+        <p className="text-muted-foreground mt-2">
+          {race.name || race.track.name} · {race.track.name}
+          {race.track.layout && ` - ${race.track.layout}`}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {error && (
+          <div className="flex items-center gap-2 p-4 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-lg">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Points table + completed flag */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Medal className="h-5 w-5" />
+              Points
+            </CardTitle>
+            <CardDescription>Points for P1, P2, ... - positions past the end score nothing, DNF and DNS score nothing</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="pointsTable">Points table (optional)</Label>
+              <Input
+                id="pointsTable"
+                value={pointsInput}
+                onChange={(e) => setPointsInput(e.target.value)}
+                placeholder={DEFAULT_POINTS_TABLE.join(', ')}
+                className={cn('font-mono min-h-[44px]', pointsTable === undefined && 'border-destructive')}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty for the default table</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="completed" checked={completed} onCheckedChange={setCompleted} />
+              <Label htmlFor="completed">Race completed (show results on the race page and Tonight)</Label>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Member grid */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Flag className="h-5 w-5" />
+                Classification ({validResults.length}/{members.length})
+              </CardTitle>
+              <CardDescription>Set the status, then the position - leave a driver &quot;Not entered&quot; to skip them</CardDescription>
+            </div>
+            <Button type="button" variant="outline" size="sm" onClick={orderByRaceTime} className="min-h-[44px] shrink-0">
+              <ArrowDownUp className="h-4 w-4 mr-2" />
+              Order by race time
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {members.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">This race has no members yet</p>
+            ) : (
+              <div className="space-y-2">
+                {members.map((member) => {
+                  const row = rows[member.userid]
+                  const status = statuses[member.userid]
+                  const points = status.state === 'valid'
+                    ? pointsForResult(status.result.status, status.result.position, pointsTable ?? null)
+                    : null
+
+                  return (
+                    <div
+                      key={member.userid}
+                      className={cn(
+                        'grid gap-2 p-3 border rounded-lg sm:grid-cols-[minmax(0,1fr)_8rem_5rem] lg:grid-cols-[minmax(0,1fr)_8rem_5rem_minmax(0,1fr)_8rem_8rem] sm:items-start',
+                        status.state === 'invalid' ? 'border-destructive' : 'border-border',
+                        !row?.status && 'opacity-60'
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2 min-h-[44px]">
+                        <span className="font-medium truncate">{member.user?.gamertag || 'Unknown driver'}</span>
+                        {points !== null && (
+                          <span className="text-xs font-mono text-primary shrink-0">{points} pts</span>
+                        )}
+                      </div>
+                      <Select
+                        value={row?.status || NOT_ENTERED}
+                        onValueChange={(value) => updateRow(member.userid, {
+                          status: value === NOT_ENTERED ? '' : value as RaceResultStatus,
+                        })}
+                      >
+                        <SelectTrigger aria-label="Status" className="w-full min-h-[44px] text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_ENTERED}>Not entered</SelectItem>
+                          {STATUS_OPTIONS.map((option) => (
+                            <SelectItem key={option} value={option}>{RACE_RESULT_STATUS_LABELS[option]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        aria-label="Position"
+                        type="number"
+                        min={1}
+                        value={row?.status === 'DNS' ? '' : row?.position || ''}
+                        onChange={(e) => updateRow(member.userid, { position: e.target.value })}
+                        placeholder="P"
+                        disabled={!row?.status || row.status === 'DNS'}
+                        className="min-h-[44px]"
+                      />
+                      <Select
+                        value={row?.buildId || ''}
+                        onValueChange={(value) => updateRow(member.userid, { buildId: value })}
+                        disabled={!row?.status || race.builds.length === 0}
+                      >
+                        <SelectTrigger aria-label="Build" className="w-full min-h-[44px] text-xs">
+                          <SelectValue placeholder="Select build..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {race.builds.map((build) => (
+                            <SelectItem key={build.id} value={build.id}>
+                              {build.name} ({build.carName})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        aria-label="Total race time"
+                        value={row?.status === 'FINISHED' ? row.totalTime : ''}
+                        onChange={(e) => updateRow(member.userid, { totalTime: e.target.value })}
+                        placeholder="Race time"
+                        disabled={row?.status !== 'FINISHED'}
+                        className="font-mono min-h-[44px]"
+                      />
+                      <Input
+                        aria-label="Fastest lap"
+                        value={row?.status && row.status !== 'DNS' ? row.fastestLap : ''}
+                        onChange={(e) => updateRow(member.userid, { fastestLap: e.target.value })}
+                        placeholder="Fastest lap"
+                        disabled={!row?.status || row.status === 'DNS'}
+                        className="font-mono min-h-[44px]"
+                      />
+                      {status.state === 'invalid' && (
+                        <p className="text-xs text-destructive sm:col-span-full">{status.message}</p>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex gap-3">
+          <Button type="submit" disabled={saving} className="flex-1 min-h-[44px]">
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            {saving ? 'Saving...' : completed ? 'Save Final Results' : 'Save Provisional Results'}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.back()}
+            disabled={saving}
+            className="min-h-[44px]"
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </PageWrapper>
+  )
+}
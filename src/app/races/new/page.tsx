@@ -34,7 +34,8 @@
  * - Next: Enable only when track is selected
  *
  * **Step 2: Select Builds**
- * - BuildSelector: Multi-select component with search
+ * - RaceRegulationsForm: Optional PP cap / tyres / categories / drive types / manufacturers
+ * - BuildSelector: Multi-select component with search (builds breaking the regulations are flagged)
  * - Allow duplicates: Multiple builds from same car allowed
  * - Quick build: "Create new build" button opens QuickBuildModal
  * - Callback: Add newly created build to selection
@@ -76,7 +77,7 @@
  *
  * **Validation:**
  * - Step 1: trackId must be set
- * - Step 2: buildIds.length must be > 0
+ * - Step 2: buildIds.length must be > 0, every selected build must meet the regulations
  * - Step 3: name must be non-empty, laps must be positive number (if set)
  * - validateStep(): Returns boolean, sets error message
  * - Error message: Displayed above step content
@@ -150,6 +151,7 @@
  * - @/app/races/[id]/page.tsx: Race detail page
  * - @/components/builds/BuildSelector: Build selection component
  * - @/components/builds/QuickBuildModal: Quick build creation modal
+ * - @/components/races/race-regulations-form: Regulations editor
  * - @/lib/dropdown-helpers: formatTrackOptions helper
  * - @/app/api/races/route.ts: Create race API endpoint
  */
@@ -173,12 +175,14 @@ import { SearchableComboBox } from '@/components/ui/searchable-combobox'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { BuildSelector } from '@/components/builds/BuildSelector'
+import { RaceRegulationsForm } from '@/components/races/race-regulations-form'
 import { QuickBuildModal } from '@/components/builds/QuickBuildModal'
 import { ArrowLeft, ArrowRight, Check, Loader2, MapPin, Settings } from 'lucide-react'
 import { LoadingSection } from '@/components/ui/loading'
 import Link from 'next/link'
 import { formatTrackOptions } from '@/lib/dropdown-helpers'
-import type { DbTrack } from '@/types/database'
+import { checkBuildAgainstRegulations, normalizeRegulations } from '@/lib/race-regulations'
+import type { DbTrack, RaceRegulations } from '@/types/database'
 
 // ============================================================
 // TYPES
@@ -188,11 +192,14 @@ interface Build {
   name: string
   description: string | null
   isPublic: boolean
+  estimatedPp?: number | null
   car: {
     id: string
     name: string
     slug: string
     manufacturer: string
+    category?: string | null
+    driveType?: string | null
   }
 }
 
@@ -224,6 +231,7 @@ export default function NewRacePage() {
     description: '',
     laps: '',
     weather: 'dry' as 'dry' | 'wet',
+    regulations: null as RaceRegulations | null,
   })
 
   // Fetch tracks and builds on mount
@@ -297,7 +305,7 @@ export default function NewRacePage() {
   // ============================================================
   // Validate current step before proceeding
   // - Step 1: Track must be selected
-  // - Step 2: At least 1 build must be selected
+  // - Step 2: At least 1 build must be selected, all must meet the regulations
   // - Step 3: Name must be set, laps must be positive number
   // - Returns: true if valid, false if invalid
   // - Sets: error message if invalid
@@ -314,6 +322,17 @@ export default function NewRacePage() {
       return false
     }
 
+    if (step === 2) {
+      const illegal = builds.filter((build) =>
+        formData.buildIds.includes(build.id) &&
+        checkBuildAgainstRegulations(formData.regulations, build).length > 0
+      )
+      if (illegal.length > 0) {
+        setError(`${illegal.map((b) => b.name).join(', ')} ${illegal.length === 1 ? 'does' : 'do'} not meet the regulations`)
+        return false
+      }
+    }
+
     if (step === 3) {
       if (!formData.name.trim()) {
         setError('Please enter a race name')
@@ -366,6 +385,7 @@ export default function NewRacePage() {
           description: formData.description.trim() || null,
           laps: formData.laps ? parseInt(formData.laps) : null,
           weather: formData.weather || null,
+          regulations: normalizeRegulations(formData.regulations),
         }),
       })
 
@@ -543,6 +563,18 @@ export default function NewRacePage() {
               {/* Step 2: Select Builds */}
               {step === 2 && (
                 <div className="space-y-4">
+                  <div>
+                    <Label>Regulations (Optional)</Label>
+                    <p className="text-sm text-muted-foreground mb-3">
+                      Restrict which builds and tyres are legal for this race.
+                    </p>
+                    <RaceRegulationsForm
+                      value={formData.regulations}
+                      onChange={(regulations) => setFormData({ ...formData, regulations })}
+                      disabled={loading}
+                    />
+                  </div>
+
                   <div>
                     <Label>Builds *</Label>
                     <p className="text-sm text-muted-foreground mb-3">
@@ -558,6 +590,7 @@ export default function NewRacePage() {
                       buildsLoading={buildsLoading}
                       allowDuplicateCars={true}
                       placeholder="Select builds..."
+                      regulations={formData.regulations}
                     />
                   </div>
 
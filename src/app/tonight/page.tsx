@@ -2,37 +2,49 @@
  * TONIGHT PAGE - DRAGGABLE RACE LIST
  *
  * Purpose:
- * Displays active races for tonight's racing session with drag-and-drop reordering.
+ * Runs tonight's race night (or, without one, lists the active races) with drag-and-drop reordering.
  * Serves as the main race management interface during racing events.
  *
  * Key Features:
- * - Fetches and displays races marked as "active"
- * - Drag-and-drop race reordering using @dnd-kit
- * - Live badge with animated ping effect
+ * - Race night: The night in progress, or the one scheduled for today - its lineup in
+ *   running order with the host's live controls (start, next race, finish)
+ * - Fallback: Races marked as "active", ordered by Race.order (no race night tonight)
+ * - Drag-and-drop race reordering using @dnd-kit (race night: host only)
+ * - Live badge with animated ping effect (race night: only while in progress)
+ * - Realtime: Race, RaceCar, RaceMember and RunSession changes refetch the page on every
+ *   client - a host's reorder or next race shows up everywhere at once
+ * - Now Racing / Up Next: The night's current race and the one after it are highlighted;
+ *   the host's "Race Now" on a card moves the pointer there
  * - Hero section with gradient background and animated pattern
  * - Empty state with call-to-action
- * - Footer with link to manage races
+ * - Footer with link to manage races / the race night
  * - Responsive design with animated elements
  *
  * Data Flow:
- * 1. On mount, fetches active races via GET /api/races?isActive=true
- * 2. Races passed to SortableRaceList component
- * 3. Reordering handled by SortableRaceList via PATCH /api/races/{id}
- * 4. UI updates automatically when order changes
+ * 1. On mount, GET /api/race-nights/current?date=<local date>
+ * 2a. Race night: GET /api/races?ids=<lineup> → races in lineup order; reordering saves
+ *     the lineup (PATCH /api/race-nights/[id] { raceIds })
+ * 2b. No race night: GET /api/races?isActive=true; reordering via POST /api/races/reorder
+ *     (handled by SortableRaceList)
+ * 3. Controls update the night in place; finishing or cancelling it reloads the page data
+ * 4. Realtime event (any client) → fetchTonight() again, without the loading spinner
  *
  * State Management:
- * - races: Array of active race objects
+ * - races: Race objects shown in the list
+ * - raceNight: Tonight's race night (null = active races fallback)
+ * - currentUser: For the host check (creator or admin)
  * - loading: Initial data fetch state
  *
- * Race Active Status:
+ * Race Active Status (fallback only):
  * - Races must have isActive: true in database
  * - Set on /races page by toggling "Active" toggle
- * - Only active races appear on this page
  * - Order maintained by displayOrder field
  *
  * API Integration:
- * - GET /api/races?isActive=true: Fetch active races in order
- * - PATCH /api/races/{id}: Update display order (handled by SortableRaceList)
+ * - GET /api/race-nights/current: Tonight's race night (or null)
+ * - GET /api/races?ids= / ?isActive=true: Race cards
+ * - PATCH /api/race-nights/[id]: Lineup order, pointer (Race Now), status
+ * - POST /api/races/reorder: Active race order (handled by SortableRaceList)
  *
  * Drag & Drop Functionality:
  * - Powered by @dnd-kit/core and @dnd-kit/sortable
@@ -50,7 +62,7 @@
  * - Icon animations (group-hover:rotate-90)
  *
  * Empty State:
- * - Shown when no active races exist
+ * - Shown when there is no race night tonight and no active races
  * - Animated icon with gradient background
  * - Clear call-to-action to manage races
  * - Helpful description text
@@ -61,58 +73,155 @@
  * - Loading state prevents duplicate requests
  *
  * Common Issues:
- * - No races showing? Check if races are marked as active on /races page
+ * - No races showing? Check tonight's race night (/race-nights) or mark races active on /races
+ * - Old active-race list instead of the race night? The night's date isn't today (local date)
  * - Drag not working? Check @dnd-kit installation
  * - Order not saving? Check API response and displayOrder updates
+ * - Other clients not updating? See @/hooks/use-races-realtime.ts (publication + anon read)
  *
  * Related Files:
  * - /api/races/route.ts: Races API endpoints
  * - @/components/tonight/sortable-race-list: Drag-and-drop list component
  * - @/components/tonight/race-card: Individual race card
  * - /races/page.tsx: Race management page
+ * - /race-nights: Race night planner
+ * - @/components/race-nights/race-night-controls: Live controls
  * - @/lib/dnd-utils: DnD utility functions
+ * - @/hooks/use-races-realtime.ts: Realtime subscription
  */
 
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { LoadingSection } from '@/components/ui/loading'
 import { SortableRaceList } from '@/components/tonight/sortable-race-list'
 import type { Race } from '@/components/tonight/sortable-race-list'
+import { RaceNightControls } from '@/components/race-nights/race-night-controls'
+import { useRacesRealtime } from '@/hooks/use-races-realtime'
 import {
+  CalendarDays,
   Radio,
   Settings,
 } from 'lucide-react'
+import { getRaceNightMarkers, isArchivedStatus, localDateString, type RaceNight } from '@/lib/race-nights'
 
 export default function TonightPage() {
   const [races, setRaces] = useState<Race[]>([])
+  const [raceNight, setRaceNight] = useState<RaceNight | null>(null)
+  const [currentUser, setCurrentUser] = useState<{ id: string; role: string } | null>(null)
   const [loading, setLoading] = useState(true)
 
   // ===========================================================================
   // DATA FETCHING
   // ===========================================================================
 
-  // Fetch active races on component mount
-  useEffect(() => {
-    fetchActiveRaces()
-  }, [])
-
-  // Fetch races with isActive=true to get tonight's races in order
-  const fetchActiveRaces = async () => {
+  // Tonight's race night first; without one, the races with isActive=true
+  const fetchTonight = useCallback(async () => {
     try {
+      const nightRes = await fetch(`/api/race-nights/current?date=${localDateString()}`)
+      const night: RaceNight | null = nightRes.ok ? (await nightRes.json()).raceNight : null
+      setRaceNight(night)
+
+      if (night) {
+        const raceIds = night.entries.map((entry) => entry.race!.id)
+        if (raceIds.length === 0) {
+          setRaces([])
+          return
+        }
+
+        const res = await fetch(`/api/races?ids=${raceIds.join(',')}`)
+        const data = await res.json()
+        const byId = new Map<string, Race>((data.races || []).map((race: Race) => [race.id, race]))
+        setRaces(raceIds.map((id) => byId.get(id)).filter((race): race is Race => Boolean(race)))
+        return
+      }
+
       // Fetch with ?isActive=true to get races in order
       const res = await fetch('/api/races?isActive=true')
       const data = await res.json()
 
       setRaces(data.races || [])
     } catch (error) {
-      console.error('Error fetching active races:', error)
+      console.error('Error fetching tonight\'s races:', error)
     } finally {
       setLoading(false)
     }
+  }, [])
+
+  useEffect(() => {
+    fetchTonight()
+
+    const fetchCurrentUser = async () => {
+      try {
+        const res = await fetch('/api/auth/session')
+        if (res.ok) {
+          const session = await res.json()
+          if (session?.user) setCurrentUser({ id: session.user.id, role: session.user.role })
+        }
+      } catch (error) {
+        console.error('Error fetching current user:', error)
+      }
+    }
+
+    fetchCurrentUser()
+  }, [fetchTonight])
+
+  // Any client's change to the races or the night refetches here
+  useRacesRealtime({ raceNights: true, onChange: fetchTonight })
+
+  // ===========================================================================
+  // RACE NIGHT ACTIONS
+  // ===========================================================================
+
+  // Creator or admin (same rule as PATCH /api/race-nights/[id])
+  const canHost = Boolean(
+    raceNight && currentUser && (currentUser.id === raceNight.createdById || currentUser.role === 'ADMIN')
+  )
+
+  // Finished / cancelled nights leave Tonight - reload to fall back
+  const handleRaceNightChange = (updated: RaceNight) => {
+    if (isArchivedStatus(updated.status)) {
+      setLoading(true)
+      fetchTonight()
+    } else {
+      setRaceNight(updated)
+    }
+  }
+
+  // Dragging on a race night saves its lineup (throws so the list rolls back)
+  const saveLineup = async (raceIds: string[]) => {
+    const res = await fetch(`/api/race-nights/${raceNight!.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ raceIds }),
+    })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error || 'Failed to save lineup')
+    setRaceNight(data.raceNight)
+  }
+
+  const { currentRaceId, upNextRaceId } = getRaceNightMarkers(raceNight)
+
+  // Host's "Race Now" on a card: move the night's pointer to that race
+  const setCurrentRace = async (raceId: string) => {
+    const entry = raceNight?.entries.find((e) => e.race?.id === raceId)
+    if (!entry) return
+
+    try {
+      const res = await fetch(`/api/race-nights/${raceNight!.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentEntryOrder: entry.order }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to set the current race')
+      setRaceNight(data.raceNight)
+    } catch (error) {
+      console.error('Error setting the current race:', error)
+    }
   }
 
   // ===========================================================================
@@ -124,8 +233,8 @@ export default function TonightPage() {
     return <LoadingSection text="Loading tonight&apos;s races..." />
   }
 
-  // Show empty state when no active races
-  if (races.length === 0) {
+  // Show empty state when there is no race night and no active races
+  if (!raceNight && races.length === 0) {
     return (
       <div className="min-h-[70vh] flex items-center justify-center p-4">
         <div className="max-w-md w-full text-center space-y-6">
@@ -139,24 +248,34 @@ export default function TonightPage() {
 
           {/* Empty State Text */}
           <div className="space-y-3">
-            <h2 className="text-3xl font-bold tracking-tight">No Active Races</h2>
+            <h2 className="text-3xl font-bold tracking-tight">No Races Tonight</h2>
             <p className="text-muted-foreground text-lg">
-                Ready to race? Set races as active to see them here for tonight&apos;s session!
+                Ready to race? Plan a race night for today, or set races as active to see them here!
             </p>
           </div>
 
-          {/* CTA Button */}
-          <Button asChild size="lg" className="group">
-            <Link href="/races">
-              <Settings className="h-5 w-5 mr-2 group-hover:rotate-90 transition-transform duration-300" />
-              Manage Races
-            </Link>
-          </Button>
+          {/* CTA Buttons */}
+          <div className="flex flex-wrap justify-center gap-2">
+            <Button asChild size="lg">
+              <Link href="/race-nights">
+                <CalendarDays className="h-5 w-5 mr-2" />
+                Race Nights
+              </Link>
+            </Button>
+            <Button asChild size="lg" variant="outline" className="group">
+              <Link href="/races">
+                <Settings className="h-5 w-5 mr-2 group-hover:rotate-90 transition-transform duration-300" />
+                Manage Races
+              </Link>
+            </Button>
+          </div>
         </div>
       </div>
     )
   }
 
+  const isLive = !raceNight || raceNight.status === 'IN_PROGRESS'
+
   // Main content with hero section, race list, and footer
   return (
     <div className="min-h-screen">
@@ -180,32 +299,63 @@ export default function TonightPage() {
         <div className="relative max-w-4xl mx-auto px-4 py-4 sm:py-6">
           <div className="text-center space-y-2">
             {/* Live Badge */}
-            <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-destructive/10 border border-destructive/20">
-              <span className="relative flex h-2.5 w-2.5">
-                <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-destructive opacity-75"></span>
-                <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-destructive"></span>
-              </span>
-              <span className="text-xs font-semibold text-destructive">LIVE</span>
-            </div>
+            {/* - Race night: only while it's in progress */}
+            {isLive ? (
+              <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-destructive/10 border border-destructive/20">
+                <span className="relative flex h-2.5 w-2.5">
+                  <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-destructive opacity-75"></span>
+                  <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-destructive"></span>
+                </span>
+                <span className="text-xs font-semibold text-destructive">LIVE</span>
+              </div>
+            ) : (
+              <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-muted border border-border">
+                <CalendarDays className="h-3 w-3 text-muted-foreground" />
+                <span className="text-xs font-semibold text-muted-foreground">TONIGHT</span>
+              </div>
+            )}
 
             {/* Title */}
             <div>
               <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
-                Race List
+                {raceNight ? raceNight.name : 'Race List'}
               </h1>
               <p className="text-sm text-muted-foreground">
-                {races.length} {races.length === 1 ? 'active race' : 'active races'}
+                {races.length} {raceNight
+                  ? (races.length === 1 ? 'race' : 'races')
+                  : (races.length === 1 ? 'active race' : 'active races')}
               </p>
             </div>
           </div>
         </div>
       </div>
 
+      {/* ========================================================================
+          RACE NIGHT CONTROLS
+          ======================================================================== */}
+      {raceNight && (
+        <div className="max-w-4xl mx-auto px-4 pt-6">
+          <RaceNightControls raceNight={raceNight} canHost={canHost} onChange={handleRaceNightChange} />
+        </div>
+      )}
+
       {/* ========================================================================
           RACES LIST (DRAGGABLE)
           ======================================================================== */}
       <div className="max-w-4xl mx-auto px-4 py-8 sm:py-12">
-        <SortableRaceList initialRaces={races} />
+        {races.length === 0 ? (
+          <p className="text-center text-muted-foreground">No races on this race night yet</p>
+        ) : (
+          <SortableRaceList
+            key={raceNight?.id || 'active'}
+            initialRaces={races}
+            onReorder={raceNight ? saveLineup : undefined}
+            reorderable={!raceNight || canHost}
+            currentRaceId={currentRaceId}
+            upNextRaceId={upNextRaceId}
+            onSetCurrent={canHost && raceNight?.status === 'IN_PROGRESS' ? setCurrentRace : undefined}
+          />
+        )}
       </div>
 
       {/* ========================================================================
@@ -218,10 +368,17 @@ export default function TonightPage() {
               Want to modify tonight&apos;s races?
             </p>
             <Button asChild variant="outline" size="lg">
-              <Link href="/races">
-                <Settings className="h-4 w-4 mr-2" />
-                Manage Races
-              </Link>
+              {raceNight ? (
+                <Link href={`/race-nights/${raceNight.id}`}>
+                  <CalendarDays className="h-4 w-4 mr-2" />
+                  Manage Race Night
+                </Link>
+              ) : (
+                <Link href="/races">
+                  <Settings className="h-4 w-4 mr-2" />
+                  Manage Races
+                </Link>
+              )}
             </Button>
           </CardContent>
         </Card>
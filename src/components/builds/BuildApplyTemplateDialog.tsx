@@ -0,0 +1,251 @@
+/**
+ * Build Apply Template Dialog Component
+ *
+ * Purpose: Apply a saved template (e.g. "Gr.3 wet baseline") to this build
+ * - Lists own + public templates with the sections/categories each one covers
+ * - Picking a template previews exactly which values on this build would be overwritten
+ * - Apply overwrites those sections (a new revision is stored, undo via History)
+ * - Own templates (or any, for admins) can be deleted here (second click confirms)
+ *
+ * **Data Flow:**
+ * 1. Open: GET /api/build-templates
+ * 2. Pick: POST /api/build-templates/[id]/apply { targetBuildIds: [buildId], preview: true }
+ * 3. Apply: Same request with preview: false → onApplied() so the page refetches the build
+ *
+ * **Props:**
+ * - buildId: Build to apply the template to
+ * - open / onOpenChange: Controlled dialog state
+ * - onApplied: Called after a successful apply
+ *
+ * **Related Files:**
+ * - @/components/builds/BuildCopySetupDialog.tsx: Where templates are saved
+ * - @/app/api/build-templates: Template endpoints
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Globe, Loader2, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { BuildDiffList } from '@/components/builds/BuildDiffList'
+import type { PartialSetupResult } from '@/lib/build-partial-setup'
+import type { DbBuildTemplate } from '@/types/database'
+
+interface Template extends DbBuildTemplate {
+  user: { id: string; name: string | null; gamertag: string | null } | null
+  canEdit: boolean
+}
+
+interface BuildApplyTemplateDialogProps {
+  buildId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onApplied?: () => void
+}
+
+export function BuildApplyTemplateDialog({ buildId, open, onOpenChange, onApplied }: BuildApplyTemplateDialogProps) {
+  const [templates, setTemplates] = useState<Template[]>([])
+  const [loading, setLoading] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [preview, setPreview] = useState<PartialSetupResult | null>(null)
+  const [working, setWorking] = useState<'preview' | 'apply' | null>(null)
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+
+    const fetchTemplates = async () => {
+      try {
+        setLoading(true)
+        setSelectedId(null)
+        setPreview(null)
+        setError(null)
+        const res = await fetch('/api/build-templates')
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load templates')
+        setTemplates(data.templates || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load templates')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchTemplates()
+  }, [open])
+
+  const runTemplate = async (templateId: string, previewOnly: boolean) => {
+    setWorking(previewOnly ? 'preview' : 'apply')
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/build-templates/${templateId}/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetBuildIds: [buildId], preview: previewOnly }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to apply template')
+
+      if (previewOnly) {
+        setPreview(data.results[0] ?? null)
+      } else {
+        onOpenChange(false)
+        onApplied?.()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply template')
+    } finally {
+      setWorking(null)
+    }
+  }
+
+  const selectTemplate = (templateId: string) => {
+    setSelectedId(templateId)
+    setPreview(null)
+    runTemplate(templateId, true)
+  }
+
+  const deleteTemplate = async (template: Template) => {
+    setConfirmDeleteId(null)
+
+    try {
+      const res = await fetch(`/api/build-templates/${template.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to delete template')
+      }
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id))
+      if (selectedId === template.id) {
+        setSelectedId(null)
+        setPreview(null)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Apply Template</DialogTitle>
+          <DialogDescription>
+            A template replaces the sections it covers on this build. Pick one to see what would change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {loading && <p className="text-sm text-muted-foreground">Loading templates...</p>}
+          {!loading && templates.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No templates yet - save one from any build with Copy Setup
+            </p>
+          )}
+
+          <div className="space-y-2">
+            {templates.map((template) => {
+              // Section and category names can clash (e.g. "Suspension"), so keys carry the kind
+              const covers = [
+                ...template.setup.sections.map((name) => ({ key: `section:${name}`, name })),
+                ...template.setup.categories.map((name) => ({ key: `category:${name}`, name })),
+              ]
+              return (
+                <div
+                  key={template.id}
+                  className={cn(
+                    'flex items-start gap-3 px-3 py-2.5 border rounded text-sm',
+                    selectedId === template.id ? 'border-primary' : 'border-border'
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => selectTemplate(template.id)}
+                    className="flex-1 min-w-0 text-left min-h-[44px]"
+                  >
+                    <p className="font-medium flex items-center gap-2">
+                      {template.name}
+                      {template.isPublic && <Globe className="h-3 w-3 text-muted-foreground" />}
+                    </p>
+                    {template.description && (
+                      <p className="text-xs text-muted-foreground">{template.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {covers.map(({ key, name }) => (
+                        <Badge key={key} variant="outline" className="text-xs">{name}</Badge>
+                      ))}
+                      {template.user && (
+                        <span className="text-xs text-muted-foreground">
+                          by {template.user.gamertag || template.user.name}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                  {/* Delete asks for a second click */}
+                  {template.canEdit && (confirmDeleteId === template.id ? (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      className="h-8 px-2 shrink-0"
+                      onClick={() => deleteTemplate(template)}
+                    >
+                      Delete?
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive shrink-0"
+                      aria-label={`Delete template ${template.name}`}
+                      onClick={() => setConfirmDeleteId(template.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  ))}
+                </div>
+              )
+            })}
+          </div>
+
+          {working === 'preview' && (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading preview...
+            </p>
+          )}
+          {preview && (
+            <div className="space-y-4 border-t border-border pt-4">
+              <h3 className="font-semibold text-sm">Changes to this build</h3>
+              <BuildDiffList diff={preview.diff} emptyLabel="Nothing would change" />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={working !== null}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => selectedId && runTemplate(selectedId, false)}
+            disabled={!preview || preview.diff.totalChanges === 0 || working !== null}
+          >
+            {working === 'apply' ? 'Applying...' : 'Apply Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,358 @@
+/**
+ * Build Copy Setup Dialog Component
+ *
+ * Purpose: Copy chosen tuning sections / part categories of this build onto other builds
+ * - e.g. copy just the suspension, or just the LSD, onto another car's build
+ * - Preview shows, per target build, exactly which values would be overwritten
+ * - The same selection can be saved as a named template (not tied to a car)
+ *
+ * **Flow:**
+ * 1. Tick sections/categories (counts show how many values this build has in each)
+ * 2. Tick target builds (your own builds, this one excluded)
+ * 3. Preview → POST /api/builds/[id]/copy-setup { preview: true } → diff per target
+ * 4. Apply → same request with preview: false → each changed target gets a new revision
+ * - Save as Template → POST /api/build-templates with the same selection
+ *
+ * **Props:**
+ * - buildId: Source build
+ * - upgradeCategories / settingSections: Category / section of each row on this build
+ * - open / onOpenChange: Controlled dialog state
+ *
+ * **Debugging Tips:**
+ * - No target builds listed: GET /api/builds?myBuilds=true returned only this build
+ * - Section shows 0 but still listed: Copying an empty section clears it on the targets
+ *
+ * **Related Files:**
+ * - @/lib/build-partial-setup.ts: Overwrite rules
+ * - @/components/builds/BuildApplyTemplateDialog.tsx: Apply a saved template
+ * - @/components/builds/BuildDiffList.tsx: Preview rendering
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { BookmarkPlus, Check, Eye, Loader2 } from 'lucide-react'
+import { BuildDiffList } from '@/components/builds/BuildDiffList'
+import type { PartialSetupResult } from '@/lib/build-partial-setup'
+
+interface CatalogGroup {
+  id: string
+  name: string
+}
+
+interface TargetBuild {
+  id: string
+  name: string
+  car: { manufacturer: string; name: string } | null
+}
+
+interface BuildCopySetupDialogProps {
+  buildId: string
+  upgradeCategories: string[]
+  settingSections: string[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function countBy(values: string[]): Record<string, number> {
+  return values.reduce((acc, value) => {
+    acc[value] = (acc[value] || 0) + 1
+    return acc
+  }, {} as Record<string, number>)
+}
+
+// Checkbox grid for sections / categories / targets
+function CheckList({
+  items,
+  selected,
+  onToggle,
+  hint,
+}: {
+  items: { id: string; label: string }[]
+  selected: string[]
+  onToggle: (id: string) => void
+  hint?: (id: string) => string | null
+}) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {items.map((item) => (
+        <label
+          key={item.id}
+          className="flex items-center gap-2 px-3 py-2 border border-border rounded text-sm cursor-pointer min-h-[44px]"
+        >
+          <Checkbox checked={selected.includes(item.id)} onCheckedChange={() => onToggle(item.id)} />
+          <span className="flex-1 truncate">{item.label}</span>
+          {hint?.(item.id) && <span className="text-xs text-muted-foreground">{hint(item.id)}</span>}
+        </label>
+      ))}
+    </div>
+  )
+}
+
+export function BuildCopySetupDialog({
+  buildId,
+  upgradeCategories,
+  settingSections,
+  open,
+  onOpenChange,
+}: BuildCopySetupDialogProps) {
+  const [sections, setSections] = useState<CatalogGroup[]>([])
+  const [categories, setCategories] = useState<CatalogGroup[]>([])
+  const [targets, setTargets] = useState<TargetBuild[]>([])
+  const [selectedSections, setSelectedSections] = useState<string[]>([])
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([])
+  const [selectedTargets, setSelectedTargets] = useState<string[]>([])
+  const [results, setResults] = useState<PartialSetupResult[] | null>(null)
+  const [templateName, setTemplateName] = useState('')
+  const [templatePublic, setTemplatePublic] = useState(false)
+  const [working, setWorking] = useState<'preview' | 'apply' | 'template' | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const partCounts = useMemo(() => countBy(upgradeCategories), [upgradeCategories])
+  const settingCounts = useMemo(() => countBy(settingSections), [settingSections])
+
+  // Catalog + own builds are fetched every time the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    const fetchOptions = async () => {
+      try {
+        setResults(null)
+        setMessage(null)
+        setError(null)
+        const [sectionsRes, categoriesRes, buildsRes] = await Promise.all([
+          fetch('/api/tuning-settings/sections'),
+          fetch('/api/parts/categories'),
+          fetch('/api/builds?myBuilds=true'),
+        ])
+        if (!sectionsRes.ok || !categoriesRes.ok || !buildsRes.ok) {
+          throw new Error('Failed to load sections or builds')
+        }
+        const [sectionsData, categoriesData, buildsData] = await Promise.all([
+          sectionsRes.json(),
+          categoriesRes.json(),
+          buildsRes.json(),
+        ])
+        setSections(sectionsData.sections || [])
+        setCategories(categoriesData.categories || [])
+        setTargets((buildsData.builds || []).filter((b: TargetBuild) => b.id !== buildId))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load sections or builds')
+      }
+    }
+
+    fetchOptions()
+  }, [open, buildId])
+
+  const toggle = (setter: (fn: (prev: string[]) => string[]) => void) => (value: string) => {
+    setResults(null)
+    setMessage(null)
+    setter((prev) => (prev.includes(value) ? prev.filter((v) => v !== value) : [...prev, value]))
+  }
+
+  const hasScope = selectedSections.length > 0 || selectedCategories.length > 0
+
+  // ============================================================
+  // ACTIONS
+  // ============================================================
+
+  const runCopy = async (preview: boolean) => {
+    setWorking(preview ? 'preview' : 'apply')
+    setError(null)
+    setMessage(null)
+
+    try {
+      const res = await fetch(`/api/builds/${buildId}/copy-setup`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sections: selectedSections,
+          categories: selectedCategories,
+          targetBuildIds: selectedTargets,
+          preview,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to copy setup')
+
+      setResults(data.results)
+      if (!preview) {
+        const applied = (data.results as PartialSetupResult[]).filter((r) => r.applied).length
+        setMessage(`Setup copied to ${applied} build${applied === 1 ? '' : 's'}`)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy setup')
+    } finally {
+      setWorking(null)
+    }
+  }
+
+  const saveTemplate = async () => {
+    setWorking('template')
+    setError(null)
+    setMessage(null)
+
+    try {
+      const res = await fetch('/api/build-templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          buildId,
+          name: templateName,
+          isPublic: templatePublic,
+          sections: selectedSections,
+          categories: selectedCategories,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to save template')
+
+      setTemplateName('')
+      setMessage(`Template "${data.template.name}" saved`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template')
+    } finally {
+      setWorking(null)
+    }
+  }
+
+  const changesToApply = results?.filter((r) => !r.applied && r.diff.totalChanges > 0).length ?? 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Copy Setup</DialogTitle>
+          <DialogDescription>
+            Copy whole tuning sections or part categories from this build. Ticked sections replace the
+            same sections on the target builds - everything else stays as it is.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Tuning Sections</Label>
+            <CheckList
+              items={sections.map((s) => ({ id: s.name, label: s.name }))}
+              selected={selectedSections}
+              onToggle={toggle(setSelectedSections)}
+              hint={(name) => `${settingCounts[name] || 0}${name === 'Transmission' ? ' + gears' : ''}`}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Part Categories</Label>
+            <CheckList
+              items={categories.map((c) => ({ id: c.name, label: c.name }))}
+              selected={selectedCategories}
+              onToggle={toggle(setSelectedCategories)}
+              hint={(name) => `${partCounts[name] || 0}`}
+            />
+          </div>
+
+          {/* Save selection as a template */}
+          <div className="space-y-2 border-t border-border pt-4">
+            <Label htmlFor="templateName">Save Selection as Template</Label>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                id="templateName"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder='e.g. "Gr.3 wet baseline"'
+                maxLength={100}
+                className="min-h-[44px]"
+              />
+              <label className="flex items-center gap-2 text-sm shrink-0">
+                <Checkbox checked={templatePublic} onCheckedChange={(checked) => setTemplatePublic(checked === true)} />
+                Public
+              </label>
+              <Button
+                variant="ghostBordered"
+                onClick={saveTemplate}
+                disabled={!hasScope || !templateName.trim() || working !== null}
+                className="min-h-[44px]"
+              >
+                <BookmarkPlus className="h-4 w-4 mr-2" />
+                {working === 'template' ? 'Saving...' : 'Save Template'}
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2 border-t border-border pt-4">
+            <Label>Target Builds</Label>
+            {targets.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You have no other builds to copy to</p>
+            ) : (
+              <CheckList
+                items={targets.map((t) => ({
+                  id: t.id,
+                  label: t.car ? `${t.name} · ${t.car.manufacturer} ${t.car.name}` : t.name,
+                }))}
+                selected={selectedTargets}
+                onToggle={toggle(setSelectedTargets)}
+              />
+            )}
+          </div>
+
+          {/* Preview / result per target */}
+          {results && results.length > 0 && (
+            <div className="space-y-4 border-t border-border pt-4">
+              {results.map((result) => (
+                <div key={result.buildId} className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-sm">{result.name}</h3>
+                    <span className="text-xs text-muted-foreground">{result.car}</span>
+                    {result.applied && <Badge variant="secondary">Applied</Badge>}
+                  </div>
+                  <BuildDiffList diff={result.diff} emptyLabel="Nothing would change" />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {message && (
+            <p className="text-sm text-primary flex items-center gap-2">
+              <Check className="h-4 w-4" />
+              {message}
+            </p>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={working !== null}>
+            Close
+          </Button>
+          <Button
+            variant="ghostBordered"
+            onClick={() => runCopy(true)}
+            disabled={!hasScope || selectedTargets.length === 0 || working !== null}
+          >
+            {working === 'preview' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+            Preview
+          </Button>
+          <Button
+            onClick={() => runCopy(false)}
+            disabled={!results || changesToApply === 0 || working !== null}
+          >
+            {working === 'apply' ? 'Applying...' : `Apply to ${changesToApply} build${changesToApply === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
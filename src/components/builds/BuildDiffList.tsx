@@ -0,0 +1,81 @@
+/**
+ * Build Diff List Component
+ *
+ * Purpose: Render a BuildSnapshotDiff grouped into Details / Parts / Tuning Settings / Gear Ratios
+ * - Added (green), removed (red, struck through), changed (old → new)
+ * - Shared by the revision history and the copy setup / template previews
+ *
+ * **Props:**
+ * - diff: Diff from diffBuildSnapshots()
+ * - emptyLabel: Text shown when nothing changes (default "No differences")
+ *
+ * **Related Files:**
+ * - @/lib/build-snapshot.ts: diffBuildSnapshots(), BuildSnapshotDiff
+ * - @/components/builds/BuildHistory.tsx, BuildCopySetupDialog.tsx, BuildApplyTemplateDialog.tsx
+ */
+
+'use client'
+
+import type { BuildDiffEntry, BuildSnapshotDiff } from '@/lib/build-snapshot'
+
+const DIFF_SECTIONS: { key: keyof Omit<BuildSnapshotDiff, 'totalChanges'>; title: string }[] = [
+  { key: 'details', title: 'Details' },
+  { key: 'parts', title: 'Parts' },
+  { key: 'settings', title: 'Tuning Settings' },
+  { key: 'gears', title: 'Gear Ratios' },
+]
+
+function DiffValue({ entry }: { entry: BuildDiffEntry }) {
+  if (entry.change === 'added') {
+    return <span className="font-mono text-green-500">+ {entry.after}</span>
+  }
+
+  if (entry.change === 'removed') {
+    return <span className="font-mono text-destructive line-through">{entry.before}</span>
+  }
+
+  return (
+    <span className="font-mono">
+      <span className="text-muted-foreground">{entry.before}</span>
+      <span className="mx-2">→</span>
+      <span className="text-primary">{entry.after}</span>
+    </span>
+  )
+}
+
+interface BuildDiffListProps {
+  diff: BuildSnapshotDiff
+  emptyLabel?: string
+}
+
+export function BuildDiffList({ diff, emptyLabel = 'No differences' }: BuildDiffListProps) {
+  if (diff.totalChanges === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyLabel}</p>
+  }
+
+  return (
+    <>
+      {DIFF_SECTIONS.filter(({ key }) => diff[key].length > 0).map(({ key, title }) => (
+        <div key={key}>
+          <h4 className="font-semibold text-sm text-primary mb-2">{title}</h4>
+          <div className="space-y-1">
+            {diff[key].map((entry) => (
+              <div
+                key={entry.key}
+                className="flex items-center justify-between gap-3 px-3 py-2 border border-border rounded text-sm"
+              >
+                <span className="truncate">
+                  {key !== 'details' && key !== 'gears' && (
+                    <span className="text-muted-foreground">{entry.group} · </span>
+                  )}
+                  {entry.label}
+                </span>
+                <DiffValue entry={entry} />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,302 @@
+/**
+ * Build History Component
+ *
+ * Purpose: Revision timeline for a build with diff and restore
+ * - Lists every saved revision (newest first) with creator, date and change count
+ * - Shows laps recorded on each revision (count + fastest time)
+ * - Select two revisions to see a field-by-field diff (parts, settings, gears)
+ * - Restore any earlier revision (creates a new revision, nothing is lost)
+ *
+ * **Key Features:**
+ * - Timeline: Revision number, date, creator, "restored from #N" badge
+ * - Compare: Tick two revisions → diff table grouped by category/section
+ * - Single tick: Compares that revision against the latest one
+ * - Highlighting: Added (green), removed (red, struck through), changed (old → new)
+ * - Restore: Confirmation dialog → POST restore → onRestored() so parent refetches build
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/builds/[id]/revisions → revisions[]
+ * 2. Selection changes: GET /api/builds/[id]/revisions/diff?from=&to= → diff
+ * 3. Restore: POST /api/builds/[id]/revisions/[revisionId]/restore → refetch timeline
+ *
+ * **Props:**
+ * - buildId: Build to show history for
+ * - onRestored: Optional callback after a successful restore (parent refetches build)
+ *
+ * **Debugging Tips:**
+ * - Card hidden: Build has no revisions yet (created before history existed)
+ * - Restore 403: Only the owner or an admin can restore
+ * - Diff empty: Both revisions have the same setup
+ *
+ * **Related Files:**
+ * - @/app/api/builds/[id]/revisions: History, diff and restore endpoints
+ * - @/lib/build-snapshot.ts: Diff format (BuildSnapshotDiff)
+ * - @/components/builds/BuildDiffList.tsx: Diff rendering
+ * - @/app/builds/[id]/page.tsx: Parent page
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { History, RotateCcw } from 'lucide-react'
+import { formatLapTime } from '@/lib/time'
+import { BuildDiffList } from '@/components/builds/BuildDiffList'
+import type { BuildSnapshotDiff } from '@/lib/build-snapshot'
+
+interface Revision {
+  id: string
+  revisionNumber: number
+  createdAt: string
+  createdBy: { id: string; name: string | null; gamertag: string | null } | null
+  name: string
+  restoredFrom: { id: string; revisionNumber: number | null } | null
+  partCount: number
+  settingCount: number
+  changeCount: number | null
+  lapCount: number
+  fastestTime: number | null
+}
+
+interface DiffResponse {
+  from: { id: string; revisionNumber: number }
+  to: { id: string; revisionNumber: number }
+  diff: BuildSnapshotDiff
+}
+
+interface BuildHistoryProps {
+  buildId: string
+  onRestored?: () => void
+}
+
+export function BuildHistory({ buildId, onRestored }: BuildHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<string[]>([])
+  const [diff, setDiff] = useState<DiffResponse | null>(null)
+  const [diffLoading, setDiffLoading] = useState(false)
+  const [restoreTarget, setRestoreTarget] = useState<Revision | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // ============================================================
+  // DATA FETCHING
+  // ============================================================
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/builds/${buildId}/revisions`)
+      if (!res.ok) throw new Error('Failed to fetch revisions')
+      const data = await res.json()
+      setRevisions(data.revisions || [])
+    } catch (err) {
+      console.error('Error fetching revisions:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [buildId])
+
+  useEffect(() => {
+    fetchRevisions()
+  }, [fetchRevisions])
+
+  // ============================================================
+  // DIFF
+  // ============================================================
+  // Older revision is always "from" regardless of click order
+  // One selected revision = compare it against the latest
+  // ============================================================
+
+  useEffect(() => {
+    if (selected.length === 0) {
+      setDiff(null)
+      return
+    }
+
+    const byNumber = (revisionId: string) =>
+      revisions.find((r) => r.id === revisionId)?.revisionNumber ?? 0
+    const [from, to] = [...selected].sort((a, b) => byNumber(a) - byNumber(b))
+
+    const query = new URLSearchParams({ from })
+    if (to) query.set('to', to)
+
+    setDiffLoading(true)
+    fetch(`/api/builds/${buildId}/revisions/diff?${query}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setDiff(data))
+      .catch((err) => console.error('Error fetching revision diff:', err))
+      .finally(() => setDiffLoading(false))
+  }, [selected, revisions, buildId])
+
+  const toggleSelected = (revisionId: string) => {
+    setSelected((prev) => {
+      if (prev.includes(revisionId)) return prev.filter((s) => s !== revisionId)
+      // Keep at most two - drop the oldest pick
+      return [...prev, revisionId].slice(-2)
+    })
+  }
+
+  // ============================================================
+  // RESTORE
+  // ============================================================
+
+  const confirmRestore = async () => {
+    if (!restoreTarget) return
+    setRestoring(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/builds/${buildId}/revisions/${restoreTarget.id}/restore`, {
+        method: 'POST',
+      })
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to restore revision')
+      }
+
+      setRestoreTarget(null)
+      setSelected([])
+      await fetchRevisions()
+      onRestored?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  if (loading || revisions.length === 0) {
+    return null
+  }
+
+  const latestId = revisions[0].id
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          History
+        </CardTitle>
+        <CardDescription>
+          {revisions.length} revision{revisions.length === 1 ? '' : 's'} - tick two to compare
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Timeline */}
+        <div className="space-y-2">
+          {revisions.map((revision) => (
+            <div
+              key={revision.id}
+              className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 px-3 py-2.5 border border-border rounded text-sm"
+            >
+              <div className="flex items-center gap-3 flex-1 min-w-0">
+                <Checkbox
+                  checked={selected.includes(revision.id)}
+                  onCheckedChange={() => toggleSelected(revision.id)}
+                  aria-label={`Select revision ${revision.revisionNumber}`}
+                />
+                <Badge variant="outline" className="font-mono shrink-0">
+                  #{revision.revisionNumber}
+                </Badge>
+                <div className="min-w-0">
+                  <p className="truncate">
+                    {new Date(revision.createdAt).toLocaleString()}
+                    {revision.createdBy && (
+                      <span className="text-muted-foreground">
+                        {' '}by {revision.createdBy.gamertag || revision.createdBy.name}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {revision.changeCount === null
+                      ? 'Initial version'
+                      : `${revision.changeCount} change${revision.changeCount === 1 ? '' : 's'}`}
+                    {' · '}{revision.partCount} parts · {revision.settingCount} settings
+                    {revision.lapCount > 0 && revision.fastestTime !== null && (
+                      <> · {revision.lapCount} laps, best {formatLapTime(revision.fastestTime)}</>
+                    )}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {revision.restoredFrom && (
+                  <Badge variant="secondary">
+                    Restored from #{revision.restoredFrom.revisionNumber ?? '?'}
+                  </Badge>
+                )}
+                {revision.id === latestId ? (
+                  <Badge>Current</Badge>
+                ) : (
+                  <Button
+                    variant="ghostBordered"
+                    size="sm"
+                    onClick={() => setRestoreTarget(revision)}
+                    className="min-h-[44px]"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Diff */}
+        {diffLoading && (
+          <p className="text-sm text-muted-foreground">Loading changes...</p>
+        )}
+        {!diffLoading && diff && (
+          <div className="space-y-4 border-t border-border pt-4">
+            <h3 className="font-semibold text-sm">
+              Changes from #{diff.from.revisionNumber} to #{diff.to.revisionNumber}
+            </h3>
+            <BuildDiffList diff={diff.diff} />
+          </div>
+        )}
+      </CardContent>
+
+      {/* Restore Confirmation Dialog */}
+      <Dialog open={restoreTarget !== null} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Restore Revision #{restoreTarget?.revisionNumber}?</DialogTitle>
+            <DialogDescription>
+              The build&apos;s parts, tuning settings and gear ratios will be replaced with this
+              revision. The current setup stays in the history and can be restored later.
+            </DialogDescription>
+          </DialogHeader>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRestoreTarget(null)} disabled={restoring}>
+              Cancel
+            </Button>
+            <Button onClick={confirmRestore} disabled={restoring}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {restoring ? 'Restoring...' : 'Restore'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,150 @@
+/**
+ * Build Import Dialog Component
+ *
+ * Purpose: Paste a setup code (or JSON document / .json file) to pre-fill the new build form
+ * - Sends the input to POST /api/builds/import which matches it against the catalog
+ * - Hands the matched build + unmatched items back to the parent form
+ * - Does not save anything - the user reviews the form and clicks Save Build
+ *
+ * **Accepted Input:**
+ * - Setup code: "FGT1.eyJ..." (from the Share dialog on a build page)
+ * - JSON document: Pasted text or a downloaded .json file
+ *
+ * **Props:**
+ * - open / onOpenChange: Controlled dialog state
+ * - onImported: Callback with (build, unmatched) after a successful resolve
+ *
+ * **Debugging Tips:**
+ * - "Invalid setup code": Code truncated when copied (messaging apps wrap long text)
+ * - JSON detected by a leading "{" - anything else is treated as a setup code
+ *
+ * **Related Files:**
+ * - @/app/api/builds/import/route.ts: Resolve endpoint
+ * - @/lib/build-export.ts: ResolvedBuildImport, BuildImportIssue types
+ * - @/app/builds/new/page.tsx: Parent form
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Upload } from 'lucide-react'
+import type { BuildImportIssue, ResolvedBuildImport } from '@/lib/build-export'
+
+export type ImportedBuild = Omit<ResolvedBuildImport, 'unmatched'>
+
+interface BuildImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: (build: ImportedBuild, unmatched: BuildImportIssue[]) => void
+}
+
+export function BuildImportDialog({ open, onOpenChange, onImported }: BuildImportDialogProps) {
+  const [input, setInput] = useState('')
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setInput(await file.text())
+    setError(null)
+  }
+
+  const handleImport = async () => {
+    const text = input.trim()
+    if (!text) return
+
+    setImporting(true)
+    setError(null)
+
+    try {
+      let body: { code?: string; document?: unknown }
+      if (text.startsWith('{')) {
+        try {
+          body = { document: JSON.parse(text) }
+        } catch {
+          throw new Error('This is not valid JSON')
+        }
+      } else {
+        body = { code: text }
+      }
+
+      const res = await fetch('/api/builds/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to import build')
+      }
+
+      onImported(data.build, data.unmatched || [])
+      setInput('')
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import build')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Build</DialogTitle>
+          <DialogDescription>
+            Paste a setup code or JSON export. Parts and settings are matched by name -
+            anything that can&apos;t be matched is listed before you save.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <Label htmlFor="import-code">Setup code or JSON</Label>
+          <Textarea
+            id="import-code"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="FGT1.eyJmb3JtYXQiOi..."
+            className="font-mono text-xs"
+            rows={6}
+          />
+          <Label
+            htmlFor="import-file"
+            className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer gt-hover-text-link w-fit"
+          >
+            <Upload className="h-4 w-4" />
+            Or choose a .json file
+          </Label>
+          <input
+            id="import-file"
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={importing}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleImport} disabled={importing || !input.trim()}>
+            {importing ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
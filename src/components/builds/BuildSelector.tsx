@@ -5,8 +5,10 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
-import { Plus, Search, X } from 'lucide-react'
+import { AlertTriangle, Plus, Search, X } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { checkBuildAgainstRegulations } from '@/lib/race-regulations'
+import type { RaceRegulations } from '@/types/database'
 
 interface Car {
   id: string
@@ -14,6 +16,8 @@ interface Car {
   slug: string
   manufacturer: string
   year?: number
+  category?: string | null
+  driveType?: string | null
 }
 
 interface Build {
@@ -21,6 +25,7 @@ interface Build {
   name: string
   description: string | null
   isPublic: boolean
+  estimatedPp?: number | null
   car: Car
 }
 
@@ -33,6 +38,7 @@ interface BuildSelectorProps {
   disabled?: boolean
   builds?: Build[]  // Optional: builds passed from parent (faster, no loading)
   buildsLoading?: boolean  // Optional: loading state from parent
+  regulations?: RaceRegulations | null  // Optional: race regulations - illegal builds are flagged and can't be added
 }
 
 export function BuildSelector({
@@ -44,6 +50,7 @@ export function BuildSelector({
   disabled = false,
   builds: buildsProp,
   buildsLoading: buildsLoadingProp = false,
+  regulations = null,
 }: BuildSelectorProps) {
   const [builds, setBuilds] = useState<Build[]>([])
   const [loading, setLoading] = useState(true)
@@ -99,6 +106,15 @@ export function BuildSelector({
     }, {} as Record<string, Build[]>)
   }, [filteredBuilds])
 
+  // Regulation breaches per build (empty when legal or no regulations)
+  const regulationIssues = useMemo(() => {
+    const issues: Record<string, string[]> = {}
+    for (const build of builds) {
+      issues[build.id] = checkBuildAgainstRegulations(regulations, build)
+    }
+    return issues
+  }, [builds, regulations])
+
   // Get selected build objects - memoized to avoid re-filtering on every render
   const selectedBuildObjects = useMemo(() => {
     return builds.filter((b) => selectedBuilds.includes(b.id))
@@ -108,12 +124,15 @@ export function BuildSelector({
   const toggleBuild = useCallback((buildId: string) => {
     if (selectedBuilds.includes(buildId)) {
       onBuildsChange(selectedBuilds.filter((id) => id !== buildId))
+    } else if (regulationIssues[buildId]?.length) {
+      // Illegal builds can only be removed, not added
+      return
     } else {
       onBuildsChange([...selectedBuilds, buildId])
     }
     // Close dropdown after selection for better UX
     setOpen(false)
-  }, [selectedBuilds, onBuildsChange])
+  }, [selectedBuilds, onBuildsChange, regulationIssues])
 
   // Remove build from selection
   const removeBuild = useCallback((buildId: string) => {
@@ -133,9 +152,11 @@ export function BuildSelector({
           {selectedBuildObjects.map((build) => (
             <Badge
               key={build.id}
-              variant="secondary"
+              variant={regulationIssues[build.id]?.length ? 'destructive' : 'secondary'}
               className="px-3 py-1.5 text-sm flex items-center gap-2"
+              title={regulationIssues[build.id]?.join('\n') || undefined}
             >
+              {regulationIssues[build.id]?.length > 0 && <AlertTriangle className="h-3 w-3" />}
               <span className="font-medium">
                 {build.car?.manufacturer} {build.car?.name}
               </span>
@@ -242,18 +263,23 @@ export function BuildSelector({
                       {/* Builds for this car */}
                       {carBuilds.map((build) => {
                         const isSelected = selectedBuilds.includes(build.id)
+                        const issues = regulationIssues[build.id] || []
+                        const isBlocked = issues.length > 0 && !isSelected
                         return (
                           <div
                             key={build.id}
                             className={cn(
-                              'flex items-start gap-3 px-2 py-2 rounded-md cursor-pointer gt-hover-card',
+                              'flex items-start gap-3 px-2 py-2 rounded-md',
+                              isBlocked ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer gt-hover-card',
                               isSelected && 'bg-accent'
                             )}
                             onClick={() => toggleBuild(build.id)}
+                            aria-disabled={isBlocked}
                           >
                             <Checkbox
                               checked={isSelected}
                               onCheckedChange={() => toggleBuild(build.id)}
+                              disabled={isBlocked}
                             />
                             <div className="flex-1 min-w-0">
                               <div className="font-medium text-sm">
@@ -264,6 +290,12 @@ export function BuildSelector({
                                   {build.description}
                                 </div>
                               )}
+                              {issues.map((issue) => (
+                                <div key={issue} className="flex items-center gap-1 text-xs text-destructive">
+                                  <AlertTriangle className="h-3 w-3 shrink-0" />
+                                  {issue}
+                                </div>
+                              ))}
                             </div>
                           </div>
                         )
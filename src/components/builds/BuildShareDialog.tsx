@@ -0,0 +1,117 @@
+/**
+ * Build Share Dialog Component
+ *
+ * Purpose: Export a build as a setup code or JSON file
+ * - Fetches GET /api/builds/[id]/export when opened
+ * - Setup code with copy-to-clipboard (paste into /builds/new → Import)
+ * - Download link for the versioned JSON document
+ *
+ * **Props:**
+ * - buildId: Build to export
+ * - open / onOpenChange: Controlled dialog state
+ *
+ * **Debugging Tips:**
+ * - Copy does nothing: Clipboard API requires HTTPS (or localhost)
+ * - 403: Private builds can only be exported by their owner
+ *
+ * **Related Files:**
+ * - @/app/api/builds/[id]/export/route.ts: Export endpoint
+ * - @/components/builds/BuildImportDialog.tsx: Matching import dialog
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Check, Copy, Download } from 'lucide-react'
+
+interface BuildShareDialogProps {
+  buildId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function BuildShareDialog({ buildId, open, onOpenChange }: BuildShareDialogProps) {
+  const [code, setCode] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Fetch a fresh code every time the dialog opens (build may have been edited)
+  useEffect(() => {
+    if (!open) return
+
+    const fetchCode = async () => {
+      try {
+        setLoading(true)
+        setCopied(false)
+        setError(null)
+        const res = await fetch(`/api/builds/${buildId}/export`)
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to export build')
+        setCode(data.code)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to export build')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCode()
+  }, [open, buildId])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+    } catch (err) {
+      console.error('Error copying setup code:', err)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share Build</DialogTitle>
+          <DialogDescription>
+            Anyone can paste this setup code into Create Build → Import to get the same
+            parts, tuning settings and gear ratios.
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <Textarea
+            readOnly
+            value={loading ? 'Generating setup code...' : code}
+            onFocus={(e) => e.target.select()}
+            className="font-mono text-xs break-all"
+            rows={6}
+          />
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" asChild disabled={loading || !!error}>
+            <a href={`/api/builds/${buildId}/export?download=true`}>
+              <Download className="h-4 w-4 mr-2" />
+              Download JSON
+            </a>
+          </Button>
+          <Button onClick={handleCopy} disabled={loading || !!error || !code}>
+            {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+            {copied ? 'Copied' : 'Copy Code'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
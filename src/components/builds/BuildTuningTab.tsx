@@ -27,6 +27,8 @@
  * - Gears >6 have "Remove" button
  * - Final Drive rendered at bottom (separate from gears)
  * - Other Transmission settings (like Final Drive) shown via filtered settings
+ * - Gear inputs flagged red when unparseable or not strictly descending (analyzeGearing)
+ * - GearingCalculator below: tyre size + redline inputs, top speed per gear, sawtooth chart
  *
  * **Responsive Design:**
  * - Mobile: Section dropdown selector (full width)
@@ -39,6 +41,7 @@
  * - gears: Record of gearKey -> value (gear1, gear2, ..., finalDrive)
  * - onGearChange: Callback when gear value changes
  * - visibleGearCount: Number of gears to render (1-20)
+ * - settingErrors: Server validation errors by settingId (outlined in red, section marked in nav)
  *
  * **State:**
  * - sections: Array of tuning sections (ordered by displayOrder)
@@ -54,6 +57,7 @@
  *
  * **Debugging Tips:**
  * - Settings not showing: Check setting.inputType matches renderSettingInput cases
+ * - Field outlined red after save: Value breaks its TuningSetting rules (see @/lib/tuning-validation.ts)
  * - Gears not saving: Verify parent component passes correct onGearChange callback
  * - Section navigation broken: Check activeSection state updates on click
  * - Empty sections: Verify settings have correct sectionId foreign key
@@ -71,6 +75,8 @@
  * - /api/tuning-settings/sections/route.ts: Fetch all active sections
  * - src/components/builds/BuildSelector.tsx: Parent component using this tab
  * - src/types/database.ts: DbTuningSetting, DbTuningSection type definitions
+ * - src/components/builds/GearingCalculator.tsx: Gearing table + chart (Transmission)
+ * - src/lib/gearing.ts: analyzeGearing() - speeds, RPM drops, ratio issues
  */
 
 'use client'
@@ -88,12 +94,14 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { cn } from '@/lib/utils'
-import { Loader2, Plus, RotateCcw, X } from 'lucide-react'
+import { AlertTriangle, Loader2, Plus, RotateCcw, X } from 'lucide-react'
 import { ToeAngleDualInput } from '@/components/builds/ToeAngleDualInput'
 import { SliderDualInput } from '@/components/builds/SliderDualInput'
 import { GradientSliderInput } from '@/components/builds/GradientSliderInput'
 import { BallastSliderInput } from '@/components/builds/BallastSliderInput'
 import { SingleSliderInput } from '@/components/builds/SingleSliderInput'
+import { GearingCalculator } from '@/components/builds/GearingCalculator'
+import { analyzeGearing } from '@/lib/gearing'
 import type { DbTuningSettingWithSection, DbTuningSection } from '@/types/database'
 
 // ============================================================
@@ -127,8 +135,13 @@ interface BuildTuningTabProps {
   // Original values for reset functionality
   originalTuningSettings: Record<string, string>
   originalGears: Record<string, string>
+  // Server validation errors by settingId (from errors['settings.<settingId>'])
+  settingErrors?: Record<string, string>
 }
 
+// Stable default so the errorSectionIds memo doesn't recompute every render
+const NO_SETTING_ERRORS: Record<string, string> = {}
+
 // ============================================================
 // DYNAMIC INPUT RENDERER
 // ============================================================
@@ -433,6 +446,7 @@ export function BuildTuningTab({
   visibleGearCount,
   originalTuningSettings,
   originalGears,
+  settingErrors = NO_SETTING_ERRORS,
 }: BuildTuningTabProps) {
   // ============================================================
   // STATE MANAGEMENT
@@ -598,6 +612,26 @@ export function BuildTuningTab({
     return filtered
   }, [settings, activeSectionObj, activeSection])
 
+  // Sections containing a setting the server rejected (marked in the navigation)
+  const errorSectionIds = useMemo(
+    () => new Set(settings.filter((s) => settingErrors[s.id]).map((s) => s.sectionId)),
+    [settings, settingErrors]
+  )
+
+  /**
+   * Gearing analysis for the visible gears (speeds per gear + ratio issues)
+   * - Tyre size / redline are stored in props.gears alongside the ratios
+   */
+  const gearing = useMemo(
+    () => analyzeGearing({
+      gears,
+      tyreSize: gears.tyreSize,
+      redlineRpm: gears.redlineRpm,
+      gearCount: visibleGearCount,
+    }),
+    [gears, visibleGearCount]
+  )
+
   // ============================================================
   // RESET/CLEAR HANDLERS
   // ============================================================
@@ -713,6 +747,7 @@ export function BuildTuningTab({
             {sections.map((section) => (
               <SelectItem key={section.id} value={section.name}>
                 {section.name}
+                {errorSectionIds.has(section.id) && <AlertTriangle className="h-3 w-3 text-destructive" />}
               </SelectItem>
             ))}
           </SelectContent>
@@ -736,6 +771,9 @@ export function BuildTuningTab({
               onClick={() => setActiveSection(section.name)}
             >
               {section.name}
+              {errorSectionIds.has(section.id) && (
+                <AlertTriangle className="ml-auto h-4 w-4 text-destructive" aria-label="Has invalid settings" />
+              )}
             </Button>
           ))}
         </div>
@@ -803,6 +841,7 @@ export function BuildTuningTab({
                   const originalValue = originalGears[gearKey] || ''
                   const hasChanged = originalValue !== currentValue
                   const hasValue = currentValue !== ''
+                  const gearIssue = gearing.gears[i]?.issue ?? null
 
                   return (
                     <div key={gearKey} className="space-y-2">
@@ -856,7 +895,8 @@ export function BuildTuningTab({
                         value={currentValue}
                         onChange={(e) => onGearChange(gearKey, e.target.value)}
                         placeholder="Enter gear ratio..."
-                        className="min-h-[44px]"
+                        className={cn('min-h-[44px]', (gearIssue === 'invalid' || gearIssue === 'notDescending') && 'border-destructive')}
+                        aria-invalid={gearIssue === 'invalid' || gearIssue === 'notDescending'}
                       />
                     </div>
                   )
@@ -914,7 +954,8 @@ export function BuildTuningTab({
                     value={gears.finalDrive || ''}
                     onChange={(e) => onGearChange('finalDrive', e.target.value)}
                     placeholder="Enter final drive ratio..."
-                    className="min-h-[44px]"
+                    className={cn('min-h-[44px]', gearing.finalDriveInvalid && 'border-destructive')}
+                    aria-invalid={gearing.finalDriveInvalid}
                   />
                 </div>
 
@@ -924,6 +965,7 @@ export function BuildTuningTab({
                   const originalValue = originalTuningSettings[setting.id] || ''
                   const hasChanged = originalValue !== currentValue
                   const hasValue = currentValue !== ''
+                  const settingError = settingErrors[setting.id]
 
                   return (
                     <div key={setting.id} className="space-y-2 pt-4 border-t border-border">
@@ -966,12 +1008,22 @@ export function BuildTuningTab({
                         value={currentValue}
                         onChange={(e) => onSettingChange(setting.id, e.target.value)}
                         placeholder="e.g. 280"
-                        className="min-h-[44px]"
+                        className={cn('min-h-[44px]', settingError && 'border-destructive')}
+                        aria-invalid={!!settingError}
                         maxLength={3}
                       />
+                      {settingError && <p className="text-xs text-destructive">{settingError}</p>}
                     </div>
                   )
                 })}
+
+                {/* Gearing calculator - tyre size/redline inputs, speeds, chart */}
+                <GearingCalculator
+                  analysis={gearing}
+                  tyreSize={gears.tyreSize || ''}
+                  redlineRpm={gears.redlineRpm || ''}
+                  onChange={onGearChange}
+                />
               </>
             ) : (
               /* ============================================================
@@ -989,9 +1041,13 @@ export function BuildTuningTab({
                 const originalValue = originalTuningSettings[setting.id] || ''
                 const hasChanged = originalValue !== currentValue
                 const hasValue = currentValue !== ''
+                const settingError = settingErrors[setting.id]
 
                 return (
-                  <div key={setting.id} className="space-y-2">
+                  <div
+                    key={setting.id}
+                    className={cn('space-y-2', settingError && 'rounded-md border border-destructive p-3')}
+                  >
                     <div className="flex items-center justify-between">
                       <Label htmlFor={setting.id} className="text-sm font-medium">
                         {setting.name}
@@ -1033,6 +1089,7 @@ export function BuildTuningTab({
                     {renderSettingInput(setting, currentValue, (value) =>
                       onSettingChange(setting.id, value)
                     )}
+                    {settingError && <p className="text-xs text-destructive">{settingError}</p>}
                   </div>
                 )
               })
@@ -0,0 +1,210 @@
+/**
+ * Build Usage Component
+ *
+ * Purpose: "Race & Lap History" section on the build detail page
+ * - Which races listed this build (with track and members)
+ * - Per track: laps, best, median, conditions split and rank vs other builds
+ * - Per driver: laps, best lap, tracks and races with this build
+ * - Helps spot builds to retire (never quick anywhere) or promote (top of their tracks)
+ *
+ * **Data Flow:**
+ * 1. Mount: GET /api/builds/[id]/usage → { summary, races, tracks, drivers }
+ *
+ * **Props:**
+ * - buildId: Build to show usage for
+ *
+ * **Debugging Tips:**
+ * - Card hidden: Build hasn't been used in a race and has no laps
+ * - Rank "1 of 1": No other build has laps at that track
+ *
+ * **Related Files:**
+ * - @/app/api/builds/[id]/usage/route.ts: Endpoint
+ * - @/lib/build-usage.ts: Aggregation
+ * - @/app/builds/[id]/page.tsx: Parent page
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { BarChart3, Flag, MapPin, Users } from 'lucide-react'
+import { formatLapTime, getTimeDifference } from '@/lib/time'
+import type { DriverUsage, TrackUsage } from '@/lib/build-usage'
+
+interface UsageUser {
+  id: string
+  name: string | null
+  gamertag: string | null
+}
+
+interface UsageResponse {
+  summary: { raceCount: number; lapCount: number; trackCount: number; driverCount: number }
+  races: {
+    id: string
+    name: string | null
+    isActive: boolean
+    createdAt: string
+    track: { id: string; name: string; layout: string | null } | null
+    members: UsageUser[]
+  }[]
+  tracks: (TrackUsage & { track: { id: string; name: string; layout: string | null } | null })[]
+  drivers: (DriverUsage & { user: UsageUser | null })[]
+}
+
+interface BuildUsageProps {
+  buildId: string
+}
+
+const displayName = (user: UsageUser | null) => user?.gamertag || user?.name || 'Unknown driver'
+
+export function BuildUsage({ buildId }: BuildUsageProps) {
+  const [usage, setUsage] = useState<UsageResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      try {
+        const res = await fetch(`/api/builds/${buildId}/usage`)
+        if (!res.ok) throw new Error('Failed to fetch build usage')
+        setUsage(await res.json())
+      } catch (err) {
+        console.error('Error fetching build usage:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchUsage()
+  }, [buildId])
+
+  if (loading || !usage || (usage.summary.raceCount === 0 && usage.summary.lapCount === 0)) {
+    return null
+  }
+
+  const { summary, races, tracks, drivers } = usage
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5" />
+          Race & Lap History
+        </CardTitle>
+        <CardDescription>
+          {summary.raceCount} race{summary.raceCount === 1 ? '' : 's'} · {summary.lapCount} lap
+          {summary.lapCount === 1 ? '' : 's'} on {summary.trackCount} track{summary.trackCount === 1 ? '' : 's'} ·{' '}
+          {summary.driverCount} driver{summary.driverCount === 1 ? '' : 's'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Per track */}
+        {tracks.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-sm text-primary mb-2 flex items-center gap-2">
+              <MapPin className="h-4 w-4" />
+              Tracks
+            </h3>
+            <div className="space-y-2">
+              {tracks.map((usage) => (
+                <div key={usage.trackId} className="px-3 py-2.5 border border-border rounded text-sm space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">
+                      {usage.track ? usage.track.name : 'Unknown track'}
+                      {usage.track?.layout && (
+                        <span className="text-muted-foreground"> - {usage.track.layout}</span>
+                      )}
+                    </span>
+                    <Badge variant={usage.buildRank === 1 ? 'default' : 'outline'} className="shrink-0 font-mono">
+                      #{usage.buildRank} of {usage.buildsAtTrack}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {usage.lapCount} lap{usage.lapCount === 1 ? '' : 's'} · best{' '}
+                    <span className="text-primary">{formatLapTime(usage.bestMs)}</span>
+                    {' '}· median {formatLapTime(usage.medianMs)}
+                    {usage.bestMs > usage.trackBestMs && (
+                      <> · {getTimeDifference(usage.bestMs, usage.trackBestMs)} to track best</>
+                    )}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {usage.conditions.map((split) => (
+                      <Badge key={split.conditions} variant="secondary" className="text-xs font-mono">
+                        {split.conditions} {split.lapCount}× · {formatLapTime(split.bestMs)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Races */}
+        {races.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-sm text-primary mb-2 flex items-center gap-2">
+              <Flag className="h-4 w-4" />
+              Races
+            </h3>
+            <div className="space-y-2">
+              {races.map((race) => (
+                <Link
+                  key={race.id}
+                  href={`/races/${race.id}`}
+                  className="block px-3 py-2.5 border border-border rounded text-sm gt-hover-card"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">
+                      {race.name || race.track?.name || 'Untitled race'}
+                    </span>
+                    {race.isActive && <Badge className="shrink-0">Active</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {race.track?.name}
+                    {race.track?.layout && ` - ${race.track.layout}`}
+                    {' · '}{new Date(race.createdAt).toLocaleDateString()}
+                    {race.members.length > 0 && <> · {race.members.map(displayName).join(', ')}</>}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Drivers */}
+        {drivers.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-sm text-primary mb-2 flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              Drivers
+            </h3>
+            <div className="space-y-1">
+              {drivers.map((driver) => (
+                <div
+                  key={driver.userId}
+                  className="flex items-center justify-between gap-3 px-3 py-2 border border-border rounded text-sm"
+                >
+                  <span className="truncate">{displayName(driver.user)}</span>
+                  <span className="text-xs text-muted-foreground font-mono shrink-0">
+                    {driver.lapCount > 0 && driver.bestMs !== null
+                      ? `${driver.lapCount} laps · ${driver.trackCount} tracks · best ${formatLapTime(driver.bestMs)}`
+                      : 'No laps'}
+                    {driver.raceCount > 0 && ` · ${driver.raceCount} race${driver.raceCount === 1 ? '' : 's'}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
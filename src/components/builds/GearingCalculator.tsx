@@ -0,0 +1,246 @@
+/**
+ * Gearing Calculator Component
+ *
+ * Purpose: Computed gearing data under the gear ratio inputs (Transmission section)
+ * - Tyre size + redline RPM inputs (stored on the build as tyreSize / redlineRpm)
+ * - Table: ratio, top speed at redline and RPM drop on each upshift, per gear
+ * - Sawtooth chart: engine RPM vs road speed through the gears
+ * - Issue list: unparseable ratios, gaps, ratios that aren't strictly descending
+ *
+ * **Props:**
+ * - analysis: Result of analyzeGearing() (computed by BuildTuningTab)
+ * - tyreSize / redlineRpm: Current input values (strings from the gears record)
+ * - onChange: (field: 'tyreSize' | 'redlineRpm', value) => void
+ *
+ * **Chart:**
+ * - Plain SVG (no chart library in the project)
+ * - X axis: 0 → top speed of the last gear; Y axis: 0 → redline
+ * - Each gear drawn from its shift-in point to redline, dashed drop line on upshift
+ *
+ * **Debugging Tips:**
+ * - Chart hidden: Needs final drive, a valid tyre size, a redline and 1+ valid gear
+ * - Chart skips a gear: That gear has an issue (invalid / gap / not descending)
+ *
+ * **Related Files:**
+ * - @/lib/gearing.ts: analyzeGearing(), parseTyreSize()
+ * - @/components/builds/BuildTuningTab.tsx: Parent (Transmission section)
+ */
+
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertTriangle } from 'lucide-react'
+import type { GearAnalysis, GearingAnalysis, GearIssue } from '@/lib/gearing'
+
+interface GearingCalculatorProps {
+  analysis: GearingAnalysis
+  tyreSize: string
+  redlineRpm: string
+  onChange: (field: 'tyreSize' | 'redlineRpm', value: string) => void
+}
+
+const ISSUE_LABELS: Record<GearIssue, string> = {
+  invalid: 'not a valid ratio',
+  notDescending: 'not lower than the previous gear',
+  gap: 'missing (gear left empty)',
+}
+
+// Chart geometry (viewBox units)
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 240
+const PAD_LEFT = 48
+const PAD_BOTTOM = 28
+const PAD_TOP = 12
+const PAD_RIGHT = 12
+
+function GearingChart({ gears, redline }: { gears: GearAnalysis[]; redline: number }) {
+  const plotted = gears.filter((g) => g.issue === null && g.topSpeedKmh !== null)
+  const maxSpeed = Math.max(...plotted.map((g) => g.topSpeedKmh!))
+  if (plotted.length === 0 || !Number.isFinite(maxSpeed)) return null
+
+  const x = (speed: number) => PAD_LEFT + (speed / maxSpeed) * (CHART_WIDTH - PAD_LEFT - PAD_RIGHT)
+  const y = (rpm: number) => CHART_HEIGHT - PAD_BOTTOM - (rpm / redline) * (CHART_HEIGHT - PAD_BOTTOM - PAD_TOP)
+
+  const speedTicks = Array.from({ length: 5 }, (_, i) => Math.round((maxSpeed / 4) * i))
+  const rpmTicks = Array.from({ length: 5 }, (_, i) => Math.round((redline / 4) * i))
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Engine RPM versus speed for each gear"
+    >
+      {/* Grid + axis labels */}
+      {rpmTicks.map((rpm) => (
+        <g key={`rpm-${rpm}`}>
+          <line x1={PAD_LEFT} x2={CHART_WIDTH - PAD_RIGHT} y1={y(rpm)} y2={y(rpm)} className="stroke-border" strokeWidth={1} />
+          <text x={PAD_LEFT - 6} y={y(rpm) + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+            {rpm}
+          </text>
+        </g>
+      ))}
+      {speedTicks.map((speed) => (
+        <text
+          key={`speed-${speed}`}
+          x={x(speed)}
+          y={CHART_HEIGHT - 8}
+          textAnchor="middle"
+          className="fill-muted-foreground text-[10px]"
+        >
+          {speed}
+        </text>
+      ))}
+
+      {/* Sawtooth: each gear from its shift-in point to redline */}
+      {plotted.map((gear, index) => {
+        const previous = index > 0 ? plotted[index - 1] : null
+        const startSpeed = previous?.topSpeedKmh ?? 0
+        const startRpm = previous && gear.rpmAfterShift !== null ? gear.rpmAfterShift : 0
+        return (
+          <g key={gear.gear}>
+            {previous && (
+              <line
+                x1={x(startSpeed)}
+                x2={x(startSpeed)}
+                y1={y(redline)}
+                y2={y(startRpm)}
+                className="stroke-muted-foreground"
+                strokeDasharray="3 3"
+                strokeWidth={1}
+              />
+            )}
+            <line
+              x1={x(startSpeed)}
+              x2={x(gear.topSpeedKmh!)}
+              y1={y(startRpm)}
+              y2={y(redline)}
+              className="stroke-primary"
+              strokeWidth={2}
+            />
+            <text
+              x={x(gear.topSpeedKmh!) - 4}
+              y={y(redline) - 3}
+              textAnchor="end"
+              className="fill-primary text-[10px] font-semibold"
+            >
+              {gear.gear}
+            </text>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
+
+export function GearingCalculator({ analysis, tyreSize, redlineRpm, onChange }: GearingCalculatorProps) {
+  const issues = analysis.gears.filter((g) => g.issue !== null)
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-border">
+      <h3 className="text-sm font-semibold text-primary">Gearing Calculator</h3>
+
+      {/* Inputs */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="tyreSize" className="text-sm font-medium">
+            Tyre Size
+            <span className="text-muted-foreground font-normal ml-1">(driven wheels)</span>
+          </Label>
+          <Input
+            id="tyreSize"
+            type="text"
+            value={tyreSize}
+            onChange={(e) => onChange('tyreSize', e.target.value)}
+            placeholder="e.g. 245/40R18"
+            className="min-h-[44px]"
+            aria-invalid={analysis.tyreSizeInvalid}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="redlineRpm" className="text-sm font-medium">
+            Redline
+            <span className="text-muted-foreground font-normal ml-1">(rpm)</span>
+          </Label>
+          <Input
+            id="redlineRpm"
+            type="text"
+            inputMode="numeric"
+            value={redlineRpm}
+            onChange={(e) => onChange('redlineRpm', e.target.value.replace(/[^\d]/g, ''))}
+            placeholder="e.g. 8000"
+            className="min-h-[44px]"
+            maxLength={5}
+          />
+        </div>
+      </div>
+
+      {/* Issues */}
+      {(issues.length > 0 || analysis.finalDriveInvalid || analysis.tyreSizeInvalid) && (
+        <div className="space-y-1 p-3 border border-destructive rounded text-sm">
+          {analysis.tyreSizeInvalid && (
+            <p className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              Tyre size not recognised - use 245/40R18 or a diameter in mm
+            </p>
+          )}
+          {analysis.finalDriveInvalid && (
+            <p className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              Final drive is not a valid ratio
+            </p>
+          )}
+          {issues.map((gear) => (
+            <p key={gear.gear} className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              Gear {gear.gear}{gear.raw && <span className="font-mono">({gear.raw})</span>} is {ISSUE_LABELS[gear.issue!]}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {!analysis.canComputeSpeeds && (
+        <p className="text-sm text-muted-foreground">
+          Enter a final drive, tyre size and redline to see top speed per gear.
+        </p>
+      )}
+
+      {/* Per-gear table */}
+      {analysis.canComputeSpeeds && analysis.gears.length > 0 && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-muted-foreground text-xs font-mono">
+                  <th className="text-left py-2">GEAR</th>
+                  <th className="text-right py-2">RATIO</th>
+                  <th className="text-right py-2">TOP SPEED</th>
+                  <th className="text-right py-2">RPM AFTER UPSHIFT</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.gears.map((gear) => (
+                  <tr key={gear.gear} className="border-b border-border">
+                    <td className="py-2">{gear.gear}</td>
+                    <td className="py-2 text-right font-mono">{gear.ratio?.toFixed(3) ?? '-'}</td>
+                    <td className="py-2 text-right font-mono">
+                      {gear.topSpeedKmh !== null ? `${gear.topSpeedKmh.toFixed(1)} km/h` : '-'}
+                    </td>
+                    <td className="py-2 text-right font-mono">
+                      {gear.rpmAfterShift !== null
+                        ? <>{Math.round(gear.rpmAfterShift)} <span className="text-muted-foreground">(−{Math.round(gear.rpmDrop!)})</span></>
+                        : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <GearingChart gears={analysis.gears} redline={analysis.redlineRpm!} />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+/**
+ * Championship Form Dialog Component
+ *
+ * Purpose: Create or edit a championship - details plus the races as ordered rounds
+ * - Rounds: OrderedRacePicker (position in the list = round number)
+ * - Drop worst N: Each driver's N worst rounds don't count once more than N are completed
+ *
+ * **Data Flow:**
+ * 1. Save: POST /api/championships (create) or PATCH /api/championships/[id] (edit,
+ *    sends every field - the rounds are replaced)
+ * 2. onSaved(championship) so the page can navigate / refetch
+ *
+ * **Props:**
+ * - championship: Edit mode (null = create)
+ * - rounds: Current rounds of the championship being edited (round order)
+ * - open / onOpenChange: Controlled dialog state
+ * - onSaved: Called with the saved championship
+ *
+ * **Related Files:**
+ * - @/app/championships/page.tsx: Create
+ * - @/app/championships/[id]/page.tsx: Edit
+ * - @/app/api/championships: Championship endpoints
+ * - @/components/races/ordered-race-picker.tsx: Round picker
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { OrderedRacePicker, type PickedRace } from '@/components/races/ordered-race-picker'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2 } from 'lucide-react'
+import type { DbChampionship } from '@/types/database'
+
+interface ChampionshipFormDialogProps {
+  championship?: DbChampionship | null
+  rounds?: PickedRace[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: (championship: DbChampionship) => void
+}
+
+export function ChampionshipFormDialog({
+  championship = null,
+  rounds = [],
+  open,
+  onOpenChange,
+  onSaved,
+}: ChampionshipFormDialogProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [dropWorstRounds, setDropWorstRounds] = useState('0')
+  const [selected, setSelected] = useState<PickedRace[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // ============================================================
+  // RESET ON OPEN
+  // ============================================================
+
+  useEffect(() => {
+    if (!open) return
+
+    setName(championship?.name || '')
+    setDescription(championship?.description || '')
+    setDropWorstRounds(String(championship?.dropWorstRounds ?? 0))
+    setSelected(rounds)
+    setError(null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  // ============================================================
+  // SAVE
+  // ============================================================
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(championship ? `/api/championships/${championship.id}` : '/api/championships', {
+        method: championship ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description: description || null,
+          dropWorstRounds: Number(dropWorstRounds) || 0,
+          raceIds: selected.map((race) => race.id),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to save championship')
+
+      onOpenChange(false)
+      onSaved(data.championship)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save championship')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{championship ? 'Edit Championship' : 'New Championship'}</DialogTitle>
+          <DialogDescription>
+            Races become rounds in the order listed. Points come from each race&apos;s results.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="championship-name">Name</Label>
+            <Input
+              id="championship-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Winter GT Cup"
+              maxLength={100}
+              className="min-h-[44px]"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="championship-description">Description</Label>
+            <Textarea
+              id="championship-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={500}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="championship-drops">Drop worst rounds</Label>
+            <Input
+              id="championship-drops"
+              type="number"
+              min={0}
+              max={50}
+              value={dropWorstRounds}
+              onChange={(e) => setDropWorstRounds(e.target.value)}
+              className="min-h-[44px] w-24"
+            />
+            <p className="text-xs text-muted-foreground">
+              Each driver&apos;s worst N rounds don&apos;t count (missed rounds first) once more than N rounds are completed
+            </p>
+          </div>
+
+          {/* Rounds */}
+          {/* - Position in the list = round number; the picker leaves out races already added */}
+          <div className="space-y-2">
+            <Label>Rounds</Label>
+            <OrderedRacePicker value={selected} onChange={setSelected} emptyText="No rounds yet - add races below" />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="min-h-[44px]">
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || !name.trim()} className="min-h-[44px]">
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {championship ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -85,12 +85,17 @@ export function Header({ user, version }: HeaderProps) {
     { href: '/tonight', label: 'Tonight' },
     { href: '/builds', label: 'Builds' },
     { href: '/races', label: 'Races' },
+    { href: '/race-nights', label: 'Race Nights' },
+    { href: '/championships', label: 'Championships' },
     { href: '/lap-times', label: 'Lap Times' },
+    { href: '/leaderboards', label: 'Leaderboards' },
     { href: '/notes', label: 'Notes', icon: StickyNote },
   ]
 
   const adminItems = user?.role === 'ADMIN' ? [
     { href: '/admin/users', label: 'Manage Users' },
+    { href: '/admin/disputes', label: 'Lap Disputes' },
+    { href: '/admin/lap-reviews', label: 'Flagged Laps' },
   ] : []
 
   const settingsItem = { href: '/settings', label: 'Settings' }
@@ -6,7 +6,8 @@
  * - Time parsing/validation with live preview (mm:ss.sss or ss.sss format)
  * - Build selection with inline creation (QuickBuildModal integration)
  * - Conditions dropdown (Dry, Wet, Mixed, Not specified)
- * - Session type selection (Race or Qualifying)
+ * - Session type selection (Race, Qualifying or Practice)
+ * - Optional lap session (stint) - preselected via /lap-times/new?sessionId=...
  * - Client-side validation with error display
  *
  * **Key Features:**
@@ -15,9 +16,13 @@
  * - Time input: Parses mm:ss.sss or ss.sss format, shows live preview
  * - Time validation: 10 seconds minimum, 30 minutes maximum
  * - Conditions: Optional dropdown (Dry, Wet, Mixed, Not specified)
- * - Session type: Radio buttons (R = Race, Q = Qualifying)
+ * - Session type: Radio buttons (R = Race, Q = Qualifying, P = Practice)
+ * - Session: Optional stint at the selected track (sets session type, returns to the session)
  * - Notes: Optional textarea for additional details
  * - Quick build creation: Opens modal to create build inline
+ * - Sector splits: Optional, one input per sector when the track has Track.sectorCount
+ * - Outlier check: An implausible time (409 outlierReasons) shows OutlierWarning; saving the
+ *   same time again confirms it and it waits for an admin review
  *
  * **Data Flow:**
  * 1. Mount: Fetch tracks and builds via parallel API calls
@@ -54,6 +59,19 @@
  * - Validation: isValidLapTime() checks 10s - 30min range
  * - Live preview: Shows formatted time (mm:ss.sss) when input is valid
  *
+ * **Sector Splits:**
+ * - Shown only when the selected track has sectorCount configured (admin settings)
+ * - All-or-none: Leave every sector empty, or fill all of them
+ * - Splits must add up to the lap time (checkSectorTimes, 1 ms per sector tolerance)
+ * - Changing the track clears the splits
+ *
+ * **Lap Sessions:**
+ * - Picker lists the user's sessions at the selected track (GET /api/lap-sessions?trackId=)
+ * - Choosing a session locks the session type to the session's
+ * - ?sessionId= preselects the session (and its track, conditions); after saving the form
+ *   goes back to the session page so a stint can be entered lap after lap
+ * - Changing the track clears the session
+ *
  * **Conditions:**
  * - Options: Not specified (default), Dry, Wet, Mixed Conditions
  * - Storage: "not-specified" stored as null in database
@@ -63,7 +81,8 @@
  * **Session Type:**
  * - R (Race): Race session (primary color)
  * - Q (Qualifying): Qualifying session (secondary color)
- * - Storage: Stored as single character ('R' or 'Q')
+ * - P (Practice): Practice session (accent color)
+ * - Storage: Stored as single character ('R', 'Q' or 'P')
  * - Required: User must select one
  * - Display: Radio buttons with visual distinction
  *
@@ -73,7 +92,7 @@
  * - timeInput: Required (must parse to valid time in range)
  * - notes: Optional (can be empty string)
  * - conditions: Optional (can be "not-specified")
- * - sessionType: Required (must be 'R' or 'Q')
+ * - sessionType: Required (must be 'R', 'Q' or 'P')
  *
  * **API Integration:**
  * - POST /api/lap-times: Create new lap time
@@ -105,6 +124,7 @@
  * - Build creation not working: Verify QuickBuildModal onBuildCreated callback
  * - Time parsing failing: Check parseLapTime() accepts format
  * - Time validation failing: Check isValidLapTime() range (10s - 30min)
+ * - No sector inputs: Track has no sectorCount (or /api/tracks is still cached)
  * - Submit blocked: Check validation rules (trackId, buildIds, timeInput all required)
  * - Redirect not working: Check router.push('/lap-times') is correct path
  * - CarId extraction: Verify selectedBuild.car.id exists
@@ -122,6 +142,7 @@
  * - /api/tracks/route.ts: Fetch all active tracks
  * - /api/builds/route.ts: Fetch user's builds (myBuilds=true filter)
  * - @/lib/time.ts: parseLapTime, formatLapTime, isValidLapTime helpers
+ * - @/lib/sectors.ts: checkSectorTimes helper
  * - @/lib/dropdown-helpers.ts: formatTrackOptions helper for SearchableComboBox
  * - @/components/builds/BuildSelector.tsx: Build selection component
  * - @/components/builds/QuickBuildModal.tsx: Quick build creation modal
@@ -131,7 +152,8 @@
 'use client'
 
 import { useState, useEffect, useMemo } from 'react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -148,9 +170,25 @@ import { BuildSelector } from '@/components/builds/BuildSelector'
 import { QuickBuildModal } from '@/components/builds/QuickBuildModal'
 import { parseLapTime, formatLapTime, isValidLapTime } from '@/lib/time'
 import { formatTrackOptions } from '@/lib/dropdown-helpers'
-import { Clock, Car as CarIcon, MapPin, AlertCircle } from 'lucide-react'
+import { checkSectorTimes } from '@/lib/sectors'
+import { SESSION_TYPE_LABELS, type SessionType } from '@/lib/lap-sessions'
+import type { OutlierReason } from '@/lib/lap-time-outliers'
+import { OutlierWarning } from '@/components/lap-times/OutlierWarning'
+import { Clock, Car as CarIcon, MapPin, AlertCircle, Timer } from 'lucide-react'
 import type { DbTrack } from '@/types/database'
 
+interface LapSessionOption {
+  id: string
+  trackId: string
+  date: string
+  sessionType: SessionType
+  conditions: string | null
+  stats: { lapCount: number } | null
+}
+
+// Select components can't use '' as an item value
+const NO_SESSION = '__none__'
+
 interface Build {
   id: string
   name: string
@@ -199,6 +237,7 @@ interface Build {
 
 export function LapTimeForm() {
   const router = useRouter()
+  const searchParams = useSearchParams()
 
   // ============================================================
   // STATE MANAGEMENT
@@ -216,6 +255,8 @@ export function LapTimeForm() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showBuildModal, setShowBuildModal] = useState(false)
+  // Track/build/time the API flagged as implausible - resubmitting exactly that confirms it
+  const [outlier, setOutlier] = useState<{ key: string; reasons: OutlierReason[] } | null>(null)
 
   // ============================================================
   // FORM STATE
@@ -225,14 +266,19 @@ export function LapTimeForm() {
   // timeInput: Raw time input string (mm:ss.sss or ss.sss format)
   // notes: Optional notes about the lap (free text)
   // conditions: Weather conditions (Dry, Wet, Mixed, Not specified)
-  // sessionType: Session type ('R' = Race, 'Q' = Qualifying)
+  // sessionType: Session type ('R' = Race, 'Q' = Qualifying, 'P' = Practice)
+  // sessionId: Lap session (stint) the lap belongs to ('' = none)
+  // sectorInputs: Raw split inputs (one per sector of the selected track)
 
   const [trackId, setTrackId] = useState('')
   const [buildIds, setBuildIds] = useState<string[]>([])
   const [timeInput, setTimeInput] = useState('')
   const [notes, setNotes] = useState('')
   const [conditions, setConditions] = useState('')
-  const [sessionType, setSessionType] = useState<'Q' | 'R'>('R')
+  const [sessionType, setSessionType] = useState<SessionType>('R')
+  const [sessionId, setSessionId] = useState(searchParams.get('sessionId') || '')
+  const [lapSessions, setLapSessions] = useState<LapSessionOption[]>([])
+  const [sectorInputs, setSectorInputs] = useState<string[]>([])
 
   // ============================================================
   // DATA FETCHING - Tracks and Builds
@@ -290,6 +336,56 @@ export function LapTimeForm() {
     loadData()
   }, [])
 
+  // ============================================================
+  // DATA FETCHING - Lap Sessions
+  // ============================================================
+  // ?sessionId= preselects a session: load it once to fill track + session fields
+  // Session picker: the user's sessions at the selected track
+  // ============================================================
+
+  useEffect(() => {
+    async function loadPresetSession() {
+      const presetId = searchParams.get('sessionId')
+      if (!presetId) return
+
+      try {
+        const response = await fetch(`/api/lap-sessions/${presetId}`)
+        if (!response.ok) {
+          setSessionId('')
+          return
+        }
+        const { session } = await response.json()
+        setTrackId(session.trackId)
+        setSessionType(session.sessionType)
+        if (session.conditions) setConditions(session.conditions)
+      } catch (err) {
+        console.error('Error loading lap session:', err)
+      }
+    }
+
+    loadPresetSession()
+  }, [searchParams])
+
+  useEffect(() => {
+    async function loadSessions() {
+      if (!trackId) {
+        setLapSessions([])
+        return
+      }
+
+      try {
+        const response = await fetch(`/api/lap-sessions?trackId=${trackId}`)
+        if (response.ok) {
+          setLapSessions((await response.json()).sessions || [])
+        }
+      } catch (err) {
+        console.error('Error loading lap sessions:', err)
+      }
+    }
+
+    loadSessions()
+  }, [trackId])
+
   // ============================================================
   // DERIVED STATE - Track Options
   // ============================================================
@@ -309,6 +405,47 @@ export function LapTimeForm() {
 
   const trackOptions = useMemo(() => formatTrackOptions(tracks), [tracks])
 
+  // The outlier warning only applies while the flagged track/build/time are still entered
+  const confirmingOutlier = outlier !== null && outlier.key === `${trackId}:${buildIds[0]}:${parseLapTime(timeInput)}`
+
+  // ============================================================
+  // DERIVED STATE - Sector Splits
+  // ============================================================
+  // sectorCount comes from the selected track (null = no sector inputs)
+  // Splits from another track never carry over (cleared on track change)
+  // ============================================================
+
+  const sectorCount = tracks.find((track) => track.id === trackId)?.sectorCount || null
+  const sectorTimes = sectorInputs.map((input) => parseLapTime(input))
+  const sectorTotal = sectorTimes.length === sectorCount && sectorTimes.every((split) => split)
+    ? sectorTimes.reduce<number>((sum, split) => sum + split!, 0)
+    : null
+
+  const handleTrackChange = (value: string) => {
+    setTrackId(value)
+    setSectorInputs([])
+    setSessionId('')
+  }
+
+  const selectedSession = lapSessions.find((lapSession) => lapSession.id === sessionId)
+
+  const handleSessionChange = (value: string) => {
+    const lapSession = lapSessions.find((option) => option.id === value)
+    setSessionId(lapSession ? lapSession.id : '')
+    if (lapSession) {
+      setSessionType(lapSession.sessionType)
+      if (lapSession.conditions && !conditions) setConditions(lapSession.conditions)
+    }
+  }
+
+  const handleSectorChange = (sector: number, value: string) => {
+    setSectorInputs((prev) => {
+      const next = Array.from({ length: sectorCount || 0 }, (_, i) => prev[i] || '')
+      next[sector] = value
+      return next
+    })
+  }
+
   // ============================================================
   // BUILD CREATION CALLBACK
   // ============================================================
@@ -417,6 +554,24 @@ export function LapTimeForm() {
       return
     }
 
+    // Sector splits: all-or-none, and they must add up to the lap time
+    let sectorTimesMs: number[] | null = null
+    if (sectorInputs.some((input) => input.trim())) {
+      if (sectorTotal === null) {
+        setError('Enter a valid time for every sector, or leave all sectors empty')
+        return
+      }
+      sectorTimesMs = sectorTimes as number[]
+      const sectorError = checkSectorTimes(sectorTimesMs, timeMs, sectorCount)
+      if (sectorError) {
+        setError(sectorError)
+        return
+      }
+    }
+
+    // Same track/build/time as the flagged submit = the user confirms the outlier
+    const outlierKey = `${trackId}:${buildIds[0]}:${timeMs}`
+
     setLoading(true)
 
     try {
@@ -437,9 +592,23 @@ export function LapTimeForm() {
           notes: notes || null,
           conditions: conditions && conditions !== 'not-specified' ? conditions : null,
           sessionType,
+          sectorTimesMs,
+          sessionId: sessionId || null,
+          confirmOutlier: outlier?.key === outlierKey,
         }),
       })
 
+      // Implausible time: show why and let the user confirm by saving again
+      if (response.status === 409) {
+        const data = await response.json()
+        if (data.outlierReasons) {
+          setOutlier({ key: outlierKey, reasons: data.outlierReasons })
+          setLoading(false)
+          return
+        }
+        throw new Error(data.error || 'Failed to save lap time')
+      }
+
       if (!response.ok) {
         const data = await response.json()
         console.error('API Error:', data)
@@ -450,8 +619,8 @@ export function LapTimeForm() {
       const result = await response.json()
       console.log('Success! Lap time created:', result)
 
-      // Success - redirect to lap times page
-      router.push('/lap-times')
+      // Success - back to the session (stint entry) or the lap times page
+      router.push(sessionId ? `/lap-times/sessions/${sessionId}` : '/lap-times')
       router.refresh()
     } catch (err) {
       console.error('Form error:', err)
@@ -514,7 +683,7 @@ export function LapTimeForm() {
           <SearchableComboBox
             options={trackOptions}
             value={trackId}
-            onValueChange={setTrackId}
+            onValueChange={handleTrackChange}
             placeholder="Select a track..."
             searchPlaceholder="Search tracks..."
             emptyText="No track found."
@@ -614,6 +783,45 @@ export function LapTimeForm() {
           </div>
         </div>
 
+        {/* ============================================================
+          SECTOR SPLITS - Optional, per-track
+          ============================================================
+          Shown: Only when the selected track has sectorCount
+          Inputs: S1..Sn, same format as the lap time
+          Helper: Sum of the splits, so a typo is visible before saving
+        ============================================================ */}
+
+        {sectorCount && (
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Timer className="h-4 w-4" />
+              Sector Times (optional)
+            </Label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {Array.from({ length: sectorCount }, (_, sector) => (
+                <div key={sector} className="space-y-1">
+                  <Label htmlFor={`sector-${sector}`} className="text-xs text-muted-foreground font-mono">
+                    S{sector + 1}
+                  </Label>
+                  <Input
+                    id={`sector-${sector}`}
+                    type="text"
+                    value={sectorInputs[sector] || ''}
+                    onChange={(e) => handleSectorChange(sector, e.target.value)}
+                    placeholder="28.456"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Leave empty, or fill every sector - splits must add up to the lap time
+              {sectorTotal !== null && (
+                <span className="text-primary ml-2">= {formatLapTime(sectorTotal)}</span>
+              )}
+            </p>
+          </div>
+        )}
+
         {/* ============================================================
           CONDITIONS SELECTION - Dropdown
           ============================================================
@@ -645,31 +853,68 @@ export function LapTimeForm() {
           </Select>
         </div>
 
+        {/* ============================================================
+          LAP SESSION - Optional Select
+          ============================================================
+          Shown once a track is picked and the user has sessions there
+          Choosing a session sets (and locks) the session type
+        ============================================================ */}
+
+        {trackId && (lapSessions.length > 0 || sessionId) && (
+          <div className="space-y-2">
+            <Label htmlFor="lapSession">Session</Label>
+            <Select value={sessionId || NO_SESSION} onValueChange={handleSessionChange}>
+              <SelectTrigger id="lapSession">
+                <SelectValue placeholder="No session" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SESSION}>No session</SelectItem>
+                {lapSessions.map((lapSession) => (
+                  <SelectItem key={lapSession.id} value={lapSession.id}>
+                    {lapSession.date} · {SESSION_TYPE_LABELS[lapSession.sessionType]}
+                    {lapSession.conditions ? ` · ${lapSession.conditions}` : ''}
+                    {` · ${lapSession.stats?.lapCount || 0} laps`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Group this lap into a stint.{' '}
+              <Link href="/lap-times/sessions" className="underline hover:text-foreground">
+                Manage sessions
+              </Link>
+            </p>
+          </div>
+        )}
+
         {/* ============================================================
           SESSION TYPE - Radio Buttons
           ============================================================
           Label: "Session Type *" (required)
-          Options: R (Race), Q (Qualifying)
-          Value: sessionType state ('R' or 'Q')
+          Options: R (Race), Q (Qualifying), P (Practice)
+          Value: sessionType state ('R', 'Q' or 'P')
+          Disabled while a lap session is selected (the session decides)
 
           Visual Distinction:
           - R (Race): Primary color (blue), primary border, primary focus ring
           - Q (Qualifying): Secondary color (purple), secondary border, secondary focus ring
-          - Bold labels: "R" and "Q" highlighted in respective colors
+          - P (Practice): Accent color, accent border, accent focus ring
+          - Bold labels: "R", "Q" and "P" highlighted in respective colors
 
           Why Session Type?
           - Helps categorize lap times by session type
           - Race: Full race session lap times
           - Qualifying: Qualifying session lap times (often faster)
+          - Practice: Practice laps (kept out of race/qualifying comparisons)
           - Useful for filtering and analysis
 
           Required:
           - User must select one (no default)
-          - Validation enforces 'R' or 'Q' value
+          - Validation enforces 'R', 'Q' or 'P' value
 
           Helper Text:
           - Explains each session type
-          - "Select whether this lap time is from a Race or Qualifying session"
+          - "Select whether this lap time is from a Race, Qualifying or Practice session"
         ============================================================ */}
 
         <div className="space-y-2">
@@ -684,6 +929,7 @@ export function LapTimeForm() {
                 value="R"
                 checked={sessionType === 'R'}
                 onChange={() => setSessionType('R')}
+                disabled={!!selectedSession}
                 className="w-4 h-4 text-primary border-primary focus:ring-primary"
               />
               <Label htmlFor="session-r" className="font-normal cursor-pointer">
@@ -700,15 +946,35 @@ export function LapTimeForm() {
                 value="Q"
                 checked={sessionType === 'Q'}
                 onChange={() => setSessionType('Q')}
+                disabled={!!selectedSession}
                 className="w-4 h-4 text-secondary border-secondary focus:ring-secondary"
               />
               <Label htmlFor="session-q" className="font-normal cursor-pointer">
                 <span className="font-bold text-secondary">Q</span> - Qualifying
               </Label>
             </div>
+
+            {/* Practice (P) Option */}
+            <div className="flex items-center space-x-2">
+              <input
+                type="radio"
+                id="session-p"
+                name="sessionType"
+                value="P"
+                checked={sessionType === 'P'}
+                onChange={() => setSessionType('P')}
+                disabled={!!selectedSession}
+                className="w-4 h-4 text-accent border-accent focus:ring-accent"
+              />
+              <Label htmlFor="session-p" className="font-normal cursor-pointer">
+                <span className="font-bold text-accent">P</span> - Practice
+              </Label>
+            </div>
           </div>
           <p className="text-xs text-muted-foreground">
-            Select whether this lap time is from a Race or Qualifying session
+            {selectedSession
+              ? `Set by the selected ${SESSION_TYPE_LABELS[selectedSession.sessionType].toLowerCase()} session`
+              : 'Select whether this lap time is from a Race, Qualifying or Practice session'}
           </p>
         </div>
 
@@ -764,9 +1030,11 @@ export function LapTimeForm() {
           - Both buttons disabled: Prevents user interaction during API call
         ============================================================ */}
 
+        {confirmingOutlier && <OutlierWarning reasons={outlier.reasons} />}
+
         <div className="flex gap-3">
           <Button type="submit" disabled={loading} className="flex-1">
-            {loading ? 'Saving...' : 'Save Lap Time'}
+            {loading ? 'Saving...' : confirmingOutlier ? 'Save Anyway' : 'Save Lap Time'}
           </Button>
           <Button
             type="button"
@@ -0,0 +1,246 @@
+/**
+ * Lap Time History Dialog Component
+ *
+ * Purpose: Show how a lap changed and who disputed it - and let other members dispute it
+ * - Fetches GET /api/lap-times/[id]/history when opened
+ * - Edits: Old → new time, editor, reason, date
+ * - Disputes: Comment, who raised it, outcome and admin note
+ * - Dispute form: Only when canDispute and the lap is ACTIVE (POST /api/lap-times/[id]/disputes)
+ *
+ * **Props:**
+ * - lapTimeId: Lap to show (null = closed)
+ * - canDispute: Viewer may dispute (not their own lap)
+ * - open / onOpenChange: Controlled dialog state
+ * - onDisputed: Called after a dispute was raised (refresh the list behind the dialog)
+ *
+ * **Debugging Tips:**
+ * - No dispute form: Lap is your own, already disputed, or removed
+ * - 409: Someone else disputed the lap while the dialog was open
+ *
+ * **Related Files:**
+ * - @/app/api/lap-times/[id]/history/route.ts: History endpoint
+ * - @/app/api/lap-times/[id]/disputes/route.ts: Dispute endpoint
+ * - @/app/admin/disputes/page.tsx: Where admins resolve disputes
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Flag, History, Loader2 } from 'lucide-react'
+import { formatLapTime, getTimeDifference } from '@/lib/time'
+import { LAP_TIME_STATUS_LABELS } from '@/lib/lap-time-history'
+import type { DbLapTimeDispute, DbLapTimeEdit, LapTimeStatus } from '@/types/database'
+
+type Person = { id: string; name: string | null; gamertag: string | null } | null
+
+interface LapTimeHistory {
+  lapTime: {
+    id: string
+    timeMs: number
+    status: LapTimeStatus
+    user: Person
+    track: { name: string; layout: string | null } | null
+    car: { name: string; manufacturer: string } | null
+  }
+  edits: (DbLapTimeEdit & { editor: Person })[]
+  disputes: (DbLapTimeDispute & { raisedBy: Person; resolvedBy: Person })[]
+}
+
+interface LapTimeHistoryDialogProps {
+  lapTimeId: string | null
+  canDispute?: boolean
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onDisputed?: () => void
+}
+
+const personName = (person: Person) => person?.gamertag || person?.name || 'Unknown'
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+
+export function LapTimeHistoryDialog({
+  lapTimeId,
+  canDispute = false,
+  open,
+  onOpenChange,
+  onDisputed,
+}: LapTimeHistoryDialogProps) {
+  const [history, setHistory] = useState<LapTimeHistory | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [comment, setComment] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  // Fresh history every time the dialog opens
+  useEffect(() => {
+    if (!open || !lapTimeId) return
+
+    const fetchHistory = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setComment('')
+        const res = await fetch(`/api/lap-times/${lapTimeId}/history`)
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load lap history')
+        setHistory(data)
+      } catch (err) {
+        setHistory(null)
+        setError(err instanceof Error ? err.message : 'Failed to load lap history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [open, lapTimeId])
+
+  const handleDispute = async () => {
+    if (!lapTimeId || !comment.trim()) return
+
+    try {
+      setSubmitting(true)
+      setError(null)
+      const res = await fetch(`/api/lap-times/${lapTimeId}/disputes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ comment }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to dispute lap time')
+
+      onDisputed?.()
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to dispute lap time')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const lap = history?.lapTime
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Lap History
+          </DialogTitle>
+          <DialogDescription>
+            {lap
+              ? `${personName(lap.user)} • ${lap.track?.name || 'Unknown track'} • ${lap.car ? `${lap.car.manufacturer} ${lap.car.name}` : 'Unknown car'}`
+              : 'Edits and disputes of this lap time'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : lap && history ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-xl font-bold text-primary">{formatLapTime(lap.timeMs)}</span>
+              <Badge variant={lap.status === 'ACTIVE' ? 'outline' : 'destructive'}>
+                {LAP_TIME_STATUS_LABELS[lap.status]}
+              </Badge>
+            </div>
+
+            {/* Edits */}
+            <div className="space-y-2">
+              <Label>Edits</Label>
+              {history.edits.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Never edited</p>
+              ) : (
+                history.edits.map((edit) => (
+                  <div key={edit.id} className="border border-border rounded p-2 text-sm space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-mono">
+                        {formatLapTime(edit.oldTimeMs)} → {formatLapTime(edit.newTimeMs)}
+                      </span>
+                      {edit.oldTimeMs !== edit.newTimeMs && (
+                        <Badge variant="secondary" className="font-mono">
+                          {getTimeDifference(edit.newTimeMs, edit.oldTimeMs)}
+                        </Badge>
+                      )}
+                      <span className="ml-auto text-xs text-muted-foreground">{formatDate(edit.createdAt)}</span>
+                    </div>
+                    <p className="text-muted-foreground">
+                      {personName(edit.editor)}: {edit.reason}
+                    </p>
+                    {edit.changedFields.some((field) => field !== 'timeMs') && (
+                      <p className="text-xs text-muted-foreground">Changed: {edit.changedFields.join(', ')}</p>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Disputes */}
+            <div className="space-y-2">
+              <Label>Disputes</Label>
+              {history.disputes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No disputes</p>
+              ) : (
+                history.disputes.map((dispute) => (
+                  <div key={dispute.id} className="border border-border rounded p-2 text-sm space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={dispute.status === 'REMOVED' ? 'destructive' : dispute.status === 'OPEN' ? 'secondary' : 'outline'}>
+                        {dispute.status === 'OPEN' ? 'Open' : dispute.status === 'ACCEPTED' ? 'Lap accepted' : 'Lap removed'}
+                      </Badge>
+                      <span className="ml-auto text-xs text-muted-foreground">{formatDate(dispute.createdAt)}</span>
+                    </div>
+                    <p className="text-muted-foreground">
+                      {personName(dispute.raisedBy)}: {dispute.comment}
+                    </p>
+                    {dispute.resolvedAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Resolved by {personName(dispute.resolvedBy)} on {formatDate(dispute.resolvedAt)}
+                        {dispute.resolutionNote && ` - ${dispute.resolutionNote}`}
+                      </p>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Dispute form */}
+            {canDispute && lap.status === 'ACTIVE' && (
+              <div className="space-y-2 border-t border-border pt-4">
+                <Label htmlFor="dispute-comment">Dispute this lap time</Label>
+                <Textarea
+                  id="dispute-comment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="What looks wrong? An admin will review it."
+                  rows={3}
+                  maxLength={1000}
+                />
+                <Button variant="destructive" onClick={handleDispute} disabled={submitting || !comment.trim()}>
+                  {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Flag className="h-4 w-4 mr-2" />}
+                  Dispute
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  )
+}
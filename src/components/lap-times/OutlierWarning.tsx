@@ -0,0 +1,40 @@
+/**
+ * Outlier Warning Component
+ *
+ * Purpose: "Are you sure?" box for a lap time the API flagged as implausible (409 outlierReasons)
+ * - Lists why the time looks wrong (speed for the track length, record, usual times)
+ * - The surrounding form resends with confirmOutlier: true to save it anyway
+ *
+ * **Props:**
+ * - reasons: OutlierReason[] from the 409 response
+ *
+ * **Related Files:**
+ * - @/lib/lap-time-outliers.ts: The checks behind the reasons
+ * - @/components/lap-times/LapTimeForm.tsx, @/app/lap-times/page.tsx: Where it is shown
+ */
+
+import { AlertTriangle } from 'lucide-react'
+import type { OutlierReason } from '@/lib/lap-time-outliers'
+
+interface OutlierWarningProps {
+  reasons: OutlierReason[]
+}
+
+export function OutlierWarning({ reasons }: OutlierWarningProps) {
+  return (
+    <div className="p-4 text-sm border border-yellow-500/30 bg-yellow-500/10 rounded-lg space-y-2">
+      <p className="flex items-center gap-2 font-medium text-yellow-600 dark:text-yellow-500">
+        <AlertTriangle className="h-4 w-4" />
+        This time looks implausible for this track
+      </p>
+      <ul className="list-disc pl-6 text-muted-foreground">
+        {reasons.map((reason) => (
+          <li key={reason.code}>{reason.message}</li>
+        ))}
+      </ul>
+      <p className="text-muted-foreground">
+        Check for a typo. If the time is right, save it anyway - an admin will review it.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+/**
+ * Progression Chart Component
+ *
+ * Purpose: Plot one track/car/build's laps over time (pure SVG, no chart library)
+ * - Dots: Every lap, in the order they were driven (PB laps highlighted)
+ * - Solid step line: Personal best at that point
+ * - Dashed line: Rolling median (consistency trend)
+ * - Faster is up (the y axis runs from slowest at the bottom to fastest at the top)
+ *
+ * **Props:**
+ * - points: ProgressionPoint[] from GET /api/lap-times/progression
+ * - window: Rolling median window (legend only)
+ *
+ * **Debugging Tips:**
+ * - Flat chart: All laps have the same time (the range is padded by 100 ms)
+ * - Hover a dot for its time and date (SVG <title>)
+ *
+ * **Related Files:**
+ * - @/lib/pb-progression.ts: Builds the points
+ * - @/app/lap-times/progress/page.tsx: Renders this chart
+ * - @/components/builds/GearingCalculator.tsx: Same SVG chart conventions
+ */
+
+import { formatLapTime } from '@/lib/time'
+import type { ProgressionPoint } from '@/lib/pb-progression'
+
+const CHART_WIDTH = 640
+const CHART_HEIGHT = 260
+const PAD_LEFT = 64
+const PAD_TOP = 12
+const PAD_BOTTOM = 28
+const PAD_RIGHT = 12
+
+export function ProgressionChart({ points, window }: { points: ProgressionPoint[]; window: number }) {
+  if (points.length === 0) return null
+
+  const times = points.flatMap((point) => [point.timeMs, point.rollingMedianMs])
+  const fastest = Math.min(...times)
+  const slowest = Math.max(...times)
+  const padding = Math.max(100, Math.round((slowest - fastest) * 0.05))
+  const minMs = fastest - padding
+  const maxMs = slowest + padding
+
+  const x = (index: number) =>
+    points.length === 1
+      ? (PAD_LEFT + CHART_WIDTH - PAD_RIGHT) / 2
+      : PAD_LEFT + (index / (points.length - 1)) * (CHART_WIDTH - PAD_LEFT - PAD_RIGHT)
+  const y = (timeMs: number) => PAD_TOP + ((timeMs - minMs) / (maxMs - minMs)) * (CHART_HEIGHT - PAD_TOP - PAD_BOTTOM)
+
+  const timeTicks = Array.from({ length: 4 }, (_, i) => Math.round(minMs + ((maxMs - minMs) / 3) * i))
+  const dateTicks = [...new Set([0, Math.floor((points.length - 1) / 2), points.length - 1])]
+
+  const pbPath = points
+    .map((point, index) => {
+      const previous = index > 0 ? points[index - 1] : null
+      const step = previous && previous.pbMs !== point.pbMs ? ` L ${x(index)} ${y(previous.pbMs)}` : ''
+      return `${index === 0 ? 'M' : step + ' L'} ${x(index)} ${y(point.pbMs)}`
+    })
+    .join('')
+  const medianPoints = points.map((point, index) => `${x(index)},${y(point.rollingMedianMs)}`).join(' ')
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Lap times over time with personal best and rolling median"
+      >
+        {/* Grid + axis labels */}
+        {timeTicks.map((timeMs) => (
+          <g key={`time-${timeMs}`}>
+            <line x1={PAD_LEFT} x2={CHART_WIDTH - PAD_RIGHT} y1={y(timeMs)} y2={y(timeMs)} className="stroke-border" strokeWidth={1} />
+            <text x={PAD_LEFT - 6} y={y(timeMs) + 4} textAnchor="end" className="fill-muted-foreground text-[10px] font-mono">
+              {formatLapTime(timeMs)}
+            </text>
+          </g>
+        ))}
+        {dateTicks.map((index) => (
+          <text
+            key={`date-${index}`}
+            x={x(index)}
+            y={CHART_HEIGHT - 8}
+            textAnchor={index === 0 && points.length > 1 ? 'start' : index === points.length - 1 && points.length > 1 ? 'end' : 'middle'}
+            className="fill-muted-foreground text-[10px]"
+          >
+            {new Date(points[index].createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+          </text>
+        ))}
+
+        {/* Rolling median + PB step line */}
+        {points.length > 1 && (
+          <polyline
+            points={medianPoints}
+            fill="none"
+            className="stroke-muted-foreground"
+            strokeDasharray="4 3"
+            strokeWidth={1.5}
+          />
+        )}
+        <path d={pbPath} fill="none" className="stroke-primary" strokeWidth={2} />
+
+        {/* Laps */}
+        {points.map((point, index) => (
+          <circle
+            key={point.lapId}
+            cx={x(index)}
+            cy={y(point.timeMs)}
+            r={point.isPb ? 4 : 2.5}
+            className={point.isPb ? 'fill-primary' : 'fill-muted-foreground'}
+          >
+            <title>
+              {formatLapTime(point.timeMs)} - {new Date(point.createdAt).toLocaleDateString()}
+              {point.isPb ? ' (PB)' : ''}
+            </title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5 bg-primary" />
+          Personal best
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 border-t border-dashed border-muted-foreground" />
+          Rolling median ({window} laps)
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-full bg-primary" />
+          PB lap
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+/**
+ * Lobby Settings Badges Component
+ *
+ * Purpose: Read-only summary of a lobby preset - what the host sets the room up with
+ * - Preset name, then one badge per key setting ("Rolling Start", "Tyre Wear ×3")
+ * - Renders nothing without a preset
+ *
+ * **Props:**
+ * - settings: The linked preset (Race.lobbySettings - null = none)
+ * - compact: Smaller badges for cards (Tonight)
+ *
+ * **Related Files:**
+ * - @/lib/lobby-settings.ts: describeLobbySettings()
+ * - @/components/races/race-lobby-card.tsx: Race page
+ * - @/components/tonight/sortable-race-card.tsx: Tonight card
+ * - @/app/lobby-settings/page.tsx: Preset list
+ */
+
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { Gamepad2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { describeLobbySettings } from '@/lib/lobby-settings'
+import type { DbLobbySettings } from '@/types/database'
+
+interface LobbySettingsBadgesProps {
+  settings: DbLobbySettings | null | undefined
+  compact?: boolean
+  showName?: boolean
+}
+
+export function LobbySettingsBadges({ settings, compact = false, showName = true }: LobbySettingsBadgesProps) {
+  if (!settings) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Gamepad2 className={cn('text-muted-foreground', compact ? 'h-3 w-3' : 'h-4 w-4')} />
+      {showName && (
+        <span className={cn('font-medium', compact ? 'text-xs' : 'text-sm')}>{settings.name}</span>
+      )}
+      {describeLobbySettings(settings).map((label) => (
+        <Badge key={label} variant="secondary" className={cn(compact && 'text-xs')}>
+          {label}
+        </Badge>
+      ))}
+    </div>
+  )
+}
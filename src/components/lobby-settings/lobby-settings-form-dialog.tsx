@@ -0,0 +1,162 @@
+/**
+ * Lobby Settings Form Dialog Component
+ *
+ * Purpose: Create or edit a lobby preset - name + the GT7-style settings form
+ * - New preset: Starts from the GT7 defaults (or from a copy of another preset)
+ * - Edit: Changes the preset for every race using it - "Save as New" keeps the original
+ *
+ * **Data Flow:**
+ * 1. Save: POST /api/lobby-settings (create / save as new) or PATCH /api/lobby-settings/[id]
+ *    (edit, sends every field)
+ * 2. onSaved(preset) so the parent can refresh / link it to a race
+ *
+ * **Props:**
+ * - preset: Edit mode (null = create)
+ * - copyFrom: Create mode only - start from this preset's settings
+ * - open / onOpenChange: Controlled dialog state
+ * - onSaved: Called with the saved preset
+ *
+ * **Related Files:**
+ * - @/components/lobby-settings/lobby-settings-form.tsx: Settings form
+ * - @/app/lobby-settings/page.tsx: Preset list
+ * - @/components/races/race-lobby-card.tsx: Race page
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { LobbySettingsForm } from '@/components/lobby-settings/lobby-settings-form'
+import { Loader2 } from 'lucide-react'
+import { DEFAULT_LOBBY_SETTINGS, toLobbySettingsInput, type LobbySettingsInput } from '@/lib/lobby-settings'
+import type { DbLobbySettings } from '@/types/database'
+
+interface LobbySettingsFormDialogProps {
+  preset?: DbLobbySettings | null
+  copyFrom?: DbLobbySettings | null
+  raceCount?: number
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: (preset: DbLobbySettings) => void
+}
+
+export function LobbySettingsFormDialog({
+  preset = null,
+  copyFrom = null,
+  raceCount = 0,
+  open,
+  onOpenChange,
+  onSaved,
+}: LobbySettingsFormDialogProps) {
+  const [settings, setSettings] = useState<LobbySettingsInput>(DEFAULT_LOBBY_SETTINGS)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // ============================================================
+  // RESET ON OPEN
+  // ============================================================
+
+  useEffect(() => {
+    if (!open) return
+
+    if (preset) {
+      setSettings(toLobbySettingsInput(preset))
+    } else if (copyFrom) {
+      setSettings({ ...toLobbySettingsInput(copyFrom), name: `${copyFrom.name} (copy)` })
+    } else {
+      setSettings(DEFAULT_LOBBY_SETTINGS)
+    }
+    setError(null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  // ============================================================
+  // SAVE
+  // ============================================================
+
+  const save = async (asNew: boolean) => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const editing = preset && !asNew
+      const res = await fetch(editing ? `/api/lobby-settings/${preset.id}` : '/api/lobby-settings', {
+        method: editing ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to save lobby preset')
+
+      onOpenChange(false)
+      onSaved(data.lobbySettings)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save lobby preset')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{preset ? 'Edit Lobby Preset' : 'New Lobby Preset'}</DialogTitle>
+          <DialogDescription>
+            {preset && raceCount > 1
+              ? `Used by ${raceCount} races - saving changes it for all of them.`
+              : 'The room settings the host uses in GT7.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="lobby-preset-name">Name</Label>
+            <Input
+              id="lobby-preset-name"
+              value={settings.name}
+              onChange={(e) => setSettings({ ...settings, name: e.target.value })}
+              placeholder="e.g. GT3 Sprint - Tyre Wear ×3"
+              maxLength={100}
+              className="min-h-[44px]"
+            />
+          </div>
+
+          <LobbySettingsForm value={settings} onChange={setSettings} disabled={saving} />
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="min-h-[44px]">
+            Cancel
+          </Button>
+          {preset && (
+            <Button
+              variant="outline"
+              onClick={() => save(true)}
+              disabled={saving || !settings.name.trim()}
+              className="min-h-[44px]"
+            >
+              Save as New
+            </Button>
+          )}
+          <Button onClick={() => save(false)} disabled={saving || !settings.name.trim()} className="min-h-[44px]">
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {preset ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,369 @@
+/**
+ * Lobby Settings Form Component
+ *
+ * Purpose: Edit a lobby preset with the same groups and options as the GT7 room menu
+ * - Race: race type, laps, start type, boost
+ * - Tyres & fuel: tyre wear / fuel multipliers, required tyres
+ * - Damage & penalties: mechanical damage, penalty level, wall / corner cutting penalties
+ * - Track conditions: time of day, time progression, weather, low-grip surfaces
+ * - Assists: ABS, counter-steer, TCS, ASM limits, driving line
+ * - Controlled component: parent owns the LobbySettingsInput (the name field is the parent's)
+ *
+ * **Props:**
+ * - value: Current settings
+ * - onChange: Called with the new settings
+ * - disabled: Disable all inputs (while saving)
+ *
+ * **Debugging Tips:**
+ * - Multiplier saved as 0: An empty number input counts as 0 (GT7 allows ×0 = no wear)
+ * - Option missing: The option lists come from the label maps in @/lib/lobby-settings.ts
+ *
+ * **Related Files:**
+ * - @/lib/lobby-settings.ts: Labels + defaults
+ * - @/components/lobby-settings/lobby-settings-form-dialog.tsx: Dialog (name + this form)
+ */
+
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { cn } from '@/lib/utils'
+import { TYRE_COMPOUND_LABELS } from '@/lib/build-performance'
+import {
+  ASSIST_LEVEL_LABELS,
+  BOOST_LEVEL_LABELS,
+  DAMAGE_LEVEL_LABELS,
+  PENALTY_LEVEL_LABELS,
+  RACE_TYPE_LABELS,
+  START_TYPE_LABELS,
+  TIME_OF_DAY_LABELS,
+  WEATHER_TYPE_LABELS,
+  type LobbySettingsInput,
+} from '@/lib/lobby-settings'
+import type { AssistLevel, TyreCompound } from '@/types/database'
+
+const TYRE_OPTIONS = Object.keys(TYRE_COMPOUND_LABELS) as TyreCompound[]
+
+interface LobbySettingsFormProps {
+  value: LobbySettingsInput
+  onChange: (settings: LobbySettingsInput) => void
+  disabled?: boolean
+}
+
+// ============================================================
+// CONTROLS
+// ============================================================
+
+// Toggle chip (same look as the regulations form)
+function Chip({
+  selected,
+  onClick,
+  disabled,
+  children,
+}: {
+  selected: boolean
+  onClick: () => void
+  disabled?: boolean
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      aria-pressed={selected}
+      className={cn(
+        'px-3 py-1.5 rounded-md border text-xs font-medium transition-colors min-h-[36px]',
+        selected
+          ? 'border-primary bg-primary text-primary-foreground'
+          : 'border-border text-muted-foreground gt-hover-card'
+      )}
+    >
+      {children}
+    </button>
+  )
+}
+
+// Segmented row - one option selected (GT7's left/right setting picker)
+function OptionGroup<T extends string>({
+  labels,
+  value,
+  onSelect,
+  disabled,
+}: {
+  labels: Record<T, string>
+  value: T
+  onSelect: (option: T) => void
+  disabled?: boolean
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {(Object.keys(labels) as T[]).map((option) => (
+        <Chip key={option} selected={value === option} onClick={() => onSelect(option)} disabled={disabled}>
+          {labels[option]}
+        </Chip>
+      ))}
+    </div>
+  )
+}
+
+// Whole-number input with a unit after it (×, laps)
+function NumberSetting({
+  id,
+  value,
+  onValueChange,
+  min,
+  max,
+  unit,
+  placeholder,
+  disabled,
+}: {
+  id: string
+  value: number | null
+  onValueChange: (value: number | null) => void
+  min: number
+  max: number
+  unit: string
+  placeholder?: string
+  disabled?: boolean
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        step="1"
+        placeholder={placeholder}
+        value={value ?? ''}
+        onChange={(e) => onValueChange(e.target.value === '' ? null : Math.round(Number(e.target.value)))}
+        disabled={disabled}
+        className="min-h-[44px] max-w-[120px]"
+      />
+      <span className="text-sm text-muted-foreground">{unit}</span>
+    </div>
+  )
+}
+
+function SwitchSetting({
+  id,
+  label,
+  checked,
+  onCheckedChange,
+  disabled,
+}: {
+  id: string
+  label: string
+  checked: boolean
+  onCheckedChange: (checked: boolean) => void
+  disabled?: boolean
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4 min-h-[36px]">
+      <Label htmlFor={id} className="font-normal">{label}</Label>
+      <Switch id={id} checked={checked} onCheckedChange={onCheckedChange} disabled={disabled} />
+    </div>
+  )
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">{title}</h3>
+      {children}
+    </div>
+  )
+}
+
+// ============================================================
+// FORM
+// ============================================================
+
+export function LobbySettingsForm({ value, onChange, disabled = false }: LobbySettingsFormProps) {
+  const set = <K extends keyof LobbySettingsInput>(key: K, fieldValue: LobbySettingsInput[K]) =>
+    onChange({ ...value, [key]: fieldValue })
+
+  const toggleTyre = (tyre: TyreCompound) =>
+    set('requiredTires', value.requiredTires.includes(tyre)
+      ? value.requiredTires.filter((t) => t !== tyre)
+      : [...value.requiredTires, tyre])
+
+  const assists: Array<['abs' | 'counterSteer' | 'tractionControl' | 'activeStabilityMgmt', string]> = [
+    ['abs', 'ABS'],
+    ['counterSteer', 'Counter-Steer Assistance'],
+    ['tractionControl', 'Traction Control'],
+    ['activeStabilityMgmt', 'Active Stability Management'],
+  ]
+
+  return (
+    <div className="space-y-4">
+      {/* Race */}
+      <Section title="Race">
+        <div className="space-y-2">
+          <Label>Race Type</Label>
+          <OptionGroup labels={RACE_TYPE_LABELS} value={value.raceType} onSelect={(v) => set('raceType', v)} disabled={disabled} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="lobby-laps">Laps</Label>
+          <NumberSetting
+            id="lobby-laps"
+            value={value.laps}
+            onValueChange={(v) => set('laps', v && v > 0 ? v : null)}
+            min={1}
+            max={999}
+            unit="laps"
+            placeholder="Race's laps"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Start Type</Label>
+          <OptionGroup labels={START_TYPE_LABELS} value={value.startType} onSelect={(v) => set('startType', v)} disabled={disabled} />
+        </div>
+        <div className="space-y-2">
+          <Label>Boost</Label>
+          <OptionGroup labels={BOOST_LEVEL_LABELS} value={value.boostLevel} onSelect={(v) => set('boostLevel', v)} disabled={disabled} />
+        </div>
+      </Section>
+
+      {/* Tyres & fuel */}
+      <Section title="Tyres & Fuel">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="lobby-tyre-wear">Tyre Wear Rate</Label>
+            <NumberSetting
+              id="lobby-tyre-wear"
+              value={value.tireWearMultiplier}
+              onValueChange={(v) => set('tireWearMultiplier', v ?? 0)}
+              min={0}
+              max={50}
+              unit="×"
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lobby-fuel">Fuel Consumption Rate</Label>
+            <NumberSetting
+              id="lobby-fuel"
+              value={value.fuelConsumption}
+              onValueChange={(v) => set('fuelConsumption', v ?? 0)}
+              min={0}
+              max={50}
+              unit="×"
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Required Tyres</Label>
+          <div className="flex flex-wrap gap-2">
+            {TYRE_OPTIONS.map((tyre) => (
+              <Chip
+                key={tyre}
+                selected={value.requiredTires.includes(tyre)}
+                onClick={() => toggleTyre(tyre)}
+                disabled={disabled}
+              >
+                {TYRE_COMPOUND_LABELS[tyre]}
+              </Chip>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">Nothing selected = no required tyres.</p>
+        </div>
+      </Section>
+
+      {/* Damage & penalties */}
+      <Section title="Damage & Penalties">
+        <div className="space-y-2">
+          <Label>Mechanical Damage</Label>
+          <OptionGroup labels={DAMAGE_LEVEL_LABELS} value={value.mechanicalDamage} onSelect={(v) => set('mechanicalDamage', v)} disabled={disabled} />
+        </div>
+        <div className="space-y-2">
+          <Label>Penalties</Label>
+          <OptionGroup labels={PENALTY_LEVEL_LABELS} value={value.penaltyLevel} onSelect={(v) => set('penaltyLevel', v)} disabled={disabled} />
+        </div>
+        <SwitchSetting
+          id="lobby-wall-penalty"
+          label="Wall Collision Penalty"
+          checked={value.wallCollisionPenalty}
+          onCheckedChange={(v) => set('wallCollisionPenalty', v)}
+          disabled={disabled}
+        />
+        <SwitchSetting
+          id="lobby-corner-penalty"
+          label="Corner Cutting Penalty"
+          checked={value.cornerCuttingPenalty}
+          onCheckedChange={(v) => set('cornerCuttingPenalty', v)}
+          disabled={disabled}
+        />
+      </Section>
+
+      {/* Track conditions */}
+      <Section title="Track Conditions">
+        <div className="space-y-2">
+          <Label>Time of Day</Label>
+          <OptionGroup labels={TIME_OF_DAY_LABELS} value={value.timeOfDay} onSelect={(v) => set('timeOfDay', v)} disabled={disabled} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="lobby-time-progression">Time Progression</Label>
+          <NumberSetting
+            id="lobby-time-progression"
+            value={value.timeProgression}
+            onValueChange={(v) => set('timeProgression', v ?? 0)}
+            min={0}
+            max={60}
+            unit="×"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Weather</Label>
+          <OptionGroup labels={WEATHER_TYPE_LABELS} value={value.weather} onSelect={(v) => set('weather', v)} disabled={disabled} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="lobby-weather-changeability">Weather Changeability</Label>
+          <NumberSetting
+            id="lobby-weather-changeability"
+            value={value.weatherChangeability}
+            onValueChange={(v) => set('weatherChangeability', v ?? 0)}
+            min={0}
+            max={10}
+            unit="/ 10"
+            disabled={disabled}
+          />
+        </div>
+        <SwitchSetting
+          id="lobby-low-mu"
+          label="Grip Reduction Off Track"
+          checked={value.lowMuSurface}
+          onCheckedChange={(v) => set('lowMuSurface', v)}
+          disabled={disabled}
+        />
+      </Section>
+
+      {/* Assists */}
+      <Section title="Assists">
+        {assists.map(([key, label]) => (
+          <div key={key} className="space-y-2">
+            <Label>{label}</Label>
+            <OptionGroup<AssistLevel>
+              labels={ASSIST_LEVEL_LABELS}
+              value={value[key]}
+              onSelect={(v) => set(key, v)}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+        <SwitchSetting
+          id="lobby-driving-line"
+          label="Driving Line Allowed"
+          checked={value.drivingLine}
+          onCheckedChange={(v) => set('drivingLine', v)}
+          disabled={disabled}
+        />
+      </Section>
+    </div>
+  )
+}
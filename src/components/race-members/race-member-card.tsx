@@ -47,6 +47,8 @@
  * - Optimistic update: UI updates immediately, API called in background
  * - Rollback on error: Reverts to previous tyre if API call fails
  * - Loading state: Shows spinner during API call
+ * - Regulations: Tyres outside Race.regulations.tyres are disabled in the dropdown,
+ *   and an illegal current choice is flagged with the reason (visible to everyone)
  *
  * **Delete Confirmation:**
  * - Dialog: Confirmation before removing member
@@ -125,7 +127,7 @@
 import { useState } from 'react'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-import { Trash2, Loader2 } from 'lucide-react'
+import { Trash2, Loader2, AlertTriangle } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
   Select,
@@ -144,6 +146,8 @@ import {
 } from '@/components/ui/dialog'
 import { DragHandle } from '@/components/ui/drag-handle'
 import { cn } from '@/lib/utils'
+import { checkTyreAgainstRegulations } from '@/lib/race-regulations'
+import type { RaceRegulations } from '@/types/database'
 
 // ============================================================
 // TYPE DEFINITIONS
@@ -191,6 +195,7 @@ interface RaceMemberCardProps {
   onDelete: (memberId: string) => void
   isDeleting: boolean
   isUpdatingTyre: boolean
+  regulations?: RaceRegulations | null
 }
 
 export function RaceMemberCard({
@@ -203,6 +208,7 @@ export function RaceMemberCard({
   onDelete,
   isDeleting,
   isUpdatingTyre,
+  regulations = null,
 }: RaceMemberCardProps) {
   // ============================================================
   // STATE
@@ -321,6 +327,10 @@ export function RaceMemberCard({
     return acc
   }, {} as Record<string, Part[]>)
 
+  // Current tyre name (optimistic updates only change partid, so look it up in the options)
+  const currentTyreName = tyreOptions.find((tyre) => tyre.id === member.partid)?.name ?? member.part?.name
+  const tyreIssue = checkTyreAgainstRegulations(regulations, currentTyreName)
+
   // ============================================================
   // RENDER
   // ============================================================
@@ -334,7 +344,8 @@ export function RaceMemberCard({
       className={cn(
         'w-full h-auto p-4 border border-border rounded-lg flex flex-col sm:flex-row items-center justify-between gap-3 sm:gap-4 gt-hover-card transition-all duration-200',
         isDragging && 'opacity-50 shadow-lg',
-        isDeleting && 'opacity-50 animate-pulse'
+        isDeleting && 'opacity-50 animate-pulse',
+        tyreIssue && 'border-destructive'
       )}
     >
       {/* ============================================================
@@ -352,6 +363,12 @@ export function RaceMemberCard({
         {/* Truncate for long gamertags to prevent overflow */}
         <div className="flex-1 min-w-0">
           <p className="font-medium truncate">{member.user.gamertag}</p>
+          {tyreIssue && (
+            <p className="flex items-center gap-1 text-xs text-destructive">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              {tyreIssue}
+            </p>
+          )}
         </div>
       </div>
 
@@ -393,7 +410,11 @@ export function RaceMemberCard({
                   </div>
                   {/* Tyre options in this category */}
                   {tyres.map((tyre) => (
-                    <SelectItem key={tyre.id} value={tyre.id}>
+                    <SelectItem
+                      key={tyre.id}
+                      value={tyre.id}
+                      disabled={tyre.id !== member.partid && checkTyreAgainstRegulations(regulations, tyre.name) !== null}
+                    >
                       {tyre.name}
                     </SelectItem>
                   ))}
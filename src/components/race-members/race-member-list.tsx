@@ -9,11 +9,15 @@
  * - Haptic feedback on mobile
  * - Saving indicator
  * - Empty state
+ * - Realtime: Another client's member / tyre / order change refetches the list
+ *   (skipped while this client's own reorder or tyre save is pending)
  *
  * Debugging Tips:
  * - Matches pattern from tonight/sortable-race-list.tsx
  * - Tyre options filtered from Parts table
+ * - regulations prop: Passed to each card to disable/flag tyres the race doesn't allow
  * - 8px drag activation threshold prevents accidental drags
+ * - Not updating live: see @/hooks/use-races-realtime.ts
  */
 
 'use client'
@@ -37,16 +41,19 @@ import {
 } from '@dnd-kit/sortable'
 import { Users } from 'lucide-react'
 import { LoadingSection } from '@/components/ui/loading'
+import { useRacesRealtime } from '@/hooks/use-races-realtime'
 import { RaceMemberCard, type Part, type RaceMember } from './race-member-card'
 import { AddMemberButton } from './add-member-button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { RaceRegulations } from '@/types/database'
 
 interface RaceMemberListProps {
   raceId: string
   isAdmin: boolean
+  regulations?: RaceRegulations | null
 }
 
-export function RaceMemberList({ raceId, isAdmin }: RaceMemberListProps) {
+export function RaceMemberList({ raceId, isAdmin, regulations = null }: RaceMemberListProps) {
   const [members, setMembers] = useState<RaceMember[]>([])
   const [previousMembers, setPreviousMembers] = useState<RaceMember[]>([])
   const [isLoading, setIsLoading] = useState(true)
@@ -55,6 +62,7 @@ export function RaceMemberList({ raceId, isAdmin }: RaceMemberListProps) {
   const [deletingMemberId, setDeletingMemberId] = useState<string | null>(null)
   const [updatingTyreMemberId, setUpdatingTyreMemberId] = useState<string | null>(null)
   const saveTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined)
+  const savePendingRef = useRef(false) // Own reorder from drop until saved
 
   // ============================================================
   // DATA FETCHING
@@ -160,6 +168,7 @@ export function RaceMemberList({ raceId, isAdmin }: RaceMemberListProps) {
     }
 
     // Debounced API call (500ms)
+    savePendingRef.current = true
     saveTimeoutRef.current = setTimeout(async () => {
       setIsSaving(true)
       try {
@@ -189,6 +198,7 @@ export function RaceMemberList({ raceId, isAdmin }: RaceMemberListProps) {
         setMembers(previousMembers)
         console.error('Rolling back to previous order')
       } finally {
+        savePendingRef.current = false
         setIsSaving(false)
       }
     }, 500)
@@ -288,6 +298,16 @@ export function RaceMemberList({ raceId, isAdmin }: RaceMemberListProps) {
     }
   }
 
+  // Other clients' changes - a pending save of ours would be overwritten by the
+  // stale list, and its own response brings the latest members anyway
+  useRacesRealtime({
+    raceId,
+    onChange: () => {
+      if (savePendingRef.current || updatingTyreMemberId) return
+      refreshMembers()
+    },
+  })
+
   // ============================================================
   // DERIVE CURRENT MEMBER IDs
   // ============================================================
@@ -405,6 +425,7 @@ export function RaceMemberList({ raceId, isAdmin }: RaceMemberListProps) {
                     onDelete={handleDelete}
                     isDeleting={deletingMemberId === member.id}
                     isUpdatingTyre={updatingTyreMemberId === member.id}
+                    regulations={regulations}
                   />
                 ))}
               </SortableContext>
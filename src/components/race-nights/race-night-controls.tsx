@@ -0,0 +1,159 @@
+/**
+ * Race Night Controls Component
+ *
+ * Purpose: Run a race night live - status, progress and the host's buttons
+ * - Scheduled: "Start night" puts the pointer on the first race
+ * - In progress: "Race 3 of 8" with Previous / Next; Next on the last race finishes the night
+ * - Cancel (second click confirms) while scheduled or in progress
+ * - Completed / cancelled: Status only (archived)
+ * - Non-hosts see the status and progress without buttons
+ *
+ * **Data Flow:**
+ * - Every button: PATCH /api/race-nights/[id] { status } or { currentEntryOrder }
+ *   → onChange(raceNight) with the server's copy
+ *
+ * **Props:**
+ * - raceNight: The night (entries in running order)
+ * - canHost: Creator or admin (same rule as PATCH /api/race-nights/[id])
+ * - onChange: Called with the updated night
+ *
+ * **Related Files:**
+ * - @/lib/race-nights.ts: Lifecycle rules
+ * - @/app/tonight/page.tsx, @/app/race-nights/[id]/page.tsx: Where it's shown
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ChevronLeft, ChevronRight, Flag, Loader2, Play, XCircle } from 'lucide-react'
+import { SESSION_STATUS_LABELS, isArchivedStatus, type RaceNight } from '@/lib/race-nights'
+import type { SessionStatus } from '@/types/database'
+
+interface RaceNightControlsProps {
+  raceNight: RaceNight
+  canHost: boolean
+  onChange: (raceNight: RaceNight) => void
+}
+
+const STATUS_VARIANTS: Record<SessionStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  SCHEDULED: 'secondary',
+  IN_PROGRESS: 'destructive',
+  COMPLETED: 'default',
+  CANCELLED: 'outline',
+}
+
+export function RaceNightControls({ raceNight, canHost, onChange }: RaceNightControlsProps) {
+  const [working, setWorking] = useState(false)
+  const [confirmCancel, setConfirmCancel] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { entries, status } = raceNight
+  const currentIndex = entries.findIndex((entry) => entry.order === raceNight.currentEntryOrder)
+  const current = currentIndex >= 0 ? entries[currentIndex] : null
+
+  const update = async (changes: { status?: SessionStatus; currentEntryOrder?: number }) => {
+    setWorking(true)
+    setConfirmCancel(false)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/race-nights/${raceNight.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to update race night')
+      onChange(data.raceNight)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update race night')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const isLast = currentIndex === entries.length - 1
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={STATUS_VARIANTS[status]}>{SESSION_STATUS_LABELS[status]}</Badge>
+        {status === 'IN_PROGRESS' && current?.race && (
+          <span className="text-sm">
+            Race {currentIndex + 1} of {entries.length}:{' '}
+            <span className="font-semibold">{current.race.name || current.race.track?.name || 'Unnamed race'}</span>
+          </span>
+        )}
+        {status === 'SCHEDULED' && (
+          <span className="text-sm text-muted-foreground">
+            {entries.length} {entries.length === 1 ? 'race' : 'races'} planned
+          </span>
+        )}
+        {working && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {canHost && !isArchivedStatus(status) && (
+        <div className="flex flex-wrap gap-2">
+          {status === 'SCHEDULED' && (
+            <Button
+              onClick={() => update({ status: 'IN_PROGRESS' })}
+              disabled={working || entries.length === 0}
+              className="gap-2 min-h-[44px]"
+            >
+              <Play className="h-4 w-4" />
+              Start night
+            </Button>
+          )}
+
+          {status === 'IN_PROGRESS' && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => update({ currentEntryOrder: entries[currentIndex - 1].order })}
+                disabled={working || currentIndex <= 0}
+                className="gap-1 min-h-[44px]"
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Previous
+              </Button>
+              {isLast || currentIndex < 0 ? (
+                <Button
+                  onClick={() => update({ status: 'COMPLETED' })}
+                  disabled={working}
+                  className="gap-2 min-h-[44px]"
+                >
+                  <Flag className="h-4 w-4" />
+                  Finish night
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => update({ currentEntryOrder: entries[currentIndex + 1].order })}
+                  disabled={working}
+                  className="gap-1 min-h-[44px]"
+                >
+                  Next race
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              )}
+            </>
+          )}
+
+          {/* Cancel asks for a second click */}
+          <Button
+            variant={confirmCancel ? 'destructive' : 'ghost'}
+            onClick={() => (confirmCancel ? update({ status: 'CANCELLED' }) : setConfirmCancel(true))}
+            disabled={working}
+            className="gap-2 min-h-[44px]"
+          >
+            <XCircle className="h-4 w-4" />
+            {confirmCancel ? 'Cancel night?' : 'Cancel night'}
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
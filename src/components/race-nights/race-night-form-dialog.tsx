@@ -0,0 +1,170 @@
+/**
+ * Race Night Form Dialog Component
+ *
+ * Purpose: Plan or edit a race night - name, date, notes and the lineup of races
+ * - Lineup: OrderedRacePicker (position in the list = running order)
+ * - Editing a night in progress keeps the pointer on the current race (see set_run_session_races)
+ *
+ * **Data Flow:**
+ * 1. Save: POST /api/race-nights (create) or PATCH /api/race-nights/[id] (edit, sends
+ *    every field - the lineup is replaced)
+ * 2. onSaved(raceNight) so the page can navigate / refresh
+ *
+ * **Props:**
+ * - raceNight: Edit mode (null = create)
+ * - open / onOpenChange: Controlled dialog state
+ * - onSaved: Called with the saved race night
+ *
+ * **Related Files:**
+ * - @/app/race-nights/page.tsx: Create
+ * - @/app/race-nights/[id]/page.tsx: Edit
+ * - @/app/api/race-nights: Race night endpoints
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { OrderedRacePicker, type PickedRace } from '@/components/races/ordered-race-picker'
+import { Loader2 } from 'lucide-react'
+import { localDateString, type RaceNight } from '@/lib/race-nights'
+
+interface RaceNightFormDialogProps {
+  raceNight?: RaceNight | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: (raceNight: RaceNight) => void
+}
+
+export function RaceNightFormDialog({ raceNight = null, open, onOpenChange, onSaved }: RaceNightFormDialogProps) {
+  const [name, setName] = useState('')
+  const [date, setDate] = useState('')
+  const [description, setDescription] = useState('')
+  const [lineup, setLineup] = useState<PickedRace[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // ============================================================
+  // RESET ON OPEN
+  // ============================================================
+
+  useEffect(() => {
+    if (!open) return
+
+    setName(raceNight?.name || '')
+    setDate(raceNight?.date || localDateString())
+    setDescription(raceNight?.description || '')
+    setLineup(raceNight ? raceNight.entries.map((entry) => entry.race!) : [])
+    setError(null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  // ============================================================
+  // SAVE
+  // ============================================================
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(raceNight ? `/api/race-nights/${raceNight.id}` : '/api/race-nights', {
+        method: raceNight ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          date,
+          description: description || null,
+          raceIds: lineup.map((race) => race.id),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to save race night')
+
+      onOpenChange(false)
+      onSaved(data.raceNight)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save race night')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{raceNight ? 'Edit Race Night' : 'Plan Race Night'}</DialogTitle>
+          <DialogDescription>
+            Races run in the order listed. The night shows on Tonight on its date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="race-night-name">Name</Label>
+              <Input
+                id="race-night-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Friday GT3 Night"
+                maxLength={100}
+                className="min-h-[44px]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="race-night-date">Date</Label>
+              <Input
+                id="race-night-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="min-h-[44px]"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="race-night-description">Notes</Label>
+            <Textarea
+              id="race-night-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={500}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Lineup</Label>
+            <OrderedRacePicker value={lineup} onChange={setLineup} />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="min-h-[44px]">
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || !name.trim() || !date} className="min-h-[44px]">
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {raceNight ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
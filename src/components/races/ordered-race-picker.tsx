@@ -0,0 +1,140 @@
+/**
+ * Ordered Race Picker Component
+ *
+ * Purpose: Pick races and put them in order (championship rounds, race night lineup)
+ * - Selected races listed with their position (R1, R2, ...), arrows to reorder, X to remove
+ * - Search box below adds a race at the end (races already picked are left out)
+ * - Fetches GET /api/races once on mount
+ *
+ * **Props:**
+ * - value: Picked races in order
+ * - onChange: New order / selection
+ * - emptyText: Shown when nothing is picked yet
+ *
+ * **Related Files:**
+ * - @/components/championships/championship-form-dialog.tsx: Rounds
+ * - @/components/race-nights/race-night-form-dialog.tsx: Lineup
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { SearchableComboBox } from '@/components/ui/searchable-combobox'
+import { ArrowDown, ArrowUp, X } from 'lucide-react'
+
+export interface PickedRace {
+  id: string
+  name: string | null
+  completedAt: string | null
+  track: { id: string; name: string; layout?: string | null } | null
+}
+
+interface OrderedRacePickerProps {
+  value: PickedRace[]
+  onChange: (races: PickedRace[]) => void
+  emptyText?: string
+}
+
+export const pickedRaceName = (race: PickedRace) => race.name || race.track?.name || 'Unnamed race'
+
+export function OrderedRacePicker({ value, onChange, emptyText = 'No races yet - add them below' }: OrderedRacePickerProps) {
+  const [races, setRaces] = useState<PickedRace[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchRaces = async () => {
+      try {
+        const res = await fetch('/api/races')
+        if (res.ok) setRaces((await res.json()).races || [])
+      } catch (err) {
+        console.error('Error fetching races:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRaces()
+  }, [])
+
+  const raceOptions = useMemo(
+    () => races
+      .filter((race) => !value.some((picked) => picked.id === race.id))
+      .map((race) => ({
+        value: race.id,
+        label: pickedRaceName(race),
+        searchTerms: race.track?.name || '',
+      })),
+    [races, value]
+  )
+
+  const addRace = (raceId: string) => {
+    const race = races.find((r) => r.id === raceId)
+    if (race) onChange([...value, race])
+  }
+
+  const moveRace = (index: number, direction: -1 | 1) => {
+    const next = value.slice()
+    const [race] = next.splice(index, 1)
+    next.splice(index + direction, 0, race)
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.length === 0 && <p className="text-sm text-muted-foreground">{emptyText}</p>}
+      <div className="space-y-1">
+        {value.map((race, index) => (
+          <div key={race.id} className="flex items-center gap-2 px-3 py-1.5 border border-border rounded text-sm">
+            <span className="font-mono text-xs text-muted-foreground w-8 shrink-0">R{index + 1}</span>
+            <span className="flex-1 min-w-0 truncate">
+              {pickedRaceName(race)}
+              {race.name && race.track && (
+                <span className="text-muted-foreground"> · {race.track.name}</span>
+              )}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              aria-label={`Move ${pickedRaceName(race)} up`}
+              disabled={index === 0}
+              onClick={() => moveRace(index, -1)}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              aria-label={`Move ${pickedRaceName(race)} down`}
+              disabled={index === value.length - 1}
+              onClick={() => moveRace(index, 1)}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+              aria-label={`Remove ${pickedRaceName(race)}`}
+              onClick={() => onChange(value.filter((r) => r.id !== race.id))}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <SearchableComboBox
+        options={raceOptions}
+        value=""
+        onValueChange={addRace}
+        placeholder="Add a race..."
+        searchPlaceholder="Search races..."
+        emptyText="No races found."
+        isLoading={loading}
+        className="min-h-[44px]"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+/**
+ * Race Lobby Card Component
+ *
+ * Purpose: The lobby preset of a race - what the host sets the GT7 room up with
+ * - Shows the linked preset's key settings (or "No lobby preset")
+ * - Race creator / admin: pick a saved preset, unlink it, or create a new one for the race
+ * - Preset creator / admin: edit the linked preset (changes every race using it)
+ *
+ * **Data Flow:**
+ * 1. canEdit: GET /api/lobby-settings → preset picker options
+ * 2. Pick / unlink: PATCH /api/races/[id] { lobbySettingsId } → onChange(preset | null)
+ * 3. New preset: POST /api/lobby-settings (dialog), then linked like a pick
+ * 4. Edit preset: PATCH /api/lobby-settings/[id] (dialog) → onChange(preset)
+ *
+ * **Props:**
+ * - raceId: Race to link the preset to
+ * - lobbySettings: Linked preset (race.lobbySettings from GET /api/races/[id])
+ * - canEdit: Race creator or admin (same rule as PATCH /api/races/[id])
+ * - currentUser: For the preset edit check
+ * - onChange: Called with the newly linked / edited preset (null = unlinked)
+ *
+ * **Related Files:**
+ * - @/components/lobby-settings/lobby-settings-badges.tsx: Summary
+ * - @/components/lobby-settings/lobby-settings-form-dialog.tsx: Create / edit dialog
+ * - @/app/lobby-settings/page.tsx: All presets
+ * - @/app/races/[id]/page.tsx: Race page
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { SearchableComboBox } from '@/components/ui/searchable-combobox'
+import { LobbySettingsBadges } from '@/components/lobby-settings/lobby-settings-badges'
+import { LobbySettingsFormDialog } from '@/components/lobby-settings/lobby-settings-form-dialog'
+import { Edit, Gamepad2, Plus, Unlink } from 'lucide-react'
+import type { DbLobbySettings } from '@/types/database'
+
+interface RaceLobbyCardProps {
+  raceId: string
+  lobbySettings: DbLobbySettings | null
+  canEdit: boolean
+  currentUser: { id: string; role: string } | null
+  onChange: (lobbySettings: DbLobbySettings | null) => void
+}
+
+export function RaceLobbyCard({ raceId, lobbySettings, canEdit, currentUser, onChange }: RaceLobbyCardProps) {
+  const [presets, setPresets] = useState<(DbLobbySettings & { raceCount: number })[]>([])
+  const [dialog, setDialog] = useState<'create' | 'edit' | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // ============================================================
+  // DATA FETCHING
+  // ============================================================
+
+  const fetchPresets = async () => {
+    try {
+      const res = await fetch('/api/lobby-settings')
+      if (!res.ok) throw new Error('Failed to fetch lobby presets')
+      const data = await res.json()
+      setPresets(data.lobbySettings || [])
+    } catch (err) {
+      console.error('Error fetching lobby presets:', err)
+    }
+  }
+
+  useEffect(() => {
+    if (canEdit) fetchPresets()
+  }, [canEdit])
+
+  // ============================================================
+  // ACTIONS
+  // ============================================================
+
+  // Link a preset to the race (null = unlink)
+  const linkPreset = async (preset: DbLobbySettings | null) => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/races/${raceId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lobbySettingsId: preset?.id ?? null }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to update the lobby preset')
+
+      onChange(preset)
+      fetchPresets()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the lobby preset')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const canEditPreset = Boolean(
+    lobbySettings && currentUser && (currentUser.id === lobbySettings.createdById || currentUser.role === 'ADMIN')
+  )
+  const linkedCount = presets.find((preset) => preset.id === lobbySettings?.id)?.raceCount ?? 1
+
+  // Nothing to show to viewers when no preset is linked
+  if (!lobbySettings && !canEdit) return null
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gamepad2 className="h-5 w-5" />
+          Lobby Settings
+        </CardTitle>
+        <CardDescription>
+          {lobbySettings ? lobbySettings.name : 'No lobby preset - pick one so the host can set the room up quickly'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <LobbySettingsBadges settings={lobbySettings} showName={false} />
+
+        {canEdit && (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <SearchableComboBox
+              options={presets.map((preset) => ({ value: preset.id, label: preset.name }))}
+              value={lobbySettings?.id ?? ''}
+              onValueChange={(id) => {
+                const preset = presets.find((p) => p.id === id)
+                if (preset && preset.id !== lobbySettings?.id) linkPreset(preset)
+              }}
+              placeholder="Choose a preset..."
+              searchPlaceholder="Search presets..."
+              emptyText="No presets yet"
+              disabled={saving}
+              className="sm:max-w-xs"
+            />
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => setDialog('create')} className="min-h-[44px]">
+                <Plus className="h-4 w-4 mr-2" />
+                New Preset
+              </Button>
+              {canEditPreset && (
+                <Button variant="outline" size="sm" onClick={() => setDialog('edit')} className="min-h-[44px]">
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit Preset
+                </Button>
+              )}
+              {lobbySettings && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => linkPreset(null)}
+                  disabled={saving}
+                  className="min-h-[44px]"
+                >
+                  <Unlink className="h-4 w-4 mr-2" />
+                  Unlink
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <Link href="/lobby-settings" className="inline-block text-sm text-muted-foreground gt-hover-text-link">
+          All lobby presets
+        </Link>
+      </CardContent>
+
+      <LobbySettingsFormDialog
+        preset={dialog === 'edit' ? lobbySettings : null}
+        copyFrom={dialog === 'create' ? lobbySettings : null}
+        raceCount={linkedCount}
+        open={dialog !== null}
+        onOpenChange={(open) => !open && setDialog(null)}
+        onSaved={(preset) => {
+          // Edit (or Save as New from edit) and create all end with the saved preset linked
+          if (preset.id === lobbySettings?.id) {
+            onChange(preset)
+            fetchPresets()
+          } else {
+            linkPreset(preset)
+          }
+        }}
+      />
+    </Card>
+  )
+}
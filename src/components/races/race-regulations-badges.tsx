@@ -0,0 +1,63 @@
+/**
+ * Race Regulations Badges Component
+ *
+ * Purpose: Read-only summary of a race's regulations and any breaches
+ * - One badge per active rule ("PP ≤ 600", "Tyres: RH / RM", "FR / MR")
+ * - Optional issues list (illegal builds / tyre choices) with the reason for each
+ * - Renders nothing for an open race with no issues
+ *
+ * **Props:**
+ * - regulations: Race.regulations (null = open race)
+ * - issues: Breach messages (e.g. regulationIssues from GET /api/races)
+ * - compact: Smaller badges for cards (Tonight)
+ *
+ * **Related Files:**
+ * - @/lib/race-regulations.ts: describeRegulations()
+ * - @/app/races/[id]/page.tsx: Race header
+ * - @/components/tonight/sortable-race-card.tsx: Tonight card
+ */
+
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle, Scale } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { describeRegulations } from '@/lib/race-regulations'
+import type { RaceRegulations } from '@/types/database'
+
+interface RaceRegulationsBadgesProps {
+  regulations: RaceRegulations | null | undefined
+  issues?: string[]
+  compact?: boolean
+}
+
+export function RaceRegulationsBadges({ regulations, issues = [], compact = false }: RaceRegulationsBadgesProps) {
+  const labels = describeRegulations(regulations)
+  if (labels.length === 0 && issues.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      {labels.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Scale className={cn('text-muted-foreground', compact ? 'h-3 w-3' : 'h-4 w-4')} />
+          {labels.map((label) => (
+            <Badge key={label} variant="outline" className={cn(compact && 'text-xs')}>
+              {label}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <ul className={cn('space-y-1 text-destructive', compact ? 'text-xs' : 'text-sm')}>
+          {issues.map((issue) => (
+            <li key={issue} className="flex items-start gap-1.5">
+              <AlertTriangle className={cn('shrink-0 mt-0.5', compact ? 'h-3 w-3' : 'h-4 w-4')} />
+              <span>{issue}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+/**
+ * Race Regulations Form Component
+ *
+ * Purpose: Edit a race's regulations (PP cap, tyres, categories, drive types, manufacturers)
+ * - Used by the new race wizard (step 2, above the build picker) and the race edit page
+ * - Every rule is optional - leaving everything empty means an open race
+ * - Controlled component: parent owns the RaceRegulations object
+ *
+ * **Key Features:**
+ * - PP cap: Numeric input (builds are checked against CarBuild.estimatedPp)
+ * - Tyres / categories / drive types: Toggle chips (nothing selected = any)
+ * - Manufacturers: Searchable dropdown to add, badges to remove
+ *
+ * **Props:**
+ * - value: Current regulations (null = open race)
+ * - onChange: Called with the new regulations
+ * - disabled: Disable all inputs (while saving)
+ *
+ * **Debugging Tips:**
+ * - Manufacturer list empty: GET /api/cars failed (check network tab)
+ * - Builds still flagged after changing rules: BuildSelector re-checks on every change,
+ *   make sure the parent passes the same object to both components
+ *
+ * **Related Files:**
+ * - @/lib/race-regulations.ts: Checks + normalization
+ * - @/components/races/race-regulations-badges.tsx: Read-only summary
+ * - @/components/builds/BuildSelector.tsx: Flags builds that break the rules
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { SearchableComboBox } from '@/components/ui/searchable-combobox'
+import { X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { TYRE_COMPOUND_LABELS } from '@/lib/build-performance'
+import type { RaceRegulations, TyreCompound } from '@/types/database'
+
+// ============================================================
+// OPTIONS
+// ============================================================
+
+const TYRE_OPTIONS = Object.keys(TYRE_COMPOUND_LABELS) as TyreCompound[]
+
+const CATEGORY_OPTIONS = [
+  'N100', 'N200', 'N300', 'N400', 'N500', 'N600', 'N700', 'N800', 'N900', 'N1000',
+  'GR1', 'GR2', 'GR3', 'GR4', 'RALLY', 'KART', 'VISION_GT', 'OTHER',
+]
+
+const DRIVE_TYPE_OPTIONS = ['FF', 'FR', 'MR', 'RR', 'AWD']
+
+interface RaceRegulationsFormProps {
+  value: RaceRegulations | null
+  onChange: (regulations: RaceRegulations) => void
+  disabled?: boolean
+}
+
+// Toggle chip row (tyres, categories, drive types)
+function ChipGroup({
+  options,
+  selected,
+  onToggle,
+  labelFor,
+  disabled,
+}: {
+  options: string[]
+  selected: string[]
+  onToggle: (option: string) => void
+  labelFor?: (option: string) => string
+  disabled?: boolean
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => {
+        const isSelected = selected.includes(option)
+        return (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onToggle(option)}
+            disabled={disabled}
+            aria-pressed={isSelected}
+            className={cn(
+              'px-3 py-1.5 rounded-md border text-xs font-medium transition-colors min-h-[36px]',
+              isSelected
+                ? 'border-primary bg-primary text-primary-foreground'
+                : 'border-border text-muted-foreground gt-hover-card'
+            )}
+          >
+            {labelFor ? labelFor(option) : option}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+export function RaceRegulationsForm({ value, onChange, disabled = false }: RaceRegulationsFormProps) {
+  const regulations = value || {}
+  const [manufacturers, setManufacturers] = useState<string[]>([])
+
+  // Manufacturer options come from the car catalog
+  useEffect(() => {
+    const fetchManufacturers = async () => {
+      try {
+        const response = await fetch('/api/cars')
+        if (!response.ok) throw new Error('Failed to fetch cars')
+        const data = await response.json()
+        const names = new Set<string>((data.cars || []).map((car: { manufacturer: string }) => car.manufacturer))
+        setManufacturers([...names].sort((a, b) => a.localeCompare(b)))
+      } catch (error) {
+        console.error('Error fetching manufacturers:', error)
+      }
+    }
+
+    fetchManufacturers()
+  }, [])
+
+  const manufacturerOptions = useMemo(() => {
+    const chosen = regulations.manufacturers || []
+    return manufacturers
+      .filter((m) => !chosen.includes(m))
+      .map((m) => ({ value: m, label: m }))
+  }, [manufacturers, regulations.manufacturers])
+
+  const toggle = <K extends 'tyres' | 'categories' | 'driveTypes'>(key: K, option: string) => {
+    const current = (regulations[key] || []) as string[]
+    const next = current.includes(option)
+      ? current.filter((o) => o !== option)
+      : [...current, option]
+    onChange({ ...regulations, [key]: next })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="maxPp">PP Cap</Label>
+        <Input
+          id="maxPp"
+          type="number"
+          min="1"
+          step="0.01"
+          placeholder="No cap"
+          value={regulations.maxPp ?? ''}
+          onChange={(e) =>
+            onChange({ ...regulations, maxPp: e.target.value === '' ? null : Number(e.target.value) })
+          }
+          disabled={disabled}
+          className="min-h-[44px] max-w-[200px]"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Allowed Tyres</Label>
+        <ChipGroup
+          options={TYRE_OPTIONS}
+          selected={regulations.tyres || []}
+          onToggle={(option) => toggle('tyres', option)}
+          labelFor={(option) => TYRE_COMPOUND_LABELS[option as TyreCompound]}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Car Categories</Label>
+        <ChipGroup
+          options={CATEGORY_OPTIONS}
+          selected={regulations.categories || []}
+          onToggle={(option) => toggle('categories', option)}
+          labelFor={(option) => option.replace('_', ' ')}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Drive Types</Label>
+        <ChipGroup
+          options={DRIVE_TYPE_OPTIONS}
+          selected={regulations.driveTypes || []}
+          onToggle={(option) => toggle('driveTypes', option)}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Manufacturers</Label>
+        <SearchableComboBox
+          options={manufacturerOptions}
+          value=""
+          onValueChange={(manufacturer) =>
+            manufacturer && onChange({
+              ...regulations,
+              manufacturers: [...(regulations.manufacturers || []), manufacturer],
+            })
+          }
+          placeholder="Any manufacturer"
+          searchPlaceholder="Search manufacturers..."
+          disabled={disabled}
+        />
+        {(regulations.manufacturers || []).length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {regulations.manufacturers!.map((manufacturer) => (
+              <Badge key={manufacturer} variant="secondary" className="flex items-center gap-1">
+                {manufacturer}
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onChange({
+                        ...regulations,
+                        manufacturers: regulations.manufacturers!.filter((m) => m !== manufacturer),
+                      })
+                    }
+                    className="ml-1 gt-hover-icon-btn-destructive rounded-full p-0.5"
+                    aria-label={`Remove ${manufacturer}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Leave a rule empty to allow anything. Builds and tyre choices that break the rules are flagged.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+/**
+ * Race Results Table Component
+ *
+ * Purpose: Read-only finishing order of a completed race
+ * - Full: Every driver - position (or DNF/DNS), car/build, race time, gap to the winner,
+ *   fastest lap (race's fastest marked) and points
+ * - Compact: Podium only (top 3 classified) for the Tonight card
+ *
+ * **Props:**
+ * - results: From GET /api/races/[id]/results (full) or GET /api/races RaceResult (compact),
+ *   already sorted by position for the full table
+ * - compact: Podium only
+ *
+ * **Related Files:**
+ * - @/lib/race-results.ts: Points, status labels, sort order
+ * - @/app/races/[id]/page.tsx: Full table
+ * - @/components/tonight/sortable-race-card.tsx: Podium
+ */
+
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { Medal, Timer } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatLapTime, getTimeDifference } from '@/lib/time'
+import { compareRaceResults, RACE_RESULT_STATUS_LABELS } from '@/lib/race-results'
+import type { RaceResultStatus } from '@/types/database'
+
+export interface RaceResultView {
+  userId: string
+  status: RaceResultStatus
+  position: number | null
+  totalTimeMs?: number | null
+  fastestLapMs?: number | null
+  fastestLap?: boolean
+  points: number
+  user: { id: string; name?: string | null; gamertag: string | null } | null
+  car?: { id: string; name: string; manufacturer: string } | null
+  build?: { id: string; name: string } | null
+}
+
+interface RaceResultsTableProps {
+  results: RaceResultView[]
+  compact?: boolean
+}
+
+const PODIUM_COLORS = ['text-yellow-500', 'text-gray-400', 'text-amber-700']
+
+const driverName = (result: RaceResultView) => result.user?.gamertag || result.user?.name || 'Unknown driver'
+
+export function RaceResultsTable({ results, compact = false }: RaceResultsTableProps) {
+  if (results.length === 0) return null
+
+  // ============================================================
+  // COMPACT (PODIUM)
+  // ============================================================
+
+  if (compact) {
+    const podium = results
+      .filter((result) => result.status === 'FINISHED' && result.position !== null && result.position <= 3)
+      .sort(compareRaceResults)
+    if (podium.length === 0) return null
+
+    return (
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {podium.map((result) => (
+          <span key={result.userId} className="flex items-center gap-1">
+            <Medal className={cn('h-4 w-4', PODIUM_COLORS[result.position! - 1])} />
+            <span className={cn(result.position === 1 && 'font-semibold')}>{driverName(result)}</span>
+          </span>
+        ))}
+      </div>
+    )
+  }
+
+  // ============================================================
+  // FULL TABLE
+  // ============================================================
+
+  const winnerTime = results.find((result) => result.position === 1 && result.status === 'FINISHED')?.totalTimeMs
+
+  return (
+    <div className="space-y-2">
+      {results.map((result) => (
+        <div
+          key={result.userId}
+          className={cn(
+            'flex items-start gap-3 p-3 border rounded-lg',
+            result.position === 1 && result.status === 'FINISHED' ? 'border-primary' : 'border-border',
+            result.status !== 'FINISHED' && 'opacity-70'
+          )}
+        >
+          <div className="w-10 shrink-0 text-center">
+            {result.status === 'FINISHED' && result.position! <= 3 ? (
+              <Medal className={cn('h-6 w-6 mx-auto', PODIUM_COLORS[result.position! - 1])} />
+            ) : (
+              <span className="font-mono font-bold text-muted-foreground">
+                {result.status === 'FINISHED' ? `P${result.position}` : RACE_RESULT_STATUS_LABELS[result.status]}
+              </span>
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold truncate">{driverName(result)}</span>
+              <span className="font-mono font-bold text-primary shrink-0">{result.points} pts</span>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+              <span className="truncate">
+                {result.car ? `${result.car.manufacturer} ${result.car.name}` : 'Car not recorded'}
+                {result.build && ` · ${result.build.name}`}
+              </span>
+              {result.totalTimeMs ? (
+                <span className="font-mono text-xs shrink-0">
+                  {formatLapTime(result.totalTimeMs)}
+                  {winnerTime && result.position !== 1 && ` (${getTimeDifference(result.totalTimeMs, winnerTime)})`}
+                </span>
+              ) : result.status === 'DNF' && result.position !== null ? (
+                <span className="text-xs shrink-0">DNF · P{result.position}</span>
+              ) : null}
+            </div>
+            {result.fastestLapMs && (
+              <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Timer className="h-3 w-3" />
+                <span className="font-mono">{formatLapTime(result.fastestLapMs)}</span>
+                {result.fastestLap && (
+                  <Badge variant="secondary" className="text-xs">Fastest lap</Badge>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -14,6 +14,11 @@
  * - Track info: Name, layout, location with MapPin icon
  * - Builds section: Shows all cars and builds for this race
  * - Race configuration: Laps, weather, track length badges
+ * - Regulations: Rule badges + breaches (illegal builds / tyre choices) with reasons
+ * - Lobby settings: Key settings of the linked lobby preset, so the host can set the room up
+ * - Results: Podium (top 3) once the race is completed (Race.completedAt)
+ * - Race night markers: "Now Racing" (ring + badge) / "Up Next" badge from the night's
+ *   current race pointer - the host's "Race Now" button moves it (every client follows via Realtime)
  * - Description: Optional race description
  * - View details link: Navigates to race detail page
  * - Drag handle: For reordering (only shown when 2+ races)
@@ -78,6 +83,8 @@
  * - Default: gt-card-shine effect, border-primary/20
  * - Hover: border-primary/50, shadow-xl, shadow-primary/10
  * - Dragging: scale-[1.02], z-50, ring-2 ring-primary, opacity-90
+ * - Now racing: ring-2 ring-destructive, border-destructive/60
+ * - Up next: border-primary/60
  * - Group hover: Builds section background changes
  *
  * **Responsive Design:**
@@ -138,6 +145,7 @@ import { CSS } from '@dnd-kit/utilities'
 import Link from 'next/link'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { DragHandle } from '@/components/ui/drag-handle'
 import {
   MapPin,
@@ -145,8 +153,15 @@ import {
   Flag,
   Trophy,
   ChevronRight,
+  Medal,
+  Radio,
+  Play,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { RaceRegulationsBadges } from '@/components/races/race-regulations-badges'
+import { LobbySettingsBadges } from '@/components/lobby-settings/lobby-settings-badges'
+import { RaceResultsTable, type RaceResultView } from '@/components/races/race-results-table'
+import type { DbLobbySettings, RaceRegulations } from '@/types/database'
 
 // ============================================================
 // TYPE DEFINITIONS
@@ -193,6 +208,11 @@ interface Race {
   laps: number | null
   weather: string | null
   isActive: boolean
+  regulations?: RaceRegulations | null
+  regulationIssues?: string[]
+  lobbySettings?: DbLobbySettings | null
+  completedAt?: string | null
+  RaceResult?: RaceResultView[]
   createdAt: string
   updatedAt: string
   track: Track
@@ -202,9 +222,12 @@ interface Race {
 interface SortableRaceCardProps {
   race: Race
   index: number
+  draggable?: boolean // false = no drag handle (race night, not the host)
+  marker?: 'current' | 'up-next' // Race night: being run now / next
+  onSetCurrent?: () => void // Host only: make this the current race
 }
 
-export function SortableRaceCard({ race, index }: SortableRaceCardProps) {
+export function SortableRaceCard({ race, index, draggable = true, marker, onSetCurrent }: SortableRaceCardProps) {
   // ============================================================
   // DRAG AND DROP
   // ============================================================
@@ -243,7 +266,7 @@ export function SortableRaceCard({ race, index }: SortableRaceCardProps) {
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: race.id })
+  } = useSortable({ id: race.id, disabled: !draggable })
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -296,6 +319,9 @@ export function SortableRaceCard({ race, index }: SortableRaceCardProps) {
         className={cn(
           'gt-card-shine h-full border-2 transition-all duration-200 cursor-pointer overflow-hidden',
           'border-primary/20 hover:border-primary/50 hover:shadow-xl hover:shadow-primary/10',
+          // Race night markers
+          marker === 'current' && 'ring-2 ring-destructive border-destructive/60',
+          marker === 'up-next' && 'border-primary/60',
           // Dragging state visual feedback
           isDragging && [
             'shadow-xl scale-[1.02] z-50 ring-2 ring-primary',
@@ -324,6 +350,19 @@ export function SortableRaceCard({ race, index }: SortableRaceCardProps) {
 
                 {/* Race Display Name + Track Info + Laps */}
                 <div className="flex-1 min-w-0">
+                  {/* Race Night Marker */}
+                  {marker === 'current' && (
+                    <Badge variant="destructive" className="gap-1 mb-2">
+                      <Radio className="h-3 w-3 animate-pulse" />
+                      NOW RACING
+                    </Badge>
+                  )}
+                  {marker === 'up-next' && (
+                    <Badge variant="outline" className="gap-1 mb-2 border-primary/60 text-primary">
+                      UP NEXT
+                    </Badge>
+                  )}
+
                   {/* Race Display Name */}
                   {/* Large, bold for prominence */}
                   <h2 className="text-2xl font-bold pr-2">{getDisplayName(race)}</h2>
@@ -366,15 +405,17 @@ export function SortableRaceCard({ race, index }: SortableRaceCardProps) {
               {/* Attributes and listeners from useSortable */}
               {/* Cursor changes to 'grabbing' during drag */}
               {/* Prevents click propagation to avoid triggering card click */}
-              <div
-                {...attributes}
-                {...listeners}
-                className="flex-shrink-0"
-                style={{ cursor: isDragging ? 'grabbing' : 'grab' }}
-                onClick={(e) => e.stopPropagation()}
-              >
-                <DragHandle isDragging={isDragging} />
-              </div>
+              {draggable && (
+                <div
+                  {...attributes}
+                  {...listeners}
+                  className="flex-shrink-0"
+                  style={{ cursor: isDragging ? 'grabbing' : 'grab' }}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <DragHandle isDragging={isDragging} />
+                </div>
+              )}
             </div>
           </div>
 
@@ -466,6 +507,30 @@ export function SortableRaceCard({ race, index }: SortableRaceCardProps) {
               )}
             </div>
 
+            {/* Regulations */}
+            {/* Rule badges + regulationIssues computed by GET /api/races */}
+            <RaceRegulationsBadges
+              regulations={race.regulations}
+              issues={race.regulationIssues}
+              compact
+            />
+
+            {/* Lobby Settings */}
+            {/* Linked preset's key settings - what the host sets the GT7 room up with */}
+            <LobbySettingsBadges settings={race.lobbySettings} compact />
+
+            {/* Results */}
+            {/* Podium once the race is completed - full table on the race page */}
+            {race.completedAt && race.RaceResult && race.RaceResult.length > 0 && (
+              <div className="pt-3 border-t space-y-2">
+                <div className="flex items-center gap-2 text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+                  <Medal className="h-4 w-4" />
+                  <span>Results</span>
+                </div>
+                <RaceResultsTable results={race.RaceResult} compact />
+              </div>
+            )}
+
             {/* Description */}
             {/* Only shown if race.description exists */}
             {/* Border-top separator for visual distinction */}
@@ -478,6 +543,20 @@ export function SortableRaceCard({ race, index }: SortableRaceCardProps) {
               </div>
             )}
 
+            {/* Race Now */}
+            {/* Host only: moves the night's current race pointer to this race */}
+            {onSetCurrent && marker !== 'current' && (
+              <Button
+                variant={marker === 'up-next' ? 'default' : 'outline'}
+                size="sm"
+                onClick={onSetCurrent}
+                className="w-full gap-2 min-h-[44px]"
+              >
+                <Play className="h-4 w-4" />
+                Race Now
+              </Button>
+            )}
+
             {/* View Details CTA */}
             {/* Only this part is clickable, not entire card */}
             {/* Prevents accidental navigation during drag */}
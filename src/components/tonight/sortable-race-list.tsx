@@ -18,6 +18,10 @@
  * - Saving indicator: Shows "Saving new order..." during API call
  * - Auto-save: Changes save automatically after 500ms debounce
  * - Conditional drag handle: Only shows drag handle if 2+ races (canReorder check)
+ * - Live updates: A new initialRaces (Realtime refetch on the page) replaces the list,
+ *   unless this client's own save is pending
+ * - Race night markers: currentRaceId / upNextRaceId highlight cards; onSetCurrent adds the
+ *   host's "Race Now" button
  *
  * **Data Flow:**
  * 1. Component receives initialRaces from parent (Tonight page)
@@ -26,12 +30,14 @@
  * 4. Debounced API call: Waits 500ms before calling API
  * 5. Success: Update with server response
  * 6. Error: Rollback to previousRaces state
+ * 7. Another client changes the races: page refetches → initialRaces → list resyncs
  *
  * **State Management:**
  * - races: Current race order (updated optimistically)
  * - previousRaces: Backup of previous order for rollback
  * - isSaving: Loading state for API call
  * - saveTimeoutRef: Reference to debounced timeout
+ * - savePendingRef: Own reorder waiting or saving - incoming initialRaces are ignored meanwhile
  *
  * **Drag and Drop:**
  * - Library: @dnd-kit/core and @dnd-kit/sortable
@@ -58,6 +64,8 @@
  * - Response: { races: Race[] }
  * - Success: Update races and previousRaces with server response
  * - Error: Rollback to previousRaces, show error in console
+ * - Race night on Tonight: onReorder(raceIds) saves the lineup instead (keeps the local order,
+ *   throws to roll back); reorderable=false hides the drag handles for non-hosts
  *
  * **Saving Indicator:**
  * - Trigger: isSaving state during API call
@@ -117,6 +125,7 @@
  * - Not saving: Check API endpoint is accessible
  * - Rollback not working: Check previousRaces is being set correctly
  * - Debounce not working: Check saveTimeoutRef is being cleared
+ * - Order jumps back after a drag: savePendingRef must stay true until the save finishes
  *
  * **Common Issues:**
  * - Drag not working: Check attributes/listeners on drag handle
@@ -130,6 +139,7 @@
  * - @/components/ui/drag-handle.tsx: Drag handle component
  * - @/app/api/races/reorder/route.ts: API endpoint for reordering
  * - @/app/tonight/page.tsx: Parent page that uses this component
+ * - @/hooks/use-races-realtime.ts: Realtime subscription on the page
  */
 
 'use client'
@@ -152,6 +162,8 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable'
 import { SortableRaceCard } from './sortable-race-card'
+import type { DbLobbySettings, RaceRegulations } from '@/types/database'
+import type { RaceResultView } from '@/components/races/race-results-table'
 
 // ============================================================
 // TYPE DEFINITIONS
@@ -198,6 +210,11 @@ export interface Race {
   laps: number | null
   weather: string | null
   isActive: boolean
+  regulations?: RaceRegulations | null
+  regulationIssues?: string[]
+  lobbySettings?: DbLobbySettings | null
+  completedAt?: string | null
+  RaceResult?: RaceResultView[]
   createdAt: string
   updatedAt: string
   track: Track
@@ -206,9 +223,21 @@ export interface Race {
 
 interface SortableRaceListProps {
   initialRaces: Race[]
+  onReorder?: (raceIds: string[]) => Promise<void>
+  reorderable?: boolean
+  currentRaceId?: string | null
+  upNextRaceId?: string | null
+  onSetCurrent?: (raceId: string) => void
 }
 
-export function SortableRaceList({ initialRaces }: SortableRaceListProps) {
+export function SortableRaceList({
+  initialRaces,
+  onReorder,
+  reorderable = true,
+  currentRaceId,
+  upNextRaceId,
+  onSetCurrent,
+}: SortableRaceListProps) {
   // ============================================================
   // STATE
   // ============================================================
@@ -216,12 +245,14 @@ export function SortableRaceList({ initialRaces }: SortableRaceListProps) {
   // - previousRaces: Backup of previous order for rollback on error
   // - isSaving: Loading state during API call
   // - saveTimeoutRef: Reference to debounced timeout (clears on unmount)
+  // - savePendingRef: True from drop until the save settles
   // ============================================================
 
   const [races, setRaces] = useState<Race[]>(initialRaces)
   const [previousRaces, setPreviousRaces] = useState<Race[]>(initialRaces)
   const [isSaving, setIsSaving] = useState(false)
   const saveTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined)
+  const savePendingRef = useRef(false)
 
   // ============================================================
   // EFFECT CLEANUP
@@ -249,6 +280,20 @@ export function SortableRaceList({ initialRaces }: SortableRaceListProps) {
     }
   }, [])
 
+  // ============================================================
+  // LIVE UPDATES
+  // ============================================================
+  // The page refetches when another client changes the races (Realtime) and passes
+  // the new list down - take it over unless our own reorder is still pending,
+  // otherwise the stale list would undo the drag (the save's echo resyncs us after)
+  // ============================================================
+
+  useEffect(() => {
+    if (savePendingRef.current) return
+    setRaces(initialRaces)
+    setPreviousRaces(initialRaces)
+  }, [initialRaces])
+
   // ============================================================
   // DRAG SENSORS CONFIGURATION
   // ============================================================
@@ -356,9 +401,17 @@ export function SortableRaceList({ initialRaces }: SortableRaceListProps) {
     // - Wait for user to stop dragging
     // - Batch multiple drags into one save
     // - Reduces API calls
+    savePendingRef.current = true
     saveTimeoutRef.current = setTimeout(async () => {
       setIsSaving(true)
       try {
+        // Race night lineup: the page saves it
+        if (onReorder) {
+          await onReorder(newRaces.map((r) => r.id))
+          setPreviousRaces(newRaces)
+          return
+        }
+
         // Call reorder API
         const res = await fetch('/api/races/reorder', {
           method: 'POST',
@@ -393,10 +446,11 @@ export function SortableRaceList({ initialRaces }: SortableRaceListProps) {
         // Optional: Show error toast here
         console.error('Rolling back to previous order')
       } finally {
+        savePendingRef.current = false
         setIsSaving(false)
       }
     }, 500)
-  }, [races, previousRaces])
+  }, [races, previousRaces, onReorder])
 
   // ============================================================
   // DERIVED STATE
@@ -411,7 +465,7 @@ export function SortableRaceList({ initialRaces }: SortableRaceListProps) {
   // - Cleaner: Reduces visual clutter
   // ============================================================
 
-  const canReorder = races.length > 1
+  const canReorder = reorderable && races.length > 1
 
   // ============================================================
   // RENDER
@@ -454,6 +508,9 @@ export function SortableRaceList({ initialRaces }: SortableRaceListProps) {
               key={race.id}
               race={race}
               index={index}
+              draggable={reorderable}
+              marker={race.id === currentRaceId ? 'current' : race.id === upNextRaceId ? 'up-next' : undefined}
+              onSetCurrent={onSetCurrent ? () => onSetCurrent(race.id) : undefined}
             />
           ))}
         </SortableContext>
@@ -0,0 +1,168 @@
+/**
+ * Track Sector Settings Component
+ *
+ * Purpose: Admin control for how many sectors each track is split into
+ * - Pick a track, set 2-10 sectors (or clear to turn sector splits off)
+ * - Tracks with sectors get S1..Sn inputs in LapTimeForm
+ *
+ * **Key Features:**
+ * - Track picker: SearchableComboBox (grouped), configured tracks show their count
+ * - Save: PATCH /api/tracks/[id] { sectorCount }
+ * - Clear: PATCH with sectorCount null (stored splits are kept but hidden)
+ *
+ * **Debugging Tips:**
+ * - 403 on save: Only admins can change track settings
+ * - Count looks unchanged elsewhere: GET /api/tracks is cached for an hour
+ *
+ * **Related Files:**
+ * - @/app/api/tracks/[id]/route.ts: PATCH endpoint
+ * - @/app/admin/settings/page.tsx: Renders this component
+ * - @/lib/sectors.ts: MIN_SECTORS / MAX_SECTORS
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { SearchableComboBox } from '@/components/ui/searchable-combobox'
+import { formatTrackOptions } from '@/lib/dropdown-helpers'
+import { MAX_SECTORS, MIN_SECTORS } from '@/lib/sectors'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import type { DbTrack } from '@/types/database'
+
+export function TrackSectorSettings() {
+  const [tracks, setTracks] = useState<DbTrack[]>([])
+  const [trackId, setTrackId] = useState('')
+  const [countInput, setCountInput] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function loadTracks() {
+      try {
+        const response = await fetch('/api/tracks')
+        const data = await response.json()
+        setTracks(data.tracks || [])
+      } catch (err) {
+        console.error('Error loading tracks:', err)
+        setError('Failed to load tracks')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadTracks()
+  }, [])
+
+  const trackOptions = useMemo(
+    () =>
+      formatTrackOptions(tracks).map((option) => {
+        const count = tracks.find((track) => track.id === option.value)?.sectorCount
+        return count ? { ...option, label: `${option.label} (${count} sectors)` } : option
+      }),
+    [tracks]
+  )
+
+  const configuredCount = tracks.filter((track) => track.sectorCount).length
+
+  const handleTrackChange = (value: string) => {
+    setTrackId(value)
+    setCountInput(String(tracks.find((track) => track.id === value)?.sectorCount || ''))
+    setError(null)
+    setMessage(null)
+  }
+
+  const save = async (sectorCount: number | null) => {
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/tracks/${trackId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sectorCount }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save track sectors')
+      }
+
+      setTracks((prev) => prev.map((track) => (track.id === trackId ? { ...track, ...data.track } : track)))
+      setCountInput(sectorCount ? String(sectorCount) : '')
+      setMessage(sectorCount ? `Saved: ${sectorCount} sectors` : 'Sectors turned off for this track')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save track sectors')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const count = Number(countInput)
+  const countValid = Number.isInteger(count) && count >= MIN_SECTORS && count <= MAX_SECTORS
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Tracks with sectors get optional split inputs when recording lap times, and races on them show
+        sector deltas and a theoretical best. {configuredCount} {configuredCount === 1 ? 'track has' : 'tracks have'}{' '}
+        sectors configured.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-3 items-end">
+        <div className="space-y-2">
+          <Label>Track</Label>
+          <SearchableComboBox
+            options={trackOptions}
+            value={trackId}
+            onValueChange={handleTrackChange}
+            placeholder="Select a track..."
+            searchPlaceholder="Search tracks..."
+            emptyText="No track found."
+            isLoading={loading}
+            grouped
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="sector-count">Sectors</Label>
+          <Input
+            id="sector-count"
+            type="number"
+            min={MIN_SECTORS}
+            max={MAX_SECTORS}
+            value={countInput}
+            onChange={(e) => setCountInput(e.target.value)}
+            disabled={!trackId || saving}
+            className="w-24"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => save(count)} disabled={!trackId || !countValid || saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => save(null)}
+            disabled={!trackId || saving || !tracks.find((track) => track.id === trackId)?.sectorCount}
+          >
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-lg">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          {error}
+        </div>
+      )}
+      {message && <p className="text-sm text-accent">{message}</p>}
+    </div>
+  )
+}
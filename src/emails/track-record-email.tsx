@@ -0,0 +1,110 @@
+import { Text } from '@react-email/components'
+import { BaseEmail } from './base-email'
+import { Badge } from './components/badge'
+import { Card } from './components/card'
+import { colors, spacing, fonts } from './constants'
+
+export interface TrackRecordEmailRecord {
+  scope: string
+  time: string
+  previousTime: string
+  previousHolder: string
+  gap: string
+}
+
+export interface TrackRecordEmailProps {
+  driverName: string
+  trackName: string
+  carName: string
+  buildName: string | null
+  records: TrackRecordEmailRecord[]
+}
+
+export function TrackRecordEmail({ driverName, trackName, carName, buildName, records }: TrackRecordEmailProps) {
+  return (
+    <BaseEmail
+      previewText={`${driverName} broke the ${trackName} record`}
+      heading="New Track Record"
+    >
+      <Text
+        style={{
+          color: colors.foreground,
+          fontSize: '15px',
+          lineHeight: '1.6',
+          fontFamily: fonts.sans,
+          marginTop: 0,
+          marginBottom: spacing.md,
+        }}
+      >
+        <strong>{driverName}</strong> just set a new record at <strong>{trackName}</strong>.
+      </Text>
+
+      {records.map((record) => (
+        <Card key={record.scope} titleColor="success" title={`${record.scope} record`}>
+          <Text
+            style={{
+              color: colors.foreground,
+              fontSize: '20px',
+              fontWeight: '600',
+              fontFamily: fonts.mono,
+              margin: `0 0 ${spacing.sm} 0`,
+            }}
+          >
+            {record.time}
+          </Text>
+
+          <Badge variant="success">{record.gap}</Badge>
+
+          <Text
+            style={{
+              color: colors.muted,
+              fontSize: '14px',
+              fontFamily: fonts.sans,
+              marginTop: spacing.sm,
+              marginBottom: 0,
+            }}
+          >
+            <strong>Previous record:</strong> {record.previousTime} by {record.previousHolder}
+          </Text>
+        </Card>
+      ))}
+
+      <Card title="Car">
+        <Text
+          style={{
+            color: colors.foreground,
+            fontSize: '14px',
+            fontFamily: fonts.sans,
+            margin: 0,
+          }}
+        >
+          {carName}
+        </Text>
+
+        <Text
+          style={{
+            color: colors.muted,
+            fontSize: '14px',
+            fontFamily: fonts.sans,
+            marginTop: spacing.sm,
+            marginBottom: 0,
+          }}
+        >
+          <strong>Build:</strong> {buildName || 'No build'}
+        </Text>
+      </Card>
+
+      <Text
+        style={{
+          color: colors.muted,
+          fontSize: '13px',
+          fontFamily: fonts.sans,
+          marginTop: spacing.lg,
+          marginBottom: 0,
+        }}
+      >
+        Think you can beat it? Log your lap time on FridayGT.
+      </Text>
+    </BaseEmail>
+  )
+}
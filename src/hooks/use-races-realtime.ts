@@ -0,0 +1,95 @@
+/**
+ * useRacesRealtime Hook
+ *
+ * Real-time hook for subscribing to race changes via Supabase Realtime.
+ * Listens to Race, RaceCar and RaceMember (and RunSession for race nights) and calls
+ * onChange so the page refetches through its API route - the payloads don't carry the
+ * joined data (track, builds, tyres) the pages show.
+ *
+ * Usage:
+ *   useRacesRealtime({ onChange: fetchTonight, raceNights: true })
+ *   useRacesRealtime({ raceId, onChange: refreshMembers })
+ *
+ * Features:
+ * - raceId: Only that race's changes (INSERT/UPDATE filtered; DELETE events can't be
+ *   filtered by Realtime, so every delete triggers a refetch)
+ * - raceNights: Also RunSession - the host's current race pointer, status and lineup
+ *   (set_run_session_races touches the session on every lineup change)
+ * - Bursts (a reorder updates every row) collapse into one onChange call
+ * - Automatic cleanup on unmount
+ *
+ * Debugging Tips:
+ * - No events at all: The tables must be in the supabase_realtime publication and readable
+ *   by anon (see 20261019260000_realtime_races.sql) - the browser client isn't signed in
+ *   to Supabase (auth is NextAuth)
+ * - Own changes echo back: Expected - callers skip the refetch while their own save is pending
+ */
+
+import { useEffect, useId, useRef } from 'react'
+import { createClient } from '@/lib/supabase/client'
+
+interface UseRacesRealtimeOptions {
+  raceId?: string
+  raceNights?: boolean
+  onChange: () => void
+}
+
+// Collapse a burst of row events into one refetch
+const REFETCH_DELAY_MS = 300
+
+export function useRacesRealtime({ raceId, raceNights = false, onChange }: UseRacesRealtimeOptions) {
+  const supabase = createClient()
+  const channelId = useId()
+  const onChangeRef = useRef(onChange)
+  const timeoutRef = useRef<NodeJS.Timeout | undefined>(undefined)
+
+  // Latest callback without resubscribing
+  useEffect(() => {
+    onChangeRef.current = onChange
+  }, [onChange])
+
+  useEffect(() => {
+    let isMounted = true
+
+    const scheduleRefetch = () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current)
+      timeoutRef.current = setTimeout(() => {
+        if (isMounted) onChangeRef.current()
+      }, REFETCH_DELAY_MS)
+    }
+
+    // Column holding the race ID per table (RaceMember columns are lowercase)
+    const tables: Array<[table: string, raceColumn: string]> = [
+      ['Race', 'id'],
+      ['RaceCar', 'raceId'],
+      ['RaceMember', 'raceid'],
+    ]
+
+    let channel = supabase.channel(`races-changes-${raceId ?? 'all'}-${channelId}`)
+
+    for (const [table, raceColumn] of tables) {
+      if (raceId) {
+        const filter = `${raceColumn}=eq.${raceId}`
+        channel = channel
+          .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, scheduleRefetch)
+          .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, scheduleRefetch)
+          .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, scheduleRefetch)
+      } else {
+        channel = channel.on('postgres_changes', { event: '*', schema: 'public', table }, scheduleRefetch)
+      }
+    }
+
+    if (raceNights) {
+      channel = channel.on('postgres_changes', { event: '*', schema: 'public', table: 'RunSession' }, scheduleRefetch)
+    }
+
+    channel.subscribe()
+
+    // Cleanup
+    return () => {
+      isMounted = false
+      if (timeoutRef.current) clearTimeout(timeoutRef.current)
+      supabase.removeChannel(channel)
+    }
+  }, [supabase, channelId, raceId, raceNights])
+}
@@ -51,6 +51,10 @@ export type AuditAction =
   | 'DELETE_BUILD'
   | 'DELETE_RACE'
   | 'UPDATE_SETTINGS'
+  | 'UPDATE_TRACK'
+  | 'EDIT_LAP_TIME'
+  | 'RESOLVE_LAP_DISPUTE'
+  | 'REVIEW_LAP_TIME'
 
 /**
  * Log an admin action to the audit log
@@ -0,0 +1,274 @@
+/**
+ * Build Export / Import
+ *
+ * Purpose: Share a build outside the group (or between accounts) as a portable document
+ * - Export: CarBuild → versioned JSON document → compact base64 "setup code"
+ * - Import: setup code / JSON → matched against the Part and TuningSetting catalog
+ *
+ * **Functions Provided:**
+ * - buildExportDocument(): Turn a car + snapshot into an export document
+ * - encodeSetupCode() / decodeSetupCode(): Document ↔ "FGT1.<base64url>" string
+ * - resolveBuildImport(): Match a document against the catalog, reporting misses
+ *
+ * **Portable References:**
+ * - Car by slug (falls back to manufacturer + name)
+ * - Parts by category name + part name
+ * - Settings by section name + setting name (custom gears flagged with custom: true)
+ * - IDs are never exported - they differ between databases
+ *
+ * **Versioning:**
+ * - Document carries `version`; setup code prefix carries it too (FGT1. = version 1)
+ * - Bump BUILD_EXPORT_VERSION and handle the old shape in resolveBuildImport()
+ *   when the format changes - old codes must keep importing
+ *
+ * **Debugging Tips:**
+ * - "Invalid setup code": Code was truncated when copied (check trailing characters)
+ * - Part reported as unmatched: Name differs from Part.name (renamed or inactive part)
+ * - Matching is case-insensitive and ignores surrounding whitespace
+ *
+ * **Related Files:**
+ * - @/lib/build-snapshot.ts: Snapshot loaded for export
+ * - @/lib/validation.ts: BuildExportDocumentSchema, ImportBuildSchema
+ * - @/app/api/builds/[id]/export/route.ts: Export endpoint
+ * - @/app/api/builds/import/route.ts: Import (resolve) endpoint
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { BuildGearField, BuildSnapshot, DbCar } from '@/types/database'
+import type { BuildExportDocument } from '@/lib/validation'
+import { BUILD_GEAR_FIELDS } from '@/lib/build-snapshot'
+
+export const BUILD_EXPORT_FORMAT = 'fridaygt-build' as const
+export const BUILD_EXPORT_VERSION = 1
+const SETUP_CODE_PREFIX = `FGT${BUILD_EXPORT_VERSION}.`
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+/**
+ * Turn a build's car and snapshot into a portable export document
+ *
+ * @param car - Car the build belongs to
+ * @param snapshot - Build snapshot (from loadBuildSnapshot)
+ * @returns Versioned export document (no database IDs)
+ */
+export function buildExportDocument(
+  car: Pick<DbCar, 'slug' | 'manufacturer' | 'name' | 'year'>,
+  snapshot: BuildSnapshot
+): BuildExportDocument {
+  const gears: Partial<Record<BuildGearField, string>> = {}
+  for (const field of BUILD_GEAR_FIELDS) {
+    const value = snapshot.gears[field]
+    if (value) gears[field] = value
+  }
+
+  return {
+    format: BUILD_EXPORT_FORMAT,
+    version: BUILD_EXPORT_VERSION,
+    car: {
+      slug: car.slug,
+      manufacturer: car.manufacturer,
+      name: car.name,
+      year: car.year,
+    },
+    name: snapshot.name,
+    description: snapshot.description,
+    upgrades: snapshot.upgrades.map((u) => ({
+      category: u.category,
+      part: u.part,
+      value: u.value,
+    })),
+    settings: snapshot.settings.map((s) => ({
+      section: s.category,
+      setting: s.setting,
+      value: s.value,
+      ...(s.settingId ? {} : { custom: true }),
+    })),
+    gears,
+  }
+}
+
+/**
+ * Encode an export document as a compact setup code
+ *
+ * @example
+ * ```ts
+ * encodeSetupCode(document) // → "FGT1.eyJmb3JtYXQiOiJmcmlkYXlndC1idWlsZCIs..."
+ * ```
+ */
+export function encodeSetupCode(document: BuildExportDocument): string {
+  return SETUP_CODE_PREFIX + Buffer.from(JSON.stringify(document), 'utf8').toString('base64url')
+}
+
+/**
+ * Decode a setup code back to its (unvalidated) JSON document
+ *
+ * @param code - Setup code as pasted by the user (whitespace tolerated)
+ * @returns Parsed JSON, or null if the code is not a valid setup code
+ */
+export function decodeSetupCode(code: string): unknown | null {
+  const compact = code.replace(/\s+/g, '')
+  const match = compact.match(/^FGT(\d+)\.([A-Za-z0-9_-]+)$/)
+  if (!match) return null
+
+  try {
+    return JSON.parse(Buffer.from(match[2], 'base64url').toString('utf8'))
+  } catch {
+    return null
+  }
+}
+
+// ============================================================
+// IMPORT
+// ============================================================
+// Every upgrade/setting in the document is either matched to a
+// catalog row or reported in `unmatched` - nothing is dropped silently
+// ============================================================
+
+export interface BuildImportIssue {
+  type: 'car' | 'part' | 'setting'
+  category: string | null
+  name: string
+  value: string | null
+  reason: string
+}
+
+export interface ResolvedBuildImport {
+  car: Pick<DbCar, 'id' | 'slug' | 'manufacturer' | 'name' | 'year'> | null
+  name: string
+  description: string | null
+  upgrades: Array<{ partId: string; category: string; part: string; value: string | null }>
+  // settingId is "custom:<name>" for custom gears (same convention as POST /api/builds)
+  settings: Array<{ settingId: string; category: string; setting: string; value: string }>
+  gears: Partial<Record<BuildGearField, string>>
+  unmatched: BuildImportIssue[]
+}
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+// ILIKE as a case-insensitive equals: %, _ and \ from the document match only themselves
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&')
+
+/**
+ * Match an export document against the Car, Part and TuningSetting catalog
+ *
+ * @param supabase - Service role client
+ * @param document - Validated export document
+ * @returns Matched car/upgrades/settings ready for the build form, plus unmatched items
+ */
+export async function resolveBuildImport(
+  supabase: SupabaseClient,
+  document: BuildExportDocument
+): Promise<ResolvedBuildImport> {
+  const unmatched: BuildImportIssue[] = []
+
+  // ----- Car: slug first, then manufacturer + name -----
+  const carColumns = 'id, slug, manufacturer, name, year'
+  let { data: car } = await supabase
+    .from('Car')
+    .select(carColumns)
+    .eq('slug', document.car.slug)
+    .maybeSingle()
+
+  if (!car) {
+    const { data: candidates } = await supabase
+      .from('Car')
+      .select(carColumns)
+      .ilike('manufacturer', escapeLike(document.car.manufacturer))
+      .ilike('name', escapeLike(document.car.name))
+      .limit(1)
+    car = candidates?.[0] ?? null
+  }
+
+  if (!car) {
+    unmatched.push({
+      type: 'car',
+      category: document.car.manufacturer,
+      name: document.car.name,
+      value: document.car.slug,
+      reason: 'Car not found in catalog',
+    })
+  }
+
+  // ----- Catalog -----
+  const [{ data: parts, error: partsError }, { data: settings, error: settingsError }] = await Promise.all([
+    supabase
+      .from('Part')
+      .select('id, name, isActive, category:PartCategory(name)')
+      .eq('isActive', true),
+    supabase
+      .from('TuningSetting')
+      .select('id, name, isActive, section:TuningSection(name)')
+      .eq('isActive', true),
+  ])
+
+  if (partsError) throw partsError
+  if (settingsError) throw settingsError
+
+  const partMap = new Map<string, { id: string; category: string; name: string }>()
+  for (const part of parts || []) {
+    const category = (part.category as unknown as { name: string } | null)?.name || ''
+    partMap.set(`${normalize(category)}:${normalize(part.name)}`, { id: part.id, category, name: part.name })
+  }
+
+  const settingMap = new Map<string, { id: string; section: string; name: string }>()
+  for (const setting of settings || []) {
+    const section = (setting.section as unknown as { name: string } | null)?.name || ''
+    settingMap.set(`${normalize(section)}:${normalize(setting.name)}`, { id: setting.id, section, name: setting.name })
+  }
+
+  // ----- Upgrades -----
+  const upgrades: ResolvedBuildImport['upgrades'] = []
+  for (const upgrade of document.upgrades) {
+    const part = partMap.get(`${normalize(upgrade.category)}:${normalize(upgrade.part)}`)
+    if (!part) {
+      unmatched.push({
+        type: 'part',
+        category: upgrade.category,
+        name: upgrade.part,
+        value: upgrade.value ?? null,
+        reason: 'No matching part in this category',
+      })
+      continue
+    }
+    upgrades.push({ partId: part.id, category: part.category, part: part.name, value: upgrade.value ?? null })
+  }
+
+  // ----- Settings -----
+  const resolvedSettings: ResolvedBuildImport['settings'] = []
+  for (const setting of document.settings) {
+    if (setting.custom) {
+      resolvedSettings.push({
+        settingId: `custom:${setting.setting}`,
+        category: setting.section,
+        setting: setting.setting,
+        value: setting.value,
+      })
+      continue
+    }
+
+    const match = settingMap.get(`${normalize(setting.section)}:${normalize(setting.setting)}`)
+    if (!match) {
+      unmatched.push({
+        type: 'setting',
+        category: setting.section,
+        name: setting.setting,
+        value: setting.value,
+        reason: 'No matching tuning setting in this section',
+      })
+      continue
+    }
+    resolvedSettings.push({ settingId: match.id, category: match.section, setting: match.name, value: setting.value })
+  }
+
+  return {
+    car: car ?? null,
+    name: document.name,
+    description: document.description ?? null,
+    upgrades,
+    settings: resolvedSettings,
+    gears: document.gears,
+    unmatched,
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Partial Build Setups
+ *
+ * Purpose: Copy chosen tuning sections / part categories between builds
+ * - "Copy just the suspension" or "just the LSD" from one build onto other builds
+ * - The same partial setup is what a BuildTemplate stores ("Gr.3 wet baseline")
+ * - Templates aren't tied to a car - parts and settings are global catalog rows
+ *
+ * **Functions Provided:**
+ * - extractPartialSetup(): Cut the chosen sections/categories out of a snapshot
+ * - mergePartialSetup(): Target snapshot with those sections/categories replaced
+ * - applyPartialSetup(): Preview (diff) or apply a partial setup to target builds
+ *
+ * **Overwrite Rules:**
+ * - A chosen section/category is replaced as a whole: target rows in it are removed,
+ *   source rows are added (an empty section in the source clears it on the target)
+ * - Sections and categories that weren't chosen are never touched
+ * - Transmission also copies the gear ratio columns (gear1-20, finalDrive)
+ * - Name, description, tyre size and redline are never copied
+ *
+ * **Debugging Tips:**
+ * - Section not copied: Matching is by CarBuildSetting.category / CarBuildUpgrade.category
+ *   name, which is the TuningSection / PartCategory name at save time
+ * - Target not changed: Preview showed 0 changes - target already had the same values
+ * - 403 on apply: Every target must be owned by the user (or the user is an admin)
+ *
+ * **Related Files:**
+ * - @/lib/build-snapshot.ts: load/apply/diff helpers this builds on
+ * - @/app/api/builds/[id]/copy-setup/route.ts: Build → builds
+ * - @/app/api/build-templates: Template CRUD + apply
+ * - @/components/builds/BuildCopySetupDialog.tsx, BuildApplyTemplateDialog.tsx
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { BuildSnapshot, PartialBuildSetup } from '@/types/database'
+import {
+  applyBuildSnapshot,
+  diffBuildSnapshots,
+  loadBuildSnapshot,
+  type BuildSnapshotDiff,
+} from '@/lib/build-snapshot'
+import { createBuildRevision } from '@/lib/build-revisions'
+import { refreshBuildPerformance } from '@/lib/build-performance'
+import { ForbiddenError, NotFoundError } from '@/lib/api-error-handler'
+
+// Gear ratios belong to this tuning section
+export const TRANSMISSION_SECTION = 'Transmission'
+
+export interface PartialSetupScope {
+  sections: string[]
+  categories: string[]
+}
+
+export interface PartialSetupResult {
+  buildId: string
+  name: string
+  car: string
+  diff: BuildSnapshotDiff
+  applied: boolean
+}
+
+// ============================================================
+// EXTRACT / MERGE
+// ============================================================
+
+/**
+ * Cut the chosen sections and categories out of a full snapshot
+ *
+ * @param snapshot - Source build snapshot
+ * @param scope - TuningSection names and PartCategory names to keep
+ * @returns Partial setup (gears only when Transmission is in scope)
+ */
+export function extractPartialSetup(snapshot: BuildSnapshot, scope: PartialSetupScope): PartialBuildSetup {
+  const sections = [...new Set(scope.sections)]
+  const categories = [...new Set(scope.categories)]
+
+  return {
+    sections,
+    categories,
+    upgrades: snapshot.upgrades.filter((u) => categories.includes(u.category)),
+    settings: snapshot.settings.filter((s) => sections.includes(s.category)),
+    gears: sections.includes(TRANSMISSION_SECTION) ? { ...snapshot.gears } : null,
+  }
+}
+
+/**
+ * Replace the setup's sections and categories on a target snapshot
+ *
+ * @param target - Target build snapshot
+ * @param setup - Partial setup to lay over it
+ * @returns New snapshot (the target is not modified)
+ */
+export function mergePartialSetup(target: BuildSnapshot, setup: PartialBuildSetup): BuildSnapshot {
+  return {
+    ...target,
+    upgrades: [
+      ...target.upgrades.filter((u) => !setup.categories.includes(u.category)),
+      ...setup.upgrades,
+    ],
+    settings: [
+      ...target.settings.filter((s) => !setup.sections.includes(s.category)),
+      ...setup.settings,
+    ],
+    gears: setup.gears ? { ...setup.gears } : target.gears,
+  }
+}
+
+// ============================================================
+// PREVIEW / APPLY
+// ============================================================
+
+/**
+ * Preview or apply a partial setup on several builds
+ *
+ * Every target is checked before anything is written, so a forbidden or
+ * missing target fails the whole request instead of leaving it half applied.
+ * Applied targets get a new revision and a fresh performance estimate.
+ *
+ * @param supabase - Service role client
+ * @param options.setup - Partial setup (from a build or a template)
+ * @param options.targetBuildIds - Builds to overwrite
+ * @param options.userId - Current user (owner check + revision author)
+ * @param options.admin - Admins may overwrite anyone's build
+ * @param options.preview - true = only return the diffs
+ * @returns One result per target, with the overwrite diff
+ * @throws NotFoundError / ForbiddenError for bad targets, Supabase errors on write
+ */
+export async function applyPartialSetup(
+  supabase: SupabaseClient,
+  options: {
+    setup: PartialBuildSetup
+    targetBuildIds: string[]
+    userId: string
+    admin: boolean
+    preview: boolean
+  }
+): Promise<PartialSetupResult[]> {
+  const targetIds = [...new Set(options.targetBuildIds)]
+
+  const { data: targets, error } = await supabase
+    .from('CarBuild')
+    .select('id, userId, name, car:Car(manufacturer, name)')
+    .in('id', targetIds)
+
+  if (error) throw error
+
+  const targetMap = new Map((targets || []).map((t) => [t.id, t]))
+  for (const targetId of targetIds) {
+    const target = targetMap.get(targetId)
+    if (!target) throw new NotFoundError('Build')
+    if (!options.admin && target.userId !== options.userId) {
+      throw new ForbiddenError(`Unauthorized to modify build "${target.name}"`)
+    }
+  }
+
+  const results: PartialSetupResult[] = []
+
+  for (const targetId of targetIds) {
+    const target = targetMap.get(targetId)!
+    const before = await loadBuildSnapshot(supabase, targetId)
+    if (!before) throw new NotFoundError('Build')
+
+    const after = mergePartialSetup(before, options.setup)
+    const diff = diffBuildSnapshots(before, after)
+    const car = target.car as unknown as { manufacturer: string; name: string } | null
+    const applied = !options.preview && diff.totalChanges > 0
+
+    if (applied) {
+      await applyBuildSnapshot(supabase, targetId, after)
+      await createBuildRevision(supabase, { buildId: targetId, createdById: options.userId })
+
+      try {
+        await refreshBuildPerformance(supabase, targetId)
+      } catch (performanceError) {
+        console.error('Error estimating build performance:', performanceError)
+      }
+    }
+
+    results.push({
+      buildId: targetId,
+      name: target.name,
+      car: car ? `${car.manufacturer} ${car.name}` : '',
+      diff,
+      applied,
+    })
+  }
+
+  return results
+}
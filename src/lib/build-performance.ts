@@ -0,0 +1,299 @@
+/**
+ * Build Performance Estimator
+ *
+ * Purpose: Estimate PP, power and weight of a build from its car and selected parts
+ * - Starts from the car's stock numbers (Car.maxPower, Car.weight, Car.pp)
+ * - Stock PP per tyre compound comes from CarStockPerformance (stockperf.csv)
+ * - Applies engine parts, ECU Output Adjustment, Power Restrictor,
+ *   weight reduction stages and Ballast
+ * - Result is stored on CarBuild (estimatedPp/Power/Weight/Tyre) on every save
+ *   so builds can be filtered by PP (and races can enforce a PP cap)
+ *
+ * **Functions Provided:**
+ * - parseTyreCompound(): "Racing: Soft" → 'RS'
+ * - estimateBuildPerformance(): Pure estimate from car + snapshot
+ * - refreshBuildPerformance(): Load build, estimate, store on CarBuild
+ *
+ * **Model:**
+ * - Power = stock × (1 + Σ part gains) × Output Adjustment % × Power Restrictor %
+ *   (one gain per group - e.g. only the biggest turbo counts)
+ * - Weight = stock × (1 - weight reduction %) + Ballast kg
+ * - PP = stock PP on the build's tyres × (power/weight ÷ stock power/weight)^0.3
+ * - Front/rear on different compounds → average of both stock PPs
+ * - No tyres selected → Sports Soft (GT7 stock PP is quoted on SS)
+ *
+ * **Debugging Tips:**
+ * - estimatedPp null: Car has no PP (and no stockperf rows), or the build predates this feature
+ *   and scripts/import-stock-performance.ts (which backfills every build) has not run since
+ * - Power/weight null: Car.maxPower / Car.weight missing for that car
+ * - Numbers are an estimate - GT7's PP formula also uses aero, gearing and tyre width
+ * - Part not counted: Name must match POWER_PARTS / WEIGHT_REDUCTION exactly
+ * - Setting not applied: Read by category + name ("Output Adjustment" is also a
+ *   Nitrous/Overtake setting - only the ECU one scales power)
+ *
+ * **Related Files:**
+ * - @/lib/build-snapshot.ts: loadBuildSnapshot() (parts + settings by name)
+ * - scripts/import-stock-performance.ts: Loads stockperf.csv into CarStockPerformance
+ * - @/app/api/builds/route.ts: ?minPp / ?maxPp filters
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { BuildSnapshot, DbCar, TyreCompound } from '@/types/database'
+import { loadBuildSnapshot } from '@/lib/build-snapshot'
+
+// ============================================================
+// TYRES
+// ============================================================
+
+export const TYRE_COMPOUND_LABELS: Record<TyreCompound, string> = {
+  CH: 'Comfort Hard',
+  CM: 'Comfort Medium',
+  CS: 'Comfort Soft',
+  SH: 'Sports Hard',
+  SM: 'Sports Medium',
+  SS: 'Sports Soft',
+  RH: 'Racing Hard',
+  RM: 'Racing Medium',
+  RS: 'Racing Soft',
+  IM: 'Intermediate',
+  W: 'Heavy Wet',
+  D: 'Dirt',
+  S: 'Snow',
+}
+
+// GT7 quotes stock PP on Sports Soft
+const STOCK_TYRE: TyreCompound = 'SS'
+
+/**
+ * Map a tyre part / setting value to its compound code
+ *
+ * @param name - e.g. "Racing: Soft", "Sports Hard", "Intermediate", "Snow Tyres"
+ * @returns Compound code, or null if the name isn't a tyre
+ */
+export function parseTyreCompound(name: string | null | undefined): TyreCompound | null {
+  if (!name) return null
+  const normalized = name.toLowerCase().replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim()
+
+  if (normalized.includes('intermediate')) return 'IM'
+  if (normalized.includes('wet')) return 'W'
+  if (normalized.startsWith('dirt')) return 'D'
+  if (normalized.startsWith('snow')) return 'S'
+
+  const match = normalized.match(/^(comfort|sports|racing) (hard|medium|soft)$/)
+  if (!match) return null
+  return `${match[1][0].toUpperCase()}${match[2][0].toUpperCase()}` as TyreCompound
+}
+
+// ============================================================
+// PART EFFECTS
+// ============================================================
+// Approximate gains - only the biggest gain in each group counts
+// (a car can only run one turbo, one ECU, one silencer, ...)
+// ============================================================
+
+const POWER_PARTS: Record<string, { group: string; gain: number }> = {
+  'Sports Computer': { group: 'ecu', gain: 0.05 },
+  'Fully Customisable Computer': { group: 'ecu', gain: 0.06 },
+  'Sports Air Filter': { group: 'airFilter', gain: 0.02 },
+  'Racing Air Filter': { group: 'airFilter', gain: 0.04 },
+  'Sports Silencer': { group: 'silencer', gain: 0.03 },
+  'Semi-Racing Silencer': { group: 'silencer', gain: 0.05 },
+  'Racing Silencer': { group: 'silencer', gain: 0.07 },
+  'Race Manifold': { group: 'manifold', gain: 0.04 },
+  'Bore Up': { group: 'boreUp', gain: 0.05 },
+  'Stroke Up': { group: 'strokeUp', gain: 0.05 },
+  'High Lift Camshaft': { group: 'camshaft', gain: 0.04 },
+  'High Compression Pistons': { group: 'pistons', gain: 0.04 },
+  'Titanium Connecting Rods & Pistons': { group: 'rods', gain: 0.03 },
+  'Racing Crank Shaft': { group: 'crank', gain: 0.03 },
+  'Engine Balance Tuning': { group: 'balance', gain: 0.03 },
+  'Polish Ports': { group: 'ports', gain: 0.03 },
+  'Low-RPM Turbocharger': { group: 'forcedInduction', gain: 0.15 },
+  'Medium-RPM Turbocharger': { group: 'forcedInduction', gain: 0.2 },
+  'High-RPM Turbocharger': { group: 'forcedInduction', gain: 0.25 },
+  'Supercharger: Low-End Torque': { group: 'forcedInduction', gain: 0.15 },
+  'Supercharger: High-End Torque': { group: 'forcedInduction', gain: 0.2 },
+  'Sports Intercooler': { group: 'intercooler', gain: 0.03 },
+  'Racing Intercooler': { group: 'intercooler', gain: 0.05 },
+}
+
+// Total reduction at each stage (stages replace each other, they don't stack)
+const WEIGHT_REDUCTION: Record<string, number> = {
+  'Weight Reduction: Stage 1': 0.03,
+  'Weight Reduction: Stage 2': 0.06,
+  'Weight Reduction: Stage 3': 0.09,
+  'Weight Reduction: Stage 4': 0.12,
+  'Weight Reduction: Stage 5': 0.15,
+}
+
+// Exponent applied to the power/weight change (keeps the estimate near GT7 for
+// typical builds: +30% power/weight ≈ +8% PP)
+const PP_EXPONENT = 0.3
+
+// Setting values that mean "not fitted"
+const OFF_VALUES = new Set(['', '0', 'false', 'off', 'no', 'none', 'stock', 'normal'])
+
+// ============================================================
+// ESTIMATE
+// ============================================================
+
+export interface BuildPerformanceEstimate {
+  pp: number | null
+  power: number | null
+  weight: number | null
+  tyre: TyreCompound
+}
+
+type StockCar = Pick<DbCar, 'pp' | 'maxPower' | 'weight'>
+
+// Settings the estimate reads, as "category:setting" (names alone aren't unique)
+const OUTPUT_ADJUSTMENT = 'ECU:Output Adjustment'
+const POWER_RESTRICTOR = 'Performance Adjustment:Power Restrictor'
+const BALLAST = 'Performance Adjustment:Ballast'
+
+/**
+ * Parse a numeric setting value ("85", "85%", "150kg")
+ */
+function parseNumber(value: string | null | undefined): number | null {
+  if (!value) return null
+  const match = value.match(/-?\d+(\.\d+)?/)
+  return match ? parseFloat(match[0]) : null
+}
+
+/**
+ * Estimate a build's PP, power and weight
+ *
+ * @param car - Stock numbers (pp, maxPower, weight)
+ * @param stockPp - Stock PP per tyre compound (may be empty)
+ * @param snapshot - Selected upgrades + settings (names are what's matched)
+ * @returns Estimated PP / power / weight (null where the car has no stock figure)
+ */
+export function estimateBuildPerformance(
+  car: StockCar,
+  stockPp: Partial<Record<TyreCompound, number>>,
+  snapshot: Pick<BuildSnapshot, 'upgrades' | 'settings'>
+): BuildPerformanceEstimate {
+  // Everything fitted, by name (parts + on/off settings such as weight reduction)
+  const fitted = new Set<string>(snapshot.upgrades.map((u) => u.part))
+  const settingValues = new Map<string, string>() // By "category:setting"
+  for (const setting of snapshot.settings) {
+    settingValues.set(`${setting.category}:${setting.setting}`, setting.value)
+    if (!OFF_VALUES.has(setting.value.trim().toLowerCase())) {
+      fitted.add(setting.setting)
+    }
+  }
+
+  // ---- Tyres: Front/Rear settings first, tyre parts as fallback ----
+  const tyreSettings = snapshot.settings
+    .filter((s) => s.category === 'Tyres')
+    .map((s) => parseTyreCompound(s.value))
+    .filter((t): t is TyreCompound => t !== null)
+  const tyreParts = snapshot.upgrades
+    .map((u) => parseTyreCompound(u.part))
+    .filter((t): t is TyreCompound => t !== null)
+  const tyres = tyreSettings.length > 0 ? tyreSettings : tyreParts.slice(0, 1)
+  const tyre = tyres[tyres.length - 1] ?? STOCK_TYRE
+
+  // ---- Power ----
+  const gains = new Map<string, number>()
+  for (const name of fitted) {
+    const effect = POWER_PARTS[name]
+    if (effect && effect.gain > (gains.get(effect.group) ?? 0)) {
+      gains.set(effect.group, effect.gain)
+    }
+  }
+  const totalGain = [...gains.values()].reduce((sum, gain) => sum + gain, 0)
+  const output = parseNumber(settingValues.get(OUTPUT_ADJUSTMENT)) ?? 100
+  const restrictor = parseNumber(settingValues.get(POWER_RESTRICTOR)) ?? 100
+  const power = car.maxPower
+    ? car.maxPower * (1 + totalGain) * (output / 100) * (restrictor / 100)
+    : null
+
+  // ---- Weight ----
+  let reduction = 0
+  for (const name of fitted) {
+    reduction = Math.max(reduction, WEIGHT_REDUCTION[name] ?? 0)
+  }
+  const ballast = parseNumber(settingValues.get(BALLAST)) ?? 0
+  const weight = car.weight ? car.weight * (1 - reduction) + ballast : null
+
+  // ---- PP ----
+  const tyrePps = (tyres.length > 0 ? tyres : [STOCK_TYRE])
+    .map((t) => stockPp[t] ?? (t === STOCK_TYRE ? car.pp : null))
+    .filter((pp): pp is number => pp !== null && pp !== undefined)
+  const basePp = tyrePps.length > 0
+    ? tyrePps.reduce((sum, pp) => sum + pp, 0) / tyrePps.length
+    : null
+
+  let pp: number | null = null
+  if (basePp !== null) {
+    const ratio = power !== null && weight !== null && car.maxPower && car.weight
+      ? (power / weight) / (car.maxPower / car.weight)
+      : 1
+    pp = basePp * Math.pow(ratio, PP_EXPONENT)
+  }
+
+  return {
+    pp: pp !== null ? Math.round(pp * 100) / 100 : null,
+    power: power !== null ? Math.round(power) : null,
+    weight: weight !== null ? Math.round(weight) : null,
+    tyre,
+  }
+}
+
+// ============================================================
+// PERSISTENCE
+// ============================================================
+
+/**
+ * Recompute a build's estimate and store it on CarBuild
+ *
+ * @param supabase - Service role client
+ * @param buildId - CarBuild ID
+ * @returns The stored estimate, or null if the build doesn't exist
+ * @throws Supabase error if a query fails
+ */
+export async function refreshBuildPerformance(
+  supabase: SupabaseClient,
+  buildId: string
+): Promise<BuildPerformanceEstimate | null> {
+  const { data: build, error: buildError } = await supabase
+    .from('CarBuild')
+    .select('carId, car:Car(pp, maxPower, weight)')
+    .eq('id', buildId)
+    .single()
+
+  if (buildError || !build) return null
+
+  const [snapshot, stockResult] = await Promise.all([
+    loadBuildSnapshot(supabase, buildId),
+    supabase
+      .from('CarStockPerformance')
+      .select('tyre, pp')
+      .eq('carId', build.carId),
+  ])
+
+  if (!snapshot) return null
+  if (stockResult.error) throw stockResult.error
+
+  const stockPp: Partial<Record<TyreCompound, number>> = {}
+  for (const row of stockResult.data || []) {
+    stockPp[row.tyre as TyreCompound] = Number(row.pp)
+  }
+
+  const car = build.car as unknown as StockCar
+  const estimate = estimateBuildPerformance(car, stockPp, snapshot)
+
+  const { error: updateError } = await supabase
+    .from('CarBuild')
+    .update({
+      estimatedPp: estimate.pp,
+      estimatedPower: estimate.power,
+      estimatedWeight: estimate.weight,
+      estimatedTyre: estimate.tyre,
+    })
+    .eq('id', buildId)
+
+  if (updateError) throw updateError
+  return estimate
+}
@@ -0,0 +1,124 @@
+/**
+ * Build Revisions
+ *
+ * Purpose: Immutable history of a build's setup
+ * - Every save of a build stores a CarBuildRevision with a full snapshot
+ * - Revisions are numbered per build (1, 2, 3, ...)
+ * - Lap times record the revision they were set on (LapTime.revisionId)
+ *
+ * **Functions Provided:**
+ * - createBuildRevision(): Snapshot the current build and store it as the next revision
+ * - getLatestRevisionId(): ID of the newest revision (for tagging lap times)
+ *
+ * **Revision Numbering:**
+ * - Next number = latest revisionNumber + 1
+ * - UNIQUE (buildId, revisionNumber) guards against two concurrent saves;
+ *   the loser retries once with a fresh number
+ *
+ * **No-op Saves:**
+ * - If the setup is identical to the latest revision, no new revision is stored
+ * - The latest revision is returned instead, so callers always get a revision
+ *
+ * **Debugging Tips:**
+ * - No revisions for old builds: Builds created before revisions existed get
+ *   revision 1 on their next save
+ * - Duplicate key error (23505): Two saves raced twice in a row - retry the save
+ *
+ * **Related Files:**
+ * - @/lib/build-snapshot.ts: Snapshot load/apply/diff helpers
+ * - @/app/api/builds/[id]/revisions: History, diff and restore endpoints
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DbCarBuildRevision } from '@/types/database'
+import { diffBuildSnapshots, loadBuildSnapshot } from '@/lib/build-snapshot'
+
+interface CreateBuildRevisionOptions {
+  buildId: string
+  createdById: string | null
+  restoredFromId?: string | null
+}
+
+async function getLatestRevision(
+  supabase: SupabaseClient,
+  buildId: string
+): Promise<DbCarBuildRevision | null> {
+  const { data, error } = await supabase
+    .from('CarBuildRevision')
+    .select('*')
+    .eq('buildId', buildId)
+    .order('revisionNumber', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as DbCarBuildRevision | null
+}
+
+/**
+ * Snapshot the current state of a build and store it as the next revision
+ *
+ * @param supabase - Service role client
+ * @param options - buildId, createdById, and restoredFromId for restores
+ * @returns The stored revision (or the latest one if nothing changed)
+ * @throws Supabase error if the build cannot be read or the insert fails
+ */
+export async function createBuildRevision(
+  supabase: SupabaseClient,
+  { buildId, createdById, restoredFromId = null }: CreateBuildRevisionOptions
+): Promise<DbCarBuildRevision | null> {
+  const snapshot = await loadBuildSnapshot(supabase, buildId)
+  if (!snapshot) return null
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const latest = await getLatestRevision(supabase, buildId)
+
+    // Skip no-op saves (restores always get their own entry in the timeline)
+    if (latest && !restoredFromId && diffBuildSnapshots(latest.snapshot, snapshot).totalChanges === 0) {
+      return latest
+    }
+
+    const { data, error } = await supabase
+      .from('CarBuildRevision')
+      .insert({
+        id: crypto.randomUUID(),
+        buildId,
+        revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+        snapshot,
+        createdById,
+        restoredFromId,
+        createdAt: new Date().toISOString(),
+      })
+      .select('*')
+      .single()
+
+    if (!error) return data as DbCarBuildRevision
+
+    // Unique violation: another save took this number - retry once
+    if (error.code !== '23505' || attempt === 1) throw error
+  }
+
+  return null
+}
+
+/**
+ * ID of the newest revision of a build
+ *
+ * @param supabase - Service role client
+ * @param buildId - CarBuild ID
+ * @returns Revision ID, or null if the build has no revisions yet
+ */
+export async function getLatestRevisionId(
+  supabase: SupabaseClient,
+  buildId: string
+): Promise<string | null> {
+  const { data } = await supabase
+    .from('CarBuildRevision')
+    .select('id')
+    .eq('buildId', buildId)
+    .order('revisionNumber', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return data?.id ?? null
+}
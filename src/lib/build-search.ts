@@ -0,0 +1,114 @@
+/**
+ * Build Search
+ *
+ * Purpose: Shared pieces of the server-side build search (GET /api/builds/search)
+ * - The search itself runs in the search_builds() Postgres function (one round trip for
+ *   matches, sorting, pagination and facet counts)
+ * - Free text is turned into a prefix tsquery here, so "porsch 91" finds "Porsche 911 RSR"
+ *
+ * **Functions Provided:**
+ * - toBuildSearchQuery(): User input → to_tsquery('simple') string (null when nothing searchable)
+ * - toPaginationMeta(): total/page/limit → ApiPaginationMeta
+ *
+ * **Debugging Tips:**
+ * - Punctuation-only input returns null, so the search runs unfiltered instead of erroring
+ * - Only name, description, car manufacturer and car name are searched - creator names
+ *   are a facet (creator) rather than free text
+ *
+ * **Related Files:**
+ * - supabase/migrations/20261019140000_build_search.sql: search_builds()
+ * - @/app/api/builds/search/route.ts: Endpoint
+ * - @/lib/validation.ts: BuildSearchQuerySchema
+ */
+
+import type { ApiPaginatedResponse, ApiPaginationMeta } from '@/types/api'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export const BUILD_SEARCH_SORTS = ['recent', 'races', 'fastest'] as const
+
+export type BuildSearchSort = (typeof BUILD_SEARCH_SORTS)[number]
+
+export const BUILD_SEARCH_SORT_LABELS: Record<BuildSearchSort, string> = {
+  recent: 'Most recent',
+  races: 'Most used in races',
+  fastest: 'Fastest lap',
+}
+
+export interface BuildSearchFacetValue {
+  value: string
+  label: string
+  count: number
+}
+
+export interface BuildSearchFacets {
+  manufacturer: BuildSearchFacetValue[]
+  category: BuildSearchFacetValue[]
+  driveType: BuildSearchFacetValue[]
+  creator: BuildSearchFacetValue[]
+}
+
+// Row returned by search_builds() for each build on the requested page
+export interface BuildSearchMatch {
+  id: string
+  raceCount: number
+  fastestLapMs: number | null
+}
+
+// GET /api/builds/search response - data[] is a build row plus the BuildSearchMatch extras
+export interface BuildSearchResponse<T> extends ApiPaginatedResponse<T> {
+  facets: BuildSearchFacets
+}
+
+export interface BuildSearchRpcResult {
+  total: number
+  results: BuildSearchMatch[]
+  facets: BuildSearchFacets
+}
+
+// ============================================================
+// QUERY BUILDING
+// ============================================================
+
+const MAX_SEARCH_TERMS = 8
+
+/**
+ * Turn free text into a prefix-matching tsquery ("gr3 porsch" → "gr3:* & porsch:*")
+ *
+ * Everything except letters and digits is dropped, so user input can never produce
+ * tsquery syntax errors.
+ *
+ * @param search - Raw search box input
+ * @returns tsquery string, or null if there's nothing to search for
+ */
+export function toBuildSearchQuery(search: string | null | undefined): string | null {
+  if (!search) return null
+
+  const terms = search
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_SEARCH_TERMS)
+
+  if (terms.length === 0) return null
+
+  return terms.map((term) => `${term}:*`).join(' & ')
+}
+
+/**
+ * Pagination metadata for ApiPaginatedResponse
+ */
+export function toPaginationMeta(total: number, page: number, limit: number): ApiPaginationMeta {
+  const totalPages = Math.max(1, Math.ceil(total / limit))
+
+  return {
+    page,
+    limit,
+    total,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPreviousPage: page > 1,
+  }
+}
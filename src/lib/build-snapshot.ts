@@ -0,0 +1,284 @@
+/**
+ * Build Snapshot Utilities
+ *
+ * Purpose: Read, write and compare the full setup of a CarBuild as one value
+ * - A snapshot is: name, description, upgrades (parts), settings (tuning) and gear ratios
+ * - Used by build revisions (history, diff, restore)
+ *
+ * **Functions Provided:**
+ * - loadBuildSnapshot(): Read the current setup of a build from the database
+ * - applyBuildSnapshot(): Overwrite a build's parts, settings and gears with a snapshot
+ * - diffBuildSnapshots(): Field-by-field diff between two snapshots
+ * - getGearLabel(): Display label for a gear column ("1st Gear", "Final Drive")
+ *
+ * **Snapshot Storage:**
+ * - Upgrades keep partId + category/part names (names survive catalog renames)
+ * - Settings keep settingId + category/setting names
+ * - Gears are the text columns gear1-gear20 + finalDrive (formatting preserved)
+ *
+ * **Debugging Tips:**
+ * - Empty diff after a save: Snapshot arrays are sorted, order changes are not diffs
+ * - Restored build missing parts: Check Part rows still exist (FK is ON DELETE RESTRICT)
+ * - Gear diff shows "-": Gear was null in one of the snapshots
+ *
+ * **Related Files:**
+ * - @/lib/build-revisions.ts: Revision persistence built on these helpers
+ * - @/types/database.ts: BuildSnapshot, BuildGearField types
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { BuildGearField, BuildSnapshot } from '@/types/database'
+
+// ============================================================
+// GEAR FIELDS
+// ============================================================
+// Gear ratios are stored directly on CarBuild as TEXT columns
+// Order matters: gears 1-20 first, final drive last (GT7 menu order)
+// ============================================================
+
+export const BUILD_GEAR_FIELDS: BuildGearField[] = [
+  'gear1', 'gear2', 'gear3', 'gear4', 'gear5',
+  'gear6', 'gear7', 'gear8', 'gear9', 'gear10',
+  'gear11', 'gear12', 'gear13', 'gear14', 'gear15',
+  'gear16', 'gear17', 'gear18', 'gear19', 'gear20',
+  'finalDrive',
+]
+
+/**
+ * Display label for a gear column
+ *
+ * @param field - Gear column name (gear1-gear20, finalDrive)
+ * @returns Label such as "1st Gear", "12th Gear" or "Final Drive"
+ */
+export function getGearLabel(field: BuildGearField): string {
+  if (field === 'finalDrive') return 'Final Drive'
+
+  const n = parseInt(field.replace('gear', ''), 10)
+  const suffix = n % 10 === 1 && n !== 11 ? 'st'
+    : n % 10 === 2 && n !== 12 ? 'nd'
+    : n % 10 === 3 && n !== 13 ? 'rd'
+    : 'th'
+  return `${n}${suffix} Gear`
+}
+
+// ============================================================
+// LOAD SNAPSHOT
+// ============================================================
+
+/**
+ * Read the current setup of a build
+ *
+ * @param supabase - Service role client
+ * @param buildId - CarBuild ID
+ * @returns Snapshot, or null if the build does not exist
+ */
+export async function loadBuildSnapshot(
+  supabase: SupabaseClient,
+  buildId: string
+): Promise<BuildSnapshot | null> {
+  const [buildResult, upgradesResult, settingsResult] = await Promise.all([
+    supabase
+      .from('CarBuild')
+      .select(['name', 'description', ...BUILD_GEAR_FIELDS].join(', '))
+      .eq('id', buildId)
+      .single(),
+    supabase
+      .from('CarBuildUpgrade')
+      .select('partId, category, part, value')
+      .eq('buildId', buildId),
+    supabase
+      .from('CarBuildSetting')
+      .select('settingId, category, setting, value')
+      .eq('buildId', buildId),
+  ])
+
+  if (buildResult.error || !buildResult.data) {
+    return null
+  }
+
+  if (upgradesResult.error) throw upgradesResult.error
+  if (settingsResult.error) throw settingsResult.error
+
+  const build = buildResult.data as unknown as Record<string, string | null>
+
+  const gears = {} as Record<BuildGearField, string | null>
+  for (const field of BUILD_GEAR_FIELDS) {
+    gears[field] = build[field] ?? null
+  }
+
+  // Sort so that two snapshots of the same setup are always identical
+  const upgrades = (upgradesResult.data || [])
+    .map((u) => ({
+      partId: u.partId as string,
+      category: u.category as string,
+      part: u.part as string,
+      value: (u.value as string | null) ?? null,
+    }))
+    .sort((a, b) => a.category.localeCompare(b.category) || a.part.localeCompare(b.part))
+
+  const settings = (settingsResult.data || [])
+    .map((s) => ({
+      settingId: (s.settingId as string | null) ?? null,
+      category: s.category as string,
+      setting: s.setting as string,
+      value: s.value as string,
+    }))
+    .sort((a, b) => a.category.localeCompare(b.category) || a.setting.localeCompare(b.setting))
+
+  return {
+    name: build.name || '',
+    description: build.description ?? null,
+    upgrades,
+    settings,
+    gears,
+  }
+}
+
+// ============================================================
+// APPLY SNAPSHOT
+// ============================================================
+// Same delete-and-insert strategy as PATCH /api/builds/[id], in one
+// transaction (apply_build_snapshot) so a failed write leaves the build as it was
+// Name and description are left untouched - only the setup is applied
+// ============================================================
+
+/**
+ * Overwrite a build's parts, tuning settings and gear ratios with a snapshot
+ *
+ * @param supabase - Service role client
+ * @param buildId - CarBuild ID to overwrite
+ * @param snapshot - Setup to apply
+ * @throws Supabase error if the write fails (nothing is applied)
+ */
+export async function applyBuildSnapshot(
+  supabase: SupabaseClient,
+  buildId: string,
+  snapshot: BuildSnapshot
+): Promise<void> {
+  const { error } = await supabase.rpc('apply_build_snapshot', {
+    p_build_id: buildId,
+    p_gears: snapshot.gears,
+    p_upgrades: snapshot.upgrades,
+    p_settings: snapshot.settings,
+  })
+
+  if (error) throw error
+}
+
+// ============================================================
+// DIFF
+// ============================================================
+// Entries are keyed by catalog ID (partId / settingId) so a renamed
+// part is still matched, falling back to "category:name" for rows
+// without an ID (legacy custom gears)
+// ============================================================
+
+export type BuildDiffChange = 'added' | 'removed' | 'changed'
+
+export interface BuildDiffEntry {
+  key: string
+  group: string
+  label: string
+  before: string | null
+  after: string | null
+  change: BuildDiffChange
+}
+
+export interface BuildSnapshotDiff {
+  details: BuildDiffEntry[]
+  parts: BuildDiffEntry[]
+  settings: BuildDiffEntry[]
+  gears: BuildDiffEntry[]
+  totalChanges: number
+}
+
+interface DiffableRow {
+  key: string
+  group: string
+  label: string
+  value: string | null
+}
+
+function diffRows(before: DiffableRow[], after: DiffableRow[]): BuildDiffEntry[] {
+  const beforeMap = new Map(before.map((row) => [row.key, row]))
+  const afterMap = new Map(after.map((row) => [row.key, row]))
+  const entries: BuildDiffEntry[] = []
+
+  for (const row of before) {
+    const next = afterMap.get(row.key)
+    if (!next) {
+      entries.push({ key: row.key, group: row.group, label: row.label, before: row.value, after: null, change: 'removed' })
+    } else if (next.value !== row.value) {
+      entries.push({ key: row.key, group: next.group, label: next.label, before: row.value, after: next.value, change: 'changed' })
+    }
+  }
+
+  for (const row of after) {
+    if (!beforeMap.has(row.key)) {
+      entries.push({ key: row.key, group: row.group, label: row.label, before: null, after: row.value, change: 'added' })
+    }
+  }
+
+  return entries.sort((a, b) => a.group.localeCompare(b.group) || a.label.localeCompare(b.label))
+}
+
+/**
+ * Field-by-field diff between two build snapshots
+ *
+ * @param before - Older snapshot
+ * @param after - Newer snapshot
+ * @returns Changed details, parts, settings and gears (unchanged fields omitted)
+ *
+ * @example
+ * ```ts
+ * const diff = diffBuildSnapshots(revision3.snapshot, revision5.snapshot)
+ * // diff.settings → [{ label: 'Ride Height', before: '80:85', after: '75:80', change: 'changed', ... }]
+ * ```
+ */
+export function diffBuildSnapshots(before: BuildSnapshot, after: BuildSnapshot): BuildSnapshotDiff {
+  const toDetailRows = (snapshot: BuildSnapshot): DiffableRow[] => [
+    { key: 'name', group: 'Details', label: 'Name', value: snapshot.name },
+    { key: 'description', group: 'Details', label: 'Description', value: snapshot.description || null },
+  ]
+
+  // Checkbox parts have no value - show them as "Installed"
+  const toPartRows = (snapshot: BuildSnapshot): DiffableRow[] => snapshot.upgrades.map((u) => ({
+    key: u.partId || `${u.category}:${u.part}`,
+    group: u.category,
+    label: u.part,
+    value: u.value || 'Installed',
+  }))
+
+  const toSettingRows = (snapshot: BuildSnapshot): DiffableRow[] => snapshot.settings.map((s) => ({
+    key: s.settingId || `${s.category}:${s.setting}`,
+    group: s.category,
+    label: s.setting,
+    value: s.value,
+  }))
+
+  // Null gears are "not set" rather than removed rows
+  const toGearRows = (snapshot: BuildSnapshot): DiffableRow[] => BUILD_GEAR_FIELDS
+    .filter((field) => snapshot.gears[field] !== null && snapshot.gears[field] !== undefined)
+    .map((field) => ({
+      key: field,
+      group: 'Transmission',
+      label: getGearLabel(field),
+      value: snapshot.gears[field],
+    }))
+
+  const details = diffRows(toDetailRows(before), toDetailRows(after))
+  const parts = diffRows(toPartRows(before), toPartRows(after))
+  const settings = diffRows(toSettingRows(before), toSettingRows(after))
+
+  // Keep gears in gearbox order instead of alphabetical
+  const gears = diffRows(toGearRows(before), toGearRows(after))
+    .sort((a, b) => BUILD_GEAR_FIELDS.indexOf(a.key as BuildGearField) - BUILD_GEAR_FIELDS.indexOf(b.key as BuildGearField))
+
+  return {
+    details,
+    parts,
+    settings,
+    gears,
+    totalChanges: details.length + parts.length + settings.length + gears.length,
+  }
+}
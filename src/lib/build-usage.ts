@@ -0,0 +1,175 @@
+/**
+ * Build Usage
+ *
+ * Purpose: Aggregate where a build has been raced and how it performed
+ * - Per track: lap count, best, median, conditions split and how the build's best
+ *   ranks against every other build's best at that track
+ * - Per driver: laps set with the build, best lap, tracks, races they were a member of
+ * - Pure functions - the route (GET /api/builds/[id]/usage) does the queries
+ *
+ * **Functions Provided:**
+ * - medianTime(): Median of lap times (mean of the middle two for even counts)
+ * - summarizeTrackUsage(): Per-track stats for the build, most laps first
+ * - summarizeDriverUsage(): Per-driver stats (lap drivers + race members)
+ *
+ * **Debugging Tips:**
+ * - buildRank 1 of 1: No other build has a lap at that track yet
+ * - Driver with 0 laps: Was a member of a race using the build but never set a lap with it
+ * - Conditions "Not specified": LapTime.conditions is NULL
+ *
+ * **Related Files:**
+ * - @/app/api/builds/[id]/usage/route.ts: Endpoint
+ * - @/components/builds/BuildUsage.tsx: Section on /builds/[id]
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export const UNSPECIFIED_CONDITIONS = 'Not specified'
+
+export interface UsageLap {
+  userId: string
+  trackId: string
+  timeMs: number
+  conditions: string | null
+}
+
+// Any build's lap at one of the tracks (for ranking this build against the rest) -
+// the route passes each build's best per track (build_best_laps())
+export interface TrackLap {
+  buildId: string
+  trackId: string
+  timeMs: number
+}
+
+export interface ConditionsUsage {
+  conditions: string
+  lapCount: number
+  bestMs: number
+}
+
+export interface TrackUsage {
+  trackId: string
+  lapCount: number
+  bestMs: number
+  medianMs: number
+  conditions: ConditionsUsage[]
+  trackBestMs: number
+  buildRank: number
+  buildsAtTrack: number
+}
+
+export interface DriverUsage {
+  userId: string
+  lapCount: number
+  bestMs: number | null
+  trackCount: number
+  raceCount: number
+}
+
+// ============================================================
+// AGGREGATION
+// ============================================================
+
+/**
+ * Median lap time, rounded to the millisecond
+ */
+export function medianTime(times: number[]): number {
+  if (times.length === 0) return 0
+
+  const sorted = [...times].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle]
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const group = groups.get(key(item))
+    if (group) {
+      group.push(item)
+    } else {
+      groups.set(key(item), [item])
+    }
+  }
+  return groups
+}
+
+/**
+ * Per-track stats for a build
+ *
+ * @param buildId - Build being analysed
+ * @param laps - Every lap set with the build
+ * @param trackLaps - Every lap (any build) at the tracks in `laps`
+ * @returns One entry per track, most laps first
+ */
+export function summarizeTrackUsage(buildId: string, laps: UsageLap[], trackLaps: TrackLap[]): TrackUsage[] {
+  const lapsByTrack = groupBy(laps, (lap) => lap.trackId)
+  const otherLapsByTrack = groupBy(trackLaps, (lap) => lap.trackId)
+
+  return [...lapsByTrack.entries()]
+    .map(([trackId, trackBuildLaps]) => {
+      const times = trackBuildLaps.map((lap) => lap.timeMs)
+      const bestMs = Math.min(...times)
+
+      const conditions = [...groupBy(trackBuildLaps, (lap) => lap.conditions || UNSPECIFIED_CONDITIONS).entries()]
+        .map(([name, conditionLaps]) => ({
+          conditions: name,
+          lapCount: conditionLaps.length,
+          bestMs: Math.min(...conditionLaps.map((lap) => lap.timeMs)),
+        }))
+        .sort((a, b) => b.lapCount - a.lapCount)
+
+      // Best lap of every build at this track (this build included even if trackLaps is stale)
+      const bestByBuild = new Map<string, number>([[buildId, bestMs]])
+      for (const lap of otherLapsByTrack.get(trackId) || []) {
+        const current = bestByBuild.get(lap.buildId)
+        if (current === undefined || lap.timeMs < current) {
+          bestByBuild.set(lap.buildId, lap.timeMs)
+        }
+      }
+      const buildBests = [...bestByBuild.values()]
+
+      return {
+        trackId,
+        lapCount: trackBuildLaps.length,
+        bestMs,
+        medianMs: medianTime(times),
+        conditions,
+        trackBestMs: Math.min(...buildBests),
+        buildRank: buildBests.filter((time) => time < bestMs).length + 1,
+        buildsAtTrack: buildBests.length,
+      }
+    })
+    .sort((a, b) => b.lapCount - a.lapCount || a.bestMs - b.bestMs)
+}
+
+/**
+ * Per-driver stats for a build
+ *
+ * @param laps - Every lap set with the build
+ * @param raceMemberIds - userId of each RaceMember row in races that used the build
+ * @returns One entry per driver, most laps first
+ */
+export function summarizeDriverUsage(laps: UsageLap[], raceMemberIds: string[]): DriverUsage[] {
+  const lapsByDriver = groupBy(laps, (lap) => lap.userId)
+  const racesByDriver = groupBy(raceMemberIds, (userId) => userId)
+  const userIds = new Set([...lapsByDriver.keys(), ...racesByDriver.keys()])
+
+  return [...userIds]
+    .map((userId) => {
+      const driverLaps = lapsByDriver.get(userId) || []
+      return {
+        userId,
+        lapCount: driverLaps.length,
+        bestMs: driverLaps.length > 0 ? Math.min(...driverLaps.map((lap) => lap.timeMs)) : null,
+        trackCount: new Set(driverLaps.map((lap) => lap.trackId)).size,
+        raceCount: racesByDriver.get(userId)?.length ?? 0,
+      }
+    })
+    .sort((a, b) => b.lapCount - a.lapCount || b.raceCount - a.raceCount)
+}
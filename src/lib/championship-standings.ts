@@ -0,0 +1,286 @@
+/**
+ * Championship Standings
+ *
+ * Purpose: Turn the results of a championship's races into a season table
+ * - Drivers: Points per round (RaceResult.points), worst rounds dropped, ranked by total
+ * - Manufacturers: Points of every driver in that manufacturer's cars, per round (no drops)
+ * - Standings are pure functions - GET /api/championships/[id] does the queries
+ *
+ * **Functions Provided:**
+ * - computeDriverStandings(): Rounds + results → ranked drivers with a per-round breakdown
+ * - computeManufacturerStandings(): Same for manufacturers (Car.manufacturer of the result)
+ * - setChampionshipRounds(): Run set_championship_rounds()
+ *
+ * **Rules:**
+ * - Only completed rounds (Race.completedAt set) count; later rounds show as upcoming
+ * - Drop worst N: Once more than N rounds are completed, each driver's N lowest-scoring
+ *   completed rounds are dropped - missed rounds (0 points) go first, then the lowest
+ *   scores, earliest round first on equal points
+ * - Countback on equal totals: More wins, then more 2nd places, and so on (finishing
+ *   positions of every completed round, dropped or not); still equal = shared position
+ *
+ * **Debugging Tips:**
+ * - Round missing from the totals: The race isn't completed (results provisional or not entered)
+ * - Manufacturer missing: The results were saved without a build (RaceResult.carId NULL)
+ * - Points look wrong: RaceResult.points is stored when the results are saved - re-save
+ *   the race's results after changing its points table
+ *
+ * **Related Files:**
+ * - supabase/migrations/20261019230000_championships.sql: Tables + function
+ * - @/lib/race-results.ts: Where the points come from
+ * - @/app/api/championships/[id]/route.ts: Standings endpoint
+ * - @/app/championships/[id]/page.tsx: Standings page
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { RaceResultStatus } from '@/types/database'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface StandingsRound {
+  round: number
+  raceId: string
+  completed: boolean
+}
+
+export interface StandingsResult {
+  raceId: string
+  userId: string
+  status: RaceResultStatus
+  position: number | null
+  points: number
+  manufacturer: string | null
+}
+
+export interface RoundScore {
+  round: number
+  points: number | null // null = didn't take part (or the round isn't completed yet)
+  position: number | null
+  status: RaceResultStatus | null
+  dropped: boolean
+}
+
+export interface DriverStanding {
+  position: number
+  userId: string
+  total: number // After drops
+  gross: number // Before drops
+  wins: number
+  podiums: number
+  rounds: RoundScore[]
+  tiedOnPoints: boolean // Total shared with another driver (countback decided or shared position)
+}
+
+export interface ManufacturerStanding {
+  position: number
+  manufacturer: string
+  total: number
+  wins: number
+  rounds: { round: number; points: number | null }[]
+  tiedOnPoints: boolean
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+// Finishing-position counts: [wins, 2nds, 3rds, ...] (FINISHED results only)
+function positionCounts(positions: number[]): number[] {
+  const counts: number[] = []
+  for (const position of positions) {
+    counts[position - 1] = (counts[position - 1] || 0) + 1
+  }
+  return Array.from(counts, (count) => count || 0)
+}
+
+// Countback: negative when a has the better record
+function compareCountback(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (b[i] || 0) - (a[i] || 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+// Rank by total then countback; equal on both = shared position (1, 1, 3)
+function rank<T extends { total: number; countback: number[] }>(entries: T[], tiebreak: (a: T, b: T) => number) {
+  const sorted = entries.slice().sort((a, b) => (
+    b.total - a.total || compareCountback(a.countback, b.countback) || tiebreak(a, b)
+  ))
+
+  return sorted.map((entry, index) => {
+    let position = index + 1
+    for (let i = index - 1; i >= 0; i--) {
+      if (sorted[i].total !== entry.total || compareCountback(sorted[i].countback, entry.countback) !== 0) break
+      position = i + 1
+    }
+    const tiedOnPoints = sorted.some((other) => other !== entry && other.total === entry.total)
+    return { entry, position, tiedOnPoints }
+  })
+}
+
+// ============================================================
+// DRIVER STANDINGS
+// ============================================================
+
+/**
+ * Driver table for a championship
+ *
+ * @param rounds - Every round (completed or not), any order
+ * @param results - RaceResult rows of the championship's races
+ * @param dropWorstRounds - Championship.dropWorstRounds
+ * @returns Ranked drivers (only drivers with at least one result in a completed round)
+ */
+export function computeDriverStandings(
+  rounds: StandingsRound[],
+  results: StandingsResult[],
+  dropWorstRounds: number
+): DriverStanding[] {
+  const ordered = rounds.slice().sort((a, b) => a.round - b.round)
+  const completedRaceIds = new Set(ordered.filter((r) => r.completed).map((r) => r.raceId))
+  const completedCount = completedRaceIds.size
+  const drops = completedCount > dropWorstRounds ? dropWorstRounds : 0
+
+  const resultsByUser = new Map<string, Map<string, StandingsResult>>()
+  for (const result of results) {
+    if (!completedRaceIds.has(result.raceId)) continue
+    const byRace = resultsByUser.get(result.userId) ?? new Map<string, StandingsResult>()
+    byRace.set(result.raceId, result)
+    resultsByUser.set(result.userId, byRace)
+  }
+
+  const entries = [...resultsByUser.entries()].map(([userId, byRace]) => {
+    const scores: RoundScore[] = ordered.map((round) => {
+      const result = round.completed ? byRace.get(round.raceId) : undefined
+      return {
+        round: round.round,
+        points: result ? result.points : null,
+        position: result?.position ?? null,
+        status: result?.status ?? null,
+        dropped: false,
+      }
+    })
+
+    // Missed rounds first, then the lowest scores, earliest round first
+    const droppable = scores
+      .filter((score, index) => ordered[index].completed)
+      .sort((a, b) => (
+        (a.points === null ? -1 : a.points) - (b.points === null ? -1 : b.points) || a.round - b.round
+      ))
+    for (const score of droppable.slice(0, drops)) {
+      score.dropped = true
+    }
+
+    const gross = scores.reduce((sum, score) => sum + (score.points ?? 0), 0)
+    const total = scores.reduce((sum, score) => sum + (score.dropped ? 0 : score.points ?? 0), 0)
+    const finishes = [...byRace.values()]
+      .filter((result) => result.status === 'FINISHED' && result.position !== null)
+      .map((result) => result.position!)
+    const countback = positionCounts(finishes)
+
+    return {
+      userId,
+      total,
+      gross,
+      countback,
+      wins: countback[0] || 0,
+      podiums: (countback[0] || 0) + (countback[1] || 0) + (countback[2] || 0),
+      rounds: scores,
+    }
+  })
+
+  return rank(entries, (a, b) => a.userId.localeCompare(b.userId)).map(({ entry, position, tiedOnPoints }) => ({
+    position,
+    userId: entry.userId,
+    total: entry.total,
+    gross: entry.gross,
+    wins: entry.wins,
+    podiums: entry.podiums,
+    rounds: entry.rounds,
+    tiedOnPoints,
+  }))
+}
+
+// ============================================================
+// MANUFACTURER STANDINGS
+// ============================================================
+
+/**
+ * Manufacturer table for a championship
+ *
+ * @param rounds - Every round (completed or not), any order
+ * @param results - RaceResult rows with the manufacturer of the car driven
+ * @returns Ranked manufacturers (results without a car are skipped)
+ */
+export function computeManufacturerStandings(
+  rounds: StandingsRound[],
+  results: StandingsResult[]
+): ManufacturerStanding[] {
+  const ordered = rounds.slice().sort((a, b) => a.round - b.round)
+  const completedRaceIds = new Set(ordered.filter((r) => r.completed).map((r) => r.raceId))
+
+  const byManufacturer = new Map<string, StandingsResult[]>()
+  for (const result of results) {
+    if (!result.manufacturer || !completedRaceIds.has(result.raceId)) continue
+    byManufacturer.set(result.manufacturer, [...(byManufacturer.get(result.manufacturer) || []), result])
+  }
+
+  const entries = [...byManufacturer.entries()].map(([manufacturer, manufacturerResults]) => {
+    const roundPoints = ordered.map((round) => {
+      const inRound = manufacturerResults.filter((result) => result.raceId === round.raceId)
+      return {
+        round: round.round,
+        points: inRound.length > 0 ? inRound.reduce((sum, result) => sum + result.points, 0) : null,
+      }
+    })
+    const countback = positionCounts(
+      manufacturerResults
+        .filter((result) => result.status === 'FINISHED' && result.position !== null)
+        .map((result) => result.position!)
+    )
+
+    return {
+      manufacturer,
+      total: roundPoints.reduce((sum, round) => sum + (round.points ?? 0), 0),
+      countback,
+      wins: countback[0] || 0,
+      rounds: roundPoints,
+    }
+  })
+
+  return rank(entries, (a, b) => a.manufacturer.localeCompare(b.manufacturer)).map(({ entry, position, tiedOnPoints }) => ({
+    position,
+    manufacturer: entry.manufacturer,
+    total: entry.total,
+    wins: entry.wins,
+    rounds: entry.rounds,
+    tiedOnPoints,
+  }))
+}
+
+// ============================================================
+// PERSISTENCE
+// ============================================================
+
+/**
+ * Replace a championship's rounds atomically
+ *
+ * @param supabase - Service role client
+ * @param championshipId - Championship ID
+ * @param raceIds - Races in round order (round 1 first)
+ * @throws Supabase error if the function fails
+ */
+export async function setChampionshipRounds(
+  supabase: SupabaseClient,
+  championshipId: string,
+  raceIds: string[]
+): Promise<void> {
+  const { error } = await supabase.rpc('set_championship_rounds', {
+    p_championship_id: championshipId,
+    p_race_ids: raceIds,
+  })
+
+  if (error) throw error
+}
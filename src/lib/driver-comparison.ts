@@ -0,0 +1,122 @@
+/**
+ * Driver Comparison (Head-to-Head)
+ *
+ * Purpose: Compare two drivers' best laps wherever they have both driven
+ * - Any car: One row per track - each driver's best lap there, whatever the car
+ * - Same car: One row per track + car - only combos both drivers have laps in
+ * - Win/loss/tie counts and the average gap over the compared rows
+ * - Pure function - GET /api/compare/drivers does the queries (it passes only each
+ *   driver's best laps from driver_best_laps(); the result is the same as for all laps)
+ *
+ * **Functions Provided:**
+ * - compareDrivers(): Both drivers' laps → rows + summary
+ *
+ * **Gap Sign:**
+ * - gapMs = driver A's time - driver B's time
+ * - Negative: A was faster, positive: B was faster, 0: tie
+ *
+ * **Debugging Tips:**
+ * - Track missing: Only one of the drivers has a (non-removed) lap there
+ * - Fewer rows with "same car": Both must have driven the exact same car at that track
+ * - Ties on equal best laps keep the earlier-set lap as each driver's best
+ *
+ * **Related Files:**
+ * - @/app/api/compare/drivers/route.ts: Endpoint
+ * - @/app/compare/drivers/page.tsx: Page
+ * - @/lib/leaderboard.ts: Same "best lap per driver" rule for the leaderboards
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type CarMode = 'any' | 'same'
+
+export interface ComparisonLap {
+  id: string
+  userId: string
+  trackId: string
+  carId: string
+  timeMs: number
+  createdAt: string
+}
+
+export interface HeadToHeadRow<T extends ComparisonLap> {
+  trackId: string
+  carId: string | null // Set in "same car" mode
+  lapA: T
+  lapB: T
+  gapMs: number
+}
+
+export interface HeadToHeadSummary {
+  compared: number
+  winsA: number
+  winsB: number
+  ties: number
+  averageGapMs: number | null
+}
+
+// ============================================================
+// COMPARISON
+// ============================================================
+
+function isBetter(lap: ComparisonLap, current: ComparisonLap | undefined): boolean {
+  if (!current) return true
+  return lap.timeMs < current.timeMs || (lap.timeMs === current.timeMs && lap.createdAt < current.createdAt)
+}
+
+/**
+ * Head-to-head rows for two drivers
+ *
+ * @param laps - Laps of both drivers (any order; all of them or just the best per track/car)
+ * @param userA - Driver A's user ID
+ * @param userB - Driver B's user ID
+ * @param carMode - 'any': per track, 'same': per track + car
+ * @returns Rows (unsorted) and the win/loss summary
+ */
+export function compareDrivers<T extends ComparisonLap>(
+  laps: T[],
+  userA: string,
+  userB: string,
+  carMode: CarMode
+): { rows: HeadToHeadRow<T>[]; summary: HeadToHeadSummary } {
+  const bestA = new Map<string, T>()
+  const bestB = new Map<string, T>()
+
+  for (const lap of laps) {
+    const best = lap.userId === userA ? bestA : lap.userId === userB ? bestB : null
+    if (!best) continue
+
+    const key = carMode === 'same' ? `${lap.trackId}:${lap.carId}` : lap.trackId
+    if (isBetter(lap, best.get(key))) {
+      best.set(key, lap)
+    }
+  }
+
+  const rows: HeadToHeadRow<T>[] = []
+  for (const [key, lapA] of bestA) {
+    const lapB = bestB.get(key)
+    if (!lapB) continue
+
+    rows.push({
+      trackId: lapA.trackId,
+      carId: carMode === 'same' ? lapA.carId : null,
+      lapA,
+      lapB,
+      gapMs: lapA.timeMs - lapB.timeMs,
+    })
+  }
+
+  const summary: HeadToHeadSummary = {
+    compared: rows.length,
+    winsA: rows.filter((row) => row.gapMs < 0).length,
+    winsB: rows.filter((row) => row.gapMs > 0).length,
+    ties: rows.filter((row) => row.gapMs === 0).length,
+    averageGapMs: rows.length > 0
+      ? Math.round(rows.reduce((sum, row) => sum + row.gapMs, 0) / rows.length)
+      : null,
+  }
+
+  return { rows, summary }
+}
@@ -5,10 +5,12 @@
  * - sendVerificationEmail: Magic link for user authentication
  * - sendApprovalNotification: User account approval/denial notice
  * - sendUserRemovalNotification: Admin notification when user is deleted
+ * - sendTrackRecordNotification: Member notification when a track record is broken
  *
  * Debugging Tips:
  * - Uses React Email templates for HTML rendering
- * - sendUserRemovalNotification uses Promise.allSettled (partial failure tolerance)
+ * - sendUserRemovalNotification / sendTrackRecordNotification use Promise.allSettled
+ *   (partial failure tolerance)
  * - Check RESEND_API_KEY and EMAIL_FROM env vars if emails fail
  * - Email failures are logged but don't throw (non-blocking)
  */
@@ -18,6 +20,7 @@ import { render } from '@react-email/components'
 import { VerificationEmail } from '@/emails/verification-email'
 import { ApprovalEmail } from '@/emails/approval-email'
 import { UserRemovalEmail } from '@/emails/user-removal-email'
+import { TrackRecordEmail, type TrackRecordEmailProps } from '@/emails/track-record-email'
 
 const resend = new Resend(process.env.RESEND_API_KEY)
 
@@ -78,3 +81,25 @@ export async function sendUserRemovalNotification(adminEmails: string[], removed
     console.error(`Failed to send ${failures.length} of ${adminEmails.length} user removal notifications:`, failures)
   }
 }
+
+export async function sendTrackRecordNotification(memberEmails: string[], record: TrackRecordEmailProps) {
+  const emailHtml = await render(
+    <TrackRecordEmail {...record} />
+  )
+
+  const results = await Promise.allSettled(
+    memberEmails.map((email) =>
+      resend.emails.send({
+        from: process.env.EMAIL_FROM!,
+        to: email,
+        subject: `New ${record.trackName} record - FridayGT`,
+        html: emailHtml,
+      })
+    )
+  )
+
+  const failures = results.filter((r) => r.status === 'rejected')
+  if (failures.length > 0) {
+    console.error(`Failed to send ${failures.length} of ${memberEmails.length} track record notifications:`, failures)
+  }
+}
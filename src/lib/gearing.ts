@@ -0,0 +1,205 @@
+/**
+ * Gearing Calculator
+ *
+ * Purpose: Turn a build's gear ratio text columns into numbers drivers can use
+ * - Top speed in each gear at the redline
+ * - RPM after each upshift (and the drop from redline)
+ * - Flags ratios that can't be parsed or aren't strictly descending
+ *
+ * **Functions Provided:**
+ * - parseTyreSize(): "245/40R18" → overall diameter in mm
+ * - parseRatio(): "3.500" → 3.5 (null for empty / invalid)
+ * - analyzeGearing(): Full per-gear analysis from gears + tyre + redline
+ *
+ * **Formula:**
+ * - Wheel RPM = engine RPM / (gear ratio × final drive)
+ * - Speed (km/h) = wheel RPM × tyre circumference (m) × 60 / 1000
+ * - RPM after upshift = redline × next ratio / current ratio
+ *
+ * **Tyre Size Formats:**
+ * - Metric: "245/40R18", "245/40 ZR18", "245/40-18"
+ * - Plain diameter in mm: "650"
+ *
+ * **Debugging Tips:**
+ * - Speeds missing: Final drive, tyre size and redline are all required
+ * - Speeds ~2x too high/low: Check final drive isn't entered as a gear
+ * - Ignores tyre deformation/wheelspin - real top speed is usually a little lower
+ *
+ * **Related Files:**
+ * - @/components/builds/GearingCalculator.tsx: Transmission section UI
+ * - @/lib/build-snapshot.ts: BUILD_GEAR_FIELDS
+ */
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/**
+ * Parse a tyre size into overall diameter
+ *
+ * @param size - Tyre size ("245/40R18") or diameter in mm ("650")
+ * @returns Diameter in mm, or null if the format isn't recognised
+ */
+export function parseTyreSize(size: string | null | undefined): number | null {
+  if (!size) return null
+  const trimmed = size.trim()
+
+  const metric = trimmed.match(/^(\d{3})\s*\/\s*(\d{2})\s*(?:Z?R|-)\s*(\d{2})$/i)
+  if (metric) {
+    const width = parseInt(metric[1], 10)
+    const aspect = parseInt(metric[2], 10)
+    const rim = parseInt(metric[3], 10)
+    return rim * 25.4 + 2 * width * (aspect / 100)
+  }
+
+  const diameter = trimmed.match(/^\d{3,4}(\.\d+)?$/)
+  if (diameter) {
+    const value = parseFloat(trimmed)
+    return value >= 300 && value <= 1200 ? value : null
+  }
+
+  return null
+}
+
+/**
+ * Parse a gear / final drive ratio stored as text
+ *
+ * @param value - Ratio text ("3.500")
+ * @returns Ratio, or null if empty, non-numeric or not positive
+ */
+export function parseRatio(value: string | null | undefined): number | null {
+  if (!value || value.trim() === '') return null
+  if (!/^\d+(\.\d+)?$/.test(value.trim())) return null
+  const ratio = parseFloat(value)
+  return ratio > 0 ? ratio : null
+}
+
+// ============================================================
+// ANALYSIS
+// ============================================================
+
+export type GearIssue = 'invalid' | 'notDescending' | 'gap'
+
+export interface GearAnalysis {
+  gear: number
+  ratio: number | null
+  raw: string
+  issue: GearIssue | null
+  topSpeedKmh: number | null
+  // RPM when shifting INTO this gear from the previous one at redline
+  rpmAfterShift: number | null
+  rpmDrop: number | null
+}
+
+export interface GearingAnalysis {
+  gears: GearAnalysis[]
+  finalDrive: number | null
+  finalDriveInvalid: boolean
+  tyreDiameterMm: number | null
+  tyreSizeInvalid: boolean
+  redlineRpm: number | null
+  // True when speeds could be computed (final drive, tyre and redline all valid)
+  canComputeSpeeds: boolean
+  issueCount: number
+}
+
+interface GearingInput {
+  gears: Record<string, string | null | undefined>
+  tyreSize: string | null | undefined
+  redlineRpm: string | number | null | undefined
+  gearCount?: number
+}
+
+/**
+ * Speed in km/h at a given engine RPM
+ */
+function speedAt(rpm: number, ratio: number, finalDrive: number, tyreDiameterMm: number): number {
+  const circumferenceM = (Math.PI * tyreDiameterMm) / 1000
+  return (rpm / (ratio * finalDrive)) * circumferenceM * 60 / 1000
+}
+
+/**
+ * Analyse a build's gearing
+ *
+ * @param input - Gear values (gear1..gearN + finalDrive), tyre size, redline, gear count
+ * @returns Per-gear ratios, speeds, RPM drops and issues
+ *
+ * @example
+ * ```ts
+ * const result = analyzeGearing({ gears, tyreSize: '245/40R18', redlineRpm: 8000 })
+ * result.gears[0].topSpeedKmh // → km/h at 8000 RPM in 1st gear
+ * ```
+ */
+export function analyzeGearing({ gears, tyreSize, redlineRpm, gearCount = 20 }: GearingInput): GearingAnalysis {
+  const finalDriveRaw = gears.finalDrive || ''
+  const finalDrive = parseRatio(finalDriveRaw)
+  const tyreDiameterMm = parseTyreSize(tyreSize)
+  const redline = redlineRpm === null || redlineRpm === undefined || redlineRpm === ''
+    ? null
+    : Number(redlineRpm)
+  const validRedline = redline !== null && Number.isFinite(redline) && redline > 0 ? redline : null
+  const canComputeSpeeds = finalDrive !== null && tyreDiameterMm !== null && validRedline !== null
+
+  // Only analyse up to the last gear that has a value
+  let lastGear = 0
+  for (let n = 1; n <= gearCount; n++) {
+    if ((gears[`gear${n}`] || '').trim() !== '') lastGear = n
+  }
+
+  const result: GearAnalysis[] = []
+  let previous: GearAnalysis | null = null
+  // Last gear with a valid ratio - a gear after a gap is still checked against it
+  let lastRatio: number | null = null
+
+  for (let n = 1; n <= lastGear; n++) {
+    const raw = (gears[`gear${n}`] || '').trim()
+    const ratio = parseRatio(raw)
+    const previousRatio = previous?.ratio ?? null
+
+    let issue: GearIssue | null = null
+    if (raw === '') {
+      issue = 'gap'
+    } else if (ratio === null) {
+      issue = 'invalid'
+    } else if (lastRatio !== null && ratio >= lastRatio) {
+      issue = 'notDescending'
+    }
+
+    const topSpeedKmh = canComputeSpeeds && ratio !== null
+      ? speedAt(validRedline!, ratio, finalDrive!, tyreDiameterMm!)
+      : null
+
+    const rpmAfterShift = validRedline !== null && ratio !== null && previousRatio !== null && issue === null
+      ? validRedline * (ratio / previousRatio)
+      : null
+
+    const entry: GearAnalysis = {
+      gear: n,
+      ratio,
+      raw,
+      issue,
+      topSpeedKmh,
+      rpmAfterShift,
+      rpmDrop: rpmAfterShift !== null ? validRedline! - rpmAfterShift : null,
+    }
+    result.push(entry)
+    previous = entry
+    if (ratio !== null) lastRatio = ratio
+  }
+
+  const finalDriveInvalid = finalDriveRaw.trim() !== '' && finalDrive === null
+  const tyreSizeInvalid = !!tyreSize && tyreSize.trim() !== '' && tyreDiameterMm === null
+
+  return {
+    gears: result,
+    finalDrive,
+    finalDriveInvalid,
+    tyreDiameterMm,
+    tyreSizeInvalid,
+    redlineRpm: validRedline,
+    canComputeSpeeds,
+    issueCount: result.filter((g) => g.issue !== null).length
+      + (finalDriveInvalid ? 1 : 0)
+      + (tyreSizeInvalid ? 1 : 0),
+  }
+}
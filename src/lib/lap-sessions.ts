@@ -0,0 +1,117 @@
+/**
+ * Lap Sessions (Stints)
+ *
+ * Purpose: Group laps driven in one sitting so a stint is one entity
+ * - LapSession: One driver, one track, a date, optional race and conditions
+ * - LapTime.sessionId links laps to it; the session's sessionType is copied to its laps
+ * - Stint stats: Average, fastest lap, spread and consistency per session
+ *
+ * **Functions Provided:**
+ * - SESSION_TYPE_LABELS: P/Q/R → Practice/Qualifying/Race
+ * - summarizeStint(): Laps of one session → stint stats
+ * - assignLapsToSession(): Group existing laps into a session (checks owner + track)
+ *
+ * **Debugging Tips:**
+ * - Lap rejected from a session: Different track, or not the driver's own lap
+ * - Lap session type changed: Joining a session overwrites LapTime.sessionType
+ *
+ * **Related Files:**
+ * - @/app/api/lap-sessions/route.ts: List + create
+ * - @/app/api/lap-sessions/[id]/route.ts: Detail, update, group/ungroup laps, delete
+ * - @/app/lap-times/sessions/page.tsx: Sessions page
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DbLapSession } from '@/types/database'
+
+export type SessionType = 'P' | 'Q' | 'R'
+
+export const SESSION_TYPE_LABELS: Record<SessionType, string> = {
+  P: 'Practice',
+  Q: 'Qualifying',
+  R: 'Race',
+}
+
+export interface StintLap {
+  id: string
+  timeMs: number
+}
+
+export interface StintStats {
+  lapCount: number
+  averageMs: number
+  fastestLapId: string
+  fastestMs: number
+  slowestMs: number
+  spreadMs: number
+  stdDevMs: number | null
+}
+
+/**
+ * Stats for the laps of one session
+ *
+ * @param laps - Laps in the session
+ * @returns Stats, or null for an empty session
+ */
+export function summarizeStint(laps: StintLap[]): StintStats | null {
+  if (laps.length === 0) return null
+
+  const fastest = laps.reduce((best, lap) => (lap.timeMs < best.timeMs ? lap : best))
+  const slowestMs = Math.max(...laps.map((lap) => lap.timeMs))
+  const mean = laps.reduce((sum, lap) => sum + lap.timeMs, 0) / laps.length
+  const variance = laps.reduce((sum, lap) => sum + (lap.timeMs - mean) ** 2, 0) / laps.length
+
+  return {
+    lapCount: laps.length,
+    averageMs: Math.round(mean),
+    fastestLapId: fastest.id,
+    fastestMs: fastest.timeMs,
+    slowestMs,
+    spreadMs: slowestMs - fastest.timeMs,
+    stdDevMs: laps.length > 1 ? Math.round(Math.sqrt(variance)) : null,
+  }
+}
+
+/**
+ * Group existing laps into a session
+ * - Only the session owner's laps at the session's track can join
+ * - Joining copies the session's sessionType to the laps
+ *
+ * @param supabase - Service role client
+ * @param session - Target session
+ * @param lapTimeIds - Laps to add
+ * @returns Error message, or null when every lap was added
+ */
+export async function assignLapsToSession(
+  supabase: SupabaseClient,
+  session: Pick<DbLapSession, 'id' | 'userId' | 'trackId' | 'sessionType'>,
+  lapTimeIds: string[]
+): Promise<string | null> {
+  if (lapTimeIds.length === 0) return null
+
+  const { data: laps, error } = await supabase
+    .from('LapTime')
+    .select('id, userId, trackId')
+    .in('id', lapTimeIds)
+
+  if (error) throw error
+
+  const found = new Map((laps || []).map((lap) => [lap.id, lap]))
+  for (const lapTimeId of lapTimeIds) {
+    const lap = found.get(lapTimeId)
+    if (!lap || lap.userId !== session.userId) {
+      return 'You can only add your own lap times to a session'
+    }
+    if (lap.trackId !== session.trackId) {
+      return 'Every lap in a session must be at the session track'
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('LapTime')
+    .update({ sessionId: session.id, sessionType: session.sessionType, updatedAt: new Date().toISOString() })
+    .in('id', lapTimeIds)
+
+  if (updateError) throw updateError
+  return null
+}
@@ -0,0 +1,397 @@
+/**
+ * Lap Time CSV Import / Export
+ *
+ * Purpose: Move lap times in and out of spreadsheets
+ * - Import: CSV text → rows → Track/Car matched by name (fuzzy) → preview → insert
+ * - Export: Lap times → CSV (or JSON) with formatted times
+ *
+ * **Functions Provided:**
+ * - parseCsv() / toCsv(): Minimal RFC 4180 reader/writer (quotes, CRLF, ; or tab delimiters)
+ * - parseLapTimeCsv(): CSV text → LapTimeCsvRow[] (header aliases, missing columns)
+ * - matchCatalogOption(): Fuzzy match a name against dropdown options (label + searchTerms)
+ * - resolveLapTimeCsvRow(): One row → ResolvedLapTimeRow (ready / unmatched / invalid)
+ * - lapTimesToCsv(): Export rows → CSV text
+ *
+ * **Fuzzy Matching:**
+ * - Candidates are formatTrackOptions() / formatCarOptions() options, so a CSV name
+ *   matches the same words the dropdowns search (manufacturer, year, layout, ...)
+ * - Every word of the CSV name must appear in the candidate (prefixes count: "gt3" ↔ "gt3rs")
+ * - Exact label match wins; otherwise the candidate with the fewest extra words
+ * - Partial matches (≥ half the words) are only offered as a suggestion, never imported
+ *
+ * **Debugging Tips:**
+ * - Whole file "missing columns": Header row must have track, car and time (see CSV_COLUMN_ALIASES)
+ * - Forza cars unmatched: Expected - only GT7 cars are in the Car table
+ * - Track matched to the wrong layout: Add a layout column (or "Name - Layout" in track)
+ *
+ * **Related Files:**
+ * - @/lib/dropdown-helpers.ts: Option labels and searchTerms used for matching
+ * - @/app/api/lap-times/import/route.ts: Preview / commit endpoint
+ * - @/app/api/lap-times/export/route.ts: CSV / JSON export endpoint
+ */
+
+import type { ComboBoxOption } from '@/components/ui/searchable-combobox'
+import { formatLapTime, isValidLapTime, parseLapTime } from '@/lib/time'
+import type { OutlierReason } from '@/lib/lap-time-outliers'
+
+// ============================================================
+// CSV READ / WRITE
+// ============================================================
+
+const DELIMITERS = [',', ';', '\t']
+
+/**
+ * Parse CSV text into rows of cells
+ * Delimiter is detected from the first line (comma, semicolon or tab)
+ *
+ * @param text - CSV file contents
+ * @returns Rows of trimmed cells (blank lines dropped)
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  const delimiter = DELIMITERS.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  row.push(cell.trim())
+  rows.push(row)
+
+  return rows.filter((cells) => cells.some((value) => value !== ''))
+}
+
+// Quote cells containing delimiters, quotes or line breaks
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Serialize rows of cells as CSV (comma, CRLF - what spreadsheets expect)
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map((cells) => cells.map(escapeCsvCell).join(',')).join('\r\n')
+}
+
+// ============================================================
+// IMPORT - PARSING
+// ============================================================
+
+export type LapTimeCsvField =
+  | 'track' | 'layout' | 'car' | 'build' | 'time' | 'timeMs' | 'date' | 'session' | 'conditions' | 'notes'
+
+// Header names accepted per field (compared lowercase, spaces/underscores collapsed)
+// Export headers are included so an exported file imports again unchanged
+export const CSV_COLUMN_ALIASES: Record<LapTimeCsvField, string[]> = {
+  track: ['track', 'circuit', 'track name'],
+  layout: ['layout', 'track layout'],
+  car: ['car', 'vehicle', 'car name'],
+  build: ['build', 'build name', 'tune'],
+  time: ['time', 'lap time', 'laptime', 'best lap', 'lap'],
+  timeMs: ['time (ms)', 'time ms', 'timems', 'ms'],
+  date: ['date', 'recorded', 'created at', 'createdat'],
+  session: ['session', 'session type', 'sessiontype'],
+  conditions: ['conditions', 'weather'],
+  notes: ['notes', 'note', 'comment', 'comments'],
+}
+
+const REQUIRED_FIELDS: LapTimeCsvField[] = ['track', 'car', 'time']
+
+export type LapTimeCsvRow = Record<LapTimeCsvField, string> & { line: number }
+
+export interface ParsedLapTimeCsv {
+  rows: LapTimeCsvRow[]
+  missingColumns: LapTimeCsvField[]
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\s]+/g, ' ').trim()
+
+/**
+ * Parse a lap time CSV (first row = header)
+ *
+ * @param text - CSV file contents
+ * @returns Rows keyed by field (line = 1-based line in the file) and required columns
+ *          the header is missing (time is satisfied by either time or time (ms))
+ */
+export function parseLapTimeCsv(text: string): ParsedLapTimeCsv {
+  const [header = [], ...body] = parseCsv(text.replace(/^\uFEFF/, ''))
+  const headers = header.map(normalizeHeader)
+
+  const columnIndex = Object.fromEntries(
+    (Object.keys(CSV_COLUMN_ALIASES) as LapTimeCsvField[]).map((field) => [
+      field,
+      headers.findIndex((name) => CSV_COLUMN_ALIASES[field].includes(name)),
+    ])
+  ) as Record<LapTimeCsvField, number>
+
+  const missingColumns = REQUIRED_FIELDS.filter((field) =>
+    field === 'time' ? columnIndex.time < 0 && columnIndex.timeMs < 0 : columnIndex[field] < 0
+  )
+
+  const rows = body.map((cells, index) => {
+    const row = { line: index + 2 } as LapTimeCsvRow
+    for (const field of Object.keys(columnIndex) as LapTimeCsvField[]) {
+      row[field] = columnIndex[field] >= 0 ? cells[columnIndex[field]] || '' : ''
+    }
+    return row
+  })
+
+  return { rows, missingColumns }
+}
+
+// ============================================================
+// IMPORT - FUZZY MATCHING
+// ============================================================
+
+export interface CatalogMatch {
+  id: string
+  label: string
+  score: number
+}
+
+const tokenize = (value: string) =>
+  value.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').split(/[^a-z0-9]+/).filter(Boolean)
+
+/**
+ * Find the dropdown option a free-text name refers to
+ *
+ * @param query - Name from the CSV (e.g. "Porsche 911 GT3 RS" or "Suzuka - Full Course")
+ * @param options - formatCarOptions() / formatTrackOptions() output
+ * @returns match (every word found) and/or suggestion (best partial match, ≥ 50%)
+ */
+export function matchCatalogOption(
+  query: string,
+  options: ComboBoxOption[]
+): { match: CatalogMatch | null; suggestion: CatalogMatch | null } {
+  const queryTokens = tokenize(query)
+  if (queryTokens.length === 0) return { match: null, suggestion: null }
+
+  const queryKey = queryTokens.join(' ')
+  let best: { option: ComboBoxOption; score: number; exact: boolean; extra: number } | null = null
+
+  for (const option of options) {
+    const labelTokens = tokenize(option.label)
+    const candidateTokens = new Set([...labelTokens, ...tokenize(option.searchTerms || ''), ...tokenize(option.group || '')])
+    const matched = queryTokens.filter((token) =>
+      candidateTokens.has(token) || [...candidateTokens].some((candidate) => token.length >= 2 && candidate.startsWith(token))
+    ).length
+    const score = matched / queryTokens.length
+    const exact = labelTokens.join(' ') === queryKey || tokenize(`${option.group || ''} ${option.label}`).join(' ') === queryKey
+    const extra = labelTokens.length
+
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && exact && !best.exact) ||
+      (score === best.score && exact === best.exact && extra < best.extra)
+    ) {
+      best = { option, score, exact, extra }
+    }
+  }
+
+  if (!best || best.score < 0.5) return { match: null, suggestion: null }
+
+  const result = { id: best.option.value, label: best.option.label, score: best.score }
+  return best.score === 1 ? { match: result, suggestion: null } : { match: null, suggestion: result }
+}
+
+// ============================================================
+// IMPORT - ROW RESOLUTION
+// ============================================================
+
+export type LapTimeImportStatus = 'ready' | 'duplicate' | 'unmatched' | 'invalid'
+
+export interface ResolvedLapTimeRow {
+  line: number
+  status: LapTimeImportStatus
+  issues: string[]
+  input: { track: string; car: string; build: string; time: string }
+  track: CatalogMatch | null
+  car: CatalogMatch | null
+  trackSuggestion: CatalogMatch | null
+  carSuggestion: CatalogMatch | null
+  buildId: string | null
+  buildName: string | null
+  timeMs: number | null
+  createdAt: string | null
+  sessionType: 'P' | 'Q' | 'R'
+  conditions: string | null
+  notes: string | null
+  // Ready rows the outlier check flagged (filled in by the import route, see lap-time-outliers)
+  outlierReasons: OutlierReason[]
+}
+
+export interface LapTimeImportCatalog {
+  trackOptions: ComboBoxOption[]
+  carOptions: ComboBoxOption[]
+  // Importing user's builds (matched by car + name, case-insensitive)
+  builds: { id: string; name: string; carId: string }[]
+}
+
+const SESSION_ALIASES: Record<string, 'P' | 'Q' | 'R'> = {
+  p: 'P', practice: 'P', q: 'Q', qualifying: 'Q', quali: 'Q', r: 'R', race: 'R',
+}
+const CONDITIONS_ALIASES: Record<string, string> = { dry: 'Dry', wet: 'Wet', mixed: 'Mixed', 'mixed conditions': 'Mixed' }
+
+/**
+ * Resolve one CSV row against the catalog
+ * - invalid: time/date/session can't be read (nothing to fix by matching)
+ * - unmatched: track or car not found (suggestions filled when close)
+ * - ready: can be inserted (duplicate is set later by the endpoint)
+ *
+ * @param row - Parsed CSV row
+ * @param catalog - Track/car options and the user's builds
+ * @param now - Reference time (dates in the future are rejected)
+ */
+export function resolveLapTimeCsvRow(
+  row: LapTimeCsvRow,
+  catalog: LapTimeImportCatalog,
+  now: Date = new Date()
+): ResolvedLapTimeRow {
+  const issues: string[] = []
+
+  // Time: mm:ss.sss / ss.sss, or the raw milliseconds column
+  const timeMs = row.time
+    ? parseLapTime(row.time)
+    : /^\d+$/.test(row.timeMs) ? parseInt(row.timeMs, 10) : null
+  if (timeMs === null) {
+    issues.push(`Unreadable time "${row.time || row.timeMs}" (use mm:ss.sss)`)
+  } else if (!isValidLapTime(timeMs)) {
+    issues.push('Lap time must be between 10 seconds and 30 minutes')
+  }
+
+  let createdAt: string | null = null
+  if (row.date) {
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(row.date) ? new Date(`${row.date}T12:00:00Z`) : new Date(row.date)
+    if (isNaN(date.getTime()) || !/^\d{4}-\d{2}-\d{2}/.test(row.date)) {
+      issues.push(`Unreadable date "${row.date}" (use YYYY-MM-DD)`)
+    } else if (date > now) {
+      issues.push('Date is in the future')
+    } else {
+      createdAt = date.toISOString()
+    }
+  }
+
+  const sessionType = row.session ? SESSION_ALIASES[row.session.toLowerCase()] : 'R'
+  if (!sessionType) {
+    issues.push(`Unknown session "${row.session}" (use Q or R)`)
+  }
+
+  if (row.notes.length > 500) {
+    issues.push('Notes must be less than 500 characters')
+  }
+
+  // Track/car matching - layout column is appended to the track name
+  const trackQuery = row.layout ? `${row.track} ${row.layout}` : row.track
+  const trackResult = matchCatalogOption(trackQuery, catalog.trackOptions)
+  const carResult = matchCatalogOption(row.car, catalog.carOptions)
+
+  if (!row.track) issues.push('Track is empty')
+  else if (!trackResult.match) issues.push(`Track "${trackQuery}" not found`)
+  if (!row.car) issues.push('Car is empty')
+  else if (!carResult.match) issues.push(`Car "${row.car}" not found`)
+
+  // Build: optional - linked when the user has a build with that name for the car,
+  // otherwise kept as a name-only snapshot
+  const build = row.build && carResult.match
+    ? catalog.builds.find((candidate) =>
+        candidate.carId === carResult.match!.id && candidate.name.toLowerCase() === row.build.toLowerCase()
+      )
+    : undefined
+
+  const invalid = timeMs === null || !isValidLapTime(timeMs) || (row.date && !createdAt) || !sessionType || row.notes.length > 500
+  const status: LapTimeImportStatus = invalid ? 'invalid' : trackResult.match && carResult.match ? 'ready' : 'unmatched'
+
+  return {
+    line: row.line,
+    status,
+    issues,
+    input: { track: trackQuery, car: row.car, build: row.build, time: row.time || row.timeMs },
+    track: trackResult.match,
+    car: carResult.match,
+    trackSuggestion: trackResult.suggestion,
+    carSuggestion: carResult.suggestion,
+    buildId: build?.id || null,
+    buildName: build?.name || row.build || null,
+    timeMs,
+    createdAt,
+    sessionType: sessionType || 'R',
+    conditions: row.conditions ? CONDITIONS_ALIASES[row.conditions.toLowerCase()] || row.conditions : null,
+    notes: row.notes || null,
+    outlierReasons: [],
+  }
+}
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+export interface LapTimeExportRow {
+  createdAt: string
+  driver: string | null
+  track: string
+  layout: string | null
+  car: string
+  build: string | null
+  timeMs: number
+  sessionType: string | null
+  conditions: string | null
+  notes: string | null
+}
+
+export const LAP_TIME_EXPORT_HEADERS = [
+  'Date', 'Driver', 'Track', 'Layout', 'Car', 'Build', 'Time', 'Time (ms)', 'Session', 'Conditions', 'Notes',
+]
+
+/**
+ * Export rows as CSV (header + one line per lap, times formatted as m:ss.sss)
+ */
+export function lapTimesToCsv(laps: LapTimeExportRow[]): string {
+  return toCsv([
+    LAP_TIME_EXPORT_HEADERS,
+    ...laps.map((lap) => [
+      lap.createdAt.slice(0, 10),
+      lap.driver || '',
+      lap.track,
+      lap.layout || '',
+      lap.car,
+      lap.build || '',
+      formatLapTime(lap.timeMs),
+      String(lap.timeMs),
+      lap.sessionType || '',
+      lap.conditions || '',
+      lap.notes || '',
+    ]),
+  ])
+}
@@ -0,0 +1,87 @@
+/**
+ * Lap Time History & Disputes
+ *
+ * Purpose: Keep lap times trustworthy in a competitive group
+ * - Edits: Every change to a lap is recorded in LapTimeEdit (old/new timeMs, editor, reason)
+ * - Disputes: Other members flag a lap (LapTime.status → DISPUTED), an admin resolves it as
+ *   ACCEPTED (back to ACTIVE) or REMOVED (hidden from leaderboards and race standings)
+ *
+ * **Functions Provided:**
+ * - diffLapTimeEdit(): Requested edit → changed columns only (+ their names for the history)
+ * - statusAfterResolution(): Dispute outcome → LapTime.status
+ *
+ * **Debugging Tips:**
+ * - "Nothing to change": Every field in the edit equals the stored value
+ * - Splits disappeared after an edit: A new timeMs without new splits clears sectorTimesMs
+ * - Lap still on the leaderboard after a dispute: Only REMOVED hides it, DISPUTED is just flagged
+ *
+ * **Related Files:**
+ * - @/app/api/lap-times/[id]/route.ts: PATCH (edit) + DELETE
+ * - @/app/api/lap-times/[id]/history/route.ts: Edits + disputes of one lap
+ * - @/app/api/lap-times/[id]/disputes/route.ts: Raise a dispute
+ * - @/app/api/lap-time-disputes/[id]/route.ts: Admin resolution
+ */
+
+import type { DbLapTime, DbLapTimeDispute, LapTimeStatus } from '@/types/database'
+
+export const LAP_TIME_STATUS_LABELS: Record<LapTimeStatus, string> = {
+  ACTIVE: 'Active',
+  DISPUTED: 'Disputed',
+  REMOVED: 'Removed',
+}
+
+export type EditableLapTime = Pick<DbLapTime, 'timeMs' | 'sectorTimesMs' | 'notes' | 'conditions'>
+
+export interface LapTimeEditRequest {
+  timeMs?: number
+  sectorTimesMs?: number[] | null
+  notes?: string | null
+  conditions?: string | null
+}
+
+const sameSplits = (a: number[] | null, b: number[] | null) =>
+  (a || []).length === (b || []).length && (a || []).every((split, index) => split === b![index])
+
+/**
+ * Work out what an edit actually changes
+ *
+ * @param lap - Stored lap
+ * @param edit - Requested values (undefined = keep)
+ * @returns Columns to update and their names (empty when nothing changes)
+ */
+export function diffLapTimeEdit(
+  lap: EditableLapTime,
+  edit: LapTimeEditRequest
+): { changes: Partial<EditableLapTime>; changedFields: string[] } {
+  const changes: Partial<EditableLapTime> = {}
+
+  if (edit.timeMs !== undefined && edit.timeMs !== lap.timeMs) {
+    changes.timeMs = edit.timeMs
+  }
+
+  // Old splits can't add up to a new time - clear them unless new ones came along
+  const sectorTimesMs =
+    edit.sectorTimesMs !== undefined ? edit.sectorTimesMs : changes.timeMs !== undefined ? null : lap.sectorTimesMs
+  if (!sameSplits(sectorTimesMs, lap.sectorTimesMs)) {
+    changes.sectorTimesMs = sectorTimesMs && sectorTimesMs.length > 0 ? sectorTimesMs : null
+  }
+
+  if (edit.notes !== undefined && (edit.notes || null) !== lap.notes) {
+    changes.notes = edit.notes || null
+  }
+  if (edit.conditions !== undefined && (edit.conditions || null) !== lap.conditions) {
+    changes.conditions = edit.conditions || null
+  }
+
+  return { changes, changedFields: Object.keys(changes) }
+}
+
+/**
+ * LapTime.status once a dispute is resolved
+ *
+ * @param resolution - Admin decision
+ * @returns REMOVED hides the lap, ACCEPTED puts it back to ACTIVE
+ */
+export function statusAfterResolution(resolution: Exclude<DbLapTimeDispute['status'], 'OPEN'>): LapTimeStatus {
+  return resolution === 'REMOVED' ? 'REMOVED' : 'ACTIVE'
+}
@@ -0,0 +1,172 @@
+/**
+ * Lap Time Outlier Detection
+ *
+ * Purpose: Catch typos and implausible times per track (isValidLapTime only checks 10 s - 30 min)
+ * - Speed bounds: Average lap speed from Track.length must be between MIN and MAX_AVERAGE_SPEED_KMH
+ * - Track record: More than RECORD_MARGIN faster than the best lap of the same car category
+ *   at the track (e.g. 1:05 typed instead of 2:05)
+ * - Distribution: More than SLOW_FACTOR times the median lap of the same car category
+ * - Record and distribution checks need MIN_HISTORY_LAPS earlier laps, so a new track
+ *   doesn't flag everything
+ *
+ * Flow:
+ * - POST /api/lap-times (and PATCH with a new time) answers 409 with outlierReasons until
+ *   the driver resends with confirmOutlier: true
+ * - Bulk race entry and CSV import check every row the same way (confirmOutliers: true)
+ * - Confirmed outliers are saved with reviewStatus PENDING and wait for an admin
+ *   (/admin/lap-reviews): APPROVED keeps the lap, REJECTED removes it (status REMOVED)
+ * - Pending laps don't set track records until they are approved
+ *
+ * **Functions Provided:**
+ * - detectLapTimeOutliers(): Pure check of one time against the track length and history
+ * - loadOutlierHistory(): Earlier lap times at the track for the same car category
+ *
+ * **Debugging Tips:**
+ * - Never flagged by record/median: Fewer than MIN_HISTORY_LAPS laps at the track in that category
+ * - No speed check: Track.length is NULL (metres, from the GT7 course data)
+ * - Laps under review and removed laps are not part of the history
+ * - History is the HISTORY_WINDOW_LAPS most recent laps - "record" means the fastest of those
+ *
+ * **Related Files:**
+ * - @/app/api/lap-times/route.ts: POST runs the check
+ * - @/app/api/races/[id]/lap-times/route.ts, @/app/api/lap-times/import/route.ts: Per-row checks
+ * - @/app/api/lap-time-reviews: Admin review API
+ * - supabase/migrations/20261019210000_lap_time_review.sql: Review columns
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { formatLapTime } from '@/lib/time'
+import type { LapTimeReviewStatus } from '@/types/database'
+
+// ============================================================
+// THRESHOLDS
+// ============================================================
+
+// GT7's fastest cars average well under this even on Le Mans / Monza
+export const MAX_AVERAGE_SPEED_KMH = 400
+// Slower than walking pace with a kart - almost certainly a typo
+export const MIN_AVERAGE_SPEED_KMH = 20
+// Faster than the category record by more than 5%
+export const RECORD_MARGIN = 0.05
+// Slower than twice the category's median lap
+export const SLOW_FACTOR = 2
+export const MIN_HISTORY_LAPS = 5
+// Most recent laps the record/median come from (stays under the API's max_rows)
+export const HISTORY_WINDOW_LAPS = 500
+
+export type OutlierCode = 'ABOVE_MAX_SPEED' | 'BELOW_MIN_SPEED' | 'FASTER_THAN_RECORD' | 'SLOWER_THAN_TYPICAL'
+
+export interface OutlierReason {
+  code: OutlierCode
+  message: string
+}
+
+export const LAP_TIME_REVIEW_STATUS_LABELS: Record<LapTimeReviewStatus, string> = {
+  PENDING: 'Under review',
+  APPROVED: 'Review approved',
+  REJECTED: 'Review rejected',
+}
+
+export const OUTLIER_CODE_LABELS: Record<OutlierCode, string> = {
+  ABOVE_MAX_SPEED: 'Too fast for the track length',
+  BELOW_MIN_SPEED: 'Too slow for the track length',
+  FASTER_THAN_RECORD: 'Far faster than the track record',
+  SLOWER_THAN_TYPICAL: 'Far slower than usual at this track',
+}
+
+/** Average speed in km/h over a lap of lengthM metres */
+export function averageSpeedKmh(lengthM: number, timeMs: number): number {
+  return (lengthM / 1000) / (timeMs / 3600000)
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+/**
+ * Check a lap time against the track's length and earlier laps
+ *
+ * @param timeMs - Lap time to check
+ * @param trackLengthM - Track.length in metres (null = skip speed checks)
+ * @param historyTimesMs - Earlier laps at the track in the same car category
+ * @returns Reasons the time looks implausible (empty = plausible)
+ */
+export function detectLapTimeOutliers(
+  timeMs: number,
+  trackLengthM: number | null,
+  historyTimesMs: number[]
+): OutlierReason[] {
+  const reasons: OutlierReason[] = []
+
+  if (trackLengthM && trackLengthM > 0) {
+    const speed = averageSpeedKmh(trackLengthM, timeMs)
+    if (speed > MAX_AVERAGE_SPEED_KMH) {
+      reasons.push({
+        code: 'ABOVE_MAX_SPEED',
+        message: `Average speed would be ${Math.round(speed)} km/h (limit ${MAX_AVERAGE_SPEED_KMH} km/h)`,
+      })
+    } else if (speed < MIN_AVERAGE_SPEED_KMH) {
+      reasons.push({
+        code: 'BELOW_MIN_SPEED',
+        message: `Average speed would be ${Math.round(speed)} km/h (minimum ${MIN_AVERAGE_SPEED_KMH} km/h)`,
+      })
+    }
+  }
+
+  if (historyTimesMs.length >= MIN_HISTORY_LAPS) {
+    const record = Math.min(...historyTimesMs)
+    if (timeMs < record * (1 - RECORD_MARGIN)) {
+      const percent = ((record - timeMs) / record) * 100
+      reasons.push({
+        code: 'FASTER_THAN_RECORD',
+        message: `${percent.toFixed(1)}% faster than the record of ${formatLapTime(record)}`,
+      })
+    }
+
+    const typical = median(historyTimesMs)
+    if (timeMs > typical * SLOW_FACTOR) {
+      reasons.push({
+        code: 'SLOWER_THAN_TYPICAL',
+        message: `More than ${SLOW_FACTOR}x the usual ${formatLapTime(Math.round(typical))}`,
+      })
+    }
+  }
+
+  return reasons
+}
+
+/**
+ * Earlier lap times at a track for one car category (what detectLapTimeOutliers compares against)
+ * - The HISTORY_WINDOW_LAPS most recent, newest first
+ *
+ * @param supabase - Service role client
+ * @param trackId - Track of the lap
+ * @param carCategory - Car.category of the lap's car (null = every lap at the track)
+ * @param excludeLapTimeId - The lap itself when re-checking an edit
+ * @throws Supabase error if the query fails
+ */
+export async function loadOutlierHistory(
+  supabase: SupabaseClient,
+  trackId: string,
+  carCategory: string | null,
+  excludeLapTimeId?: string
+): Promise<number[]> {
+  let query = supabase
+    .from('LapTime')
+    .select('id, timeMs, car:Car!inner(category)')
+    .eq('trackId', trackId)
+    .neq('status', 'REMOVED')
+    .or('reviewStatus.is.null,reviewStatus.neq.PENDING')
+
+  if (carCategory) query = query.eq('car.category', carCategory)
+  if (excludeLapTimeId) query = query.neq('id', excludeLapTimeId)
+
+  const { data, error } = await query
+    .order('createdAt', { ascending: false })
+    .limit(HISTORY_WINDOW_LAPS)
+  if (error) throw error
+
+  return (data || []).map((lap: { timeMs: number }) => lap.timeMs)
+}
@@ -0,0 +1,88 @@
+/**
+ * Leaderboard
+ *
+ * Purpose: Rank drivers by their best lap at a track (global leaderboards)
+ * - One entry per user: their fastest lap among the laps passed in (already filtered)
+ * - Ties keep the earlier lap ahead (set first, ranked first)
+ * - Pure function - GET /api/leaderboards does the filtering queries
+ * - The route passes only each user's best lap (leaderboard_best_laps() picks it in SQL)
+ *   plus their lap counts - a track can have more laps than one query returns
+ *
+ * **Functions Provided:**
+ * - rankBestLaps(): Laps → one ranked entry per user with gap to leader
+ *
+ * **Debugging Tips:**
+ * - Driver missing: None of their laps match the filters (car, build, conditions, dates...)
+ * - totalLaps counts the user's laps that matched the filters, not all their laps
+ *   (lapCounts when given, else the laps passed in)
+ *
+ * **Related Files:**
+ * - @/app/api/leaderboards/route.ts: Endpoint
+ * - @/app/leaderboards/page.tsx: Page
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface LeaderboardLap {
+  id: string
+  userId: string
+  timeMs: number
+  createdAt: string
+}
+
+export interface LeaderboardEntry<T extends LeaderboardLap> {
+  position: number
+  userId: string
+  lap: T
+  totalLaps: number
+  gapToLeaderMs: number
+}
+
+// ============================================================
+// RANKING
+// ============================================================
+
+/**
+ * Best lap per user, fastest first
+ *
+ * @param laps - Laps at one track that match the leaderboard filters
+ * @param lapCounts - Matching laps per user, when laps holds only each user's best
+ * @returns Ranked entries (position 1 = leader, gapToLeaderMs 0)
+ */
+export function rankBestLaps<T extends LeaderboardLap>(
+  laps: T[],
+  lapCounts?: Map<string, number>
+): LeaderboardEntry<T>[] {
+  const bestByUser = new Map<string, { lap: T; totalLaps: number }>()
+
+  for (const lap of laps) {
+    const current = bestByUser.get(lap.userId)
+    if (!current) {
+      bestByUser.set(lap.userId, { lap, totalLaps: 1 })
+      continue
+    }
+
+    current.totalLaps++
+    if (
+      lap.timeMs < current.lap.timeMs ||
+      (lap.timeMs === current.lap.timeMs && lap.createdAt < current.lap.createdAt)
+    ) {
+      current.lap = lap
+    }
+  }
+
+  const ranked = [...bestByUser.values()].sort(
+    (a, b) => a.lap.timeMs - b.lap.timeMs || a.lap.createdAt.localeCompare(b.lap.createdAt)
+  )
+  const leaderTime = ranked[0]?.lap.timeMs ?? 0
+
+  return ranked.map(({ lap, totalLaps }, index) => ({
+    position: index + 1,
+    userId: lap.userId,
+    lap,
+    totalLaps: lapCounts?.get(lap.userId) ?? totalLaps,
+    gapToLeaderMs: lap.timeMs - leaderTime,
+  }))
+}
@@ -0,0 +1,228 @@
+/**
+ * Lobby Settings
+ *
+ * Purpose: Labels, defaults and summaries for lobby presets (LobbySettings rows)
+ * - A preset is the GT7 room setup: race type, start, boost, tyre wear, fuel, required
+ *   tyres, damage, penalties, weather, time of day and assists
+ * - Presets are shared: every race linking to one (Race.lobbySettingsId) sees its edits
+ * - Pure functions - used by the API routes and the form / badges
+ *
+ * **Functions Provided:**
+ * - parseRequiredTyres(): LobbySettings.requiredTires text → tyre codes
+ * - formatRequiredTyres(): Tyre codes → text for the column (null when empty)
+ * - toLobbySettingsInput(): Row → form / request body shape
+ * - describeLobbySettings(): Key settings as short labels ("Rolling Start", "Tyre Wear ×3")
+ *
+ * **Debugging Tips:**
+ * - Required tyres missing from badges: requiredTires holds a code that isn't a
+ *   TyreCompound (only the codes of TYRE_COMPOUND_LABELS are kept)
+ * - Label shows the raw enum value: The remote enum gained a value - add it to the labels here
+ *
+ * **Related Files:**
+ * - supabase/migrations/20261019250000_lobby_presets.sql: createdById, Race.lobbySettingsId
+ * - @/lib/validation.ts: CreateLobbySettingsSchema, UpdateLobbySettingsSchema
+ * - @/components/lobby-settings/lobby-settings-form.tsx: Editor
+ * - @/components/lobby-settings/lobby-settings-badges.tsx: Read-only summary
+ */
+
+import { TYRE_COMPOUND_LABELS } from '@/lib/build-performance'
+import type {
+  AssistLevel,
+  BoostLevel,
+  DamageLevel,
+  DbLobbySettings,
+  LobbyRaceType,
+  LobbyStartType,
+  LobbyWeatherType,
+  PenaltyLevel,
+  TimeOfDay,
+  TyreCompound,
+} from '@/types/database'
+
+// ============================================================
+// LABELS (GT7 lobby wording)
+// ============================================================
+
+export const RACE_TYPE_LABELS: Record<LobbyRaceType, string> = {
+  LAPS: 'Race',
+  TIME_TRIAL: 'Time Trial',
+  ENDURANCE: 'Endurance',
+}
+
+export const START_TYPE_LABELS: Record<LobbyStartType, string> = {
+  GRID: 'Grid Start',
+  ROLLING: 'Rolling Start',
+  FALSE_START_CHECK: 'Grid Start with False Start Check',
+}
+
+export const BOOST_LEVEL_LABELS: Record<BoostLevel, string> = {
+  OFF: 'Off',
+  WEAK: 'Weak',
+  STRONG: 'Strong',
+}
+
+export const DAMAGE_LEVEL_LABELS: Record<DamageLevel, string> = {
+  NONE: 'None',
+  LIGHT: 'Light',
+  HEAVY: 'Heavy',
+}
+
+export const PENALTY_LEVEL_LABELS: Record<PenaltyLevel, string> = {
+  OFF: 'Off',
+  WEAK: 'Weak',
+  DEFAULT: 'Default',
+  STRONG: 'Strong',
+}
+
+export const WEATHER_TYPE_LABELS: Record<LobbyWeatherType, string> = {
+  FIXED: 'Fixed',
+  RANDOM: 'Random',
+  DYNAMIC: 'Dynamic',
+}
+
+export const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  DAWN: 'Dawn',
+  MORNING: 'Morning',
+  NOON: 'Noon',
+  AFTERNOON: 'Afternoon',
+  DUSK: 'Dusk',
+  NIGHT: 'Night',
+}
+
+// PROHIBITED = drivers can't switch the assist on
+export const ASSIST_LEVEL_LABELS: Record<AssistLevel, string> = {
+  OFF: 'Off',
+  WEAK: 'Weak',
+  DEFAULT: 'Default',
+  STRONG: 'Strong',
+  PROHIBITED: 'Prohibited',
+}
+
+// ============================================================
+// TYPES + DEFAULTS
+// ============================================================
+
+// Editable fields (form state / request body) - requiredTires as codes, not text
+export type LobbySettingsInput = Omit<
+  DbLobbySettings,
+  'id' | 'requiredTires' | 'createdById' | 'createdAt' | 'updatedAt'
+> & {
+  requiredTires: TyreCompound[]
+}
+
+// Same as the column defaults of the LobbySettings table
+export const DEFAULT_LOBBY_SETTINGS: LobbySettingsInput = {
+  name: '',
+  laps: null,
+  raceType: 'LAPS',
+  startType: 'GRID',
+  boostLevel: 'OFF',
+  tireWearMultiplier: 1,
+  fuelConsumption: 1,
+  requiredTires: [],
+  mechanicalDamage: 'NONE',
+  penaltyLevel: 'DEFAULT',
+  lowMuSurface: true,
+  wallCollisionPenalty: true,
+  cornerCuttingPenalty: true,
+  weather: 'FIXED',
+  weatherChangeability: 0,
+  timeOfDay: 'NOON',
+  timeProgression: 1,
+  abs: 'DEFAULT',
+  counterSteer: 'DEFAULT',
+  tractionControl: 'DEFAULT',
+  activeStabilityMgmt: 'DEFAULT',
+  drivingLine: false,
+}
+
+// ============================================================
+// REQUIRED TYRES
+// ============================================================
+
+/**
+ * Read LobbySettings.requiredTires ("RM,RS")
+ *
+ * @param text - Column value (null = no required tyres)
+ * @returns Known tyre codes, in the stored order
+ */
+export function parseRequiredTyres(text: string | null | undefined): TyreCompound[] {
+  if (!text) return []
+
+  return text
+    .split(',')
+    .map((code) => code.trim())
+    .filter((code): code is TyreCompound => code in TYRE_COMPOUND_LABELS)
+}
+
+/**
+ * Write tyre codes for LobbySettings.requiredTires
+ *
+ * @param tyres - Tyre codes (duplicates are dropped)
+ * @returns "RM,RS", or null when no tyre is required
+ */
+export function formatRequiredTyres(tyres: TyreCompound[] | null | undefined): string | null {
+  if (!tyres || tyres.length === 0) return null
+  return [...new Set(tyres)].join(',')
+}
+
+/**
+ * Row → editable fields (form state)
+ *
+ * @param settings - LobbySettings row
+ * @returns Fields without id / timestamps, required tyres as codes
+ */
+export function toLobbySettingsInput(settings: DbLobbySettings): LobbySettingsInput {
+  const input = { ...DEFAULT_LOBBY_SETTINGS }
+  for (const key of Object.keys(input) as Array<keyof LobbySettingsInput>) {
+    if (key !== 'requiredTires') Object.assign(input, { [key]: settings[key] })
+  }
+  return { ...input, requiredTires: parseRequiredTyres(settings.requiredTires) }
+}
+
+// ============================================================
+// SUMMARY
+// ============================================================
+
+/**
+ * Key settings as short labels - what the host needs to set the room up
+ * Start, boost, tyre wear, fuel, required tyres, damage and penalties are always listed;
+ * weather, time and assists only when they differ from the GT7 defaults
+ *
+ * @param settings - LobbySettings row
+ * @returns Labels in lobby menu order
+ *
+ * @example
+ * describeLobbySettings(preset) // → ['Rolling Start', 'Boost: Off', 'Tyre Wear ×3', 'Fuel ×2', ...]
+ */
+export function describeLobbySettings(settings: DbLobbySettings): string[] {
+  const labels: string[] = []
+
+  if (settings.raceType !== 'LAPS') labels.push(RACE_TYPE_LABELS[settings.raceType])
+  if (settings.laps) labels.push(`${settings.laps} ${settings.laps === 1 ? 'Lap' : 'Laps'}`)
+  labels.push(START_TYPE_LABELS[settings.startType])
+  labels.push(`Boost: ${BOOST_LEVEL_LABELS[settings.boostLevel]}`)
+  labels.push(`Tyre Wear ×${settings.tireWearMultiplier}`)
+  labels.push(`Fuel ×${settings.fuelConsumption}`)
+
+  const requiredTyres = parseRequiredTyres(settings.requiredTires)
+  if (requiredTyres.length > 0) labels.push(`Required: ${requiredTyres.join(' / ')}`)
+
+  labels.push(`Damage: ${DAMAGE_LEVEL_LABELS[settings.mechanicalDamage]}`)
+  labels.push(`Penalties: ${PENALTY_LEVEL_LABELS[settings.penaltyLevel]}`)
+
+  if (settings.weather !== 'FIXED') labels.push(`Weather: ${WEATHER_TYPE_LABELS[settings.weather]}`)
+  if (settings.timeOfDay !== 'NOON') labels.push(TIME_OF_DAY_LABELS[settings.timeOfDay])
+
+  const assists: Array<[string, AssistLevel]> = [
+    ['ABS', settings.abs],
+    ['Counter-Steer', settings.counterSteer],
+    ['TCS', settings.tractionControl],
+    ['ASM', settings.activeStabilityMgmt],
+  ]
+  for (const [name, level] of assists) {
+    if (level !== 'DEFAULT') labels.push(`${name}: ${ASSIST_LEVEL_LABELS[level]}`)
+  }
+
+  return labels
+}
@@ -0,0 +1,181 @@
+/**
+ * Personal Best Progression
+ *
+ * Purpose: Turn a driver's laps into progression data (server-side aggregation)
+ * - Combos: One row per track/car/build the driver has laps for (the progression index) -
+ *   summarized in SQL by progression_combos(), keyed like progressionKey()
+ * - Progression: Time series for one combo with PB improvements, consistency and a
+ *   rolling median
+ * - Pure functions - GET /api/lap-times/progression does the queries
+ *
+ * **Functions Provided:**
+ * - progressionKey(): "{trackId}:{carId}:{buildId | none}"
+ * - buildProgression(): Laps of one combo → points, PB improvements, stats
+ *
+ * **Definitions:**
+ * - PB lap: Faster than every earlier lap (by createdAt); the first lap is always a PB
+ * - Rolling median: Median of the lap and the (window - 1) laps before it
+ * - Consistency: Population standard deviation of lap times (lower = more consistent);
+ *   recentStdDevMs uses only the last `window` laps
+ *
+ * **Debugging Tips:**
+ * - PB on an older lap than expected: Imported laps keep their original createdAt
+ * - Std dev null: Needs at least 2 laps
+ *
+ * **Related Files:**
+ * - @/app/api/lap-times/progression/route.ts: Endpoint
+ * - @/app/lap-times/progress/page.tsx: Page
+ * - @/components/lap-times/ProgressionChart.tsx: Chart
+ */
+
+export const DEFAULT_ROLLING_WINDOW = 5
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ProgressionLap {
+  id: string
+  trackId: string
+  carId: string
+  buildId: string | null
+  buildName: string | null
+  timeMs: number
+  createdAt: string
+}
+
+// Row of progression_combos() (supabase/migrations/20261019320000_progression_combos.sql)
+export interface ProgressionCombo {
+  key: string
+  trackId: string
+  carId: string
+  buildId: string | null
+  buildName: string | null
+  lapCount: number
+  pbCount: number
+  bestMs: number
+  firstMs: number
+  improvementMs: number
+  firstLapAt: string
+  lastLapAt: string
+}
+
+export interface ProgressionPoint {
+  lapId: string
+  timeMs: number
+  createdAt: string
+  isPb: boolean
+  pbMs: number
+  rollingMedianMs: number
+}
+
+export interface PbImprovement {
+  lapId: string
+  timeMs: number
+  createdAt: string
+  improvementMs: number | null
+}
+
+export interface ProgressionStats {
+  lapCount: number
+  bestMs: number
+  firstMs: number
+  latestMs: number
+  meanMs: number
+  medianMs: number
+  stdDevMs: number | null
+  recentStdDevMs: number | null
+}
+
+export interface Progression {
+  window: number
+  stats: ProgressionStats
+  points: ProgressionPoint[]
+  improvements: PbImprovement[]
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+export function progressionKey(lap: Pick<ProgressionLap, 'trackId' | 'carId' | 'buildId'>): string {
+  return `${lap.trackId}:${lap.carId}:${lap.buildId || 'none'}`
+}
+
+const byDate = <T extends { createdAt: string; id: string }>(a: T, b: T) =>
+  a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id)
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+}
+
+function stdDev(values: number[]): number | null {
+  if (values.length < 2) return null
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+  return Math.round(Math.sqrt(variance))
+}
+
+// ============================================================
+// PROGRESSION
+// ============================================================
+
+/**
+ * Time series for one combo
+ *
+ * @param laps - Laps of one track/car(/build) - any order
+ * @param window - Rolling median window (laps)
+ * @returns Progression, or null when there are no laps
+ */
+export function buildProgression(
+  laps: Pick<ProgressionLap, 'id' | 'timeMs' | 'createdAt'>[],
+  window = DEFAULT_ROLLING_WINDOW
+): Progression | null {
+  if (laps.length === 0) return null
+
+  const sorted = [...laps].sort(byDate)
+  const times = sorted.map((lap) => lap.timeMs)
+  const points: ProgressionPoint[] = []
+  const improvements: PbImprovement[] = []
+  let pbMs = Infinity
+
+  sorted.forEach((lap, index) => {
+    const isPb = lap.timeMs < pbMs
+    if (isPb) {
+      improvements.push({
+        lapId: lap.id,
+        timeMs: lap.timeMs,
+        createdAt: lap.createdAt,
+        improvementMs: Number.isFinite(pbMs) ? pbMs - lap.timeMs : null,
+      })
+      pbMs = lap.timeMs
+    }
+
+    points.push({
+      lapId: lap.id,
+      timeMs: lap.timeMs,
+      createdAt: lap.createdAt,
+      isPb,
+      pbMs,
+      rollingMedianMs: median(times.slice(Math.max(0, index - window + 1), index + 1)),
+    })
+  })
+
+  return {
+    window,
+    stats: {
+      lapCount: times.length,
+      bestMs: pbMs,
+      firstMs: times[0],
+      latestMs: times[times.length - 1],
+      meanMs: Math.round(times.reduce((sum, time) => sum + time, 0) / times.length),
+      medianMs: median(times),
+      stdDevMs: stdDev(times),
+      recentStdDevMs: stdDev(times.slice(-window)),
+    },
+    points,
+    improvements,
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Race Nights
+ *
+ * Purpose: Plan and run a night of racing as one dated event
+ * - RunSession: The night - name, date, status, currentEntryOrder (the race being run now)
+ * - RunList + RunListEntry: Its lineup - one entry per race, in running order
+ *   (one run list per night; RunListEntry.trackId is copied from the race)
+ * - Replaces toggling Race.isActive: finished nights are archived with their lineup,
+ *   the races themselves stay untouched
+ *
+ * **Functions Provided:**
+ * - SESSION_STATUS_LABELS: SCHEDULED/IN_PROGRESS/COMPLETED/CANCELLED → labels
+ * - isArchivedStatus(): COMPLETED and CANCELLED nights are the archive
+ * - localDateString() / formatRaceNightDate(): Night dates are plain days (no time zone)
+ * - checkStatusTransition(): Lifecycle rules
+ * - setRaceNightRaces(): Run set_run_session_races()
+ * - RACE_NIGHT_SELECT + toRaceNight(): Shared query and response shape of the API routes
+ *
+ * **Lifecycle:**
+ * - SCHEDULED → IN_PROGRESS (start: startedAt set, pointer on the first race)
+ * - IN_PROGRESS → COMPLETED (completedAt set) - archived
+ * - SCHEDULED / IN_PROGRESS → CANCELLED - archived
+ * - Only one night can be IN_PROGRESS at a time (RunSession_single_in_progress_key)
+ *
+ * **Debugging Tips:**
+ * - Tonight page shows the old active-race list: No night is in progress or scheduled today
+ * - Pointer jumped after editing the lineup: The current race was removed - the pointer
+ *   stays at the same position (see set_run_session_races)
+ *
+ * **Related Files:**
+ * - supabase/migrations/20261019240000_race_nights.sql: Columns + function
+ * - @/app/api/race-nights: Race night endpoints
+ * - @/app/race-nights: Planner pages
+ * - @/app/tonight/page.tsx: Runs the current night
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DbRunSession, SessionStatus } from '@/types/database'
+
+export const SESSION_STATUS_LABELS: Record<SessionStatus, string> = {
+  SCHEDULED: 'Scheduled',
+  IN_PROGRESS: 'In progress',
+  COMPLETED: 'Completed',
+  CANCELLED: 'Cancelled',
+}
+
+const STATUS_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  SCHEDULED: ['IN_PROGRESS', 'CANCELLED'],
+  IN_PROGRESS: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+}
+
+// Local date as YYYY-MM-DD (toISOString would give the UTC date)
+export function localDateString(date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+// Night dates are plain days - format without a time zone shift
+export function formatRaceNightDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+}
+
+export function isArchivedStatus(status: SessionStatus): boolean {
+  return status === 'COMPLETED' || status === 'CANCELLED'
+}
+
+/**
+ * Check a status change against the lifecycle
+ *
+ * @returns The problem, or null when the change is allowed (same status = no change)
+ */
+export function checkStatusTransition(from: SessionStatus, to: SessionStatus): string | null {
+  if (from === to || STATUS_TRANSITIONS[from].includes(to)) return null
+  if (isArchivedStatus(from)) {
+    return `This race night is ${SESSION_STATUS_LABELS[from].toLowerCase()} and archived`
+  }
+  return `A ${SESSION_STATUS_LABELS[from].toLowerCase()} race night can't be set to ${SESSION_STATUS_LABELS[to].toLowerCase()}`
+}
+
+/**
+ * Replace a night's races atomically (the pointer follows the current race)
+ *
+ * @param supabase - Service role client
+ * @param sessionId - RunSession ID
+ * @param raceIds - Races in running order
+ * @throws Supabase error if the function fails
+ */
+export async function setRaceNightRaces(
+  supabase: SupabaseClient,
+  sessionId: string,
+  raceIds: string[]
+): Promise<void> {
+  const { error } = await supabase.rpc('set_run_session_races', {
+    p_session_id: sessionId,
+    p_race_ids: raceIds,
+  })
+
+  if (error) throw error
+}
+
+// ============================================================
+// QUERY SHAPE
+// ============================================================
+
+// RunSession with its run list (creator, description) and lineup
+export const RACE_NIGHT_SELECT = `
+  *,
+  runList:RunList(
+    id,
+    description,
+    createdById,
+    createdBy:User!RunList_createdById_fkey(id, name, gamertag),
+    RunListEntry(order, raceId, race:Race(id, name, completedAt, track:Track(id, name, layout)))
+  )
+`
+
+export interface RaceNightEntry {
+  order: number
+  race: {
+    id: string
+    name: string | null
+    completedAt: string | null
+    track: { id: string; name: string; layout: string | null } | null
+  } | null
+}
+
+interface RaceNightRow extends DbRunSession {
+  runList: {
+    id: string
+    description: string | null
+    createdById: string
+    createdBy: { id: string; name: string | null; gamertag: string | null } | null
+    RunListEntry: (RaceNightEntry & { raceId: string | null })[]
+  } | null
+}
+
+/**
+ * Flatten a RACE_NIGHT_SELECT row for the API
+ *
+ * @returns The night with date as YYYY-MM-DD, description/createdBy from the run list,
+ *   and entries in running order (entries whose race was deleted are left out)
+ */
+export function toRaceNight(row: unknown) {
+  const { runList, ...session } = row as RaceNightRow
+
+  return {
+    ...session,
+    date: session.date.slice(0, 10),
+    description: runList?.description ?? null,
+    createdById: runList?.createdById ?? null,
+    createdBy: runList?.createdBy ?? null,
+    entries: (runList?.RunListEntry || [])
+      .filter((entry) => entry.race)
+      .sort((a, b) => a.order - b.order)
+      .map(({ order, race }) => ({ order, race })),
+  }
+}
+
+export type RaceNight = ReturnType<typeof toRaceNight>
+
+/**
+ * The race being run now and the one after it (the Tonight page markers)
+ *
+ * @returns Race IDs - both null unless the night is in progress; upNextRaceId is null on the last race
+ */
+export function getRaceNightMarkers(raceNight: RaceNight | null) {
+  if (!raceNight || raceNight.status !== 'IN_PROGRESS') {
+    return { currentRaceId: null, upNextRaceId: null }
+  }
+
+  const index = raceNight.entries.findIndex((entry) => entry.order === raceNight.currentEntryOrder)
+  return {
+    currentRaceId: raceNight.entries[index]?.race?.id ?? null,
+    upNextRaceId: index >= 0 ? (raceNight.entries[index + 1]?.race?.id ?? null) : null,
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Race Regulations
+ *
+ * Purpose: Check builds and tyre choices against a race's regulations
+ * - Stored on Race.regulations (jsonb) - null means "open" (anything goes)
+ * - PP cap is checked against CarBuild.estimatedPp (see build-performance.ts)
+ * - Tyres are checked on RaceMember tyre choices (each driver picks their own tyre)
+ * - Pure functions - used by the API routes (enforcement) and the UI (flags)
+ *
+ * **Functions Provided:**
+ * - normalizeRegulations(): Drop empty rules (returns null when nothing is restricted)
+ * - checkBuildAgainstRegulations(): Reasons a build isn't legal (empty = legal)
+ * - checkTyreAgainstRegulations(): Reason a tyre part isn't allowed (null = allowed)
+ * - describeRegulations(): Short labels for badges ("PP ≤ 600", "RH / RM")
+ *
+ * **Debugging Tips:**
+ * - Build flagged "PP unknown": The build hasn't been saved since estimatedPp was added
+ * - Tyre part never flagged: parseTyreCompound() doesn't recognise the part name
+ * - Manufacturer rule ignores case but otherwise must match Car.manufacturer exactly
+ *
+ * **Related Files:**
+ * - @/lib/build-performance.ts: parseTyreCompound(), TYRE_COMPOUND_LABELS
+ * - @/lib/validation.ts: RaceRegulationsSchema
+ * - @/app/api/races/route.ts: Enforced on race creation
+ * - @/components/races/race-regulations-form.tsx: Editor used by new/edit race pages
+ */
+
+import type { RaceRegulations } from '@/types/database'
+import { parseTyreCompound, TYRE_COMPOUND_LABELS } from '@/lib/build-performance'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface RegulationBuild {
+  estimatedPp?: number | string | null
+  car?: {
+    manufacturer?: string | null
+    category?: string | null
+    driveType?: string | null
+  } | null
+}
+
+// ============================================================
+// NORMALIZATION
+// ============================================================
+
+/**
+ * Drop empty rules so an "everything unticked" form saves as no regulations
+ *
+ * @param regulations - Regulations from a request body or Race row
+ * @returns Regulations with only active rules, or null if none are active
+ */
+export function normalizeRegulations(
+  regulations: RaceRegulations | null | undefined
+): RaceRegulations | null {
+  if (!regulations) return null
+
+  const normalized: RaceRegulations = {}
+  if (regulations.maxPp !== null && regulations.maxPp !== undefined) normalized.maxPp = regulations.maxPp
+  if (regulations.tyres?.length) normalized.tyres = [...new Set(regulations.tyres)]
+  if (regulations.categories?.length) normalized.categories = [...new Set(regulations.categories)]
+  if (regulations.driveTypes?.length) normalized.driveTypes = [...new Set(regulations.driveTypes)]
+  if (regulations.manufacturers?.length) normalized.manufacturers = [...new Set(regulations.manufacturers)]
+
+  return Object.keys(normalized).length > 0 ? normalized : null
+}
+
+// ============================================================
+// CHECKS
+// ============================================================
+
+/**
+ * Check a build against the regulations
+ *
+ * @param regulations - Race regulations (null = open race)
+ * @param build - Build with estimatedPp and car category, drive type, manufacturer
+ * @returns Human readable reasons the build is illegal (empty array = legal)
+ */
+export function checkBuildAgainstRegulations(
+  regulations: RaceRegulations | null | undefined,
+  build: RegulationBuild
+): string[] {
+  const rules = normalizeRegulations(regulations)
+  if (!rules) return []
+
+  const reasons: string[] = []
+  const car = build.car || {}
+
+  if (rules.maxPp !== undefined && rules.maxPp !== null) {
+    const pp = build.estimatedPp === null || build.estimatedPp === undefined ? null : Number(build.estimatedPp)
+    if (pp === null || Number.isNaN(pp)) {
+      reasons.push(`PP unknown (cap ${rules.maxPp}) - save the build to estimate it`)
+    } else if (pp > rules.maxPp) {
+      reasons.push(`PP ${pp.toFixed(2)} is over the ${rules.maxPp} cap`)
+    }
+  }
+
+  if (rules.categories && !rules.categories.includes(car.category || '')) {
+    reasons.push(`Category ${car.category || 'unknown'} not allowed`)
+  }
+
+  if (rules.driveTypes && !rules.driveTypes.includes(car.driveType || '')) {
+    reasons.push(`Drive type ${car.driveType || 'unknown'} not allowed`)
+  }
+
+  if (rules.manufacturers) {
+    const allowed = rules.manufacturers.map((m) => m.toLowerCase())
+    if (!allowed.includes((car.manufacturer || '').toLowerCase())) {
+      reasons.push(`Manufacturer ${car.manufacturer || 'unknown'} not allowed`)
+    }
+  }
+
+  return reasons
+}
+
+/**
+ * Check a tyre part (RaceMember choice) against the regulations
+ *
+ * @param regulations - Race regulations (null = open race)
+ * @param tyreName - Part name, e.g. "Racing: Soft"
+ * @returns Reason the tyre isn't allowed, or null if it is (or isn't a recognised tyre)
+ */
+export function checkTyreAgainstRegulations(
+  regulations: RaceRegulations | null | undefined,
+  tyreName: string | null | undefined
+): string | null {
+  const rules = normalizeRegulations(regulations)
+  if (!rules?.tyres) return null
+
+  const compound = parseTyreCompound(tyreName)
+  if (!compound || rules.tyres.includes(compound)) return null
+  return `${tyreName} not allowed (${rules.tyres.map((t) => TYRE_COMPOUND_LABELS[t]).join(', ')} only)`
+}
+
+// ============================================================
+// DISPLAY
+// ============================================================
+
+/**
+ * Short labels for each active rule (for badges)
+ *
+ * @example
+ * describeRegulations({ maxPp: 600, tyres: ['RH', 'RM'] }) // → ['PP ≤ 600', 'Tyres: RH / RM']
+ */
+export function describeRegulations(regulations: RaceRegulations | null | undefined): string[] {
+  const rules = normalizeRegulations(regulations)
+  if (!rules) return []
+
+  const labels: string[] = []
+  if (rules.maxPp !== undefined && rules.maxPp !== null) labels.push(`PP ≤ ${rules.maxPp}`)
+  if (rules.tyres) labels.push(`Tyres: ${rules.tyres.join(' / ')}`)
+  if (rules.categories) labels.push(rules.categories.map((c) => c.replace('_', ' ')).join(' / '))
+  if (rules.driveTypes) labels.push(rules.driveTypes.join(' / '))
+  if (rules.manufacturers) {
+    labels.push(rules.manufacturers.length > 3
+      ? `${rules.manufacturers.length} manufacturers`
+      : rules.manufacturers.join(' / '))
+  }
+  return labels
+}
@@ -0,0 +1,173 @@
+/**
+ * Race Results
+ *
+ * Purpose: Who actually won - finishing order, DNF/DNS and points per race
+ * - One RaceResult per driver per race (keyed by user, so removing a member later
+ *   keeps their result)
+ * - Positions turn into points through the race's points table (Race.pointsTable,
+ *   DEFAULT_POINTS_TABLE when NULL); DNF and DNS score nothing
+ * - save_race_results() (Postgres) replaces a race's results in one transaction
+ *
+ * **Functions Provided:**
+ * - pointsForResult(): Status + position → points
+ * - checkRaceResults(): Classification problems (gaps, duplicates, DNF ahead of a finisher)
+ * - compareRaceResults(): Sort order for display (classified by position, DNS last)
+ * - saveRaceResults(): Run save_race_results()
+ *
+ * **Classification Rules:**
+ * - FINISHED and DNF drivers get positions 1..n with no gaps; every finisher is ahead of every DNF
+ * - DNS drivers have no position
+ * - totalTimeMs is only kept for finishers; fastestLapMs for anyone who started
+ *
+ * **Debugging Tips:**
+ * - Points look stale: Points are stored when the results are saved - changing the
+ *   points table means saving the results again
+ * - Race not shown as completed: Race.completedAt is only set when saved with completed: true
+ *
+ * **Related Files:**
+ * - supabase/migrations/20261019220000_race_results.sql: Table + function
+ * - @/app/api/races/[id]/results/route.ts: GET/PUT endpoint
+ * - @/app/races/[id]/results/page.tsx: Results entry page
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { RaceResultStatus } from '@/types/database'
+
+// ============================================================
+// TYPES & CONSTANTS
+// ============================================================
+
+export interface RaceResultInput {
+  userId: string
+  buildId: string | null
+  status: RaceResultStatus
+  position: number | null
+  totalTimeMs: number | null
+  fastestLapMs: number | null
+}
+
+// Row passed to save_race_results()
+export interface RaceResultRow extends RaceResultInput {
+  carId: string | null
+  points: number
+}
+
+// Points for P1..P10 (F1 style)
+export const DEFAULT_POINTS_TABLE = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1]
+
+export const RACE_RESULT_STATUS_LABELS: Record<RaceResultStatus, string> = {
+  FINISHED: 'Finished',
+  DNF: 'DNF',
+  DNS: 'DNS',
+}
+
+// ============================================================
+// POINTS & CLASSIFICATION
+// ============================================================
+
+/**
+ * Points for one result
+ *
+ * @param status - FINISHED / DNF / DNS
+ * @param position - Finishing position (1-based)
+ * @param pointsTable - Race.pointsTable (NULL = DEFAULT_POINTS_TABLE)
+ */
+export function pointsForResult(
+  status: RaceResultStatus,
+  position: number | null,
+  pointsTable: number[] | null
+): number {
+  if (status !== 'FINISHED' || !position) return 0
+  return (pointsTable ?? DEFAULT_POINTS_TABLE)[position - 1] ?? 0
+}
+
+/**
+ * Check a full set of results before saving
+ *
+ * @returns The first problem found, or null when the classification is valid
+ */
+export function checkRaceResults(results: RaceResultInput[]): string | null {
+  const classified = results.filter((result) => result.status !== 'DNS')
+
+  if (results.some((result) => result.status === 'DNS' && result.position !== null)) {
+    return 'DNS drivers have no position'
+  }
+
+  const positions = classified.map((result) => result.position)
+  if (positions.some((position) => position === null)) {
+    return 'Every finisher and DNF needs a position'
+  }
+
+  const sorted = (positions as number[]).slice().sort((a, b) => a - b)
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i] !== i + 1) {
+      return sorted[i] === sorted[i - 1]
+        ? `Position ${sorted[i]} is used twice`
+        : `Positions must run from 1 to ${sorted.length} without gaps`
+    }
+  }
+
+  const lastFinisher = Math.max(0, ...classified.filter((r) => r.status === 'FINISHED').map((r) => r.position!))
+  const firstDnf = Math.min(Infinity, ...classified.filter((r) => r.status === 'DNF').map((r) => r.position!))
+  if (firstDnf < lastFinisher) {
+    return 'DNF drivers must be classified behind every finisher'
+  }
+
+  if (results.some((result) => result.status !== 'FINISHED' && result.totalTimeMs !== null)) {
+    return 'Only finishers have a total race time'
+  }
+
+  if (results.some((result) => result.status === 'DNS' && result.fastestLapMs !== null)) {
+    return 'DNS drivers have no fastest lap'
+  }
+
+  if (results.some((result) => (
+    result.totalTimeMs !== null && result.fastestLapMs !== null && result.fastestLapMs > result.totalTimeMs
+  ))) {
+    return 'A fastest lap can\'t be longer than the total race time'
+  }
+
+  return null
+}
+
+// Classified drivers by position, DNS last
+export function compareRaceResults(
+  a: { position: number | null },
+  b: { position: number | null }
+): number {
+  return (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER)
+}
+
+// ============================================================
+// PERSISTENCE
+// ============================================================
+
+/**
+ * Replace a race's results and its points table / completed flag atomically
+ *
+ * @param supabase - Service role client
+ * @param raceId - Race ID
+ * @param rows - Every result (the old ones are deleted)
+ * @param pointsTable - Stored on the race (NULL = default table)
+ * @param completed - true sets Race.completedAt (kept if already set), false clears it
+ * @param recordedById - User saving the results
+ * @throws Supabase error if the function fails
+ */
+export async function saveRaceResults(
+  supabase: SupabaseClient,
+  raceId: string,
+  rows: RaceResultRow[],
+  pointsTable: number[] | null,
+  completed: boolean,
+  recordedById: string
+): Promise<void> {
+  const { error } = await supabase.rpc('save_race_results', {
+    p_race_id: raceId,
+    p_results: rows,
+    p_points_table: pointsTable,
+    p_completed: completed,
+    p_recorded_by: recordedById,
+  })
+
+  if (error) throw error
+}
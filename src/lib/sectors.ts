@@ -0,0 +1,147 @@
+/**
+ * Sector Splits
+ *
+ * Purpose: Show where a lap gains or loses time, not just the total
+ * - Track.sectorCount configures how many sectors a track has (2-10, NULL = none)
+ * - LapTime.sectorTimesMs optionally stores one split per sector
+ * - Race detail: theoretical best lap and per-driver sector deltas against the leader
+ *
+ * **Functions Provided:**
+ * - checkSectorTimes(): Validate splits against the track and the lap time
+ * - summarizeSectors(): Race laps → best sectors, theoretical best, driver deltas
+ *
+ * **Definitions:**
+ * - Theoretical best: Sum of the fastest split in each sector (any driver, any lap)
+ * - Driver row: The driver's fastest lap that has splits, compared sector by sector
+ *   with the leader's (fastest lap with splits), so the deltas add up to the gap
+ * - Driver theoretical best: Sum of that driver's own best splits
+ *
+ * **Debugging Tips:**
+ * - "Sector times don't add up": Sum must be within 1 ms per sector of timeMs
+ *   (GT7 rounds every split to the millisecond)
+ * - Driver missing from sector table: None of their laps have splits for this track's
+ *   current sectorCount (changing sectorCount hides older splits)
+ *
+ * **Related Files:**
+ * - @/app/api/races/[id]/route.ts: Adds `sectors` to the race response
+ * - @/components/lap-times/LapTimeForm.tsx: Sector inputs
+ * - @/app/api/tracks/[id]/route.ts: Sector count configuration (admin)
+ */
+
+export const MIN_SECTORS = 2
+export const MAX_SECTORS = 10
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/**
+ * Check sector splits for a lap
+ *
+ * @param sectorTimesMs - Splits entered for the lap
+ * @param timeMs - Lap time
+ * @param sectorCount - Track.sectorCount (null = track has no sectors configured)
+ * @returns Error message, or null when the splits are valid
+ */
+export function checkSectorTimes(
+  sectorTimesMs: number[],
+  timeMs: number,
+  sectorCount: number | null
+): string | null {
+  if (!sectorCount) {
+    return 'Sector times are not configured for this track'
+  }
+
+  if (sectorTimesMs.length !== sectorCount) {
+    return `This track has ${sectorCount} sectors`
+  }
+
+  if (sectorTimesMs.some((split) => !Number.isInteger(split) || split <= 0)) {
+    return 'Sector times must be positive'
+  }
+
+  const total = sectorTimesMs.reduce((sum, split) => sum + split, 0)
+  if (Math.abs(total - timeMs) > sectorCount) {
+    return "Sector times don't add up to the lap time"
+  }
+
+  return null
+}
+
+// ============================================================
+// RACE SUMMARY
+// ============================================================
+
+export interface SectorLap {
+  userId: string
+  timeMs: number
+  sectorTimesMs: number[] | null
+}
+
+export interface DriverSectors {
+  userId: string
+  lapTimeMs: number
+  sectorsMs: number[]
+  deltasMs: number[]
+  bestSectorsMs: number[]
+  theoreticalBestMs: number
+}
+
+export interface SectorSummary {
+  sectorCount: number
+  bestSectorsMs: number[]
+  bestSectorUserIds: string[]
+  theoreticalBestMs: number
+  drivers: DriverSectors[]
+}
+
+/**
+ * Summarize sector splits for a set of laps (one race at one track)
+ *
+ * @param laps - Laps to include (laps without splits for sectorCount are ignored)
+ * @param sectorCount - Track.sectorCount
+ * @returns Summary, or null when no lap has splits
+ */
+export function summarizeSectors(laps: SectorLap[], sectorCount: number | null): SectorSummary | null {
+  if (!sectorCount) return null
+
+  const splitLaps = laps.filter((lap) => lap.sectorTimesMs?.length === sectorCount)
+  if (splitLaps.length === 0) return null
+
+  const byUser = new Map<string, SectorLap[]>()
+  for (const lap of splitLaps) {
+    byUser.set(lap.userId, [...(byUser.get(lap.userId) || []), lap])
+  }
+
+  const bestSplits = (userLaps: SectorLap[]) =>
+    Array.from({ length: sectorCount }, (_, sector) => Math.min(...userLaps.map((lap) => lap.sectorTimesMs![sector])))
+
+  const rows = [...byUser.entries()].map(([userId, userLaps]) => {
+    const fastest = userLaps.reduce((best, lap) => (lap.timeMs < best.timeMs ? lap : best))
+    const bestSectorsMs = bestSplits(userLaps)
+    return {
+      userId,
+      lapTimeMs: fastest.timeMs,
+      sectorsMs: fastest.sectorTimesMs!,
+      bestSectorsMs,
+      theoreticalBestMs: bestSectorsMs.reduce((sum, split) => sum + split, 0),
+    }
+  }).sort((a, b) => a.lapTimeMs - b.lapTimeMs)
+
+  const leader = rows[0]
+  const bestSectorsMs = bestSplits(splitLaps)
+  const bestSectorUserIds = bestSectorsMs.map((split, sector) =>
+    rows.find((row) => row.bestSectorsMs[sector] === split)!.userId
+  )
+
+  return {
+    sectorCount,
+    bestSectorsMs,
+    bestSectorUserIds,
+    theoreticalBestMs: bestSectorsMs.reduce((sum, split) => sum + split, 0),
+    drivers: rows.map((row) => ({
+      ...row,
+      deltasMs: row.sectorsMs.map((split, sector) => split - leader.sectorsMs[sector]),
+    })),
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Track Record Announcements
+ *
+ * Purpose: Tell the group about a broken track record (server only - sends email)
+ * - Sticky note on the Notes board, posted as the record breaker, tagged "track-record"
+ * - Email to every approved member except the record breaker (Resend)
+ *
+ * **Debugging Tips:**
+ * - Note missing: Check the Note insert error in the server log
+ * - Emails not arriving: Check RESEND_API_KEY / EMAIL_FROM; failures are only logged
+ *
+ * **Related Files:**
+ * - @/lib/track-records.ts: Record types, note text, update/rebuild functions
+ * - @/lib/email.tsx: sendTrackRecordNotification
+ * - @/emails/track-record-email.tsx: Email template
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sendTrackRecordNotification } from '@/lib/email'
+import { buildTrackRecordNote, type TrackRecordAnnouncement } from '@/lib/track-records'
+import { formatLapTime, getTimeDifference } from '@/lib/time'
+
+// Sticky note colour for record announcements (green on the Notes board)
+const TRACK_RECORD_NOTE_COLOR = '#bbf7d0'
+
+/**
+ * Announce broken records: sticky note on the Notes board + email to approved members
+ *
+ * Failures are logged, never thrown - the lap time is already saved.
+ *
+ * @param supabase - Service role client
+ * @param announcement - Who broke which records, with what car and build
+ */
+export async function announceTrackRecords(
+  supabase: SupabaseClient,
+  announcement: TrackRecordAnnouncement
+): Promise<void> {
+  const { title, content } = buildTrackRecordNote(announcement)
+
+  const { error: noteError } = await supabase
+    .from('Note')
+    .insert({
+      id: crypto.randomUUID(),
+      title,
+      content,
+      color: TRACK_RECORD_NOTE_COLOR,
+      positionX: 0,
+      positionY: 0,
+      tags: ['track-record'],
+      createdBy: announcement.userId,
+    })
+
+  if (noteError) {
+    console.error('[TRACK RECORDS] Failed to post record note:', noteError)
+  }
+
+  const { data: members, error: membersError } = await supabase
+    .from('User')
+    .select('email')
+    .in('role', ['USER', 'ADMIN'])
+    .neq('id', announcement.userId)
+    .not('email', 'eq', 'nulluser')
+
+  if (membersError) {
+    console.error('[TRACK RECORDS] Failed to load members for record email:', membersError)
+    return
+  }
+
+  const emails = (members || [])
+    .map((member: { email: string | null }) => member.email)
+    .filter((email: string | null): email is string => email !== null && email !== '')
+
+  if (emails.length === 0) return
+
+  try {
+    await sendTrackRecordNotification(emails, {
+      driverName: announcement.driverName,
+      trackName: announcement.trackName,
+      carName: announcement.carName,
+      buildName: announcement.buildName,
+      records: announcement.records.map((record) => ({
+        scope: record.scope,
+        time: formatLapTime(record.timeMs),
+        previousTime: formatLapTime(record.previousTimeMs),
+        previousHolder: record.previousHolder,
+        gap: `${getTimeDifference(record.timeMs, record.previousTimeMs)}s`,
+      })),
+    })
+  } catch (emailError) {
+    console.error('[TRACK RECORDS] Failed to send record email:', emailError)
+  }
+}
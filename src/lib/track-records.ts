@@ -0,0 +1,113 @@
+/**
+ * Track Records
+ *
+ * Purpose: Tell the group when someone beats the best time at a track
+ * - TrackRecord holds the fastest lap per track (category NULL = overall) and per
+ *   track + car category
+ * - update_track_records() (Postgres) checks a new lap against both records in one
+ *   transaction, locked per track, and returns the records it set; create_lap_time()
+ *   inserts the lap and runs it in the same transaction
+ * - A broken record (one that replaced an earlier record) is announced with an email
+ *   to every approved member and an automatic sticky note on the Notes board
+ *
+ * **Functions Provided:**
+ * - recordScopeLabel(): TrackRecord.category → "Overall" / "N300 class"
+ * - createLapTime(): Insert a lap and run update_track_records() for it (create_lap_time())
+ * - rebuildTrackRecords(): Recompute a track's records after a lap was edited/deleted/removed
+ * - buildTrackRecordNote(): Title + content of the Notes board announcement
+ *
+ * **Debugging Tips:**
+ * - No announcement for a first lap: A track/category without a record gets one silently
+ *   (previousTimeMs NULL) - only beating an existing record is announced
+ * - Record still shows a deleted lap: rebuild_track_records() is called by the lap
+ *   DELETE/PATCH routes and the dispute resolution - check those for errors
+ *
+ * **Related Files:**
+ * - supabase/migrations/20261019200000_track_records.sql: Table + functions
+ * - supabase/migrations/20261019340000_create_lap_time.sql: Insert + record check
+ * - @/app/api/lap-times/route.ts: POST checks every new lap
+ * - @/app/api/track-records/route.ts: Current records for a track
+ * - @/lib/track-record-announcements.ts: Sticky note + email (server only)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { formatLapTime, getTimeDifference } from '@/lib/time'
+
+// Row returned by update_track_records() / create_lap_time()
+export interface TrackRecordChange {
+  category: string | null
+  timeMs: number
+  previousTimeMs: number | null
+  previousUserId: string | null
+}
+
+export interface BrokenTrackRecord {
+  scope: string
+  timeMs: number
+  previousTimeMs: number
+  previousHolder: string
+}
+
+export interface TrackRecordAnnouncement {
+  userId: string
+  driverName: string
+  trackName: string
+  carName: string
+  buildName: string | null
+  records: BrokenTrackRecord[]
+}
+
+export function recordScopeLabel(category: string | null): string {
+  return category ? `${category} class` : 'Overall'
+}
+
+/**
+ * Insert a lap and check it against the records at its track in one transaction
+ * (if the record check fails, the lap is not saved either)
+ *
+ * @param supabase - Service role client
+ * @param lap - LapTime columns to insert (id included)
+ * @returns Every record the lap set (including first records, previousTimeMs NULL)
+ * @throws Supabase error if the function fails
+ */
+export async function createLapTime(
+  supabase: SupabaseClient,
+  lap: Record<string, unknown>
+): Promise<TrackRecordChange[]> {
+  const { data, error } = await supabase.rpc('create_lap_time', { p_lap: lap })
+
+  if (error) throw error
+  return (data || []) as TrackRecordChange[]
+}
+
+/**
+ * Recompute a track's records from its remaining laps (no announcements)
+ *
+ * @param supabase - Service role client
+ * @param trackId - Track whose records may have changed
+ */
+export async function rebuildTrackRecords(supabase: SupabaseClient, trackId: string): Promise<void> {
+  const { error } = await supabase.rpc('rebuild_track_records', { p_track_id: trackId })
+
+  if (error) {
+    console.error('[TRACK RECORDS] Failed to rebuild records for track', trackId, error)
+  }
+}
+
+export function buildTrackRecordNote(announcement: TrackRecordAnnouncement): { title: string; content: string } {
+  const { driverName, trackName, carName, buildName, records } = announcement
+
+  const lines = records.map((record) =>
+    `${record.scope}: ${formatLapTime(record.timeMs)} (${getTimeDifference(record.timeMs, record.previousTimeMs)}s ` +
+    `on ${record.previousHolder}'s ${formatLapTime(record.previousTimeMs)})`
+  )
+
+  return {
+    title: `🏆 ${trackName} record broken`,
+    content: [
+      `${driverName} broke the ${trackName} record in the ${carName}${buildName ? ` with build "${buildName}"` : ''}.`,
+      '',
+      ...lines,
+    ].join('\n'),
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Tuning Setting Validation
+ *
+ * Purpose: Check build setting values against their TuningSetting definition
+ * - The build forms send every setting as a free string ({ settingId, value })
+ * - The catalog (TuningSetting) knows the input type, range, step, decimals and options
+ * - Used by POST/PATCH /api/builds and POST /api/builds/quick before anything is written
+ *
+ * **Functions Provided:**
+ * - loadTuningSettingRules(): Fetch the definitions (plus section name) for a list of IDs
+ * - validateTuningSettingValue(): Reason a single value is invalid (null = valid)
+ * - validateBuildSettings(): Validate a settings payload, ZodError with one issue per bad setting
+ * - getSettingErrors(): Client helper - errors by settingId from a 400 response
+ *
+ * **Rules by inputType:**
+ * - select: Value must be one of the setting's options
+ * - dual / ratio / sliderDual / toeAngle: "front:rear", each side numeric and in range
+ * - number / decimal / singleSlider / gradientSlider / ballastSlider: Numeric and in range
+ * - Numeric values must also sit on the step grid (counted from minValue) and
+ *   have at most decimalPlaces decimals
+ * - text (and unknown types): Not checked
+ * - Empty values ('' or ':') are allowed - they mean "not set"
+ *
+ * **Error Format:**
+ * - Issues use the path ['settings', settingId], so formatZodError() returns
+ *   errors keyed 'settings.<settingId>' - the build forms use that to highlight the field
+ *
+ * **Debugging Tips:**
+ * - Valid value rejected for step: Check TuningSetting.step / minValue (numeric(10,4) / numeric(10,2))
+ * - Select rejected: Option text must match exactly (case and spacing)
+ * - "Unknown tuning setting": settingId doesn't exist (deleted setting or stale form)
+ * - Custom gears ("custom:Name") are never checked - they aren't catalog settings
+ *
+ * **Related Files:**
+ * - @/lib/api-error-handler.ts: formatZodError()
+ * - @/components/builds/BuildTuningTab.tsx: Renders each inputType (and the errors)
+ * - @/app/api/builds/route.ts, @/app/api/builds/[id]/route.ts, @/app/api/builds/quick/route.ts
+ */
+
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DbTuningSetting } from '@/types/database'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type TuningSettingRule = Pick<
+  DbTuningSetting,
+  'id' | 'name' | 'inputType' | 'minValue' | 'maxValue' | 'step' | 'decimalPlaces' | 'unit'
+> & {
+  options: string[] | null
+  sectionName: string
+}
+
+interface BuildSettingInput {
+  settingId?: string
+  value?: string
+}
+
+const DUAL_INPUT_TYPES = new Set(['dual', 'ratio', 'sliderDual', 'toeAngle'])
+const NUMERIC_INPUT_TYPES = new Set(['number', 'decimal', 'singleSlider', 'gradientSlider', 'ballastSlider'])
+
+// Tolerance for float rounding when checking the step grid (e.g. 0.1 + 0.2)
+const STEP_EPSILON = 1e-6
+
+// ============================================================
+// LOADING
+// ============================================================
+
+/**
+ * Options come back as text[], older rows stored a JSON string or comma list
+ */
+function parseOptions(options: unknown): string[] | null {
+  if (Array.isArray(options)) return options.map(String)
+  if (typeof options !== 'string' || options.trim() === '') return null
+  try {
+    const parsed = JSON.parse(options)
+    if (Array.isArray(parsed)) return parsed.map(String)
+  } catch {
+    // Not JSON - fall through to the comma list
+  }
+  return options.split(',').map((o) => o.trim()).filter(Boolean)
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/**
+ * Load the catalog definitions for the given setting IDs
+ *
+ * @param supabase - Service role client
+ * @param settingIds - TuningSetting IDs (custom gear IDs are ignored)
+ * @returns Rules keyed by setting ID (missing IDs are simply absent)
+ * @throws Supabase error if the query fails
+ */
+export async function loadTuningSettingRules(
+  supabase: SupabaseClient,
+  settingIds: string[]
+): Promise<Map<string, TuningSettingRule>> {
+  const ids = [...new Set(settingIds.filter((id) => id && !id.startsWith('custom:')))]
+  const rules = new Map<string, TuningSettingRule>()
+  if (ids.length === 0) return rules
+
+  const { data, error } = await supabase
+    .from('TuningSetting')
+    .select('id, name, inputType, minValue, maxValue, step, decimalPlaces, unit, options, section:TuningSection(name)')
+    .in('id', ids)
+
+  if (error) throw error
+
+  for (const row of data || []) {
+    rules.set(row.id, {
+      id: row.id,
+      name: row.name,
+      inputType: row.inputType,
+      minValue: toNumber(row.minValue),
+      maxValue: toNumber(row.maxValue),
+      step: toNumber(row.step),
+      decimalPlaces: toNumber(row.decimalPlaces),
+      unit: row.unit,
+      options: parseOptions(row.options),
+      sectionName: (row.section as { name?: string } | null)?.name || '',
+    })
+  }
+
+  return rules
+}
+
+// ============================================================
+// VALIDATION
+// ============================================================
+
+/**
+ * Check one numeric value against range, step and decimal places
+ */
+function checkNumber(rule: TuningSettingRule, raw: string, label: string): string | null {
+  const trimmed = raw.trim()
+  if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(trimmed)) {
+    return `${label} must be a number`
+  }
+
+  const value = Number(trimmed)
+  const unit = rule.unit ? ` ${rule.unit}` : ''
+
+  if (rule.minValue !== null && value < rule.minValue - STEP_EPSILON) {
+    return `${label} must be at least ${rule.minValue}${unit}`
+  }
+  if (rule.maxValue !== null && value > rule.maxValue + STEP_EPSILON) {
+    return `${label} must be at most ${rule.maxValue}${unit}`
+  }
+
+  if (rule.step !== null && rule.step > 0) {
+    const steps = (value - (rule.minValue ?? 0)) / rule.step
+    if (Math.abs(steps - Math.round(steps)) > STEP_EPSILON) {
+      return `${label} must be in steps of ${rule.step}`
+    }
+  }
+
+  if (rule.decimalPlaces !== null) {
+    const decimals = trimmed.split('.')[1]?.replace(/0+$/, '').length ?? 0
+    if (decimals > rule.decimalPlaces) {
+      return rule.decimalPlaces === 0
+        ? `${label} must be a whole number`
+        : `${label} allows at most ${rule.decimalPlaces} decimal places`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validate a single setting value against its definition
+ *
+ * @param rule - Setting definition from loadTuningSettingRules()
+ * @param value - Value as sent by the build form
+ * @returns Reason the value is invalid, or null if it's valid (or empty)
+ *
+ * @example
+ * validateTuningSettingValue(toeRule, '0.10:-0.05') // → null
+ * validateTuningSettingValue(toeRule, '0.10')       // → 'Toe Angle must be in "front:rear" format'
+ */
+export function validateTuningSettingValue(
+  rule: TuningSettingRule,
+  value: string | null | undefined
+): string | null {
+  const trimmed = (value ?? '').trim()
+  if (trimmed === '' || trimmed === ':') return null
+
+  const inputType = rule.inputType || 'text'
+
+  if (inputType === 'select') {
+    if (rule.options && rule.options.length > 0 && !rule.options.includes(trimmed)) {
+      return `${rule.name} must be one of: ${rule.options.join(', ')}`
+    }
+    return null
+  }
+
+  if (DUAL_INPUT_TYPES.has(inputType)) {
+    const parts = trimmed.split(':')
+    if (parts.length !== 2) {
+      return `${rule.name} must be in "front:rear" format`
+    }
+    const [front, rear] = parts
+    return (front.trim() === '' ? null : checkNumber(rule, front, `${rule.name} (front)`))
+      || (rear.trim() === '' ? null : checkNumber(rule, rear, `${rule.name} (rear)`))
+  }
+
+  if (NUMERIC_INPUT_TYPES.has(inputType)) {
+    return checkNumber(rule, trimmed, rule.name)
+  }
+
+  return null
+}
+
+/**
+ * Validate a build's settings payload against the catalog
+ *
+ * @param settings - settings[] from the request body
+ * @param rules - Definitions from loadTuningSettingRules()
+ * @returns null when every setting is valid, otherwise a ZodError (one issue per bad setting)
+ *   to pass through formatZodError() / handleApiError()
+ */
+export function validateBuildSettings(
+  settings: BuildSettingInput[] | undefined,
+  rules: Map<string, TuningSettingRule>
+): z.ZodError | null {
+  const schema = z.array(z.object({
+    settingId: z.string().optional(),
+    value: z.string().optional(),
+  }).loose()).superRefine((items, ctx) => {
+    for (const item of items) {
+      if (!item.settingId || item.settingId.startsWith('custom:')) continue
+
+      const rule = rules.get(item.settingId)
+      const message = rule
+        ? validateTuningSettingValue(rule, item.value)
+        : 'Unknown tuning setting'
+
+      if (message) {
+        ctx.addIssue({ code: 'custom', path: [item.settingId], message })
+      }
+    }
+  })
+
+  const result = schema.safeParse(settings || [])
+  if (result.success) return null
+
+  // Prefix with 'settings' so formatZodError keys read 'settings.<settingId>'
+  return new z.ZodError(result.error.issues.map((issue) => ({ ...issue, path: ['settings', ...issue.path] })))
+}
+
+/**
+ * Pick the per-setting errors out of an API error response (client side)
+ *
+ * @param errors - `errors` from a 400 response ({ 'settings.<settingId>': message, ... })
+ * @returns Messages keyed by settingId (empty when there are none)
+ */
+export function getSettingErrors(errors: Record<string, string> | null | undefined): Record<string, string> {
+  const settingErrors: Record<string, string> = {}
+  for (const [path, message] of Object.entries(errors || {})) {
+    if (path.startsWith('settings.')) {
+      settingErrors[path.slice('settings.'.length)] = message
+    }
+  }
+  return settingErrors
+}
@@ -14,10 +14,26 @@
 
 import { z } from 'zod'
 
+// Mirror the CarCategory / DriveType database enums
+const CarCategorySchema = z.enum([
+  'N100', 'N200', 'N300', 'N400', 'N500', 'N600', 'N700', 'N800', 'N900', 'N1000',
+  'GR1', 'GR2', 'GR3', 'GR4', 'RALLY', 'KART', 'VISION_GT', 'OTHER',
+])
+const DriveTypeSchema = z.enum(['FF', 'FR', 'MR', 'RR', 'AWD'])
+
+// Query string schemas: empty parameters (?category=) count as "not set"
+const emptyToUndefined = (val: unknown) => (val === '' || val === null ? undefined : val)
+
 // ============================================
 // Build Schemas
 // ============================================
 
+// Gearing calculator inputs (see @/lib/gearing.ts) - sent as strings from the form, '' clears
+const TyreSizeSchema = z.string().max(20, 'Tyre size must be less than 20 characters').transform(val => val.trim())
+const RedlineRpmSchema = z.string()
+  .regex(/^\d*$/, 'Redline must be a whole number of RPM')
+  .refine(val => val === '' || (Number(val) >= 1000 && Number(val) <= 20000), 'Redline must be between 1000 and 20000 RPM')
+
 export const CreateBuildSchema = z.object({
   carId: z.string().min(1, 'Car ID is required'),
   name: z.string().min(1, 'Build name is required').max(100, 'Build name must be less than 100 characters').transform(val => val.trim()),
@@ -58,12 +74,19 @@ export const CreateBuildSchema = z.object({
   gear18: z.string().optional(),
   gear19: z.string().optional(),
   gear20: z.string().optional(),
+  tyreSize: TyreSizeSchema.optional(),
+  redlineRpm: RedlineRpmSchema.optional(),
 })
 
 export const QuickBuildSchema = z.object({
   carId: z.string().min(1, 'Car ID is required'),
   name: z.string().min(1, 'Build name is required').max(100, 'Build name must be less than 100 characters').transform(val => val.trim()),
   description: z.string().max(500, 'Description must be less than 500 characters').transform(val => val.trim()).optional().nullable(),
+  // Optional starting tune - values are checked against the catalog (see @/lib/tuning-validation.ts)
+  settings: z.array(z.object({
+    settingId: z.string().min(1, 'Setting ID is required'),
+    value: z.string().optional(),
+  })).max(200).optional(),
   // Gear ratios as direct build fields
   finalDrive: z.string().optional(),
   gear1: z.string().optional(),
@@ -127,12 +150,120 @@ export const UpdateBuildSchema = z.object({
   gear18: z.string().optional(),
   gear19: z.string().optional(),
   gear20: z.string().optional(),
+  tyreSize: TyreSizeSchema.optional(),
+  redlineRpm: RedlineRpmSchema.optional(),
 }).strict()
 
+// Portable build document (export/import) - see @/lib/build-export.ts
+// Version 1 is the only version so far; newer versions are rejected with a clear message
+const BuildExportGearFields = [
+  'finalDrive',
+  'gear1', 'gear2', 'gear3', 'gear4', 'gear5', 'gear6', 'gear7', 'gear8', 'gear9', 'gear10',
+  'gear11', 'gear12', 'gear13', 'gear14', 'gear15', 'gear16', 'gear17', 'gear18', 'gear19', 'gear20',
+] as const
+
+export const BuildExportDocumentSchema = z.object({
+  format: z.literal('fridaygt-build', 'Not a FridayGT build document'),
+  version: z.number().int().positive().max(1, 'This setup code was made by a newer version of FridayGT'),
+  car: z.object({
+    slug: z.string().min(1, 'Car slug is required'),
+    manufacturer: z.string(),
+    name: z.string(),
+    year: z.number().int().nullable().optional(),
+  }),
+  name: z.string().min(1, 'Build name is required').max(100, 'Build name must be less than 100 characters'),
+  description: z.string().max(500, 'Description must be less than 500 characters').nullable().optional(),
+  upgrades: z.array(z.object({
+    category: z.string(),
+    part: z.string().min(1),
+    value: z.string().nullable().optional(),
+  })).max(200).default([]),
+  settings: z.array(z.object({
+    section: z.string(),
+    setting: z.string().min(1),
+    value: z.string(),
+    custom: z.boolean().optional(),
+  })).max(200).default([]),
+  gears: z.partialRecord(z.enum(BuildExportGearFields), z.string().max(20)).default({}),
+})
+
+export type BuildExportDocument = z.infer<typeof BuildExportDocumentSchema>
+
+export const ImportBuildSchema = z.object({
+  code: z.string().max(20000, 'Setup code is too long').optional(),
+  document: z.unknown().optional(),
+}).refine(data => data.code || data.document, 'Paste a setup code or JSON document')
+
+// Partial setups (see @/lib/build-partial-setup.ts) - sections/categories are catalog names
+const SetupScopeFields = {
+  sections: z.array(z.string().min(1).max(100)).max(50).default([]),
+  categories: z.array(z.string().min(1).max(100)).max(50).default([]),
+}
+const TargetBuildIdsSchema = z.array(z.string().min(1)).min(1, 'Choose at least one target build').max(20, 'At most 20 target builds at a time')
+
+export const CopyBuildSetupSchema = z.object({
+  ...SetupScopeFields,
+  targetBuildIds: TargetBuildIdsSchema,
+  preview: z.boolean().default(false),
+}).refine(data => data.sections.length > 0 || data.categories.length > 0, {
+  message: 'Choose at least one tuning section or part category',
+  path: ['sections'],
+})
+
+export const CreateBuildTemplateSchema = z.object({
+  ...SetupScopeFields,
+  buildId: z.string().min(1, 'Source build is required'),
+  name: z.string().min(1, 'Template name is required').max(100, 'Template name must be less than 100 characters').transform(val => val.trim()),
+  description: z.string().max(500, 'Description must be less than 500 characters').transform(val => val.trim()).optional().nullable(),
+  isPublic: z.boolean().optional(),
+}).refine(data => data.sections.length > 0 || data.categories.length > 0, {
+  message: 'Choose at least one tuning section or part category',
+  path: ['sections'],
+})
+
+export const UpdateBuildTemplateSchema = z.object({
+  name: z.string().min(1, 'Template name is required').max(100, 'Template name must be less than 100 characters').transform(val => val.trim()).optional(),
+  description: z.string().max(500, 'Description must be less than 500 characters').transform(val => val.trim()).optional().nullable(),
+  isPublic: z.boolean().optional(),
+}).strict()
+
+export const ApplyBuildTemplateSchema = z.object({
+  targetBuildIds: TargetBuildIdsSchema,
+  preview: z.boolean().default(false),
+})
+
+// Build search (GET /api/builds/search) - query string values, so numbers are coerced
+
+export const BuildSearchQuerySchema = z.object({
+  q: z.preprocess(emptyToUndefined, z.string().max(200, 'Search must be less than 200 characters').optional()),
+  manufacturer: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  category: z.preprocess(emptyToUndefined, CarCategorySchema.optional()),
+  driveType: z.preprocess(emptyToUndefined, DriveTypeSchema.optional()),
+  userId: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  trackId: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  partId: z.preprocess(emptyToUndefined, z.uuid('Part ID must be a UUID').optional()),
+  public: z.preprocess(emptyToUndefined, z.enum(['true', 'false']).optional()).transform(val => val === 'true'),
+  myBuilds: z.preprocess(emptyToUndefined, z.enum(['true', 'false']).optional()).transform(val => val === 'true'),
+  minPp: z.preprocess(emptyToUndefined, z.coerce.number().nonnegative().optional()),
+  maxPp: z.preprocess(emptyToUndefined, z.coerce.number().nonnegative().optional()),
+  sort: z.preprocess(emptyToUndefined, z.enum(['recent', 'races', 'fastest']).default('recent')),
+  page: z.preprocess(emptyToUndefined, z.coerce.number().int().min(1).default(1)),
+  limit: z.preprocess(emptyToUndefined, z.coerce.number().int().min(1).max(100).default(20)),
+})
+
 // ============================================
 // Race Schemas
 // ============================================
 
+// Regulations - tyre codes mirror the compound codes of CarStockPerformance
+export const RaceRegulationsSchema = z.object({
+  maxPp: z.number().positive('PP cap must be positive').max(2000, 'PP cap must be at most 2000').nullable().optional(),
+  tyres: z.array(z.enum(['CH', 'CM', 'CS', 'SH', 'SM', 'SS', 'RH', 'RM', 'RS', 'IM', 'W', 'D', 'S'])).max(13).optional(),
+  categories: z.array(CarCategorySchema).max(18).optional(),
+  driveTypes: z.array(DriveTypeSchema).max(5).optional(),
+  manufacturers: z.array(z.string().min(1).max(100)).max(100).optional(),
+}).strict()
+
 export const CreateRaceSchema = z.object({
   name: z.string().min(1, 'Race name is required').max(100, 'Race name must be less than 100 characters').transform(val => val?.trim?.() || val).optional().nullable(),
   description: z.string().max(500, 'Description must be less than 500 characters').transform(val => val?.trim?.() || val).optional().nullable(),
@@ -141,6 +272,7 @@ export const CreateRaceSchema = z.object({
   laps: z.number().int().positive('Laps must be a positive integer').optional(),
   weather: z.enum(['dry', 'wet']).optional(),
   isActive: z.boolean().optional(),
+  regulations: RaceRegulationsSchema.nullable().optional(),
 })
 
 export const UpdateRaceSchema = z.object({
@@ -151,12 +283,123 @@ export const UpdateRaceSchema = z.object({
   isActive: z.boolean().optional(),
   order: z.number().int().positive().optional(),
   buildIds: z.array(z.string().min(1)).min(1).optional(),
+  regulations: RaceRegulationsSchema.nullable().optional(),
+  lobbySettingsId: z.string().min(1, 'Invalid lobby preset ID').nullable().optional(),
+}).strict()
+
+// Race results (PUT /api/races/[id]/results) - the full classification, replaces the old one
+// Classification rules (positions 1..n, DNF behind finishers) are checked by checkRaceResults()
+export const RaceResultEntrySchema = z.object({
+  userId: z.string().min(1, 'Driver is required'),
+  buildId: z.string().min(1).nullable().optional(),
+  status: z.enum(['FINISHED', 'DNF', 'DNS']),
+  position: z.number().int().min(1, 'Position must be at least 1').max(100).nullable().optional(),
+  totalTimeMs: z.number().int().min(10000, 'Race time must be at least 10 seconds').max(86400000, 'Race time must be at most 24 hours').nullable().optional(),
+  fastestLapMs: z.number().int().min(10000, 'Lap time must be at least 10 seconds').max(1800000, 'Lap time must be at most 30 minutes').nullable().optional(),
+})
+
+export const SaveRaceResultsSchema = z.object({
+  results: z.array(RaceResultEntrySchema).max(100, 'Maximum 100 drivers per race'),
+  // Points for P1, P2, ... - null = default table
+  pointsTable: z.array(z.number().int().min(0, 'Points can\'t be negative').max(1000))
+    .min(1, 'The points table needs at least one position')
+    .max(100)
+    .nullable()
+    .optional(),
+  completed: z.boolean(),
+}).refine(data => new Set(data.results.map(result => result.userId)).size === data.results.length, {
+  message: 'Each driver can only have one result',
+  path: ['results'],
+})
+
+// Championships - raceIds in round order (round 1 first), replaces the rounds
+const ChampionshipRaceIdsSchema = z.array(z.string().min(1, 'Invalid race ID'))
+  .max(100, 'Maximum 100 rounds per championship')
+  .refine(ids => new Set(ids).size === ids.length, 'A race can only be one round')
+
+export const CreateChampionshipSchema = z.object({
+  name: z.string().min(1, 'Championship name is required').max(100, 'Championship name must be less than 100 characters').transform(val => val.trim()),
+  description: z.string().max(500, 'Description must be less than 500 characters').transform(val => val?.trim?.() || val).optional().nullable(),
+  dropWorstRounds: z.number().int().min(0, 'Dropped rounds can\'t be negative').max(50).default(0),
+  raceIds: ChampionshipRaceIdsSchema.default([]),
+})
+
+export const UpdateChampionshipSchema = z.object({
+  name: z.string().min(1, 'Championship name is required').max(100, 'Championship name must be less than 100 characters').transform(val => val.trim()).optional(),
+  description: z.string().max(500, 'Description must be less than 500 characters').transform(val => val?.trim?.() || val).optional().nullable(),
+  dropWorstRounds: z.number().int().min(0, 'Dropped rounds can\'t be negative').max(50).optional(),
+  raceIds: ChampionshipRaceIdsSchema.optional(),
+}).strict()
+
+// Race nights (RunSession) - raceIds in running order, replaces the lineup
+const RaceNightRaceIdsSchema = z.array(z.string().min(1, 'Invalid race ID'))
+  .max(50, 'Maximum 50 races per night')
+  .refine(ids => new Set(ids).size === ids.length, 'A race can only be on the lineup once')
+
+export const CreateRaceNightSchema = z.object({
+  name: z.string().min(1, 'Race night name is required').max(100, 'Race night name must be less than 100 characters').transform(val => val.trim()),
+  description: z.string().max(500, 'Description must be less than 500 characters').transform(val => val?.trim?.() || val).optional().nullable(),
+  date: z.iso.date('Date must be YYYY-MM-DD'),
+  raceIds: RaceNightRaceIdsSchema.default([]),
+})
+
+export const UpdateRaceNightSchema = z.object({
+  name: z.string().min(1, 'Race night name is required').max(100, 'Race night name must be less than 100 characters').transform(val => val.trim()).optional(),
+  description: z.string().max(500, 'Description must be less than 500 characters').transform(val => val?.trim?.() || val).optional().nullable(),
+  date: z.iso.date('Date must be YYYY-MM-DD').optional(),
+  status: z.enum(['SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED']).optional(),
+  // RunListEntry.order of the race being run now (1 = first race)
+  currentEntryOrder: z.number().int().min(1, 'Race number must be at least 1').optional(),
+  raceIds: RaceNightRaceIdsSchema.optional(),
 }).strict()
 
+export const RaceNightListQuerySchema = z.object({
+  archived: z.preprocess(emptyToUndefined, z.enum(['true', 'false']).default('false')),
+})
+
+// Tonight (GET /api/race-nights/current) - date = the browser's local date
+export const RaceNightCurrentQuerySchema = z.object({
+  date: z.preprocess(emptyToUndefined, z.iso.date('Date must be YYYY-MM-DD').optional()),
+})
+
+// Lobby presets (LobbySettings) - enums mirror the lobby enums of the remote schema
+const LobbySettingsFields = {
+  name: z.string().min(1, 'Preset name is required').max(100, 'Preset name must be less than 100 characters').transform(val => val.trim()),
+  laps: z.number().int().min(1, 'Laps must be at least 1').max(999).nullable(),
+  raceType: z.enum(['LAPS', 'TIME_TRIAL', 'ENDURANCE']),
+  startType: z.enum(['GRID', 'ROLLING', 'FALSE_START_CHECK']),
+  boostLevel: z.enum(['OFF', 'WEAK', 'STRONG']),
+  tireWearMultiplier: z.number().int().min(0, 'Tyre wear can\'t be negative').max(50, 'Tyre wear must be at most ×50'),
+  fuelConsumption: z.number().int().min(0, 'Fuel consumption can\'t be negative').max(50, 'Fuel consumption must be at most ×50'),
+  requiredTires: z.array(z.enum(['CH', 'CM', 'CS', 'SH', 'SM', 'SS', 'RH', 'RM', 'RS', 'IM', 'W', 'D', 'S'])).max(13),
+  mechanicalDamage: z.enum(['NONE', 'LIGHT', 'HEAVY']),
+  penaltyLevel: z.enum(['OFF', 'WEAK', 'DEFAULT', 'STRONG']),
+  lowMuSurface: z.boolean(),
+  wallCollisionPenalty: z.boolean(),
+  cornerCuttingPenalty: z.boolean(),
+  weather: z.enum(['FIXED', 'RANDOM', 'DYNAMIC']),
+  weatherChangeability: z.number().int().min(0).max(10, 'Weather changeability must be at most 10'),
+  timeOfDay: z.enum(['DAWN', 'MORNING', 'NOON', 'AFTERNOON', 'DUSK', 'NIGHT']),
+  timeProgression: z.number().int().min(0).max(60, 'Time progression must be at most ×60'),
+  abs: z.enum(['OFF', 'WEAK', 'DEFAULT', 'STRONG', 'PROHIBITED']),
+  counterSteer: z.enum(['OFF', 'WEAK', 'DEFAULT', 'STRONG', 'PROHIBITED']),
+  tractionControl: z.enum(['OFF', 'WEAK', 'DEFAULT', 'STRONG', 'PROHIBITED']),
+  activeStabilityMgmt: z.enum(['OFF', 'WEAK', 'DEFAULT', 'STRONG', 'PROHIBITED']),
+  drivingLine: z.boolean(),
+}
+
+// Only the name is required - missing settings get the column defaults
+export const CreateLobbySettingsSchema = z.object(LobbySettingsFields).partial().required({ name: true }).strict()
+
+export const UpdateLobbySettingsSchema = z.object(LobbySettingsFields).partial().strict()
+
 // ============================================
 // Lap Time Schemas
 // ============================================
 
+// P = Practice, Q = Qualifying, R = Race (LapTime_sessionType_check)
+const SessionTypeSchema = z.enum(['P', 'Q', 'R'])
+
 export const CreateLapTimeSchema = z.object({
   carId: z.string().uuid('Invalid car ID'),
   trackId: z.string().uuid('Invalid track ID'),
@@ -168,8 +411,184 @@ export const CreateLapTimeSchema = z.object({
     .max(1800000, 'Lap time must be at most 30 minutes'),
   notes: z.string().max(500, 'Notes must be less than 500 characters').optional().nullable(),
   conditions: z.string().max(200, 'Conditions must be less than 200 characters').optional().nullable(),
-  sessionType: z.enum(['Q', 'R']).optional(),
+  sessionType: SessionTypeSchema.optional(),
+  // Lap session (stint) - must be the user's session at the same track; its sessionType wins
+  sessionId: z.string().min(1, 'Invalid session ID').optional().nullable(),
   buildName: z.string().optional().nullable(),
+  // Checked against Track.sectorCount and timeMs by the endpoint (see lib/sectors.ts)
+  sectorTimesMs: z.array(z.number().int('Sector time must be an integer').positive('Sector time must be positive'))
+    .min(2, 'At least 2 sector times')
+    .max(10, 'At most 10 sector times')
+    .optional()
+    .nullable(),
+  // Save a time flagged as an outlier anyway (it waits for an admin review, see lib/lap-time-outliers.ts)
+  confirmOutlier: z.boolean().optional(),
+})
+
+// Lap time edit (PATCH /api/lap-times/[id]) - every edit is recorded in LapTimeEdit with its reason
+export const UpdateLapTimeSchema = z.object({
+  timeMs: z.number()
+    .int('Time must be an integer')
+    .min(10000, 'Lap time must be at least 10 seconds')
+    .max(1800000, 'Lap time must be at most 30 minutes')
+    .optional(),
+  // Omitted with a new timeMs = old splits are cleared (they no longer add up)
+  sectorTimesMs: z.array(z.number().int('Sector time must be an integer').positive('Sector time must be positive'))
+    .min(2, 'At least 2 sector times')
+    .max(10, 'At most 10 sector times')
+    .optional()
+    .nullable(),
+  notes: z.string().max(500, 'Notes must be less than 500 characters').optional().nullable(),
+  conditions: z.string().max(200, 'Conditions must be less than 200 characters').optional().nullable(),
+  reason: z.string().trim().min(1, 'A reason is required').max(500, 'Reason must be less than 500 characters'),
+  confirmOutlier: z.boolean().optional(),
+}).strict()
+
+// Lap time disputes - raised by other members (POST /api/lap-times/[id]/disputes), resolved by admins
+export const CreateLapTimeDisputeSchema = z.object({
+  comment: z.string().trim().min(1, 'A comment is required').max(1000, 'Comment must be less than 1000 characters'),
+})
+
+export const ResolveLapTimeDisputeSchema = z.object({
+  resolution: z.enum(['ACCEPTED', 'REMOVED']),
+  resolutionNote: z.string().max(500, 'Note must be less than 500 characters').optional().nullable(),
+})
+
+export const LapTimeDisputeListQuerySchema = z.object({
+  status: z.preprocess(emptyToUndefined, z.enum(['OPEN', 'ACCEPTED', 'REMOVED', 'all']).default('OPEN')),
+})
+
+// Outlier review of flagged lap times (PATCH /api/lap-time-reviews/[id], admin)
+export const ReviewLapTimeSchema = z.object({
+  decision: z.enum(['APPROVED', 'REJECTED']),
+  note: z.string().max(500, 'Note must be less than 500 characters').optional().nullable(),
+})
+
+export const LapTimeReviewListQuerySchema = z.object({
+  status: z.preprocess(emptyToUndefined, z.enum(['PENDING', 'APPROVED', 'REJECTED', 'all']).default('PENDING')),
+})
+
+// Track sector configuration (PATCH /api/tracks/[id], admin) - null removes sectors
+export const UpdateTrackSectorsSchema = z.object({
+  sectorCount: z.number()
+    .int('Sector count must be an integer')
+    .min(2, 'At least 2 sectors')
+    .max(10, 'At most 10 sectors')
+    .nullable(),
+})
+
+// Global leaderboard (GET /api/leaderboards) - from/to are inclusive calendar days (UTC)
+export const LeaderboardQuerySchema = z.object({
+  trackId: z.string().min(1, 'Track is required'),
+  category: z.preprocess(emptyToUndefined, CarCategorySchema.optional()),
+  carId: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  buildId: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  conditions: z.preprocess(emptyToUndefined, z.string().max(200).optional()),
+  sessionType: z.preprocess(emptyToUndefined, SessionTypeSchema.optional()),
+  from: z.preprocess(emptyToUndefined, z.iso.date('From must be a date (YYYY-MM-DD)').optional()),
+  to: z.preprocess(emptyToUndefined, z.iso.date('To must be a date (YYYY-MM-DD)').optional()),
+}).refine(data => !data.from || !data.to || data.from <= data.to, {
+  message: 'From date must be before the to date',
+  path: ['from'],
+})
+
+// Bulk race-night entry (POST /api/races/[id]/lap-times) - one time per member, one insert
+export const BulkLapTimeEntrySchema = z.object({
+  userId: z.string().min(1, 'Driver is required'),
+  buildId: z.string().min(1, 'Build is required'),
+  timeMs: z.number()
+    .int('Time must be an integer')
+    .min(10000, 'Lap time must be at least 10 seconds')
+    .max(1800000, 'Lap time must be at most 30 minutes'),
+})
+
+export const BulkLapTimesSchema = z.object({
+  entries: z.array(BulkLapTimeEntrySchema)
+    .min(1, 'Enter at least one lap time')
+    .max(50, 'Maximum 50 lap times per submission'),
+  conditions: z.string().max(200, 'Conditions must be less than 200 characters').optional().nullable(),
+  sessionType: SessionTypeSchema.optional(),
+  notes: z.string().max(500, 'Notes must be less than 500 characters').optional().nullable(),
+  // Save rows flagged as outliers anyway (they wait for an admin review, see lib/lap-time-outliers.ts)
+  confirmOutliers: z.boolean().optional(),
+}).refine(data => new Set(data.entries.map(entry => entry.userId)).size === data.entries.length, {
+  message: 'Each driver can only have one lap time per submission',
+  path: ['entries'],
+})
+
+// CSV import (POST /api/lap-times/import) - commit: false = preview only
+export const ImportLapTimesSchema = z.object({
+  csv: z.string()
+    .min(1, 'CSV is empty')
+    .max(500000, 'CSV must be smaller than 500 KB'),
+  commit: z.boolean().optional(),
+  // Import rows flagged as outliers anyway (they wait for an admin review, see lib/lap-time-outliers.ts)
+  confirmOutliers: z.boolean().optional(),
+})
+
+// Export (GET /api/lap-times/export) - raceId exports a race, otherwise a user's laps
+export const LapTimeExportQuerySchema = z.object({
+  format: z.preprocess(emptyToUndefined, z.enum(['csv', 'json']).default('csv')),
+  raceId: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  userId: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+})
+
+// Lap sessions (stints) - one driver, one track; raceId sets the track when given
+export const CreateLapSessionSchema = z.object({
+  trackId: z.preprocess(emptyToUndefined, z.string().min(1).optional()),
+  raceId: z.preprocess(emptyToUndefined, z.string().min(1).optional()),
+  date: z.iso.date('Date must be YYYY-MM-DD').optional(),
+  sessionType: SessionTypeSchema.default('P'),
+  conditions: z.string().max(200, 'Conditions must be less than 200 characters').optional().nullable(),
+  notes: z.string().max(500, 'Notes must be less than 500 characters').optional().nullable(),
+  // Existing laps to group into the new session (same track, own laps)
+  lapTimeIds: z.array(z.string().min(1)).max(100, 'At most 100 laps per session').optional(),
+}).refine(data => data.trackId || data.raceId, {
+  message: 'Track or race is required',
+  path: ['trackId'],
+})
+
+export const UpdateLapSessionSchema = z.object({
+  date: z.iso.date('Date must be YYYY-MM-DD').optional(),
+  sessionType: SessionTypeSchema.optional(),
+  conditions: z.string().max(200, 'Conditions must be less than 200 characters').optional().nullable(),
+  notes: z.string().max(500, 'Notes must be less than 500 characters').optional().nullable(),
+  addLapTimeIds: z.array(z.string().min(1)).max(100, 'At most 100 laps at a time').optional(),
+  removeLapTimeIds: z.array(z.string().min(1)).max(100, 'At most 100 laps at a time').optional(),
+}).strict()
+
+export const LapSessionListQuerySchema = z.object({
+  trackId: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  raceId: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+})
+
+// Head-to-head (GET /api/compare/drivers) - no a/b = list of drivers to pick from
+export const DriverComparisonQuerySchema = z.object({
+  a: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  b: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  car: z.preprocess(emptyToUndefined, z.enum(['any', 'same']).default('any')),
+}).refine(data => !data.a === !data.b, {
+  message: 'Pick two drivers to compare',
+  path: ['b'],
+}).refine(data => !data.a || data.a !== data.b, {
+  message: 'Pick two different drivers',
+  path: ['b'],
+})
+
+export const TrackRecordListQuerySchema = z.object({
+  trackId: z.string().min(1, 'Track is required').max(100),
+})
+
+// PB progression (GET /api/lap-times/progression) - no trackId = list of combos
+// buildId: a build id, "none" (laps without a build), or omitted (all builds)
+export const PbProgressionQuerySchema = z.object({
+  trackId: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  carId: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  buildId: z.preprocess(emptyToUndefined, z.string().max(100).optional()),
+  window: z.preprocess(emptyToUndefined, z.coerce.number().int().min(2).max(50).default(5)),
+}).refine(data => !data.trackId || data.carId, {
+  message: 'Car is required when a track is selected',
+  path: ['carId'],
 })
 
 // ============================================
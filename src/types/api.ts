@@ -151,7 +151,8 @@ export interface CreateLapTimeRequest {
   timeMs: number
   conditions?: string
   notes?: string
-  sessionType?: 'Q' | 'R' | null
+  sessionType?: 'P' | 'Q' | 'R' | null
+  sessionId?: string | null
 }
 
 // ============================================================================
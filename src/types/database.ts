@@ -40,6 +40,20 @@ export interface DbCar {
   price: number | null
 }
 
+// GT7 tyre compound codes (stockperf.csv): Comfort/Sports/Racing Hard/Medium/Soft,
+// Intermediate, heavy Wet, Dirt, Snow
+export type TyreCompound =
+  | 'CH' | 'CM' | 'CS'
+  | 'SH' | 'SM' | 'SS'
+  | 'RH' | 'RM' | 'RS'
+  | 'IM' | 'W' | 'D' | 'S'
+
+export interface DbCarStockPerformance {
+  carId: string
+  tyre: TyreCompound
+  pp: number
+}
+
 export interface DbTrack {
   id: string
   slug: string
@@ -50,6 +64,7 @@ export interface DbTrack {
   country: string | null
   length: number | null
   isReverseLayout: boolean | null
+  sectorCount: number | null
 }
 
 export interface DbPartCategory {
@@ -90,6 +105,7 @@ export interface DbTuningSetting {
   minValue: number | null
   maxValue: number | null
   step: number | null
+  decimalPlaces: number | null
   defaultValue: string | null
   unit: string | null
   displayOrder: number | null
@@ -136,6 +152,14 @@ export interface DbCarBuild {
   gear18: string | null
   gear19: string | null
   gear20: string | null
+  // Gearing calculator inputs (driven tyre size, e.g. "245/40R18")
+  tyreSize: string | null
+  redlineRpm: number | null
+  // Estimated performance (recomputed on save, see @/lib/build-performance.ts)
+  estimatedPp: number | null
+  estimatedPower: number | null
+  estimatedWeight: number | null
+  estimatedTyre: TyreCompound | null
 }
 
 export interface DbCarBuildUpgrade {
@@ -156,10 +180,81 @@ export interface DbCarBuildSetting {
   value: string
 }
 
+/**
+ * Setup captured in CarBuildRevision.snapshot (jsonb)
+ * Upgrades/settings keep both the FK and the display names so old revisions
+ * still read correctly if a part or setting is later renamed
+ */
+export interface BuildSnapshot {
+  name: string
+  description: string | null
+  upgrades: Array<{
+    partId: string
+    category: string
+    part: string
+    value: string | null
+  }>
+  settings: Array<{
+    settingId: string | null
+    category: string
+    setting: string
+    value: string
+  }>
+  gears: Record<BuildGearField, string | null>
+}
+
+export type BuildGearField =
+  | 'finalDrive'
+  | 'gear1' | 'gear2' | 'gear3' | 'gear4' | 'gear5'
+  | 'gear6' | 'gear7' | 'gear8' | 'gear9' | 'gear10'
+  | 'gear11' | 'gear12' | 'gear13' | 'gear14' | 'gear15'
+  | 'gear16' | 'gear17' | 'gear18' | 'gear19' | 'gear20'
+
+// Part of a setup, scoped to whole tuning sections / part categories (by name)
+// Used to copy e.g. just the suspension between builds, and stored on BuildTemplate
+export interface PartialBuildSetup {
+  sections: string[]
+  categories: string[]
+  upgrades: BuildSnapshot['upgrades']
+  settings: BuildSnapshot['settings']
+  gears: Record<BuildGearField, string | null> | null // only when Transmission is included
+}
+
+export interface DbBuildTemplate {
+  id: string
+  userId: string
+  name: string
+  description: string | null
+  isPublic: boolean
+  setup: PartialBuildSetup
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DbCarBuildRevision {
+  id: string
+  buildId: string
+  revisionNumber: number
+  snapshot: BuildSnapshot
+  createdById: string | null
+  restoredFromId: string | null
+  createdAt: string
+}
+
 // ============================================================================
 // Races
 // ============================================================================
 
+// Race rules - every field is optional, an empty/missing field means "no restriction"
+// Validated by RaceRegulationsSchema, checked by @/lib/race-regulations.ts
+export interface RaceRegulations {
+  maxPp?: number | null
+  tyres?: TyreCompound[]
+  categories?: string[]
+  driveTypes?: string[]
+  manufacturers?: string[]
+}
+
 export interface DbRace {
   id: string
   trackId: string
@@ -172,6 +267,10 @@ export interface DbRace {
   createdById: string
   createdAt: string
   updatedAt: string
+  regulations: RaceRegulations | null
+  completedAt: string | null
+  pointsTable: number[] | null
+  lobbySettingsId: string | null
 }
 
 export interface DbRaceCar {
@@ -192,6 +291,133 @@ export interface DbRaceMember {
   updatedbyid: string | null
 }
 
+export type RaceResultStatus = 'FINISHED' | 'DNF' | 'DNS'
+
+export interface DbRaceResult {
+  id: string
+  raceId: string
+  userId: string
+  carId: string | null
+  buildId: string | null
+  status: RaceResultStatus
+  position: number | null
+  totalTimeMs: number | null
+  fastestLapMs: number | null
+  points: number
+  recordedById: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DbChampionship {
+  id: string
+  name: string
+  description: string | null
+  dropWorstRounds: number
+  createdById: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DbChampionshipRound {
+  id: string
+  championshipId: string
+  raceId: string
+  round: number
+  createdAt: string
+}
+
+// ============================================================================
+// Lobby Settings (GT7 room presets)
+// ============================================================================
+
+// Mirror the lobby enums of the remote schema
+export type LobbyRaceType = 'LAPS' | 'TIME_TRIAL' | 'ENDURANCE'
+export type LobbyStartType = 'GRID' | 'ROLLING' | 'FALSE_START_CHECK'
+export type BoostLevel = 'OFF' | 'WEAK' | 'STRONG'
+export type DamageLevel = 'NONE' | 'LIGHT' | 'HEAVY'
+export type PenaltyLevel = 'OFF' | 'WEAK' | 'DEFAULT' | 'STRONG'
+export type LobbyWeatherType = 'FIXED' | 'RANDOM' | 'DYNAMIC'
+export type TimeOfDay = 'DAWN' | 'MORNING' | 'NOON' | 'AFTERNOON' | 'DUSK' | 'NIGHT'
+export type AssistLevel = 'OFF' | 'WEAK' | 'DEFAULT' | 'STRONG' | 'PROHIBITED'
+
+// A named preset - races link to it with Race.lobbySettingsId
+export interface DbLobbySettings {
+  id: string
+  name: string
+  laps: number | null
+  raceType: LobbyRaceType
+  startType: LobbyStartType
+  boostLevel: BoostLevel
+  tireWearMultiplier: number
+  fuelConsumption: number
+  requiredTires: string | null // Comma separated TyreCompound codes
+  mechanicalDamage: DamageLevel
+  penaltyLevel: PenaltyLevel
+  lowMuSurface: boolean
+  wallCollisionPenalty: boolean
+  cornerCuttingPenalty: boolean
+  weather: LobbyWeatherType
+  weatherChangeability: number
+  timeOfDay: TimeOfDay
+  timeProgression: number
+  abs: AssistLevel
+  counterSteer: AssistLevel
+  tractionControl: AssistLevel
+  activeStabilityMgmt: AssistLevel
+  drivingLine: boolean
+  createdById: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// ============================================================================
+// Race Nights (Run Lists)
+// ============================================================================
+
+export type SessionStatus = 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED'
+
+// The lineup of a race night (one run list per night)
+export interface DbRunList {
+  id: string
+  name: string
+  description: string | null
+  isPublic: boolean
+  createdById: string
+  createdAt: string
+  updatedAt: string
+  isActive: boolean | null
+  isLive: boolean | null
+}
+
+export interface DbRunListEntry {
+  id: string
+  runListId: string
+  order: number
+  trackId: string
+  carId: string | null
+  buildId: string | null
+  raceId: string | null
+  lobbySettingsId: string | null
+  notes: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// The night itself - currentEntryOrder points at RunListEntry.order
+export interface DbRunSession {
+  id: string
+  runListId: string
+  name: string
+  date: string
+  currentEntryOrder: number | null
+  status: SessionStatus
+  startedAt: string | null
+  completedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
 // ============================================================================
 // Notes
 // ============================================================================
@@ -239,11 +465,76 @@ export interface DbLapTime {
   trackId: string
   carId: string
   buildId: string | null
+  revisionId: string | null
+  raceId: string | null
+  recordedById: string | null
+  sessionId: string | null
   timeMs: number
+  sectorTimesMs: number[] | null
   conditions: string | null
   notes: string | null
   sessionType: string | null
+  status: LapTimeStatus
+  // Outlier review - null unless the lap was flagged as implausible when it was saved
+  reviewStatus: LapTimeReviewStatus | null
+  outlierReasons: string[] | null
+  reviewedById: string | null
+  reviewedAt: string | null
+  createdAt: string
+}
+
+export type LapTimeStatus = 'ACTIVE' | 'DISPUTED' | 'REMOVED'
+
+export type LapTimeReviewStatus = 'PENDING' | 'APPROVED' | 'REJECTED'
+
+export interface DbLapTimeEdit {
+  id: string
+  lapTimeId: string
+  editedById: string | null
+  oldTimeMs: number
+  newTimeMs: number
+  changedFields: string[]
+  reason: string
+  createdAt: string
+}
+
+export interface DbLapTimeDispute {
+  id: string
+  lapTimeId: string
+  raisedById: string | null
+  comment: string
+  status: 'OPEN' | 'ACCEPTED' | 'REMOVED'
+  resolvedById: string | null
+  resolutionNote: string | null
+  resolvedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DbLapSession {
+  id: string
+  userId: string
+  trackId: string
+  raceId: string | null
+  date: string
+  sessionType: 'P' | 'Q' | 'R'
+  conditions: string | null
+  notes: string | null
   createdAt: string
+  updatedAt: string
+}
+
+// category NULL = overall record at the track, otherwise the car category's record
+export interface DbTrackRecord {
+  id: string
+  trackId: string
+  category: string | null
+  lapTimeId: string
+  userId: string | null
+  timeMs: number
+  previousTimeMs: number | null
+  previousUserId: string | null
+  setAt: string
 }
 
 // ============================================================================
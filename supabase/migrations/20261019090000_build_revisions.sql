@@ -0,0 +1,70 @@
+  create table "public"."CarBuildRevision" (
+    "id" text not null,
+    "buildId" text not null,
+    "revisionNumber" integer not null,
+    "snapshot" jsonb not null,
+    "createdById" text,
+    "restoredFromId" text,
+    "createdAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP
+      );
+
+
+alter table "public"."CarBuildRevision" enable row level security;
+
+comment on table "public"."CarBuildRevision" is 'Immutable snapshots of a build (parts, tuning settings, gear ratios) taken on every save';
+
+comment on column "public"."CarBuildRevision"."snapshot" is 'Build setup at save time: { name, description, upgrades[], settings[], gears{} }';
+
+comment on column "public"."CarBuildRevision"."restoredFromId" is 'Revision this one was restored from (null for regular saves)';
+
+CREATE UNIQUE INDEX "CarBuildRevision_pkey" ON public."CarBuildRevision" USING btree (id);
+
+CREATE UNIQUE INDEX "CarBuildRevision_buildId_revisionNumber_key" ON public."CarBuildRevision" USING btree ("buildId", "revisionNumber");
+
+CREATE INDEX "CarBuildRevision_buildId_idx" ON public."CarBuildRevision" USING btree ("buildId");
+
+alter table "public"."CarBuildRevision" add constraint "CarBuildRevision_pkey" PRIMARY KEY using index "CarBuildRevision_pkey";
+
+alter table "public"."CarBuildRevision" add constraint "CarBuildRevision_buildId_revisionNumber_key" UNIQUE using index "CarBuildRevision_buildId_revisionNumber_key";
+
+alter table "public"."CarBuildRevision" add constraint "CarBuildRevision_buildId_fkey" FOREIGN KEY ("buildId") REFERENCES public."CarBuild"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."CarBuildRevision" validate constraint "CarBuildRevision_buildId_fkey";
+
+alter table "public"."CarBuildRevision" add constraint "CarBuildRevision_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES public."User"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."CarBuildRevision" validate constraint "CarBuildRevision_createdById_fkey";
+
+alter table "public"."CarBuildRevision" add constraint "CarBuildRevision_restoredFromId_fkey" FOREIGN KEY ("restoredFromId") REFERENCES public."CarBuildRevision"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."CarBuildRevision" validate constraint "CarBuildRevision_restoredFromId_fkey";
+
+-- Lap times record the exact revision they were set on
+alter table "public"."LapTime" add column "revisionId" text;
+
+CREATE INDEX "LapTime_revisionId_idx" ON public."LapTime" USING btree ("revisionId");
+
+alter table "public"."LapTime" add constraint "LapTime_revisionId_fkey" FOREIGN KEY ("revisionId") REFERENCES public."CarBuildRevision"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."LapTime" validate constraint "LapTime_revisionId_fkey";
+
+
+  create policy "BuildRevisions: Viewable if build is viewable"
+  on "public"."CarBuildRevision"
+  as permissive
+  for select
+  to public
+using ((EXISTS ( SELECT 1
+   FROM public."CarBuild"
+  WHERE (("CarBuild".id = "CarBuildRevision"."buildId") AND (("CarBuild"."isPublic" = true) OR ("CarBuild"."userId" = public.current_user_id()))))));
+
+
+
+  create policy "BuildRevisions: Users can create revisions of own builds"
+  on "public"."CarBuildRevision"
+  as permissive
+  for insert
+  to public
+with check ((EXISTS ( SELECT 1
+   FROM public."CarBuild"
+  WHERE (("CarBuild".id = "CarBuildRevision"."buildId") AND ("CarBuild"."userId" = public.current_user_id())))));
@@ -0,0 +1,12 @@
+-- Inputs for the gear ratio calculator (top speed per gear, RPM drop, sawtooth chart)
+alter table "public"."CarBuild" add column "tyreSize" text;
+
+alter table "public"."CarBuild" add column "redlineRpm" integer;
+
+comment on column "public"."CarBuild"."tyreSize" is 'Driven tyre size, e.g. 245/40R18 (or overall diameter in mm)';
+
+comment on column "public"."CarBuild"."redlineRpm" is 'Engine redline / shift RPM used for per-gear top speed';
+
+alter table "public"."CarBuild" add constraint "CarBuild_redlineRpm_check" CHECK ((("redlineRpm" IS NULL) OR (("redlineRpm" >= 1000) AND ("redlineRpm" <= 20000)))) not valid;
+
+alter table "public"."CarBuild" validate constraint "CarBuild_redlineRpm_check";
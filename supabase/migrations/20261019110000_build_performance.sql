@@ -0,0 +1,53 @@
+-- Stock PP per tyre compound (gt7data/rawcsv/stockperf.csv, loaded by scripts/import-stock-performance.ts)
+  create table "public"."CarStockPerformance" (
+    "carId" text not null,
+    "tyre" text not null,
+    "pp" numeric(7,2) not null
+      );
+
+
+alter table "public"."CarStockPerformance" enable row level security;
+
+comment on table "public"."CarStockPerformance" is 'Stock PP of each car on each tyre compound (GT7 data)';
+
+comment on column "public"."CarStockPerformance"."tyre" is 'Tyre compound code: CH/CM/CS, SH/SM/SS, RH/RM/RS, IM, W (heavy wet), D (dirt), S (snow)';
+
+CREATE UNIQUE INDEX "CarStockPerformance_pkey" ON public."CarStockPerformance" USING btree ("carId", tyre);
+
+alter table "public"."CarStockPerformance" add constraint "CarStockPerformance_pkey" PRIMARY KEY using index "CarStockPerformance_pkey";
+
+alter table "public"."CarStockPerformance" add constraint "CarStockPerformance_carId_fkey" FOREIGN KEY ("carId") REFERENCES public."Car"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."CarStockPerformance" validate constraint "CarStockPerformance_carId_fkey";
+
+alter table "public"."CarStockPerformance" add constraint "CarStockPerformance_tyre_check" CHECK ((tyre = ANY (ARRAY['CH'::text, 'CM'::text, 'CS'::text, 'SH'::text, 'SM'::text, 'SS'::text, 'RH'::text, 'RM'::text, 'RS'::text, 'IM'::text, 'W'::text, 'D'::text, 'S'::text]))) not valid;
+
+alter table "public"."CarStockPerformance" validate constraint "CarStockPerformance_tyre_check";
+
+
+  create policy "CarStockPerformance: Public read access"
+  on "public"."CarStockPerformance"
+  as permissive
+  for select
+  to public
+using (true);
+
+
+-- Estimated performance of each build (recomputed on every save, see src/lib/build-performance.ts)
+alter table "public"."CarBuild" add column "estimatedPp" numeric(7,2);
+
+alter table "public"."CarBuild" add column "estimatedPower" integer;
+
+alter table "public"."CarBuild" add column "estimatedWeight" integer;
+
+alter table "public"."CarBuild" add column "estimatedTyre" text;
+
+comment on column "public"."CarBuild"."estimatedPp" is 'Estimated PP from stock PP (per tyre), power and weight changes of the selected parts/settings';
+
+comment on column "public"."CarBuild"."estimatedPower" is 'Estimated max power (hp) after engine parts, ECU output and Power Restrictor';
+
+comment on column "public"."CarBuild"."estimatedWeight" is 'Estimated weight (kg) after weight reduction stages and ballast';
+
+comment on column "public"."CarBuild"."estimatedTyre" is 'Tyre compound code the PP estimate was made for';
+
+CREATE INDEX "CarBuild_estimatedPp_idx" ON public."CarBuild" USING btree ("estimatedPp");
@@ -0,0 +1,4 @@
+-- Race regulations (PP cap, tyres, car category, drive type, manufacturers)
+alter table "public"."Race" add column "regulations" jsonb;
+
+comment on column "public"."Race"."regulations" is 'Race rules: { maxPp, tyres[], categories[], driveTypes[], manufacturers[] } - null means no restrictions';
@@ -0,0 +1,45 @@
+  create table "public"."BuildTemplate" (
+    "id" text not null,
+    "userId" text not null,
+    "name" text not null,
+    "description" text,
+    "isPublic" boolean not null default false,
+    "setup" jsonb not null,
+    "createdAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP,
+    "updatedAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP
+      );
+
+
+alter table "public"."BuildTemplate" enable row level security;
+
+comment on table "public"."BuildTemplate" is 'Named partial setups (chosen tuning sections / part categories) not tied to a car, e.g. "Gr.3 wet baseline"';
+
+comment on column "public"."BuildTemplate"."setup" is 'Partial setup: { sections[], categories[], upgrades[], settings[], gears{} | null }';
+
+CREATE UNIQUE INDEX "BuildTemplate_pkey" ON public."BuildTemplate" USING btree (id);
+
+CREATE INDEX "BuildTemplate_userId_idx" ON public."BuildTemplate" USING btree ("userId");
+
+alter table "public"."BuildTemplate" add constraint "BuildTemplate_pkey" PRIMARY KEY using index "BuildTemplate_pkey";
+
+alter table "public"."BuildTemplate" add constraint "BuildTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES public."User"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."BuildTemplate" validate constraint "BuildTemplate_userId_fkey";
+
+
+  create policy "BuildTemplates: Viewable if public or own"
+  on "public"."BuildTemplate"
+  as permissive
+  for select
+  to public
+using ((("isPublic" = true) OR ("userId" = public.current_user_id())));
+
+
+
+  create policy "BuildTemplates: Users can manage own templates"
+  on "public"."BuildTemplate"
+  as permissive
+  for all
+  to public
+using (("userId" = public.current_user_id()))
+with check (("userId" = public.current_user_id()));
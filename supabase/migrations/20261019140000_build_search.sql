@@ -0,0 +1,115 @@
+-- Server-side build search (GET /api/builds/search, see src/lib/build-search.ts)
+-- Full-text match over build name/description + car manufacturer/name, facet filters,
+-- sorting by recency / race usage / fastest lap and facet counts in one round trip
+CREATE OR REPLACE FUNCTION public.search_builds(
+  p_query text DEFAULT NULL,
+  p_manufacturer text DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_drive_type text DEFAULT NULL,
+  p_user_id text DEFAULT NULL,
+  p_track_id text DEFAULT NULL,
+  p_part_id uuid DEFAULT NULL,
+  p_public_only boolean DEFAULT false,
+  p_min_pp numeric DEFAULT NULL,
+  p_max_pp numeric DEFAULT NULL,
+  p_viewer_id text DEFAULT NULL,
+  p_sort text DEFAULT 'recent',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+) RETURNS jsonb
+    LANGUAGE sql STABLE
+    SET search_path = public
+    AS $$
+  WITH matches AS (
+    SELECT
+      b.id,
+      b."userId",
+      b."createdAt",
+      c.manufacturer,
+      c.category::text AS category,
+      c."driveType"::text AS drive_type,
+      (SELECT count(*) FROM "RaceCar" rc WHERE rc."buildId" = b.id) AS race_count,
+      (
+        SELECT min(lt."timeMs") FROM "LapTime" lt
+        WHERE lt."buildId" = b.id AND (p_track_id IS NULL OR lt."trackId" = p_track_id)
+      ) AS fastest_lap_ms
+    FROM "CarBuild" b
+    JOIN "Car" c ON c.id = b."carId"
+    WHERE (b."isPublic" OR b."userId" = p_viewer_id)
+      AND (NOT p_public_only OR b."isPublic")
+      -- p_query is a to_tsquery() string (prefix terms), built from user input by toBuildSearchQuery()
+      AND (
+        p_query IS NULL
+        OR to_tsvector('simple', b.name || ' ' || coalesce(b.description, '') || ' ' || c.manufacturer || ' ' || c.name)
+          @@ to_tsquery('simple', p_query)
+      )
+      AND (p_manufacturer IS NULL OR c.manufacturer = p_manufacturer)
+      AND (p_category IS NULL OR c.category::text = p_category)
+      AND (p_drive_type IS NULL OR c."driveType"::text = p_drive_type)
+      AND (p_user_id IS NULL OR b."userId" = p_user_id)
+      AND (p_min_pp IS NULL OR b."estimatedPp" >= p_min_pp)
+      AND (p_max_pp IS NULL OR b."estimatedPp" <= p_max_pp)
+      AND (
+        p_track_id IS NULL
+        OR EXISTS (SELECT 1 FROM "LapTime" lt WHERE lt."buildId" = b.id AND lt."trackId" = p_track_id)
+      )
+      AND (
+        p_part_id IS NULL
+        OR EXISTS (SELECT 1 FROM "CarBuildUpgrade" u WHERE u."buildId" = b.id AND u."partId" = p_part_id)
+      )
+  ),
+  ranked AS (
+    SELECT
+      m.*,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'races' THEN m.race_count END DESC NULLS LAST,
+          CASE WHEN p_sort = 'fastest' THEN m.fastest_lap_ms END ASC NULLS LAST,
+          m."createdAt" DESC,
+          m.id
+      ) AS position
+    FROM matches m
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matches),
+    'results', coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object('id', r.id, 'raceCount', r.race_count, 'fastestLapMs', r.fastest_lap_ms)
+        ORDER BY r.position
+      )
+      FROM ranked r
+      WHERE r.position > p_offset AND r.position <= p_offset + p_limit
+    ), '[]'::jsonb),
+    -- Facet counts are over the whole filtered result set (not just the current page)
+    'facets', jsonb_build_object(
+      'manufacturer', coalesce((
+        SELECT jsonb_agg(jsonb_build_object('value', f.manufacturer, 'label', f.manufacturer, 'count', f.n) ORDER BY f.manufacturer)
+        FROM (SELECT manufacturer, count(*) AS n FROM matches GROUP BY manufacturer) f
+      ), '[]'::jsonb),
+      'category', coalesce((
+        SELECT jsonb_agg(jsonb_build_object('value', f.category, 'label', f.category, 'count', f.n) ORDER BY f.category)
+        FROM (SELECT category, count(*) AS n FROM matches WHERE category IS NOT NULL GROUP BY category) f
+      ), '[]'::jsonb),
+      'driveType', coalesce((
+        SELECT jsonb_agg(jsonb_build_object('value', f.drive_type, 'label', f.drive_type, 'count', f.n) ORDER BY f.drive_type)
+        FROM (SELECT drive_type, count(*) AS n FROM matches WHERE drive_type IS NOT NULL GROUP BY drive_type) f
+      ), '[]'::jsonb),
+      'creator', coalesce((
+        SELECT jsonb_agg(
+          jsonb_build_object('value', f."userId", 'label', coalesce(u.gamertag, u.name, u.email), 'count', f.n)
+          ORDER BY f.n DESC, coalesce(u.gamertag, u.name, u.email)
+        )
+        FROM (SELECT "userId", count(*) AS n FROM matches GROUP BY "userId") f
+        JOIN "User" u ON u.id = f."userId"
+      ), '[]'::jsonb)
+    )
+  );
+$$;
+
+
+ALTER FUNCTION public.search_builds(text, text, text, text, text, text, uuid, boolean, numeric, numeric, text, text, integer, integer) OWNER TO "postgres";
+
+-- Visibility is decided by p_viewer_id, so only the server (service role) may call it
+REVOKE ALL ON FUNCTION public.search_builds(text, text, text, text, text, text, uuid, boolean, numeric, numeric, text, text, integer, integer) FROM PUBLIC, "anon", "authenticated";
+
+GRANT EXECUTE ON FUNCTION public.search_builds(text, text, text, text, text, text, uuid, boolean, numeric, numeric, text, text, integer, integer) TO "service_role";
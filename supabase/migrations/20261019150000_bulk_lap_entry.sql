@@ -0,0 +1,17 @@
+alter table "public"."LapTime" add column "recordedById" text;
+
+alter table "public"."LapTime" add column "raceId" text;
+
+comment on column "public"."LapTime"."recordedById" is 'User who entered the lap (differs from userId when an admin records for another member); NULL for laps recorded before bulk entry existed';
+
+comment on column "public"."LapTime"."raceId" is 'Race the lap was entered for (bulk race-night entry); NULL for laps recorded on their own';
+
+CREATE INDEX "LapTime_raceId_idx" ON public."LapTime" USING btree ("raceId");
+
+alter table "public"."LapTime" add constraint "LapTime_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES public."User"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."LapTime" validate constraint "LapTime_recordedById_fkey";
+
+alter table "public"."LapTime" add constraint "LapTime_raceId_fkey" FOREIGN KEY ("raceId") REFERENCES public."Race"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."LapTime" validate constraint "LapTime_raceId_fkey";
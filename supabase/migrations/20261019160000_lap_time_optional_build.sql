@@ -0,0 +1,3 @@
+-- Lap times without a build (CSV imports of historic times, see src/lib/lap-time-csv.ts)
+-- The API already treats buildId as optional; buildName can still hold a name-only snapshot
+alter table "public"."LapTime" alter column "buildId" drop not null;
@@ -0,0 +1,15 @@
+alter table "public"."Track" add column "sectorCount" integer;
+
+alter table "public"."LapTime" add column "sectorTimesMs" integer[];
+
+comment on column "public"."Track"."sectorCount" is 'Number of timing sectors (2-10); NULL = sector splits not configured for this track';
+
+comment on column "public"."LapTime"."sectorTimesMs" is 'Optional sector splits in ms, one per Track.sectorCount, summing to timeMs (see src/lib/sectors.ts)';
+
+alter table "public"."Track" add constraint "Track_sectorCount_check" CHECK ((("sectorCount" IS NULL) OR (("sectorCount" >= 2) AND ("sectorCount" <= 10)))) not valid;
+
+alter table "public"."Track" validate constraint "Track_sectorCount_check";
+
+alter table "public"."LapTime" add constraint "LapTime_sectorTimesMs_check" CHECK ((("sectorTimesMs" IS NULL) OR ((array_length("sectorTimesMs", 1) >= 2) AND (array_length("sectorTimesMs", 1) <= 10)))) not valid;
+
+alter table "public"."LapTime" validate constraint "LapTime_sectorTimesMs_check";
@@ -0,0 +1,75 @@
+-- Practice session type
+
+alter table "public"."LapTime" drop constraint "LapTime_sessionType_check";
+
+alter table "public"."LapTime" add constraint "LapTime_sessionType_check" CHECK (("sessionType" = ANY (ARRAY['P'::text, 'Q'::text, 'R'::text]))) not valid;
+
+alter table "public"."LapTime" validate constraint "LapTime_sessionType_check";
+
+
+-- Lap sessions (stints): one driver, one track, one sitting
+
+  create table "public"."LapSession" (
+    "id" text not null,
+    "userId" text not null,
+    "trackId" text not null,
+    "raceId" text,
+    "date" date not null default CURRENT_DATE,
+    "sessionType" text not null default 'P'::text,
+    "conditions" text,
+    "notes" text,
+    "createdAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP,
+    "updatedAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP
+      );
+
+
+alter table "public"."LapSession" enable row level security;
+
+comment on table "public"."LapSession" is 'A stint of laps by one driver at one track (date, race, conditions); LapTime.sessionId groups laps into it';
+
+comment on column "public"."LapSession"."sessionType" is 'P (practice), Q (qualifying) or R (race) - copied to every lap in the session';
+
+CREATE UNIQUE INDEX "LapSession_pkey" ON public."LapSession" USING btree (id);
+
+CREATE INDEX "LapSession_userId_date_idx" ON public."LapSession" USING btree ("userId", date DESC);
+
+CREATE INDEX "LapSession_raceId_idx" ON public."LapSession" USING btree ("raceId");
+
+alter table "public"."LapSession" add constraint "LapSession_pkey" PRIMARY KEY using index "LapSession_pkey";
+
+alter table "public"."LapSession" add constraint "LapSession_sessionType_check" CHECK (("sessionType" = ANY (ARRAY['P'::text, 'Q'::text, 'R'::text])));
+
+alter table "public"."LapSession" add constraint "LapSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES public."User"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."LapSession" validate constraint "LapSession_userId_fkey";
+
+alter table "public"."LapSession" add constraint "LapSession_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES public."Track"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."LapSession" validate constraint "LapSession_trackId_fkey";
+
+alter table "public"."LapSession" add constraint "LapSession_raceId_fkey" FOREIGN KEY ("raceId") REFERENCES public."Race"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."LapSession" validate constraint "LapSession_raceId_fkey";
+
+
+  create policy "LapSessions: Users can manage own sessions"
+  on "public"."LapSession"
+  as permissive
+  for all
+  to public
+using (("userId" = public.current_user_id()))
+with check (("userId" = public.current_user_id()));
+
+
+-- LapTime.sessionId was never written (it pointed at RunSession, the run list planner);
+-- it now groups laps into a LapSession. Deleting a session keeps its laps.
+
+update "public"."LapTime" set "sessionId" = NULL where "sessionId" is not null;
+
+alter table "public"."LapTime" drop constraint "LapTime_sessionId_fkey";
+
+alter table "public"."LapTime" add constraint "LapTime_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES public."LapSession"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."LapTime" validate constraint "LapTime_sessionId_fkey";
+
+comment on column "public"."LapTime"."sessionId" is 'Lap session (stint) the lap belongs to; NULL for standalone laps';
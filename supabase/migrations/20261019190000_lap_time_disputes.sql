@@ -0,0 +1,105 @@
+-- Lap time status: disputes flag a lap, admins accept it again or remove it
+
+alter table "public"."LapTime" add column "status" text not null default 'ACTIVE'::text;
+
+comment on column "public"."LapTime"."status" is 'ACTIVE, DISPUTED (open dispute) or REMOVED (dispute upheld - hidden from leaderboards and race standings)';
+
+alter table "public"."LapTime" add constraint "LapTime_status_check" CHECK (("status" = ANY (ARRAY['ACTIVE'::text, 'DISPUTED'::text, 'REMOVED'::text]))) not valid;
+
+alter table "public"."LapTime" validate constraint "LapTime_status_check";
+
+
+-- Edit history: one row per PATCH /api/lap-times/[id]
+
+  create table "public"."LapTimeEdit" (
+    "id" text not null,
+    "lapTimeId" text not null,
+    "editedById" text,
+    "oldTimeMs" integer not null,
+    "newTimeMs" integer not null,
+    "changedFields" text[] not null default '{}'::text[],
+    "reason" text not null,
+    "createdAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP
+      );
+
+
+alter table "public"."LapTimeEdit" enable row level security;
+
+comment on table "public"."LapTimeEdit" is 'Audit trail of lap time edits (old/new timeMs, editor, reason); written by the API, never updated';
+
+comment on column "public"."LapTimeEdit"."changedFields" is 'LapTime columns the edit changed (timeMs, sectorTimesMs, notes, conditions)';
+
+CREATE UNIQUE INDEX "LapTimeEdit_pkey" ON public."LapTimeEdit" USING btree (id);
+
+CREATE INDEX "LapTimeEdit_lapTimeId_createdAt_idx" ON public."LapTimeEdit" USING btree ("lapTimeId", "createdAt");
+
+alter table "public"."LapTimeEdit" add constraint "LapTimeEdit_pkey" PRIMARY KEY using index "LapTimeEdit_pkey";
+
+alter table "public"."LapTimeEdit" add constraint "LapTimeEdit_lapTimeId_fkey" FOREIGN KEY ("lapTimeId") REFERENCES public."LapTime"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."LapTimeEdit" validate constraint "LapTimeEdit_lapTimeId_fkey";
+
+alter table "public"."LapTimeEdit" add constraint "LapTimeEdit_editedById_fkey" FOREIGN KEY ("editedById") REFERENCES public."User"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."LapTimeEdit" validate constraint "LapTimeEdit_editedById_fkey";
+
+
+-- Disputes: raised by other members, resolved by admins
+
+  create table "public"."LapTimeDispute" (
+    "id" text not null,
+    "lapTimeId" text not null,
+    "raisedById" text,
+    "comment" text not null,
+    "status" text not null default 'OPEN'::text,
+    "resolvedById" text,
+    "resolutionNote" text,
+    "resolvedAt" timestamp(3) without time zone,
+    "createdAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP,
+    "updatedAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP
+      );
+
+
+alter table "public"."LapTimeDispute" enable row level security;
+
+comment on table "public"."LapTimeDispute" is 'A member flagging a lap time; at most one OPEN dispute per lap';
+
+comment on column "public"."LapTimeDispute"."status" is 'OPEN, ACCEPTED (lap stands) or REMOVED (lap hidden, LapTime.status = REMOVED)';
+
+CREATE UNIQUE INDEX "LapTimeDispute_pkey" ON public."LapTimeDispute" USING btree (id);
+
+CREATE UNIQUE INDEX "LapTimeDispute_lapTimeId_open_key" ON public."LapTimeDispute" USING btree ("lapTimeId") WHERE ("status" = 'OPEN'::text);
+
+CREATE INDEX "LapTimeDispute_status_createdAt_idx" ON public."LapTimeDispute" USING btree (status, "createdAt" DESC);
+
+alter table "public"."LapTimeDispute" add constraint "LapTimeDispute_pkey" PRIMARY KEY using index "LapTimeDispute_pkey";
+
+alter table "public"."LapTimeDispute" add constraint "LapTimeDispute_status_check" CHECK (("status" = ANY (ARRAY['OPEN'::text, 'ACCEPTED'::text, 'REMOVED'::text])));
+
+alter table "public"."LapTimeDispute" add constraint "LapTimeDispute_lapTimeId_fkey" FOREIGN KEY ("lapTimeId") REFERENCES public."LapTime"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."LapTimeDispute" validate constraint "LapTimeDispute_lapTimeId_fkey";
+
+alter table "public"."LapTimeDispute" add constraint "LapTimeDispute_raisedById_fkey" FOREIGN KEY ("raisedById") REFERENCES public."User"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."LapTimeDispute" validate constraint "LapTimeDispute_raisedById_fkey";
+
+alter table "public"."LapTimeDispute" add constraint "LapTimeDispute_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES public."User"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."LapTimeDispute" validate constraint "LapTimeDispute_resolvedById_fkey";
+
+
+  create policy "LapTimeEdits: Viewable by everyone"
+  on "public"."LapTimeEdit"
+  as permissive
+  for select
+  to public
+using (true);
+
+
+  create policy "LapTimeDisputes: Viewable by everyone"
+  on "public"."LapTimeDispute"
+  as permissive
+  for select
+  to public
+using (true);
@@ -0,0 +1,171 @@
+-- Track records: the group's fastest lap per track (category NULL) and per track + car category
+
+  create table "public"."TrackRecord" (
+    "id" text not null,
+    "trackId" text not null,
+    "category" text,
+    "lapTimeId" text not null,
+    "userId" text,
+    "timeMs" integer not null,
+    "previousTimeMs" integer,
+    "previousUserId" text,
+    "setAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP
+      );
+
+
+alter table "public"."TrackRecord" enable row level security;
+
+comment on table "public"."TrackRecord" is 'Current record per track (category NULL = overall) and per track + car category; maintained by update_track_records() / rebuild_track_records()';
+
+comment on column "public"."TrackRecord"."category" is 'Car.category of the scope, NULL for the overall track record';
+
+comment on column "public"."TrackRecord"."previousTimeMs" is 'Record this one broke (NULL for the first lap at the track/category, or after a rebuild)';
+
+CREATE UNIQUE INDEX "TrackRecord_pkey" ON public."TrackRecord" USING btree (id);
+
+CREATE UNIQUE INDEX "TrackRecord_trackId_category_key" ON public."TrackRecord" USING btree ("trackId", COALESCE("category", ''::text));
+
+alter table "public"."TrackRecord" add constraint "TrackRecord_pkey" PRIMARY KEY using index "TrackRecord_pkey";
+
+alter table "public"."TrackRecord" add constraint "TrackRecord_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES public."Track"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."TrackRecord" validate constraint "TrackRecord_trackId_fkey";
+
+alter table "public"."TrackRecord" add constraint "TrackRecord_lapTimeId_fkey" FOREIGN KEY ("lapTimeId") REFERENCES public."LapTime"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."TrackRecord" validate constraint "TrackRecord_lapTimeId_fkey";
+
+alter table "public"."TrackRecord" add constraint "TrackRecord_userId_fkey" FOREIGN KEY ("userId") REFERENCES public."User"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."TrackRecord" validate constraint "TrackRecord_userId_fkey";
+
+alter table "public"."TrackRecord" add constraint "TrackRecord_previousUserId_fkey" FOREIGN KEY ("previousUserId") REFERENCES public."User"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."TrackRecord" validate constraint "TrackRecord_previousUserId_fkey";
+
+
+  create policy "TrackRecords: Viewable by everyone"
+  on "public"."TrackRecord"
+  as permissive
+  for select
+  to public
+using (true);
+
+
+-- Check a new lap against the overall and category record at its track (POST /api/lap-times)
+-- Returns one row per record the lap set; previousTimeMs is NULL when there was no record yet
+CREATE OR REPLACE FUNCTION public.update_track_records(p_lap_time_id text)
+RETURNS TABLE ("category" text, "timeMs" integer, "previousTimeMs" integer, "previousUserId" text)
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+DECLARE
+    lap record;
+    existing record;
+    scopes text[];
+    scope text;
+BEGIN
+    SELECT lt.id, lt."trackId", lt."userId", lt."timeMs", lt.status, c.category::text AS car_category
+    INTO lap
+    FROM "LapTime" lt
+    JOIN "Car" c ON c.id = lt."carId"
+    WHERE lt.id = p_lap_time_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lap time with ID % not found', p_lap_time_id;
+    END IF;
+
+    IF lap.status = 'REMOVED' THEN
+        RETURN;
+    END IF;
+
+    -- Serialise record updates per track: a concurrent lap at the same track waits
+    -- here, so two near-simultaneous laps can't both claim the record
+    PERFORM pg_advisory_xact_lock(hashtext('TrackRecord:' || lap."trackId"));
+
+    scopes := ARRAY[NULL::text];
+    IF lap.car_category IS NOT NULL THEN
+        scopes := scopes || lap.car_category;
+    END IF;
+
+    FOREACH scope IN ARRAY scopes LOOP
+        SELECT tr.id, tr."userId", tr."timeMs"
+        INTO existing
+        FROM "TrackRecord" tr
+        WHERE tr."trackId" = lap."trackId"
+          AND tr.category IS NOT DISTINCT FROM scope;
+
+        IF NOT FOUND THEN
+            INSERT INTO "TrackRecord" (id, "trackId", category, "lapTimeId", "userId", "timeMs", "setAt")
+            VALUES (gen_random_uuid()::text, lap."trackId", scope, lap.id, lap."userId", lap."timeMs", NOW());
+
+            category := scope;
+            "timeMs" := lap."timeMs";
+            "previousTimeMs" := NULL;
+            "previousUserId" := NULL;
+            RETURN NEXT;
+        ELSIF lap."timeMs" < existing."timeMs" THEN
+            UPDATE "TrackRecord"
+            SET "lapTimeId" = lap.id,
+                "userId" = lap."userId",
+                "timeMs" = lap."timeMs",
+                "previousTimeMs" = existing."timeMs",
+                "previousUserId" = existing."userId",
+                "setAt" = NOW()
+            WHERE id = existing.id;
+
+            category := scope;
+            "timeMs" := lap."timeMs";
+            "previousTimeMs" := existing."timeMs";
+            "previousUserId" := existing."userId";
+            RETURN NEXT;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+
+-- Recompute a track's records from its remaining laps after a record lap was edited,
+-- deleted or removed by a dispute. Silent: no notifications, previous holders are cleared
+CREATE OR REPLACE FUNCTION public.rebuild_track_records(p_track_id text) RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('TrackRecord:' || p_track_id));
+
+    DELETE FROM "TrackRecord" WHERE "trackId" = p_track_id;
+
+    INSERT INTO "TrackRecord" (id, "trackId", category, "lapTimeId", "userId", "timeMs", "setAt")
+    SELECT gen_random_uuid()::text, p_track_id, best.category, best.id, best."userId", best."timeMs", best."createdAt"
+    FROM (
+        (
+            SELECT NULL::text AS category, lt.id, lt."userId", lt."timeMs", lt."createdAt"
+            FROM "LapTime" lt
+            WHERE lt."trackId" = p_track_id AND lt.status <> 'REMOVED'
+            ORDER BY lt."timeMs", lt."createdAt"
+            LIMIT 1
+        )
+        UNION ALL
+        (
+            SELECT DISTINCT ON (c.category) c.category::text, lt.id, lt."userId", lt."timeMs", lt."createdAt"
+            FROM "LapTime" lt
+            JOIN "Car" c ON c.id = lt."carId"
+            WHERE lt."trackId" = p_track_id AND lt.status <> 'REMOVED' AND c.category IS NOT NULL
+            ORDER BY c.category, lt."timeMs", lt."createdAt"
+        )
+    ) best;
+END;
+$$;
+
+
+-- Seed records from the laps already logged
+DO $$
+DECLARE
+    track_id text;
+BEGIN
+    FOR track_id IN SELECT DISTINCT "trackId" FROM "LapTime" LOOP
+        PERFORM public.rebuild_track_records(track_id);
+    END LOOP;
+END;
+$$;
@@ -0,0 +1,149 @@
+-- Outlier review: implausible lap times (too fast for the track length, far off the
+-- track's distribution) are saved only after the driver confirms them and then wait
+-- for an admin review
+
+alter table "public"."LapTime" add column "reviewStatus" text;
+
+alter table "public"."LapTime" add column "outlierReasons" text[];
+
+alter table "public"."LapTime" add column "reviewedById" text;
+
+alter table "public"."LapTime" add column "reviewedAt" timestamp(3) without time zone;
+
+comment on column "public"."LapTime"."reviewStatus" is 'NULL (not flagged), PENDING (flagged as an outlier, waiting for an admin), APPROVED or REJECTED (LapTime.status = REMOVED)';
+
+comment on column "public"."LapTime"."outlierReasons" is 'Outlier check codes that flagged the lap (see src/lib/lap-time-outliers.ts)';
+
+alter table "public"."LapTime" add constraint "LapTime_reviewStatus_check" CHECK (("reviewStatus" = ANY (ARRAY['PENDING'::text, 'APPROVED'::text, 'REJECTED'::text]))) not valid;
+
+alter table "public"."LapTime" validate constraint "LapTime_reviewStatus_check";
+
+alter table "public"."LapTime" add constraint "LapTime_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES public."User"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."LapTime" validate constraint "LapTime_reviewedById_fkey";
+
+CREATE INDEX "LapTime_reviewStatus_idx" ON public."LapTime" USING btree ("reviewStatus") WHERE ("reviewStatus" IS NOT NULL);
+
+
+-- Track records ignore laps waiting for review (they are recomputed when a review completes)
+
+-- Check a new lap against the overall and category record at its track (POST /api/lap-times)
+-- Returns one row per record the lap set; previousTimeMs is NULL when there was no record yet
+CREATE OR REPLACE FUNCTION public.update_track_records(p_lap_time_id text)
+RETURNS TABLE ("category" text, "timeMs" integer, "previousTimeMs" integer, "previousUserId" text)
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+DECLARE
+    lap record;
+    existing record;
+    scopes text[];
+    scope text;
+BEGIN
+    SELECT lt.id, lt."trackId", lt."userId", lt."timeMs", lt.status, lt."reviewStatus", c.category::text AS car_category
+    INTO lap
+    FROM "LapTime" lt
+    JOIN "Car" c ON c.id = lt."carId"
+    WHERE lt.id = p_lap_time_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lap time with ID % not found', p_lap_time_id;
+    END IF;
+
+    -- Removed laps and laps waiting for an outlier review never set a record
+    IF lap.status = 'REMOVED' OR lap."reviewStatus" = 'PENDING' THEN
+        RETURN;
+    END IF;
+
+    -- Serialise record updates per track: a concurrent lap at the same track waits
+    -- here, so two near-simultaneous laps can't both claim the record
+    PERFORM pg_advisory_xact_lock(hashtext('TrackRecord:' || lap."trackId"));
+
+    scopes := ARRAY[NULL::text];
+    IF lap.car_category IS NOT NULL THEN
+        scopes := scopes || lap.car_category;
+    END IF;
+
+    FOREACH scope IN ARRAY scopes LOOP
+        SELECT tr.id, tr."userId", tr."timeMs"
+        INTO existing
+        FROM "TrackRecord" tr
+        WHERE tr."trackId" = lap."trackId"
+          AND tr.category IS NOT DISTINCT FROM scope;
+
+        IF NOT FOUND THEN
+            INSERT INTO "TrackRecord" (id, "trackId", category, "lapTimeId", "userId", "timeMs", "setAt")
+            VALUES (gen_random_uuid()::text, lap."trackId", scope, lap.id, lap."userId", lap."timeMs", NOW());
+
+            category := scope;
+            "timeMs" := lap."timeMs";
+            "previousTimeMs" := NULL;
+            "previousUserId" := NULL;
+            RETURN NEXT;
+        ELSIF lap."timeMs" < existing."timeMs" THEN
+            UPDATE "TrackRecord"
+            SET "lapTimeId" = lap.id,
+                "userId" = lap."userId",
+                "timeMs" = lap."timeMs",
+                "previousTimeMs" = existing."timeMs",
+                "previousUserId" = existing."userId",
+                "setAt" = NOW()
+            WHERE id = existing.id;
+
+            category := scope;
+            "timeMs" := lap."timeMs";
+            "previousTimeMs" := existing."timeMs";
+            "previousUserId" := existing."userId";
+            RETURN NEXT;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+
+-- SECURITY DEFINER - only the lap time API (service role) may call it
+REVOKE ALL ON FUNCTION public.update_track_records(text) FROM PUBLIC, "anon", "authenticated";
+
+GRANT EXECUTE ON FUNCTION public.update_track_records(text) TO "service_role";
+
+
+-- Recompute a track's records from its remaining laps after a record lap was edited,
+-- deleted, removed by a dispute or reviewed. Silent: no notifications, previous holders are cleared
+CREATE OR REPLACE FUNCTION public.rebuild_track_records(p_track_id text) RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('TrackRecord:' || p_track_id));
+
+    DELETE FROM "TrackRecord" WHERE "trackId" = p_track_id;
+
+    INSERT INTO "TrackRecord" (id, "trackId", category, "lapTimeId", "userId", "timeMs", "setAt")
+    SELECT gen_random_uuid()::text, p_track_id, best.category, best.id, best."userId", best."timeMs", best."createdAt"
+    FROM (
+        (
+            SELECT NULL::text AS category, lt.id, lt."userId", lt."timeMs", lt."createdAt"
+            FROM "LapTime" lt
+            WHERE lt."trackId" = p_track_id AND lt.status <> 'REMOVED'
+              AND lt."reviewStatus" IS DISTINCT FROM 'PENDING'
+            ORDER BY lt."timeMs", lt."createdAt"
+            LIMIT 1
+        )
+        UNION ALL
+        (
+            SELECT DISTINCT ON (c.category) c.category::text, lt.id, lt."userId", lt."timeMs", lt."createdAt"
+            FROM "LapTime" lt
+            JOIN "Car" c ON c.id = lt."carId"
+            WHERE lt."trackId" = p_track_id AND lt.status <> 'REMOVED'
+              AND lt."reviewStatus" IS DISTINCT FROM 'PENDING' AND c.category IS NOT NULL
+            ORDER BY c.category, lt."timeMs", lt."createdAt"
+        )
+    ) best;
+END;
+$$;
+
+
+-- SECURITY DEFINER - only the lap time API (service role) may call it
+REVOKE ALL ON FUNCTION public.rebuild_track_records(text) FROM PUBLIC, "anon", "authenticated";
+
+GRANT EXECUTE ON FUNCTION public.rebuild_track_records(text) TO "service_role";
@@ -0,0 +1,124 @@
+-- Race results: finishing positions, DNF/DNS and points per driver
+
+alter table "public"."Race" add column "completedAt" timestamp(3) without time zone;
+
+alter table "public"."Race" add column "pointsTable" integer[];
+
+comment on column "public"."Race"."completedAt" is 'When the results were marked final; NULL while the race is still to run (or results are provisional)';
+
+comment on column "public"."Race"."pointsTable" is 'Points for P1, P2, ... (positions past the end score 0); NULL = DEFAULT_POINTS_TABLE in src/lib/race-results.ts';
+
+
+  create table "public"."RaceResult" (
+    "id" text not null,
+    "raceId" text not null,
+    "userId" text not null,
+    "carId" text,
+    "buildId" text,
+    "status" text not null default 'FINISHED'::text,
+    "position" integer,
+    "totalTimeMs" integer,
+    "fastestLapMs" integer,
+    "points" integer not null default 0,
+    "recordedById" text,
+    "createdAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP,
+    "updatedAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP
+      );
+
+
+alter table "public"."RaceResult" enable row level security;
+
+comment on table "public"."RaceResult" is 'Finishing result of one driver in one race; replaced as a whole by save_race_results()';
+
+comment on column "public"."RaceResult"."status" is 'FINISHED, DNF (classified behind the finishers) or DNS (no position)';
+
+comment on column "public"."RaceResult"."points" is 'Points from the race''s points table at the time the results were saved';
+
+comment on column "public"."RaceResult"."carId" is 'Car driven (from the build) - used for manufacturer standings';
+
+CREATE UNIQUE INDEX "RaceResult_pkey" ON public."RaceResult" USING btree (id);
+
+CREATE UNIQUE INDEX "RaceResult_raceId_userId_key" ON public."RaceResult" USING btree ("raceId", "userId");
+
+CREATE UNIQUE INDEX "RaceResult_raceId_position_key" ON public."RaceResult" USING btree ("raceId", "position");
+
+CREATE INDEX "RaceResult_userId_idx" ON public."RaceResult" USING btree ("userId");
+
+alter table "public"."RaceResult" add constraint "RaceResult_pkey" PRIMARY KEY using index "RaceResult_pkey";
+
+alter table "public"."RaceResult" add constraint "RaceResult_status_check" CHECK (("status" = ANY (ARRAY['FINISHED'::text, 'DNF'::text, 'DNS'::text])));
+
+alter table "public"."RaceResult" add constraint "RaceResult_position_check" CHECK (((("status" = 'DNS'::text) AND ("position" IS NULL)) OR (("status" <> 'DNS'::text) AND ("position" >= 1))));
+
+alter table "public"."RaceResult" add constraint "RaceResult_raceId_fkey" FOREIGN KEY ("raceId") REFERENCES public."Race"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."RaceResult" validate constraint "RaceResult_raceId_fkey";
+
+alter table "public"."RaceResult" add constraint "RaceResult_userId_fkey" FOREIGN KEY ("userId") REFERENCES public."User"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."RaceResult" validate constraint "RaceResult_userId_fkey";
+
+alter table "public"."RaceResult" add constraint "RaceResult_carId_fkey" FOREIGN KEY ("carId") REFERENCES public."Car"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."RaceResult" validate constraint "RaceResult_carId_fkey";
+
+alter table "public"."RaceResult" add constraint "RaceResult_buildId_fkey" FOREIGN KEY ("buildId") REFERENCES public."CarBuild"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."RaceResult" validate constraint "RaceResult_buildId_fkey";
+
+alter table "public"."RaceResult" add constraint "RaceResult_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES public."User"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."RaceResult" validate constraint "RaceResult_recordedById_fkey";
+
+
+  create policy "RaceResults: Viewable by everyone"
+  on "public"."RaceResult"
+  as permissive
+  for select
+  to public
+using (true);
+
+
+-- Replace a race's results in one transaction (PUT /api/races/[id]/results)
+-- p_results: [{ userId, carId, buildId, status, position, totalTimeMs, fastestLapMs, points }]
+-- Points are computed by the API (src/lib/race-results.ts); this only stores them
+
+CREATE OR REPLACE FUNCTION public.save_race_results(
+    p_race_id text,
+    p_results jsonb,
+    p_points_table integer[],
+    p_completed boolean,
+    p_recorded_by text
+)
+RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+BEGIN
+    DELETE FROM "RaceResult" WHERE "raceId" = p_race_id;
+
+    INSERT INTO "RaceResult" (
+        id, "raceId", "userId", "carId", "buildId", status, position,
+        "totalTimeMs", "fastestLapMs", points, "recordedById", "createdAt", "updatedAt"
+    )
+    SELECT
+        gen_random_uuid()::text, p_race_id, r."userId", r."carId", r."buildId", r.status, r.position,
+        r."totalTimeMs", r."fastestLapMs", COALESCE(r.points, 0), p_recorded_by, now(), now()
+    FROM jsonb_to_recordset(p_results) AS r(
+        "userId" text, "carId" text, "buildId" text, status text, position integer,
+        "totalTimeMs" integer, "fastestLapMs" integer, points integer
+    );
+
+    UPDATE "Race"
+    SET "pointsTable" = p_points_table,
+        "completedAt" = CASE WHEN p_completed THEN COALESCE("completedAt", now()) ELSE NULL END,
+        "updatedAt" = now()
+    WHERE id = p_race_id;
+END;
+$$;
+
+
+-- SECURITY DEFINER and unchecked - only the API (service role, after its creator/admin check) may call it
+REVOKE ALL ON FUNCTION public.save_race_results(text, jsonb, integer[], boolean, text) FROM PUBLIC, "anon", "authenticated";
+
+GRANT EXECUTE ON FUNCTION public.save_race_results(text, jsonb, integer[], boolean, text) TO "service_role";
@@ -0,0 +1,103 @@
+-- Championships: a season of races, standings from RaceResult.points
+
+  create table "public"."Championship" (
+    "id" text not null,
+    "name" text not null,
+    "description" text,
+    "dropWorstRounds" integer not null default 0,
+    "createdById" text,
+    "createdAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP,
+    "updatedAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP
+      );
+
+
+alter table "public"."Championship" enable row level security;
+
+comment on table "public"."Championship" is 'A season: rounds are races (ChampionshipRound), standings add up RaceResult.points';
+
+comment on column "public"."Championship"."dropWorstRounds" is 'Each driver''s N lowest-scoring completed rounds don''t count (missed rounds score 0)';
+
+CREATE UNIQUE INDEX "Championship_pkey" ON public."Championship" USING btree (id);
+
+alter table "public"."Championship" add constraint "Championship_pkey" PRIMARY KEY using index "Championship_pkey";
+
+alter table "public"."Championship" add constraint "Championship_dropWorstRounds_check" CHECK ((("dropWorstRounds" >= 0) AND ("dropWorstRounds" <= 50)));
+
+alter table "public"."Championship" add constraint "Championship_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES public."User"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."Championship" validate constraint "Championship_createdById_fkey";
+
+
+  create table "public"."ChampionshipRound" (
+    "id" text not null,
+    "championshipId" text not null,
+    "raceId" text not null,
+    "round" integer not null,
+    "createdAt" timestamp(3) without time zone not null default CURRENT_TIMESTAMP
+      );
+
+
+alter table "public"."ChampionshipRound" enable row level security;
+
+comment on table "public"."ChampionshipRound" is 'A race counting as round N of a championship; a race can be in several championships';
+
+CREATE UNIQUE INDEX "ChampionshipRound_pkey" ON public."ChampionshipRound" USING btree (id);
+
+CREATE UNIQUE INDEX "ChampionshipRound_championshipId_raceId_key" ON public."ChampionshipRound" USING btree ("championshipId", "raceId");
+
+CREATE UNIQUE INDEX "ChampionshipRound_championshipId_round_key" ON public."ChampionshipRound" USING btree ("championshipId", "round");
+
+CREATE INDEX "ChampionshipRound_raceId_idx" ON public."ChampionshipRound" USING btree ("raceId");
+
+alter table "public"."ChampionshipRound" add constraint "ChampionshipRound_pkey" PRIMARY KEY using index "ChampionshipRound_pkey";
+
+alter table "public"."ChampionshipRound" add constraint "ChampionshipRound_round_check" CHECK (("round" >= 1));
+
+alter table "public"."ChampionshipRound" add constraint "ChampionshipRound_championshipId_fkey" FOREIGN KEY ("championshipId") REFERENCES public."Championship"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."ChampionshipRound" validate constraint "ChampionshipRound_championshipId_fkey";
+
+alter table "public"."ChampionshipRound" add constraint "ChampionshipRound_raceId_fkey" FOREIGN KEY ("raceId") REFERENCES public."Race"(id) ON DELETE CASCADE not valid;
+
+alter table "public"."ChampionshipRound" validate constraint "ChampionshipRound_raceId_fkey";
+
+
+  create policy "Championships: Viewable by everyone"
+  on "public"."Championship"
+  as permissive
+  for select
+  to public
+using (true);
+
+
+  create policy "ChampionshipRounds: Viewable by everyone"
+  on "public"."ChampionshipRound"
+  as permissive
+  for select
+  to public
+using (true);
+
+
+-- Replace a championship's rounds in one transaction (raceIds in round order)
+
+CREATE OR REPLACE FUNCTION public.set_championship_rounds(p_championship_id text, p_race_ids text[])
+RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+BEGIN
+    DELETE FROM "ChampionshipRound" WHERE "championshipId" = p_championship_id;
+
+    INSERT INTO "ChampionshipRound" (id, "championshipId", "raceId", round, "createdAt")
+    SELECT gen_random_uuid()::text, p_championship_id, race_id, ordinality::integer, now()
+    FROM unnest(p_race_ids) WITH ORDINALITY AS rounds(race_id, ordinality);
+
+    UPDATE "Championship" SET "updatedAt" = now() WHERE id = p_championship_id;
+END;
+$$;
+
+
+-- SECURITY DEFINER and unchecked - only the API (service role, after its creator/admin check) may call it
+REVOKE ALL ON FUNCTION public.set_championship_rounds(text, text[]) FROM PUBLIC, "anon", "authenticated";
+
+GRANT EXECUTE ON FUNCTION public.set_championship_rounds(text, text[]) TO "service_role";
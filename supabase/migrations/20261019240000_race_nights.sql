@@ -0,0 +1,73 @@
+-- Race nights: RunSession (dated night, status, current race) over a RunList of races
+
+alter table "public"."RunSession" add column "startedAt" timestamp(3) without time zone;
+
+alter table "public"."RunSession" add column "completedAt" timestamp(3) without time zone;
+
+comment on table "public"."RunSession" is 'A race night: the races of its run list (RunListEntry.raceId) in order, run on one date';
+
+comment on column "public"."RunSession"."currentEntryOrder" is 'RunListEntry.order of the race being run now; NULL before the night starts';
+
+comment on column "public"."RunSession"."status" is 'SCHEDULED -> IN_PROGRESS -> COMPLETED (or CANCELLED); COMPLETED and CANCELLED nights are archived';
+
+comment on column "public"."RunListEntry"."raceId" is 'Race run at this point of the night (trackId is copied from the race)';
+
+-- At most one night runs at a time - the Tonight page shows it
+CREATE UNIQUE INDEX "RunSession_single_in_progress_key" ON public."RunSession" USING btree ((true)) WHERE (status = 'IN_PROGRESS'::"SessionStatus");
+
+CREATE INDEX "RunListEntry_raceId_idx" ON public."RunListEntry" USING btree ("raceId");
+
+
+-- Replace a night's races in one transaction (raceIds in running order).
+-- The current race keeps the pointer when it moves; if it was removed the pointer
+-- stays at the same position (clamped to the new last race).
+
+CREATE OR REPLACE FUNCTION public.set_run_session_races(p_session_id text, p_race_ids text[])
+RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+DECLARE
+    v_run_list_id text;
+    v_current_order integer;
+    v_current_race_id text;
+    v_count integer := COALESCE(array_length(p_race_ids, 1), 0);
+BEGIN
+    SELECT "runListId", "currentEntryOrder" INTO v_run_list_id, v_current_order
+    FROM "RunSession" WHERE id = p_session_id;
+
+    IF v_run_list_id IS NULL THEN
+        RAISE EXCEPTION 'Run session % not found', p_session_id;
+    END IF;
+
+    SELECT "raceId" INTO v_current_race_id
+    FROM "RunListEntry" WHERE "runListId" = v_run_list_id AND "order" = v_current_order;
+
+    DELETE FROM "RunListEntry" WHERE "runListId" = v_run_list_id;
+
+    INSERT INTO "RunListEntry" (id, "runListId", "order", "trackId", "raceId", "createdAt", "updatedAt")
+    SELECT gen_random_uuid()::text, v_run_list_id, entries.ordinality::integer, r."trackId", r.id, now(), now()
+    FROM unnest(p_race_ids) WITH ORDINALITY AS entries(race_id, ordinality)
+    JOIN "Race" r ON r.id = entries.race_id;
+
+    UPDATE "RunSession"
+    SET "currentEntryOrder" = CASE
+            WHEN v_current_order IS NULL OR v_count = 0 THEN NULL
+            ELSE COALESCE(
+                (SELECT e."order" FROM "RunListEntry" e
+                 WHERE e."runListId" = v_run_list_id AND e."raceId" = v_current_race_id),
+                LEAST(v_current_order, v_count)
+            )
+        END,
+        "updatedAt" = now()
+    WHERE id = p_session_id;
+
+    UPDATE "RunList" SET "updatedAt" = now() WHERE id = v_run_list_id;
+END;
+$$;
+
+
+-- SECURITY DEFINER and unchecked - only the API (service role, after its host check) may call it
+REVOKE ALL ON FUNCTION public.set_run_session_races(text, text[]) FROM PUBLIC, "anon", "authenticated";
+
+GRANT EXECUTE ON FUNCTION public.set_run_session_races(text, text[]) TO "service_role";
@@ -0,0 +1,32 @@
+-- Lobby presets: named LobbySettings (the GT7 room setup) that races link to
+
+alter table "public"."LobbySettings" add column "createdById" text;
+
+alter table "public"."LobbySettings" alter column "updatedAt" set default CURRENT_TIMESTAMP;
+
+comment on table "public"."LobbySettings" is 'Named lobby preset (GT7 room settings); shared by every race that links to it (Race.lobbySettingsId)';
+
+comment on column "public"."LobbySettings"."requiredTires" is 'Comma separated tyre compound codes (e.g. RM,RS) - NULL = no required tyres';
+
+alter table "public"."LobbySettings" add constraint "LobbySettings_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES public."User"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."LobbySettings" validate constraint "LobbySettings_createdById_fkey";
+
+alter table "public"."LobbySettings" add constraint "LobbySettings_tireWearMultiplier_check" CHECK ((("tireWearMultiplier" >= 0) AND ("tireWearMultiplier" <= 50)));
+
+alter table "public"."LobbySettings" add constraint "LobbySettings_fuelConsumption_check" CHECK ((("fuelConsumption" >= 0) AND ("fuelConsumption" <= 50)));
+
+alter table "public"."LobbySettings" add constraint "LobbySettings_weatherChangeability_check" CHECK ((("weatherChangeability" >= 0) AND ("weatherChangeability" <= 10)));
+
+alter table "public"."LobbySettings" add constraint "LobbySettings_timeProgression_check" CHECK ((("timeProgression" >= 0) AND ("timeProgression" <= 60)));
+
+
+alter table "public"."Race" add column "lobbySettingsId" text;
+
+comment on column "public"."Race"."lobbySettingsId" is 'Lobby preset the host sets the room up with (NULL = none)';
+
+CREATE INDEX "Race_lobbySettingsId_idx" ON public."Race" USING btree ("lobbySettingsId");
+
+alter table "public"."Race" add constraint "Race_lobbySettingsId_fkey" FOREIGN KEY ("lobbySettingsId") REFERENCES public."LobbySettings"(id) ON DELETE SET NULL not valid;
+
+alter table "public"."Race" validate constraint "Race_lobbySettingsId_fkey";
@@ -0,0 +1,13 @@
+-- Realtime for races: the Tonight page, race member list and race page subscribe to
+-- Race, RaceCar and RaceMember changes (src/hooks/use-races-realtime.ts); RunSession
+-- carries the race night's current race pointer the host moves.
+
+ALTER PUBLICATION supabase_realtime ADD TABLE "public"."Race", "public"."RaceCar", "public"."RaceMember", "public"."RunSession";
+
+-- Realtime only delivers rows the subscriber can SELECT. The browser client isn't signed
+-- in to Supabase (auth is NextAuth), so races and their cars need a public read policy
+-- like RaceMember and RunSession already have. GET /api/races is public anyway.
+
+CREATE POLICY "Races are viewable by everyone" ON "public"."Race" FOR SELECT USING (true);
+
+CREATE POLICY "Race cars are viewable by everyone" ON "public"."RaceCar" FOR SELECT USING (true);
@@ -0,0 +1,38 @@
+-- Global leaderboard ranking in SQL (GET /api/leaderboards, see src/lib/leaderboard.ts)
+-- One row per driver: their best non-removed lap at the track matching the filters, and how
+-- many laps matched. Ranking client-side broke past max_rows (1000) laps per track.
+-- Ties keep the earlier lap as the driver's best
+CREATE OR REPLACE FUNCTION public.leaderboard_best_laps(
+  p_track_id text,
+  p_category text DEFAULT NULL,
+  p_car_id text DEFAULT NULL,
+  p_build_id text DEFAULT NULL,
+  p_conditions text DEFAULT NULL,
+  p_session_type text DEFAULT NULL,
+  p_from timestamp without time zone DEFAULT NULL,
+  p_to timestamp without time zone DEFAULT NULL
+) RETURNS TABLE ("lapId" text, "totalLaps" integer)
+    LANGUAGE sql STABLE
+    SET search_path = public
+    AS $$
+  SELECT DISTINCT ON (lt."userId")
+    lt.id,
+    (count(*) OVER (PARTITION BY lt."userId"))::integer
+  FROM "LapTime" lt
+  JOIN "Car" c ON c.id = lt."carId"
+  WHERE lt."trackId" = p_track_id
+    AND lt.status <> 'REMOVED'
+    AND (p_category IS NULL OR c.category::text = p_category)
+    AND (p_car_id IS NULL OR lt."carId" = p_car_id)
+    AND (p_build_id IS NULL OR lt."buildId" = p_build_id)
+    AND (p_conditions IS NULL OR lt.conditions = p_conditions)
+    AND (p_session_type IS NULL OR lt."sessionType" = p_session_type)
+    AND (p_from IS NULL OR lt."createdAt" >= p_from)
+    AND (p_to IS NULL OR lt."createdAt" < p_to)
+  ORDER BY lt."userId", lt."timeMs", lt."createdAt";
+$$;
+
+
+ALTER FUNCTION public.leaderboard_best_laps(text, text, text, text, text, text, timestamp without time zone, timestamp without time zone) OWNER TO "postgres";
+
+GRANT EXECUTE ON FUNCTION public.leaderboard_best_laps(text, text, text, text, text, text, timestamp without time zone, timestamp without time zone) TO "service_role";
@@ -0,0 +1,22 @@
+-- Head-to-head best laps in SQL (GET /api/compare/drivers, see src/lib/driver-comparison.ts)
+-- Each driver's best non-removed lap per track (p_per_car: per track + car). Returns LapTime
+-- rows so the route can embed Track/Car. Fetching every lap broke past max_rows (1000).
+-- Ties keep the earlier lap as the driver's best
+CREATE OR REPLACE FUNCTION public.driver_best_laps(
+  p_user_ids text[],
+  p_per_car boolean DEFAULT false
+) RETURNS SETOF "LapTime"
+    LANGUAGE sql STABLE
+    SET search_path = public
+    AS $$
+  SELECT DISTINCT ON (lt."userId", lt."trackId", CASE WHEN p_per_car THEN lt."carId" END) lt.*
+  FROM "LapTime" lt
+  WHERE lt."userId" = ANY (p_user_ids)
+    AND lt.status <> 'REMOVED'
+  ORDER BY lt."userId", lt."trackId", CASE WHEN p_per_car THEN lt."carId" END, lt."timeMs", lt."createdAt";
+$$;
+
+
+ALTER FUNCTION public.driver_best_laps(text[], boolean) OWNER TO "postgres";
+
+GRANT EXECUTE ON FUNCTION public.driver_best_laps(text[], boolean) TO "service_role";
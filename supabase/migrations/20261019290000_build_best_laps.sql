@@ -0,0 +1,25 @@
+-- Best lap of every build per track, grouped in SQL - fetching every lap broke past max_rows (1000)
+-- - p_track_ids: Every build at these tracks (GET /api/builds/[id]/usage ranks the build
+--   against them, see src/lib/build-usage.ts)
+-- - p_build_ids: These builds at every track (GET /api/builds/compare)
+-- NULL filters are ignored. Laps without a build and removed laps don't rank
+CREATE OR REPLACE FUNCTION public.build_best_laps(
+  p_track_ids text[] DEFAULT NULL,
+  p_build_ids text[] DEFAULT NULL
+) RETURNS TABLE ("buildId" text, "trackId" text, "timeMs" integer)
+    LANGUAGE sql STABLE
+    SET search_path = public
+    AS $$
+  SELECT lt."buildId", lt."trackId", min(lt."timeMs")
+  FROM "LapTime" lt
+  WHERE (p_track_ids IS NULL OR lt."trackId" = ANY (p_track_ids))
+    AND (p_build_ids IS NULL OR lt."buildId" = ANY (p_build_ids))
+    AND lt."buildId" IS NOT NULL
+    AND lt.status <> 'REMOVED'
+  GROUP BY lt."buildId", lt."trackId";
+$$;
+
+
+ALTER FUNCTION public.build_best_laps(text[], text[]) OWNER TO "postgres";
+
+GRANT EXECUTE ON FUNCTION public.build_best_laps(text[], text[]) TO "service_role";
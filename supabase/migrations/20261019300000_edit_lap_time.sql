@@ -0,0 +1,54 @@
+-- Edit a lap time and record the edit in one transaction (PATCH /api/lap-times/[id])
+-- p_changes: LapTime columns to set (timeMs, sectorTimesMs, notes, conditions and the review
+-- columns) - keys that are absent keep their value. The API validates the edit first
+-- (diffLapTimeEdit, sectors, outlier check); an edit is never saved without its LapTimeEdit row.
+-- Returns { lapTime, edit }
+CREATE OR REPLACE FUNCTION public.edit_lap_time(
+    p_lap_time_id text,
+    p_changes jsonb,
+    p_edited_by text,
+    p_changed_fields text[],
+    p_reason text
+)
+RETURNS jsonb
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+DECLARE
+    v_old "LapTime";
+    v_new "LapTime";
+    v_set "LapTime" := jsonb_populate_record(NULL::"LapTime", p_changes);
+    v_edit "LapTimeEdit";
+BEGIN
+    SELECT * INTO v_old FROM "LapTime" WHERE id = p_lap_time_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lap time with ID % not found', p_lap_time_id;
+    END IF;
+
+    UPDATE "LapTime"
+    SET "timeMs" = CASE WHEN p_changes ? 'timeMs' THEN v_set."timeMs" ELSE "timeMs" END,
+        "sectorTimesMs" = CASE WHEN p_changes ? 'sectorTimesMs' THEN v_set."sectorTimesMs" ELSE "sectorTimesMs" END,
+        notes = CASE WHEN p_changes ? 'notes' THEN v_set.notes ELSE notes END,
+        conditions = CASE WHEN p_changes ? 'conditions' THEN v_set.conditions ELSE conditions END,
+        "reviewStatus" = CASE WHEN p_changes ? 'reviewStatus' THEN v_set."reviewStatus" ELSE "reviewStatus" END,
+        "outlierReasons" = CASE WHEN p_changes ? 'outlierReasons' THEN v_set."outlierReasons" ELSE "outlierReasons" END,
+        "reviewedById" = CASE WHEN p_changes ? 'reviewedById' THEN v_set."reviewedById" ELSE "reviewedById" END,
+        "reviewedAt" = CASE WHEN p_changes ? 'reviewedAt' THEN v_set."reviewedAt" ELSE "reviewedAt" END,
+        "updatedAt" = now()
+    WHERE id = p_lap_time_id
+    RETURNING * INTO v_new;
+
+    INSERT INTO "LapTimeEdit" (id, "lapTimeId", "editedById", "oldTimeMs", "newTimeMs", "changedFields", reason, "createdAt")
+    VALUES (gen_random_uuid()::text, p_lap_time_id, p_edited_by, v_old."timeMs", v_new."timeMs", p_changed_fields, p_reason, now())
+    RETURNING * INTO v_edit;
+
+    RETURN jsonb_build_object('lapTime', to_jsonb(v_new), 'edit', to_jsonb(v_edit));
+END;
+$$;
+
+
+-- SECURITY DEFINER and unchecked - only the API (service role, after its owner/admin check) may call it
+REVOKE ALL ON FUNCTION public.edit_lap_time(text, jsonb, text, text[], text) FROM PUBLIC, "anon", "authenticated";
+
+GRANT EXECUTE ON FUNCTION public.edit_lap_time(text, jsonb, text, text[], text) TO "service_role";
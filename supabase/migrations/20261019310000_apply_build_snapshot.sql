@@ -0,0 +1,63 @@
+-- Overwrite a build's gears, parts and tuning settings with a snapshot in one transaction
+-- (applyBuildSnapshot in src/lib/build-snapshot.ts - revision restore, copy setup, templates).
+-- A failed write used to leave the build half restored
+-- p_gears: { gear1..gear20, finalDrive } (every column is set, missing keys become NULL)
+-- p_upgrades: [{ partId, category, part, value }]
+-- p_settings: [{ settingId, category, setting, value }]
+CREATE OR REPLACE FUNCTION public.apply_build_snapshot(
+    p_build_id text,
+    p_gears jsonb,
+    p_upgrades jsonb,
+    p_settings jsonb
+)
+RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+DECLARE
+    v_gears "CarBuild" := jsonb_populate_record(NULL::"CarBuild", p_gears);
+BEGIN
+    UPDATE "CarBuild"
+    SET "gear1" = v_gears."gear1",
+        "gear2" = v_gears."gear2",
+        "gear3" = v_gears."gear3",
+        "gear4" = v_gears."gear4",
+        "gear5" = v_gears."gear5",
+        "gear6" = v_gears."gear6",
+        "gear7" = v_gears."gear7",
+        "gear8" = v_gears."gear8",
+        "gear9" = v_gears."gear9",
+        "gear10" = v_gears."gear10",
+        "gear11" = v_gears."gear11",
+        "gear12" = v_gears."gear12",
+        "gear13" = v_gears."gear13",
+        "gear14" = v_gears."gear14",
+        "gear15" = v_gears."gear15",
+        "gear16" = v_gears."gear16",
+        "gear17" = v_gears."gear17",
+        "gear18" = v_gears."gear18",
+        "gear19" = v_gears."gear19",
+        "gear20" = v_gears."gear20",
+        "finalDrive" = v_gears."finalDrive",
+        "updatedAt" = now()
+    WHERE id = p_build_id;
+
+    DELETE FROM "CarBuildUpgrade" WHERE "buildId" = p_build_id;
+
+    INSERT INTO "CarBuildUpgrade" (id, "buildId", "partId", category, part, value)
+    SELECT gen_random_uuid()::text, p_build_id, u."partId", u.category, u.part, u.value
+    FROM jsonb_to_recordset(p_upgrades) AS u("partId" uuid, category text, part text, value text);
+
+    DELETE FROM "CarBuildSetting" WHERE "buildId" = p_build_id;
+
+    INSERT INTO "CarBuildSetting" (id, "buildId", "settingId", category, setting, value)
+    SELECT gen_random_uuid()::text, p_build_id, s."settingId", s.category, s.setting, s.value
+    FROM jsonb_to_recordset(p_settings) AS s("settingId" uuid, category text, setting text, value text);
+END;
+$$;
+
+
+-- SECURITY DEFINER and unchecked - only the API (service role, after its owner check) may call it
+REVOKE ALL ON FUNCTION public.apply_build_snapshot(text, jsonb, jsonb, jsonb) FROM PUBLIC, "anon", "authenticated";
+
+GRANT EXECUTE ON FUNCTION public.apply_build_snapshot(text, jsonb, jsonb, jsonb) TO "service_role";
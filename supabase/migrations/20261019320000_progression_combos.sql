@@ -0,0 +1,60 @@
+-- PB progression index in SQL (GET /api/lap-times/progression without a combo, see
+-- src/lib/pb-progression.ts). One summary per track + car + build of the driver's
+-- non-removed laps, most recently driven first. Fetching every lap broke past max_rows (1000).
+-- A PB lap is faster than every earlier lap of the combo (createdAt, then id); the first lap counts
+CREATE OR REPLACE FUNCTION public.progression_combos(p_user_id text)
+RETURNS TABLE (
+  "key" text,
+  "trackId" text,
+  "carId" text,
+  "buildId" text,
+  "buildName" text,
+  "lapCount" integer,
+  "pbCount" integer,
+  "bestMs" integer,
+  "firstMs" integer,
+  "improvementMs" integer,
+  "firstLapAt" timestamp(3) without time zone,
+  "lastLapAt" timestamp(3) without time zone
+)
+    LANGUAGE sql STABLE
+    SET search_path = public
+    AS $$
+  WITH laps AS (
+    SELECT
+      lt.id, lt."trackId", lt."carId", lt."buildId", lt."buildName", lt."timeMs", lt."createdAt",
+      min(lt."timeMs") OVER earlier AS "earlierBestMs",
+      first_value(lt."timeMs") OVER (
+        PARTITION BY lt."trackId", lt."carId", lt."buildId" ORDER BY lt."createdAt", lt.id
+      ) AS "firstMs"
+    FROM "LapTime" lt
+    WHERE lt."userId" = p_user_id
+      AND lt.status <> 'REMOVED'
+    WINDOW earlier AS (
+      PARTITION BY lt."trackId", lt."carId", lt."buildId" ORDER BY lt."createdAt", lt.id
+      ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+    )
+  )
+  SELECT
+    l."trackId" || ':' || l."carId" || ':' || COALESCE(l."buildId", 'none'),
+    l."trackId",
+    l."carId",
+    l."buildId",
+    -- Latest build name the combo was driven with
+    (array_agg(l."buildName" ORDER BY l."createdAt" DESC, l.id DESC) FILTER (WHERE l."buildName" <> ''))[1],
+    count(*)::integer,
+    count(*) FILTER (WHERE l."earlierBestMs" IS NULL OR l."timeMs" < l."earlierBestMs")::integer,
+    min(l."timeMs"),
+    min(l."firstMs"),
+    min(l."firstMs") - min(l."timeMs"),
+    min(l."createdAt"),
+    max(l."createdAt")
+  FROM laps l
+  GROUP BY l."trackId", l."carId", l."buildId"
+  ORDER BY max(l."createdAt") DESC;
+$$;
+
+
+ALTER FUNCTION public.progression_combos(text) OWNER TO "postgres";
+
+GRANT EXECUTE ON FUNCTION public.progression_combos(text) TO "service_role";
@@ -0,0 +1,25 @@
+-- CSV import duplicate check in SQL (POST /api/lap-times/import): which of the given
+-- track + car + time triples the driver has already recorded. Returns at most one row per
+-- candidate, so a driver with more laps than max_rows (1000) is still fully checked
+-- p_laps: [{ trackId, carId, timeMs }]
+CREATE OR REPLACE FUNCTION public.find_duplicate_laps(p_user_id text, p_laps jsonb)
+RETURNS TABLE ("trackId" text, "carId" text, "timeMs" integer)
+    LANGUAGE sql STABLE
+    SET search_path = public
+    AS $$
+  SELECT DISTINCT c."trackId", c."carId", c."timeMs"
+  FROM jsonb_to_recordset(p_laps) AS c("trackId" text, "carId" text, "timeMs" integer)
+  WHERE EXISTS (
+    SELECT 1
+    FROM "LapTime" lt
+    WHERE lt."userId" = p_user_id
+      AND lt."trackId" = c."trackId"
+      AND lt."carId" = c."carId"
+      AND lt."timeMs" = c."timeMs"
+  );
+$$;
+
+
+ALTER FUNCTION public.find_duplicate_laps(text, jsonb) OWNER TO "postgres";
+
+GRANT EXECUTE ON FUNCTION public.find_duplicate_laps(text, jsonb) TO "service_role";
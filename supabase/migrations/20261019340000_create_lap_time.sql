@@ -0,0 +1,34 @@
+-- Insert a lap and check it against the track records in one transaction (POST /api/lap-times)
+-- If update_track_records() fails the lap is rolled back with it - no insert-then-delete
+-- p_lap: LapTime columns as sent by the API (id, userId, trackId, carId, timeMs, ...);
+-- status keeps its default (ACTIVE)
+-- Returns the records the lap set, like update_track_records()
+CREATE OR REPLACE FUNCTION public.create_lap_time(p_lap jsonb)
+RETURNS TABLE ("category" text, "timeMs" integer, "previousTimeMs" integer, "previousUserId" text)
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path = public
+    AS $$
+DECLARE
+    v_lap "LapTime" := jsonb_populate_record(NULL::"LapTime", p_lap);
+BEGIN
+    INSERT INTO "LapTime" (
+        id, "userId", "recordedById", "trackId", "carId", "buildId", "buildName", "revisionId",
+        "timeMs", "sectorTimesMs", notes, conditions, "sessionType", "sessionId",
+        "reviewStatus", "outlierReasons", "createdAt", "updatedAt"
+    )
+    VALUES (
+        v_lap.id, v_lap."userId", v_lap."recordedById", v_lap."trackId", v_lap."carId", v_lap."buildId",
+        v_lap."buildName", v_lap."revisionId", v_lap."timeMs", v_lap."sectorTimesMs", v_lap.notes,
+        v_lap.conditions, v_lap."sessionType", v_lap."sessionId", v_lap."reviewStatus",
+        v_lap."outlierReasons", v_lap."createdAt", v_lap."updatedAt"
+    );
+
+    RETURN QUERY SELECT * FROM public.update_track_records(v_lap.id);
+END;
+$$;
+
+
+-- SECURITY DEFINER and unchecked - only the lap time API (service role) may call it
+REVOKE ALL ON FUNCTION public.create_lap_time(jsonb) FROM PUBLIC, "anon", "authenticated";
+
+GRANT EXECUTE ON FUNCTION public.create_lap_time(jsonb) TO "service_role";